@@ -0,0 +1,55 @@
+-- drizzle/0003_promo_codes.sql
+-- Promo codes applied as cart_credits (reason = 'promo') + idempotent redemption log.
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto;
+
+CREATE TABLE IF NOT EXISTS promo_codes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  code text NOT NULL,
+  description text,
+
+  kind text NOT NULL,                     -- 'percent' | 'fixed' | 'free_shipping'
+
+  percent_off integer,
+  amount_off_cents_usd integer,
+  amount_off_cents_cad integer,
+
+  min_subtotal_cents_usd integer,
+  min_subtotal_cents_cad integer,
+
+  max_redemptions integer,
+  max_redemptions_per_customer integer,
+
+  product_ids jsonb NOT NULL DEFAULT '[]'::jsonb,
+  category_ids jsonb NOT NULL DEFAULT '[]'::jsonb,
+
+  starts_at timestamptz,
+  ends_at timestamptz,
+
+  active boolean NOT NULL DEFAULT true,
+
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+
+  CONSTRAINT promo_codes_kind_chk CHECK (kind IN ('percent', 'fixed', 'free_shipping')),
+  CONSTRAINT promo_codes_percent_chk CHECK (percent_off IS NULL OR (percent_off BETWEEN 1 AND 100))
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS promo_codes_code_uniq ON promo_codes (code);
+
+CREATE TABLE IF NOT EXISTS promo_redemptions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  promo_code_id uuid NOT NULL REFERENCES promo_codes(id) ON DELETE CASCADE,
+  order_id uuid NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  customer_id text NOT NULL,
+  amount_cents integer NOT NULL DEFAULT 0,
+  currency text NOT NULL DEFAULT 'USD',
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS promo_redemptions_promo_order_uniq
+  ON promo_redemptions (promo_code_id, order_id);
+
+CREATE INDEX IF NOT EXISTS promo_redemptions_promo_customer_idx
+  ON promo_redemptions (promo_code_id, customer_id);
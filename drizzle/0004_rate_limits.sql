@@ -0,0 +1,11 @@
+-- drizzle/0004_rate_limits.sql
+-- Shared counters for the distributed rate limiter (Postgres adapter).
+
+CREATE TABLE IF NOT EXISTS rate_limit_counters (
+  key text PRIMARY KEY,
+  count integer NOT NULL DEFAULT 0,
+  expires_at timestamptz NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS rate_limit_counters_expires_idx
+  ON rate_limit_counters (expires_at);
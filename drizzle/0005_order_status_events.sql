@@ -0,0 +1,42 @@
+-- drizzle/0005_order_status_events.sql
+-- Enforce the order_status enum on orders.status and add the status history table.
+
+-- 1) Map legacy free-text statuses onto the enum
+UPDATE orders
+SET status = CASE lower(status)
+  WHEN 'placed' THEN 'paid'
+  WHEN 'processing' THEN 'paid'
+  WHEN 'pending' THEN 'submitted'
+  WHEN 'shipped' THEN 'fulfilled'
+  WHEN 'completed' THEN 'fulfilled'
+  WHEN 'canceled' THEN 'cancelled'
+  ELSE CASE WHEN payment_status = 'paid' THEN 'paid' ELSE 'submitted' END
+END
+WHERE status NOT IN ('draft', 'submitted', 'paid', 'fulfilled', 'cancelled', 'refunded');
+
+-- 2) text -> order_status (type created in 0000)
+ALTER TABLE orders ALTER COLUMN status DROP DEFAULT;
+ALTER TABLE orders ALTER COLUMN status TYPE order_status USING status::order_status;
+ALTER TABLE orders ALTER COLUMN status SET DEFAULT 'draft';
+
+-- 3) History
+CREATE TABLE IF NOT EXISTS order_status_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  from_status order_status,
+  to_status order_status NOT NULL,
+  actor text NOT NULL,
+  request_id text,
+  reason text,
+  metadata jsonb NOT NULL DEFAULT '{}'::jsonb,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS order_status_events_order_idx
+  ON order_status_events (order_id, created_at);
+
+-- Backfill a creation event for existing orders so history is never empty
+INSERT INTO order_status_events (order_id, from_status, to_status, actor, reason, created_at)
+SELECT o.id, NULL, o.status, 'system:backfill', 'Imported existing order', COALESCE(o.placed_at, o.created_at)
+FROM orders o
+WHERE NOT EXISTS (SELECT 1 FROM order_status_events e WHERE e.order_id = o.id);
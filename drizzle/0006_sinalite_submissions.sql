@@ -0,0 +1,35 @@
+-- drizzle/0006_sinalite_submissions.sql
+-- Durable retry queue for submitting paid orders to Sinalite (POST /order/new).
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto;
+
+CREATE TABLE IF NOT EXISTS sinalite_submissions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+
+  status text NOT NULL DEFAULT 'pending', -- 'pending' | 'awaiting_artwork' | 'processing' | 'submitted' | 'failed'
+
+  attempts integer NOT NULL DEFAULT 0,
+  max_attempts integer NOT NULL DEFAULT 8,
+
+  next_attempt_at timestamptz NOT NULL DEFAULT now(),
+  locked_at timestamptz,
+
+  last_error text,
+  last_error_status integer,
+
+  ship_to jsonb,
+  payload jsonb,
+
+  sinalite_order_id text,
+  submitted_at timestamptz,
+
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+
+  CONSTRAINT sinalite_submissions_status_chk
+    CHECK (status IN ('pending', 'awaiting_artwork', 'processing', 'submitted', 'failed'))
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS sinalite_submissions_order_uniq ON sinalite_submissions (order_id);
+CREATE INDEX IF NOT EXISTS sinalite_submissions_due_idx ON sinalite_submissions (status, next_attempt_at);
@@ -0,0 +1,27 @@
+-- drizzle/0007_order_payment_events.sql
+-- Stripe refunds / disputes applied to orders (idempotent on Stripe event id).
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS refunded_cents integer NOT NULL DEFAULT 0;
+
+CREATE TABLE IF NOT EXISTS order_payment_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+
+  stripe_event_id text NOT NULL,
+  kind text NOT NULL,                     -- 'refund' | 'dispute_created' | 'dispute_won' | 'dispute_lost'
+
+  amount_cents integer NOT NULL DEFAULT 0,
+  currency text,
+  stripe_object_id text,
+
+  loyalty_clawback_points integer NOT NULL DEFAULT 0,
+
+  metadata jsonb NOT NULL DEFAULT '{}'::jsonb,
+  created_at timestamptz NOT NULL DEFAULT now(),
+
+  CONSTRAINT order_payment_events_kind_chk
+    CHECK (kind IN ('refund', 'dispute_created', 'dispute_won', 'dispute_lost'))
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS order_payment_events_stripe_event_uniq ON order_payment_events (stripe_event_id);
+CREATE INDEX IF NOT EXISTS order_payment_events_order_idx ON order_payment_events (order_id, created_at);
@@ -0,0 +1,29 @@
+-- drizzle/0009_stripe_events.sql
+-- Ledger of verified Stripe webhook deliveries (dedupe + failed-event replay).
+
+CREATE TABLE IF NOT EXISTS stripe_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  stripe_event_id text NOT NULL,
+  type text NOT NULL,
+  livemode boolean NOT NULL DEFAULT false,
+
+  payload_hash text NOT NULL,
+  payload jsonb NOT NULL,
+
+  status text NOT NULL DEFAULT 'processing',  -- 'processing' | 'processed' | 'ignored' | 'failed'
+  attempts integer NOT NULL DEFAULT 1,
+
+  result jsonb,
+  error text,
+
+  received_at timestamptz NOT NULL DEFAULT now(),
+  processed_at timestamptz,
+  updated_at timestamptz NOT NULL DEFAULT now(),
+
+  CONSTRAINT stripe_events_status_chk
+    CHECK (status IN ('processing', 'processed', 'ignored', 'failed'))
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS stripe_events_event_uniq ON stripe_events (stripe_event_id);
+CREATE INDEX IF NOT EXISTS stripe_events_status_idx ON stripe_events (status, received_at);
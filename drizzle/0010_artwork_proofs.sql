@@ -0,0 +1,29 @@
+-- drizzle/0010_artwork_proofs.sql
+-- Artwork proofing: versioned proof rounds + proof state on each upload.
+
+ALTER TABLE artwork_uploads ADD COLUMN IF NOT EXISTS proof_status text NOT NULL DEFAULT 'pending_review';
+ALTER TABLE artwork_uploads ADD COLUMN IF NOT EXISTS proof_version integer NOT NULL DEFAULT 0;
+
+-- Uploads approved before the workflow existed stay approved
+UPDATE artwork_uploads SET proof_status = 'approved' WHERE approved = true AND proof_status = 'pending_review';
+
+CREATE INDEX IF NOT EXISTS artwork_uploads_proof_status_idx ON artwork_uploads (proof_status);
+
+CREATE TABLE IF NOT EXISTS artwork_proofs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  artwork_upload_id uuid NOT NULL REFERENCES artwork_uploads(id) ON DELETE CASCADE,
+  order_id varchar(48),
+  version integer NOT NULL,
+  status text NOT NULL,
+  proof_url text,
+  proof_file_name text,
+  message text,
+  customer_comment text,
+  created_by text NOT NULL,
+  decided_by text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  decided_at timestamptz
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS artwork_proofs_upload_version_uniq ON artwork_proofs (artwork_upload_id, version);
+CREATE INDEX IF NOT EXISTS artwork_proofs_order_idx ON artwork_proofs (order_id, created_at);
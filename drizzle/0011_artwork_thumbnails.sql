@@ -0,0 +1,5 @@
+-- drizzle/0011_artwork_thumbnails.sql
+-- Rendered artwork previews (front/back at a few sizes) stored in R2 next to the original.
+-- Cart uploads keep theirs on cart_attachments.meta.thumbnails.
+
+ALTER TABLE artwork_uploads ADD COLUMN IF NOT EXISTS thumbnails jsonb;
@@ -0,0 +1,10 @@
+-- drizzle/0012_job_state.sql
+-- Per-job bookkeeping for cron jobs that work through something in pages across runs
+-- (e.g. the artwork retention sweep's R2 listing position) plus their last run summary.
+
+CREATE TABLE IF NOT EXISTS job_state (
+  name text PRIMARY KEY,
+  cursor text,
+  last_run jsonb,
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
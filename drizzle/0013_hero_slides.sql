@@ -0,0 +1,32 @@
+-- drizzle/0013_hero_slides.sql
+-- Homepage hero slides managed from the admin API (previously hard-coded in src/lib/heroSlides.ts).
+
+CREATE TABLE IF NOT EXISTS hero_slides (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- stable id used by hero analytics events
+  slug text NOT NULL,
+  status text NOT NULL DEFAULT 'draft',
+  priority integer NOT NULL DEFAULT 0,
+  starts_at timestamptz,
+  ends_at timestamptz,
+  audience_store text NOT NULL DEFAULT 'all',
+  audience_auth text NOT NULL DEFAULT 'all',
+  title text NOT NULL,
+  description text,
+  image_url text NOT NULL,
+  alt text NOT NULL,
+  cta_text text,
+  cta_href text,
+  badge text,
+  fit text,
+  focal text,
+  blur_data_url text,
+  created_by text NOT NULL,
+  updated_by text NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT hero_slides_window_chk CHECK (ends_at IS NULL OR starts_at IS NULL OR ends_at > starts_at)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS hero_slides_slug_uniq ON hero_slides (slug);
+CREATE INDEX IF NOT EXISTS hero_slides_status_priority_idx ON hero_slides (status, priority);
@@ -0,0 +1,11 @@
+-- drizzle/0014_hero_experiments.sql
+-- Hero A/B tests: per-slide variants, and variant/user on hero_events so clicks can be
+-- attributed to add-to-carts and orders (matched through carts.sid).
+
+ALTER TABLE hero_slides ADD COLUMN IF NOT EXISTS variants jsonb NOT NULL DEFAULT '[]'::jsonb;
+
+ALTER TABLE hero_events ADD COLUMN IF NOT EXISTS variant text;
+ALTER TABLE hero_events ADD COLUMN IF NOT EXISTS user_id text;
+
+CREATE INDEX IF NOT EXISTS hero_events_slide_variant_idx ON hero_events (slide_id, variant, type, created_at);
+CREATE INDEX IF NOT EXISTS hero_events_sid_created_idx ON hero_events (sid, created_at) WHERE type = 'click';
@@ -0,0 +1,99 @@
+-- drizzle/0015_analytics_events.sql
+-- First-party analytics: every tracked event (client beacons via /api/events and server-side
+-- emits) in one table range-partitioned by month, plus the daily rollups the funnel report reads.
+-- Monthly partitions are created ahead of time by /api/jobs/analytics-rollup; anything outside
+-- them lands in the default partition.
+
+CREATE TABLE IF NOT EXISTS analytics_events (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  occurred_at timestamptz NOT NULL DEFAULT now(),
+  received_at timestamptz NOT NULL DEFAULT now(),
+  sid text,
+  user_id text,
+  request_id text,
+  path text,
+  props jsonb NOT NULL DEFAULT '{}'::jsonb,
+  user_agent text,
+  PRIMARY KEY (id, occurred_at)
+) PARTITION BY RANGE (occurred_at);
+
+CREATE TABLE IF NOT EXISTS analytics_events_default PARTITION OF analytics_events DEFAULT;
+
+DO $$
+DECLARE
+  m date;
+BEGIN
+  FOR i IN 0..1 LOOP
+    m := (date_trunc('month', now() AT TIME ZONE 'UTC') + make_interval(months => i))::date;
+    EXECUTE format(
+      'CREATE TABLE IF NOT EXISTS %I PARTITION OF analytics_events FOR VALUES FROM (%L) TO (%L)',
+      'analytics_events_' || to_char(m, 'YYYYMM'),
+      m::timestamp AT TIME ZONE 'UTC',
+      (m + interval '1 month')::timestamp AT TIME ZONE 'UTC'
+    );
+  END LOOP;
+END $$;
+
+CREATE INDEX IF NOT EXISTS analytics_events_name_occurred_idx ON analytics_events (name, occurred_at);
+CREATE INDEX IF NOT EXISTS analytics_events_sid_occurred_idx ON analytics_events (sid, occurred_at);
+CREATE INDEX IF NOT EXISTS analytics_events_user_occurred_idx ON analytics_events (user_id, occurred_at)
+  WHERE user_id IS NOT NULL;
+
+-- Carry over what the per-feature tables collected so far, then retire them
+DO $$
+BEGIN
+  IF to_regclass('public.hero_events') IS NOT NULL THEN
+    INSERT INTO analytics_events (name, occurred_at, received_at, sid, user_id, path, props, user_agent)
+    SELECT
+      'hero_' || type,
+      created_at,
+      created_at,
+      sid,
+      user_id,
+      page,
+      jsonb_strip_nulls(jsonb_build_object('slideId', slide_id, 'variant', variant, 'ctaText', cta_text)),
+      user_agent
+    FROM hero_events
+    WHERE type IN ('impression', 'click');
+
+    DROP TABLE hero_events;
+  END IF;
+
+  IF to_regclass('public.guide_download_events') IS NOT NULL THEN
+    INSERT INTO analytics_events (name, occurred_at, received_at, path, props, user_agent)
+    SELECT
+      'guide_download',
+      created_at,
+      created_at,
+      '/guides',
+      jsonb_strip_nulls(jsonb_build_object(
+        'href', href, 'label', label, 'categoryPath', category_path, 'sizeBytes', size_bytes
+      )),
+      user_agent
+    FROM guide_download_events;
+
+    DROP TABLE guide_download_events;
+  END IF;
+END $$;
+
+-- Per-day totals by event name (UTC days)
+CREATE TABLE IF NOT EXISTS analytics_daily (
+  day date NOT NULL,
+  name text NOT NULL,
+  events integer NOT NULL DEFAULT 0,
+  sessions integer NOT NULL DEFAULT 0,
+  users integer NOT NULL DEFAULT 0,
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (day, name)
+);
+
+-- Sessions reaching each funnel step, in order, within a UTC day
+CREATE TABLE IF NOT EXISTS analytics_funnel_daily (
+  day date NOT NULL,
+  step text NOT NULL,
+  position smallint NOT NULL,
+  sessions integer NOT NULL DEFAULT 0,
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (day, step)
+);
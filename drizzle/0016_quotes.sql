@@ -0,0 +1,77 @@
+-- drizzle/0016_quotes.sql
+-- Priced quotes built by staff (optionally from a quote request), sent to the customer as a
+-- signed link, and converted on acceptance into a cart whose lines keep the quoted prices.
+
+CREATE SEQUENCE IF NOT EXISTS quote_number_seq START 1001;
+
+CREATE TABLE IF NOT EXISTS quotes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  quote_number text NOT NULL DEFAULT ('Q-' || nextval('quote_number_seq')::text),
+
+  status text NOT NULL DEFAULT 'draft'
+    CHECK (status IN ('draft', 'sent', 'accepted', 'declined', 'expired', 'cancelled')),
+
+  quote_request_id uuid REFERENCES quote_requests(id) ON DELETE SET NULL,
+
+  customer_email text NOT NULL,
+  customer_name text,
+  company text,
+  user_id text,
+
+  store text NOT NULL DEFAULT 'US' CHECK (store IN ('US', 'CA')),
+  currency text NOT NULL DEFAULT 'USD' CHECK (currency IN ('USD', 'CAD')),
+
+  shipping_label text,
+  shipping_cents integer NOT NULL DEFAULT 0 CHECK (shipping_cents >= 0),
+  ship_to jsonb,
+
+  subtotal_cents integer NOT NULL DEFAULT 0,
+  total_cents integer NOT NULL DEFAULT 0,
+
+  message text,
+  internal_notes text,
+
+  expires_at timestamptz NOT NULL,
+  sent_at timestamptz,
+  responded_at timestamptz,
+  decline_reason text,
+
+  cart_id uuid REFERENCES carts(id) ON DELETE SET NULL,
+
+  created_by text,
+  updated_by text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS quotes_quote_number_uq ON quotes (quote_number);
+CREATE INDEX IF NOT EXISTS quotes_status_idx ON quotes (status, created_at);
+CREATE INDEX IF NOT EXISTS quotes_request_idx ON quotes (quote_request_id);
+CREATE INDEX IF NOT EXISTS quotes_email_idx ON quotes (customer_email);
+
+CREATE TABLE IF NOT EXISTS quote_lines (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  quote_id uuid NOT NULL REFERENCES quotes(id) ON DELETE CASCADE,
+  position integer NOT NULL DEFAULT 0,
+
+  -- 'sinalite' lines carry a product + option chain; 'custom' lines are produced in-house
+  kind text NOT NULL CHECK (kind IN ('sinalite', 'custom')),
+  product_id integer,
+  option_ids jsonb NOT NULL DEFAULT '[]'::jsonb,
+
+  description text NOT NULL,
+  quantity integer NOT NULL CHECK (quantity > 0),
+  unit_price_cents integer NOT NULL CHECK (unit_price_cents >= 0),
+  line_total_cents integer NOT NULL CHECK (line_total_cents >= 0),
+
+  CONSTRAINT quote_lines_product_chk CHECK (kind = 'custom' OR product_id IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS quote_lines_quote_idx ON quote_lines (quote_id, position);
+
+-- Cart lines created from an accepted quote keep its price (no merging, no quantity edits)
+ALTER TABLE cart_lines ADD COLUMN IF NOT EXISTS quote_line_id uuid REFERENCES quote_lines(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS cart_lines_quote_line_idx ON cart_lines (quote_line_id);
+
+-- Custom order requests point at the quote they reference, when the number matches one
+ALTER TABLE custom_order_requests ADD COLUMN IF NOT EXISTS quote_id uuid REFERENCES quotes(id) ON DELETE SET NULL;
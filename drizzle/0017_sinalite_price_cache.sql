@@ -0,0 +1,43 @@
+-- drizzle/0017_sinalite_price_cache.sql
+-- Persistent cache of live Sinalite POST /price results, read through lib/sinalite/priceCache.ts.
+-- Adopts the table from scripts/migrations/2026_02_13_sinalite_price_cache_by_key.sql (same shape)
+-- and adds hit tracking so the warmup job knows which combinations are popular.
+
+CREATE TABLE IF NOT EXISTS sinalite_price_cache_by_key (
+  product_id integer NOT NULL,
+  store_code text NOT NULL,
+  -- sorted, de-duplicated option ids joined with '-'
+  key text NOT NULL,
+  option_ids integer[] NOT NULL,
+
+  price numeric NULL,
+
+  package_json jsonb NULL,
+  product_options_json jsonb NULL,
+  raw_json jsonb NULL,
+
+  source text NOT NULL DEFAULT 'live_price',
+
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+
+  PRIMARY KEY (product_id, store_code, key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_spcbk_updated_at ON sinalite_price_cache_by_key (updated_at);
+CREATE INDEX IF NOT EXISTS idx_spcbk_product_store ON sinalite_price_cache_by_key (product_id, store_code);
+CREATE INDEX IF NOT EXISTS idx_spcbk_option_ids ON sinalite_price_cache_by_key USING GIN (option_ids);
+
+ALTER TABLE sinalite_price_cache_by_key ADD COLUMN IF NOT EXISTS hit_count integer NOT NULL DEFAULT 0;
+ALTER TABLE sinalite_price_cache_by_key ADD COLUMN IF NOT EXISTS last_hit_at timestamptz;
+CREATE INDEX IF NOT EXISTS idx_spcbk_last_hit_at ON sinalite_price_cache_by_key (last_hit_at);
+
+-- Daily lookup counters per outcome (fresh | stale | miss | fallback | error | refresh_failed),
+-- flushed in batches by each server process
+CREATE TABLE IF NOT EXISTS sinalite_price_cache_stats (
+  day date NOT NULL,
+  outcome text NOT NULL,
+  count bigint NOT NULL DEFAULT 0,
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (day, outcome)
+);
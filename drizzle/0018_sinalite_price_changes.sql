@@ -0,0 +1,34 @@
+-- drizzle/0018_sinalite_price_changes.sql
+-- Upstream (Sinalite) cost changes detected by diffing freshly ingested sinalite_product_pricing
+-- against the last values we saw, and the cart line fields behind the "price updated" notice.
+
+-- Last value seen per pricing row; the diff job compares against it and then moves it forward
+CREATE TABLE IF NOT EXISTS sinalite_pricing_snapshot (
+  product_id integer NOT NULL,
+  store_code text NOT NULL,
+  hash text NOT NULL,
+  value numeric NOT NULL,
+  seen_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (product_id, store_code, hash)
+);
+
+CREATE TABLE IF NOT EXISTS sinalite_price_changes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id integer NOT NULL,
+  store_code text NOT NULL,
+  hash text NOT NULL,
+  -- job totals in dollars, as ingested
+  old_value numeric NOT NULL,
+  new_value numeric NOT NULL,
+  -- (new - old) / old, null when old was 0
+  change_pct numeric,
+  carts_repriced integer NOT NULL DEFAULT 0,
+  detected_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS sinalite_price_changes_detected_idx ON sinalite_price_changes (detected_at);
+CREATE INDEX IF NOT EXISTS sinalite_price_changes_product_idx ON sinalite_price_changes (product_id, store_code, hash);
+
+-- Set when the repricing job changes an open cart line's price; cleared once the customer dismisses it
+ALTER TABLE cart_lines ADD COLUMN IF NOT EXISTS previous_unit_price_cents integer;
+ALTER TABLE cart_lines ADD COLUMN IF NOT EXISTS price_changed_at timestamptz;
@@ -0,0 +1,37 @@
+-- drizzle/0019_sinalite_catalog_sync.sql
+-- Incremental Sinalite catalog sync: content hashes to skip unchanged products, an "active" flag for
+-- products that disappeared upstream, and a log of every sync run.
+
+ALTER TABLE sinalite_products
+  -- sha256 of the canonical (sorted-key) list entry; jsonb reorders keys so raw_json can't be compared as text
+  ADD COLUMN IF NOT EXISTS raw_hash text,
+  ADD COLUMN IF NOT EXISTS active boolean NOT NULL DEFAULT true,
+  ADD COLUMN IF NOT EXISTS removed_at timestamptz,
+  ADD COLUMN IF NOT EXISTS last_seen_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_sinalite_products_inactive ON sinalite_products (product_id) WHERE active = false;
+
+-- Last product/{id}/{store} payload applied per product and store
+CREATE TABLE IF NOT EXISTS sinalite_product_sync (
+  product_id integer NOT NULL,
+  store_code text NOT NULL,
+  -- 'regular' | 'roll-label' | 'unavailable' (upstream returned 404 for this store)
+  kind text NOT NULL,
+  details_hash text,
+  synced_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (product_id, store_code)
+);
+
+CREATE INDEX IF NOT EXISTS sinalite_product_sync_synced_idx ON sinalite_product_sync (synced_at);
+
+CREATE TABLE IF NOT EXISTS catalog_sync_runs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  started_at timestamptz NOT NULL DEFAULT now(),
+  finished_at timestamptz,
+  -- 'running' | 'ok' | 'partial' | 'failed' | 'skipped'
+  status text NOT NULL DEFAULT 'running',
+  counts jsonb NOT NULL DEFAULT '{}'::jsonb,
+  errors jsonb NOT NULL DEFAULT '[]'::jsonb
+);
+
+CREATE INDEX IF NOT EXISTS catalog_sync_runs_started_idx ON catalog_sync_runs (started_at DESC);
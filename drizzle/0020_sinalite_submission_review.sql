@@ -0,0 +1,12 @@
+-- drizzle/0020_sinalite_submission_review.sql
+-- Sinalite submissions that may already have been placed upstream (worker died mid-request, or the
+-- request timed out / got a 5xx) stop in 'needs_review' instead of being retried into a duplicate order.
+
+ALTER TABLE sinalite_submissions
+  -- set just before POST /order/new, cleared when the outcome is recorded
+  ADD COLUMN IF NOT EXISTS send_started_at timestamptz;
+
+ALTER TABLE sinalite_submissions DROP CONSTRAINT IF EXISTS sinalite_submissions_status_chk;
+ALTER TABLE sinalite_submissions
+  ADD CONSTRAINT sinalite_submissions_status_chk
+    CHECK (status IN ('pending', 'awaiting_artwork', 'processing', 'needs_review', 'submitted', 'failed'));
@@ -0,0 +1,10 @@
+-- drizzle/0021_promo_redemption_over_limit.sql
+-- Promo limits are re-checked when an order is finalized. A paid order that arrives after the
+-- code expired or ran out is still recorded, with the reason it was over the limit.
+
+ALTER TABLE promo_redemptions
+  -- PromoRejectReason ('usage_limit', 'customer_limit', 'expired', ...); null = within limits
+  ADD COLUMN IF NOT EXISTS over_limit_reason text;
+
+CREATE INDEX IF NOT EXISTS promo_redemptions_over_limit_idx
+  ON promo_redemptions (promo_code_id) WHERE over_limit_reason IS NOT NULL;
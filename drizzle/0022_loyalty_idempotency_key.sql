@@ -0,0 +1,9 @@
+-- drizzle/0022_loyalty_idempotency_key.sql
+-- Lets callers make a loyalty ledger entry at most once (admin store credit keyed on the
+-- client's creditRequestId), so a double submit or retry can't award points twice.
+
+ALTER TABLE loyalty_transactions
+  ADD COLUMN IF NOT EXISTS idempotency_key text;
+
+CREATE UNIQUE INDEX IF NOT EXISTS loyalty_transactions_idempotency_key_uniq
+  ON loyalty_transactions (idempotency_key) WHERE idempotency_key IS NOT NULL;
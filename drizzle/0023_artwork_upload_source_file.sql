@@ -0,0 +1,10 @@
+-- drizzle/0023_artwork_upload_source_file.sql
+-- Customers upload artwork to cart lines (cart_artwork / cart_attachments). Proofing and the
+-- Sinalite submission gate read artwork_uploads by order, so each cart file is copied to the
+-- order once; source_file_id is the cart file it came from.
+
+ALTER TABLE artwork_uploads
+  ADD COLUMN IF NOT EXISTS source_file_id uuid;
+
+CREATE UNIQUE INDEX IF NOT EXISTS artwork_uploads_order_source_file_uniq
+  ON artwork_uploads (order_id, source_file_id) WHERE source_file_id IS NOT NULL;
@@ -54,7 +54,7 @@ function cfUrl(id?: string | null, variant: string = "public"): string {
 type OrderRow = {
   id: string | number;
   createdAt: string;
-  status: "placed" | "processing" | "fulfilled" | "cancelled" | string;
+  status: "submitted" | "paid" | "fulfilled" | "cancelled" | "refunded" | string;
   total: number; // dollars
   currency: "USD" | "CAD";
   sinaOrderId?: string | number | null;
@@ -172,7 +172,7 @@ const STATUS_STYLES: Record<
     ring: "ring-emerald-200",
     text: "text-emerald-700",
   },
-  processing: {
+  submitted: {
     bg: "bg-amber-50",
     ring: "ring-amber-200",
     text: "text-amber-800",
@@ -182,11 +182,16 @@ const STATUS_STYLES: Record<
     ring: "ring-rose-200",
     text: "text-rose-700",
   },
-  placed: {
+  paid: {
     bg: "bg-indigo-50",
     ring: "ring-indigo-200",
     text: "text-indigo-700",
   },
+  refunded: {
+    bg: "bg-slate-50",
+    ring: "ring-slate-200",
+    text: "text-slate-700",
+  },
   default: { bg: "bg-gray-50", ring: "ring-gray-200", text: "text-gray-700" },
 };
 
@@ -613,7 +618,7 @@ function AddressCard({ a }: { a: Address }) {
 function OrdersPanel({ orders, onTab }: { orders: OrderRow[] | null; onTab: (k: TabKey) => void }) {
   const [q, setQ] = useState("");
   const [status, setStatus] = useState<
-    "all" | "placed" | "processing" | "fulfilled" | "cancelled"
+    "all" | "submitted" | "paid" | "fulfilled" | "cancelled" | "refunded"
   >("all");
   const [visible, setVisible] = useState(10);
 
@@ -653,7 +658,7 @@ function OrdersPanel({ orders, onTab }: { orders: OrderRow[] | null; onTab: (k:
           </div>
 
           <div className="rounded-xl border bg-white p-1">
-            {(["all", "placed", "processing", "fulfilled", "cancelled"] as const).map((s) => {
+            {(["all", "submitted", "paid", "fulfilled", "cancelled", "refunded"] as const).map((s) => {
               const active = status === s;
               return (
                 <button
@@ -0,0 +1,170 @@
+// src/app/account/orders/[id]/ArtworkProofs.tsx
+"use client";
+
+import * as React from "react";
+import { useRouter } from "next/navigation";
+
+export type ArtworkProofItem = {
+  id: string;
+  fileName: string;
+  /** Rendered front preview of the uploaded file */
+  previewUrl: string | null;
+  proofStatus: string;
+  proofVersion: number;
+  /** Latest round's proof PDF, when staff sent one */
+  proofUrl: string | null;
+  /** Staff reason / message on the latest round */
+  message: string | null;
+  customerComment: string | null;
+};
+
+const STATUS: Record<string, { label: string; className: string }> = {
+  pending_review: { label: "In review", className: "bg-gray-50 text-gray-700 ring-gray-200" },
+  proof_sent: { label: "Proof ready", className: "bg-indigo-50 text-indigo-700 ring-indigo-200" },
+  changes_requested: { label: "Changes requested", className: "bg-amber-50 text-amber-800 ring-amber-200" },
+  approved: { label: "Approved", className: "bg-emerald-50 text-emerald-700 ring-emerald-200" },
+  rejected: { label: "New file needed", className: "bg-rose-50 text-rose-700 ring-rose-200" },
+};
+
+function ProofActions({ orderId, item }: { orderId: string; item: ArtworkProofItem }) {
+  const router = useRouter();
+  const [mode, setMode] = React.useState<"idle" | "changes">("idle");
+  const [comment, setComment] = React.useState("");
+  const [busy, setBusy] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+
+  async function submit(decision: "approve" | "request_changes") {
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await fetch(
+        `/api/me/orders/${encodeURIComponent(orderId)}/artwork/${encodeURIComponent(item.id)}/proof`,
+        {
+          method: "POST",
+          headers: { "content-type": "application/json" },
+          body: JSON.stringify(decision === "approve" ? { decision } : { decision, comment }),
+          cache: "no-store",
+        },
+      );
+      const data = (await res.json().catch(() => null)) as { ok?: boolean; error?: string } | null;
+      if (!res.ok || !data?.ok) throw new Error(data?.error || `Request failed (${res.status})`);
+      setMode("idle");
+      setComment("");
+      router.refresh();
+    } catch (e: any) {
+      setError(e?.message || "Something went wrong");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div className="mt-3 space-y-2">
+      {mode === "changes" ? (
+        <div className="space-y-2">
+          <textarea
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            rows={3}
+            maxLength={2000}
+            placeholder="What should we change?"
+            className="w-full rounded-lg border border-gray-300 p-2 text-sm focus:border-indigo-500 focus:outline-none focus:ring-1 focus:ring-indigo-500"
+          />
+          <div className="flex gap-2">
+            <button
+              type="button"
+              disabled={busy || !comment.trim()}
+              onClick={() => submit("request_changes")}
+              className="inline-flex items-center rounded-md bg-amber-600 px-3 py-2 text-sm font-semibold text-white hover:bg-amber-700 disabled:opacity-60"
+            >
+              Send changes
+            </button>
+            <button
+              type="button"
+              disabled={busy}
+              onClick={() => setMode("idle")}
+              className="inline-flex items-center rounded-md border border-gray-300 bg-white px-3 py-2 text-sm font-semibold text-gray-900 hover:bg-gray-50 disabled:opacity-60"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="flex flex-wrap gap-2">
+          <button
+            type="button"
+            disabled={busy}
+            onClick={() => submit("approve")}
+            className="inline-flex items-center rounded-md bg-emerald-600 px-3 py-2 text-sm font-semibold text-white hover:bg-emerald-700 disabled:opacity-60"
+          >
+            Approve proof
+          </button>
+          <button
+            type="button"
+            disabled={busy}
+            onClick={() => setMode("changes")}
+            className="inline-flex items-center rounded-md border border-gray-300 bg-white px-3 py-2 text-sm font-semibold text-gray-900 hover:bg-gray-50 disabled:opacity-60"
+          >
+            Request changes
+          </button>
+        </div>
+      )}
+      {error && <div className="text-xs text-rose-700">{error}</div>}
+    </div>
+  );
+}
+
+export default function ArtworkProofs({ orderId, items }: { orderId: string; items: ArtworkProofItem[] }) {
+  if (!items.length) return null;
+
+  return (
+    <ul className="mt-3 divide-y">
+      {items.map((item) => {
+        const s = STATUS[item.proofStatus] ?? STATUS.pending_review;
+        return (
+          <li key={item.id} className="py-3 text-sm">
+            <div className="flex items-start justify-between gap-3">
+              <div className="flex min-w-0 items-start gap-3">
+                {item.previewUrl && (
+                  <img
+                    src={item.previewUrl}
+                    alt={`Preview of ${item.fileName}`}
+                    className="h-12 w-12 flex-none rounded-lg border object-cover"
+                    loading="lazy"
+                  />
+                )}
+                <div className="min-w-0">
+                  <div className="truncate font-medium text-gray-900">{item.fileName}</div>
+                  {item.proofVersion > 0 && <div className="text-xs text-gray-500">Proof v{item.proofVersion}</div>}
+                </div>
+              </div>
+              <span className={`flex-none rounded-full px-2 py-0.5 text-xs font-semibold ring-1 ${s.className}`}>
+                {s.label}
+              </span>
+            </div>
+
+            {item.message && item.proofStatus !== "approved" && (
+              <p className="mt-2 whitespace-pre-wrap text-gray-700">{item.message}</p>
+            )}
+            {item.proofStatus === "changes_requested" && item.customerComment && (
+              <p className="mt-2 whitespace-pre-wrap text-gray-500">You asked: {item.customerComment}</p>
+            )}
+
+            {item.proofUrl && item.proofStatus === "proof_sent" && (
+              <a
+                href={item.proofUrl}
+                target="_blank"
+                rel="noreferrer"
+                className="mt-2 inline-block text-xs font-semibold text-indigo-700 hover:underline"
+              >
+                Download proof (PDF)
+              </a>
+            )}
+
+            {item.proofStatus === "proof_sent" && <ProofActions orderId={orderId} item={item} />}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
@@ -119,7 +119,7 @@ export default async function InvoicePage({
   const placedAt = (o as any).placedAt ?? (o as any).createdAt ?? null;
 
   const orderNumber = (o as any).orderNumber ? String((o as any).orderNumber) : null;
-  const status = clampStr((o as any).status || "placed", 40);
+  const status = clampStr((o as any).status || "submitted", 40);
 
   const subtotal = Number((o as any).subtotalCents) || 0;
   const ship = Number((o as any).shippingCents) || 0;
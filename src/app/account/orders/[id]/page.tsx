@@ -6,19 +6,24 @@ import { notFound } from "next/navigation";
 import Link from "next/link";
 import { cookies } from "next/headers";
 import { auth } from "@clerk/nextjs/server";
-import { eq, inArray, sql } from "drizzle-orm";
+import { eq, sql } from "drizzle-orm";
 
 import Image from "@/components/ImageSafe";
 
 import { db } from "@/lib/db";
 import { orders } from "@/lib/db/schema/orders";
 import { cartLines } from "@/lib/db/schema/cartLines";
-import { cartArtwork } from "@/lib/db/schema/cartArtwork";
 
 import { cfImage } from "@/lib/cfImages";
+import { listOrderStatusEvents } from "@/lib/orderLifecycle";
+import { listOrderArtworkProofs } from "@/lib/artworkProofs";
+import { loadLineArtworkPreviews, type LineArtworkPreview } from "@/lib/artwork/thumbnails";
+import { fileExtension, isBrowserImage, pickThumbnail } from "@/lib/artwork/artworkThumb";
+import { r2PublicUrl } from "@/lib/artwork/r2Public";
 import productAssetsRaw from "@/data/productAssets.json";
 
 import ShipmentTimeline from "./ShipmentTimeline";
+import ArtworkProofs, { type ArtworkProofItem } from "./ArtworkProofs";
 
 /* ------------------------------ env helpers ------------------------------ */
 function readEnv(key: string): string | null {
@@ -141,12 +146,22 @@ function normalizeIntList(v: unknown): number[] {
 
 const STATUS_STYLES: Record<string, string> = {
   fulfilled: "bg-emerald-50 text-emerald-700 ring-emerald-200",
-  processing: "bg-amber-50 text-amber-800 ring-amber-200",
+  submitted: "bg-amber-50 text-amber-800 ring-amber-200",
   cancelled: "bg-rose-50 text-rose-700 ring-rose-200",
-  placed: "bg-indigo-50 text-indigo-700 ring-indigo-200",
+  paid: "bg-indigo-50 text-indigo-700 ring-indigo-200",
+  refunded: "bg-slate-50 text-slate-700 ring-slate-200",
   default: "bg-gray-50 text-gray-700 ring-gray-200",
 };
 
+const STATUS_LABELS: Record<string, string> = {
+  draft: "Draft",
+  submitted: "Order received",
+  paid: "Payment confirmed",
+  fulfilled: "Fulfilled",
+  cancelled: "Cancelled",
+  refunded: "Refunded",
+};
+
 function buildProductImageUrl(productId?: number | string | null): string {
   const pid = Number(productId);
   const row = Number.isFinite(pid) ? productAssetById.get(pid) : undefined;
@@ -244,30 +259,29 @@ async function loadOrder(orderIdRaw: string) {
         .where(eq(cartLines.cartId, cartId))) as unknown as LineRow[])
     : [];
 
-  // Artwork by line
-  const artMap = new Map<string, string[]>();
-  if (lineRows.length) {
-    const ids = lineRows.map((l) => String(l.id)).filter(Boolean);
-    if (ids.length) {
-      const arts = (await select({
-        cartLineId: cartArtwork.cartLineId,
-        url: cartArtwork.url,
-      })
-        .from(cartArtwork)
-        .where(inArray(cartArtwork.cartLineId, ids as string[]))) as unknown as Array<{
-        cartLineId: string;
-        url: string;
-      }>;
-
-      for (const a of arts) {
-        const key = String(a.cartLineId);
-        if (!artMap.has(key)) artMap.set(key, []);
-        artMap.get(key)!.push(String(a.url));
-      }
-    }
-  }
+  // Artwork by line (rendered previews where available)
+  const artMap = await loadLineArtworkPreviews(lineRows.map((l) => String(l.id)).filter(Boolean)).catch(
+    () => new Map<string, LineArtworkPreview[]>(),
+  );
 
-  return { o, lines: lineRows, artMap };
+  // History is informational; never fail the page over it
+  const history = await listOrderStatusEvents(orderId).catch(() => []);
+
+  const proofs: ArtworkProofItem[] = (await listOrderArtworkProofs(orderId).catch(() => [])).map((a) => {
+    const latest = a.proofs[a.proofs.length - 1];
+    return {
+      id: a.id,
+      fileName: a.fileName,
+      previewUrl: r2PublicUrl(pickThumbnail(a.thumbnails, "front", 96)?.key ?? "") || null,
+      proofStatus: a.proofStatus,
+      proofVersion: a.proofVersion,
+      proofUrl: latest?.proofUrl ?? null,
+      message: latest?.message ?? null,
+      customerComment: latest?.customerComment ?? null,
+    };
+  });
+
+  return { o, lines: lineRows, artMap, history, proofs };
 }
 
 /* ------------------------------ page ------------------------------ */
@@ -284,10 +298,10 @@ export default async function OrderDetailsPage({
   const data = await loadOrder(orderId);
   if (!data) notFound();
 
-  const { o, lines, artMap } = data;
+  const { o, lines, artMap, history, proofs } = data;
 
   const currency = (o.currency === "CAD" ? "CAD" : "USD") as "USD" | "CAD";
-  const status = String((o as any).status || "placed").toLowerCase();
+  const status = String((o as any).status || "submitted").toLowerCase();
   const statusClass = STATUS_STYLES[status] || STATUS_STYLES.default;
 
   const subtotal = Number((o as any).subtotalCents) || 0;
@@ -466,21 +480,27 @@ export default async function OrderDetailsPage({
                               <div className="text-xs font-semibold text-gray-700">Artwork</div>
 
                               <div className="mt-2 flex flex-wrap items-center gap-2">
-                                {arts.slice(0, 6).map((u, i) => (
+                                {arts.slice(0, 6).map((a, i) => (
                                   <a
                                     key={`${String((l as any).id)}-art-thumb-${i}`}
-                                    href={u}
+                                    href={a.url}
                                     target="_blank"
                                     rel="noreferrer"
                                     className="group relative overflow-hidden rounded-lg border bg-white"
-                                    title={`Artwork ${i + 1}`}
+                                    title={a.fileName || `Artwork ${i + 1}`}
                                   >
-                                    <img
-                                      src={u}
-                                      alt={`Artwork ${i + 1}`}
-                                      className="h-12 w-12 object-cover"
-                                      loading="lazy"
-                                    />
+                                    {a.previewUrl || isBrowserImage(a.url) ? (
+                                      <img
+                                        src={a.previewUrl ?? a.url}
+                                        alt={`Artwork ${i + 1}`}
+                                        className="h-12 w-12 object-cover"
+                                        loading="lazy"
+                                      />
+                                    ) : (
+                                      <span className="flex h-12 w-12 items-center justify-center bg-slate-50 text-[10px] font-semibold uppercase text-slate-500">
+                                        {fileExtension(a.fileName || a.url) || "file"}
+                                      </span>
+                                    )}
                                     <span className="absolute inset-x-0 bottom-0 bg-black/50 px-1 py-0.5 text-[10px] font-semibold text-white opacity-0 group-hover:opacity-100">
                                       {i + 1}
                                     </span>
@@ -492,10 +512,10 @@ export default async function OrderDetailsPage({
                                 ) : null}
 
                                 <div className="ml-auto flex flex-wrap gap-2">
-                                  {arts.map((u, i) => (
+                                  {arts.map((a, i) => (
                                     <a
                                       key={`${String((l as any).id)}-art-${i}`}
-                                      href={u}
+                                      href={a.url}
                                       target="_blank"
                                       rel="noreferrer"
                                       className="inline-flex items-center rounded-lg bg-white px-2 py-1 text-xs font-semibold text-gray-800 ring-1 ring-inset ring-gray-200 hover:bg-gray-50"
@@ -523,6 +543,15 @@ export default async function OrderDetailsPage({
             })}
           </ul>
 
+          {/* Artwork proofs */}
+          {proofs.length > 0 && (
+            <div className="mt-6 rounded-2xl border bg-white p-4 shadow-sm">
+              <h3 className="text-sm font-semibold text-gray-900">Artwork proofs</h3>
+              <p className="mt-1 text-xs text-gray-500">We start production once every file is approved.</p>
+              <ArtworkProofs orderId={String(o.id)} items={proofs} />
+            </div>
+          )}
+
           {/* Tracking timeline */}
           <div className="mt-6 rounded-2xl border bg-white p-4 shadow-sm">
             <div className="flex items-center justify-between gap-3">
@@ -540,6 +569,30 @@ export default async function OrderDetailsPage({
               Status is synced via your backend per the <b>SinaLite API</b> documentation.
             </p>
           </div>
+
+          {/* Status history */}
+          {history.length > 0 && (
+            <div className="mt-6 rounded-2xl border bg-white p-4 shadow-sm">
+              <h3 className="text-sm font-semibold text-gray-900">Order history</h3>
+
+              <ol className="mt-3 space-y-3">
+                {history.map((ev) => (
+                  <li key={ev.id} className="flex gap-3 text-sm">
+                    <span className="mt-1.5 h-2 w-2 flex-none rounded-full bg-indigo-500" aria-hidden />
+                    <div className="min-w-0">
+                      <div className="font-medium text-gray-900">
+                        {STATUS_LABELS[ev.toStatus] ?? clampStr(ev.toStatus, 40)}
+                      </div>
+                      <div className="text-xs text-gray-500">
+                        {niceDate(ev.createdAt.toISOString())}
+                        {ev.reason ? ` • ${clampStr(ev.reason, 120)}` : ""}
+                      </div>
+                    </div>
+                  </li>
+                ))}
+              </ol>
+            </div>
+          )}
         </section>
 
         {/* Right: totals + addresses */}
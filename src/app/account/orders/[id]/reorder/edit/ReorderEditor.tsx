@@ -4,7 +4,13 @@
 import * as React from "react";
 import { useRouter } from "next/navigation";
 
-type Line = { productId: number; quantity: number; unitPriceCents?: number | null };
+type Line = {
+  productId: number;
+  quantity: number;
+  unitPriceCents?: number | null;
+  /** Preview of the artwork printed last time (rendered thumbnail or browser-safe original) */
+  artworkPreviewUrl?: string | null;
+};
 
 type ReorderResponse =
   | { ok: true; goto?: string }
@@ -41,6 +47,7 @@ function sanitizeLines(lines: Line[]) {
       productId: pid,
       quantity: qty,
       unitPriceCents: l?.unitPriceCents ?? null,
+      artworkPreviewUrl: l?.artworkPreviewUrl ?? null,
     });
   }
   return out;
@@ -193,9 +200,21 @@ export default function ReorderEditor(props: {
                 return (
                   <tr key={`${r.productId}-${i}`}>
                     <td className="px-4 py-3">
-                      <div className="font-semibold text-gray-900">{name}</div>
-                      {sku ? <div className="mt-0.5 text-xs text-gray-500">SKU: {sku}</div> : null}
-                      <div className="mt-0.5 text-xs text-gray-500">ID: {r.productId}</div>
+                      <div className="flex items-start gap-3">
+                        {r.artworkPreviewUrl ? (
+                          <img
+                            src={r.artworkPreviewUrl}
+                            alt={`Artwork for ${name}`}
+                            className="h-12 w-12 flex-none rounded-lg border object-cover"
+                            loading="lazy"
+                          />
+                        ) : null}
+                        <div className="min-w-0">
+                          <div className="font-semibold text-gray-900">{name}</div>
+                          {sku ? <div className="mt-0.5 text-xs text-gray-500">SKU: {sku}</div> : null}
+                          <div className="mt-0.5 text-xs text-gray-500">ID: {r.productId}</div>
+                        </div>
+                      </div>
                     </td>
 
                     <td className="px-4 py-3">
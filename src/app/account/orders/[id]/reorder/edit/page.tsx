@@ -10,6 +10,8 @@ import { eq, sql } from "drizzle-orm";
 import { db } from "@/lib/db";
 import { orders } from "@/lib/db/schema/orders";
 import { cartLines } from "@/lib/db/schema/cartLines";
+import { loadLineArtworkPreviews, type LineArtworkPreview } from "@/lib/artwork/thumbnails";
+import { isBrowserImage } from "@/lib/artwork/artworkThumb";
 
 import ReorderEditor from "./ReorderEditor";
 
@@ -127,6 +129,17 @@ async function load(orderIdRaw: string) {
 
   const productMeta = await loadProductMeta(productIds);
 
+  const artwork = await loadLineArtworkPreviews(lines.map((l) => String(l.id))).catch(
+    () => new Map<string, LineArtworkPreview[]>(),
+  );
+  const previewFor = (lineId: string): string | null => {
+    for (const a of artwork.get(lineId) ?? []) {
+      if (a.previewUrl) return a.previewUrl;
+      if (isBrowserImage(a.url)) return a.url;
+    }
+    return null;
+  };
+
   // Only send what the editor needs (keep it tight & future-proof)
   const editorLines = lines.map((l) => ({
     productId: Number((l as any).productId) || 0,
@@ -135,6 +148,7 @@ async function load(orderIdRaw: string) {
       (l as any).unitPriceCents === null || (l as any).unitPriceCents === undefined
         ? null
         : Number((l as any).unitPriceCents) || 0,
+    artworkPreviewUrl: previewFor(String(l.id)),
   }));
 
   return { orderId, currency, lines: editorLines, productMeta };
@@ -0,0 +1,167 @@
+"use client";
+
+import * as React from "react";
+import useSWR from "swr";
+import { useState } from "react";
+
+type ChangeRow = {
+  id: string;
+  productId: number;
+  storeCode: string;
+  hash: string;
+  oldCostCents: number;
+  newCostCents: number;
+  changePct: number | null;
+  cartsRepriced: number;
+  detectedAt: string;
+};
+
+type AlertRow = {
+  changeId: string;
+  productId: number;
+  storeCode: string;
+  source: "cart_line" | "quote_line";
+  lineId: string;
+  ref: string;
+  quantity: number;
+  sellCents: number;
+  newCostCents: number;
+  marginPct: number | null;
+  floorPct: number;
+};
+
+type Report = { changes: ChangeRow[]; alerts: AlertRow[] };
+
+const DAY_FILTERS = [7, 30, 90] as const;
+
+async function fetcher(url: string): Promise<Report> {
+  const res = await fetch(url, { headers: { accept: "application/json" } });
+  if (!res.ok) {
+    const t = await res.text().catch(() => "");
+    throw new Error(t || `Request failed (${res.status})`);
+  }
+  const json = (await res.json()) as Partial<Report>;
+  return { changes: json.changes ?? [], alerts: json.alerts ?? [] };
+}
+
+function currencyFor(storeCode: string): "USD" | "CAD" {
+  return storeCode === "en_ca" ? "CAD" : "USD";
+}
+
+function money(cents: number, storeCode: string): string {
+  return new Intl.NumberFormat("en-US", { style: "currency", currency: currencyFor(storeCode) }).format(cents / 100);
+}
+
+function pct(v: number | null): string {
+  return v == null ? "—" : `${(v * 100).toFixed(1)}%`;
+}
+
+export default function AdminPriceChangesPage() {
+  const [days, setDays] = useState<(typeof DAY_FILTERS)[number]>(30);
+
+  const { data, error, isLoading } = useSWR<Report>(`/api/admin/pricing/price-changes?days=${days}`, fetcher, {
+    revalidateOnFocus: false,
+    keepPreviousData: true,
+  });
+
+  const changes = data?.changes ?? [];
+  const alerts = data?.alerts ?? [];
+
+  return (
+    <main className="container py-10">
+      <div className="mb-6 flex flex-col gap-3 md:flex-row md:items-end md:justify-between">
+        <div>
+          <h1 className="text-2xl font-bold">Sinalite Cost Changes</h1>
+          <p className="mt-1 text-sm text-gray-600">
+            {isLoading
+              ? "Loading…"
+              : `${changes.length.toLocaleString()} changes • ${alerts.length.toLocaleString()} under margin floor`}
+          </p>
+        </div>
+
+        <select
+          value={days}
+          onChange={(e) => setDays(Number(e.target.value) as (typeof DAY_FILTERS)[number])}
+          className="w-full rounded border px-3 py-2 md:max-w-[220px]"
+        >
+          {DAY_FILTERS.map((d) => (
+            <option key={d} value={d}>
+              Last {d} days
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {error && (
+        <div className="mb-6 rounded-md border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">
+          {error.message}
+        </div>
+      )}
+
+      <section className="mb-10">
+        <h2 className="mb-3 text-lg font-semibold">Under margin floor</h2>
+        {!isLoading && alerts.length === 0 ? (
+          <div className="text-gray-600">Every open cart and quote line still clears its floor 🎉</div>
+        ) : (
+          <ul className="space-y-3">
+            {alerts.map((a) => (
+              <li key={`${a.source}:${a.lineId}`} className="rounded-lg border bg-white p-4 text-sm">
+                <div className="font-semibold">
+                  Product {a.productId}{" "}
+                  <span className="ml-2 rounded bg-gray-100 px-2 py-0.5 text-xs font-normal">
+                    {a.source === "quote_line" ? `quote ${a.ref}` : "open cart"}
+                  </span>
+                  <span className="ml-2 text-xs font-normal text-gray-500">{a.storeCode}</span>
+                </div>
+                <div className="text-gray-700">
+                  Qty {a.quantity.toLocaleString()} • charging {money(a.sellCents, a.storeCode)} • new cost{" "}
+                  {money(a.newCostCents, a.storeCode)}
+                </div>
+                <div className="text-red-700">
+                  Margin {pct(a.marginPct)} vs floor {pct(a.floorPct)}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+
+      <section>
+        <h2 className="mb-3 text-lg font-semibold">Detected changes</h2>
+        {!isLoading && changes.length === 0 ? (
+          <div className="text-gray-600">No cost changes in this period.</div>
+        ) : (
+          <table className="w-full text-left text-sm">
+            <thead className="text-gray-500">
+              <tr>
+                <th className="py-2">Detected</th>
+                <th>Product</th>
+                <th>Store</th>
+                <th>Old cost</th>
+                <th>New cost</th>
+                <th>Change</th>
+                <th>Carts repriced</th>
+              </tr>
+            </thead>
+            <tbody>
+              {changes.map((c) => (
+                <tr key={c.id} className="border-t">
+                  <td className="py-2">{new Date(c.detectedAt).toLocaleString()}</td>
+                  <td>{c.productId}</td>
+                  <td>{c.storeCode}</td>
+                  <td>{money(c.oldCostCents, c.storeCode)}</td>
+                  <td>{money(c.newCostCents, c.storeCode)}</td>
+                  <td className={c.changePct != null && c.changePct > 0 ? "text-red-700" : "text-green-700"}>
+                    {c.changePct != null && c.changePct > 0 ? "+" : ""}
+                    {pct(c.changePct)}
+                  </td>
+                  <td>{c.cartsRepriced}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </section>
+    </main>
+  );
+}
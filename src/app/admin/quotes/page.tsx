@@ -0,0 +1,183 @@
+"use client";
+
+import * as React from "react";
+import useSWR from "swr";
+import { useState } from "react";
+
+type QuoteRow = {
+  id: string;
+  quoteNumber: string;
+  status: string;
+  customerEmail: string;
+  customerName: string | null;
+  company: string | null;
+  currency: string;
+  totalCents: number;
+  expiresAt: string;
+  sentAt: string | null;
+  respondedAt: string | null;
+  quoteRequestId: string | null;
+  cartId: string | null;
+  createdAt: string;
+};
+
+const STATUS_FILTERS = ["", "draft", "sent", "accepted", "declined", "expired", "cancelled"] as const;
+
+// Mirrors the transitions in lib/quotes.ts
+const ACTIONS: Record<string, Array<"send" | "revise" | "cancel">> = {
+  draft: ["send", "cancel"],
+  sent: ["revise", "cancel"],
+  declined: ["revise"],
+  expired: ["revise"],
+};
+
+async function fetcher(url: string): Promise<QuoteRow[]> {
+  const res = await fetch(url, { headers: { accept: "application/json" } });
+  if (!res.ok) {
+    const t = await res.text().catch(() => "");
+    throw new Error(t || `Request failed (${res.status})`);
+  }
+  const json = (await res.json()) as { quotes?: QuoteRow[] };
+  return json.quotes ?? [];
+}
+
+function fmtDate(v: string | null): string {
+  if (!v) return "—";
+  const d = new Date(v);
+  return Number.isNaN(d.getTime()) ? "—" : d.toLocaleString();
+}
+
+function money(cents: number, currency: string): string {
+  const c = String(currency || "USD").toUpperCase() === "CAD" ? "CAD" : "USD";
+  return new Intl.NumberFormat("en-US", { style: "currency", currency: c }).format(Number(cents || 0) / 100);
+}
+
+export default function AdminQuotesPage() {
+  const [status, setStatus] = useState<(typeof STATUS_FILTERS)[number]>("");
+  const [q, setQ] = useState("");
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [toast, setToast] = useState<string | null>(null);
+
+  const params = new URLSearchParams();
+  if (status) params.set("status", status);
+  if (q.trim()) params.set("q", q.trim());
+  const key = `/api/admin/quotes${params.size ? `?${params}` : ""}`;
+
+  const { data, error, isLoading, mutate } = useSWR<QuoteRow[]>(key, fetcher, {
+    revalidateOnFocus: false,
+    keepPreviousData: true,
+  });
+
+  const rows = data ?? [];
+
+  async function act(row: QuoteRow, action: "send" | "revise" | "cancel") {
+    if (action === "cancel" && !window.confirm(`Cancel quote ${row.quoteNumber}?`)) return;
+
+    setBusyId(row.id);
+    setToast(null);
+
+    try {
+      const res = await fetch(`/api/admin/quotes/${row.id}/${action}`, {
+        method: "POST",
+        headers: { accept: "application/json" },
+      });
+      const json = (await res.json().catch(() => null)) as { ok?: boolean; error?: string; message?: string } | null;
+      if (!res.ok || !json?.ok) throw new Error(json?.error || json?.message || `${action} failed (${res.status})`);
+
+      setToast(
+        action === "send"
+          ? `Quote ${row.quoteNumber} sent to ${row.customerEmail}`
+          : `Quote ${row.quoteNumber} ${action === "revise" ? "is a draft again" : "cancelled"}`,
+      );
+      await mutate();
+    } catch (err: unknown) {
+      setToast(err instanceof Error ? err.message : `${action} failed.`);
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  return (
+    <main className="container py-10">
+      <div className="mb-6 flex flex-col gap-3 md:flex-row md:items-end md:justify-between">
+        <div>
+          <h1 className="text-2xl font-bold">Quotes</h1>
+          <p className="mt-1 text-sm text-gray-600">
+            {isLoading ? "Loading…" : `${rows.length.toLocaleString()} shown`}
+          </p>
+        </div>
+
+        <div className="flex w-full flex-col gap-2 md:w-auto md:flex-row">
+          <input
+            value={q}
+            onChange={(e) => setQ(e.target.value)}
+            placeholder="Quote #, email, name or company"
+            className="w-full rounded border px-3 py-2 md:w-[280px]"
+          />
+          <select
+            value={status}
+            onChange={(e) => setStatus(e.target.value as (typeof STATUS_FILTERS)[number])}
+            className="w-full rounded border px-3 py-2 md:max-w-[200px]"
+          >
+            {STATUS_FILTERS.map((s) => (
+              <option key={s || "all"} value={s}>
+                {s || "All statuses"}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {toast && (
+        <div className="mb-4 rounded-md border bg-white px-3 py-2 text-sm" role="status" aria-live="polite">
+          {toast}
+        </div>
+      )}
+
+      {error && (
+        <div className="mb-6 rounded-md border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">
+          {error.message}
+        </div>
+      )}
+
+      {!isLoading && rows.length === 0 ? (
+        <div className="text-gray-600">No quotes match.</div>
+      ) : (
+        <ul className="space-y-4">
+          {rows.map((r) => (
+            <li key={r.id} className="flex flex-col gap-3 rounded-lg border bg-white p-5 md:flex-row md:items-start">
+              <div className="flex-1 space-y-1 text-sm">
+                <div className="font-semibold">
+                  {r.quoteNumber} — {money(r.totalCents, r.currency)}
+                  <span className="ml-2 rounded bg-gray-100 px-2 py-0.5 text-xs font-normal">{r.status}</span>
+                </div>
+                <div>
+                  {[r.customerName, r.company].filter(Boolean).join(" · ") || "—"} &lt;{r.customerEmail}&gt;
+                </div>
+                <div className="text-gray-600">
+                  Created {fmtDate(r.createdAt)} • sent {fmtDate(r.sentAt)} • expires {fmtDate(r.expiresAt)}
+                  {r.respondedAt ? ` • answered ${fmtDate(r.respondedAt)}` : ""}
+                </div>
+                {r.cartId && <div className="text-gray-600">Cart {r.cartId}</div>}
+              </div>
+
+              <div className="flex gap-2">
+                {(ACTIONS[r.status] ?? []).map((action) => (
+                  <button
+                    key={action}
+                    type="button"
+                    className="artwork-upload-btn"
+                    disabled={busyId !== null}
+                    onClick={() => act(r, action)}
+                  >
+                    {busyId === r.id ? "Working…" : action[0].toUpperCase() + action.slice(1)}
+                  </button>
+                ))}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </main>
+  );
+}
@@ -0,0 +1,211 @@
+"use client";
+
+import * as React from "react";
+import useSWR from "swr";
+import { useState } from "react";
+
+type SubmissionRow = {
+  id: string;
+  orderId: string;
+  orderNumber: string | null;
+  orderStatus: string;
+  status: string;
+  attempts: number;
+  maxAttempts: number;
+  nextAttemptAt: string | null;
+  lastError: string | null;
+  lastErrorStatus: number | null;
+  sinaliteOrderId: string | null;
+  updatedAt: string | null;
+};
+
+const STATUS_FILTERS = ["failed", "needs_review", "pending", "awaiting_artwork", "processing", "submitted", ""] as const;
+
+async function fetcher(url: string): Promise<SubmissionRow[]> {
+  const res = await fetch(url, { headers: { accept: "application/json" } });
+  if (!res.ok) {
+    const t = await res.text().catch(() => "");
+    throw new Error(t || `Request failed (${res.status})`);
+  }
+  const json = (await res.json()) as { submissions?: SubmissionRow[] };
+  return json.submissions ?? [];
+}
+
+function fmtDate(v: string | null): string {
+  if (!v) return "—";
+  const d = new Date(v);
+  return Number.isNaN(d.getTime()) ? "—" : d.toLocaleString();
+}
+
+export default function AdminSinaliteSubmissionsPage() {
+  const [status, setStatus] = useState<(typeof STATUS_FILTERS)[number]>("failed");
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [toast, setToast] = useState<string | null>(null);
+
+  const key = `/api/admin/sinalite-submissions${status ? `?status=${status}` : ""}`;
+  const { data, error, isLoading, mutate } = useSWR<SubmissionRow[]>(key, fetcher, {
+    revalidateOnFocus: false,
+    keepPreviousData: true,
+  });
+
+  const rows = data ?? [];
+
+  async function resubmit(id: string, inReview: boolean) {
+    if (
+      inReview &&
+      !window.confirm("This order may already be in Sinalite. Resubmit only if you checked and it isn't there.")
+    ) {
+      return;
+    }
+
+    setBusyId(id);
+    setToast(null);
+
+    try {
+      const res = await fetch(`/api/admin/sinalite-submissions/${id}/resubmit`, {
+        method: "POST",
+        headers: { accept: "application/json" },
+      });
+
+      const json = (await res.json().catch(() => null)) as
+        | { ok: true; outcome: { status: string; error?: string; sinaliteOrderId?: string } }
+        | { ok: false; error?: string }
+        | null;
+
+      if (!res.ok || !json || !json.ok) {
+        throw new Error((json && !json.ok && json.error) || `Resubmit failed (${res.status})`);
+      }
+
+      const o = json.outcome;
+      setToast(
+        o.status === "submitted"
+          ? `Submitted — Sinalite order #${o.sinaliteOrderId}`
+          : `Now ${o.status}${o.error ? `: ${o.error}` : ""}`,
+      );
+      await mutate();
+    } catch (err: unknown) {
+      setToast(err instanceof Error ? err.message : "Resubmit failed.");
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  async function confirmPlaced(id: string) {
+    const sinaliteOrderId = window.prompt("Sinalite order # for this order:")?.trim();
+    if (!sinaliteOrderId) return;
+
+    setBusyId(id);
+    setToast(null);
+
+    try {
+      const res = await fetch(`/api/admin/sinalite-submissions/${id}/confirm`, {
+        method: "POST",
+        headers: { accept: "application/json", "content-type": "application/json" },
+        body: JSON.stringify({ sinaliteOrderId }),
+      });
+
+      const json = (await res.json().catch(() => null)) as { ok: boolean; error?: string } | null;
+      if (!res.ok || !json?.ok) throw new Error(json?.error || `Confirm failed (${res.status})`);
+
+      setToast(`Recorded Sinalite order #${sinaliteOrderId}`);
+      await mutate();
+    } catch (err: unknown) {
+      setToast(err instanceof Error ? err.message : "Confirm failed.");
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  return (
+    <main className="container py-10">
+      <div className="mb-6 flex flex-col gap-3 md:flex-row md:items-end md:justify-between">
+        <div>
+          <h1 className="text-2xl font-bold">Sinalite Submissions</h1>
+          <p className="mt-1 text-sm text-gray-600">
+            {isLoading ? "Loading…" : `${rows.length.toLocaleString()} shown`}
+          </p>
+        </div>
+
+        <select
+          value={status}
+          onChange={(e) => setStatus(e.target.value as (typeof STATUS_FILTERS)[number])}
+          className="w-full rounded border px-3 py-2 md:max-w-[220px]"
+        >
+          {STATUS_FILTERS.map((s) => (
+            <option key={s || "all"} value={s}>
+              {s ? s.replaceAll("_", " ") : "All statuses"}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {toast && (
+        <div className="mb-4 rounded-md border bg-white px-3 py-2 text-sm" role="status" aria-live="polite">
+          {toast}
+        </div>
+      )}
+
+      {error && (
+        <div className="mb-6 rounded-md border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">
+          {error.message}
+        </div>
+      )}
+
+      {!isLoading && rows.length === 0 ? (
+        <div className="text-gray-600">Nothing here 🎉</div>
+      ) : (
+        <ul className="space-y-4">
+          {rows.map((r) => {
+            const canResubmit = r.status !== "submitted" && r.status !== "processing";
+            const inReview = r.status === "needs_review";
+
+            return (
+              <li key={r.id} className="flex flex-col gap-3 rounded-lg border bg-white p-5 md:flex-row md:items-start">
+                <div className="flex-1 space-y-1 text-sm">
+                  <div className="font-semibold">
+                    Order {r.orderNumber || r.orderId}{" "}
+                    <span className="ml-2 rounded bg-gray-100 px-2 py-0.5 text-xs font-normal">{r.status}</span>
+                    <span className="ml-2 text-xs font-normal text-gray-500">order {r.orderStatus}</span>
+                  </div>
+                  <div className="text-gray-600">
+                    Attempts {r.attempts}/{r.maxAttempts} • next {fmtDate(r.nextAttemptAt)} • updated{" "}
+                    {fmtDate(r.updatedAt)}
+                  </div>
+                  {r.sinaliteOrderId && <div>Sinalite order #{r.sinaliteOrderId}</div>}
+                  {r.lastError && (
+                    <div className="break-words text-red-700">
+                      {r.lastErrorStatus ? `[${r.lastErrorStatus}] ` : ""}
+                      {r.lastError}
+                    </div>
+                  )}
+                </div>
+
+                {inReview && (
+                  <button
+                    type="button"
+                    className="artwork-upload-btn"
+                    disabled={busyId !== null}
+                    onClick={() => confirmPlaced(r.id)}
+                  >
+                    Found in Sinalite
+                  </button>
+                )}
+
+                {canResubmit && (
+                  <button
+                    type="button"
+                    className="artwork-upload-btn"
+                    disabled={busyId !== null}
+                    onClick={() => resubmit(r.id, inReview)}
+                  >
+                    {busyId === r.id ? "Submitting…" : "Resubmit"}
+                  </button>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </main>
+  );
+}
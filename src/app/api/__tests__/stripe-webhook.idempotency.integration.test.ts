@@ -1,3 +1,4 @@
+import crypto from "node:crypto";
 import { describe, it, expect, vi, beforeEach } from "vitest";
 
 type AnyRecord = Record<string, any>;
@@ -35,6 +36,9 @@ vi.mock("@/lib/logger", async () => {
 /**
  * DB mock: count "write-like" operations.
  * On replay, writes should not double.
+ *
+ * stripe_events rows are kept in memory so the ledger behaves like the real table
+ * (one row per event id); every other table reads as empty.
  */
 const dbWrites = {
   insert: 0,
@@ -42,32 +46,75 @@ const dbWrites = {
   execute: 0,
 };
 
+const ledger: AnyRecord[] = [];
+
 vi.mock("@/lib/db", async () => {
-  const db = {
+  const DRIZZLE_NAME = Symbol.for("drizzle:Name");
+  const state: { table: string | null; values: AnyRecord | null; set: AnyRecord | null } = {
+    table: null,
+    values: null,
+    set: null,
+  };
+
+  const nameOf = (table: any): string | null => table?.[DRIZZLE_NAME] ?? null;
+  const isLedger = () => state.table === "stripe_events";
+
+  function insertRow(): AnyRecord[] {
+    if (!isLedger() || !state.values) return [];
+    if (ledger.some((r) => r.stripeEventId === state.values!.stripeEventId)) return [];
+    const row = { ...state.values, result: null, error: null, updatedAt: new Date() };
+    ledger.push(row);
+    return [row];
+  }
+
+  function updateRows(): AnyRecord[] {
+    if (!isLedger() || !state.set) return [];
+    for (const row of ledger) Object.assign(row, state.set);
+    return ledger;
+  }
+
+  const db: AnyRecord = {
     transaction: vi.fn(async (fn: (tx: any) => Promise<any>) => fn(db)),
 
     // reads
     select: vi.fn(() => db),
-    from: vi.fn(() => db),
+    from: vi.fn((table: AnyRecord) => {
+      state.table = nameOf(table);
+      return db;
+    }),
     where: vi.fn(() => db),
     leftJoin: vi.fn(() => db),
     innerJoin: vi.fn(() => db),
-    limit: vi.fn(async () => []),
+    orderBy: vi.fn(() => db),
+    limit: vi.fn(async () => (isLedger() ? ledger.slice(0, 1) : [])),
 
     // writes
-    insert: vi.fn(() => {
+    insert: vi.fn((table: AnyRecord) => {
       dbWrites.insert += 1;
+      state.table = nameOf(table);
       return db;
     }),
-    values: vi.fn(() => db),
-    onConflictDoNothing: vi.fn(async () => ({})),
+    values: vi.fn((v: AnyRecord) => {
+      state.values = v;
+      return db;
+    }),
+    onConflictDoNothing: vi.fn(() => {
+      const rows = insertRow();
+      return { returning: vi.fn(async () => rows), then: (res: any, rej: any) => Promise.resolve({}).then(res, rej) };
+    }),
     onConflictDoUpdate: vi.fn(async () => ({})),
 
-    update: vi.fn(() => {
+    update: vi.fn((table: AnyRecord) => {
       dbWrites.update += 1;
+      state.table = nameOf(table);
       return db;
     }),
-    set: vi.fn(() => db),
+    set: vi.fn((v: AnyRecord) => {
+      state.set = v;
+      updateRows();
+      return db;
+    }),
+    returning: vi.fn(async () => (isLedger() ? ledger.map((r) => ({ attempts: r.attempts })) : [])),
 
     execute: vi.fn(async () => {
       dbWrites.execute += 1;
@@ -95,6 +142,7 @@ describe("Stripe webhook (integration)", () => {
     dbWrites.insert = 0;
     dbWrites.update = 0;
     dbWrites.execute = 0;
+    ledger.length = 0;
 
     process.env.STRIPE_SECRET_KEY = process.env.STRIPE_SECRET_KEY || "sk_test_x";
     process.env.STRIPE_WEBHOOK_SECRET = process.env.STRIPE_WEBHOOK_SECRET || "whsec_test_x";
@@ -119,4 +167,70 @@ describe("Stripe webhook (integration)", () => {
     expect(dbWrites.insert).toBe(writesAfterFirst.insert);
     expect(dbWrites.update).toBe(writesAfterFirst.update);
   });
+
+  it("records each delivery in the stripe_events ledger", async () => {
+    const mod = await import("../stripe/webhook/route");
+    const POST = (mod as any).POST as (req: Request) => Promise<Response>;
+
+    const payload = JSON.stringify({ hello: "world" });
+    await POST(makeReq(payload));
+
+    const res2 = await POST(makeReq(payload));
+    expect(await res2.json()).toMatchObject({ ok: true, duplicate: true });
+
+    expect(ledger).toHaveLength(1);
+    expect(ledger[0]).toMatchObject({
+      stripeEventId: FIXED_EVENT_ID,
+      type: "payment_intent.succeeded",
+      status: "processed",
+      attempts: 1,
+      payloadHash: crypto.createHash("sha256").update(payload).digest("hex"),
+    });
+  });
+
+  it("replays a stored event through the same handler without double-applying", async () => {
+    const mod = await import("../stripe/webhook/route");
+    const POST = (mod as any).POST as (req: Request) => Promise<Response>;
+    const { handleStripeEvent } = await import("../stripe/webhook/handler");
+    const { replayStripeEvent } = await import("@/lib/stripeEvents");
+
+    await POST(makeReq(JSON.stringify({ hello: "world" })));
+    const insertsAfterDelivery = dbWrites.insert;
+
+    const replayed = await replayStripeEvent(FIXED_EVENT_ID, handleStripeEvent);
+
+    expect(replayed.event.type).toBe("payment_intent.succeeded");
+    expect(replayed.result).toMatchObject({ ok: true });
+    expect(ledger[0]).toMatchObject({ status: "processed", attempts: 2 });
+    expect(dbWrites.insert).toBe(insertsAfterDelivery);
+  });
+
+  it("records handler failures and lets a redelivery or replay retry them", async () => {
+    const mod = await import("../stripe/webhook/route");
+    const POST = (mod as any).POST as (req: Request) => Promise<Response>;
+    const { replayStripeEvent } = await import("@/lib/stripeEvents");
+
+    const payload = JSON.stringify({ hello: "world" });
+    await POST(makeReq(payload));
+
+    await expect(
+      replayStripeEvent(FIXED_EVENT_ID, async () => {
+        throw new Error("boom");
+      }),
+    ).rejects.toThrow("boom");
+    expect(ledger[0]).toMatchObject({ status: "failed", error: "boom" });
+
+    // Stripe's own retry reclaims the failed row
+    const res = await POST(makeReq(payload));
+    expect(res.status).toBe(200);
+    expect(ledger[0]).toMatchObject({ status: "processed", error: null, attempts: 3 });
+  });
+
+  it("rejects replay of an unknown event id with 404", async () => {
+    const { replayStripeEvent } = await import("@/lib/stripeEvents");
+    await expect(replayStripeEvent("evt_missing", async () => ({ ok: true }))).rejects.toMatchObject({
+      status: 404,
+      code: "STRIPE_EVENT_NOT_FOUND",
+    });
+  });
 });
@@ -0,0 +1,54 @@
+import "server-only";
+
+import { NextRequest, NextResponse } from "next/server";
+
+import { getRequestIdFromHeaders } from "@/lib/apiError";
+import { enforcePolicy } from "@/lib/auth";
+import { addDays, funnelReport, utcDay } from "@/lib/analytics/rollups";
+import { handleAdminApiError } from "../../errorHandling";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+const DAY_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+function noStoreJson(body: unknown, status = 200) {
+  return NextResponse.json(body, {
+    status,
+    headers: { "Cache-Control": "no-store, no-cache, must-revalidate, max-age=0" },
+  });
+}
+
+function parseDay(v: string | null): string | null | undefined {
+  if (!v) return undefined;
+  if (!DAY_RE.test(v) || Number.isNaN(Date.parse(`${v}T00:00:00Z`))) return null;
+  return v;
+}
+
+/**
+ * GET /api/admin/analytics/funnel?from=2026-10-01&to=2026-10-31
+ * Product view → configure → add to cart → checkout → paid, summed over whole UTC days
+ * (inclusive) from the daily rollups, with per-day counts. Defaults to the last 30 days.
+ */
+export async function GET(req: NextRequest) {
+  const requestId = getRequestIdFromHeaders(req);
+  try {
+    await enforcePolicy(req, "admin");
+
+    const sp = req.nextUrl.searchParams;
+    const to = parseDay(sp.get("to"));
+    const from = parseDay(sp.get("from"));
+    if (to === null || from === null) return noStoreJson({ ok: false, error: "Invalid date (use YYYY-MM-DD)" }, 400);
+
+    const end = to ?? utcDay(new Date());
+    const start = from ?? addDays(end, -29);
+    if (start > end) return noStoreJson({ ok: false, error: "from must not be after to" }, 400);
+
+    const report = await funnelReport({ from: start, to: end });
+    return noStoreJson({ ok: true, ...report });
+  } catch (error: unknown) {
+    const { body, status } = handleAdminApiError(req, error, "Failed to build funnel report", requestId);
+    return noStoreJson(body, status);
+  }
+}
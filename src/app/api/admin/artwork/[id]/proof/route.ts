@@ -0,0 +1,44 @@
+import "server-only";
+
+import { NextRequest, NextResponse } from "next/server";
+
+import { getRequestIdFromHeaders, readJson } from "@/lib/apiError";
+import { enforcePolicy } from "@/lib/auth";
+import { adminActor } from "@/lib/adminAudit";
+import { sendArtworkProof } from "@/lib/artworkProofs";
+import { handleAdminApiError } from "../../../errorHandling";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function noStoreJson(body: unknown, status = 200) {
+  return NextResponse.json(body, {
+    status,
+    headers: { "Cache-Control": "no-store, no-cache, must-revalidate, max-age=0" },
+  });
+}
+
+/**
+ * POST /api/admin/artwork/:id/proof  { proofUrl, fileName?, message? }
+ * Sends a proof PDF (already uploaded to R2 via /api/uploads/r2) to the customer as the next
+ * proof version. The file stays unapproved until the customer approves it.
+ */
+export async function POST(req: NextRequest, ctx: { params: Promise<{ id: string }> }) {
+  const requestId = getRequestIdFromHeaders(req);
+  try {
+    const auth = await enforcePolicy(req, "admin");
+
+    const { id } = await ctx.params;
+    if (!UUID_RE.test(String(id || ""))) return noStoreJson({ ok: false, error: "Invalid id" }, 400);
+
+    const body = await readJson<unknown>(req);
+    const proof = await sendArtworkProof(id, body, { actor: adminActor(auth), requestId });
+    return noStoreJson({ ok: true, proof }, 201);
+  } catch (error: unknown) {
+    const { body, status } = handleAdminApiError(req, error, "Failed to send proof", requestId);
+    return noStoreJson(body, status);
+  }
+}
@@ -0,0 +1,43 @@
+import "server-only";
+
+import { NextRequest, NextResponse } from "next/server";
+
+import { getRequestIdFromHeaders, readJson } from "@/lib/apiError";
+import { enforcePolicy } from "@/lib/auth";
+import { adminActor } from "@/lib/adminAudit";
+import { reviewArtwork } from "@/lib/artworkProofs";
+import { handleAdminApiError } from "../../../errorHandling";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function noStoreJson(body: unknown, status = 200) {
+  return NextResponse.json(body, {
+    status,
+    headers: { "Cache-Control": "no-store, no-cache, must-revalidate, max-age=0" },
+  });
+}
+
+/**
+ * POST /api/admin/artwork/:id/review  { decision: "approve" | "reject", reason? }
+ * Approves the file for production, or rejects it (reason required). Emails the customer.
+ */
+export async function POST(req: NextRequest, ctx: { params: Promise<{ id: string }> }) {
+  const requestId = getRequestIdFromHeaders(req);
+  try {
+    const auth = await enforcePolicy(req, "admin");
+
+    const { id } = await ctx.params;
+    if (!UUID_RE.test(String(id || ""))) return noStoreJson({ ok: false, error: "Invalid id" }, 400);
+
+    const body = await readJson<unknown>(req);
+    const proof = await reviewArtwork(id, body, { actor: adminActor(auth), requestId });
+    return noStoreJson({ ok: true, proof });
+  } catch (error: unknown) {
+    const { body, status } = handleAdminApiError(req, error, "Failed to review artwork", requestId);
+    return noStoreJson(body, status);
+  }
+}
@@ -0,0 +1,38 @@
+import "server-only";
+
+import { NextRequest, NextResponse } from "next/server";
+
+import { getRequestIdFromHeaders } from "@/lib/apiError";
+import { enforcePolicy } from "@/lib/auth";
+import { artworkRetentionSummary } from "@/lib/artwork/retention";
+import { handleAdminApiError } from "../../errorHandling";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+function noStoreJson(body: unknown, status = 200) {
+  return NextResponse.json(body, {
+    status,
+    headers: { "Cache-Control": "no-store, no-cache, must-revalidate, max-age=0" },
+  });
+}
+
+/**
+ * GET /api/admin/artwork/retention
+ * Retention policy, how many cart uploads are retained/expired per bucket, and the last
+ * artwork-retention run (bytes reclaimed, failures).
+ */
+export async function GET(req: NextRequest) {
+  const requestId = getRequestIdFromHeaders(req);
+  try {
+    await enforcePolicy(req, "admin");
+
+    const summary = await artworkRetentionSummary();
+
+    return noStoreJson({ ok: true, ...summary });
+  } catch (error: unknown) {
+    const { body, status } = handleAdminApiError(req, error, "Failed to load artwork retention summary", requestId);
+    return noStoreJson(body, status);
+  }
+}
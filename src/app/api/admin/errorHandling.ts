@@ -0,0 +1,38 @@
+import { ApiError } from "@/lib/apiError";
+import { logAuthzDenial } from "@/lib/auth";
+
+export type AdminApiErrorResult = {
+  body: { ok: false; error: string; code?: string; details?: unknown };
+  status: number;
+};
+
+/**
+ * Shared error mapping for /api/admin/* routes that use enforcePolicy(req, "admin").
+ * Authz denials are logged; validation/conflict errors keep their status + details.
+ */
+export function handleAdminApiError(
+  req: Request,
+  error: unknown,
+  fallbackMessage: string,
+  requestId?: string,
+): AdminApiErrorResult {
+  if (error instanceof ApiError) {
+    if (error.status === 401 || error.status === 403) {
+      logAuthzDenial({ req, policy: "admin", requestId, reason: error.message });
+      return {
+        body: { ok: false, error: error.status === 401 ? "Unauthorized" : "Forbidden", code: error.code },
+        status: error.status,
+      };
+    }
+    return {
+      body: { ok: false, error: error.message, code: error.code, details: error.details },
+      status: error.status,
+    };
+  }
+
+  console.error(`[admin] ${fallbackMessage}:`, error instanceof Error ? error.message : error);
+  return {
+    body: { ok: false, error: fallbackMessage },
+    status: 500,
+  };
+}
@@ -0,0 +1,61 @@
+import "server-only";
+
+import { NextRequest, NextResponse } from "next/server";
+
+import { getRequestIdFromHeaders } from "@/lib/apiError";
+import { enforcePolicy } from "@/lib/auth";
+import { heroExperimentReport } from "@/lib/heroExperiments";
+import { handleAdminApiError } from "../errorHandling";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function noStoreJson(body: unknown, status = 200) {
+  return NextResponse.json(body, {
+    status,
+    headers: { "Cache-Control": "no-store, no-cache, must-revalidate, max-age=0" },
+  });
+}
+
+function parseDate(v: string | null): Date | null | undefined {
+  if (!v) return undefined;
+  const d = new Date(v);
+  return Number.isNaN(d.getTime()) ? null : d;
+}
+
+/**
+ * GET /api/admin/hero-experiments?from=2026-10-01&to=2026-11-01&attributionDays=7
+ * Impressions, CTR, add-to-cart rate, orders and revenue per hero slide variant, with a
+ * significance indicator against each slide's control. Defaults to the last 30 days.
+ */
+export async function GET(req: NextRequest) {
+  const requestId = getRequestIdFromHeaders(req);
+  try {
+    await enforcePolicy(req, "admin");
+
+    const sp = req.nextUrl.searchParams;
+    const to = parseDate(sp.get("to"));
+    const from = parseDate(sp.get("from"));
+    if (to === null || from === null) return noStoreJson({ ok: false, error: "Invalid date" }, 400);
+
+    const end = to ?? new Date();
+    const start = from ?? new Date(end.getTime() - 30 * DAY_MS);
+    if (start >= end) return noStoreJson({ ok: false, error: "from must be before to" }, 400);
+
+    const attributionDays = Number(sp.get("attributionDays") ?? 7);
+
+    const report = await heroExperimentReport({
+      from: start,
+      to: end,
+      attributionDays: Number.isFinite(attributionDays) ? attributionDays : 7,
+    });
+
+    return noStoreJson({ ok: true, ...report });
+  } catch (error: unknown) {
+    const { body, status } = handleAdminApiError(req, error, "Failed to build hero experiment report", requestId);
+    return noStoreJson(body, status);
+  }
+}
@@ -0,0 +1,78 @@
+import "server-only";
+
+import { NextRequest, NextResponse } from "next/server";
+
+import { getRequestIdFromHeaders } from "@/lib/apiError";
+import { enforcePolicy } from "@/lib/auth";
+import { adminActor } from "@/lib/adminAudit";
+import { deleteHeroSlide, getHeroSlide, updateHeroSlide } from "@/lib/heroSlides.server";
+import { handleAdminApiError } from "../../errorHandling";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function noStoreJson(body: unknown, status = 200) {
+  return NextResponse.json(body, {
+    status,
+    headers: { "Cache-Control": "no-store, no-cache, must-revalidate, max-age=0" },
+  });
+}
+
+/**
+ * GET    /api/admin/hero-slides/:id
+ * PATCH  /api/admin/hero-slides/:id   (any subset of the POST fields; null clears optional ones)
+ * DELETE /api/admin/hero-slides/:id
+ */
+export async function GET(req: NextRequest, ctx: { params: Promise<{ id: string }> }) {
+  const requestId = getRequestIdFromHeaders(req);
+  try {
+    await enforcePolicy(req, "admin");
+
+    const { id } = await ctx.params;
+    if (!UUID_RE.test(String(id || ""))) return noStoreJson({ ok: false, error: "Invalid id" }, 400);
+
+    const slide = await getHeroSlide(id);
+    return slide ? noStoreJson({ ok: true, slide }) : noStoreJson({ ok: false, error: "Slide not found" }, 404);
+  } catch (error: unknown) {
+    const { body, status } = handleAdminApiError(req, error, "Failed to load hero slide", requestId);
+    return noStoreJson(body, status);
+  }
+}
+
+export async function PATCH(req: NextRequest, ctx: { params: Promise<{ id: string }> }) {
+  const requestId = getRequestIdFromHeaders(req);
+  try {
+    const auth = await enforcePolicy(req, "admin");
+
+    const { id } = await ctx.params;
+    if (!UUID_RE.test(String(id || ""))) return noStoreJson({ ok: false, error: "Invalid id" }, 400);
+
+    const body = await req.json().catch(() => null);
+    if (!body) return noStoreJson({ ok: false, error: "Invalid JSON" }, 400);
+
+    const slide = await updateHeroSlide(id, body, { actor: adminActor(auth), requestId });
+    return slide ? noStoreJson({ ok: true, slide }) : noStoreJson({ ok: false, error: "Slide not found" }, 404);
+  } catch (error: unknown) {
+    const { body, status } = handleAdminApiError(req, error, "Failed to update hero slide", requestId);
+    return noStoreJson(body, status);
+  }
+}
+
+export async function DELETE(req: NextRequest, ctx: { params: Promise<{ id: string }> }) {
+  const requestId = getRequestIdFromHeaders(req);
+  try {
+    const auth = await enforcePolicy(req, "admin");
+
+    const { id } = await ctx.params;
+    if (!UUID_RE.test(String(id || ""))) return noStoreJson({ ok: false, error: "Invalid id" }, 400);
+
+    const deleted = await deleteHeroSlide(id, { actor: adminActor(auth), requestId });
+    return deleted ? noStoreJson({ ok: true }) : noStoreJson({ ok: false, error: "Slide not found" }, 404);
+  } catch (error: unknown) {
+    const { body, status } = handleAdminApiError(req, error, "Failed to delete hero slide", requestId);
+    return noStoreJson(body, status);
+  }
+}
@@ -0,0 +1,70 @@
+import "server-only";
+
+import { NextRequest, NextResponse } from "next/server";
+
+import { getRequestIdFromHeaders } from "@/lib/apiError";
+import { enforcePolicy } from "@/lib/auth";
+import { adminActor } from "@/lib/adminAudit";
+import {
+  createHeroSlide,
+  HERO_SLIDE_STATUSES,
+  listHeroSlides,
+  type HeroSlideStatus,
+} from "@/lib/heroSlides.server";
+import { handleAdminApiError } from "../errorHandling";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+/**
+ * Admin homepage hero slides (hero_slides)
+ *
+ * GET  /api/admin/hero-slides?status=draft|published
+ * POST /api/admin/hero-slides
+ *   { slug, title, imageUrl, alt, status?, priority?, startsAt?, endsAt?,
+ *     audienceStore?: "all"|"US"|"CA", audienceAuth?: "all"|"signed_in"|"guest",
+ *     description?, ctaText?, ctaHref?, badge?, fit?, focal?, blurDataUrl?,
+ *     variants?: [{ key, weight, ...overrides }] }   (A/B test; see lib/heroExperiments.ts)
+ */
+
+function noStoreJson(body: unknown, status = 200) {
+  return NextResponse.json(body, {
+    status,
+    headers: { "Cache-Control": "no-store, no-cache, must-revalidate, max-age=0" },
+  });
+}
+
+export async function GET(req: NextRequest) {
+  const requestId = getRequestIdFromHeaders(req);
+  try {
+    await enforcePolicy(req, "admin");
+
+    const rawStatus = (req.nextUrl.searchParams.get("status") ?? "").trim();
+    if (rawStatus && !(HERO_SLIDE_STATUSES as readonly string[]).includes(rawStatus)) {
+      return noStoreJson({ ok: false, error: "Invalid status" }, 400);
+    }
+
+    const slides = await listHeroSlides({ status: (rawStatus || undefined) as HeroSlideStatus | undefined });
+    return noStoreJson({ ok: true, slides });
+  } catch (error: unknown) {
+    const { body, status } = handleAdminApiError(req, error, "Failed to list hero slides", requestId);
+    return noStoreJson(body, status);
+  }
+}
+
+export async function POST(req: NextRequest) {
+  const requestId = getRequestIdFromHeaders(req);
+  try {
+    const auth = await enforcePolicy(req, "admin");
+
+    const body = await req.json().catch(() => null);
+    if (!body) return noStoreJson({ ok: false, error: "Invalid JSON" }, 400);
+
+    const slide = await createHeroSlide(body, { actor: adminActor(auth), requestId });
+    return noStoreJson({ ok: true, slide }, 201);
+  } catch (error: unknown) {
+    const { body, status } = handleAdminApiError(req, error, "Failed to create hero slide", requestId);
+    return noStoreJson(body, status);
+  }
+}
@@ -0,0 +1,38 @@
+import "server-only";
+
+import { NextRequest, NextResponse } from "next/server";
+
+import { getRequestIdFromHeaders } from "@/lib/apiError";
+import { enforcePolicy } from "@/lib/auth";
+import { listOrderArtworkProofs } from "@/lib/artworkProofs";
+import { handleAdminApiError } from "../../../errorHandling";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function noStoreJson(body: unknown, status = 200) {
+  return NextResponse.json(body, {
+    status,
+    headers: { "Cache-Control": "no-store, no-cache, must-revalidate, max-age=0" },
+  });
+}
+
+/** GET /api/admin/orders/:id/artwork — artwork uploads with every proof round. */
+export async function GET(req: NextRequest, ctx: { params: Promise<{ id: string }> }) {
+  const requestId = getRequestIdFromHeaders(req);
+  try {
+    await enforcePolicy(req, "admin");
+
+    const { id } = await ctx.params;
+    if (!UUID_RE.test(String(id || ""))) return noStoreJson({ ok: false, error: "Invalid id" }, 400);
+
+    const artwork = await listOrderArtworkProofs(id);
+    return noStoreJson({ ok: true, artwork });
+  } catch (error: unknown) {
+    const { body, status } = handleAdminApiError(req, error, "Failed to list order artwork", requestId);
+    return noStoreJson(body, status);
+  }
+}
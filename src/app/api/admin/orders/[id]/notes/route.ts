@@ -0,0 +1,57 @@
+import "server-only";
+
+import { NextRequest, NextResponse } from "next/server";
+
+import { getRequestIdFromHeaders, readJson } from "@/lib/apiError";
+import { enforcePolicy } from "@/lib/auth";
+import { adminActor } from "@/lib/adminAudit";
+import { addOrderNote, listOrderNotes } from "@/lib/adminOrders";
+import { handleAdminApiError } from "../../../errorHandling";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function noStoreJson(body: unknown, status = 200) {
+  return NextResponse.json(body, {
+    status,
+    headers: { "Cache-Control": "no-store, no-cache, must-revalidate, max-age=0" },
+  });
+}
+
+/** GET /api/admin/orders/:id/notes — internal notes, oldest first. Never shown to customers. */
+export async function GET(req: NextRequest, ctx: { params: Promise<{ id: string }> }) {
+  const requestId = getRequestIdFromHeaders(req);
+  try {
+    await enforcePolicy(req, "admin");
+
+    const { id } = await ctx.params;
+    if (!UUID_RE.test(String(id || ""))) return noStoreJson({ ok: false, error: "Invalid id" }, 400);
+
+    const notes = await listOrderNotes(id);
+    return noStoreJson({ ok: true, notes });
+  } catch (error: unknown) {
+    const { body, status } = handleAdminApiError(req, error, "Failed to list order notes", requestId);
+    return noStoreJson(body, status);
+  }
+}
+
+/** POST /api/admin/orders/:id/notes  { body } */
+export async function POST(req: NextRequest, ctx: { params: Promise<{ id: string }> }) {
+  const requestId = getRequestIdFromHeaders(req);
+  try {
+    const auth = await enforcePolicy(req, "admin");
+
+    const { id } = await ctx.params;
+    if (!UUID_RE.test(String(id || ""))) return noStoreJson({ ok: false, error: "Invalid id" }, 400);
+
+    const body = await readJson<unknown>(req);
+    const note = await addOrderNote(id, body, { actor: adminActor(auth), requestId });
+    return noStoreJson({ ok: true, note }, 201);
+  } catch (error: unknown) {
+    const { body, status } = handleAdminApiError(req, error, "Failed to add order note", requestId);
+    return noStoreJson(body, status);
+  }
+}
@@ -0,0 +1,46 @@
+import "server-only";
+
+import { NextRequest, NextResponse } from "next/server";
+
+import { getRequestIdFromHeaders, readJson } from "@/lib/apiError";
+import { enforcePolicy } from "@/lib/auth";
+import { adminActor } from "@/lib/adminAudit";
+import { refundOrder } from "@/lib/adminOrders";
+import { handleAdminApiError } from "../../../errorHandling";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function noStoreJson(body: unknown, status = 200) {
+  return NextResponse.json(body, {
+    status,
+    headers: { "Cache-Control": "no-store, no-cache, must-revalidate, max-age=0" },
+  });
+}
+
+/**
+ * POST /api/admin/orders/:id/refund  { refundRequestId, amountCents?, reason? }
+ * Creates a Stripe refund (omit amountCents to refund the remainder). refundRequestId is a
+ * client-generated id per refund; resending it returns the same refund instead of a new one.
+ * The order itself is updated by the charge.refunded webhook, same as refunds made in the
+ * Stripe dashboard.
+ */
+export async function POST(req: NextRequest, ctx: { params: Promise<{ id: string }> }) {
+  const requestId = getRequestIdFromHeaders(req);
+  try {
+    const auth = await enforcePolicy(req, "admin");
+
+    const { id } = await ctx.params;
+    if (!UUID_RE.test(String(id || ""))) return noStoreJson({ ok: false, error: "Invalid id" }, 400);
+
+    const body = await readJson<unknown>(req);
+    const result = await refundOrder(id, body, { actor: adminActor(auth), requestId });
+    return noStoreJson({ ok: true, ...result });
+  } catch (error: unknown) {
+    const { body, status } = handleAdminApiError(req, error, "Failed to refund order", requestId);
+    return noStoreJson(body, status);
+  }
+}
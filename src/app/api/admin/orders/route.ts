@@ -0,0 +1,38 @@
+import "server-only";
+
+import { NextRequest, NextResponse } from "next/server";
+
+import { getRequestIdFromHeaders } from "@/lib/apiError";
+import { enforcePolicy } from "@/lib/auth";
+import { listAdminOrders, parseAdminOrderFilters } from "@/lib/adminOrders";
+import { handleAdminApiError } from "../errorHandling";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+function noStoreJson(body: unknown, status = 200) {
+  return NextResponse.json(body, {
+    status,
+    headers: { "Cache-Control": "no-store, no-cache, must-revalidate, max-age=0" },
+  });
+}
+
+/**
+ * GET /api/admin/orders?status=paid&from=2026-01-01&to=2026-02-01&email=jane&orderNumber=1042&providerId=pi_...&limit=50&offset=0
+ * Newest first. All filters are optional and combine with AND.
+ */
+export async function GET(req: NextRequest) {
+  const requestId = getRequestIdFromHeaders(req);
+  try {
+    await enforcePolicy(req, "admin");
+
+    const filters = parseAdminOrderFilters(req.nextUrl.searchParams);
+    const orders = await listAdminOrders(filters);
+
+    return noStoreJson({ ok: true, orders, limit: filters.limit, offset: filters.offset });
+  } catch (error: unknown) {
+    const { body, status } = handleAdminApiError(req, error, "Failed to list orders", requestId);
+    return noStoreJson(body, status);
+  }
+}
@@ -0,0 +1,42 @@
+import "server-only";
+
+import { NextRequest, NextResponse } from "next/server";
+
+import { getRequestIdFromHeaders } from "@/lib/apiError";
+import { enforcePolicy } from "@/lib/auth";
+import { getPriceCacheHealth } from "@/lib/sinalite/priceCache";
+import { handleAdminApiError } from "../../errorHandling";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+/**
+ * Sinalite price cache health
+ *
+ * GET /api/admin/pricing/cache-health?days=7
+ *   -> { policy, entries: { total, fresh, stale, expired, ... }, days: [...], totals, refreshesInFlight }
+ * Lookup outcomes (fresh / stale / miss / fallback / error) per UTC day, with hit and stale rates.
+ */
+
+function noStoreJson(body: unknown, status = 200) {
+  return NextResponse.json(body, {
+    status,
+    headers: { "Cache-Control": "no-store, no-cache, must-revalidate, max-age=0" },
+  });
+}
+
+export async function GET(req: NextRequest) {
+  const requestId = getRequestIdFromHeaders(req);
+  try {
+    await enforcePolicy(req, "admin");
+
+    const days = Number(req.nextUrl.searchParams.get("days"));
+    const health = await getPriceCacheHealth(Number.isFinite(days) && days > 0 ? { days } : {});
+
+    return noStoreJson({ ok: true, ...health });
+  } catch (error: unknown) {
+    const { body, status } = handleAdminApiError(req, error, "Failed to load price cache health", requestId);
+    return noStoreJson(body, status);
+  }
+}
@@ -0,0 +1,42 @@
+import "server-only";
+
+import { NextRequest, NextResponse } from "next/server";
+
+import { getRequestIdFromHeaders } from "@/lib/apiError";
+import { enforcePolicy } from "@/lib/auth";
+import { marginReport } from "@/lib/sinalite/priceChanges";
+import { handleAdminApiError } from "../../errorHandling";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+/**
+ * Sinalite cost changes (sinalite_price_changes)
+ *
+ * GET /api/admin/pricing/price-changes?days=30
+ *   -> { changes: [...], alerts: [...] }
+ * alerts: open cart lines and draft/sent quote lines priced under their margin floor at the new cost.
+ */
+
+function noStoreJson(body: unknown, status = 200) {
+  return NextResponse.json(body, {
+    status,
+    headers: { "Cache-Control": "no-store, no-cache, must-revalidate, max-age=0" },
+  });
+}
+
+export async function GET(req: NextRequest) {
+  const requestId = getRequestIdFromHeaders(req);
+  try {
+    await enforcePolicy(req, "admin");
+
+    const days = Number(req.nextUrl.searchParams.get("days"));
+    const report = await marginReport(Number.isFinite(days) && days > 0 ? { days } : {});
+
+    return noStoreJson({ ok: true, ...report });
+  } catch (error: unknown) {
+    const { body, status } = handleAdminApiError(req, error, "Failed to load price changes", requestId);
+    return noStoreJson(body, status);
+  }
+}
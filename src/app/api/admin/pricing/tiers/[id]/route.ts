@@ -0,0 +1,61 @@
+import "server-only";
+
+import { NextRequest, NextResponse } from "next/server";
+
+import { getRequestIdFromHeaders } from "@/lib/apiError";
+import { enforcePolicy } from "@/lib/auth";
+import { deletePriceTier, updatePriceTier } from "@/lib/priceTiers";
+import { handleAdminApiError } from "../../../errorHandling";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+function noStoreJson(body: unknown, status = 200) {
+  return NextResponse.json(body, {
+    status,
+    headers: { "Cache-Control": "no-store, no-cache, must-revalidate, max-age=0" },
+  });
+}
+
+function parseId(raw: string): number | null {
+  const n = Number(raw);
+  return Number.isInteger(n) && n > 0 ? n : null;
+}
+
+export async function PATCH(req: NextRequest, ctx: { params: Promise<{ id: string }> }) {
+  const requestId = getRequestIdFromHeaders(req);
+  try {
+    await enforcePolicy(req, "admin");
+
+    const { id: rawId } = await ctx.params;
+    const id = parseId(String(rawId || ""));
+    if (!id) return noStoreJson({ ok: false, error: "Invalid id" }, 400);
+
+    const body = await req.json().catch(() => null);
+    if (!body) return noStoreJson({ ok: false, error: "Invalid JSON" }, 400);
+
+    const tier = await updatePriceTier(id, body);
+    return tier ? noStoreJson({ ok: true, tier }) : noStoreJson({ ok: false, error: "Tier not found" }, 404);
+  } catch (error: unknown) {
+    const { body, status } = handleAdminApiError(req, error, "Failed to update price tier", requestId);
+    return noStoreJson(body, status);
+  }
+}
+
+export async function DELETE(req: NextRequest, ctx: { params: Promise<{ id: string }> }) {
+  const requestId = getRequestIdFromHeaders(req);
+  try {
+    await enforcePolicy(req, "admin");
+
+    const { id: rawId } = await ctx.params;
+    const id = parseId(String(rawId || ""));
+    if (!id) return noStoreJson({ ok: false, error: "Invalid id" }, 400);
+
+    const deleted = await deletePriceTier(id);
+    return deleted ? noStoreJson({ ok: true }) : noStoreJson({ ok: false, error: "Tier not found" }, 404);
+  } catch (error: unknown) {
+    const { body, status } = handleAdminApiError(req, error, "Failed to delete price tier", requestId);
+    return noStoreJson(body, status);
+  }
+}
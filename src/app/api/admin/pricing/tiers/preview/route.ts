@@ -0,0 +1,123 @@
+import "server-only";
+
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+import { getRequestIdFromHeaders } from "@/lib/apiError";
+import { enforcePolicy } from "@/lib/auth";
+import { applyTieredMarkup } from "@/lib/pricing";
+import { computePrice } from "@/lib/price/compute";
+import { fillScopeFromAssets } from "@/lib/priceTiers";
+import { handleAdminApiError } from "../../../errorHandling";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+/**
+ * POST /api/admin/pricing/tiers/preview
+ *
+ * Preview the sell price for a sample product/quantity under the current tiers.
+ * Cost comes from either:
+ *  - optionIds (live Sinalite /price call), or
+ *  - lineCostCents / unitCostCents (what-if cost)
+ *
+ * Reads tiers straight from price_tiers so the preview reflects the latest admin edits,
+ * without dropping the cache that storefront pricing uses.
+ */
+
+const BodySchema = z
+  .object({
+    productId: z.number().int().positive(),
+    store: z.enum(["US", "CA"]).default("US"),
+    quantity: z.number().int().positive().max(1_000_000),
+    optionIds: z.array(z.number().int().positive()).max(50).optional(),
+    lineCostCents: z.number().int().nonnegative().optional(),
+    unitCostCents: z.number().int().nonnegative().optional(),
+    categoryId: z.number().int().positive().nullable().optional(),
+    subcategoryId: z.number().int().positive().nullable().optional(),
+  })
+  .strict()
+  .refine((v) => Boolean(v.optionIds?.length) || v.lineCostCents != null || v.unitCostCents != null, {
+    message: "Provide optionIds or lineCostCents/unitCostCents",
+    path: ["optionIds"],
+  });
+
+function noStoreJson(body: unknown, status = 200) {
+  return NextResponse.json(body, {
+    status,
+    headers: { "Cache-Control": "no-store, no-cache, must-revalidate, max-age=0" },
+  });
+}
+
+export async function POST(req: NextRequest) {
+  const requestId = getRequestIdFromHeaders(req);
+  try {
+    await enforcePolicy(req, "admin");
+
+    const parsed = BodySchema.safeParse(await req.json().catch(() => null));
+    if (!parsed.success) {
+      return noStoreJson(
+        {
+          ok: false,
+          error: "Invalid request body",
+          issues: parsed.error.issues.map((i) => ({ path: i.path.join("."), message: i.message })),
+        },
+        400,
+      );
+    }
+
+    const body = parsed.data;
+    const scope = fillScopeFromAssets(body);
+
+    let lineCostCents = body.lineCostCents;
+    let costSource: "sinalite" | "input" = "input";
+
+    if (body.optionIds?.length) {
+      const live = await computePrice({
+        productId: body.productId,
+        store: body.store,
+        quantity: body.quantity,
+        optionIds: body.optionIds,
+        categoryId: scope.categoryId,
+        subcategoryId: scope.subcategoryId,
+      });
+      lineCostCents = live.lineCostCents;
+      costSource = "sinalite";
+    }
+
+    const result = await applyTieredMarkup({
+      store: body.store,
+      quantity: body.quantity,
+      lineCostCents,
+      unitCostCents: body.unitCostCents,
+      productId: body.productId,
+      subcategoryId: scope.subcategoryId,
+      categoryId: scope.categoryId,
+      debug: true,
+      freshTiers: true,
+    });
+
+    const cost = result.debug?.lineCostCents ?? 0;
+    const marginPct = result.lineSellCents > 0 ? (result.lineSellCents - cost) / result.lineSellCents : 0;
+
+    return noStoreJson({
+      ok: true,
+      preview: {
+        productId: body.productId,
+        store: body.store,
+        quantity: body.quantity,
+        scope,
+        costSource,
+        lineCostCents: cost,
+        unitSellCents: result.unitSellCents,
+        lineSellCents: result.lineSellCents,
+        marginPct: Math.round(marginPct * 10000) / 10000,
+        debug: result.debug,
+      },
+    });
+  } catch (error: unknown) {
+    const { body, status } = handleAdminApiError(req, error, "Failed to preview price", requestId);
+    return noStoreJson(body, status);
+  }
+}
@@ -0,0 +1,74 @@
+import "server-only";
+
+import { NextRequest, NextResponse } from "next/server";
+
+import { getRequestIdFromHeaders } from "@/lib/apiError";
+import { enforcePolicy } from "@/lib/auth";
+import {
+  createPriceTier,
+  listPriceTiers,
+  normalizeTierScope,
+  normalizeTierStore,
+} from "@/lib/priceTiers";
+import { handleAdminApiError } from "../../errorHandling";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+/**
+ * Admin markup tiers (price_tiers)
+ *
+ * GET  /api/admin/pricing/tiers?scope=&scopeId=&store=
+ * POST /api/admin/pricing/tiers
+ *   { scope, scopeId?, store, minQty, maxQty?, mult, floorPct? }
+ */
+
+function noStoreJson(body: unknown, status = 200) {
+  return NextResponse.json(body, {
+    status,
+    headers: { "Cache-Control": "no-store, no-cache, must-revalidate, max-age=0" },
+  });
+}
+
+function parseScopeId(v: string | null): number | null | undefined {
+  if (v == null || v === "") return undefined;
+  if (v === "null") return null;
+  const n = Number(v);
+  return Number.isFinite(n) && n > 0 ? Math.trunc(n) : undefined;
+}
+
+export async function GET(req: NextRequest) {
+  const requestId = getRequestIdFromHeaders(req);
+  try {
+    await enforcePolicy(req, "admin");
+
+    const sp = req.nextUrl.searchParams;
+    const tiers = await listPriceTiers({
+      scope: normalizeTierScope(sp.get("scope")) ?? undefined,
+      scopeId: parseScopeId(sp.get("scopeId")),
+      store: normalizeTierStore(sp.get("store")) ?? undefined,
+    });
+
+    return noStoreJson({ ok: true, tiers });
+  } catch (error: unknown) {
+    const { body, status } = handleAdminApiError(req, error, "Failed to list price tiers", requestId);
+    return noStoreJson(body, status);
+  }
+}
+
+export async function POST(req: NextRequest) {
+  const requestId = getRequestIdFromHeaders(req);
+  try {
+    await enforcePolicy(req, "admin");
+
+    const body = await req.json().catch(() => null);
+    if (!body) return noStoreJson({ ok: false, error: "Invalid JSON" }, 400);
+
+    const tier = await createPriceTier(body);
+    return noStoreJson({ ok: true, tier }, 201);
+  } catch (error: unknown) {
+    const { body, status } = handleAdminApiError(req, error, "Failed to create price tier", requestId);
+    return noStoreJson(body, status);
+  }
+}
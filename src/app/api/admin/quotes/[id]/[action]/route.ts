@@ -0,0 +1,47 @@
+import "server-only";
+
+import { NextRequest, NextResponse } from "next/server";
+
+import { getRequestIdFromHeaders } from "@/lib/apiError";
+import { enforcePolicy } from "@/lib/auth";
+import { adminActor } from "@/lib/adminAudit";
+import { applyQuoteAction } from "@/lib/quotes";
+import { handleAdminApiError } from "../../../errorHandling";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const ACTIONS = ["send", "revise", "cancel"] as const;
+type Action = (typeof ACTIONS)[number];
+
+function noStoreJson(body: unknown, status = 200) {
+  return NextResponse.json(body, {
+    status,
+    headers: { "Cache-Control": "no-store, no-cache, must-revalidate, max-age=0" },
+  });
+}
+
+/**
+ * POST /api/admin/quotes/:id/send     draft → sent, emails the customer link
+ * POST /api/admin/quotes/:id/revise   sent | declined | expired → draft
+ * POST /api/admin/quotes/:id/cancel   draft | sent → cancelled
+ */
+export async function POST(req: NextRequest, ctx: { params: Promise<{ id: string; action: string }> }) {
+  const requestId = getRequestIdFromHeaders(req);
+  try {
+    const auth = await enforcePolicy(req, "admin");
+
+    const { id, action } = await ctx.params;
+    if (!UUID_RE.test(String(id || ""))) return noStoreJson({ ok: false, error: "Invalid id" }, 400);
+    if (!(ACTIONS as readonly string[]).includes(action)) return noStoreJson({ ok: false, error: "Unknown action" }, 404);
+
+    const quote = await applyQuoteAction(id, action as Action, { actor: adminActor(auth), requestId });
+    return noStoreJson({ ok: true, quote });
+  } catch (error: unknown) {
+    const { body, status } = handleAdminApiError(req, error, "Failed to update quote", requestId);
+    return noStoreJson(body, status);
+  }
+}
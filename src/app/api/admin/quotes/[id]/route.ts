@@ -0,0 +1,60 @@
+import "server-only";
+
+import { NextRequest, NextResponse } from "next/server";
+
+import { getRequestIdFromHeaders, readJson } from "@/lib/apiError";
+import { enforcePolicy } from "@/lib/auth";
+import { adminActor } from "@/lib/adminAudit";
+import { getQuote, quoteViewUrl, updateQuote } from "@/lib/quotes";
+import { handleAdminApiError } from "../../errorHandling";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function noStoreJson(body: unknown, status = 200) {
+  return NextResponse.json(body, {
+    status,
+    headers: { "Cache-Control": "no-store, no-cache, must-revalidate, max-age=0" },
+  });
+}
+
+/**
+ * GET   /api/admin/quotes/:id   quote + lines, and the customer link once it has been sent
+ * PATCH /api/admin/quotes/:id   drafts only; any subset of the POST fields (lines replaces all)
+ */
+export async function GET(req: NextRequest, ctx: { params: Promise<{ id: string }> }) {
+  const requestId = getRequestIdFromHeaders(req);
+  try {
+    await enforcePolicy(req, "admin");
+
+    const { id } = await ctx.params;
+    if (!UUID_RE.test(String(id || ""))) return noStoreJson({ ok: false, error: "Invalid id" }, 400);
+
+    const quote = await getQuote(id);
+    const viewUrl = quote.status === "draft" || quote.status === "cancelled" ? null : quoteViewUrl(quote);
+    return noStoreJson({ ok: true, quote, viewUrl });
+  } catch (error: unknown) {
+    const { body, status } = handleAdminApiError(req, error, "Failed to load quote", requestId);
+    return noStoreJson(body, status);
+  }
+}
+
+export async function PATCH(req: NextRequest, ctx: { params: Promise<{ id: string }> }) {
+  const requestId = getRequestIdFromHeaders(req);
+  try {
+    const auth = await enforcePolicy(req, "admin");
+
+    const { id } = await ctx.params;
+    if (!UUID_RE.test(String(id || ""))) return noStoreJson({ ok: false, error: "Invalid id" }, 400);
+
+    const body = await readJson<unknown>(req);
+    const quote = await updateQuote(id, body, { actor: adminActor(auth), requestId });
+    return noStoreJson({ ok: true, quote });
+  } catch (error: unknown) {
+    const { body, status } = handleAdminApiError(req, error, "Failed to update quote", requestId);
+    return noStoreJson(body, status);
+  }
+}
@@ -0,0 +1,61 @@
+import "server-only";
+
+import { NextRequest, NextResponse } from "next/server";
+
+import { getRequestIdFromHeaders, readJson } from "@/lib/apiError";
+import { enforcePolicy } from "@/lib/auth";
+import { adminActor } from "@/lib/adminAudit";
+import { createQuote, listQuotes, parseQuoteFilters } from "@/lib/quotes";
+import { handleAdminApiError } from "../errorHandling";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+/**
+ * Admin quotes (quotes + quote_lines)
+ *
+ * GET  /api/admin/quotes?status=draft|sent|accepted|declined|expired|cancelled&q=&limit=&offset=
+ *      q matches quote number, customer email, name or company
+ * POST /api/admin/quotes
+ *   { customerEmail, customerName?, company?, userId?, quoteRequestId?, store?: "US"|"CA",
+ *     lines: [{ kind: "sinalite", productId, optionIds, quantity, description, unitPriceCents? }
+ *           | { kind: "custom", description, quantity, unitPriceCents }],
+ *     shippingCents?, shippingLabel?, shipTo?: { country, state, zip?, city? },
+ *     message?, internalNotes?, expiresAt? }   → a draft (see lib/quotes.ts)
+ */
+
+function noStoreJson(body: unknown, status = 200) {
+  return NextResponse.json(body, {
+    status,
+    headers: { "Cache-Control": "no-store, no-cache, must-revalidate, max-age=0" },
+  });
+}
+
+export async function GET(req: NextRequest) {
+  const requestId = getRequestIdFromHeaders(req);
+  try {
+    await enforcePolicy(req, "admin");
+
+    const filters = parseQuoteFilters(req.nextUrl.searchParams);
+    const quotes = await listQuotes(filters);
+    return noStoreJson({ ok: true, quotes, limit: filters.limit, offset: filters.offset });
+  } catch (error: unknown) {
+    const { body, status } = handleAdminApiError(req, error, "Failed to list quotes", requestId);
+    return noStoreJson(body, status);
+  }
+}
+
+export async function POST(req: NextRequest) {
+  const requestId = getRequestIdFromHeaders(req);
+  try {
+    const auth = await enforcePolicy(req, "admin");
+
+    const body = await readJson<unknown>(req);
+    const quote = await createQuote(body, { actor: adminActor(auth), requestId });
+    return noStoreJson({ ok: true, quote }, 201);
+  } catch (error: unknown) {
+    const { body, status } = handleAdminApiError(req, error, "Failed to create quote", requestId);
+    return noStoreJson(body, status);
+  }
+}
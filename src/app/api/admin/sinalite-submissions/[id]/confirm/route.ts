@@ -0,0 +1,59 @@
+import "server-only";
+
+import { NextRequest, NextResponse } from "next/server";
+
+import { getRequestIdFromHeaders, readJson } from "@/lib/apiError";
+import { enforcePolicy } from "@/lib/auth";
+import { db } from "@/lib/db";
+import { adminActor, recordAdminAudit } from "@/lib/adminAudit";
+import { confirmSinaliteSubmission } from "@/lib/sinalite/orderSubmission";
+import { handleAdminApiError } from "../../../errorHandling";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function noStoreJson(body: unknown, status = 200) {
+  return NextResponse.json(body, {
+    status,
+    headers: { "Cache-Control": "no-store, no-cache, must-revalidate, max-age=0" },
+  });
+}
+
+/**
+ * POST /api/admin/sinalite-submissions/:id/confirm  { sinaliteOrderId }
+ * For a submission in "needs_review" that did reach Sinalite: records the order id found there.
+ */
+export async function POST(req: NextRequest, ctx: { params: Promise<{ id: string }> }) {
+  const requestId = getRequestIdFromHeaders(req);
+  try {
+    const auth = await enforcePolicy(req, "admin");
+
+    const { id } = await ctx.params;
+    if (!UUID_RE.test(String(id || ""))) return noStoreJson({ ok: false, error: "Invalid id" }, 400);
+
+    const body = (await readJson<{ sinaliteOrderId?: unknown }>(req).catch(() => null)) ?? {};
+    const sinaliteOrderId = String(body.sinaliteOrderId ?? "").trim();
+    if (!/^\d{1,20}$/.test(sinaliteOrderId)) {
+      return noStoreJson({ ok: false, error: "sinaliteOrderId must be the numeric Sinalite order id" }, 400);
+    }
+
+    const outcome = await confirmSinaliteSubmission(id, sinaliteOrderId);
+
+    await recordAdminAudit(db, {
+      actor: adminActor(auth),
+      action: "sinalite.confirm",
+      targetType: "sinalite_submission",
+      targetId: id,
+      requestId,
+      details: { sinaliteOrderId },
+    });
+
+    return noStoreJson({ ok: true, outcome });
+  } catch (error: unknown) {
+    const { body, status } = handleAdminApiError(req, error, "Failed to confirm Sinalite order", requestId);
+    return noStoreJson(body, status);
+  }
+}
@@ -0,0 +1,53 @@
+import "server-only";
+
+import { NextRequest, NextResponse } from "next/server";
+
+import { getRequestIdFromHeaders } from "@/lib/apiError";
+import { enforcePolicy } from "@/lib/auth";
+import { db } from "@/lib/db";
+import { adminActor, recordAdminAudit } from "@/lib/adminAudit";
+import { resubmitSinaliteSubmission } from "@/lib/sinalite/orderSubmission";
+import { handleAdminApiError } from "../../../errorHandling";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function noStoreJson(body: unknown, status = 200) {
+  return NextResponse.json(body, {
+    status,
+    headers: { "Cache-Control": "no-store, no-cache, must-revalidate, max-age=0" },
+  });
+}
+
+/**
+ * POST /api/admin/sinalite-submissions/:id/resubmit
+ * Resets attempts and submits immediately; the outcome is returned and stored on the job.
+ */
+export async function POST(req: NextRequest, ctx: { params: Promise<{ id: string }> }) {
+  const requestId = getRequestIdFromHeaders(req);
+  try {
+    const auth = await enforcePolicy(req, "admin");
+
+    const { id } = await ctx.params;
+    if (!UUID_RE.test(String(id || ""))) return noStoreJson({ ok: false, error: "Invalid id" }, 400);
+
+    const outcome = await resubmitSinaliteSubmission(id);
+
+    await recordAdminAudit(db, {
+      actor: adminActor(auth),
+      action: "sinalite.resubmit",
+      targetType: "sinalite_submission",
+      targetId: id,
+      requestId,
+      details: { outcome },
+    });
+
+    return noStoreJson({ ok: true, outcome });
+  } catch (error: unknown) {
+    const { body, status } = handleAdminApiError(req, error, "Failed to resubmit Sinalite order", requestId);
+    return noStoreJson(body, status);
+  }
+}
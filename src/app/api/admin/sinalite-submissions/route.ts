@@ -0,0 +1,50 @@
+import "server-only";
+
+import { NextRequest, NextResponse } from "next/server";
+
+import { getRequestIdFromHeaders } from "@/lib/apiError";
+import { enforcePolicy } from "@/lib/auth";
+import {
+  listSinaliteSubmissions,
+  SINALITE_SUBMISSION_STATUSES,
+  type SinaliteSubmissionStatus,
+} from "@/lib/sinalite/orderSubmission";
+import { handleAdminApiError } from "../errorHandling";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+function noStoreJson(body: unknown, status = 200) {
+  return NextResponse.json(body, {
+    status,
+    headers: { "Cache-Control": "no-store, no-cache, must-revalidate, max-age=0" },
+  });
+}
+
+/**
+ * GET /api/admin/sinalite-submissions?status=failed&limit=100
+ * Sinalite order submission jobs, most recently updated first. Omit status for all.
+ */
+export async function GET(req: NextRequest) {
+  const requestId = getRequestIdFromHeaders(req);
+  try {
+    await enforcePolicy(req, "admin");
+
+    const sp = req.nextUrl.searchParams;
+    const rawStatus = (sp.get("status") ?? "").trim();
+    if (rawStatus && !(SINALITE_SUBMISSION_STATUSES as readonly string[]).includes(rawStatus)) {
+      return noStoreJson({ ok: false, error: "Invalid status" }, 400);
+    }
+
+    const submissions = await listSinaliteSubmissions({
+      status: (rawStatus || null) as SinaliteSubmissionStatus | null,
+      limit: Number(sp.get("limit") ?? 100),
+    });
+
+    return noStoreJson({ ok: true, submissions });
+  } catch (error: unknown) {
+    const { body, status } = handleAdminApiError(req, error, "Failed to list Sinalite submissions", requestId);
+    return noStoreJson(body, status);
+  }
+}
@@ -0,0 +1,66 @@
+import "server-only";
+
+import { NextRequest, NextResponse } from "next/server";
+
+import { ApiError, getRequestIdFromHeaders } from "@/lib/apiError";
+import { enforcePolicy } from "@/lib/auth";
+import { db } from "@/lib/db";
+import { adminActor, recordAdminAudit } from "@/lib/adminAudit";
+import { replayStripeEvent } from "@/lib/stripeEvents";
+import { handleStripeEvent } from "@/app/api/stripe/webhook/handler";
+import { handleAdminApiError } from "../../../errorHandling";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+const EVENT_ID_RE = /^evt_[A-Za-z0-9]+$/;
+
+function noStoreJson(body: unknown, status = 200) {
+  return NextResponse.json(body, {
+    status,
+    headers: { "Cache-Control": "no-store, no-cache, must-revalidate, max-age=0" },
+  });
+}
+
+/**
+ * POST /api/admin/stripe-events/:id/replay   (id = Stripe event id, evt_...)
+ * Runs the stored payload through the webhook handler again and records the new outcome.
+ */
+export async function POST(req: NextRequest, ctx: { params: Promise<{ id: string }> }) {
+  const requestId = getRequestIdFromHeaders(req);
+  try {
+    const auth = await enforcePolicy(req, "admin");
+
+    const { id } = await ctx.params;
+    if (!EVENT_ID_RE.test(String(id || ""))) return noStoreJson({ ok: false, error: "Invalid id" }, 400);
+
+    let replayed: Awaited<ReturnType<typeof replayStripeEvent>> | null = null;
+    let failure: unknown = null;
+    try {
+      replayed = await replayStripeEvent(id, handleStripeEvent);
+    } catch (e) {
+      failure = e;
+    }
+
+    // Audit every attempt that reached the handler, including ones that failed again
+    if (!(failure instanceof ApiError)) {
+      await recordAdminAudit(db, {
+        actor: adminActor(auth),
+        action: "stripe_event.replay",
+        targetType: "stripe_event",
+        targetId: id,
+        requestId,
+        details: replayed
+          ? { type: replayed.event.type, attempts: replayed.attempts, result: replayed.result }
+          : { error: failure instanceof Error ? failure.message : String(failure) },
+      });
+    }
+
+    if (failure) throw failure;
+    return noStoreJson({ ok: true, ...replayed });
+  } catch (error: unknown) {
+    const { body, status } = handleAdminApiError(req, error, "Failed to replay Stripe event", requestId);
+    return noStoreJson(body, status);
+  }
+}
@@ -0,0 +1,47 @@
+import "server-only";
+
+import { NextRequest, NextResponse } from "next/server";
+
+import { getRequestIdFromHeaders } from "@/lib/apiError";
+import { enforcePolicy } from "@/lib/auth";
+import { listStripeEvents, STRIPE_EVENT_STATUSES, type StripeEventStatus } from "@/lib/stripeEvents";
+import { handleAdminApiError } from "../errorHandling";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+function noStoreJson(body: unknown, status = 200) {
+  return NextResponse.json(body, {
+    status,
+    headers: { "Cache-Control": "no-store, no-cache, must-revalidate, max-age=0" },
+  });
+}
+
+/**
+ * GET /api/admin/stripe-events?status=failed&type=charge.refunded&limit=100
+ * Received Stripe webhook events, newest first (payloads omitted).
+ */
+export async function GET(req: NextRequest) {
+  const requestId = getRequestIdFromHeaders(req);
+  try {
+    await enforcePolicy(req, "admin");
+
+    const sp = req.nextUrl.searchParams;
+    const rawStatus = (sp.get("status") ?? "").trim();
+    if (rawStatus && !(STRIPE_EVENT_STATUSES as readonly string[]).includes(rawStatus)) {
+      return noStoreJson({ ok: false, error: "Invalid status" }, 400);
+    }
+
+    const events = await listStripeEvents({
+      status: (rawStatus || null) as StripeEventStatus | null,
+      type: (sp.get("type") ?? "").trim() || null,
+      limit: Number(sp.get("limit") ?? 100),
+    });
+
+    return noStoreJson({ ok: true, events });
+  } catch (error: unknown) {
+    const { body, status } = handleAdminApiError(req, error, "Failed to list Stripe events", requestId);
+    return noStoreJson(body, status);
+  }
+}
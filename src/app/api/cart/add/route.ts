@@ -9,7 +9,10 @@ import { and, eq, sql } from "drizzle-orm";
 import { db } from "@/lib/db";
 import { carts } from "@/lib/db/schema/cart";
 import { cartLines } from "@/lib/db/schema/cartLines";
+import { revalidateCartPromoSafe } from "@/lib/promoCodes";
+import { touchCart } from "@/lib/cartSession";
 import { getOrEnsureSid } from "@/lib/getOrSetSid";
+import { recordServerEvent } from "@/lib/analytics/store";
 
 // ✅ update this import to your canonical pricing helper (server-side)
 import { priceSinaliteProduct } from "@/lib/sinalite.pricing";
@@ -170,6 +173,15 @@ export async function POST(req: NextRequest) {
       .values(insertValues)
       .returning({ id: cartLines.id });
 
+    await touchCart(cart.id);
+    await revalidateCartPromoSafe(cart.id);
+
+    await recordServerEvent(
+      "add_to_cart",
+      { productId, cartId: String(cart.id), quantity, unitPriceCents: unitCents },
+      { sid, requestId: rid, userAgent: req.headers.get("user-agent") }
+    );
+
     // Small cart summary for UX (optional but handy)
     const [{ count }] =
       (await db
@@ -7,6 +7,7 @@ import { db } from "@/lib/db";
 import { carts } from "@/lib/db/schema/cart";
 import { cartLines } from "@/lib/db/schema/cartLines";
 import { cartCredits } from "@/lib/db/schema/cartCredits";
+import { calculateTaxCents, taxLocationFromSelectedShipping } from "@/lib/tax";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -126,14 +127,19 @@ export async function POST(req: NextRequest) {
 
     const subtotalCents = await subtotalCentsForCart(cart.id);
     const shippingCents = shippingCentsFromSelectedShipping(cart.selectedShipping);
-    const taxCents = 0; // keep 0 until your tax module is wired in Phase 2
+    const currency: "USD" | "CAD" = cart.currency === "CAD" ? "CAD" : "USD";
+    const location = taxLocationFromSelectedShipping(cart.selectedShipping);
 
-    // clamp to (subtotal + shipping + tax)
-    const maxCents = Math.max(0, subtotalCents + shippingCents + taxCents);
+    // clamp to (subtotal + shipping + pre-credit tax)
+    const grossTax = calculateTaxCents({ currency, subtotalCents, shippingCents, creditsCents: 0, location });
+    const maxCents = Math.max(0, subtotalCents + shippingCents + grossTax.taxCents);
     const appliedCents = Math.min(requestedCents, maxCents);
 
     const creditsCents = await replaceLoyaltyCredit(cart.id, appliedCents);
 
+    // credits reduce the taxable base, so re-run tax with the final credit total
+    const { taxCents } = calculateTaxCents({ currency, subtotalCents, shippingCents, creditsCents, location });
+
     return NextResponse.json({
       ok: true,
       cartId: cart.id,
@@ -141,7 +147,7 @@ export async function POST(req: NextRequest) {
       shippingCents,
       taxCents,
       creditsCents,
-      currency: (cart.currency as "USD" | "CAD") ?? "USD",
+      currency,
     });
   } catch (e: any) {
     return NextResponse.json({ ok: false, error: e?.message || "Unknown error" }, { status: 500 });
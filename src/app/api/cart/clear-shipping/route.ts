@@ -5,6 +5,7 @@ import { and, eq, ne } from "drizzle-orm";
 
 import { db } from "@/lib/db";
 import { carts } from "@/lib/db/schema/cart";
+import { revalidateCartPromoSafe } from "@/lib/promoCodes";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -31,11 +32,16 @@ export async function POST(req: NextRequest) {
 
     if (!cart) return json(404, { ok: false, error: "Cart not found." });
 
+    // Shipping priced on an accepted quote stays as quoted
+    if ((cart.selectedShipping as any)?.quoteId) return json(409, { ok: false, error: "shipping_set_by_quote" });
+
     await database
       .update(carts)
       .set({ selectedShipping: null, updatedAt: new Date() })
       .where(eq(carts.id, cart.id));
 
+    await revalidateCartPromoSafe(cart.id);
+
     return json(200, { ok: true });
   } catch (e: unknown) {
     const msg = e instanceof Error ? e.message : String(e);
@@ -7,7 +7,10 @@ import { and, eq, inArray } from "drizzle-orm";
 import { db } from "@/lib/db";
 import { withRequestId } from "@/lib/logger";
 import { carts, cartLines, cartAttachments } from "@/lib/db/schema";
+import { quoteLines } from "@/lib/db/schema/quotes";
 import { getProductsByIds } from "@/lib/productResolver";
+import { storedPreflight, type PreflightReport } from "@/lib/artwork/preflight";
+import { storedThumbnails, type ArtworkThumbnails } from "@/lib/artwork/artworkThumb";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -62,6 +65,8 @@ type CurrentCartLine = {
   unitPriceCents?: number | null;
   lineTotalCents?: number | null;
   optionChain?: string | null;
+  // Set when a Sinalite cost change repriced the line; shown until dismissed
+  priceChange?: { previousUnitPriceCents: number; changedAt: string } | null;
 };
 
 type CurrentAttachment = {
@@ -70,6 +75,8 @@ type CurrentAttachment = {
   url?: string | null;
   key?: string | null;
   createdAt?: string | null;
+  preflight?: PreflightReport | null;
+  thumbnails?: ArtworkThumbnails | null;
 };
 
 type CurrentEnvelope = {
@@ -146,8 +153,12 @@ export async function GET(req: Request) {
         unitPriceCents: (cartLines as any).unitPriceCents ?? null,
         lineTotalCents: (cartLines as any).lineTotalCents ?? null,
         optionChain: (cartLines as any).optionChain ?? null,
+        previousUnitPriceCents: cartLines.previousUnitPriceCents,
+        priceChangedAt: cartLines.priceChangedAt,
+        quoteDescription: quoteLines.description,
       })
       .from(cartLines)
+      .leftJoin(quoteLines, eq(quoteLines.id, cartLines.quoteLineId))
       .where(eq(cartLines.cartId, openCart.id));
 
     const productIds = [...new Set((lineRows || []).map((r) => toInt(r.productId, 0)).filter((n) => n > 0))];
@@ -158,7 +169,8 @@ export async function GET(req: Request) {
       const qty = Math.max(1, toInt(r.quantity, 1));
       const info = productInfo.get(pid);
 
-      const productName = info?.name ?? null;
+      // quoted lines (incl. custom ones, product 0) carry the description staff wrote
+      const productName = r.quoteDescription || info?.name || null;
       const productCfImageId = info?.cf_image_1_id ?? null;
 
       const unit = typeof r.unitPriceCents === "number" ? r.unitPriceCents : null;
@@ -178,6 +190,10 @@ export async function GET(req: Request) {
         unitPriceCents: unit,
         lineTotalCents: typeof total === "number" ? total : null,
         optionChain: (r.optionChain as any) ?? null,
+        priceChange:
+          r.priceChangedAt && typeof r.previousUnitPriceCents === "number"
+            ? { previousUnitPriceCents: r.previousUnitPriceCents, changedAt: r.priceChangedAt.toISOString() }
+            : null,
       };
     });
 
@@ -194,6 +210,7 @@ export async function GET(req: Request) {
           url: cartAttachments.url,
           key: cartAttachments.key,
           createdAt: (cartAttachments as any).createdAt,
+          meta: cartAttachments.meta,
         })
         .from(cartAttachments)
         .where(inArray((cartAttachments as any).cartLineId, lineIds as any));
@@ -207,6 +224,8 @@ export async function GET(req: Request) {
           url: a.url ?? null,
           key: a.key ?? null,
           createdAt: a.createdAt ? String(a.createdAt) : null,
+          preflight: storedPreflight(a.meta),
+          thumbnails: storedThumbnails(a.meta),
         });
       }
     }
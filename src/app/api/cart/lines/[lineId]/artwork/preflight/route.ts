@@ -0,0 +1,87 @@
+import "server-only";
+
+import { NextRequest, NextResponse } from "next/server";
+import { and, eq } from "drizzle-orm";
+
+import { db } from "@/lib/db";
+import { carts, cartLines } from "@/lib/db/schema";
+import { enforceRateLimit } from "@/lib/rateLimit";
+import { preflightCartLineArtwork } from "@/lib/artwork/runPreflight";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function noStore(res: NextResponse) {
+  res.headers.set("Cache-Control", "no-store, no-cache, must-revalidate, max-age=0");
+  res.headers.set("Pragma", "no-cache");
+  res.headers.set("Expires", "0");
+  return res;
+}
+
+function getSidFromRequest(req: NextRequest): string {
+  return req.cookies.get("sid")?.value ?? req.cookies.get("adap_sid")?.value ?? "";
+}
+
+function norm(v: unknown) {
+  return String(v ?? "").trim();
+}
+
+async function requireOwnedLine(req: NextRequest, lineId: string) {
+  const sid = getSidFromRequest(req);
+  if (!sid) return { ok: false as const, status: 401, error: "no_session" };
+
+  const cart = await db.query.carts.findFirst({
+    where: and(eq(carts.sid, sid), eq(carts.status, "open")),
+    columns: { id: true },
+  });
+  if (!cart) return { ok: false as const, status: 404, error: "open_cart_not_found" };
+
+  const line = await db.query.cartLines.findFirst({
+    where: and(eq(cartLines.id, lineId), eq(cartLines.cartId, cart.id)),
+    columns: { id: true },
+  });
+  if (!line) return { ok: false as const, status: 404, error: "line_not_found" };
+
+  return { ok: true as const, line };
+}
+
+/**
+ * POST /api/cart/lines/[lineId]/artwork/preflight
+ * body: { attachmentId?: string }  (omit to check every file on the line)
+ *
+ * Checks page size, bleed, resolution, color space, fonts and page count against the line's
+ * product options and stores each report on the attachment.
+ * Returns { ok, results: [{ attachmentId, fileName, preflight }] }
+ */
+export async function POST(req: NextRequest, ctx: { params: Promise<{ lineId: string }> }) {
+  try {
+    const limited = await enforceRateLimit(req, "cart:artwork:preflight", 20, 60_000);
+    if (limited) return noStore(limited);
+
+    const { lineId } = await ctx.params;
+    const lid = norm(lineId);
+    if (!UUID_RE.test(lid)) return noStore(NextResponse.json({ ok: false, error: "invalid_lineId" }, { status: 400 }));
+
+    const owned = await requireOwnedLine(req, lid);
+    if (!owned.ok) return noStore(NextResponse.json({ ok: false, error: owned.error }, { status: owned.status }));
+
+    const body = (await req.json().catch(() => ({}))) as { attachmentId?: string };
+    const attachmentId = norm(body?.attachmentId) || null;
+    if (attachmentId && !UUID_RE.test(attachmentId)) {
+      return noStore(NextResponse.json({ ok: false, error: "invalid_attachmentId" }, { status: 400 }));
+    }
+
+    const results = await preflightCartLineArtwork(owned.line.id, attachmentId);
+    if (attachmentId && results.length === 0) {
+      return noStore(NextResponse.json({ ok: false, error: "attachment_not_found" }, { status: 404 }));
+    }
+
+    return noStore(NextResponse.json({ ok: true, results }, { status: 200 }));
+  } catch (err: any) {
+    console.error("POST /api/cart/lines/[lineId]/artwork/preflight failed:", err);
+    return noStore(NextResponse.json({ ok: false, error: String(err?.message ?? err) }, { status: 500 }));
+  }
+}
@@ -1,11 +1,17 @@
 import "server-only";
 
-import { NextRequest, NextResponse } from "next/server";
+import { NextRequest, NextResponse, after } from "next/server";
 import { and, desc, eq } from "drizzle-orm";
 
 import { db } from "@/lib/db";
 import { carts, cartLines, cartAttachments } from "@/lib/db/schema";
 import { cfUrl } from "@/lib/cf";
+import { storedPreflight } from "@/lib/artwork/preflight";
+import { storedThumbnails } from "@/lib/artwork/artworkThumb";
+import { thumbnailCartAttachment } from "@/lib/artwork/thumbnails";
+import { categorySlugForProduct, uploadLimitsFor } from "@/lib/artwork/uploadLimits";
+import { uploadedObjectKey, verifyUploadedArtwork } from "@/lib/artwork/verifyUpload";
+import { ApiError } from "@/lib/apiError";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -58,7 +64,7 @@ async function requireOwnedLine(req: NextRequest, lineId: string) {
 
 /**
  * GET /api/cart/lines/[lineId]/artwork
- * Returns { ok, attachments: [{ id, storageId, url, fileName, createdAt? }] }
+ * Returns { ok, attachments: [{ id, storageId, url, fileName, createdAt?, preflight?, thumbnails? }] }
  */
 export async function GET(req: NextRequest, ctx: { params: Promise<{ lineId: string }> }) {
   try {
@@ -81,6 +87,8 @@ export async function GET(req: NextRequest, ctx: { params: Promise<{ lineId: str
       url: String(r.url || ensureUrlFromKey(String(r.key))),
       fileName: String(r.fileName || "artwork"),
       createdAt: r.createdAt ?? null,
+      preflight: storedPreflight(r.meta),
+      thumbnails: storedThumbnails(r.meta),
     }));
 
     return noStore(NextResponse.json({ ok: true, attachments }, { status: 200 }));
@@ -94,10 +102,13 @@ export async function GET(req: NextRequest, ctx: { params: Promise<{ lineId: str
  * POST /api/cart/lines/[lineId]/artwork
  *
  * Supports BOTH payload styles:
- * - New:    { key, fileName?, url? }
+ * - New:    { key, fileName?, url?, receipt?, contentType? }
  * - Legacy: { side, url, key? }   (side ignored server-side)
  *
- * We store: cartLineId, key (storageId), url, fileName
+ * Files in our R2 bucket are verified first (size vs. upload receipt, magic bytes, SVG script,
+ * malware scan); rejected files get 422 { error: reason, message } and aren't attached.
+ *
+ * We store: cartLineId, key (storageId), url, fileName, meta.verification; previews are rendered afterwards.
  */
 export async function POST(req: NextRequest, ctx: { params: Promise<{ lineId: string }> }) {
   try {
@@ -113,6 +124,8 @@ export async function POST(req: NextRequest, ctx: { params: Promise<{ lineId: st
       storageId?: string;
       fileName?: string;
       url?: string;
+      receipt?: string;
+      contentType?: string;
       side?: number | string; // ignored
     };
 
@@ -128,6 +141,23 @@ export async function POST(req: NextRequest, ctx: { params: Promise<{ lineId: st
     const finalUrl = url || ensureUrlFromKey(storageId);
     const fileName = safeFileName(body.fileName, storageId);
 
+    const objectKey = uploadedObjectKey(storageId, finalUrl);
+    const verification = objectKey
+      ? await verifyUploadedArtwork({
+          key: objectKey,
+          receipt: norm(body.receipt) || null,
+          declaredContentType: norm(body.contentType) || null,
+          limits: uploadLimitsFor(categorySlugForProduct(owned.line.productId)),
+        })
+      : null;
+
+    if (verification?.status === "rejected") {
+      console.warn("[artwork] upload rejected:", { lineId: lid, key: objectKey, reason: verification.reason });
+      return noStore(
+        NextResponse.json({ ok: false, error: verification.reason, message: verification.message }, { status: 422 })
+      );
+    }
+
     const [row] = await db
       .insert(cartAttachments)
       .values({
@@ -136,6 +166,7 @@ export async function POST(req: NextRequest, ctx: { params: Promise<{ lineId: st
         fileName: fileName ? fileName : undefined, // optional (undefined ok, null not ok)
         key: storageId,
         url: finalUrl,
+        ...(verification ? { meta: { verification } } : {}),
       })
       .onConflictDoNothing({
         target: [cartAttachments.cartLineId, cartAttachments.key], // ✅ correct conflict target
@@ -144,6 +175,15 @@ export async function POST(req: NextRequest, ctx: { params: Promise<{ lineId: st
 
     const id = row?.id ? String(row.id) : null;
 
+    // Render previews once the response is out (the cart shows the icon until they exist)
+    if (id) {
+      after(() =>
+        thumbnailCartAttachment(id).catch((e: any) =>
+          console.error("[thumbnails] cart attachment failed:", { id, error: e?.message || e })
+        )
+      );
+    }
+
     return noStore(
       NextResponse.json(
         { ok: true, attachment: { id, storageId, url: finalUrl, fileName } },
@@ -151,6 +191,9 @@ export async function POST(req: NextRequest, ctx: { params: Promise<{ lineId: st
       )
     );
   } catch (err: any) {
+    if (err instanceof ApiError) {
+      return noStore(NextResponse.json({ ok: false, error: err.code ?? err.message, message: err.message }, { status: err.status }));
+    }
     console.error("POST /api/cart/lines/[lineId]/artwork failed:", err);
     return noStore(NextResponse.json({ ok: false, error: String(err?.message ?? err) }, { status: 500 }));
   }
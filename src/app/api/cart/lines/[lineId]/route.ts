@@ -7,6 +7,8 @@ import { cookies } from "next/headers";
 
 import { db } from "@/lib/db";
 import { carts, cartLines } from "@/lib/db/schema";
+import { revalidateCartPromoSafe } from "@/lib/promoCodes";
+import { touchCart } from "@/lib/cartSession";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -83,6 +85,9 @@ export async function DELETE(
       return noStore(NextResponse.json({ ok: false, error: "Line not found" }, { status: 404 }));
     }
 
+    await touchCart(cart.id);
+    await revalidateCartPromoSafe(cart.id);
+
     return noStore(
       NextResponse.json(
         { ok: true, removedLineId: deleted.id, cartId: deleted.cartId, message: "Cart line removed" },
@@ -98,6 +103,7 @@ export async function DELETE(
 /**
  * PATCH /api/cart/lines/[lineId]
  * Updates quantity for a cart line (scoped to sid cookie).
+ * Lines from an accepted quote keep the quoted quantity (409 quote_line_locked).
  *
  * Body: { quantity: number }
  */
@@ -130,6 +136,15 @@ export async function PATCH(
       return noStore(NextResponse.json({ ok: false, error: "invalid_quantity" }, { status: 400 }));
     }
 
+    const [current] = await db
+      .select({ quoteLineId: cartLines.quoteLineId })
+      .from(cartLines)
+      .where(and(eq(cartLines.id, lineId), eq(cartLines.cartId, cart.id)))
+      .limit(1);
+    if (current?.quoteLineId) {
+      return noStore(NextResponse.json({ ok: false, error: "quote_line_locked" }, { status: 409 }));
+    }
+
     // Update only if this line belongs to this cart
     const [updated] = await db
       .update(cartLines)
@@ -150,6 +165,9 @@ export async function PATCH(
       return noStore(NextResponse.json({ ok: false, error: "Line not found" }, { status: 404 }));
     }
 
+    await touchCart(cart.id);
+    await revalidateCartPromoSafe(cart.id);
+
     return noStore(NextResponse.json({ ok: true, line: updated }, { status: 200 }));
   } catch (err) {
     console.error("PATCH /api/cart/lines/[lineId] failed:", err);
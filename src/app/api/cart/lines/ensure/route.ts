@@ -4,11 +4,13 @@ import "server-only";
 import crypto from "node:crypto";
 import { NextRequest, NextResponse } from "next/server";
 import { cookies } from "next/headers";
-import { and, eq } from "drizzle-orm";
+import { and, eq, isNull } from "drizzle-orm";
 import { sql } from "drizzle-orm";
 
 import { db } from "@/lib/db";
 import { carts, cartLines } from "@/lib/db/schema";
+import { revalidateCartPromoSafe } from "@/lib/promoCodes";
+import { touchCart } from "@/lib/cartSession";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -97,7 +99,7 @@ async function ensureLine(cartId: string, input: { productId: number; qty?: numb
   if (!productId) return { ok: false as const, error: "missing_productId" };
 
   const existing = await db.query.cartLines.findFirst({
-    where: and(eq(cartLines.cartId, cartId), eq(cartLines.productId, productId)),
+    where: and(eq(cartLines.cartId, cartId), eq(cartLines.productId, productId), isNull(cartLines.quoteLineId)),
   });
 
   if (existing) {
@@ -113,6 +115,9 @@ async function ensureLine(cartId: string, input: { productId: number; qty?: numb
       .where(eq(cartLines.id, existing.id))
       .returning({ id: cartLines.id, quantity: (cartLines as any).quantity });
 
+    await touchCart(cartId);
+    await revalidateCartPromoSafe(cartId);
+
     return {
       ok: true as const,
       cartId,
@@ -131,6 +136,9 @@ async function ensureLine(cartId: string, input: { productId: number; qty?: numb
     } as any)
     .returning({ id: cartLines.id, quantity: (cartLines as any).quantity });
 
+  await touchCart(cartId);
+  await revalidateCartPromoSafe(cartId);
+
   return {
     ok: true as const,
     cartId,
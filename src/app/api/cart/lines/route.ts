@@ -2,13 +2,16 @@ import "server-only";
 
 import crypto from "node:crypto";
 import { NextRequest, NextResponse } from "next/server";
-import { and, eq } from "drizzle-orm";
+import { and, eq, isNull } from "drizzle-orm";
 
 import { getDb } from "@/lib/db";
-import { jsonError, getRequestId } from "@/lib/apiError";
+import { ApiError, jsonError, getRequestId } from "@/lib/apiError";
 import { withRequestId } from "@/lib/logger";
 import { carts, cartLines, cartAttachments } from "@/lib/db/schema";
 import { computePrice } from "@/lib/price/compute";
+import { revalidateCartPromoSafe } from "@/lib/promoCodes";
+import { touchCart } from "@/lib/cartSession";
+import { recordServerEvent } from "@/lib/analytics/store";
 
 export const runtime = "nodejs";
 export const revalidate = 0;
@@ -155,11 +158,11 @@ export async function POST(req: NextRequest) {
       await db.update(carts).set({ currency: priced.currency }).where(eq(carts.id, cart.id));
     }
 
-    // Merge behavior (same productId + optionIds → bump quantity)
+    // Merge behavior (same productId + optionIds → bump quantity); quoted lines keep their price
     const existing = await db
       .select()
       .from(cartLines)
-      .where(and(eq(cartLines.cartId, cart.id), eq(cartLines.productId, productId)));
+      .where(and(eq(cartLines.cartId, cart.id), eq(cartLines.productId, productId), isNull(cartLines.quoteLineId)));
 
     const match = existing.find((l) => sameArray((l as any).optionIds ?? [], optionIds));
 
@@ -203,6 +206,21 @@ export async function POST(req: NextRequest) {
       line = inserted;
     }
 
+    await touchCart(String((cart as any).id));
+    await revalidateCartPromoSafe(String((cart as any).id));
+
+    await recordServerEvent(
+      "add_to_cart",
+      {
+        productId,
+        cartId: String((cart as any).id),
+        quantity,
+        unitPriceCents: priced.unitSellCents,
+        merged,
+      },
+      { sid, requestId, userAgent: req.headers.get("user-agent") }
+    );
+
     // ✅ Attach provided attachments (schema uses cartLineId)
     if (attachmentsIn.length > 0) {
       const cartLineId = String((line as any).id);
@@ -236,6 +254,9 @@ export async function POST(req: NextRequest) {
     setSidCookies(res, sid);
     return noStore(res);
   } catch (e) {
+    if (e instanceof ApiError && e.code === "PRODUCT_UNAVAILABLE") {
+      return noStore(jsonError(e.status, e.message, { code: "product_unavailable", requestId }));
+    }
     log.error("/api/cart/lines POST error", {
       message: e instanceof Error ? e.message : String(e),
     });
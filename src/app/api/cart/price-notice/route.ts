@@ -0,0 +1,48 @@
+import "server-only";
+
+import { NextRequest, NextResponse } from "next/server";
+import { and, eq, isNotNull } from "drizzle-orm";
+
+import { db } from "@/lib/db";
+import { carts } from "@/lib/db/schema/cart";
+import { cartLines } from "@/lib/db/schema/cartLines";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+function json(status: number, body: Record<string, unknown>) {
+  return NextResponse.json(body, { status });
+}
+
+function getSidFromRequest(req: NextRequest): string {
+  return req.cookies.get("sid")?.value ?? req.cookies.get("adap_sid")?.value ?? "";
+}
+
+/**
+ * POST /api/cart/price-notice
+ * Dismisses the cart's "price updated" notice (lines repriced after a Sinalite cost change).
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const sid = getSidFromRequest(req);
+    if (!sid) return json(400, { ok: false, error: "No session/cart." });
+
+    const cart = await db.query.carts.findFirst({
+      where: and(eq(carts.sid, sid), eq(carts.status, "open")),
+    });
+
+    if (!cart) return json(404, { ok: false, error: "Cart not found." });
+
+    const cleared = await db
+      .update(cartLines)
+      .set({ previousUnitPriceCents: null, priceChangedAt: null })
+      .where(and(eq(cartLines.cartId, cart.id), isNotNull(cartLines.priceChangedAt)))
+      .returning({ id: cartLines.id });
+
+    return json(200, { ok: true, cleared: cleared.length });
+  } catch (e: unknown) {
+    const msg = e instanceof Error ? e.message : String(e);
+    return json(500, { ok: false, error: msg || "Unknown error" });
+  }
+}
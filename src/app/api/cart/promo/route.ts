@@ -0,0 +1,113 @@
+import "server-only";
+
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { and, eq, ne } from "drizzle-orm";
+
+import { db } from "@/lib/db";
+import { carts } from "@/lib/db/schema/cart";
+import { applyPromoCodeToCart, removePromoFromCart, type ApplyPromoResult } from "@/lib/promoCodes";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+function noStore(res: NextResponse) {
+  res.headers.set("Cache-Control", "no-store, no-cache, must-revalidate, max-age=0");
+  return res;
+}
+
+function getSidFromRequest(req: NextRequest): string {
+  return req.cookies.get("sid")?.value ?? req.cookies.get("adap_sid")?.value ?? "";
+}
+
+async function getOpenCartBySid(sid: string) {
+  const [cart] = await db
+    .select({ id: carts.id })
+    .from(carts)
+    .where(and(eq(carts.sid, sid), ne(carts.status, "closed")))
+    .limit(1);
+
+  return cart ?? null;
+}
+
+async function getUserIdSafe(): Promise<string | null> {
+  try {
+    const { userId } = await auth();
+    return userId ?? null;
+  } catch {
+    return null;
+  }
+}
+
+function statusForRejection(result: Extract<ApplyPromoResult, { ok: false }>): number {
+  if (result.reason === "cart_not_found" || result.reason === "not_found") return 404;
+  if (result.reason === "invalid_code") return 400;
+  if (result.reason === "sign_in_required") return 401;
+  return 422;
+}
+
+/**
+ * POST /api/cart/promo
+ * Body: { code: string }
+ * Applies (or replaces) the cart's promo code as a cart_credits row.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const sid = getSidFromRequest(req);
+    if (!sid) return noStore(NextResponse.json({ ok: false, error: "No session/cart." }, { status: 400 }));
+
+    const cart = await getOpenCartBySid(sid);
+    if (!cart) return noStore(NextResponse.json({ ok: false, error: "Cart not found." }, { status: 404 }));
+
+    const body = (await req.json().catch(() => ({}))) as { code?: unknown };
+    const result = await applyPromoCodeToCart({
+      cartId: cart.id,
+      code: body?.code,
+      customerId: await getUserIdSafe(),
+    });
+
+    if (!result.ok) {
+      return noStore(
+        NextResponse.json(
+          { ok: false, error: result.message, code: result.reason },
+          { status: statusForRejection(result) },
+        ),
+      );
+    }
+
+    return noStore(
+      NextResponse.json(
+        {
+          ok: true,
+          cartId: cart.id,
+          code: result.code,
+          description: result.description,
+          amountCents: result.amountCents,
+        },
+        { status: 200 },
+      ),
+    );
+  } catch (e: any) {
+    return noStore(NextResponse.json({ ok: false, error: e?.message || "Unknown error" }, { status: 500 }));
+  }
+}
+
+/**
+ * DELETE /api/cart/promo
+ * Removes the cart's promo credit (idempotent).
+ */
+export async function DELETE(req: NextRequest) {
+  try {
+    const sid = getSidFromRequest(req);
+    if (!sid) return noStore(NextResponse.json({ ok: false, error: "No session/cart." }, { status: 400 }));
+
+    const cart = await getOpenCartBySid(sid);
+    if (!cart) return noStore(NextResponse.json({ ok: false, error: "Cart not found." }, { status: 404 }));
+
+    const removed = await removePromoFromCart(cart.id);
+    return noStore(NextResponse.json({ ok: true, cartId: cart.id, removed }, { status: 200 }));
+  } catch (e: any) {
+    return noStore(NextResponse.json({ ok: false, error: e?.message || "Unknown error" }, { status: 500 }));
+  }
+}
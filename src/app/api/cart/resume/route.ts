@@ -0,0 +1,61 @@
+// src/app/api/cart/resume/route.ts
+import "server-only";
+
+import { NextResponse, type NextRequest } from "next/server";
+import { eq } from "drizzle-orm";
+
+import { db } from "@/lib/db";
+import { carts } from "@/lib/db/schema/cart";
+import { signedTokensConfigured, verifyToken } from "@/lib/signedTokens";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+const COOKIE_OPTS = {
+  httpOnly: true as const,
+  sameSite: "lax" as const,
+  path: "/" as const,
+  secure: process.env.NODE_ENV === "production",
+  maxAge: 60 * 60 * 24 * 30,
+};
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function redirectTo(req: NextRequest, path: string) {
+  const res = NextResponse.redirect(new URL(path, req.nextUrl.origin), 303);
+  res.headers.set("Cache-Control", "no-store, no-cache, must-revalidate, max-age=0");
+  return res;
+}
+
+/**
+ * GET /api/cart/resume?token=...
+ * Link from the abandoned cart email: re-attaches this browser to the cart's session (sid)
+ * and sends the customer to /cart. Expired/invalid tokens or checked-out carts land on
+ * /cart?resume=expired without touching the current session. 503 when EMAIL_LINK_SECRET is unset.
+ */
+export async function GET(req: NextRequest) {
+  if (!signedTokensConfigured()) {
+    console.error("[cart/resume] EMAIL_LINK_SECRET is not set; resume links can't be verified");
+    return NextResponse.json(
+      { ok: false, error: "resume_unavailable" },
+      { status: 503, headers: { "Cache-Control": "no-store, no-cache, must-revalidate, max-age=0" } },
+    );
+  }
+
+  const cartId = verifyToken("cart_resume", req.nextUrl.searchParams.get("token") ?? "");
+  if (!cartId || !UUID_RE.test(cartId)) return redirectTo(req, "/cart?resume=expired");
+
+  const [cart] = await db
+    .select({ sid: carts.sid, status: carts.status })
+    .from(carts)
+    .where(eq(carts.id, cartId))
+    .limit(1);
+
+  if (!cart || cart.status !== "open") return redirectTo(req, "/cart?resume=expired");
+
+  const res = redirectTo(req, "/cart?resume=1");
+  res.cookies.set("adap_sid", cart.sid, COOKIE_OPTS);
+  res.cookies.set("sid", cart.sid, COOKIE_OPTS);
+  return res;
+}
@@ -7,6 +7,7 @@ import { and, eq, ne } from "drizzle-orm";
 
 import { db } from "@/lib/db";
 import { carts } from "@/lib/db/schema/cart";
+import { revalidateCartPromoSafe } from "@/lib/promoCodes";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -53,13 +54,18 @@ export async function POST(req: NextRequest) {
 
     const [cart] =
       (await db
-        .select({ id: carts.id })
+        .select({ id: carts.id, selectedShipping: carts.selectedShipping })
         .from(carts)
         .where(and(eq(carts.sid, sid), ne(carts.status, "closed")))
         .limit(1)) ?? [];
 
     if (!cart) return noStore(NextResponse.json({ ok: false, error: "Cart not found" }, { status: 404 }));
 
+    // Shipping priced on an accepted quote stays as quoted
+    if ((cart.selectedShipping as any)?.quoteId) {
+      return noStore(NextResponse.json({ ok: false, error: "shipping_set_by_quote" }, { status: 409 }));
+    }
+
     const payload = {
       carrier: norm(body.carrier),
       method: norm(body.method),
@@ -78,7 +84,10 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    await db.update(carts).set({ selectedShipping: payload as any }).where(eq(carts.id, cart.id));
+    await db.update(carts).set({ selectedShipping: payload as any, updatedAt: new Date() }).where(eq(carts.id, cart.id));
+
+    // free-shipping promos follow the selected rate
+    await revalidateCartPromoSafe(cart.id);
 
     return noStore(NextResponse.json({ ok: true, selected: payload }, { status: 200 }));
   } catch (err: any) {
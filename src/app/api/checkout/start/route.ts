@@ -10,6 +10,10 @@ import { and, eq, ne } from "drizzle-orm";
 import { db } from "@/lib/db";
 import { carts } from "@/lib/db/schema/cart";
 import { cartLines } from "@/lib/db/schema/cartLines";
+import { quoteLines } from "@/lib/db/schema/quotes";
+import { recordServerEvent } from "@/lib/analytics/store";
+import { revalidateCartPromo } from "@/lib/promoCodes";
+import { cartCreditDiscounts, cartTaxLineItem, computeCartTotalsBySid } from "@/lib/checkout";
 
 // Local asset map: your single source of truth for product images/names
 import productAssetsRaw from "@/data/productAssets.json";
@@ -30,6 +34,8 @@ export const revalidate = 0;
  * - origin derivation resilient behind proxies
  * - safe asset lookup for product images/names
  * - shipping line item added from cart.selectedShipping (requires selection)
+ * - promo code re-checked; 409 promo_removed when it is no longer valid so the client re-prices
+ * - cart credits applied as a single-use coupon (Stripe promotion codes are not accepted)
  * - stable response envelope
  *
  * Notes:
@@ -222,13 +228,25 @@ export async function POST(req: NextRequest) {
       return noStoreJson(req, { ok: false as const, requestId, error: "shipping_required" }, 400);
     }
 
+    // The code may have expired or run out since it was applied; drop it before payment
+    const promo = await revalidateCartPromo(cart.id);
+    if (promo.status === "removed") {
+      return noStoreJson(
+        req,
+        { ok: false as const, requestId, error: "promo_removed", code: promo.code, reason: promo.reason, message: promo.message },
+        409,
+      );
+    }
+
     const rows = await db
       .select({
         productId: cartLines.productId,
         quantity: cartLines.quantity,
         unitPriceCents: cartLines.unitPriceCents,
+        quoteDescription: quoteLines.description,
       })
       .from(cartLines)
+      .leftJoin(quoteLines, eq(quoteLines.id, cartLines.quoteLineId))
       .where(eq(cartLines.cartId, cart.id));
 
     if (rows.length === 0) {
@@ -240,7 +258,8 @@ export async function POST(req: NextRequest) {
     const line_items: Stripe.Checkout.SessionCreateParams.LineItem[] = rows.map((r) => {
       const pid = Number(r.productId);
       const a = byProductId.get(pid);
-      const name = niceName(a, pid);
+      // quoted lines (incl. custom ones, product 0) carry the description staff wrote
+      const name = r.quoteDescription || niceName(a, pid);
       const img = cfUrl(a?.cloudflare_id ?? a?.cloudflare_image_id);
       const unit = safeCents(r.unitPriceCents);
       const qty = safeQty(r.quantity);
@@ -276,18 +295,34 @@ export async function POST(req: NextRequest) {
       });
     }
 
+    // Tax from the provider chain (same estimate the cart showed); cart credits (promo codes,
+    // store credit) come off as a one-off coupon
+    const totals = await computeCartTotalsBySid({ sid });
+    if (!totals) {
+      return noStoreJson(req, { ok: false as const, requestId, error: "cart_not_found" }, 404);
+    }
+    const taxLine = cartTaxLineItem(totals);
+    if (taxLine) line_items.push(taxLine);
+    const discounts = await cartCreditDiscounts(stripe, totals);
+
     const h = await getHdrs();
     const origin = originFromHeaders(h);
 
     const session = await stripe.checkout.sessions.create({
       mode: "payment",
       line_items,
+      ...(discounts.length ? { discounts } : {}),
       success_url: `${origin}/checkout/success?sid=${encodeURIComponent(sid)}`,
       cancel_url: `${origin}/cart/review`,
       metadata: { cart_id: String(cart.id), sid, requestId },
-      allow_promotion_codes: true,
     });
 
+    await recordServerEvent(
+      "checkout_start",
+      { cartId: String(cart.id), lineCount: rows.length, currency },
+      { sid, requestId, userAgent: req.headers.get("user-agent") }
+    );
+
     return noStoreJson(req, { ok: true as const, requestId, url: session.url }, 200);
   } catch (err: any) {
     const msg = String(err?.message ?? err ?? "Unknown error");
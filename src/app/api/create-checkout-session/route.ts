@@ -10,6 +10,8 @@ import { and, eq, ne } from "drizzle-orm";
 import { db } from "@/lib/db";
 import { carts } from "@/lib/db/schema/cart";
 import { cartLines } from "@/lib/db/schema/cartLines";
+import { revalidateCartPromo } from "@/lib/promoCodes";
+import { cartCreditDiscounts, cartTaxLineItem, computeCartTotalsBySid } from "@/lib/checkout";
 
 // Cloudflare Images helper + local product assets (served via Cloudflare CDN)
 import { cfImage } from "@/lib/cfImages";
@@ -25,6 +27,7 @@ export const revalidate = 0;
  * Legacy-compatible endpoint (some UI flows still call this).
  * Internally mirrors /api/checkout/start behavior:
  * - builds Stripe Checkout Session from the current open cart
+ * - re-checks the promo code (409 promo_removed) and applies cart credits as a one-off coupon
  * - returns { ok:true, url }
  *
  * Future-proofing:
@@ -227,6 +230,16 @@ export async function POST(req: NextRequest) {
       return noStoreJson(req, { ok: false as const, requestId, error: "shipping_required" }, 400);
     }
 
+    // The code may have expired or run out since it was applied; drop it before payment
+    const promo = await revalidateCartPromo(cartRow.id);
+    if (promo.status === "removed") {
+      return noStoreJson(
+        req,
+        { ok: false as const, requestId, error: "promo_removed", code: promo.code, reason: promo.reason, message: promo.message },
+        409,
+      );
+    }
+
     // Build Stripe line_items
     const currency = (cartRow.currency === "CAD" ? "cad" : "usd") as "usd" | "cad";
 
@@ -275,6 +288,16 @@ export async function POST(req: NextRequest) {
       });
     }
 
+    // Tax from the provider chain (same estimate the cart showed); cart credits (promo codes,
+    // store credit) come off as a one-off coupon
+    const totals = await computeCartTotalsBySid({ sid });
+    if (!totals) {
+      return noStoreJson(req, { ok: false as const, requestId, error: "cart_not_found" }, 404);
+    }
+    const taxLine = cartTaxLineItem(totals);
+    if (taxLine) line_items.push(taxLine);
+    const discounts = await cartCreditDiscounts(stripe, totals);
+
     // URLs (success uses Stripe session_id token)
     const success_url = `${origin}/checkout/success?session_id={CHECKOUT_SESSION_ID}`;
     const cancel_url = `${origin}/cart/review#checkout_canceled=1`;
@@ -282,7 +305,7 @@ export async function POST(req: NextRequest) {
     const session = await stripe.checkout.sessions.create({
       mode: "payment",
       line_items,
-      allow_promotion_codes: true,
+      ...(discounts.length ? { discounts } : {}),
       metadata: { sid, cartId: String(cartRow.id), requestId },
       success_url,
       cancel_url,
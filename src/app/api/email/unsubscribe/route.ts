@@ -0,0 +1,83 @@
+// src/app/api/email/unsubscribe/route.ts
+import "server-only";
+
+import { NextResponse, type NextRequest } from "next/server";
+import { eq } from "drizzle-orm";
+
+import { db } from "@/lib/db";
+import { customers } from "@/lib/db/schema/customer";
+import { signedTokensConfigured, verifyToken } from "@/lib/signedTokens";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+const NO_STORE = "no-store, no-cache, must-revalidate, max-age=0";
+
+/** Turns off marketing email for the token's customer. Returns false for bad/expired tokens. */
+async function unsubscribe(token: string): Promise<boolean> {
+  const clerkUserId = verifyToken("unsubscribe", token);
+  if (!clerkUserId) return false;
+
+  await db
+    .update(customers)
+    .set({ marketingOptIn: false, updatedAt: new Date() })
+    .where(eq(customers.clerkUserId, clerkUserId));
+
+  return true;
+}
+
+function page(title: string, body: string, status: number) {
+  const html = `<!doctype html><html><head><meta charset="utf-8"><meta name="viewport" content="width=device-width,initial-scale=1"><meta name="robots" content="noindex"><title>${title}</title></head><body style="font-family:system-ui,sans-serif;max-width:480px;margin:64px auto;padding:0 16px;color:#0f172a"><h1 style="font-size:22px">${title}</h1>${body}<p><a href="/" style="color:#0047ab">Back to ADAP</a></p></body></html>`;
+  return new NextResponse(html, { status, headers: { "Content-Type": "text/html; charset=utf-8", "Cache-Control": NO_STORE } });
+}
+
+function message(text: string) {
+  return `<p style="color:#334155;line-height:1.6">${text}</p>`;
+}
+
+const UNAVAILABLE = "Unsubscribe links aren’t working right now. Please try again later, or manage email preferences in your account.";
+const EXPIRED = "This unsubscribe link is invalid or has expired. You can manage email preferences in your account.";
+
+/**
+ * GET /api/email/unsubscribe?token=...  (link in marketing emails)
+ *   Confirmation page only; mail scanners and link prefetchers follow GET links, so nothing changes here.
+ * POST same URL
+ *   The page's button, or RFC 8058 one-click from the List-Unsubscribe / List-Unsubscribe-Post headers.
+ *   Sets customers.marketingOptIn = false; transactional order emails are unaffected.
+ * 503 when EMAIL_LINK_SECRET is unset (tokens can't be verified).
+ */
+export async function GET(req: NextRequest) {
+  if (!signedTokensConfigured()) return page("Unavailable", message(UNAVAILABLE), 503);
+
+  const token = req.nextUrl.searchParams.get("token") ?? "";
+  if (!verifyToken("unsubscribe", token)) return page("Link expired", message(EXPIRED), 400);
+
+  const action = `/api/email/unsubscribe?token=${encodeURIComponent(token)}`;
+  return page(
+    "Unsubscribe from marketing email?",
+    message("You’ll stop receiving offers and reminders from us. Order updates will still arrive.") +
+      `<form method="post" action="${action}"><button type="submit" style="background:#0047ab;color:#fff;border:0;border-radius:6px;padding:10px 18px;font-size:15px;cursor:pointer">Unsubscribe</button></form>`,
+    200,
+  );
+}
+
+export async function POST(req: NextRequest) {
+  // The confirmation form gets a page back; one-click clients get JSON
+  const wantsHtml = (req.headers.get("accept") ?? "").includes("text/html");
+
+  if (!signedTokensConfigured()) {
+    return wantsHtml
+      ? page("Unavailable", message(UNAVAILABLE), 503)
+      : NextResponse.json({ ok: false, error: "unavailable" }, { status: 503, headers: { "Cache-Control": NO_STORE } });
+  }
+
+  const ok = await unsubscribe(req.nextUrl.searchParams.get("token") ?? "");
+
+  if (wantsHtml) {
+    return ok
+      ? page("You’re unsubscribed", message("You won’t receive marketing emails from us anymore. Order updates will still arrive."), 200)
+      : page("Link expired", message(EXPIRED), 400);
+  }
+  return NextResponse.json({ ok }, { status: ok ? 200 : 400, headers: { "Cache-Control": NO_STORE } });
+}
@@ -0,0 +1,120 @@
+import "server-only";
+
+import crypto from "node:crypto";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { auth } from "@clerk/nextjs/server";
+
+import { validateEvent, type EventRejection, type ValidatedEvent } from "@/lib/analytics/events";
+import { recordEvents } from "@/lib/analytics/store";
+import { getSidSafe } from "@/lib/getOrSetSid";
+import { enforceRateLimit } from "@/lib/rateLimit";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+/**
+ * POST /api/events
+ *
+ * Batched first-party analytics from src/lib/analyticsClient.ts (sendBeacon/fetch):
+ *   { events: [{ name, props, ts?, path? }, ...] }   (max 50)
+ *
+ * Each event is validated against the registry in src/lib/analytics/events.ts; invalid ones
+ * and server-only names are rejected individually, the rest are stored in analytics_events
+ * with the visitor's sid, Clerk user id and this request's id.
+ *
+ * Response: { ok:true, requestId, accepted, rejected: [{ index, name, error }] }
+ */
+
+const MAX_EVENTS = 50;
+
+function getRequestId(req: Request): string {
+  const existing = req.headers.get("x-request-id");
+  if (existing && existing.trim()) return existing.trim();
+  try {
+    return crypto.randomUUID();
+  } catch {
+    return `rid_${Date.now()}_${Math.random().toString(16).slice(2)}`;
+  }
+}
+
+function noStoreJson(req: Request, body: any, status = 200) {
+  const requestId = (body?.requestId as string | undefined) || getRequestId(req);
+  return NextResponse.json(body, {
+    status,
+    headers: {
+      "x-request-id": requestId,
+      "cache-control": "no-store, no-cache, must-revalidate, max-age=0",
+      pragma: "no-cache",
+    },
+  });
+}
+
+const BodySchema = z
+  .object({
+    events: z.array(z.unknown()).min(1).max(MAX_EVENTS),
+  })
+  .strict();
+
+async function currentUserId(): Promise<string | null> {
+  try {
+    const { userId } = await auth();
+    return userId ?? null;
+  } catch {
+    return null;
+  }
+}
+
+export async function POST(req: Request) {
+  const requestId = getRequestId(req);
+
+  const limited = await enforceRateLimit(req, "events", 120, 60_000);
+  if (limited) return limited;
+
+  const json = await req.json().catch(() => null);
+  const parsed = BodySchema.safeParse(json);
+  if (!parsed.success) {
+    return noStoreJson(
+      req,
+      {
+        ok: false as const,
+        requestId,
+        error: "invalid_body",
+        issues: parsed.error.issues.map((i) => ({ path: i.path.join("."), message: i.message })),
+      },
+      400
+    );
+  }
+
+  const receivedAt = new Date();
+  const accepted: ValidatedEvent[] = [];
+  const rejected: EventRejection[] = [];
+
+  parsed.data.events.forEach((raw, index) => {
+    const v = validateEvent(raw, { from: "client", receivedAt });
+    if (v.ok) accepted.push(v.event);
+    else rejected.push({ index, name: v.name, error: v.error });
+  });
+
+  try {
+    await recordEvents(accepted, {
+      sid: await getSidSafe(),
+      userId: await currentUserId(),
+      requestId,
+      userAgent: req.headers.get("user-agent"),
+    });
+  } catch (e: unknown) {
+    // Analytics must never break the page: log and report what was dropped
+    const msg = e instanceof Error ? e.message : String(e);
+    console.warn("[/api/events POST] insert failed", { requestId, count: accepted.length, msg });
+    return noStoreJson(req, { ok: true as const, requestId, accepted: 0, rejected, dropped: accepted.length }, 200);
+  }
+
+  return noStoreJson(req, { ok: true as const, requestId, accepted: accepted.length, rejected }, 200);
+}
+
+export async function GET(req: Request) {
+  const requestId = getRequestId(req);
+  return noStoreJson(req, { ok: false as const, requestId, error: "Method Not Allowed. Use POST." }, 405);
+}
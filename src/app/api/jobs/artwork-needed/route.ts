@@ -40,6 +40,10 @@ function jsonOk(body: unknown, requestId: string, status = 200) {
   });
 }
 
+/**
+ * POST /api/jobs/artwork-needed  { lookbackHours?: 240, limit?: 50, dryRun?: false }
+ * Emails paid orders still missing artwork on day 1, 3 and 7 (once per step per order).
+ */
 export async function POST(req: NextRequest) {
   const requestId = getRequestIdFromHeaders(req) || `rid_${Date.now()}`;
   const log = withRequestId(requestId);
@@ -56,8 +60,10 @@ export async function POST(req: NextRequest) {
     const limit = toFiniteNumber(body?.limit);
 
     const args = {
-      lookbackHours: lookbackHours != null ? Math.max(1, Math.floor(lookbackHours)) : 72,
+      // undefined -> library default (covers the whole day-1/3/7 reminder cadence)
+      lookbackHours: lookbackHours != null ? Math.max(1, Math.floor(lookbackHours)) : undefined,
       limit: limit != null ? Math.max(1, Math.floor(limit)) : 50,
+      dryRun: body?.dryRun === true,
     };
 
     const result = await scanAndSendArtworkNeededEmails(args);
@@ -0,0 +1,108 @@
+import "server-only";
+
+import { NextRequest, NextResponse } from "next/server";
+
+import { runArtworkRetention } from "@/lib/artwork/retention";
+import { ApiError, fail, getRequestIdFromHeaders, readJson } from "@/lib/apiError";
+import { withRequestId } from "@/lib/logger";
+import { enforcePolicy, logAuthzDenial } from "@/lib/auth";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+function noStoreHeaders() {
+  return {
+    "cache-control": "no-store, no-cache, must-revalidate, proxy-revalidate",
+    pragma: "no-cache",
+    expires: "0",
+  } as const;
+}
+
+function withNoStore(res: Response) {
+  const hs = noStoreHeaders();
+  for (const [k, v] of Object.entries(hs)) (res as any).headers?.set?.(k, v);
+  return res;
+}
+
+function toFiniteNumber(v: unknown): number | null {
+  const n = Number(v);
+  return Number.isFinite(n) ? n : null;
+}
+
+function jsonOk(body: unknown, requestId: string, status = 200) {
+  return NextResponse.json(body, {
+    status,
+    headers: {
+      "x-request-id": requestId,
+      ...noStoreHeaders(),
+    },
+  });
+}
+
+/**
+ * POST /api/jobs/artwork-retention  { batchSize?: 100, scanLimit?: 1000, dryRun?: false }
+ * Deletes cart artwork past its retention period (see lib/artwork/retention.ts) and orphaned
+ * uploads in R2, reporting bytes reclaimed. dryRun reports what would go without deleting.
+ */
+export async function POST(req: NextRequest) {
+  const requestId = getRequestIdFromHeaders(req) || `rid_${Date.now()}`;
+  const log = withRequestId(requestId);
+
+  const POLICY = "cron" as const;
+
+  try {
+    const ctx = await enforcePolicy(req, POLICY);
+
+    // Optional JSON body (cron callers may omit it)
+    const body = (await readJson<any>(req).catch(() => null)) || {};
+
+    const batchSize = toFiniteNumber(body?.batchSize);
+    const scanLimit = toFiniteNumber(body?.scanLimit);
+
+    const result = await runArtworkRetention({
+      dryRun: body?.dryRun === true,
+      ...(batchSize != null ? { batchSize } : {}),
+      ...(scanLimit != null ? { scanLimit } : {}),
+    });
+
+    if (!result.dryRun) {
+      log.info("Artwork retention run", {
+        rowsDeleted: result.rows.deleted,
+        orphansDeleted: result.orphans.deleted,
+        bytesReclaimed: result.bytesReclaimed,
+        failed: result.objects.failed,
+      });
+    }
+
+    const rid = ctx.requestId || requestId;
+    const res = jsonOk({ ...result, ok: true as const, requestId: rid }, rid, 200);
+
+    return withNoStore(res);
+  } catch (e: unknown) {
+    // Only log authz denials as authz
+    if (e instanceof ApiError && (e.status === 401 || e.status === 403)) {
+      logAuthzDenial({
+        req,
+        policy: POLICY,
+        requestId,
+        reason: e.message,
+      });
+    }
+
+    const message = e instanceof Error ? e.message : "Failed to run artwork-retention job";
+    log.error("Artwork-retention job failed", { message, requestId });
+
+    const res = fail(e, { headers: { "x-request-id": requestId } } as any);
+    return withNoStore(res);
+  }
+}
+
+export async function GET(req: NextRequest) {
+  const requestId = getRequestIdFromHeaders(req) || `rid_${Date.now()}`;
+  const res = NextResponse.json(
+    { ok: false as const, requestId, error: "Method Not Allowed. Use POST." },
+    { status: 405, headers: { "x-request-id": requestId, ...noStoreHeaders() } }
+  );
+  return withNoStore(res);
+}
@@ -0,0 +1,95 @@
+import "server-only";
+
+import { NextRequest, NextResponse } from "next/server";
+
+import { backfillArtworkThumbnails } from "@/lib/artwork/thumbnails";
+import { ApiError, fail, getRequestIdFromHeaders, readJson } from "@/lib/apiError";
+import { withRequestId } from "@/lib/logger";
+import { enforcePolicy, logAuthzDenial } from "@/lib/auth";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+function noStoreHeaders() {
+  return {
+    "cache-control": "no-store, no-cache, must-revalidate, proxy-revalidate",
+    pragma: "no-cache",
+    expires: "0",
+  } as const;
+}
+
+function withNoStore(res: Response) {
+  const hs = noStoreHeaders();
+  for (const [k, v] of Object.entries(hs)) (res as any).headers?.set?.(k, v);
+  return res;
+}
+
+function toFiniteNumber(v: unknown): number | null {
+  const n = Number(v);
+  return Number.isFinite(n) ? n : null;
+}
+
+function jsonOk(body: unknown, requestId: string, status = 200) {
+  return NextResponse.json(body, {
+    status,
+    headers: {
+      "x-request-id": requestId,
+      ...noStoreHeaders(),
+    },
+  });
+}
+
+/**
+ * POST /api/jobs/artwork-thumbnails  { limit?: 20 }
+ * Renders previews for cart attachments and artwork uploads that don't have any yet.
+ */
+export async function POST(req: NextRequest) {
+  const requestId = getRequestIdFromHeaders(req) || `rid_${Date.now()}`;
+  const log = withRequestId(requestId);
+
+  const POLICY = "cron" as const;
+
+  try {
+    const ctx = await enforcePolicy(req, POLICY);
+
+    // Optional JSON body (cron callers may omit it)
+    const body = (await readJson<any>(req).catch(() => null)) || {};
+
+    const limit = toFiniteNumber(body?.limit);
+
+    const result = await backfillArtworkThumbnails({
+      limit: limit != null ? Math.max(1, Math.floor(limit)) : 20,
+    });
+
+    const rid = ctx.requestId || requestId;
+    const res = jsonOk({ ...result, ok: true as const, requestId: rid }, rid, 200);
+
+    return withNoStore(res);
+  } catch (e: unknown) {
+    // Only log authz denials as authz
+    if (e instanceof ApiError && (e.status === 401 || e.status === 403)) {
+      logAuthzDenial({
+        req,
+        policy: POLICY,
+        requestId,
+        reason: e.message,
+      });
+    }
+
+    const message = e instanceof Error ? e.message : "Failed to run artwork-thumbnails job";
+    log.error("Artwork-thumbnails job failed", { message, requestId });
+
+    const res = fail(e, { headers: { "x-request-id": requestId } } as any);
+    return withNoStore(res);
+  }
+}
+
+export async function GET(req: NextRequest) {
+  const requestId = getRequestIdFromHeaders(req) || `rid_${Date.now()}`;
+  const res = NextResponse.json(
+    { ok: false as const, requestId, error: "Method Not Allowed. Use POST." },
+    { status: 405, headers: { "x-request-id": requestId, ...noStoreHeaders() } }
+  );
+  return withNoStore(res);
+}
@@ -0,0 +1,76 @@
+import "server-only";
+
+import { NextRequest, NextResponse } from "next/server";
+
+import { runSinaliteSubmissionQueue } from "@/lib/sinalite/orderSubmission";
+import { ApiError, fail, getRequestIdFromHeaders, readJson } from "@/lib/apiError";
+import { withRequestId } from "@/lib/logger";
+import { enforcePolicy, logAuthzDenial } from "@/lib/auth";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+function noStoreHeaders() {
+  return {
+    "cache-control": "no-store, no-cache, must-revalidate, proxy-revalidate",
+    pragma: "no-cache",
+    expires: "0",
+  } as const;
+}
+
+function toFiniteNumber(v: unknown): number | null {
+  const n = Number(v);
+  return Number.isFinite(n) ? n : null;
+}
+
+/**
+ * POST /api/jobs/sinalite-submit
+ * Body (optional): { limit?: number }
+ * Submits due paid orders to Sinalite and schedules retries (see src/lib/sinalite/orderSubmission.ts).
+ */
+export async function POST(req: NextRequest) {
+  const requestId = getRequestIdFromHeaders(req) || `rid_${Date.now()}`;
+  const log = withRequestId(requestId);
+
+  const POLICY = "cron" as const;
+
+  try {
+    const ctx = await enforcePolicy(req, POLICY);
+
+    // Optional JSON body (cron callers may omit it)
+    const body = (await readJson<any>(req).catch(() => null)) || {};
+    const limit = toFiniteNumber(body?.limit);
+
+    const result = await runSinaliteSubmissionQueue({
+      limit: limit != null ? Math.max(1, Math.floor(limit)) : 20,
+    });
+
+    const rid = ctx.requestId || requestId;
+    const { ok: _ignoredOk, ...rest } = result;
+
+    return NextResponse.json(
+      { ...rest, ok: true as const, requestId: rid },
+      { status: 200, headers: { "x-request-id": rid, ...noStoreHeaders() } },
+    );
+  } catch (e: unknown) {
+    if (e instanceof ApiError && (e.status === 401 || e.status === 403)) {
+      logAuthzDenial({ req, policy: POLICY, requestId, reason: e.message });
+    }
+
+    const message = e instanceof Error ? e.message : "Failed to run sinalite-submit job";
+    log.error("Sinalite submit job failed", { message, requestId });
+
+    const res = fail(e, { headers: { "x-request-id": requestId } } as any);
+    for (const [k, v] of Object.entries(noStoreHeaders())) res.headers.set(k, v);
+    return res;
+  }
+}
+
+export async function GET(req: NextRequest) {
+  const requestId = getRequestIdFromHeaders(req) || `rid_${Date.now()}`;
+  return NextResponse.json(
+    { ok: false as const, requestId, error: "Method Not Allowed. Use POST." },
+    { status: 405, headers: { "x-request-id": requestId, ...noStoreHeaders() } },
+  );
+}
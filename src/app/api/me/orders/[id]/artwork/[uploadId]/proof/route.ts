@@ -0,0 +1,53 @@
+import "server-only";
+
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+
+import { ApiError, fail, getRequestIdFromHeaders, readJson } from "@/lib/apiError";
+import { enforceRateLimit } from "@/lib/rateLimit";
+import { decideArtworkProof } from "@/lib/artworkProofs";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function noStore(res: NextResponse) {
+  res.headers.set("Cache-Control", "no-store, no-cache, must-revalidate, max-age=0");
+  return res;
+}
+
+/**
+ * POST /api/me/orders/:id/artwork/:uploadId/proof  { decision: "approve" | "request_changes", comment? }
+ * Customer decision on the current proof. Signed-in owners and guest sessions (sid) both work,
+ * matching the order page's ownership rules.
+ */
+export async function POST(req: NextRequest, ctx: { params: Promise<{ id: string; uploadId: string }> }) {
+  const requestId = getRequestIdFromHeaders(req);
+  try {
+    const limited = await enforceRateLimit(req, "me:artwork:proof", 20, 60_000);
+    if (limited) return noStore(limited);
+
+    const { id, uploadId } = await ctx.params;
+    if (!UUID_RE.test(String(id || "")) || !UUID_RE.test(String(uploadId || ""))) {
+      return noStore(fail("Invalid id", { status: 400, requestId }));
+    }
+
+    const { userId } = await auth();
+    const sid = req.cookies.get("adap_sid")?.value ?? req.cookies.get("sid")?.value ?? null;
+    const owners = [userId, sid].filter((v): v is string => Boolean(v));
+    if (owners.length === 0) return noStore(fail("unauthorized", { status: 401, requestId }));
+
+    const body = await readJson<unknown>(req);
+    const proof = await decideArtworkProof(id, uploadId, body, { owners });
+
+    return noStore(NextResponse.json({ ok: true, proof: { version: proof.version, status: proof.status } }));
+  } catch (error: unknown) {
+    if (error instanceof ApiError) {
+      return noStore(fail(error.message, { status: error.status, code: error.code, details: error.details, requestId }));
+    }
+    console.error("POST /api/me/orders/[id]/artwork/[uploadId]/proof failed:", error);
+    return noStore(fail("Failed to record proof decision", { status: 500, requestId }));
+  }
+}
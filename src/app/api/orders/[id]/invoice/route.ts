@@ -3,12 +3,20 @@ import "server-only";
 
 import crypto from "node:crypto";
 import { NextRequest, NextResponse } from "next/server";
-import PDFDocument from "pdfkit";
 import { z } from "zod";
 import { eq } from "drizzle-orm";
 
 import { db } from "@/lib/db";
 import { orders } from "@/lib/db/schema/orders";
+import {
+  drawAddressBlock,
+  drawCompanyBlock,
+  drawDocumentHeader,
+  drawFootnote,
+  drawItemsTable,
+  drawTotals,
+  renderPdf,
+} from "@/lib/pdf/layout";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -17,7 +25,7 @@ export const revalidate = 0;
 /**
  * GET /api/orders/[id]/invoice
  *
- * Generates a PDF invoice for an order.
+ * Generates a PDF invoice for an order (layout shared with quote PDFs: lib/pdf/layout.ts).
  *
  * Goals:
  * - TS-safe (no PDFKit namespace types)
@@ -55,43 +63,6 @@ function jsonError(requestId: string, status: number, message: string) {
   );
 }
 
-async function pdfToBuffer(build: (doc: any) => void): Promise<Buffer> {
-  // pdfkit streams data events
-  const doc: any = new (PDFDocument as any)({
-    size: "LETTER",
-    margin: 50,
-    // You can add: info: { Title: "...", Author: "..." }
-  });
-
-  const chunks: Buffer[] = [];
-
-  return await new Promise<Buffer>((resolve, reject) => {
-    doc.on("data", (c: Buffer) => chunks.push(c));
-    doc.on("end", () => resolve(Buffer.concat(chunks)));
-    doc.on("error", (err: unknown) => reject(err));
-
-    try {
-      build(doc);
-      doc.end();
-    } catch (e) {
-      reject(e);
-    }
-  });
-}
-
-function money(cents: unknown, currency: unknown): string {
-  const c = typeof currency === "string" && currency.trim() ? currency.toUpperCase() : "USD";
-  const n = Number(cents);
-  const safe = Number.isFinite(n) ? n : 0;
-  const dollars = safe / 100;
-  try {
-    return new Intl.NumberFormat(undefined, { style: "currency", currency: c }).format(dollars);
-  } catch {
-    // fallback if currency code invalid
-    return `$${dollars.toFixed(2)}`;
-  }
-}
-
 function safeString(v: unknown): string {
   if (typeof v === "string") return v;
   if (typeof v === "number" && Number.isFinite(v)) return String(v);
@@ -102,23 +73,16 @@ function safeString(v: unknown): string {
 function drawInvoice(doc: any, args: { requestId: string; order: any }) {
   const { order, requestId } = args;
 
-  // ---- Header ----
-  doc.fontSize(20).text("Invoice", { align: "left" });
-  doc.moveDown(0.3);
-
-  doc
-    .fontSize(10)
-    .fillColor("#333")
-    .text(`Invoice for Order: ${safeString(order.id)}`, { align: "left" });
-  doc.text(`Request ID: ${requestId}`, { align: "left" });
-  doc.text(`Date: ${new Date().toLocaleString()}`, { align: "left" });
-
-  doc.moveDown(1);
+  drawDocumentHeader(doc, {
+    title: "Invoice",
+    meta: [
+      `Invoice for Order: ${safeString(order.id)}`,
+      `Request ID: ${requestId}`,
+      `Date: ${new Date().toLocaleString()}`,
+    ],
+  });
 
-  // ---- Company block (edit these defaults) ----
-  doc.fontSize(12).fillColor("#000").text("ADAP / American Design And Printing");
-  doc.fontSize(10).fillColor("#333").text("Thank you for your order!");
-  doc.moveDown(1);
+  drawCompanyBlock(doc, "Thank you for your order!");
 
   // ---- Customer + Shipping ----
   const ship = (order as any).selectedShipping ?? (order as any).shipping ?? null;
@@ -149,16 +113,8 @@ function drawInvoice(doc: any, args: { requestId: string; order: any }) {
   const shippingCountry =
     safeString(ship?.country) || safeString((order as any).shippingCountry) || safeString((order as any).country) || "";
 
-  doc.fontSize(11).fillColor("#000").text("Ship To");
-  doc.fontSize(10).fillColor("#333");
-  if (shippingName) doc.text(shippingName);
-  if (shippingLine1) doc.text(shippingLine1);
-  if (shippingLine2) doc.text(shippingLine2);
   const cityLine = [shippingCity, shippingState, shippingPostal].filter(Boolean).join(", ");
-  if (cityLine) doc.text(cityLine);
-  if (shippingCountry) doc.text(shippingCountry);
-
-  doc.moveDown(1);
+  drawAddressBlock(doc, "Ship To", [shippingName, shippingLine1, shippingLine2, cityLine, shippingCountry]);
 
   // ---- Items ----
   const itemsRaw =
@@ -170,58 +126,35 @@ function drawInvoice(doc: any, args: { requestId: string; order: any }) {
 
   const items = Array.isArray(itemsRaw) ? itemsRaw : [];
 
-  doc.fontSize(11).fillColor("#000").text("Items");
-  doc.moveDown(0.4);
-
-  // Table-ish layout
-  const startX = doc.x;
-  const col1 = startX;
-  const col2 = startX + 300;
-  const col3 = startX + 400;
-
-  doc.fontSize(10).fillColor("#000");
-  doc.text("Description", col1, doc.y, { width: 290 });
-  doc.text("Qty", col2, doc.y, { width: 80, align: "right" });
-  doc.text("Total", col3, doc.y, { width: 120, align: "right" });
-  doc.moveDown(0.2);
-  doc.moveTo(startX, doc.y).lineTo(startX + 520, doc.y).strokeColor("#ccc").stroke();
-  doc.moveDown(0.3);
-
-  doc.fontSize(10).fillColor("#333");
-
   const currency = safeString((order as any).currency || (order as any).cartCurrency || "USD");
 
-  for (const it of items) {
-    const name =
-      safeString((it as any).title) ||
-      safeString((it as any).name) ||
-      safeString((it as any).productName) ||
-      "Item";
-
-    const qty = Number((it as any).quantity ?? 1);
-    const qtySafe = Number.isFinite(qty) && qty > 0 ? qty : 1;
-
-    // Prefer line totals if present, otherwise unit*qty
-    const lineTotalCents =
-      Number((it as any).lineTotalCents ?? (it as any).totalCents ?? NaN);
-    const unitCents =
-      Number((it as any).unitPriceCents ?? (it as any).unitCents ?? NaN);
-
-    const totalCents = Number.isFinite(lineTotalCents)
-      ? lineTotalCents
-      : Number.isFinite(unitCents)
-        ? unitCents * qtySafe
-        : 0;
-
-    const { y } = doc;
-    doc.text(name, col1, y, { width: 290 });
-    doc.text(String(qtySafe), col2, y, { width: 80, align: "right" });
-    doc.text(money(totalCents, currency), col3, y, { width: 120, align: "right" });
-
-    doc.moveDown(0.6);
-  }
-
-  doc.moveDown(0.6);
+  drawItemsTable(doc, {
+    currency,
+    items: items.map((it) => {
+      const name =
+        safeString((it as any).title) ||
+        safeString((it as any).name) ||
+        safeString((it as any).productName) ||
+        "Item";
+
+      const qty = Number((it as any).quantity ?? 1);
+      const qtySafe = Number.isFinite(qty) && qty > 0 ? qty : 1;
+
+      // Prefer line totals if present, otherwise unit*qty
+      const lineTotalCents =
+        Number((it as any).lineTotalCents ?? (it as any).totalCents ?? NaN);
+      const unitCents =
+        Number((it as any).unitPriceCents ?? (it as any).unitCents ?? NaN);
+
+      const totalCents = Number.isFinite(lineTotalCents)
+        ? lineTotalCents
+        : Number.isFinite(unitCents)
+          ? unitCents * qtySafe
+          : 0;
+
+      return { description: name, quantity: qtySafe, totalCents };
+    }),
+  });
 
   // ---- Totals ----
   // Duck-type totals so you can evolve schema freely
@@ -242,31 +175,17 @@ function drawInvoice(doc: any, args: { requestId: string; order: any }) {
   const computedTotal = subtotal + shipping + tax;
   const total = Number.isFinite(totalCents) ? totalCents : computedTotal;
 
-  const totalsX = startX + 300;
-
-  doc.fontSize(10).fillColor("#333");
-  doc.text("Subtotal", totalsX, doc.y, { width: 120 });
-  doc.text(money(subtotal, currency), totalsX + 120, doc.y, { width: 100, align: "right" });
-  doc.moveDown(0.3);
-
-  doc.text("Shipping", totalsX, doc.y, { width: 120 });
-  doc.text(money(shipping, currency), totalsX + 120, doc.y, { width: 100, align: "right" });
-  doc.moveDown(0.3);
-
-  doc.text("Tax", totalsX, doc.y, { width: 120 });
-  doc.text(money(tax, currency), totalsX + 120, doc.y, { width: 100, align: "right" });
-  doc.moveDown(0.4);
-
-  doc.moveTo(totalsX, doc.y).lineTo(totalsX + 220, doc.y).strokeColor("#ccc").stroke();
-  doc.moveDown(0.4);
-
-  doc.fontSize(12).fillColor("#000");
-  doc.text("Total", totalsX, doc.y, { width: 120 });
-  doc.text(money(total, currency), totalsX + 120, doc.y, { width: 100, align: "right" });
-
-  doc.moveDown(1.2);
+  drawTotals(doc, {
+    currency,
+    rows: [
+      { label: "Subtotal", cents: subtotal },
+      { label: "Shipping", cents: shipping },
+      { label: "Tax", cents: tax },
+    ],
+    total: { label: "Total", cents: total },
+  });
 
-  doc.fontSize(9).fillColor("#666").text("If you have any questions, contact support.", { align: "left" });
+  drawFootnote(doc, "If you have any questions, contact support.");
 }
 
 export async function GET(
@@ -291,7 +210,7 @@ export async function GET(
       return jsonError(requestId, 404, "Order not found");
     }
 
-    const pdfBuf = await pdfToBuffer((doc) => drawInvoice(doc, { requestId, order }));
+    const pdfBuf = await renderPdf((doc) => drawInvoice(doc, { requestId, order }));
 
     // ✅ BodyInit compatible (avoids TS2345 on Buffer)
     const body = new Uint8Array(pdfBuf);
@@ -12,6 +12,7 @@ import { withRequestId } from "@/lib/logger";
 
 import { carts, cartLines, cartArtwork, orders } from "@/lib/db/schema";
 import { getSinaliteAccessToken } from "@/lib/getSinaliteAccessToken";
+import { recordOrderCreated } from "@/lib/orderLifecycle";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -146,13 +147,21 @@ export async function POST(req: NextRequest) {
         cartId: cartDbId,
         sid: cartSid ?? sid ?? null,
         currency,
-        status: "pending",
+        status: "submitted",
         notes: parsed.data.notes ?? null,
         createdAt: new Date(),
         updatedAt: new Date(),
       } as any)
       .returning();
 
+    await recordOrderCreated(db, {
+      orderId: String((createdOrder as any)?.id ?? orderId),
+      status: "submitted",
+      actor: `customer:${cartSid ?? sid ?? "unknown"}`,
+      requestId,
+      reason: "Order placed",
+    });
+
     // Close cart
     await db
       .update(carts)
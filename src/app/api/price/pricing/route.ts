@@ -2,6 +2,7 @@
 import "server-only";
 
 import { NextRequest, NextResponse } from "next/server";
+import { ApiError } from "@/lib/apiError";
 import { computePrice } from "@/lib/price/compute";
 import type { Store } from "@/lib/pricing";
 
@@ -94,6 +95,9 @@ export async function POST(req: NextRequest) {
     // computePrice should return a stable shape; just force no-store at the edge.
     return noStoreJson(result, 200);
   } catch (err: any) {
+    if (err instanceof ApiError && err.code === "PRODUCT_UNAVAILABLE") {
+      return noStoreJson({ ok: false, error: "product_unavailable" }, err.status);
+    }
     console.error("[/api/price/pricing] POST error:", err?.message || err);
     return noStoreJson({ ok: false, error: String(err?.message || "pricing_failed") }, 500);
   }
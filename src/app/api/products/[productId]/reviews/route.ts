@@ -9,6 +9,7 @@ import { and, asc, desc, eq, inArray, or, sql } from "drizzle-orm";
 
 import { db } from "@/lib/db";
 import { productReviews, reviewHelpfulVotes } from "@/lib/db/schema";
+import { checkRateLimit, clientIpFrom } from "@/lib/rateLimit";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -44,11 +45,7 @@ function getRequestId(req: NextRequest): string {
 }
 
 function getClientIp(h: Headers): string {
-  const xff = h.get("x-forwarded-for");
-  if (xff) return xff.split(",")[0].trim();
-  const xr = h.get("x-real-ip");
-  if (xr) return xr.trim();
-  return "0.0.0.0";
+  return clientIpFrom(h, "0.0.0.0");
 }
 
 function isEmail(s: string) {
@@ -498,6 +495,20 @@ export async function POST(req: NextRequest, ctx: { params: Promise<{ productId:
       return noStoreJson(req, { ok: false as const, requestId, error: "invalid_rating" }, 400);
     }
 
+    // Flood guard across products: counts attempts per IP, so keep it well above normal use
+    const flood = await checkRateLimit({
+      scope: "reviews:submit",
+      subject: ip,
+      limit: 10,
+      windowMs: 60 * 60 * 1000,
+    });
+
+    if (!flood.ok) {
+      const res = noStoreJson(req, { ok: false as const, requestId, error: "rate_limited" }, 429);
+      res.headers.set("Retry-After", String(flood.retryAfterSec));
+      return res;
+    }
+
     // Turnstile verify (if configured)
     const token =
       (parsed.data.turnstileToken ?? req.headers.get("cf-turnstile-response") ?? "").toString();
@@ -511,7 +522,7 @@ export async function POST(req: NextRequest, ctx: { params: Promise<{ productId:
       );
     }
 
-    // Rate limit: one submission per product+IP within 8h
+    // Rate limit: one posted review per product+IP within 8h
     const [{ recent }] =
       (await db
         .select({ recent: sql<number>`count(*)::int` })
@@ -7,6 +7,7 @@ import { Pool } from "pg";
 import { ApiError, ok, fail, getRequestIdFromHeaders, readJson } from "@/lib/apiError";
 import { withRequestId } from "@/lib/logger";
 import { enforcePolicy, logAuthzDenial } from "@/lib/auth";
+import { assertRateLimit, clientIpFrom } from "@/lib/rateLimit";
 import {
   getResendClient,
   getInvoicesFromEmail,
@@ -23,10 +24,6 @@ declare global {
   // eslint-disable-next-line no-var
   // sourcery skip: avoid-using-var
   var __adapPgPool: Pool | undefined;
-
-  // eslint-disable-next-line no-var
-
-  var __adapRate: Map<string, { count: number; resetAt: number }> | undefined;
 }
 
 function noStoreHeaders() {
@@ -87,36 +84,12 @@ function htmlEscape(x: string): string {
 }
 
 function ipFromHeaders(h: Headers): string {
-  const xff = h.get("x-forwarded-for") || "";
-  if (xff) return xff.split(",")[0].trim();
-  const real = h.get("x-real-ip") || "";
-  return real.trim();
+  return clientIpFrom(h, "");
 }
 
-function rateLimitOrThrow(ip: string) {
-  // Simple in-memory rate limit: 10 requests / 5 minutes per IP
-  const WINDOW_MS = 5 * 60 * 1000;
-  const MAX = 10;
-
-  if (!global.__adapRate) global.__adapRate = new Map();
-  const key = ip || "unknown";
-  const now = Date.now();
-  const row = global.__adapRate.get(key);
-
-  if (!row || now > row.resetAt) {
-    global.__adapRate.set(key, { count: 1, resetAt: now + WINDOW_MS });
-    return;
-  }
-  row.count += 1;
-  if (row.count > MAX) {
-    const retrySeconds = Math.max(1, Math.ceil((row.resetAt - now) / 1000));
-    throw new ApiError({
-      status: 429,
-      code: "RATE_LIMITED",
-      message: "Too many requests. Please try again shortly.",
-      details: { retryAfter: retrySeconds },
-    });
-  }
+async function rateLimitOrThrow(ip: string) {
+  // 10 requests / 5 minutes per IP, shared across all quote endpoints and instances
+  await assertRateLimit({ scope: "quotes", subject: ip, limit: 10, windowMs: 5 * 60 * 1000 });
 }
 
 async function logEmailOutbox(args: {
@@ -281,7 +254,7 @@ export async function POST(req: NextRequest) {
     await enforcePolicy(req, POLICY);
 
     // Rate limit
-    rateLimitOrThrow(ip);
+    await rateLimitOrThrow(ip);
 
     // JSON body (helper enforces application/json)
     const body = await readJson<any>(req);
@@ -349,11 +322,13 @@ export async function POST(req: NextRequest) {
             expected_date,
             shipping_option,
             artwork_note,
-            status
+            status,
+            quote_id
           )
           VALUES ($1,$2,$3,$4,$5,$6,
             CASE WHEN $7='' THEN NULL ELSE $7::date END,
-            $8,$9,'new'
+            $8,$9,'new',
+            (SELECT id FROM quotes WHERE upper(quote_number) = upper($4) LIMIT 1)
           )
           RETURNING id::text
           `,
@@ -15,6 +15,7 @@ import {
 import { ApiError, ok, fail, getRequestIdFromHeaders, readJson } from "@/lib/apiError";
 import { withRequestId } from "@/lib/logger";
 import { enforcePolicy, logAuthzDenial } from "@/lib/auth";
+import { assertRateLimit, clientIpFrom } from "@/lib/rateLimit";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -25,8 +26,6 @@ declare global {
 // sourcery skip: avoid-using-var
   var __adapPgPool: Pool | undefined;
 
-  // eslint-disable-next-line no-var
-  var __adapRate: Map<string, { count: number; resetAt: number }> | undefined;
 }
 
 function noStoreHeaders() {
@@ -73,10 +72,7 @@ function requireEmail(raw: unknown): string {
 }
 
 function ipFromHeaders(h: Headers): string {
-  const xff = h.get("x-forwarded-for") || "";
-  if (xff) return xff.split(",")[0].trim();
-  const real = h.get("x-real-ip") || "";
-  return real.trim();
+  return clientIpFrom(h, "");
 }
 
 function siteBaseUrl(): string {
@@ -93,31 +89,9 @@ function htmlEscape(x: string): string {
     .replace(/'/g, "&#39;");
 }
 
-function rateLimitOrThrow(ip: string) {
-  // Simple in-memory rate limit: 10 requests / 5 minutes per IP
-  const WINDOW_MS = 5 * 60 * 1000;
-  const MAX = 10;
-
-  if (!global.__adapRate) global.__adapRate = new Map();
-  const key = ip || "unknown";
-  const now = Date.now();
-  const row = global.__adapRate.get(key);
-
-  if (!row || now > row.resetAt) {
-    global.__adapRate.set(key, { count: 1, resetAt: now + WINDOW_MS });
-    return;
-  }
-
-  row.count += 1;
-  if (row.count > MAX) {
-    const retrySeconds = Math.max(1, Math.ceil((row.resetAt - now) / 1000));
-    throw new ApiError({
-      status: 429,
-      code: "RATE_LIMITED",
-      message: "Too many requests. Please try again shortly.",
-      details: { retryAfter: retrySeconds },
-    });
-  }
+async function rateLimitOrThrow(ip: string) {
+  // 10 requests / 5 minutes per IP, shared across all quote endpoints and instances
+  await assertRateLimit({ scope: "quotes", subject: ip, limit: 10, windowMs: 5 * 60 * 1000 });
 }
 
 async function logEmailOutbox(args: {
@@ -279,7 +253,7 @@ export async function POST(req: NextRequest) {
     await enforcePolicy(req, POLICY);
 
     // Rate limit
-    rateLimitOrThrow(ip);
+    await rateLimitOrThrow(ip);
 
     // JSON body
     const body = await readJson<any>(req);
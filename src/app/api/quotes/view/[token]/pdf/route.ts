@@ -0,0 +1,45 @@
+import "server-only";
+
+import { NextRequest, NextResponse } from "next/server";
+
+import { ApiError, fail, getRequestIdFromHeaders } from "@/lib/apiError";
+import { loadQuoteForCustomer } from "@/lib/quotes";
+import { quotePdfFilename, renderQuotePdf } from "@/lib/pdf/quotePdf";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+function noStore(res: NextResponse) {
+  res.headers.set("Cache-Control", "no-store, no-cache, must-revalidate, max-age=0");
+  return res;
+}
+
+/**
+ * GET /api/quotes/view/:token/pdf
+ * The quote as a PDF (same link token as the quote page), for download or printing.
+ */
+export async function GET(req: NextRequest, ctx: { params: Promise<{ token: string }> }) {
+  const requestId = getRequestIdFromHeaders(req);
+  try {
+    const { token } = await ctx.params;
+    const quote = await loadQuoteForCustomer(token);
+    const pdf = await renderQuotePdf(quote);
+
+    return noStore(
+      new NextResponse(new Uint8Array(pdf), {
+        status: 200,
+        headers: {
+          "Content-Type": "application/pdf",
+          "Content-Disposition": `inline; filename="${quotePdfFilename(quote.quoteNumber)}"`,
+        },
+      }),
+    );
+  } catch (error: unknown) {
+    if (error instanceof ApiError) {
+      return noStore(fail(error.message, { status: error.status, code: error.code, requestId }));
+    }
+    console.error("GET /api/quotes/view/[token]/pdf failed:", error);
+    return noStore(fail("Failed to render quote PDF", { status: 500, requestId }));
+  }
+}
@@ -0,0 +1,75 @@
+import "server-only";
+
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+
+import { ApiError, fail, getRequestIdFromHeaders, readJson } from "@/lib/apiError";
+import { enforceRateLimit } from "@/lib/rateLimit";
+import { getQuoteForCustomer, respondToQuote } from "@/lib/quotes";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+const COOKIE_OPTS = {
+  httpOnly: true as const,
+  sameSite: "lax" as const,
+  path: "/" as const,
+  secure: process.env.NODE_ENV === "production",
+  maxAge: 60 * 60 * 24 * 30,
+};
+
+function noStore(res: NextResponse) {
+  res.headers.set("Cache-Control", "no-store, no-cache, must-revalidate, max-age=0");
+  return res;
+}
+
+function errorResponse(error: unknown, requestId: string | undefined, label: string, message: string) {
+  if (error instanceof ApiError) {
+    return noStore(fail(error.message, { status: error.status, code: error.code, details: error.details, requestId }));
+  }
+  console.error(`${label} failed:`, error);
+  return noStore(fail(message, { status: 500, requestId }));
+}
+
+/**
+ * GET  /api/quotes/view/:token   the quote behind an emailed link (signed, purpose "quote_view");
+ *                                 the PDF is at ./pdf
+ * POST /api/quotes/view/:token   { decision: "accept" | "decline", reason? }
+ *
+ * Accepting attaches this browser to the quote's new cart (sid cookies, like /api/cart/resume)
+ * and answers with { redirectTo: "/cart" }.
+ */
+export async function GET(req: NextRequest, ctx: { params: Promise<{ token: string }> }) {
+  const requestId = getRequestIdFromHeaders(req);
+  try {
+    const { token } = await ctx.params;
+    const quote = await getQuoteForCustomer(token);
+    return noStore(NextResponse.json({ ok: true, quote }));
+  } catch (error: unknown) {
+    return errorResponse(error, requestId, "GET /api/quotes/view/[token]", "Failed to load quote");
+  }
+}
+
+export async function POST(req: NextRequest, ctx: { params: Promise<{ token: string }> }) {
+  const requestId = getRequestIdFromHeaders(req);
+  try {
+    const limited = await enforceRateLimit(req, "quotes:respond", 20, 60_000);
+    if (limited) return noStore(limited);
+
+    const { token } = await ctx.params;
+    const { userId } = await auth();
+    const body = await readJson<unknown>(req);
+
+    const { quote, cart } = await respondToQuote(token, body, { userId: userId ?? null });
+
+    const res = noStore(NextResponse.json({ ok: true, quote, redirectTo: cart ? "/cart" : null }));
+    if (cart) {
+      res.cookies.set("adap_sid", cart.sid, COOKIE_OPTS);
+      res.cookies.set("sid", cart.sid, COOKIE_OPTS);
+    }
+    return res;
+  } catch (error: unknown) {
+    return errorResponse(error, requestId, "POST /api/quotes/view/[token]", "Failed to record your response");
+  }
+}
@@ -8,6 +8,8 @@ import { NextResponse } from "next/server";
 import { S3Client, PutObjectCommand } from "@aws-sdk/client-s3";
 import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
 
+import { enforceRateLimit } from "@/lib/rateLimit";
+
 function jsonError(status: number, message: string, extra?: Record<string, unknown>) {
   return NextResponse.json({ ok: false, error: message, ...(extra ?? {}) }, { status });
 }
@@ -96,6 +98,9 @@ function getS3(): S3Client {
  *  { ok: true, uploadUrl, publicUrl, key, expiresInSeconds }
  */
 export async function POST(req: Request) {
+  const limited = await enforceRateLimit(req, "uploads", 30, 60_000);
+  if (limited) return limited;
+
   try {
     let body: Body | null = null;
     try {
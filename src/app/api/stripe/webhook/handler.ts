@@ -0,0 +1,471 @@
+// src/app/api/stripe/webhook/handler.ts
+import "server-only";
+
+import Stripe from "stripe";
+
+import { db } from "@/lib/db";
+import { and, eq, ne } from "drizzle-orm";
+import { carts } from "@/lib/db/schema/cart";
+import { cartLines } from "@/lib/db/schema/cartLines";
+import { cartCredits } from "@/lib/db/schema/cartCredits";
+import { orders } from "@/lib/db/schema/orders";
+import { getCartCreditsCents } from "@/lib/cartCredits";
+import { recordPromoRedemption } from "@/lib/promoCodes";
+import { recordOrderCreated } from "@/lib/orderLifecycle";
+import { applyStripeDispute, applyStripeRefund, notifyCustomerOfRefund } from "@/lib/orderRefunds";
+import { enqueueSinaliteSubmission, shipToFromStripe, type SinaliteShipTo } from "@/lib/sinalite/orderSubmission";
+import type { StripeEventResult } from "@/lib/stripeEvents";
+import { calculateTaxCents, taxLocationFromSelectedShipping, type TaxSource } from "@/lib/tax";
+
+import { reconcileTaxFromStripeTotal } from "./tax";
+
+/* ------------------------- Strict envs ------------------------- */
+const STRIPE_KEY: string =
+  process.env.STRIPE_SECRET_KEY ??
+  (() => {
+    throw new Error("Missing STRIPE_SECRET_KEY");
+  })();
+
+export const stripe = new Stripe(STRIPE_KEY, { apiVersion: "2026-01-28.clover" });
+
+/* ------------------------ small helpers ------------------------ */
+function toInt(v: unknown, fallback = 0): number {
+  const n = Number(v);
+  return Number.isFinite(n) ? Math.trunc(n) : fallback;
+}
+function clamp0(n: number): number {
+  return Number.isFinite(n) ? Math.max(0, Math.trunc(n)) : 0;
+}
+
+/**
+ * selectedShipping is stored as JSON in DB (often "unknown" type at compile time).
+ * We tolerate many shapes and treat cost as dollars.
+ */
+function shippingCentsFromSelectedShipping(selectedShipping: unknown): number {
+  const s = selectedShipping as any;
+  const dollars = Number(s?.cost ?? 0);
+  if (!Number.isFinite(dollars) || dollars <= 0) return 0;
+  return Math.round(dollars * 100);
+}
+
+/* --------------------- Helpers: cart & totals ------------------- */
+async function loadOpenCartByRef(ref: { cartId?: string | null; sid?: string | null }) {
+  const { cartId, sid } = ref;
+  const { select } = db;
+
+  if (cartId) {
+    const [byId] =
+      (await select({
+        id: carts.id,
+        status: carts.status,
+        currency: carts.currency,
+        selectedShipping: carts.selectedShipping,
+        sid: carts.sid,
+        userId: carts.userId,
+      })
+        .from(carts)
+        .where(and(eq(carts.id, cartId), ne(carts.status, "closed")))
+        .limit(1)) ?? [];
+    if (byId) return byId;
+  }
+
+  if (sid) {
+    const [bySid] =
+      (await select({
+        id: carts.id,
+        status: carts.status,
+        currency: carts.currency,
+        selectedShipping: carts.selectedShipping,
+        sid: carts.sid,
+        userId: carts.userId,
+      })
+        .from(carts)
+        .where(and(eq(carts.sid, sid), ne(carts.status, "closed")))
+        .limit(1)) ?? [];
+    if (bySid) return bySid;
+  }
+
+  return null;
+}
+
+/**
+ * Compute:
+ * - subtotalCents (raw, before discounts)
+ * - creditsCents (discount)
+ * - netSubtotalCents (after discount)
+ * - shippingCents
+ * - taxCents (from Stripe Tax calc if available; else reconcile from stripe total; else tax provider estimate)
+ * - totalCents = netSubtotal + shipping + tax   (IMPORTANT: do NOT subtract credits twice)
+ */
+async function computeCartTotalsCents(
+  cartRow: {
+    id: string;
+    currency: "USD" | "CAD" | string | null;
+    selectedShipping: unknown; // ✅ accept unknown; we parse safely in helper
+  },
+  opts: {
+    stripeTotalCents?: number | null;
+    taxCalculationId?: string | null;
+  } = {},
+) {
+  const { select } = db;
+
+  const rows = await select({
+    quantity: cartLines.quantity,
+    unitPriceCents: cartLines.unitPriceCents,
+    lineTotalCents: cartLines.lineTotalCents,
+  })
+    .from(cartLines)
+    .where(eq(cartLines.cartId, cartRow.id));
+
+  const subtotalCents = clamp0(
+    rows.reduce((sum: number, r: any) => {
+      const qty = Math.max(0, toInt(r.quantity ?? 0, 0));
+      const unit = Math.max(0, toInt(r.unitPriceCents ?? 0, 0));
+      const line = Number.isFinite(Number(r.lineTotalCents))
+        ? Math.max(0, toInt(r.lineTotalCents, qty * unit))
+        : Math.max(0, qty * unit);
+      return sum + (Number.isFinite(line) ? line : 0);
+    }, 0),
+  );
+
+  const shippingCents = clamp0(shippingCentsFromSelectedShipping(cartRow.selectedShipping));
+  const creditsCents = clamp0(await getCartCreditsCents(cartRow.id));
+
+  // credits treated as DISCOUNT (reduces taxable base)
+  const discountCents = Math.min(creditsCents, subtotalCents);
+  const netSubtotalCents = clamp0(subtotalCents - discountCents);
+
+  // --- tax: prefer Stripe Tax Calculation if we have it ---
+  let taxCents = 0;
+  let taxSource: "stripe_tax_calculation" | "reconciled_from_total" | TaxSource = "unknown";
+
+  const taxCalculationId =
+    typeof opts.taxCalculationId === "string" && opts.taxCalculationId.trim()
+      ? opts.taxCalculationId.trim()
+      : null;
+
+  if (taxCalculationId) {
+    try {
+      const calc = await stripe.tax.calculations.retrieve(taxCalculationId);
+      const v = (calc as any)?.tax_amount_exclusive;
+      const n = typeof v === "number" ? v : Number(v);
+      taxCents = Number.isFinite(n) ? Math.max(0, Math.round(n)) : 0;
+      taxSource = "stripe_tax_calculation";
+    } catch (e: any) {
+      console.warn("[stripe/webhook] tax calculation retrieve failed:", e?.message || e);
+    }
+  }
+
+  // --- fallback: Stripe charged total reconciliation ---
+  if (taxCents === 0) {
+    const { taxCents: reconciled, reconciledWithStripe } = reconcileTaxFromStripeTotal({
+      stripeTotalCents: opts.stripeTotalCents ?? null,
+      netSubtotalCents,
+      shippingCents,
+    });
+    if (reconciledWithStripe) {
+      taxCents = reconciled;
+      taxSource = "reconciled_from_total";
+    }
+  }
+
+  // --- what our tax provider chain quoted at checkout (same base: netSubtotal + shipping) ---
+  const ordersCurrencyForTax = String(cartRow.currency || "USD").toUpperCase() === "CAD" ? "CAD" : "USD";
+  const estimate = calculateTaxCents({
+    currency: ordersCurrencyForTax,
+    subtotalCents,
+    shippingCents,
+    creditsCents,
+    location: taxLocationFromSelectedShipping(cartRow.selectedShipping),
+  });
+
+  if (taxSource === "reconciled_from_total" && estimate.taxCents !== taxCents) {
+    console.warn("[stripe/webhook] tax mismatch vs provider estimate", {
+      cartId: cartRow.id,
+      reconciledTaxCents: taxCents,
+      estimatedTaxCents: estimate.taxCents,
+      estimateSource: estimate.source,
+    });
+  }
+
+  // --- last resort: no Stripe info at all, trust the provider estimate ---
+  if (taxSource === "unknown") {
+    taxCents = estimate.taxCents;
+    taxSource = estimate.source;
+  }
+
+  // IMPORTANT: total is netSubtotal + shipping + tax (credits already applied in netSubtotal)
+  const totalCents = clamp0(netSubtotalCents + shippingCents + taxCents);
+
+  const ordersCurrency = String(cartRow.currency || "USD").toUpperCase() as "USD" | "CAD";
+  const stripeCurrency = (ordersCurrency === "CAD" ? "cad" : "usd") as "usd" | "cad";
+
+  return {
+    subtotalCents,
+    shippingCents,
+    taxCents,
+    taxSource,
+    creditsCents,
+    discountCents,
+    netSubtotalCents,
+    totalCents,
+    ordersCurrency,
+    stripeCurrency,
+  };
+}
+
+/* ----------------- Idempotent order finalizer ------------------- */
+async function finalizePaidOrderFromCartRef(args: {
+  piId?: string | null;
+  sessionId?: string | null;
+  sid?: string | null;
+  cartId?: string | null;
+  stripeTotalCents?: number | null;
+  taxCalculationId?: string | null;
+  eventId?: string | null;
+  shipTo?: SinaliteShipTo | null;
+}) {
+  const { piId, cartId, sid } = args;
+  const { select, transaction } = db;
+
+  // Idempotency 1: already have order for this PaymentIntent
+  if (piId) {
+    const existing = await select({ id: orders.id })
+      .from(orders)
+      .where(eq(orders.providerId, piId))
+      .limit(1);
+    if (existing.length > 0) return String(existing[0].id);
+  }
+
+  // Idempotency 2: already have order for this cart
+  if (cartId) {
+    const existingByCart = await select({ id: orders.id })
+      .from(orders)
+      .where(eq(orders.cartId, cartId))
+      .limit(1);
+    if (existingByCart.length > 0) return String(existingByCart[0].id);
+  }
+
+  const cart = await loadOpenCartByRef({ cartId: cartId ?? null, sid: sid ?? null });
+  if (!cart) return null;
+
+  const totals = await computeCartTotalsCents(cart, {
+    stripeTotalCents: args.stripeTotalCents ?? null,
+    taxCalculationId: args.taxCalculationId ?? null,
+  });
+
+  const result = await transaction(async (tx: any) => {
+    const safeUserId = (cart as any).userId ?? (cart as any).sid;
+
+    const [order] = await tx
+      .insert(orders)
+      .values({
+        userId: safeUserId,
+        cartId: (cart as any).id,
+        status: "paid",
+        paymentStatus: "paid",
+        provider: "stripe",
+        providerId: piId ?? null,
+
+        currency: totals.ordersCurrency,
+
+        subtotalCents: totals.subtotalCents,
+        shippingCents: totals.shippingCents,
+        taxCents: totals.taxCents,
+
+        discountCents: totals.discountCents,
+        creditsCents: totals.creditsCents,
+
+        totalCents: totals.totalCents,
+
+        placedAt: new Date().toISOString(),
+      } as any)
+      .returning({ id: orders.id });
+
+    await recordOrderCreated(tx, {
+      orderId: String(order.id),
+      status: "paid",
+      actor: "system:stripe_webhook",
+      requestId: args.eventId ?? null,
+      reason: "Payment received",
+      metadata: { paymentIntentId: piId ?? null, sessionId: args.sessionId ?? null },
+    });
+
+    await tx.update(carts).set({ status: "closed" as any }).where(eq(carts.id, (cart as any).id));
+    await recordPromoRedemption(tx, {
+      cartId: (cart as any).id,
+      orderId: String(order.id),
+      customerId: safeUserId,
+      currency: totals.ordersCurrency,
+      onLimit: "flag",
+    });
+    await tx.delete(cartCredits).where(eq(cartCredits.cartId, (cart as any).id));
+
+    // Sinalite submission runs from /api/jobs/sinalite-submit once artwork is approved
+    await enqueueSinaliteSubmission(tx, { orderId: String(order.id), shipTo: args.shipTo ?? null });
+
+    return { orderId: String(order.id) };
+  });
+
+  return result.orderId;
+}
+
+/* ------------------ Refund / dispute helpers -------------------- */
+function idOf(v: string | { id: string } | null | undefined): string | null {
+  if (!v) return null;
+  return typeof v === "string" ? v : v.id ?? null;
+}
+
+async function paymentIntentIdForDispute(dispute: Stripe.Dispute): Promise<string | null> {
+  const direct = idOf(dispute.payment_intent as any);
+  if (direct) return direct;
+
+  const chargeId = idOf(dispute.charge as any);
+  if (!chargeId) return null;
+  const charge = await stripe.charges.retrieve(chargeId);
+  return idOf(charge.payment_intent as any);
+}
+
+/* ------------------------- Event dispatch ----------------------- */
+/**
+ * Apply one verified event. Shared by live deliveries and admin replay (src/lib/stripeEvents.ts),
+ * so every branch must be safe to run twice for the same event id.
+ * Throws on failure; the caller records it and answers Stripe with a 5xx.
+ */
+export async function handleStripeEvent(event: Stripe.Event): Promise<StripeEventResult> {
+  switch (event.type) {
+    case "payment_intent.succeeded": {
+      const pi = event.data.object as Stripe.PaymentIntent;
+
+      const sid = pi.metadata?.sid ?? null;
+      const cartId = pi.metadata?.cartId ?? null;
+
+      const taxCalculationId =
+        typeof (pi.metadata as any)?.tax_calculation_id === "string"
+          ? String((pi.metadata as any).tax_calculation_id)
+          : null;
+
+      const amountReceivedCents =
+        typeof pi.amount_received === "number" && pi.amount_received > 0
+          ? pi.amount_received
+          : typeof pi.amount === "number"
+            ? pi.amount
+            : null;
+
+      await finalizePaidOrderFromCartRef({
+        piId: pi.id,
+        sid,
+        cartId,
+        stripeTotalCents: amountReceivedCents,
+        taxCalculationId,
+        eventId: event.id,
+        shipTo: shipToFromStripe(pi.shipping as any, { email: pi.receipt_email }),
+      });
+
+      return { ok: true };
+    }
+
+    case "checkout.session.completed": {
+      const session = event.data.object as Stripe.Checkout.Session;
+
+      const sid = (session.metadata?.sid as string) ?? null;
+      const cartId = (session.metadata?.cartId as string) ?? null;
+
+      const piId =
+        typeof session.payment_intent === "string"
+          ? session.payment_intent
+          : (session.payment_intent as any)?.id ?? null;
+
+      const amountTotalCents =
+        typeof (session as any)?.amount_total === "number"
+          ? (session as any).amount_total
+          : null;
+
+      let taxCalculationId: string | null = null;
+
+      try {
+        if (piId) {
+          const pi = await stripe.paymentIntents.retrieve(piId);
+          taxCalculationId =
+            typeof (pi.metadata as any)?.tax_calculation_id === "string"
+              ? String((pi.metadata as any).tax_calculation_id)
+              : null;
+        }
+      } catch (e: any) {
+        console.warn("[stripe/webhook] retrieve PI for tax_calculation_id failed:", e?.message || e);
+      }
+
+      await finalizePaidOrderFromCartRef({
+        piId: piId ?? null,
+        sessionId: session.id,
+        sid,
+        cartId,
+        stripeTotalCents: amountTotalCents,
+        taxCalculationId,
+        eventId: event.id,
+        shipTo: shipToFromStripe(
+          (session as any).collected_information?.shipping_details ?? (session.customer_details as any),
+          { email: session.customer_details?.email, phone: session.customer_details?.phone },
+        ),
+      });
+
+      return { ok: true };
+    }
+
+    case "charge.refunded":
+    case "charge.refund.updated": {
+      const charge = (
+        event.type === "charge.refunded"
+          ? event.data.object
+          : await stripe.charges.retrieve(String((event.data.object as Stripe.Refund).charge))
+      ) as Stripe.Charge;
+
+      const piId = idOf(charge.payment_intent as any);
+      if (!piId) return { ok: true, ignored: "no_payment_intent" };
+
+      const result = await applyStripeRefund({
+        eventId: event.id,
+        paymentIntentId: piId,
+        chargeId: charge.id,
+        amountCents: charge.amount,
+        amountRefundedCents: charge.amount_refunded,
+      });
+
+      await notifyCustomerOfRefund(result, {
+        email: charge.billing_details?.email ?? charge.receipt_email,
+        name: charge.billing_details?.name?.split(/\s+/)[0] ?? null,
+      });
+
+      return { ok: true, duplicate: result?.duplicate ?? false, matched: result != null };
+    }
+
+    case "charge.dispute.created":
+    case "charge.dispute.closed": {
+      const dispute = event.data.object as Stripe.Dispute;
+
+      const piId = await paymentIntentIdForDispute(dispute);
+      if (!piId) return { ok: true, ignored: "no_payment_intent" };
+
+      // warning_closed = inquiry closed without a chargeback
+      const outcome =
+        event.type === "charge.dispute.created" ? "created" : dispute.status === "lost" ? "lost" : "won";
+
+      const result = await applyStripeDispute({
+        eventId: event.id,
+        paymentIntentId: piId,
+        disputeId: dispute.id,
+        outcome,
+        amountCents: dispute.amount,
+      });
+
+      // only a lost dispute moves money back to the customer
+      await notifyCustomerOfRefund(result);
+
+      return { ok: true, duplicate: result?.duplicate ?? false, matched: result != null };
+    }
+
+    default:
+      return { ok: true, ignored: event.type };
+  }
+}
@@ -6,6 +6,8 @@ import crypto from "node:crypto";
 import { z } from "zod";
 import { S3Client, PutObjectCommand } from "@aws-sdk/client-s3";
 
+import { enforceRateLimit } from "@/lib/rateLimit";
+
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 export const revalidate = 0;
@@ -130,6 +132,9 @@ const MetaSchema = z
 export async function POST(req: NextRequest) {
   const requestId = getRequestId(req);
 
+  const limited = await enforceRateLimit(req, "uploads", 30, 60_000);
+  if (limited) return limited;
+
   try {
     const { s3, bucket, publicBase } = requireR2();
 
@@ -4,8 +4,31 @@ import "server-only";
 import crypto from "node:crypto";
 import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
-import { S3Client, PutObjectCommand } from "@aws-sdk/client-s3";
+import {
+  S3Client,
+  PutObjectCommand,
+  CreateMultipartUploadCommand,
+  UploadPartCommand,
+  ListPartsCommand,
+  CompleteMultipartUploadCommand,
+  AbortMultipartUploadCommand,
+} from "@aws-sdk/client-s3";
 import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
+import { eq } from "drizzle-orm";
+
+import { db } from "@/lib/db";
+import { cartLines } from "@/lib/db/schema/cartLines";
+import { enforceRateLimit } from "@/lib/rateLimit";
+import {
+  MAX_PARTS,
+  categorySlugForProduct,
+  checkUploadLimits,
+  checkUploadSize,
+  planMultipart,
+  uploadLimitsFor,
+  type UploadLimits,
+} from "@/lib/artwork/uploadLimits";
+import { mintUploadReceipt } from "@/lib/artwork/verifyUpload";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -114,81 +137,337 @@ const BodySchema = z
     scope: z.string().max(120).optional(),
     // optional: override default prefix (still sanitized)
     prefix: z.string().max(120).optional(),
+    // file size in bytes; checked against the product category's limit when present
+    size: z.number().int().nonnegative().optional(),
+    contentLength: z.number().int().nonnegative().nullable().optional(),
+    productId: z.union([z.string().max(40), z.number()]).optional(),
+    lineId: z.string().max(64).optional(),
   })
   .passthrough();
 
-/**
- * POST /api/uploads/r2
- * Body: { filename, contentType, scope?, prefix? }
- *
- * Returns:
- * {
- *  ok, requestId,
- *  key,
- *  uploadUrl,   // presigned PUT
- *  publicUrl?   // only if R2_PUBLIC_BASE_URL set
- * }
- */
-export async function POST(req: NextRequest) {
-  const requestId = getRequestId(req);
+const CreateSchema = BodySchema.extend({ size: z.number().int().positive() });
 
-  try {
-    const json = await req.json().catch(() => null);
-    const parsed = BodySchema.safeParse(json ?? {});
-    if (!parsed.success) {
-      return noStoreJson(
-        req,
-        {
-          ok: false as const,
-          requestId,
-          error: "invalid_body",
-          issues: parsed.error.issues.map((i) => ({ path: i.path.join("."), message: i.message })),
-        },
-        400,
-      );
-    }
+const UploadRefSchema = z.object({
+  key: z.string().min(1).max(1024),
+  uploadId: z.string().min(1).max(1024),
+});
+
+const SignPartsSchema = UploadRefSchema.extend({
+  partNumbers: z.array(z.number().int().min(1).max(MAX_PARTS)).min(1).max(100),
+});
+
+const CompleteSchema = UploadRefSchema.extend({
+  partCount: z.number().int().min(1).max(MAX_PARTS),
+  productId: z.union([z.string().max(40), z.number()]).optional(),
+  lineId: z.string().max(64).optional(),
+});
+
+type UploadAction = "presign" | "create" | "sign-parts" | "list-parts" | "complete" | "abort";
+const ACTIONS: readonly UploadAction[] = ["presign", "create", "sign-parts", "list-parts", "complete", "abort"];
+// Calls that continue an upload already started; a big file makes hundreds of these
+const FOLLOW_UP_ACTIONS: readonly UploadAction[] = ["sign-parts", "list-parts", "complete", "abort"];
+
+function invalidBody(req: NextRequest, requestId: string, error: z.ZodError) {
+  return noStoreJson(
+    req,
+    {
+      ok: false as const,
+      requestId,
+      error: "invalid_body",
+      issues: error.issues.map((i) => ({ path: i.path.join("."), message: i.message })),
+    },
+    400,
+  );
+}
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/** Limits for the product being uploaded for (explicit productId, else the cart line's product). */
+async function resolveLimits(body: { productId?: string | number; lineId?: string }): Promise<UploadLimits> {
+  let productId: string | number | null = body.productId ?? null;
+
+  const lineId = s(body.lineId);
+  if (productId == null && UUID_RE.test(lineId)) {
+    const [line] = await db
+      .select({ productId: cartLines.productId })
+      .from(cartLines)
+      .where(eq(cartLines.id, lineId))
+      .limit(1);
+    productId = line?.productId ?? null;
+  }
+
+  return uploadLimitsFor(categorySlugForProduct(productId));
+}
+
+function newObjectKey(body: z.infer<typeof BodySchema>): string {
+  const filename = sanitizeFilename(body.filename);
+  const scope = safePrefix(s(body.scope));
+  const prefixOverride = safePrefix(s(body.prefix));
+  const finalPrefix = prefixOverride || PREFIX;
 
-    const body = parsed.data;
+  const id = crypto.randomUUID();
+  return joinKey(finalPrefix, [scope || "", `${Date.now()}_${id}_${filename}`]);
+}
 
-    const filename = sanitizeFilename(body.filename);
-    const contentType = s(body.contentType).toLowerCase();
+/** Every part of an in-progress upload (ListParts pages at 1000). */
+async function listAllParts(key: string, uploadId: string) {
+  const parts: { partNumber: number; etag: string; size: number }[] = [];
+  let marker: string | undefined;
 
-    // basic allow-list (you can expand this)
-    // NOTE: don’t be too strict unless you want to block uploads.
-    if (!contentType || !contentType.includes("/")) {
-      return noStoreJson(req, { ok: false as const, requestId, error: "invalid_contentType" }, 400);
+  for (;;) {
+    const res = await s3.send(
+      new ListPartsCommand({ Bucket: BUCKET, Key: key, UploadId: uploadId, PartNumberMarker: marker }),
+    );
+    for (const p of res.Parts ?? []) {
+      if (p.PartNumber && p.ETag) parts.push({ partNumber: p.PartNumber, etag: p.ETag, size: Number(p.Size ?? 0) });
     }
+    if (!res.IsTruncated || !res.NextPartNumberMarker) break;
+    marker = res.NextPartNumberMarker;
+  }
 
-    const scope = safePrefix(s(body.scope));
-    const prefixOverride = safePrefix(s(body.prefix));
-    const finalPrefix = prefixOverride || PREFIX;
+  return parts.sort((a, b) => a.partNumber - b.partNumber);
+}
 
-    const id = crypto.randomUUID();
-    const key = joinKey(finalPrefix, [
-      scope || "",
-      `${Date.now()}_${id}_${filename}`,
-    ]);
+/* ------------------------- actions ------------------------- */
 
-    const cmd = new PutObjectCommand({
-      Bucket: BUCKET,
-      Key: key,
-      ContentType: contentType,
-      // optional: you can set CacheControl if your CDN rules expect it
-      // CacheControl: "public, max-age=31536000, immutable",
-    });
+async function presignSingle(req: NextRequest, requestId: string, json: unknown) {
+  const parsed = BodySchema.safeParse(json ?? {});
+  if (!parsed.success) return invalidBody(req, requestId, parsed.error);
+
+  const body = parsed.data;
+  const contentType = s(body.contentType).toLowerCase();
+
+  if (!contentType || !contentType.includes("/")) {
+    return noStoreJson(req, { ok: false as const, requestId, error: "invalid_contentType" }, 400);
+  }
 
-    const uploadUrl = await getSignedUrl(s3, cmd, { expiresIn: EXPIRES });
+  const violation = checkUploadLimits(await resolveLimits(body), {
+    contentType,
+    size: body.size ?? body.contentLength ?? null,
+  });
+  if (violation) {
+    return noStoreJson(req, { ok: false as const, requestId, error: violation.error, message: violation.message }, violation.status);
+  }
+
+  const key = newObjectKey(body);
+
+  const cmd = new PutObjectCommand({
+    Bucket: BUCKET,
+    Key: key,
+    ContentType: contentType,
+    // optional: you can set CacheControl if your CDN rules expect it
+    // CacheControl: "public, max-age=31536000, immutable",
+  });
+
+  const uploadUrl = await getSignedUrl(s3, cmd, { expiresIn: EXPIRES });
+
+  const publicUrl = buildPublicUrl(PUBLIC_BASE, key);
+  // Pass back when attaching the file; the object's real size/type is checked against it
+  const size = body.size ?? body.contentLength ?? null;
+  const receipt = size != null ? mintUploadReceipt({ key, size, contentType }) : null;
+
+  return noStoreJson(req, {
+    ok: true as const,
+    requestId,
+    key,
+    uploadUrl,
+    ...(publicUrl ? { publicUrl } : {}),
+    ...(receipt ? { receipt } : {}),
+    expiresInSeconds: EXPIRES,
+  });
+}
+
+async function createMultipart(req: NextRequest, requestId: string, json: unknown) {
+  const parsed = CreateSchema.safeParse(json ?? {});
+  if (!parsed.success) return invalidBody(req, requestId, parsed.error);
+
+  const body = parsed.data;
+  const contentType = s(body.contentType).toLowerCase();
+
+  const violation = checkUploadLimits(await resolveLimits(body), { contentType, size: body.size });
+  if (violation) {
+    return noStoreJson(req, { ok: false as const, requestId, error: violation.error, message: violation.message }, violation.status);
+  }
 
-    const publicUrl = buildPublicUrl(PUBLIC_BASE, key);
+  const key = newObjectKey(body);
+  const created = await s3.send(new CreateMultipartUploadCommand({ Bucket: BUCKET, Key: key, ContentType: contentType }));
+  if (!created.UploadId) throw new Error("multipart_create_failed");
 
+  const { partSize, partCount } = planMultipart(body.size);
+  const publicUrl = buildPublicUrl(PUBLIC_BASE, key);
+
+  return noStoreJson(req, {
+    ok: true as const,
+    requestId,
+    key,
+    uploadId: created.UploadId,
+    partSize,
+    partCount,
+    ...(publicUrl ? { publicUrl } : {}),
+    expiresInSeconds: EXPIRES,
+  });
+}
+
+async function signParts(req: NextRequest, requestId: string, json: unknown) {
+  const parsed = SignPartsSchema.safeParse(json ?? {});
+  if (!parsed.success) return invalidBody(req, requestId, parsed.error);
+
+  const { key, uploadId, partNumbers } = parsed.data;
+  const urls = await Promise.all(
+    [...new Set(partNumbers)].map(async (partNumber) => ({
+      partNumber,
+      url: await getSignedUrl(s3, new UploadPartCommand({ Bucket: BUCKET, Key: key, UploadId: uploadId, PartNumber: partNumber }), {
+        expiresIn: EXPIRES,
+      }),
+    })),
+  );
+
+  return noStoreJson(req, { ok: true as const, requestId, key, uploadId, urls, expiresInSeconds: EXPIRES });
+}
+
+async function listParts(req: NextRequest, requestId: string, json: unknown) {
+  const parsed = UploadRefSchema.safeParse(json ?? {});
+  if (!parsed.success) return invalidBody(req, requestId, parsed.error);
+
+  const { key, uploadId } = parsed.data;
+  try {
+    const parts = await listAllParts(key, uploadId);
     return noStoreJson(req, {
       ok: true as const,
       requestId,
       key,
-      uploadUrl,
-      ...(publicUrl ? { publicUrl } : {}),
-      expiresInSeconds: EXPIRES,
+      uploadId,
+      parts: parts.map(({ partNumber, size }) => ({ partNumber, size })),
     });
+  } catch (err: any) {
+    // Completed, aborted or expired: the client starts over
+    if (err?.name === "NoSuchUpload") {
+      return noStoreJson(req, { ok: false as const, requestId, error: "upload_not_found" }, 404);
+    }
+    throw err;
+  }
+}
+
+async function completeMultipart(req: NextRequest, requestId: string, json: unknown) {
+  const parsed = CompleteSchema.safeParse(json ?? {});
+  if (!parsed.success) return invalidBody(req, requestId, parsed.error);
+
+  const { key, uploadId, partCount } = parsed.data;
+
+  // Completion works from what R2 actually holds, so part ETags never have to round-trip
+  // through the browser (and CORS doesn't need to expose the ETag header).
+  let parts: Awaited<ReturnType<typeof listAllParts>>;
+  try {
+    parts = await listAllParts(key, uploadId);
+  } catch (err: any) {
+    if (err?.name === "NoSuchUpload") {
+      return noStoreJson(req, { ok: false as const, requestId, error: "upload_not_found" }, 404);
+    }
+    throw err;
+  }
+
+  const missing: number[] = [];
+  for (let n = 1; n <= partCount; n++) if (!parts.some((p) => p.partNumber === n)) missing.push(n);
+  if (missing.length || parts.length !== partCount) {
+    return noStoreJson(
+      req,
+      { ok: false as const, requestId, error: "parts_incomplete", missing: missing.slice(0, 100) },
+      409,
+    );
+  }
+
+  const size = parts.reduce((sum, p) => sum + p.size, 0);
+  const violation = checkUploadSize(await resolveLimits(parsed.data), size);
+  if (violation) {
+    await s3.send(new AbortMultipartUploadCommand({ Bucket: BUCKET, Key: key, UploadId: uploadId })).catch(() => {});
+    return noStoreJson(req, { ok: false as const, requestId, error: violation.error, message: violation.message }, violation.status);
+  }
+
+  await s3.send(
+    new CompleteMultipartUploadCommand({
+      Bucket: BUCKET,
+      Key: key,
+      UploadId: uploadId,
+      MultipartUpload: { Parts: parts.map((p) => ({ PartNumber: p.partNumber, ETag: p.etag })) },
+    }),
+  );
+
+  const publicUrl = buildPublicUrl(PUBLIC_BASE, key);
+  const receipt = mintUploadReceipt({ key, size, contentType: null });
+  return noStoreJson(req, {
+    ok: true as const,
+    requestId,
+    key,
+    size,
+    ...(publicUrl ? { publicUrl } : {}),
+    ...(receipt ? { receipt } : {}),
+  });
+}
+
+async function abortMultipart(req: NextRequest, requestId: string, json: unknown) {
+  const parsed = UploadRefSchema.safeParse(json ?? {});
+  if (!parsed.success) return invalidBody(req, requestId, parsed.error);
+
+  const { key, uploadId } = parsed.data;
+  await s3.send(new AbortMultipartUploadCommand({ Bucket: BUCKET, Key: key, UploadId: uploadId })).catch((err: any) => {
+    if (err?.name !== "NoSuchUpload") throw err;
+  });
+  return noStoreJson(req, { ok: true as const, requestId, key, aborted: true });
+}
+
+/**
+ * POST /api/uploads/r2
+ *
+ * Single PUT (default, `action` omitted or "presign"):
+ *   Body: { filename, contentType, scope?, prefix?, size?, productId?, lineId? }
+ *   Returns: { ok, requestId, key, uploadUrl, publicUrl?, receipt?, expiresInSeconds }
+ *
+ * Multipart (large files):
+ *   { action: "create", filename, contentType, size, scope?, prefix?, productId?, lineId? }
+ *     -> { key, uploadId, partSize, partCount, publicUrl? }
+ *   { action: "sign-parts", key, uploadId, partNumbers: number[] }   -> { urls: [{ partNumber, url }] }
+ *   { action: "list-parts", key, uploadId }                           -> { parts: [{ partNumber, size }] }
+ *   { action: "complete", key, uploadId, partCount, productId?, lineId? } -> { key, size, publicUrl?, receipt? }
+ *   { action: "abort", key, uploadId }
+ *
+ * Size / content-type limits come from the product's category (productId, or the cart line's
+ * product); violations are 413 / 415 with { error, message }. `receipt` is a signed record of the
+ * key/size to send with POST /api/cart/lines/[lineId]/artwork, which verifies the stored object.
+ */
+export async function POST(req: NextRequest) {
+  const requestId = getRequestId(req);
+
+  try {
+    const json = await req.json().catch(() => null);
+    const action = (s((json as any)?.action) || "presign") as UploadAction;
+    if (!ACTIONS.includes(action)) {
+      return noStoreJson(req, { ok: false as const, requestId, error: "invalid_action" }, 400);
+    }
+
+    // Starting an upload counts against the "uploads" limit shared with /api/uploads/put and
+    // /api/r2/presign. Follow-ups are limited per upload id (plus a per-IP ceiling), so a large
+    // file can't run out of budget halfway through its parts.
+    const uploadId = FOLLOW_UP_ACTIONS.includes(action) ? s((json as any)?.uploadId).slice(0, 256) : "";
+    const limited = uploadId
+      ? ((await enforceRateLimit(req, "uploads:multipart", 600, 60_000)) ??
+        (await enforceRateLimit(req, `uploads:multipart:${uploadId}`, 120, 60_000)))
+      : await enforceRateLimit(req, "uploads", 30, 60_000);
+    if (limited) return limited;
+
+    switch (action) {
+      case "create":
+        return await createMultipart(req, requestId, json);
+      case "sign-parts":
+        return await signParts(req, requestId, json);
+      case "list-parts":
+        return await listParts(req, requestId, json);
+      case "complete":
+        return await completeMultipart(req, requestId, json);
+      case "abort":
+        return await abortMultipart(req, requestId, json);
+      default:
+        return await presignSingle(req, requestId, json);
+    }
   } catch (err: unknown) {
     const message = err instanceof Error ? err.message : String(err);
     return noStoreJson(req, { ok: false as const, requestId, error: message || "upload_presign_failed" }, 500);
@@ -18,6 +18,7 @@ type AnyItem = {
   cloudflareImageId?: string | null;
   serverUnitPrice?: number; // dollars
   unitPrice?: number; // dollars (client override)
+  previousUnitPrice?: number | null; // dollars, set when a supplier cost change repriced the line
 };
 
 type SavedItem = {
@@ -67,6 +68,7 @@ type ApiCurrent = {
     unitPriceCents?: number | null;
     lineTotalCents?: number | null;
     optionChain?: string | null;
+    priceChange?: { previousUnitPriceCents: number; changedAt: string } | null;
   }>;
   attachments: Record<
     string,
@@ -216,6 +218,11 @@ export default function CartPageClient({ initialItems, currency, store, initialS
     }, 0);
   }, [items]);
 
+  const repricedCount = useMemo(
+    () => (items || []).filter((it) => typeof it.previousUnitPrice === "number").length,
+    [items],
+  );
+
   // Minimal lines to feed shipping estimator / summary
   const miniLines: MiniLine[] = useMemo(() => {
     return (items || []).map((it) => ({
@@ -245,6 +252,7 @@ export default function CartPageClient({ initialItems, currency, store, initialS
               quantity: Number(ln.quantity || 1),
               cloudflareImageId: ln.productCfImageId ?? null,
               serverUnitPrice: unitDollars,
+              previousUnitPrice: ln.priceChange ? ln.priceChange.previousUnitPriceCents / 100 : null,
             };
           });
 
@@ -355,6 +363,13 @@ export default function CartPageClient({ initialItems, currency, store, initialS
     }
   }
 
+  async function dismissPriceNotice() {
+    try {
+      await fetch("/api/cart/price-notice", { method: "POST", cache: "no-store" });
+    } catch {}
+    setItems((prev) => prev.map((it) => ({ ...it, previousUnitPrice: null })));
+  }
+
   async function updateQty(lineId: string, qty: number) {
     const nextQty = clampQty(qty);
     setBusyId(lineId);
@@ -447,6 +462,19 @@ export default function CartPageClient({ initialItems, currency, store, initialS
       <div className="cart2__grid">
         {/* LEFT: items */}
         <section aria-label="Cart items" className="cart2__left">
+          {repricedCount > 0 && (
+            <div className="cart2__notice" role="status">
+              <span>
+                <strong>Price updated.</strong> Our supplier’s cost changed for{" "}
+                {repricedCount === 1 ? "an item" : `${repricedCount} items`} in your cart, so the price shown is
+                different from when you added {repricedCount === 1 ? "it" : "them"}.
+              </span>
+              <button type="button" className="link-btn" onClick={dismissPriceNotice}>
+                Got it
+              </button>
+            </div>
+          )}
+
           {items.length === 0 ? (
             <div className="card text-center">
               <h2 className="m-0">Your cart is empty</h2>
@@ -490,6 +518,9 @@ export default function CartPageClient({ initialItems, currency, store, initialS
                       <div className="minw0">
                         <div className="cart2__name">{displayName}</div>
                         <div className="cart2__each">{unit ? `${money(unit, currency)} each` : "$0.00 each"}</div>
+                        {typeof it.previousUnitPrice === "number" && (
+                          <div className="cart2__each cart2__was">Was {money(it.previousUnitPrice, currency)} each</div>
+                        )}
 
                         <div className="cart2__qtyWrap">
                           <label htmlFor={`qty-${it.id}`}>Qty</label>
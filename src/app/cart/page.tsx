@@ -26,6 +26,7 @@ type ApiEnvelope = {
     productCfImageId?: string | null;
     unitPriceCents?: number | null;
     lineTotalCents?: number | null;
+    priceChange?: { previousUnitPriceCents: number; changedAt: string } | null;
   }>;
 
   // Legacy shape
@@ -53,6 +54,7 @@ type ClientItem = {
   quantity: number;
   cloudflareImageId?: string | null;
   serverUnitPrice?: number; // dollars
+  previousUnitPrice?: number | null; // dollars, before a supplier cost change repriced the line
 };
 
 function toCurrency(v: unknown): Currency {
@@ -124,6 +126,7 @@ async function fetchCart(): Promise<{
       quantity: Math.max(1, toInt(ln.quantity, 1)),
       cloudflareImageId: ln.productCfImageId ?? null,
       serverUnitPrice: typeof ln.unitPriceCents === "number" ? ln.unitPriceCents / 100 : undefined,
+      previousUnitPrice: ln.priceChange ? ln.priceChange.previousUnitPriceCents / 100 : null,
     }));
 
     return { items, currency, initialShipping };
@@ -16,6 +16,8 @@ import CartCreditsRow from "@/components/CartCreditsRow";
 
 import { getCartCreditsCents } from "@/lib/cartCredits";
 import { cfImage } from "@/lib/cfImages";
+import type { PreflightReport } from "@/lib/artwork/preflight";
+import { pickThumbnail, storedThumbnails } from "@/lib/artwork/artworkThumb";
 import productAssetsRaw from "@/data/productAssets.json";
 
 export const dynamic = "force-dynamic";
@@ -70,6 +72,9 @@ type ApiAttachment = {
   url?: string | null;
   cfImageId?: string | null;
   key?: string | null;
+  preflightStatus?: PreflightReport["status"] | null;
+  /** R2 key of the rendered front preview (PDF/TIFF uploads can't be shown directly) */
+  previewKey?: string | null;
 };
 
 type ApiCurrentEnvelope = {
@@ -88,6 +93,7 @@ type LineVM = {
   unit: number; // dollars
   total: number; // dollars
   artworkUrls: string[];
+  artwork: { url: string; previewUrl: string | null; preflightStatus: PreflightReport["status"] | null }[];
   optionIds: number[];
 };
 
@@ -118,6 +124,10 @@ function asNumberArray(v: unknown): number[] {
     .filter((n) => Number.isFinite(n) && n > 0)
     .map((n) => Math.trunc(n));
 }
+function parsePreflightStatus(v: unknown): PreflightReport["status"] | null {
+  const status = isRecord(v) ? v.status : null;
+  return status === "pass" || status === "warn" || status === "fail" ? status : null;
+}
 
 function parseSelectedShipping(v: unknown): SelectedShipping | null {
   if (!isRecord(v)) return null;
@@ -202,6 +212,9 @@ function parseApiCurrent(x: unknown): ApiCurrentEnvelope | null {
             url: asString(a.url) || null,
             cfImageId: asString(a.cfImageId) || null,
             key: asString(a.key) || null,
+            preflightStatus: parsePreflightStatus(a.preflight),
+            // 56px thumb at 2x
+            previewKey: pickThumbnail(storedThumbnails(a.thumbnails), "front", 112)?.key ?? null,
           };
         })
         .filter((v): v is ApiAttachment => !!v);
@@ -311,7 +324,10 @@ async function loadCart(): Promise<{ cart: ApiCart; lines: LineVM[]; selectedShi
     const total = (typeof r.lineTotalCents === "number" ? r.lineTotalCents : 0) / 100;
 
     const art = parsed.attachments?.[String(r.id)] ?? [];
-    const artworkUrls = art.map((a) => a.url).filter((u): u is string => typeof u === "string" && !!u);
+    const artwork = art
+      .filter((a): a is ApiAttachment & { url: string } => typeof a.url === "string" && !!a.url)
+      .map((a) => ({ url: a.url, previewUrl: a.previewKey ?? null, preflightStatus: a.preflightStatus ?? null }));
+    const artworkUrls = artwork.map((a) => a.url);
 
     return {
       id: String(r.id),
@@ -321,6 +337,7 @@ async function loadCart(): Promise<{ cart: ApiCart; lines: LineVM[]; selectedShi
       unit,
       total,
       artworkUrls,
+      artwork,
       optionIds: Array.isArray(r.optionIds) ? r.optionIds : [],
     };
   });
@@ -440,8 +457,13 @@ export default async function ReviewCartPage() {
 
                       {hasArtwork ? (
                         <div className="mt-3 flex flex-wrap gap-3">
-                          {line.artworkUrls.map((u, i) => (
-                            <CartArtworkThumb key={`${line.id}-art-${i}`} url={u} alt={`Artwork side ${i + 1}`} />
+                          {line.artwork.map((a, i) => (
+                            <CartArtworkThumb
+                              key={`${line.id}-art-${i}`}
+                              url={a.previewUrl ?? a.url}
+                              alt={`Artwork side ${i + 1}`}
+                              preflightStatus={a.preflightStatus}
+                            />
                           ))}
                           <AddAnotherSideButton
                             productId={line.productId}
@@ -20,6 +20,7 @@ import categoryAssets from "@/data/categoryAssets.json";
 import subcategoryAssets from "@/data/subcategoryAssets.json";
 import productAssets from "@/data/productAssets.json";
 import { cfImage, type Variant as CfVariant } from "@/lib/cfImages";
+import { isProductAvailable } from "@/lib/productResolver";
 
 /* ---------------- Types ---------------- */
 type Category = { id?: number | string | null; slug: string; name?: string | null };
@@ -328,6 +329,9 @@ export default async function ProductPage({
   const sinaliteIdNum = Number(sinaliteIdStr);
   if (!Number.isFinite(sinaliteIdNum) || sinaliteIdNum <= 0) return notFound();
 
+  // Delisted upstream: 404 rather than a page that can't be priced
+  if (!(await isProductAvailable(sinaliteIdNum))) return notFound();
+
   // Options + arrays (per SinaLite API docs)
   const arrays = await getSinaliteProductArrays(sinaliteIdStr).catch(() => null);
   const optionsArray: any[] = (arrays?.optionsArray ?? []) as any[];
@@ -11,6 +11,7 @@ import productAssets from "@/data/productAssets.json";
 
 import SubcategoryTileImage from "@/components/SubcategoryTileImage";
 import { getDefaultPriceSnapshot } from "@/lib/sinalite.client";
+import { getUnavailableProductIds } from "@/lib/productResolver";
 
 /**
  * TS fix:
@@ -67,6 +68,10 @@ function toNum(n: unknown): number | null {
   const v = Number(s);
   return Number.isFinite(v) ? v : null;
 }
+function sinaliteIdOf(p: ProductRow): number | null {
+  const n = toNum(p.sinalite_id ?? p.id);
+  return n != null && n > 0 ? n : null;
+}
 function toSlug(s?: string | null) {
   return (s || "").toLowerCase().trim().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "");
 }
@@ -238,7 +243,7 @@ export default async function SubcategoryPage({
       (toNum(p.category_id) !== null && toNum(p.category_id) === toNum(cat.id))
   );
 
-  const products: ProductRow[] = realSub
+  const listed: ProductRow[] = realSub
     ? inCat.filter((p) => {
         const matchId =
           toNum(p.subcategory_id) != null &&
@@ -248,6 +253,13 @@ export default async function SubcategoryPage({
       })
     : inCat.filter((p) => productDerivedSubKey(p, categorySlug) === subcategorySlug);
 
+  // Drop products Sinalite no longer lists (flagged by the catalog sync)
+  const unavailable = await getUnavailableProductIds(listed.map(sinaliteIdOf).filter((n): n is number => n != null));
+  const products = listed.filter((p) => {
+    const id = sinaliteIdOf(p);
+    return id == null || !unavailable.has(id);
+  });
+
   const fallbackLabel = subcategorySlug.startsWith("sub-") ? `Sub ${subcategorySlug.slice(4)}` : subcategorySlug;
   const friendlySub = titleCase(realSub?.name ?? chooseBestLabel(products, categorySlug, fallbackLabel));
   const readableCat = titleCase(cat.name ?? categorySlug);
@@ -2,10 +2,14 @@ import "server-only";
 
 import type { Metadata, Viewport } from "next";
 import { Suspense } from "react";
+import { auth } from "@clerk/nextjs/server";
 
 import Hero from "@/components/Hero";
 import FeaturedCategories from "@/components/FeaturedCategories";
 import { getLocalCategories } from "@/lib/catalogLocal";
+import { getActiveHeroSlides } from "@/lib/heroSlides.server";
+import { getSidSafe } from "@/lib/getOrSetSid";
+import { DEFAULT_STORE } from "@/lib/sinaliteStore";
 import SignupPromoCard from "@/components/SignupPromoCard";
 import SalesCards, { type SaleCard } from "@/components/SalesCards";
 import HomeShellClient from "./HomeShellClient";
@@ -123,7 +127,23 @@ function buildJsonLd() {
   return [org, website, webpage];
 }
 
-export default function HomePage() {
+async function isSignedIn(): Promise<boolean> {
+  try {
+    const { userId } = await auth();
+    return Boolean(userId);
+  } catch {
+    // Clerk not configured (local/dev): treat as guest
+    return false;
+  }
+}
+
+export default async function HomePage() {
+  const heroSlides = await getActiveHeroSlides({
+    store: DEFAULT_STORE,
+    signedIn: await isSignedIn(),
+    sid: await getSidSafe(),
+  });
+
   const categories = getLocalCategories() as LocalCategory[];
 
   // Keep featured categories stable and intentional (SEO + UX)
@@ -203,7 +223,7 @@ export default function HomePage() {
               </div>
             }
           >
-            <Hero />
+            <Hero slides={heroSlides} />
           </Suspense>
         </section>
 
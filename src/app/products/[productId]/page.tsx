@@ -20,6 +20,7 @@ import categoryAssets from "@/data/categoryAssets.json";
 import subcategoryAssets from "@/data/subcategoryAssets.json";
 import productAssets from "@/data/productAssets.json";
 import { cfImage, type Variant as CfVariant } from "@/lib/cfImages";
+import { isProductAvailable } from "@/lib/productResolver";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -330,6 +331,9 @@ export default async function ProductPage({
   const sinaliteIdNum = Number(sinaliteIdStr);
   if (!Number.isFinite(sinaliteIdNum) || sinaliteIdNum <= 0) return notFound();
 
+  // Delisted upstream: 404 rather than a page that can't be priced
+  if (!(await isProductAvailable(sinaliteIdNum))) return notFound();
+
   /* ---------- Live meta + options ---------- */
   let meta: any = null;
   try {
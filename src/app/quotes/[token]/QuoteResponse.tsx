@@ -0,0 +1,83 @@
+// src/app/quotes/[token]/QuoteResponse.tsx
+"use client";
+
+import * as React from "react";
+import { useRouter } from "next/navigation";
+
+/**
+ * Accept / decline buttons for a sent quote. Accepting (or re-opening an accepted quote)
+ * moves the browser onto the quote's cart and goes to /cart.
+ */
+export default function QuoteResponse({ token, status }: { token: string; status: "sent" | "accepted" }) {
+  const router = useRouter();
+  const [mode, setMode] = React.useState<"idle" | "decline">("idle");
+  const [reason, setReason] = React.useState("");
+  const [busy, setBusy] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+
+  async function submit(decision: "accept" | "decline") {
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/quotes/view/${encodeURIComponent(token)}`, {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify(decision === "decline" && reason.trim() ? { decision, reason } : { decision }),
+        cache: "no-store",
+      });
+      const data = (await res.json().catch(() => null)) as { ok?: boolean; error?: string; redirectTo?: string | null } | null;
+      if (!res.ok || !data?.ok) throw new Error(data?.error || `Request failed (${res.status})`);
+      if (data.redirectTo) router.push(data.redirectTo);
+      else router.refresh();
+    } catch (e: any) {
+      setError(e?.message || "Something went wrong");
+      setBusy(false);
+    }
+  }
+
+  if (status === "accepted") {
+    return (
+      <div className="mt-4">
+        <button type="button" disabled={busy} onClick={() => submit("accept")} className="adap-btn adap-btn--primary">
+          Go to your cart
+        </button>
+        {error && <div className="mt-2 text-xs text-rose-700">{error}</div>}
+      </div>
+    );
+  }
+
+  return (
+    <div className="mt-4 space-y-2">
+      {mode === "decline" ? (
+        <div className="space-y-2">
+          <textarea
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            rows={3}
+            maxLength={2000}
+            placeholder="Anything we should know? (optional)"
+            className="w-full rounded-lg border border-gray-300 p-2 text-sm focus:border-indigo-500 focus:outline-none focus:ring-1 focus:ring-indigo-500"
+          />
+          <div className="flex gap-2">
+            <button type="button" disabled={busy} onClick={() => submit("decline")} className="adap-btn adap-btn--ghost">
+              Decline quote
+            </button>
+            <button type="button" disabled={busy} onClick={() => setMode("idle")} className="adap-btn adap-btn--ghost">
+              Back
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="flex flex-wrap gap-2">
+          <button type="button" disabled={busy} onClick={() => submit("accept")} className="adap-btn adap-btn--primary">
+            Accept and go to cart
+          </button>
+          <button type="button" disabled={busy} onClick={() => setMode("decline")} className="adap-btn adap-btn--ghost">
+            Decline
+          </button>
+        </div>
+      )}
+      {error && <div className="text-xs text-rose-700">{error}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,133 @@
+import "server-only";
+
+import type { Metadata } from "next";
+import Link from "next/link";
+
+import { ApiError } from "@/lib/apiError";
+import { getQuoteForCustomer, type CustomerQuote } from "@/lib/quotes";
+import QuoteResponse from "./QuoteResponse";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+const BRAND = "ADAP";
+
+export const metadata: Metadata = {
+  title: `Your quote | ${BRAND}`,
+  robots: { index: false, follow: false },
+};
+
+function money(cents: number, currency: string): string {
+  const c = String(currency || "USD").toUpperCase() === "CAD" ? "CAD" : "USD";
+  return new Intl.NumberFormat("en-US", { style: "currency", currency: c }).format(Number(cents || 0) / 100);
+}
+
+function formatDate(d: Date): string {
+  return d.toLocaleDateString("en-US", { dateStyle: "long" });
+}
+
+const STATUS_NOTE: Record<string, string> = {
+  accepted: "You accepted this quote.",
+  declined: "You declined this quote. Reply to the quote email if you’d like us to revise it.",
+  expired: "This quote has expired. Reply to the quote email and we’ll refresh it.",
+};
+
+function Unavailable({ message }: { message: string }) {
+  return (
+    <main className="adap-page">
+      <div className="adap-container">
+        <section className="adap-hero">
+          <div className="adap-kicker">Quote</div>
+          <h1 className="adap-title">Quote unavailable</h1>
+          <p className="adap-subtitle">{message}</p>
+          <div className="adap-actions">
+            <Link href="/support" className="adap-btn adap-btn--primary">
+              Contact Support
+            </Link>
+          </div>
+        </section>
+      </div>
+    </main>
+  );
+}
+
+/** Customer view of an emailed quote (/quotes/:token, token signed for "quote_view"). */
+export default async function QuoteViewPage({ params }: { params: Promise<{ token: string }> }) {
+  const { token } = await params;
+
+  let quote: CustomerQuote;
+  try {
+    quote = await getQuoteForCustomer(token);
+  } catch (e: unknown) {
+    if (e instanceof ApiError && e.status === 404) return <Unavailable message={e.message} />;
+    throw e;
+  }
+
+  return (
+    <main className="adap-page">
+      <div className="adap-container">
+        <section className="adap-hero">
+          <div className="adap-kicker">Quote {quote.quoteNumber}</div>
+          <h1 className="adap-title">{quote.customerName ? `Hi ${quote.customerName}, here’s your quote` : "Your quote"}</h1>
+          <p className="adap-subtitle">
+            {quote.status === "sent" ? `Valid until ${formatDate(quote.expiresAt)}.` : STATUS_NOTE[quote.status]}
+          </p>
+          {quote.message ? (
+            <div className="adap-softbox" style={{ marginTop: 14, whiteSpace: "pre-wrap" }}>
+              {quote.message}
+            </div>
+          ) : null}
+        </section>
+
+        <section className="adap-section adap-section--pad" style={{ marginTop: 18 }}>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b text-left text-gray-500">
+                <th className="py-2">Item</th>
+                <th className="py-2 text-right">Qty</th>
+                <th className="py-2 text-right">Unit</th>
+                <th className="py-2 text-right">Total</th>
+              </tr>
+            </thead>
+            <tbody>
+              {quote.lines.map((l, i) => (
+                <tr key={i} className="border-b align-top">
+                  <td className="py-2">{l.description}</td>
+                  <td className="py-2 text-right">{l.quantity.toLocaleString("en-US")}</td>
+                  <td className="py-2 text-right">{money(l.unitPriceCents, quote.currency)}</td>
+                  <td className="py-2 text-right">{money(l.lineTotalCents, quote.currency)}</td>
+                </tr>
+              ))}
+              {quote.shippingCents > 0 ? (
+                <tr className="border-b">
+                  <td className="py-2" colSpan={3}>
+                    Shipping{quote.shippingLabel ? ` — ${quote.shippingLabel}` : ""}
+                  </td>
+                  <td className="py-2 text-right">{money(quote.shippingCents, quote.currency)}</td>
+                </tr>
+              ) : null}
+            </tbody>
+            <tfoot>
+              <tr>
+                <td className="pt-3 font-semibold" colSpan={3}>
+                  Total (before tax)
+                </td>
+                <td className="pt-3 text-right font-semibold">{money(quote.totalCents, quote.currency)}</td>
+              </tr>
+            </tfoot>
+          </table>
+
+          <div className="mt-4">
+            <a href={`/api/quotes/view/${encodeURIComponent(token)}/pdf`} className="adap-btn adap-btn--ghost" download>
+              Download PDF
+            </a>
+          </div>
+
+          {quote.status === "sent" || quote.status === "accepted" ? (
+            <QuoteResponse token={token} status={quote.status} />
+          ) : null}
+        </section>
+      </div>
+    </main>
+  );
+}
@@ -6,6 +6,7 @@ import { useEffect, useMemo, useRef, useState, useCallback } from "react";
 
 import Image from "@/components/ImageSafe";
 import { getHeroSlides } from "@/lib/heroSlides";
+import type { HeroSlide } from "@/lib/heroSlides.types";
 import { trackHeroImpression, trackHeroClick } from "@/lib/heroAnalytics";
 import { cloudflareImagesLoader } from "@/lib/cfImages";
 
@@ -31,19 +32,20 @@ type SlideWithExtras = LocalHeroSlide & {
   badge?: string;
   focal?: string; // "50% 50%"
   ctaText?: string;
+  variant?: string;
 };
 
-function safeTrackImpression(id: string | number, ctaText?: string) {
+function safeTrackImpression(id: string | number, variant?: string) {
   try {
-    (trackHeroImpression as unknown as (id: string | number, ctaText?: string) => void)(id, ctaText);
+    trackHeroImpression(String(id), variant);
   } catch {
     // noop
   }
 }
 
-function safeTrackClick(id: string | number, ctaText?: string) {
+function safeTrackClick(id: string | number, ctaText?: string, variant?: string) {
   try {
-    (trackHeroClick as unknown as (id: string | number, ctaText?: string) => void)(id, ctaText);
+    trackHeroClick(String(id), String(ctaText ?? ""), variant);
   } catch {
     // noop
   }
@@ -76,11 +78,15 @@ type DragState = {
   moved: boolean;
 };
 
-export default function Hero() {
+/**
+ * `slides` is the active set resolved on the server (getActiveHeroSlides); without it the
+ * built-in slides are shown.
+ */
+export default function Hero({ slides: initialSlides }: { slides?: HeroSlide[] } = {}) {
   const slides = useMemo<SlideWithExtras[]>(() => {
-    const raw = (getHeroSlides?.() ?? []) as SlideWithExtras[];
+    const raw = (initialSlides ?? getHeroSlides?.() ?? []) as SlideWithExtras[];
     return Array.isArray(raw) ? raw.filter(Boolean) : [];
-  }, []);
+  }, [initialSlides]);
 
   const [index, setIndex] = useState(0);
   const timerRef = useRef<number | null>(null);
@@ -132,7 +138,7 @@ export default function Hero() {
   useEffect(() => {
     const s = slides[index];
     if (!s) return;
-    safeTrackImpression(s.id, (s as any).ctaText);
+    safeTrackImpression(s.id, s.variant);
   }, [index, slides]);
 
   const goTo = useCallback(
@@ -358,7 +364,7 @@ export default function Hero() {
                     <div className="hero__ctaRow">
                       <Link
                         href={s.ctaHref}
-                        onClick={() => safeTrackClick(s.id, (s as any).ctaText)}
+                        onClick={() => safeTrackClick(s.id, (s as any).ctaText, s.variant)}
                         className="hero__cta"
                       >
                         {String((s as any).ctaText)}
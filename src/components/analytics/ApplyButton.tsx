@@ -1,7 +1,7 @@
 "use client";
 
 import React from "react";
-import { trackCareerEvent } from "@/lib/analyticsClient";
+import { track } from "@/lib/analyticsClient";
 
 type Props = {
   jobSlug: string;
@@ -50,7 +50,7 @@ export default function ApplyButton({
 
   const onClick: React.MouseEventHandler<HTMLAnchorElement> = () => {
     try {
-      trackCareerEvent("apply_click", {
+      track("career_apply_click", {
         jobSlug,
         jobTitle,
         location,
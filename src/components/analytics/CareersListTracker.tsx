@@ -2,7 +2,7 @@
 
 import { useEffect, useRef } from "react";
 import { usePathname, useSearchParams } from "next/navigation";
-import { trackCareerEvent } from "@/lib/analyticsClient";
+import { track } from "@/lib/analyticsClient";
 
 type Props = {
   /**
@@ -11,18 +11,9 @@ type Props = {
    * If omitted, it will fire on every route where this component is mounted.
    */
   pathnameMustBe?: string;
-
-  /**
-   * Optional: event name override
-   * Default: "list_view"
-   */
-  eventName?: string;
 };
 
-export default function CareersListTracker({
-  pathnameMustBe,
-  eventName = "list_view",
-}: Props) {
+export default function CareersListTracker({ pathnameMustBe }: Props) {
   const pathname = usePathname();
   const searchParams = useSearchParams();
 
@@ -44,15 +35,11 @@ export default function CareersListTracker({
     lastTrackedKeyRef.current = viewKey;
 
     try {
-      trackCareerEvent(eventName, {
-        pathname,
-        query: query || undefined,
-        viewKey,
-      });
+      track("career_list_view", { query: query || undefined });
     } catch {
       // Never block rendering/navigation if analytics fails
     }
-  }, [pathname, query, viewKey, pathnameMustBe, eventName]);
+  }, [pathname, query, viewKey, pathnameMustBe]);
 
   return null;
 }
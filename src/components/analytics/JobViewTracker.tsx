@@ -1,7 +1,7 @@
 "use client";
 
 import { useEffect, useMemo, useRef } from "react";
-import { trackCareerEvent } from "@/lib/analyticsClient";
+import { track } from "@/lib/analyticsClient";
 
 type Props = {
   jobSlug: string;
@@ -43,7 +43,7 @@ export default function JobViewTracker({
     lastTrackedSlugRef.current = payload.jobSlug;
 
     try {
-      trackCareerEvent("job_view", payload);
+      track("career_job_view", payload);
     } catch {
       // Never block rendering/navigation if analytics fails
     }
@@ -5,6 +5,9 @@ import type React from "react";
 import { useCallback, useMemo, useRef, useState } from "react";
 import Link from "next/link";
 import Image from "@/components/ImageSafe";
+import PreflightChecklist from "@/components/artwork/PreflightChecklist";
+import type { PreflightReport } from "@/lib/artwork/preflight";
+import { MULTIPART_THRESHOLD, uploadToR2Multipart } from "@/lib/artwork/uploadArtwork";
 
 export type ArtworkFile = {
   type: "front" | "back" | "other";
@@ -18,9 +21,11 @@ export type ArtworkFile = {
 type UploadResult = {
   ok: boolean;
   error?: string;
+  message?: string; // human-readable limit violation (size / type)
   uploadUrl?: string;
   publicUrl?: string; // Cloudflare R2 public (CDN) URL
   key?: string;
+  receipt?: string; // signed key/size, checked when the file is attached
 };
 
 function xhrUploadWithProgress(
@@ -86,7 +91,7 @@ export default function ArtworkUpload({
   onUploaded,
   label = "Choose File",
   side = 1,
-  accept = ".pdf,.ai,.eps,.png,.jpg,.jpeg,.tif,.tiff",
+  accept = ".pdf,.ai,.eps,.png,.jpg,.jpeg,.tif,.tiff,.svg",
   className = "",
   continueHref = "/cart/review",
   continueLabel = "Continue to Checkout",
@@ -114,6 +119,9 @@ export default function ArtworkUpload({
   const [progress, setProgress] = useState<number>(0);
   const [preview, setPreview] = useState<ArtworkFile | null>(null);
   const [over, setOver] = useState(false);
+  const [preflight, setPreflight] = useState<PreflightReport | null>(null);
+  const [checking, setChecking] = useState(false);
+  const [resumed, setResumed] = useState(false);
 
   // toggle once the server save succeeds
   const [canContinue, setCanContinue] = useState(false);
@@ -138,6 +146,8 @@ export default function ArtworkUpload({
       setBusy(true);
       setProgress(0);
       setCanContinue(false);
+      setPreflight(null);
+      setResumed(false);
 
       // Cancel any in-flight upload
       abortRef.current?.abort();
@@ -145,47 +155,79 @@ export default function ArtworkUpload({
       abortRef.current = ac;
 
       try {
-        // 1) Presign to R2 (Cloudflare) — we’ll get PUT URL + public CDN URL
-        const presignRes = await fetch("/api/uploads/r2", {
-          method: "POST",
-          headers: { "content-type": "application/json" },
-          body: JSON.stringify({
-            filename: file.name,
-            contentType: file.type || "application/octet-stream",
-            cartId,
-            lineId,
-          }),
-        });
-
-        const presign = (await safeJson<UploadResult>(presignRes)) ?? null;
-
-        if (!presignRes.ok || !presign?.ok || !presign.uploadUrl || !presign.publicUrl || !presign.key) {
-          throw new Error(presign?.error || `Failed to presign (${presignRes.status})`);
+        const contentType = file.type || "application/octet-stream";
+        let uploaded: { key: string; publicUrl: string; receipt: string | null };
+
+        if (file.size >= MULTIPART_THRESHOLD) {
+          // 1+2) Large files: multipart straight to R2 (per-part retry, resumes after a reload)
+          const mp = await uploadToR2Multipart({
+            file,
+            extraBody: { cartId, lineId },
+            signal: ac.signal,
+            onProgress: (p) => {
+              setProgress(Math.max(1, Math.min(99, Math.round((p.loaded / p.total) * 100))));
+              setResumed(p.resumed);
+            },
+          });
+          if (!mp.ok) {
+            if (mp.aborted) throw new DOMException("Aborted", "AbortError");
+            throw new Error(mp.error);
+          }
+          if (!mp.publicUrl) throw new Error("Upload finished but no public URL is configured");
+          setProgress(100);
+          uploaded = { key: mp.key, publicUrl: mp.publicUrl, receipt: mp.receipt };
+        } else {
+          // 1) Presign to R2 (Cloudflare) — we’ll get PUT URL + public CDN URL
+          const presignRes = await fetch("/api/uploads/r2", {
+            method: "POST",
+            headers: { "content-type": "application/json" },
+            body: JSON.stringify({
+              filename: file.name,
+              contentType,
+              size: file.size,
+              cartId,
+              lineId,
+            }),
+          });
+
+          const presign = (await safeJson<UploadResult>(presignRes)) ?? null;
+
+          if (!presignRes.ok || !presign?.ok || !presign.uploadUrl || !presign.publicUrl || !presign.key) {
+            throw new Error(presign?.message || presign?.error || `Failed to presign (${presignRes.status})`);
+          }
+
+          // 2) PUT directly to R2 with progress (no server hop)
+          const put = await xhrUploadWithProgress(presign.uploadUrl, file, (pct) => setProgress(pct), ac.signal);
+          if (!put.ok) throw new Error(`Upload failed: ${put.status}`);
+
+          uploaded = { key: presign.key, publicUrl: presign.publicUrl, receipt: presign.receipt ?? null };
         }
 
-        // 2) PUT directly to R2 with progress (no server hop)
-        const put = await xhrUploadWithProgress(presign.uploadUrl, file, (pct) => setProgress(pct), ac.signal);
-        if (!put.ok) throw new Error(`Upload failed: ${put.status}`);
-
         const isImage = (file.type || "").startsWith("image/");
 
-        // 3) Persist URL to the cart line (store external URL for Sinalite workflow)
+        // 3) Persist URL to the cart line (store external URL for Sinalite workflow); the server
+        //    verifies the stored file (size, type, scan) and refuses to attach a bad one
         const saveRes = await fetch(`/api/cart/lines/${lineId}/artwork`, {
           method: "POST",
           headers: { "content-type": "application/json" },
-          body: JSON.stringify({ side, url: presign.publicUrl }),
+          body: JSON.stringify({ side, url: uploaded.publicUrl, receipt: uploaded.receipt, contentType }),
           cache: "no-store",
           signal: ac.signal,
         });
 
-        const save = (await safeJson<{ ok?: boolean; error?: string }>(saveRes)) ?? null;
-        if (!saveRes.ok || !save?.ok) throw new Error(save?.error || `Failed to save artwork (${saveRes.status})`);
+        const save =
+          (await safeJson<{ ok?: boolean; error?: string; message?: string; attachment?: { id?: string | null } }>(
+            saveRes,
+          )) ?? null;
+        if (!saveRes.ok || !save?.ok) {
+          throw new Error(save?.message || save?.error || `Failed to save artwork (${saveRes.status})`);
+        }
 
         // 4) Local preview + notify
         const fileRec: ArtworkFile = {
           type: sideType,
-          url: presign.publicUrl, // served via Cloudflare R2/CDN
-          key: presign.key,
+          url: uploaded.publicUrl, // served via Cloudflare R2/CDN
+          key: uploaded.key,
           name: file.name,
           isImage,
           side,
@@ -197,6 +239,27 @@ export default function ArtworkUpload({
         // 5) Enable continue button
         if (isImage || showContinueEvenIfNotImage) setCanContinue(true);
         else setCanContinue(false);
+
+        // 6) Preflight (size, bleed, DPI, color, fonts, pages); informational, never blocks checkout
+        const attachmentId = save.attachment?.id;
+        if (attachmentId) {
+          setChecking(true);
+          try {
+            const pfRes = await fetch(`/api/cart/lines/${lineId}/artwork/preflight`, {
+              method: "POST",
+              headers: { "content-type": "application/json" },
+              body: JSON.stringify({ attachmentId }),
+              cache: "no-store",
+              signal: ac.signal,
+            });
+            const pf = await safeJson<{ ok?: boolean; results?: { preflight: PreflightReport }[] }>(pfRes);
+            setPreflight(pfRes.ok && pf?.ok ? (pf.results?.[0]?.preflight ?? null) : null);
+          } catch (err: any) {
+            if (err?.name === "AbortError") throw err;
+          } finally {
+            setChecking(false);
+          }
+        }
       } catch (err: any) {
         if (err?.name === "AbortError") return;
         setError(err?.message ?? "Upload error");
@@ -230,6 +293,7 @@ export default function ArtworkUpload({
       body: JSON.stringify({ side, key: preview?.key }),
     }).catch(() => {});
     setPreview(null);
+    setPreflight(null);
     onUploaded?.(null);
     setCanContinue(false);
   }
@@ -314,10 +378,12 @@ export default function ArtworkUpload({
           aria-label={label}
         >
           <div className="p-4 text-center">
-            <div className="font-bold text-slate-900">{busy ? "Uploading…" : label}</div>
+            <div className="font-bold text-slate-900">
+              {busy ? (resumed ? `Resuming upload… ${progress}%` : "Uploading…") : label}
+            </div>
             <div className="mt-1 text-sm text-slate-600">Drag &amp; drop files or click to browse</div>
             <div className="mt-0.5 text-xs text-slate-500">
-              PDF, AI, EPS, PNG, JPG, TIFF • Served via Cloudflare R2/CDN
+              PDF, AI, EPS, PNG, JPG, TIFF, SVG • Served via Cloudflare R2/CDN
             </div>
           </div>
 
@@ -329,6 +395,9 @@ export default function ArtworkUpload({
         </div>
       )}
 
+      {/* Preflight */}
+      {preview && <PreflightChecklist report={preflight} checking={checking} className="mt-3" />}
+
       {/* Error */}
       {error && (
         <div className="mt-2 rounded-lg border border-rose-200 bg-rose-50 px-3 py-2 text-sm text-rose-800">
@@ -345,7 +414,7 @@ export default function ArtworkUpload({
         >
           Setup guides &amp; templates →
         </Link>
-        <span className="text-xs text-slate-500">Accepted: PDF, AI, EPS, PNG, JPG, TIFF • Cloudflare R2/CDN</span>
+        <span className="text-xs text-slate-500">Accepted: PDF, AI, EPS, PNG, JPG, TIFF, SVG • Cloudflare R2/CDN</span>
       </div>
 
       {/* Continue CTA (appears once saved) */}
@@ -0,0 +1,70 @@
+// src/components/artwork/PreflightChecklist.tsx
+"use client";
+
+import type { PreflightCheck, PreflightReport, PreflightStatus } from "@/lib/artwork/preflight";
+
+const CHECK_LABELS: Record<PreflightCheck["id"], string> = {
+  format: "File",
+  page_size: "Size",
+  bleed: "Bleed",
+  resolution: "Resolution",
+  color_space: "Color",
+  fonts: "Fonts",
+  page_count: "Pages",
+};
+
+const STATUS_STYLES: Record<PreflightStatus, { label: string; className: string }> = {
+  pass: { label: "Pass", className: "border-emerald-200 bg-emerald-50 text-emerald-800" },
+  warn: { label: "Warning", className: "border-amber-200 bg-amber-50 text-amber-800" },
+  fail: { label: "Fail", className: "border-rose-200 bg-rose-50 text-rose-800" },
+  skip: { label: "Not checked", className: "border-slate-200 bg-slate-50 text-slate-600" },
+};
+
+export function PreflightBadge({ status }: { status: PreflightStatus }) {
+  const s = STATUS_STYLES[status];
+  return (
+    <span className={`inline-flex shrink-0 items-center rounded-full border px-2 py-0.5 text-xs font-semibold ${s.className}`}>
+      {s.label}
+    </span>
+  );
+}
+
+export default function PreflightChecklist({
+  report,
+  checking = false,
+  className = "",
+}: {
+  report: PreflightReport | null;
+  checking?: boolean;
+  className?: string;
+}) {
+  if (checking) {
+    return <div className={`text-sm text-slate-600 ${className}`}>Checking your file…</div>;
+  }
+  if (!report) return null;
+
+  return (
+    <div className={`rounded-lg border border-slate-200 bg-white p-3 ${className}`}>
+      <div className="mb-2 flex items-center justify-between gap-2">
+        <div className="text-sm font-semibold text-slate-900">File check</div>
+        <PreflightBadge status={report.status} />
+      </div>
+      <ul className="space-y-1.5">
+        {report.checks.map((c) => (
+          <li key={c.id} className="flex items-start gap-2 text-sm">
+            <PreflightBadge status={c.status} />
+            <span className="text-slate-700">
+              <span className="font-semibold text-slate-900">{CHECK_LABELS[c.id]}:</span> {c.message}
+            </span>
+          </li>
+        ))}
+      </ul>
+      {report.status === "fail" && (
+        <p className="mt-2 text-xs text-slate-600">
+          We can still print this file, but the result may not match what you expect. Replace it, or continue and our
+          prepress team will contact you.
+        </p>
+      )}
+    </div>
+  );
+}
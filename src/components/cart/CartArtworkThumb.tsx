@@ -3,6 +3,7 @@
 import Image from "@/components/ImageSafe";
 import { cfImage } from "@/lib/cfImages";
 import { r2PublicUrl } from "@/lib/artwork/r2Public";
+import type { PreflightReport } from "@/lib/artwork/preflight";
 
 type Props = {
   /** R2 public (absolute URL or key) */
@@ -13,17 +14,39 @@ type Props = {
 
   alt?: string;
   className?: string;
+
+  /** Overall preflight result; shown as a corner badge when present */
+  preflightStatus?: PreflightReport["status"] | null;
+};
+
+const PREFLIGHT_LABELS: Record<PreflightReport["status"], string> = {
+  pass: "File check passed",
+  warn: "File check has warnings",
+  fail: "File check found problems",
 };
 
 function cx(base: string, extra?: string) {
   return extra && extra.trim() ? `${base} ${extra.trim()}` : base;
 }
 
+function PreflightDot({ status }: { status?: PreflightReport["status"] | null }) {
+  if (!status) return null;
+  return (
+    <span
+      className={`cart-artwork-preflight cart-artwork-preflight--${status}`}
+      role="img"
+      aria-label={PREFLIGHT_LABELS[status]}
+      title={PREFLIGHT_LABELS[status]}
+    />
+  );
+}
+
 export default function CartArtworkThumb({
   url,
   cfImageId,
   alt = "Artwork",
   className,
+  preflightStatus,
 }: Props) {
   // Prefer Cloudflare Images if you stored an imageId
   if (cfImageId) {
@@ -39,6 +62,7 @@ export default function CartArtworkThumb({
             className="cart-artwork-img"
             draggable={false}
           />
+          <PreflightDot status={preflightStatus} />
         </div>
       );
     }
@@ -56,6 +80,7 @@ export default function CartArtworkThumb({
           className="cart-artwork-img"
           draggable={false}
         />
+        <PreflightDot status={preflightStatus} />
       </div>
     );
   }
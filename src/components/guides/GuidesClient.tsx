@@ -3,6 +3,7 @@
 
 import * as React from "react";
 import type { DirNode, FileNode } from "@/app/guides/page";
+import { track } from "@/lib/analyticsClient";
 
 function formatBytes(n: number) {
   const x = Number(n);
@@ -17,41 +18,17 @@ function safeText(v: unknown) {
   return String(v ?? "").trim();
 }
 
-function postGuideDownload(payload: Record<string, unknown>) {
-  try {
-    const body = JSON.stringify(payload);
-
-    // Prefer sendBeacon for "fire-and-forget" reliability
-    if (typeof navigator !== "undefined" && typeof navigator.sendBeacon === "function") {
-      const blob = new Blob([body], { type: "application/json" });
-      const ok = navigator.sendBeacon("/api/analytics/guide-download", blob);
-      if (ok) return;
-    }
-
-    // Fallback to fetch
-    fetch("/api/analytics/guide-download", {
-      method: "POST",
-      headers: { "content-type": "application/json" },
-      body,
-      keepalive: true,
-    }).catch(() => {});
-  } catch {
-    // ignore analytics errors
-  }
-}
-
 function TrackedPdfLink({ file, categoryPath }: { file: FileNode; categoryPath: string }) {
   const href = safeText(file?.href);
 
   const onClick = React.useCallback(() => {
     if (!href) return;
 
-    postGuideDownload({
+    track("guide_download", {
       href,
       label: safeText(file?.label),
-      sizeBytes: Number(file?.sizeBytes) || 0,
+      sizeBytes: Math.max(0, Math.floor(Number(file?.sizeBytes) || 0)),
       categoryPath: safeText(categoryPath),
-      ts: Date.now(),
     });
   }, [href, file, categoryPath]);
 
@@ -4,6 +4,8 @@
 import { useCallback, useEffect, useMemo, useState } from "react";
 import { useRouter } from "next/navigation";
 
+import { track } from "@/lib/analyticsClient";
+
 /** Option+Group shape coming from the PDP */
 type Option = { id: number; name: string };
 type Group = { name: string; options: Option[] };
@@ -101,6 +103,20 @@ export default function ProductBuyBox({
     setChoices((prev) => ({ ...prev, [name]: value }));
   }, []);
 
+  useEffect(() => {
+    if (productId > 0) track("product_view", { productId, store });
+  }, [productId, store]);
+
+  // User picks only (not the defaults filled in below) count as configuring
+  const choose = useCallback(
+    (name: string, value: string) => {
+      set(name, value);
+      const optionId = safeInt(value, -1);
+      if (productId > 0 && optionId >= 0) track("product_configure", { productId, group: name, optionId });
+    },
+    [set, productId],
+  );
+
   // Initialize defaults (first option in each group) once the groups arrive.
   useEffect(() => {
     setChoices((prev) => {
@@ -248,7 +264,7 @@ export default function ProductBuyBox({
           <select
             className="w-full rounded-lg border border-gray-300"
             value={get(g.name)}
-            onChange={(e) => set(g.name, e.currentTarget.value)}
+            onChange={(e) => choose(g.name, e.currentTarget.value)}
           >
             {g.options.map((o) => (
               <option key={o.id} value={String(o.id)}>
@@ -0,0 +1,214 @@
+import React from "react";
+import { Html, Head, Preview, Body, Container, Section, Text, Button, Hr, Img } from "@react-email/components";
+
+export interface AbandonedCartEmailItem {
+  name: string;
+  quantity: number;
+  /** Line total, formatted */
+  lineTotal: string;
+  imageUrl?: string | null;
+}
+
+interface AbandonedCartEmailProps {
+  name: string;
+  items: AbandonedCartEmailItem[];
+  subtotal: string;
+
+  resumeUrl: string;
+  unsubscribeUrl: string;
+
+  supportEmail?: string;
+  supportUrl?: string;
+
+  brandName?: string;
+  brandTagline?: string;
+  logoUrl?: string;
+}
+
+const styles = {
+  body: {
+    backgroundColor: "#f6f7fb",
+    color: "#0f172a",
+    fontFamily:
+      'ui-sans-serif, system-ui, -apple-system, "Segoe UI", Roboto, Helvetica, Arial, "Apple Color Emoji","Segoe UI Emoji"',
+    margin: 0,
+    padding: "24px 12px",
+  } as React.CSSProperties,
+
+  container: {
+    maxWidth: 600,
+    margin: "0 auto",
+    backgroundColor: "#ffffff",
+    borderRadius: 14,
+    overflow: "hidden",
+    border: "1px solid #e5e7eb",
+  } as React.CSSProperties,
+
+  header: {
+    padding: "18px 20px",
+    background: "linear-gradient(135deg, rgba(0,71,171,1) 0%, rgba(0,37,112,1) 100%)",
+  } as React.CSSProperties,
+
+  logo: {
+    width: 44,
+    height: 44,
+    borderRadius: 10,
+    backgroundColor: "#ffffff",
+    objectFit: "contain",
+    display: "block",
+  } as React.CSSProperties,
+
+  brandName: { fontSize: 16, fontWeight: 800, color: "#ffffff", margin: 0 } as React.CSSProperties,
+  brandTagline: { fontSize: 12, color: "rgba(255,255,255,0.85)", margin: "2px 0 0 0" } as React.CSSProperties,
+
+  content: { padding: "18px 20px 20px" } as React.CSSProperties,
+
+  h1: { fontSize: 22, lineHeight: 1.25, fontWeight: 800, margin: "0 0 8px 0" } as React.CSSProperties,
+  p: { fontSize: 14, lineHeight: 1.6, margin: "0 0 10px 0", color: "#334155" } as React.CSSProperties,
+
+  card: {
+    borderRadius: 12,
+    border: "1px solid #e5e7eb",
+    backgroundColor: "#f8fafc",
+    padding: "12px 14px",
+    margin: "14px 0 16px",
+  } as React.CSSProperties,
+
+  table: { width: "100%", borderCollapse: "collapse" } as React.CSSProperties,
+  tdLeft: { padding: "7px 0", fontSize: 13, color: "#334155" } as React.CSSProperties,
+  tdRight: {
+    padding: "7px 0",
+    fontSize: 13,
+    color: "#0f172a",
+    textAlign: "right",
+    fontWeight: 700,
+    whiteSpace: "nowrap",
+  } as React.CSSProperties,
+
+  primaryBtn: {
+    backgroundColor: "#0047ab",
+    color: "#ffffff",
+    padding: "12px 16px",
+    borderRadius: 10,
+    textDecoration: "none",
+    fontWeight: 800,
+    fontSize: 14,
+    display: "inline-block",
+  } as React.CSSProperties,
+
+  footer: { padding: "14px 20px 18px", backgroundColor: "#0b1220" } as React.CSSProperties,
+  footerText: { margin: 0, fontSize: 12, lineHeight: 1.6, color: "rgba(255,255,255,0.78)" } as React.CSSProperties,
+  footerLink: { color: "#93c5fd", textDecoration: "underline", fontWeight: 700 } as React.CSSProperties,
+
+  hr: { borderColor: "#e5e7eb", margin: "14px 0" } as React.CSSProperties,
+
+  itemImg: { width: 56, height: 56, borderRadius: 8, objectFit: "cover", display: "block" } as React.CSSProperties,
+  itemName: { fontSize: 14, fontWeight: 700, color: "#0f172a", margin: 0 } as React.CSSProperties,
+  itemMeta: { fontSize: 12, color: "#64748b", margin: "2px 0 0 0" } as React.CSSProperties,
+  unsubscribe: { margin: "8px 0 0 0", fontSize: 11, color: "rgba(255,255,255,0.6)" } as React.CSSProperties,
+};
+
+export default function AbandonedCartEmail(props: AbandonedCartEmailProps) {
+  const {
+    name,
+    items,
+    subtotal,
+    resumeUrl,
+    unsubscribeUrl,
+    supportEmail,
+    supportUrl,
+    brandName = "ADAP",
+    brandTagline = "Custom Print Experts",
+    logoUrl,
+  } = props;
+
+  const count = items.reduce((n, i) => n + Math.max(1, i.quantity), 0);
+  const previewText = `Your cart is saved — ${count} item${count === 1 ? "" : "s"} • ${subtotal}`;
+
+  return (
+    <Html>
+      <Head />
+      <Preview>{previewText}</Preview>
+
+      <Body style={styles.body}>
+        <Container style={styles.container}>
+          <Section style={styles.header}>
+            {logoUrl ? <Img src={logoUrl} alt={brandName} width="44" height="44" style={styles.logo} /> : null}
+            <Text style={styles.brandName}>{brandName}</Text>
+            <Text style={styles.brandTagline}>{brandTagline}</Text>
+          </Section>
+
+          <Section style={styles.content}>
+            <Text style={styles.h1}>Hi {name}, you left something behind</Text>
+            <Text style={styles.p}>
+              Your cart is saved and ready when you are. Pick up right where you left off — your options and pricing
+              are still there.
+            </Text>
+
+            <div style={styles.card}>
+              <table style={styles.table}>
+                <tbody>
+                  {items.map((item, idx) => (
+                    <tr key={idx}>
+                      <td style={{ ...styles.tdLeft, width: 68 }}>
+                        {item.imageUrl ? (
+                          <Img src={item.imageUrl} alt={item.name} width="56" height="56" style={styles.itemImg} />
+                        ) : null}
+                      </td>
+                      <td style={styles.tdLeft}>
+                        <Text style={styles.itemName}>{item.name}</Text>
+                        <Text style={styles.itemMeta}>Qty {item.quantity.toLocaleString("en-US")}</Text>
+                      </td>
+                      <td style={styles.tdRight}>{item.lineTotal}</td>
+                    </tr>
+                  ))}
+                  <tr>
+                    <td style={styles.tdLeft} />
+                    <td style={styles.tdLeft}>Subtotal</td>
+                    <td style={styles.tdRight}>{subtotal}</td>
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+
+            <Button href={resumeUrl} style={styles.primaryBtn}>
+              Resume checkout
+            </Button>
+
+            <Hr style={styles.hr} />
+            <Text style={{ ...styles.p, marginBottom: 0 }}>
+              Questions about sizes, paper or turnaround? Just reply to this email.
+            </Text>
+          </Section>
+
+          <Section style={styles.footer}>
+            {supportEmail || supportUrl ? (
+              <Text style={styles.footerText}>
+                Need help?{" "}
+                {supportEmail ? (
+                  <a style={styles.footerLink} href={`mailto:${supportEmail}`}>
+                    {supportEmail}
+                  </a>
+                ) : null}
+                {supportEmail && supportUrl ? " • " : ""}
+                {supportUrl ? (
+                  <a style={styles.footerLink} href={supportUrl}>
+                    Support Center
+                  </a>
+                ) : null}
+              </Text>
+            ) : (
+              <Text style={styles.footerText}>This is an automated email from {brandName}.</Text>
+            )}
+            <Text style={styles.unsubscribe}>
+              You’re receiving this because you opted in to emails from {brandName}.{" "}
+              <a style={styles.footerLink} href={unsubscribeUrl}>
+                Unsubscribe
+              </a>
+            </Text>
+          </Section>
+        </Container>
+      </Body>
+    </Html>
+  );
+}
@@ -11,11 +11,22 @@ import {
   Img,
 } from "@react-email/components";
 
+export interface ArtworkNeededLineItem {
+  name: string;
+  quantity?: number;
+  uploadUrl: string;
+}
+
 interface ArtworkNeededEmailProps {
   name: string;
   orderId: string | number;
   uploadUrl: string;
 
+  /** Lines still missing artwork, each with its own upload link */
+  lines?: ArtworkNeededLineItem[];
+  /** Days since the order was placed (1 = first notice, later = reminder) */
+  reminderDay?: number;
+
   brandName?: string;
   brandTagline?: string;
   logoUrl?: string;
@@ -69,6 +80,20 @@ const styles = {
     display: "inline-block",
     marginTop: 16,
   },
+  lineRow: {
+    borderTop: "1px solid #e5e7eb",
+    padding: "10px 0",
+  },
+  lineName: {
+    margin: 0,
+    fontWeight: 600,
+  },
+  lineLink: {
+    color: "#0047ab",
+    fontWeight: 700,
+    textDecoration: "none",
+    fontSize: 14,
+  },
   note: {
     marginTop: 16,
     fontSize: 14,
@@ -80,6 +105,8 @@ export default function ArtworkNeededEmail({
   name,
   orderId,
   uploadUrl,
+  lines = [],
+  reminderDay,
   brandName = "ADAP",
   brandTagline = "Custom Print Experts",
   logoUrl,
@@ -87,11 +114,14 @@ export default function ArtworkNeededEmail({
   supportPhone,
 }: ArtworkNeededEmailProps) {
   const orderIdStr = String(orderId);
+  const isReminder = (reminderDay ?? 1) > 1;
 
   return (
     <Html>
       <Head />
-      <Preview>Artwork needed for order #{orderIdStr}</Preview>
+      <Preview>
+        {isReminder ? "Reminder: artwork" : "Artwork"} needed for order #{orderIdStr}
+      </Preview>
 
       <Body style={styles.body}>
         <Container style={styles.container}>
@@ -109,16 +139,33 @@ export default function ArtworkNeededEmail({
             </Text>
 
             <Text>
-              Your order <strong>#{orderIdStr}</strong> is waiting for artwork
-              before production can begin.
+              {isReminder ? "A quick reminder: your" : "Your"} order{" "}
+              <strong>#{orderIdStr}</strong> is waiting for artwork before
+              production can begin.
             </Text>
 
             <Text>
               Upload your files now so we can start printing right away.
             </Text>
 
+            {lines.length > 0 ? (
+              <Section>
+                {lines.map((line, i) => (
+                  <div key={i} style={styles.lineRow}>
+                    <Text style={styles.lineName}>
+                      {line.name}
+                      {line.quantity ? ` × ${line.quantity}` : ""}
+                    </Text>
+                    <a href={line.uploadUrl} style={styles.lineLink}>
+                      Upload artwork →
+                    </a>
+                  </div>
+                ))}
+              </Section>
+            ) : null}
+
             <Button href={uploadUrl} style={styles.button}>
-              Upload Artwork
+              {lines.length > 0 ? "View Order" : "Upload Artwork"}
             </Button>
 
             <Text style={styles.note}>
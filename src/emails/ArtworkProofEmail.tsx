@@ -0,0 +1,218 @@
+import React from "react";
+import { Html, Head, Preview, Body, Container, Section, Text, Button, Hr, Img } from "@react-email/components";
+
+export type ArtworkProofEmailKind = "approved" | "rejected" | "proof_sent" | "changes_requested";
+
+interface ArtworkProofEmailProps {
+  kind: ArtworkProofEmailKind;
+  name: string;
+  orderId: string | number;
+  fileName: string;
+  /** Proof round number */
+  version: number;
+
+  /** Staff reason (rejected), message (proof_sent) or the customer's own comment (changes_requested) */
+  message?: string | null;
+  proofUrl?: string | null;
+  orderUrl?: string;
+
+  supportEmail?: string;
+  supportUrl?: string;
+
+  brandName?: string;
+  brandTagline?: string;
+  logoUrl?: string;
+}
+
+const styles = {
+  body: {
+    backgroundColor: "#f6f7fb",
+    color: "#0f172a",
+    fontFamily:
+      'ui-sans-serif, system-ui, -apple-system, "Segoe UI", Roboto, Helvetica, Arial, "Apple Color Emoji","Segoe UI Emoji"',
+    margin: 0,
+    padding: "24px 12px",
+  } as React.CSSProperties,
+
+  container: {
+    maxWidth: 600,
+    margin: "0 auto",
+    backgroundColor: "#ffffff",
+    borderRadius: 14,
+    overflow: "hidden",
+    border: "1px solid #e5e7eb",
+  } as React.CSSProperties,
+
+  header: {
+    padding: "18px 20px",
+    background: "linear-gradient(135deg, rgba(0,71,171,1) 0%, rgba(0,37,112,1) 100%)",
+  } as React.CSSProperties,
+
+  logo: {
+    width: 44,
+    height: 44,
+    borderRadius: 10,
+    backgroundColor: "#ffffff",
+    objectFit: "contain",
+    display: "block",
+  } as React.CSSProperties,
+
+  brandName: { fontSize: 16, fontWeight: 800, color: "#ffffff", margin: 0 } as React.CSSProperties,
+  brandTagline: { fontSize: 12, color: "rgba(255,255,255,0.85)", margin: "2px 0 0 0" } as React.CSSProperties,
+
+  content: { padding: "18px 20px 20px" } as React.CSSProperties,
+
+  h1: { fontSize: 22, lineHeight: 1.25, fontWeight: 800, margin: "0 0 8px 0" } as React.CSSProperties,
+  p: { fontSize: 14, lineHeight: 1.6, margin: "0 0 10px 0", color: "#334155" } as React.CSSProperties,
+
+  card: {
+    borderRadius: 12,
+    border: "1px solid #e5e7eb",
+    backgroundColor: "#f8fafc",
+    padding: "12px 14px",
+    margin: "14px 0 16px",
+  } as React.CSSProperties,
+
+  label: { fontSize: 12, fontWeight: 700, color: "#64748b", margin: "0 0 4px 0" } as React.CSSProperties,
+  quote: { fontSize: 14, lineHeight: 1.6, margin: 0, color: "#0f172a", whiteSpace: "pre-wrap" } as React.CSSProperties,
+
+  primaryBtn: {
+    backgroundColor: "#0047ab",
+    color: "#ffffff",
+    padding: "12px 16px",
+    borderRadius: 10,
+    textDecoration: "none",
+    fontWeight: 800,
+    fontSize: 14,
+    display: "inline-block",
+  } as React.CSSProperties,
+
+  footer: { padding: "14px 20px 18px", backgroundColor: "#0b1220" } as React.CSSProperties,
+  footerText: { margin: 0, fontSize: 12, lineHeight: 1.6, color: "rgba(255,255,255,0.78)" } as React.CSSProperties,
+  footerLink: { color: "#93c5fd", textDecoration: "underline", fontWeight: 700 } as React.CSSProperties,
+
+  hr: { borderColor: "#e5e7eb", margin: "14px 0" } as React.CSSProperties,
+};
+
+const COPY: Record<ArtworkProofEmailKind, { preview: string; heading: string; intro: string; messageLabel: string }> = {
+  approved: {
+    preview: "Artwork approved",
+    heading: "your artwork is approved",
+    intro: "is approved and your order is moving to production.",
+    messageLabel: "Note from our team",
+  },
+  rejected: {
+    preview: "Artwork needs a new file",
+    heading: "we need a new file",
+    intro: "can’t be printed as-is. Reply to this email with a corrected file and we’ll review it right away.",
+    messageLabel: "What needs to change",
+  },
+  proof_sent: {
+    preview: "Your proof is ready",
+    heading: "your proof is ready to review",
+    intro: "has a proof ready. Please review it and approve it or request changes from your order page. We won’t print until you approve.",
+    messageLabel: "Note from our team",
+  },
+  changes_requested: {
+    preview: "Changes requested",
+    heading: "we got your change request",
+    intro: "is back with our prepress team. We’ll send an updated proof shortly.",
+    messageLabel: "Your request",
+  },
+};
+
+export default function ArtworkProofEmail(props: ArtworkProofEmailProps) {
+  const {
+    kind,
+    name,
+    orderId,
+    fileName,
+    version,
+    message,
+    proofUrl,
+    orderUrl,
+    supportEmail,
+    supportUrl,
+    brandName = "ADAP",
+    brandTagline = "Custom Print Experts",
+    logoUrl,
+  } = props;
+
+  const copy = COPY[kind];
+  const orderIdStr = String(orderId);
+  const previewText = `${copy.preview} — #${orderIdStr} • ${fileName}`;
+  const note = String(message ?? "").trim();
+
+  return (
+    <Html>
+      <Head />
+      <Preview>{previewText}</Preview>
+
+      <Body style={styles.body}>
+        <Container style={styles.container}>
+          <Section style={styles.header}>
+            {logoUrl ? <Img src={logoUrl} alt={brandName} width="44" height="44" style={styles.logo} /> : null}
+            <Text style={styles.brandName}>{brandName}</Text>
+            <Text style={styles.brandTagline}>{brandTagline}</Text>
+          </Section>
+
+          <Section style={styles.content}>
+            <Text style={styles.h1}>
+              Hi {name}, {copy.heading}
+            </Text>
+            <Text style={styles.p}>
+              Your artwork “{fileName}” for order #{orderIdStr} {copy.intro}
+            </Text>
+
+            {note ? (
+              <div style={styles.card}>
+                <Text style={styles.label}>
+                  {copy.messageLabel} (proof v{version})
+                </Text>
+                <Text style={styles.quote}>{note}</Text>
+              </div>
+            ) : null}
+
+            {kind === "proof_sent" && proofUrl ? (
+              <Text style={styles.p}>
+                <a href={proofUrl} style={{ color: "#0047ab", fontWeight: 700 }}>
+                  Download the proof (PDF)
+                </a>
+              </Text>
+            ) : null}
+
+            {orderUrl ? (
+              <Button href={orderUrl} style={styles.primaryBtn}>
+                {kind === "proof_sent" ? "Review your proof" : "View your order"}
+              </Button>
+            ) : null}
+
+            <Hr style={styles.hr} />
+            <Text style={{ ...styles.p, marginBottom: 0 }}>Questions about your artwork? Just reply to this email.</Text>
+          </Section>
+
+          <Section style={styles.footer}>
+            {supportEmail || supportUrl ? (
+              <Text style={styles.footerText}>
+                Need help?{" "}
+                {supportEmail ? (
+                  <a style={styles.footerLink} href={`mailto:${supportEmail}`}>
+                    {supportEmail}
+                  </a>
+                ) : null}
+                {supportEmail && supportUrl ? " • " : ""}
+                {supportUrl ? (
+                  <a style={styles.footerLink} href={supportUrl}>
+                    Support Center
+                  </a>
+                ) : null}
+              </Text>
+            ) : (
+              <Text style={styles.footerText}>This is an automated email from {brandName}.</Text>
+            )}
+          </Section>
+        </Container>
+      </Body>
+    </Html>
+  );
+}
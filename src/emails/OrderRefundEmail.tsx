@@ -0,0 +1,205 @@
+import React from "react";
+import { Html, Head, Preview, Body, Container, Section, Text, Button, Hr, Img } from "@react-email/components";
+
+interface OrderRefundEmailProps {
+  name: string;
+  orderId: string | number;
+
+  /** Amount refunded by this event, formatted */
+  refundAmount: string;
+  /** Cumulative refunded so far, formatted */
+  totalRefunded: string;
+  orderTotal: string;
+  isFullRefund: boolean;
+
+  loyaltyPointsRemoved?: number;
+  orderUrl?: string;
+
+  supportEmail?: string;
+  supportUrl?: string;
+
+  brandName?: string;
+  brandTagline?: string;
+  logoUrl?: string;
+}
+
+const styles = {
+  body: {
+    backgroundColor: "#f6f7fb",
+    color: "#0f172a",
+    fontFamily:
+      'ui-sans-serif, system-ui, -apple-system, "Segoe UI", Roboto, Helvetica, Arial, "Apple Color Emoji","Segoe UI Emoji"',
+    margin: 0,
+    padding: "24px 12px",
+  } as React.CSSProperties,
+
+  container: {
+    maxWidth: 600,
+    margin: "0 auto",
+    backgroundColor: "#ffffff",
+    borderRadius: 14,
+    overflow: "hidden",
+    border: "1px solid #e5e7eb",
+  } as React.CSSProperties,
+
+  header: {
+    padding: "18px 20px",
+    background: "linear-gradient(135deg, rgba(0,71,171,1) 0%, rgba(0,37,112,1) 100%)",
+  } as React.CSSProperties,
+
+  logo: {
+    width: 44,
+    height: 44,
+    borderRadius: 10,
+    backgroundColor: "#ffffff",
+    objectFit: "contain",
+    display: "block",
+  } as React.CSSProperties,
+
+  brandName: { fontSize: 16, fontWeight: 800, color: "#ffffff", margin: 0 } as React.CSSProperties,
+  brandTagline: { fontSize: 12, color: "rgba(255,255,255,0.85)", margin: "2px 0 0 0" } as React.CSSProperties,
+
+  content: { padding: "18px 20px 20px" } as React.CSSProperties,
+
+  h1: { fontSize: 22, lineHeight: 1.25, fontWeight: 800, margin: "0 0 8px 0" } as React.CSSProperties,
+  p: { fontSize: 14, lineHeight: 1.6, margin: "0 0 10px 0", color: "#334155" } as React.CSSProperties,
+
+  card: {
+    borderRadius: 12,
+    border: "1px solid #e5e7eb",
+    backgroundColor: "#f8fafc",
+    padding: "12px 14px",
+    margin: "14px 0 16px",
+  } as React.CSSProperties,
+
+  table: { width: "100%", borderCollapse: "collapse" } as React.CSSProperties,
+  tdLeft: { padding: "7px 0", fontSize: 13, color: "#334155" } as React.CSSProperties,
+  tdRight: {
+    padding: "7px 0",
+    fontSize: 13,
+    color: "#0f172a",
+    textAlign: "right",
+    fontWeight: 700,
+    whiteSpace: "nowrap",
+  } as React.CSSProperties,
+
+  primaryBtn: {
+    backgroundColor: "#0047ab",
+    color: "#ffffff",
+    padding: "12px 16px",
+    borderRadius: 10,
+    textDecoration: "none",
+    fontWeight: 800,
+    fontSize: 14,
+    display: "inline-block",
+  } as React.CSSProperties,
+
+  footer: { padding: "14px 20px 18px", backgroundColor: "#0b1220" } as React.CSSProperties,
+  footerText: { margin: 0, fontSize: 12, lineHeight: 1.6, color: "rgba(255,255,255,0.78)" } as React.CSSProperties,
+  footerLink: { color: "#93c5fd", textDecoration: "underline", fontWeight: 700 } as React.CSSProperties,
+
+  hr: { borderColor: "#e5e7eb", margin: "14px 0" } as React.CSSProperties,
+};
+
+export default function OrderRefundEmail(props: OrderRefundEmailProps) {
+  const {
+    name,
+    orderId,
+    refundAmount,
+    totalRefunded,
+    orderTotal,
+    isFullRefund,
+    loyaltyPointsRemoved,
+    orderUrl,
+    supportEmail,
+    supportUrl,
+    brandName = "ADAP",
+    brandTagline = "Custom Print Experts",
+    logoUrl,
+  } = props;
+
+  const orderIdStr = String(orderId);
+  const previewText = `${isFullRefund ? "Refund issued" : "Partial refund issued"} — #${orderIdStr} • ${refundAmount}`;
+
+  return (
+    <Html>
+      <Head />
+      <Preview>{previewText}</Preview>
+
+      <Body style={styles.body}>
+        <Container style={styles.container}>
+          <Section style={styles.header}>
+            {logoUrl ? <Img src={logoUrl} alt={brandName} width="44" height="44" style={styles.logo} /> : null}
+            <Text style={styles.brandName}>{brandName}</Text>
+            <Text style={styles.brandTagline}>{brandTagline}</Text>
+          </Section>
+
+          <Section style={styles.content}>
+            <Text style={styles.h1}>Hi {name}, your refund is on its way</Text>
+            <Text style={styles.p}>
+              We’ve issued a {isFullRefund ? "full" : "partial"} refund of {refundAmount} for order #{orderIdStr}. It
+              usually appears on your statement within 5–10 business days.
+            </Text>
+
+            <div style={styles.card}>
+              <table style={styles.table}>
+                <tbody>
+                  <tr>
+                    <td style={styles.tdLeft}>Refunded now</td>
+                    <td style={styles.tdRight}>{refundAmount}</td>
+                  </tr>
+                  <tr>
+                    <td style={styles.tdLeft}>Total refunded</td>
+                    <td style={styles.tdRight}>{totalRefunded}</td>
+                  </tr>
+                  <tr>
+                    <td style={styles.tdLeft}>Order total</td>
+                    <td style={styles.tdRight}>{orderTotal}</td>
+                  </tr>
+                  {loyaltyPointsRemoved ? (
+                    <tr>
+                      <td style={styles.tdLeft}>Loyalty points reversed</td>
+                      <td style={styles.tdRight}>−{loyaltyPointsRemoved.toLocaleString("en-US")}</td>
+                    </tr>
+                  ) : null}
+                </tbody>
+              </table>
+            </div>
+
+            {orderUrl ? (
+              <Button href={orderUrl} style={styles.primaryBtn}>
+                View your order
+              </Button>
+            ) : null}
+
+            <Hr style={styles.hr} />
+            <Text style={{ ...styles.p, marginBottom: 0 }}>
+              Questions about this refund? Just reply to this email.
+            </Text>
+          </Section>
+
+          <Section style={styles.footer}>
+            {supportEmail || supportUrl ? (
+              <Text style={styles.footerText}>
+                Need help?{" "}
+                {supportEmail ? (
+                  <a style={styles.footerLink} href={`mailto:${supportEmail}`}>
+                    {supportEmail}
+                  </a>
+                ) : null}
+                {supportEmail && supportUrl ? " • " : ""}
+                {supportUrl ? (
+                  <a style={styles.footerLink} href={supportUrl}>
+                    Support Center
+                  </a>
+                ) : null}
+              </Text>
+            ) : (
+              <Text style={styles.footerText}>This is an automated email from {brandName}.</Text>
+            )}
+          </Section>
+        </Container>
+      </Body>
+    </Html>
+  );
+}
@@ -0,0 +1,215 @@
+import React from "react";
+import { Html, Head, Preview, Body, Container, Section, Text, Button, Hr, Img } from "@react-email/components";
+
+export type QuoteEmailLine = { description: string; quantity: number; lineTotalCents: number };
+
+interface QuoteEmailProps {
+  name: string;
+  quoteNumber: string;
+  currency: string;
+  lines: QuoteEmailLine[];
+  shippingLabel?: string | null;
+  shippingCents: number;
+  totalCents: number;
+  /** Already formatted for display */
+  expiresOn: string;
+  message?: string | null;
+  viewUrl: string;
+
+  supportEmail?: string;
+  supportUrl?: string;
+
+  brandName?: string;
+  brandTagline?: string;
+  logoUrl?: string;
+}
+
+const styles = {
+  body: {
+    backgroundColor: "#f6f7fb",
+    color: "#0f172a",
+    fontFamily:
+      'ui-sans-serif, system-ui, -apple-system, "Segoe UI", Roboto, Helvetica, Arial, "Apple Color Emoji","Segoe UI Emoji"',
+    margin: 0,
+    padding: "24px 12px",
+  } as React.CSSProperties,
+
+  container: {
+    maxWidth: 600,
+    margin: "0 auto",
+    backgroundColor: "#ffffff",
+    borderRadius: 14,
+    overflow: "hidden",
+    border: "1px solid #e5e7eb",
+  } as React.CSSProperties,
+
+  header: {
+    padding: "18px 20px",
+    background: "linear-gradient(135deg, rgba(0,71,171,1) 0%, rgba(0,37,112,1) 100%)",
+  } as React.CSSProperties,
+
+  logo: {
+    width: 44,
+    height: 44,
+    borderRadius: 10,
+    backgroundColor: "#ffffff",
+    objectFit: "contain",
+    display: "block",
+  } as React.CSSProperties,
+
+  brandName: { fontSize: 16, fontWeight: 800, color: "#ffffff", margin: 0 } as React.CSSProperties,
+  brandTagline: { fontSize: 12, color: "rgba(255,255,255,0.85)", margin: "2px 0 0 0" } as React.CSSProperties,
+
+  content: { padding: "18px 20px 20px" } as React.CSSProperties,
+
+  h1: { fontSize: 22, lineHeight: 1.25, fontWeight: 800, margin: "0 0 8px 0" } as React.CSSProperties,
+  p: { fontSize: 14, lineHeight: 1.6, margin: "0 0 10px 0", color: "#334155" } as React.CSSProperties,
+
+  card: {
+    borderRadius: 12,
+    border: "1px solid #e5e7eb",
+    backgroundColor: "#f8fafc",
+    padding: "12px 14px",
+    margin: "14px 0 16px",
+  } as React.CSSProperties,
+
+  label: { fontSize: 12, fontWeight: 700, color: "#64748b", margin: "0 0 4px 0" } as React.CSSProperties,
+  quote: { fontSize: 14, lineHeight: 1.6, margin: 0, color: "#0f172a", whiteSpace: "pre-wrap" } as React.CSSProperties,
+
+  primaryBtn: {
+    backgroundColor: "#0047ab",
+    color: "#ffffff",
+    padding: "12px 16px",
+    borderRadius: 10,
+    textDecoration: "none",
+    fontWeight: 800,
+    fontSize: 14,
+    display: "inline-block",
+  } as React.CSSProperties,
+
+  footer: { padding: "14px 20px 18px", backgroundColor: "#0b1220" } as React.CSSProperties,
+  footerText: { margin: 0, fontSize: 12, lineHeight: 1.6, color: "rgba(255,255,255,0.78)" } as React.CSSProperties,
+  footerLink: { color: "#93c5fd", textDecoration: "underline", fontWeight: 700 } as React.CSSProperties,
+
+  hr: { borderColor: "#e5e7eb", margin: "14px 0" } as React.CSSProperties,
+
+  table: { width: "100%", borderCollapse: "collapse", margin: "14px 0 6px" } as React.CSSProperties,
+  th: { textAlign: "left", fontSize: 12, color: "#64748b", padding: "6px 0", borderBottom: "1px solid #e5e7eb" } as React.CSSProperties,
+  td: { fontSize: 14, color: "#0f172a", padding: "8px 0", borderBottom: "1px solid #f1f5f9", verticalAlign: "top" } as React.CSSProperties,
+  num: { textAlign: "right", whiteSpace: "nowrap" } as React.CSSProperties,
+  total: { fontSize: 15, fontWeight: 800, color: "#0f172a", padding: "10px 0 0" } as React.CSSProperties,
+};
+
+function money(cents: number, currency: string): string {
+  const c = String(currency || "USD").toUpperCase() === "CAD" ? "CAD" : "USD";
+  return new Intl.NumberFormat("en-US", { style: "currency", currency: c }).format(Number(cents || 0) / 100);
+}
+
+export default function QuoteEmail(props: QuoteEmailProps) {
+  const {
+    name,
+    quoteNumber,
+    currency,
+    lines,
+    shippingLabel,
+    shippingCents,
+    totalCents,
+    expiresOn,
+    message,
+    viewUrl,
+    supportEmail,
+    supportUrl,
+    brandName = "ADAP",
+    brandTagline = "Custom Print Experts",
+    logoUrl,
+  } = props;
+
+  const note = String(message ?? "").trim();
+
+  return (
+    <Html>
+      <Head />
+      <Preview>{`Your quote ${quoteNumber} — ${money(totalCents, currency)}`}</Preview>
+
+      <Body style={styles.body}>
+        <Container style={styles.container}>
+          <Section style={styles.header}>
+            {logoUrl ? <Img src={logoUrl} alt={brandName} width="44" height="44" style={styles.logo} /> : null}
+            <Text style={styles.brandName}>{brandName}</Text>
+            <Text style={styles.brandTagline}>{brandTagline}</Text>
+          </Section>
+
+          <Section style={styles.content}>
+            <Text style={styles.h1}>Hi {name}, your quote is ready</Text>
+            <Text style={styles.p}>
+              Here’s quote {quoteNumber}. Accept it online and it goes straight into a cart at these prices. It’s valid
+              until {expiresOn}.
+            </Text>
+
+            {note ? (
+              <div style={styles.card}>
+                <Text style={styles.label}>Note from our team</Text>
+                <Text style={styles.quote}>{note}</Text>
+              </div>
+            ) : null}
+
+            <table style={styles.table}>
+              <thead>
+                <tr>
+                  <th style={styles.th}>Item</th>
+                  <th style={{ ...styles.th, ...styles.num }}>Qty</th>
+                  <th style={{ ...styles.th, ...styles.num }}>Total</th>
+                </tr>
+              </thead>
+              <tbody>
+                {lines.map((l, i) => (
+                  <tr key={i}>
+                    <td style={styles.td}>{l.description}</td>
+                    <td style={{ ...styles.td, ...styles.num }}>{l.quantity.toLocaleString("en-US")}</td>
+                    <td style={{ ...styles.td, ...styles.num }}>{money(l.lineTotalCents, currency)}</td>
+                  </tr>
+                ))}
+                {shippingCents > 0 ? (
+                  <tr>
+                    <td style={styles.td}>Shipping{shippingLabel ? ` — ${shippingLabel}` : ""}</td>
+                    <td style={styles.td} />
+                    <td style={{ ...styles.td, ...styles.num }}>{money(shippingCents, currency)}</td>
+                  </tr>
+                ) : null}
+              </tbody>
+            </table>
+            <Text style={{ ...styles.total, ...styles.num }}>Total {money(totalCents, currency)} + tax</Text>
+
+            <Button href={viewUrl} style={styles.primaryBtn}>
+              Review and accept
+            </Button>
+
+            <Hr style={styles.hr} />
+            <Text style={{ ...styles.p, marginBottom: 0 }}>Want something changed? Just reply to this email.</Text>
+          </Section>
+
+          <Section style={styles.footer}>
+            {supportEmail || supportUrl ? (
+              <Text style={styles.footerText}>
+                Need help?{" "}
+                {supportEmail ? (
+                  <a style={styles.footerLink} href={`mailto:${supportEmail}`}>
+                    {supportEmail}
+                  </a>
+                ) : null}
+                {supportEmail && supportUrl ? " • " : ""}
+                {supportUrl ? (
+                  <a style={styles.footerLink} href={supportUrl}>
+                    Support Center
+                  </a>
+                ) : null}
+              </Text>
+            ) : (
+              <Text style={styles.footerText}>This is an automated email from {brandName}.</Text>
+            )}
+          </Section>
+        </Container>
+      </Body>
+    </Html>
+  );
+}
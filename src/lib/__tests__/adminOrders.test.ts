@@ -0,0 +1,162 @@
+// Unit tests for admin order search filter parsing and refund/cancel/store-credit input handling
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const mocks = vi.hoisted(() => ({
+  selectRows: [] as unknown[][],
+  refundsCreate: vi.fn(),
+  awardLoyaltyPoints: vi.fn(),
+  recordAdminAudit: vi.fn(),
+  transitionOrderStatus: vi.fn(),
+}));
+
+// Every query builder call chains; awaiting a select yields the next queued row set
+function query(rows: () => unknown[]): any {
+  const q: any = new Proxy(
+    {},
+    {
+      get: (_t, prop) =>
+        prop === "then" ? (resolve: (v: unknown) => void) => resolve(rows()) : () => q,
+    },
+  );
+  return q;
+}
+
+vi.mock("@/lib/db", () => {
+  const next = () => mocks.selectRows.shift() ?? [];
+  const tx = { select: () => query(next), update: () => query(() => []) };
+  return { db: { select: () => query(next), transaction: (fn: (t: unknown) => unknown) => fn(tx) } };
+});
+vi.mock("@/lib/stripe", () => ({ stripe: { refunds: { create: mocks.refundsCreate } } }));
+vi.mock("@/lib/loyaltyDb", () => ({ awardLoyaltyPoints: mocks.awardLoyaltyPoints }));
+vi.mock("@/lib/adminAudit", () => ({ recordAdminAudit: mocks.recordAdminAudit, listAdminAudit: vi.fn() }));
+vi.mock("@/lib/orderLifecycle", () => ({
+  transitionOrderStatus: mocks.transitionOrderStatus,
+  listOrderStatusEvents: vi.fn(),
+}));
+
+import {
+  parseAdminOrderFilters,
+  refundOrder,
+  cancelOrderBeforeSubmission,
+  issueOrderStoreCredit,
+} from "@/lib/adminOrders";
+import { ApiError } from "@/lib/apiError";
+
+function parse(qs: string) {
+  return parseAdminOrderFilters(new URLSearchParams(qs));
+}
+
+const ORDER_ID = "00000000-0000-0000-0000-000000000001";
+const ctx = { actor: "admin:ops@example.com", requestId: "req_1" };
+const paidOrder = {
+  id: ORDER_ID,
+  userId: "user_1",
+  provider: "stripe",
+  providerId: "pi_123",
+  totalCents: 5000,
+  refundedCents: 0,
+};
+
+beforeEach(() => {
+  mocks.selectRows = [];
+  vi.clearAllMocks();
+});
+
+describe("parseAdminOrderFilters", () => {
+  it("defaults paging and ignores empty params", () => {
+    expect(parse("status=&email=")).toEqual({ limit: 50, offset: 0 });
+  });
+
+  it("parses every supported filter", () => {
+    const f = parse(
+      "status=paid&from=2026-01-01&to=2026-02-01T00:00:00Z&email=%20jane@example.com%20&orderNumber=1042&providerId=pi_123&limit=25&offset=50",
+    );
+    expect(f.status).toBe("paid");
+    expect(f.from?.toISOString()).toBe("2026-01-01T00:00:00.000Z");
+    expect(f.to?.toISOString()).toBe("2026-02-01T00:00:00.000Z");
+    expect(f.email).toBe("jane@example.com");
+    expect(f.orderNumber).toBe("1042");
+    expect(f.providerId).toBe("pi_123");
+    expect(f.limit).toBe(25);
+    expect(f.offset).toBe(50);
+  });
+
+  it("rejects unknown statuses, bad dates and oversized pages with 422", () => {
+    for (const qs of ["status=shipped", "from=not-a-date", "limit=500"]) {
+      try {
+        parse(qs);
+        expect.unreachable(`expected ${qs} to throw`);
+      } catch (e) {
+        expect(e).toBeInstanceOf(ApiError);
+        expect((e as ApiError).status).toBe(422);
+      }
+    }
+  });
+});
+
+describe("refundOrder input", () => {
+  it("requires a client refundRequestId before touching the order", async () => {
+    for (const body of [{ amountCents: 500 }, { refundRequestId: "x", amountCents: 500 }, { refundRequestId: "bad id!!" }]) {
+      await expect(refundOrder("00000000-0000-0000-0000-000000000001", body, ctx)).rejects.toMatchObject({ status: 422 });
+    }
+  });
+});
+
+describe("cancelOrderBeforeSubmission", () => {
+  it("requires refundRequestId with refund: true before cancelling anything", async () => {
+    await expect(
+      cancelOrderBeforeSubmission(ORDER_ID, { reason: "customer asked", refund: true }, ctx),
+    ).rejects.toMatchObject({ status: 422 });
+    expect(mocks.transitionOrderStatus).not.toHaveBeenCalled();
+  });
+
+  it("refuses a submission awaiting review, which may already be at Sinalite", async () => {
+    mocks.selectRows = [[{ id: "sub_1", status: "needs_review" }]];
+    await expect(cancelOrderBeforeSubmission(ORDER_ID, { reason: "customer asked" }, ctx)).rejects.toMatchObject({
+      status: 409,
+      code: "SUBMISSION_NEEDS_REVIEW",
+    });
+    expect(mocks.transitionOrderStatus).not.toHaveBeenCalled();
+  });
+
+  it("cancels and refunds the remainder keyed on the client's refundRequestId", async () => {
+    mocks.selectRows = [[{ id: "sub_1", status: "pending" }], [paidOrder]];
+    mocks.refundsCreate.mockResolvedValue({ id: "re_1", status: "succeeded" });
+
+    const result = await cancelOrderBeforeSubmission(
+      ORDER_ID,
+      { reason: "customer asked", refund: true, refundRequestId: "cancel-req-0001" },
+      ctx,
+    );
+
+    expect(mocks.transitionOrderStatus).toHaveBeenCalledWith(
+      expect.objectContaining({ orderId: ORDER_ID, to: "cancelled" }),
+      expect.anything(),
+    );
+    expect(mocks.refundsCreate).toHaveBeenCalledWith(
+      expect.objectContaining({ payment_intent: "pi_123", amount: 5000 }),
+      { idempotencyKey: `admin_refund:${ORDER_ID}:cancel-req-0001` },
+    );
+    expect(result).toEqual({ cancelled: true, refund: { refundId: "re_1", status: "succeeded", amountCents: 5000 } });
+  });
+});
+
+describe("issueOrderStoreCredit", () => {
+  it("requires a client creditRequestId", async () => {
+    await expect(issueOrderStoreCredit(ORDER_ID, { amountCents: 500 }, ctx)).rejects.toMatchObject({ status: 422 });
+    expect(mocks.awardLoyaltyPoints).not.toHaveBeenCalled();
+  });
+
+  it("keys the ledger entry on creditRequestId and skips the audit for a repeat", async () => {
+    mocks.selectRows = [[paidOrder]];
+    mocks.awardLoyaltyPoints.mockResolvedValue({ changed: false, snapshot: { pointsBalance: 500 } });
+
+    const result = await issueOrderStoreCredit(ORDER_ID, { creditRequestId: "credit-req-0001", amountCents: 500 }, ctx);
+
+    expect(mocks.awardLoyaltyPoints).toHaveBeenCalledWith(
+      expect.objectContaining({ idempotencyKey: `store_credit:${ORDER_ID}:credit-req-0001` }),
+    );
+    expect(mocks.recordAdminAudit).not.toHaveBeenCalled();
+    expect(result).toMatchObject({ pointsBalance: 500, duplicate: true });
+  });
+});
@@ -0,0 +1,86 @@
+// Unit tests for the analytics event registry and the daily rollup helpers
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("@/lib/db", () => ({ db: {} }));
+
+import { eventTime, validateEvent } from "@/lib/analytics/events";
+import { FUNNEL_STEPS, monthPartition, rollupPlan, summarizeFunnel } from "@/lib/analytics/rollups";
+
+describe("validateEvent", () => {
+  const receivedAt = new Date("2026-10-19T12:00:00Z");
+
+  it("accepts registered client events and keeps a plausible client timestamp", () => {
+    const ts = receivedAt.getTime() - 5_000;
+    const v = validateEvent(
+      { name: "hero_click", props: { slideId: "fall-sale", variant: "b", ctaText: "Shop" }, ts, path: "/" },
+      { from: "client", receivedAt },
+    );
+    expect(v).toEqual({
+      ok: true,
+      event: {
+        name: "hero_click",
+        props: { slideId: "fall-sale", variant: "b", ctaText: "Shop" },
+        occurredAt: new Date(ts),
+        path: "/",
+      },
+    });
+  });
+
+  it("rejects unknown names, bad props and server-only events from clients", () => {
+    expect(validateEvent({ name: "nope", props: {} }, { from: "client" })).toMatchObject({ ok: false, error: "unknown event" });
+    expect(validateEvent({ name: "product_view", props: { productId: "12" } }, { from: "client" })).toMatchObject({
+      ok: false,
+      name: "product_view",
+      error: expect.stringMatching(/^productId: /),
+    });
+    expect(validateEvent({ name: "product_view", props: { productId: 12, extra: 1 } }, { from: "client" }).ok).toBe(false);
+
+    const add = { name: "add_to_cart", props: { productId: 12, cartId: crypto.randomUUID(), quantity: 1, unitPriceCents: 500 } };
+    expect(validateEvent(add, { from: "client" })).toMatchObject({ ok: false, error: "server-only event" });
+    expect(validateEvent(add, { from: "server" }).ok).toBe(true);
+  });
+
+  it("falls back to receive time for stale or future client clocks", () => {
+    const now = receivedAt.getTime();
+    expect(eventTime(undefined, receivedAt)).toBe(receivedAt);
+    expect(eventTime(now - 2 * 24 * 3600_000, receivedAt)).toBe(receivedAt);
+    expect(eventTime(now + 10 * 60_000, receivedAt)).toBe(receivedAt);
+    expect(eventTime(now - 3600_000, receivedAt)).toEqual(new Date(now - 3600_000));
+  });
+});
+
+describe("rollups", () => {
+  it("names monthly partitions with UTC bounds", () => {
+    expect(monthPartition(new Date("2026-12-31T23:30:00Z"))).toEqual({
+      name: "analytics_events_202612",
+      from: "2026-12-01T00:00:00.000Z",
+      to: "2027-01-01T00:00:00.000Z",
+    });
+  });
+
+  it("recomputes unsettled days and only advances the cursor past settled ones", () => {
+    const now = new Date("2026-10-19T08:00:00Z");
+    expect(rollupPlan("2026-10-15", now, 31)).toEqual({
+      days: ["2026-10-16", "2026-10-17", "2026-10-18", "2026-10-19"],
+      nextCursor: "2026-10-17",
+    });
+    expect(rollupPlan("2026-10-17", now, 31)).toEqual({ days: ["2026-10-18", "2026-10-19"], nextCursor: "2026-10-17" });
+    expect(rollupPlan(null, now, 3)).toEqual({ days: ["2026-10-12", "2026-10-13", "2026-10-14"], nextCursor: "2026-10-14" });
+  });
+
+  it("sums daily funnel rows and computes step conversion", () => {
+    const steps = summarizeFunnel([
+      { step: "product_view", sessions: 60 },
+      { step: "product_view", sessions: 40 },
+      { step: "product_configure", sessions: 50 },
+      { step: "add_to_cart", sessions: 20 },
+      { step: "checkout_start", sessions: 10 },
+      { step: "paid", sessions: 5 },
+    ]);
+    expect(steps.map((s) => s.step)).toEqual([...FUNNEL_STEPS]);
+    expect(steps[0]).toEqual({ step: "product_view", sessions: 100, fromPrevious: 1, fromStart: 1 });
+    expect(steps[2]).toEqual({ step: "add_to_cart", sessions: 20, fromPrevious: 0.4, fromStart: 0.2 });
+    expect(steps[4]).toEqual({ step: "paid", sessions: 5, fromPrevious: 0.5, fromStart: 0.05 });
+    expect(summarizeFunnel([])[1]).toEqual({ step: "product_configure", sessions: 0, fromPrevious: 0, fromStart: 0 });
+  });
+});
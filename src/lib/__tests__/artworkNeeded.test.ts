@@ -0,0 +1,75 @@
+// Unit tests for the artwork-needed reminder cadence and per-order grouping
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("@/lib/db", () => ({ db: {} }));
+
+import {
+  artworkNeededKind,
+  artworkUploadUrl,
+  dueReminderStep,
+  groupArtworkNeededRows,
+  type ArtworkNeededRow,
+} from "@/lib/artwork/artworkNeeded";
+
+const NOW = new Date("2026-03-10T12:00:00Z");
+const hoursAgo = (h: number) => new Date(NOW.getTime() - h * 3600_000);
+
+describe("dueReminderStep", () => {
+  it("returns the latest step that has passed", () => {
+    expect(dueReminderStep(hoursAgo(23), NOW)).toBeNull();
+    expect(dueReminderStep(hoursAgo(24), NOW)).toBe(1);
+    expect(dueReminderStep(hoursAgo(71), NOW)).toBe(1);
+    expect(dueReminderStep(hoursAgo(72), NOW)).toBe(3);
+    expect(dueReminderStep(hoursAgo(8 * 24), NOW)).toBe(7);
+  });
+
+  it("gives each step its own delivery kind", () => {
+    expect(artworkNeededKind(1)).toBe("artwork_needed_d1");
+    expect(artworkNeededKind(7)).toBe("artwork_needed_d7");
+  });
+});
+
+describe("groupArtworkNeededRows", () => {
+  const row = (over: Partial<ArtworkNeededRow>): ArtworkNeededRow => ({
+    order_id: "o1",
+    order_number: "1001",
+    placed_at: hoursAgo(80).toISOString(),
+    email: "pat@example.com",
+    name: "Pat",
+    cart_line_id: "l1",
+    product_id: "42",
+    quantity: "250",
+    ...over,
+  });
+
+  it("builds one entry per order with its missing lines", () => {
+    const orders = groupArtworkNeededRows(
+      [
+        row({}),
+        row({ cart_line_id: "l2", product_id: 7, quantity: 1 }),
+        row({ order_id: "o2", order_number: null, email: " ", name: null, placed_at: hoursAgo(30) }),
+      ],
+      NOW,
+    );
+
+    expect(orders).toHaveLength(2);
+    expect(orders[0]).toMatchObject({
+      orderId: "o1",
+      step: 3,
+      email: "pat@example.com",
+      lines: [
+        { cartLineId: "l1", productId: 42, quantity: 250 },
+        { cartLineId: "l2", productId: 7, quantity: 1 },
+      ],
+    });
+    expect(orders[1]).toMatchObject({ orderId: "o2", step: 1, email: null, name: "there" });
+  });
+
+  it("drops orders with no step due yet", () => {
+    expect(groupArtworkNeededRows([row({ placed_at: hoursAgo(2) })], NOW)).toEqual([]);
+  });
+
+  it("links each line to the product upload page", () => {
+    expect(artworkUploadUrl({ cartLineId: "l1", productId: 42 })).toMatch(/\/product\/42\/upload-artwork\?lineId=l1$/);
+  });
+});
@@ -0,0 +1,218 @@
+// Unit tests for artwork preflight (byte-level PDF / image inspection)
+import { describe, it, expect } from "vitest";
+import zlib from "node:zlib";
+
+import {
+  inspectPdf,
+  parseSinaliteSides,
+  parseSinaliteSize,
+  preflightArtwork,
+  storedPreflight,
+  type PreflightReport,
+} from "@/lib/artwork/preflight";
+
+const BUSINESS_CARD = { widthIn: 3.5, heightIn: 2, sides: 2 };
+
+function check(report: PreflightReport, id: string) {
+  return report.checks.find((c) => c.id === id);
+}
+
+/** Minimal PNG: signature + IHDR (+ optional pHYs in pixels/metre) + IEND; CRCs are not validated. */
+function png(width: number, height: number, opts: { colorType?: number; dpi?: number } = {}) {
+  const chunk = (type: string, data: Buffer) => {
+    const len = Buffer.alloc(4);
+    len.writeUInt32BE(data.length);
+    return Buffer.concat([len, Buffer.from(type, "ascii"), data, Buffer.alloc(4)]);
+  };
+  const ihdr = Buffer.alloc(13);
+  ihdr.writeUInt32BE(width, 0);
+  ihdr.writeUInt32BE(height, 4);
+  ihdr[8] = 8;
+  ihdr[9] = opts.colorType ?? 2;
+
+  const parts = [Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]), chunk("IHDR", ihdr)];
+  if (opts.dpi) {
+    const phys = Buffer.alloc(9);
+    const ppm = Math.round(opts.dpi / 0.0254);
+    phys.writeUInt32BE(ppm, 0);
+    phys.writeUInt32BE(ppm, 4);
+    phys[8] = 1;
+    parts.push(chunk("pHYs", phys));
+  }
+  parts.push(chunk("IEND", Buffer.alloc(0)));
+  return new Uint8Array(Buffer.concat(parts));
+}
+
+/** Minimal baseline JPEG header: SOI + SOF0 with the given component count. */
+function jpeg(width: number, height: number, components: number) {
+  const sof = Buffer.alloc(2 + 2 + 6 + components * 3);
+  sof.writeUInt16BE(0xffc0, 0);
+  sof.writeUInt16BE(8 + components * 3, 2);
+  sof[4] = 8;
+  sof.writeUInt16BE(height, 5);
+  sof.writeUInt16BE(width, 7);
+  sof[9] = components;
+  return new Uint8Array(Buffer.concat([Buffer.from([0xff, 0xd8]), sof, Buffer.from([0xff, 0xd9])]));
+}
+
+/** Tiny uncompressed PDF; page boxes in points. */
+function pdf(opts: {
+  pages?: number;
+  mediaBox: [number, number];
+  trimBox?: [number, number];
+  fonts?: { name: string; embedded: boolean }[];
+  image?: [number, number];
+  colorSpace?: "DeviceRGB" | "DeviceCMYK";
+}) {
+  const objs: string[] = [];
+  const pages = opts.pages ?? 1;
+  const inset = opts.trimBox ? [(opts.mediaBox[0] - opts.trimBox[0]) / 2, (opts.mediaBox[1] - opts.trimBox[1]) / 2] : null;
+
+  objs.push("<< /Type /Catalog /Pages 2 0 R >>");
+  objs.push(`<< /Type /Pages /Count ${pages} >>`);
+  for (let i = 0; i < pages; i++) {
+    const trim = inset
+      ? ` /TrimBox [${inset[0]} ${inset[1]} ${opts.mediaBox[0] - inset[0]} ${opts.mediaBox[1] - inset[1]}]`
+      : "";
+    objs.push(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${opts.mediaBox[0]} ${opts.mediaBox[1]}]${trim} >>`);
+  }
+  for (const f of opts.fonts ?? []) {
+    objs.push(`<< /Type /Font /Subtype /TrueType /BaseFont /${f.name} >>`);
+    objs.push(`<< /Type /FontDescriptor /FontName /${f.name}${f.embedded ? " /FontFile2 99 0 R" : ""} >>`);
+  }
+  if (opts.image) {
+    objs.push(
+      `<< /Type /XObject /Subtype /Image /Width ${opts.image[0]} /Height ${opts.image[1]} /ColorSpace /${opts.colorSpace ?? "DeviceCMYK"} /BitsPerComponent 8 >>\nstream\nx\nendstream`,
+    );
+  }
+
+  const body = objs.map((o, i) => `${i + 1} 0 obj\n${o}\nendobj\n`).join("");
+  return new Uint8Array(Buffer.from(`%PDF-1.7\n${body}trailer\n<< /Root 1 0 R >>\n%%EOF\n`, "latin1"));
+}
+
+describe("Sinalite option parsing", () => {
+  it("reads trim sizes in inches and millimetres", () => {
+    expect(parseSinaliteSize('3.5" x 2"')).toEqual({ widthIn: 3.5, heightIn: 2 });
+    expect(parseSinaliteSize("8.5 x 11")).toEqual({ widthIn: 8.5, heightIn: 11 });
+    expect(parseSinaliteSize('2.5" Circle')).toEqual({ widthIn: 2.5, heightIn: 2.5 });
+    const mm = parseSinaliteSize("90mm x 50mm")!;
+    expect(mm.widthIn).toBeCloseTo(3.543, 2);
+    expect(parseSinaliteSize("Custom")).toBeNull();
+  });
+
+  it("reads printed sides from ink and wording", () => {
+    expect(parseSinaliteSides("4/4")).toBe(2);
+    expect(parseSinaliteSides("4/0")).toBe(1);
+    expect(parseSinaliteSides("Full Color Both Sides")).toBe(2);
+    expect(parseSinaliteSides("Front Only")).toBe(1);
+    expect(parseSinaliteSides("Gloss")).toBeNull();
+  });
+});
+
+describe("raster preflight", () => {
+  it("passes a CMYK JPEG sized for bleed at 300+ DPI", () => {
+    // 3.75 x 2.25in at 320 DPI
+    const r = preflightArtwork(jpeg(1200, 720, 4), { ...BUSINESS_CARD, sides: 1 });
+    expect(check(r, "page_size")?.status).toBe("pass");
+    expect(check(r, "bleed")?.status).toBe("pass");
+    expect(check(r, "resolution")?.status).toBe("pass");
+    expect(check(r, "color_space")?.status).toBe("pass");
+    expect(r.status).toBe("pass");
+  });
+
+  it("flags low resolution, RGB and missing bleed on a PNG", () => {
+    // trim proportions (no bleed) at ~100 DPI
+    const r = preflightArtwork(png(350, 200), BUSINESS_CARD);
+    expect(check(r, "bleed")?.status).toBe("warn");
+    expect(check(r, "resolution")?.status).toBe("fail");
+    expect(check(r, "color_space")?.status).toBe("warn");
+    expect(check(r, "page_count")?.status).toBe("warn");
+    expect(r.status).toBe("fail");
+  });
+
+  it("falls back to embedded DPI when the product size is unknown", () => {
+    const r = preflightArtwork(png(1000, 1000, { dpi: 200, colorType: 0 }), { widthIn: null, heightIn: null, sides: null });
+    expect(check(r, "resolution")).toMatchObject({ status: "warn", details: { effectiveDpi: 200 } });
+    expect(check(r, "color_space")?.status).toBe("pass");
+    expect(check(r, "page_size")?.status).toBe("skip");
+  });
+
+  it("warns instead of failing for formats it can't inspect", () => {
+    const r = preflightArtwork(new Uint8Array(Buffer.from("%!PS-Adobe-3.0 EPSF-3.0")), BUSINESS_CARD);
+    expect(r.status).toBe("warn");
+    expect(r.checks).toEqual([expect.objectContaining({ id: "format", status: "warn" })]);
+  });
+});
+
+describe("PDF preflight", () => {
+  it("passes a 2-page business card with bleed and embedded fonts", () => {
+    // 3.75 x 2.25in MediaBox with a 3.5 x 2in TrimBox
+    const r = preflightArtwork(
+      pdf({ pages: 2, mediaBox: [270, 162], trimBox: [252, 144], fonts: [{ name: "ABCDEF+Inter", embedded: true }] }),
+      BUSINESS_CARD,
+    );
+    expect(r.fileType).toBe("pdf");
+    expect(check(r, "page_size")?.status).toBe("pass");
+    expect(check(r, "bleed")).toMatchObject({ status: "pass", details: { bleedIn: 0.13 } });
+    expect(check(r, "fonts")?.status).toBe("pass");
+    expect(check(r, "page_count")?.status).toBe("pass");
+    expect(r.status).toBe("pass");
+  });
+
+  it("accepts a rotated page without a TrimBox when it includes bleed", () => {
+    const r = preflightArtwork(pdf({ mediaBox: [162, 270] }), { ...BUSINESS_CARD, sides: 1 });
+    expect(check(r, "page_size")?.status).toBe("pass");
+    expect(check(r, "bleed")?.status).toBe("pass");
+  });
+
+  it("fails wrong size, extra pages and non-embedded fonts", () => {
+    const r = preflightArtwork(
+      pdf({ pages: 3, mediaBox: [612, 792], fonts: [{ name: "BrandSans-Bold", embedded: false }] }),
+      BUSINESS_CARD,
+    );
+    expect(check(r, "page_size")?.status).toBe("fail");
+    expect(check(r, "bleed")?.status).toBe("skip");
+    expect(check(r, "fonts")).toMatchObject({ status: "fail", details: { missing: ["BrandSans-Bold"] } });
+    expect(check(r, "page_count")?.status).toBe("fail");
+    expect(r.status).toBe("fail");
+  });
+
+  it("only warns for standard-14 fonts and computes image DPI against the page", () => {
+    const r = preflightArtwork(
+      pdf({
+        mediaBox: [270, 162],
+        fonts: [{ name: "Helvetica", embedded: false }],
+        image: [750, 450],
+        colorSpace: "DeviceRGB",
+      }),
+      { ...BUSINESS_CARD, sides: 1 },
+    );
+    expect(check(r, "fonts")?.status).toBe("warn");
+    expect(check(r, "resolution")).toMatchObject({ status: "warn", details: { effectiveDpi: 200 } });
+    expect(check(r, "color_space")?.status).toBe("warn");
+  });
+
+  it("reads pages packed into compressed object streams", () => {
+    const packed = "<< /Type /Pages /Count 1 >> << /Type /Page /MediaBox [0 0 252 144] >>";
+    const first = "2 0 3 28 ".length;
+    const data = zlib.deflateSync(Buffer.from(`2 0 3 28 ${packed}`, "latin1"));
+    const file = Buffer.concat([
+      Buffer.from(`%PDF-1.7\n5 0 obj\n<< /Type /ObjStm /N 2 /First ${first} /Filter /FlateDecode /Length ${data.length} >>\nstream\n`, "latin1"),
+      data,
+      Buffer.from("\nendstream\nendobj\n%%EOF\n", "latin1"),
+    ]);
+
+    const info = inspectPdf(new Uint8Array(file));
+    expect(info.pages).toBe(1);
+    expect(info.mediaBox).toEqual([252, 144]);
+  });
+});
+
+describe("storedPreflight", () => {
+  it("only returns v1 reports from attachment meta", () => {
+    const report = preflightArtwork(jpeg(1200, 720, 4), BUSINESS_CARD);
+    expect(storedPreflight({ preflight: report })).toEqual(report);
+    expect(storedPreflight({ preflight: { version: 2, checks: [] } })).toBeNull();
+    expect(storedPreflight(null)).toBeNull();
+  });
+});
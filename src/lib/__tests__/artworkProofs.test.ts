@@ -0,0 +1,131 @@
+// Unit tests for the artwork proof state machine and the upload -> proof -> approval flow
+import { describe, it, expect, vi } from "vitest";
+
+const mocks = vi.hoisted(() => ({
+  results: [] as unknown[][],
+  updates: [] as Array<{ table: unknown; set: Record<string, unknown> }>,
+}));
+
+// Every query builder call chains; awaiting a query yields the next queued result
+function query(onCall?: (method: string, args: unknown[]) => void): any {
+  const q: any = new Proxy(
+    {},
+    {
+      get: (_t, prop) =>
+        prop === "then"
+          ? (resolve: (v: unknown) => void) => resolve(mocks.results.shift() ?? [])
+          : (...args: unknown[]) => {
+              onCall?.(String(prop), args);
+              return q;
+            },
+    },
+  );
+  return q;
+}
+
+vi.mock("@/lib/db", () => {
+  const db: any = {
+    select: () => query(),
+    insert: () => query(),
+    update: (table: unknown) =>
+      query((method, args) => method === "set" && mocks.updates.push({ table, set: args[0] as Record<string, unknown> })),
+    transaction: (fn: (tx: unknown) => unknown) => fn(db),
+  };
+  return { db };
+});
+vi.mock("@/lib/adminAudit", () => ({ recordAdminAudit: vi.fn() }));
+vi.mock("@/lib/artwork/r2Public", () => ({ getR2PublicHost: () => "files.example.com" }));
+
+import { decideArtworkProof, listOrderArtworkProofs, nextProofStatus, sendArtworkProof } from "@/lib/artworkProofs";
+import { artworkUploads } from "@/lib/db/schema/artwork_uploads";
+import { sinaliteSubmissions } from "@/lib/db/schema/sinaliteSubmissions";
+
+describe("nextProofStatus", () => {
+  it("lets staff approve, reject or proof anything still in review", () => {
+    for (const from of ["pending_review", "proof_sent", "changes_requested"]) {
+      expect(nextProofStatus(from, "approve")).toBe("approved");
+      expect(nextProofStatus(from, "reject")).toBe("rejected");
+      expect(nextProofStatus(from, "send_proof")).toBe("proof_sent");
+    }
+  });
+
+  it("only lets the customer decide a sent proof", () => {
+    expect(nextProofStatus("proof_sent", "customer_approve")).toBe("approved");
+    expect(nextProofStatus("proof_sent", "customer_request_changes")).toBe("changes_requested");
+    expect(nextProofStatus("pending_review", "customer_approve")).toBeNull();
+    expect(nextProofStatus("changes_requested", "customer_approve")).toBeNull();
+  });
+
+  it("treats approved and rejected as settled", () => {
+    for (const from of ["approved", "rejected"]) {
+      expect(nextProofStatus(from, "approve")).toBeNull();
+      expect(nextProofStatus(from, "reject")).toBeNull();
+      expect(nextProofStatus(from, "send_proof")).toBeNull();
+      expect(nextProofStatus(from, "customer_approve")).toBeNull();
+    }
+  });
+});
+
+describe("proof flow for cart artwork", () => {
+  const ORDER_ID = "00000000-0000-0000-0000-000000000001";
+  const order = { id: ORDER_ID, userId: "user_1", cartId: "00000000-0000-0000-0000-0000000000c1" };
+  const cartFile = {
+    id: "00000000-0000-0000-0000-0000000000f1",
+    productId: 10,
+    url: "https://files.example.com/cart/front.pdf",
+    fileName: "front.pdf",
+    contentType: "application/pdf",
+    createdAt: new Date("2026-03-01T10:00:00Z"),
+  };
+  const upload = {
+    id: "au_1",
+    productId: "10",
+    orderId: ORDER_ID,
+    userId: "user_1",
+    fileUrl: cartFile.url,
+    fileName: "front.pdf",
+    approved: false,
+    proofStatus: "pending_review",
+    proofVersion: 0,
+    thumbnails: null,
+    createdAt: cartFile.createdAt,
+  };
+  const proof = { id: "pr_1", artworkUploadId: "au_1", orderId: ORDER_ID, version: 1, proofUrl: "https://files.example.com/proofs/p1.pdf" };
+
+  it("lists the uploaded cart file, proofs it and nudges the submission once the customer approves", async () => {
+    // listing links the cart file: order, cart_artwork, cart_attachments, insert, uploads, proof rounds
+    mocks.results = [[order], [], [cartFile], [{ id: "au_1" }], [upload], []];
+    const listed = await listOrderArtworkProofs(ORDER_ID);
+    expect(listed.map((a) => [a.id, a.proofStatus])).toEqual([["au_1", "pending_review"]]);
+
+    // staff proof: lock, insert round, (customer email lookup finds no address)
+    mocks.results = [[upload], [{ ...proof, status: "proof_sent" }], [], []];
+    await sendArtworkProof("au_1", { proofUrl: proof.proofUrl }, { actor: "admin:ops@example.com" });
+    expect(mocks.updates.at(-1)).toEqual({
+      table: artworkUploads,
+      set: { proofStatus: "proof_sent", proofVersion: 1, approved: false },
+    });
+
+    // customer approval: order, lock, decide round, upload status, nudge, email lookup
+    mocks.updates = [];
+    mocks.results = [
+      [{ id: ORDER_ID, userId: "user_1" }],
+      [{ ...upload, proofStatus: "proof_sent", proofVersion: 1 }],
+      [{ ...proof, status: "approved" }],
+      [],
+      [],
+      [],
+    ];
+    await decideArtworkProof(ORDER_ID, "au_1", { decision: "approve" }, { owners: ["user_1"] });
+
+    expect(mocks.updates.find((u) => u.table === artworkUploads)?.set).toEqual({
+      proofStatus: "approved",
+      proofVersion: 1,
+      approved: true,
+    });
+    expect(mocks.updates.find((u) => u.table === sinaliteSubmissions)?.set).toMatchObject({
+      nextAttemptAt: expect.any(Date),
+    });
+    expect(mocks.results).toEqual([]);
+  });
+});
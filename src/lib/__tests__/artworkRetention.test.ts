@@ -0,0 +1,47 @@
+// Unit tests for artwork retention policy and object-key matching
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("@/lib/db", () => ({ db: {} }));
+
+import {
+  DEFAULT_RETENTION_POLICY,
+  originalObjectKey,
+  refersToObject,
+  retentionCutoffs,
+  retentionPolicyFromEnv,
+} from "@/lib/artwork/retention";
+
+describe("retention policy", () => {
+  it("reads day counts from env, falling back to the defaults", () => {
+    expect(retentionPolicyFromEnv({})).toEqual(DEFAULT_RETENTION_POLICY);
+    expect(
+      retentionPolicyFromEnv({ ARTWORK_STAGED_RETENTION_DAYS: "14", ARTWORK_ORDER_RETENTION_DAYS: "nope" }),
+    ).toEqual({ stagedDays: 14, paidOrderDays: DEFAULT_RETENTION_POLICY.paidOrderDays });
+    expect(retentionPolicyFromEnv({ ARTWORK_STAGED_RETENTION_DAYS: "0" }).stagedDays).toBe(
+      DEFAULT_RETENTION_POLICY.stagedDays,
+    );
+  });
+
+  it("computes cutoffs back from now", () => {
+    const now = new Date("2026-06-30T00:00:00Z");
+    expect(retentionCutoffs({ stagedDays: 30, paidOrderDays: 365 }, now)).toEqual({
+      stagedBefore: new Date("2026-05-31T00:00:00Z"),
+      paidOrderBefore: new Date("2025-06-30T00:00:00Z"),
+    });
+  });
+});
+
+describe("object keys", () => {
+  it("groups rendered previews under their original", () => {
+    expect(originalObjectKey("uploads/cart/1_a.pdf")).toBe("uploads/cart/1_a.pdf");
+    expect(originalObjectKey("uploads/cart/1_a.pdf.thumbs/front-640.webp")).toBe("uploads/cart/1_a.pdf");
+  });
+
+  it("matches rows holding either the key or its public URL", () => {
+    const key = "uploads/cart/1_a.pdf";
+    expect(refersToObject(key, key)).toBe(true);
+    expect(refersToObject(`https://cdn.example.com/${key}?v=2`, key)).toBe(true);
+    expect(refersToObject("https://cdn.example.com/uploads/cart/11_a.pdf", key)).toBe(false);
+    expect(refersToObject(null, key)).toBe(false);
+  });
+});
@@ -0,0 +1,183 @@
+// Unit tests for artwork preview rendering (PDF page images + the Images binding pipeline)
+import { describe, it, expect, vi } from "vitest";
+import zlib from "node:zlib";
+import sharp from "sharp";
+
+vi.mock("@/lib/db", () => ({ db: {} }));
+
+import { pdfPageImages } from "@/lib/artwork/pdfImages";
+import { renderArtworkThumbnails, r2ObjectKey } from "@/lib/artwork/thumbnails";
+import { pickThumbnail, thumbnailKey, type ArtworkThumbnails } from "@/lib/artwork/artworkThumb";
+
+/** PDF whose pages each draw one image XObject; images are [dict extras, stream bytes]. */
+function pdf(pages: Array<{ image?: [string, Buffer] }>, opts: { inheritResources?: boolean } = {}) {
+  const parts: Buffer[] = [Buffer.from("%PDF-1.7\n", "latin1")];
+  const obj = (n: number, body: Buffer | string) =>
+    parts.push(
+      Buffer.concat([
+        Buffer.from(`${n} 0 obj\n`, "latin1"),
+        typeof body === "string" ? Buffer.from(body, "latin1") : body,
+        Buffer.from("\nendobj\n", "latin1"),
+      ]),
+    );
+
+  const kids = pages.map((_, i) => `${3 + i * 2} 0 R`).join(" ");
+  obj(1, "<< /Type /Catalog /Pages 2 0 R >>");
+  // Resources on the page tree node are inherited by pages without their own
+  const inherited = opts.inheritResources ? " /Resources << /XObject << /Im0 4 0 R >> >>" : "";
+  obj(2, `<< /Type /Pages /Kids [${kids}] /Count ${pages.length}${inherited} >>`);
+
+  pages.forEach((p, i) => {
+    const pageNum = 3 + i * 2;
+    const imgNum = pageNum + 1;
+    const res = p.image && !opts.inheritResources ? ` /Resources << /XObject << /Im0 ${imgNum} 0 R >> >>` : "";
+    obj(pageNum, `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 252 144]${res} >>`);
+    if (p.image) {
+      const [dict, data] = p.image;
+      obj(
+        imgNum,
+        Buffer.concat([
+          Buffer.from(`<< /Type /XObject /Subtype /Image ${dict} /BitsPerComponent 8 /Length ${data.length} >>\nstream\n`, "latin1"),
+          data,
+          Buffer.from("\nendstream", "latin1"),
+        ]),
+      );
+    } else {
+      obj(imgNum, "<< >>");
+    }
+  });
+
+  parts.push(Buffer.from("trailer\n<< /Root 1 0 R >>\n%%EOF\n", "latin1"));
+  return new Uint8Array(Buffer.concat(parts));
+}
+
+/** Stand-in for the Worker's IMAGES binding, backed by sharp (dev-only dependency). */
+function sharpImages(): ImagesBinding {
+  return {
+    info: () => Promise.reject(new Error("not used")),
+    input(stream) {
+      const steps: ImageTransform[] = [];
+      const transformer: ImageTransformer = {
+        transform(t) {
+          steps.push(t);
+          return transformer;
+        },
+        draw: () => transformer,
+        async output(opts) {
+          let img = sharp(Buffer.from(await new Response(stream).arrayBuffer())).rotate();
+          for (const t of steps) {
+            img = img
+              .resize({ width: t.width, height: t.height, fit: "inside", withoutEnlargement: true })
+              .flatten({ background: t.background ?? "#ffffff" });
+          }
+          const data = await img.webp({ quality: opts.quality }).toBuffer();
+          return {
+            response: () => new Response(new Uint8Array(data)),
+            contentType: () => opts.format,
+            image: () => new Response(new Uint8Array(data)).body!,
+          };
+        },
+      };
+      return transformer;
+    },
+  };
+}
+
+async function jpeg(width: number, height: number) {
+  return sharp({ create: { width, height, channels: 3, background: "#c00" } }).jpeg().toBuffer();
+}
+
+describe("pdfPageImages", () => {
+  it("returns the image drawn on each page", async () => {
+    const cmyk = zlib.deflateSync(Buffer.alloc(4 * 2 * 4, 0x40));
+    const file = pdf([
+      { image: ["/Width 300 /Height 200 /ColorSpace /DeviceRGB /Filter /DCTDecode", await jpeg(300, 200)] },
+      { image: ["/Width 4 /Height 2 /ColorSpace /DeviceCMYK /Filter /FlateDecode", cmyk] },
+    ]);
+
+    const images = pdfPageImages(file);
+    expect(images.map((i) => [i.page, i.encoding, i.width, i.height])).toEqual([
+      [0, "jpeg", 300, 200],
+      [1, "raw", 4, 2],
+    ]);
+    expect(images[1]).toMatchObject({ channels: 4 });
+    expect(images[1].data.length).toBe(32);
+  });
+
+  it("follows inherited resources and skips unsupported encodings", async () => {
+    const file = pdf([{ image: ["/Width 2 /Height 2 /ColorSpace /DeviceGray /Filter /LZWDecode", Buffer.alloc(4)] }]);
+    expect(pdfPageImages(file)).toEqual([]);
+
+    const inherited = pdf([{ image: ["/Width 10 /Height 10 /ColorSpace /DeviceRGB /Filter /DCTDecode", await jpeg(10, 10)] }], {
+      inheritResources: true,
+    });
+    expect(pdfPageImages(inherited)).toHaveLength(1);
+  });
+});
+
+describe("renderArtworkThumbnails", () => {
+  it("renders every size for a raster front without upscaling", async () => {
+    const png = await sharp({ create: { width: 600, height: 300, channels: 4, background: "#0af8" } }).png().toBuffer();
+    const out = await renderArtworkThumbnails(new Uint8Array(png), sharpImages());
+
+    expect(out.status).toBe("ready");
+    expect(out.images.map((i) => [i.face, i.size, i.width, i.height])).toEqual([
+      ["front", 160, 160, 80],
+      ["front", 480, 480, 240],
+      ["front", 1200, 600, 300],
+    ]);
+    expect((await sharp(out.images[0].data).metadata()).format).toBe("webp");
+  });
+
+  it("renders front and back from a two-page PDF", async () => {
+    const cmyk = zlib.deflateSync(Buffer.alloc(40 * 20 * 4, 0x20));
+    const file = pdf([
+      { image: ["/Width 350 /Height 200 /ColorSpace /DeviceRGB /Filter /DCTDecode", await jpeg(350, 200)] },
+      { image: ["/Width 40 /Height 20 /ColorSpace /DeviceCMYK /Filter /FlateDecode", cmyk] },
+    ]);
+
+    const out = await renderArtworkThumbnails(file, sharpImages());
+    expect(out.status).toBe("ready");
+    expect(out.images.filter((i) => i.face === "front")).toHaveLength(3);
+    expect(out.images.find((i) => i.face === "back" && i.size === 160)).toMatchObject({ width: 40, height: 20 });
+  });
+
+  it("reports vector-only PDFs, TIFFs and unknown files as unsupported without touching the binding", async () => {
+    const images = sharpImages();
+    const input = vi.spyOn(images, "input");
+    const tiff = await sharp({ create: { width: 8, height: 8, channels: 3, background: "#000" } }).tiff().toBuffer();
+
+    expect((await renderArtworkThumbnails(pdf([{}]), images)).status).toBe("unsupported");
+    expect(await renderArtworkThumbnails(new Uint8Array(tiff), images)).toMatchObject({
+      status: "unsupported",
+      message: "Previews aren't available for TIFF files",
+    });
+    expect((await renderArtworkThumbnails(new Uint8Array(Buffer.from("%!PS-Adobe-3.0")), images)).status).toBe("unsupported");
+    expect(input).not.toHaveBeenCalled();
+  });
+});
+
+describe("thumbnail keys", () => {
+  it("stores previews next to the original under deterministic keys", () => {
+    expect(thumbnailKey("uploads/artwork/p_1/123_ab.pdf", "back", 480)).toBe("uploads/artwork/p_1/123_ab.pdf.thumbs/back-480.webp");
+    expect(r2ObjectKey("/uploads/a.pdf")).toBe("uploads/a.pdf");
+    expect(r2ObjectKey("https://elsewhere.example/a.pdf")).toBeNull();
+  });
+
+  it("picks the smallest image that covers the requested size", () => {
+    const thumbs: ArtworkThumbnails = {
+      version: 1,
+      status: "ready",
+      generatedAt: "2026-01-01T00:00:00.000Z",
+      images: [
+        { face: "front", size: 1200, width: 600, height: 300, key: "l" },
+        { face: "front", size: 160, width: 160, height: 80, key: "s" },
+        { face: "front", size: 480, width: 480, height: 240, key: "m" },
+      ],
+    };
+    expect(pickThumbnail(thumbs, "front", 112)?.key).toBe("s");
+    expect(pickThumbnail(thumbs, "front", 400)?.key).toBe("m");
+    expect(pickThumbnail(thumbs, "front", 2000)?.key).toBe("l");
+    expect(pickThumbnail(thumbs, "back")).toBeNull();
+  });
+});
@@ -0,0 +1,80 @@
+// Unit tests for the catalog sync hashing and the product/row diffs it applies
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("@/lib/db", () => ({ db: {} }));
+vi.mock("@/lib/sinalite/sinalite.client", () => ({ apiFetchJson: vi.fn(), UpstreamError: class extends Error {} }));
+
+import { canonicalJson, diffProductList, diffRows, hashJson, parseDetailsPayload } from "@/lib/sinalite/catalogSync";
+
+describe("hashJson", () => {
+  it("ignores key order at every level, as a jsonb round-trip would reorder keys", () => {
+    const a = { id: 7, name: "Flyers", meta: { b: 2, a: [1, { y: 1, x: 0 }] } };
+    const b = { meta: { a: [1, { x: 0, y: 1 }], b: 2 }, name: "Flyers", id: 7 };
+    expect(canonicalJson(a)).toBe('{"id":7,"meta":{"a":[1,{"x":0,"y":1}],"b":2},"name":"Flyers"}');
+    expect(hashJson(a)).toBe(hashJson(b));
+    expect(hashJson({ ...a, name: "Flyer" })).not.toBe(hashJson(a));
+  });
+});
+
+describe("diffProductList", () => {
+  it("sorts listed products into added, changed, restored and unchanged, and finds the delisted", () => {
+    const diff = diffProductList(
+      [
+        { productId: 1, hash: "h1" },
+        { productId: 2, hash: "h2-new" },
+        { productId: 3, hash: "h3" },
+        { productId: 5, hash: "h5" },
+        { productId: 6, hash: "h6" },
+      ],
+      [
+        { productId: 1, rawHash: "h1", active: true },
+        { productId: 2, rawHash: "h2", active: true },
+        { productId: 3, rawHash: "h3", active: false },
+        { productId: 4, rawHash: "h4", active: true },
+        { productId: 6, rawHash: null, active: true },
+        { productId: 7, rawHash: "h7", active: false },
+      ],
+    );
+
+    expect(diff).toEqual({ added: [5], changed: [2, 6], restored: [3], unchanged: [1], removed: [4] });
+  });
+});
+
+describe("diffRows", () => {
+  const row = (key: string, hash: string) => ({ key, hash, values: {}, raw: null });
+
+  it("writes only rows whose content moved and deletes rows no longer upstream", () => {
+    const diff = diffRows(
+      [
+        { key: "a", hash: "1" },
+        { key: "b", hash: "2" },
+        { key: "c", hash: "3" },
+      ],
+      [row("a", "1"), row("b", "2*"), row("d", "4")],
+    );
+
+    expect(diff.insert.map((r) => r.key)).toEqual(["d"]);
+    expect(diff.update.map((r) => r.key)).toEqual(["b"]);
+    expect(diff.remove).toEqual(["c"]);
+    expect(diff.unchanged).toBe(1);
+  });
+
+  it("keeps the last row when upstream repeats a key", () => {
+    const diff = diffRows([], [row("a", "1"), row("a", "2")]);
+    expect(diff.insert).toEqual([row("a", "2")]);
+  });
+});
+
+describe("parseDetailsPayload", () => {
+  it("reads both payload shapes and tells roll labels from regular products", () => {
+    const regular = parseDetailsPayload([[{ id: 1, group: "size", name: "4x6" }], [{ hash: "x", value: "9.50" }], [{}]]);
+    expect(regular.kind).toBe("regular");
+    expect(regular.array2).toHaveLength(1);
+
+    const roll = parseDetailsPayload({ options: [{ option_id: 1, opt_val_id: 2 }], exclusions: [], content: [] });
+    expect(roll.kind).toBe("roll-label");
+    expect(roll.array1).toHaveLength(1);
+
+    expect(parseDetailsPayload(null)).toEqual({ kind: "regular", array1: [], array2: [], array3: [] });
+  });
+});
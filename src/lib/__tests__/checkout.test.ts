@@ -0,0 +1,65 @@
+// Unit tests for the Stripe Checkout Session adjustments built from cart totals
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("@/lib/db", () => ({ db: {} }));
+
+import { cartCreditDiscounts, cartTaxLineItem, type CartTotals } from "@/lib/checkout";
+
+function totals(overrides: Partial<CartTotals> = {}): CartTotals {
+  return {
+    cartId: "cart_1",
+    sid: "sid_1",
+    userId: null,
+    currency: "USD",
+    subtotalCents: 10_000,
+    shippingCents: 1_500,
+    taxCents: 0,
+    taxSource: "none",
+    creditsCents: 0,
+    totalCents: 11_500,
+    ...overrides,
+  };
+}
+
+function fakeStripe() {
+  const create = vi.fn(async (_params: Record<string, unknown>) => ({ id: "co_123" }));
+  return { stripe: { coupons: { create } } as any, create };
+}
+
+describe("cartCreditDiscounts", () => {
+  it("turns cart credits into a single-use coupon for the session", async () => {
+    const { stripe, create } = fakeStripe();
+    const discounts = await cartCreditDiscounts(stripe, totals({ creditsCents: 1_000, currency: "CAD" }));
+
+    expect(discounts).toEqual([{ coupon: "co_123" }]);
+    expect(create).toHaveBeenCalledWith(
+      expect.objectContaining({ amount_off: 1_000, currency: "cad", duration: "once", max_redemptions: 1 }),
+    );
+  });
+
+  it("caps the coupon at the subtotal, like the webhook's discount", async () => {
+    const { stripe, create } = fakeStripe();
+    await cartCreditDiscounts(stripe, totals({ creditsCents: 50_000 }));
+    expect(create.mock.calls[0][0]).toMatchObject({ amount_off: 10_000 });
+  });
+
+  it("creates nothing when the cart has no credits", async () => {
+    const { stripe, create } = fakeStripe();
+    expect(await cartCreditDiscounts(stripe, totals())).toEqual([]);
+    expect(create).not.toHaveBeenCalled();
+  });
+});
+
+describe("cartTaxLineItem", () => {
+  it("charges the provider's tax estimate as its own line", () => {
+    expect(cartTaxLineItem(totals({ taxCents: 862, taxSource: "rules_table" }))).toEqual({
+      quantity: 1,
+      price_data: {
+        currency: "usd",
+        unit_amount: 862,
+        product_data: { name: "Tax", metadata: { taxSource: "rules_table" } },
+      },
+    });
+    expect(cartTaxLineItem(totals())).toBeNull();
+  });
+});
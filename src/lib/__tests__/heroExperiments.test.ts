@@ -0,0 +1,84 @@
+// Unit tests for hero A/B variant assignment and the significance indicator
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("@/lib/db", () => ({ db: {} }));
+
+import {
+  applyHeroVariant,
+  assignHeroVariant,
+  HeroVariantsSchema,
+  parseStoredVariants,
+  summarizeVariants,
+  twoProportionTest,
+  type HeroVariant,
+} from "@/lib/heroExperiments";
+
+const AB: HeroVariant[] = [
+  { key: "a", weight: 1 },
+  { key: "b", weight: 1, title: "Free shipping this week" },
+];
+
+describe("assignHeroVariant", () => {
+  it("is stable per session and slide", () => {
+    const first = assignHeroVariant("sid-123", "business-cards", AB);
+    for (let i = 0; i < 5; i++) expect(assignHeroVariant("sid-123", "business-cards", AB)).toBe(first);
+    expect(assignHeroVariant(null, "business-cards", AB)?.key).toBe("a");
+    expect(assignHeroVariant("sid-123", "business-cards", [])).toBeNull();
+  });
+
+  it("splits sessions by weight", () => {
+    const weighted: HeroVariant[] = [
+      { key: "a", weight: 3 },
+      { key: "b", weight: 1 },
+    ];
+    let b = 0;
+    for (let i = 0; i < 4000; i++) if (assignHeroVariant(`sid-${i}`, "promo", weighted)?.key === "b") b++;
+    expect(b / 4000).toBeGreaterThan(0.22);
+    expect(b / 4000).toBeLessThan(0.28);
+  });
+
+  it("applies the variant's overrides and tags the slide", () => {
+    const slide = { id: "promo", title: "Base", imageUrl: "img", alt: "x" };
+    expect(applyHeroVariant(slide, AB[1])).toEqual({ ...slide, title: "Free shipping this week", variant: "b" });
+    expect(applyHeroVariant(slide, null)).toBe(slide);
+  });
+
+  it("validates variant sets", () => {
+    expect(HeroVariantsSchema.safeParse(AB).success).toBe(true);
+    expect(HeroVariantsSchema.safeParse([AB[0]]).success).toBe(false);
+    expect(HeroVariantsSchema.safeParse([AB[0], AB[0]]).success).toBe(false);
+    expect(parseStoredVariants([AB[0], { key: "BAD KEY" }])).toEqual([]);
+  });
+});
+
+describe("significance", () => {
+  it("flags a real CTR difference and not noise", () => {
+    const strong = twoProportionTest(50, 1000, 90, 1000)!;
+    expect(strong.significant).toBe(true);
+    expect(strong.z).toBeGreaterThan(3);
+
+    expect(twoProportionTest(50, 1000, 55, 1000)!.significant).toBe(false);
+    expect(twoProportionTest(1, 10, 5, 10)).toBeNull();
+  });
+
+  it("compares each variant with the slide's control", () => {
+    const row = (variant: string | null, viewers: number, clickers: number) => ({
+      slideId: "promo",
+      variant,
+      impressions: viewers * 2,
+      viewers,
+      clicks: clickers,
+      clickers,
+      adders: 0,
+      orders: 0,
+      revenueCents: 0,
+    });
+
+    const [a, b] = summarizeVariants([row("b", 1000, 90), row("a", 1000, 50)], new Map([["promo", "a"]]));
+    expect(a.variant).toBe("a");
+    expect(a.significance).toBeNull();
+    expect(b.ctr).toBeCloseTo(0.09);
+    expect(b.significance).toMatchObject({ control: "a", significant: true });
+    expect(b.significance!.lift).toBeCloseTo(0.8);
+  });
+});
@@ -0,0 +1,120 @@
+// Unit tests for scheduled, audience-targeted hero slides
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+import type { HeroSlideRow } from "@/lib/db/schema/heroSlides";
+
+const rows: HeroSlideRow[] = [];
+let loads = 0;
+
+vi.mock("@/lib/db", () => {
+  const db = {
+    select: () => ({
+      from: () => ({
+        where: async () => {
+          loads += 1;
+          return rows.filter((r) => r.status === "published");
+        },
+        limit: async () => rows.slice(0, 1),
+      }),
+    }),
+  };
+  return { db };
+});
+
+import { getActiveHeroSlides, invalidateHeroSlidesCache, nextScheduleBoundary, selectHeroSlides } from "@/lib/heroSlides.server";
+import { getHeroSlides } from "@/lib/heroSlides";
+
+const T0 = new Date("2026-11-01T12:00:00Z");
+const hours = (n: number) => new Date(T0.getTime() + n * 3600_000);
+
+function slide(slug: string, extra: Partial<HeroSlideRow> = {}): HeroSlideRow {
+  return {
+    id: `id-${slug}`,
+    slug,
+    status: "published",
+    priority: 0,
+    startsAt: null,
+    endsAt: null,
+    audienceStore: "all",
+    audienceAuth: "all",
+    title: slug,
+    description: null,
+    imageUrl: `img-${slug}`,
+    alt: slug,
+    ctaText: null,
+    ctaHref: null,
+    badge: null,
+    fit: null,
+    focal: null,
+    blurDataUrl: null,
+    variants: [],
+    createdBy: "admin:test",
+    updatedBy: "admin:test",
+    createdAt: T0,
+    updatedAt: T0,
+    ...extra,
+  };
+}
+
+const guestUS = { store: "US" as const, signedIn: false };
+const ids = (s: Array<{ id: string }>) => s.map((x) => x.id);
+
+describe("selectHeroSlides", () => {
+  it("keeps published slides inside their window, highest priority first", () => {
+    const all = [
+      slide("low"),
+      slide("high", { priority: 10 }),
+      slide("draft", { status: "draft", priority: 99 }),
+      slide("later", { startsAt: hours(1) }),
+      slide("over", { endsAt: T0 }),
+    ];
+    expect(ids(selectHeroSlides(all, guestUS, T0))).toEqual(["high", "low"]);
+    expect(ids(selectHeroSlides(all, guestUS, hours(1)))).toEqual(["high", "low", "later"]);
+  });
+
+  it("targets store and signed-in state", () => {
+    const all = [
+      slide("ca", { audienceStore: "CA" }),
+      slide("members", { audienceAuth: "signed_in" }),
+      slide("guests", { audienceAuth: "guest" }),
+    ];
+    expect(ids(selectHeroSlides(all, guestUS, T0))).toEqual(["guests"]);
+    expect(ids(selectHeroSlides(all, { store: "CA", signedIn: true }, T0))).toEqual(["ca", "members"]);
+  });
+
+  it("finds the next start or end time", () => {
+    const all = [slide("a", { startsAt: hours(-1), endsAt: hours(5) }), slide("b", { startsAt: hours(2) })];
+    expect(nextScheduleBoundary(all, T0)).toEqual(hours(2));
+    expect(nextScheduleBoundary([slide("c")], T0)).toBeNull();
+  });
+});
+
+describe("getActiveHeroSlides", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(T0);
+    rows.length = 0;
+    loads = 0;
+    invalidateHeroSlidesCache();
+  });
+  afterEach(() => vi.useRealTimers());
+
+  it("serves the built-in slides until the table has rows", async () => {
+    expect(ids(await getActiveHeroSlides(guestUS))).toEqual(ids(getHeroSlides()));
+
+    rows.push(slide("draft-only", { status: "draft" }));
+    invalidateHeroSlidesCache();
+    expect(await getActiveHeroSlides(guestUS)).toEqual([]);
+  });
+
+  it("reloads at a schedule boundary sooner than the TTL", async () => {
+    rows.push(slide("sale", { startsAt: T0, endsAt: new Date(T0.getTime() + 5_000) }));
+
+    expect(ids(await getActiveHeroSlides(guestUS))).toEqual(["sale"]);
+    expect(loads).toBe(1);
+
+    vi.setSystemTime(new Date(T0.getTime() + 5_000));
+    expect(await getActiveHeroSlides(guestUS)).toEqual([]);
+    expect(loads).toBe(2);
+  });
+});
@@ -0,0 +1,113 @@
+// Unit tests for linking cart-line artwork to an order's artwork_uploads
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const mocks = vi.hoisted(() => ({
+  results: [] as unknown[][],
+  inserted: [] as unknown[],
+}));
+
+// Every query builder call chains; awaiting a query yields the next queued result
+function query(onCall?: (method: string, args: unknown[]) => void): any {
+  const q: any = new Proxy(
+    {},
+    {
+      get: (_t, prop) =>
+        prop === "then"
+          ? (resolve: (v: unknown) => void) => resolve(mocks.results.shift() ?? [])
+          : (...args: unknown[]) => {
+              onCall?.(String(prop), args);
+              return q;
+            },
+    },
+  );
+  return q;
+}
+
+vi.mock("@/lib/db", () => ({
+  db: {
+    select: () => query(),
+    insert: () => query((method, args) => method === "values" && mocks.inserted.push(...(args[0] as unknown[]))),
+  },
+}));
+
+import { db } from "@/lib/db";
+import { linkCartArtworkToOrder, orderArtworkFromCartFiles, type CartLineFile } from "@/lib/artwork/orderArtwork";
+import { artworkReadiness } from "@/lib/sinalite/orderSubmission";
+
+const ORDER_ID = "00000000-0000-0000-0000-000000000001";
+const order = { id: ORDER_ID, userId: "user_1", cartId: "00000000-0000-0000-0000-0000000000c1" };
+
+function file(over: Partial<CartLineFile> = {}): CartLineFile {
+  return {
+    id: "00000000-0000-0000-0000-0000000000f1",
+    productId: 10,
+    url: "https://files.example.com/cart/front.pdf",
+    fileName: "front.pdf",
+    contentType: "application/pdf",
+    createdAt: new Date("2026-03-01T10:00:00Z"),
+    ...over,
+  };
+}
+
+beforeEach(() => {
+  mocks.results = [];
+  mocks.inserted = [];
+});
+
+describe("orderArtworkFromCartFiles", () => {
+  it("keys each row on the cart file it came from and starts it in review", () => {
+    const [row] = orderArtworkFromCartFiles({ id: ORDER_ID, userId: "user_1" }, [file()]);
+    expect(row).toMatchObject({
+      productId: "10",
+      orderId: ORDER_ID,
+      userId: "user_1",
+      fileUrl: "https://files.example.com/cart/front.pdf",
+      fileName: "front.pdf",
+      sourceFileId: "00000000-0000-0000-0000-0000000000f1",
+    });
+    expect(row).not.toHaveProperty("approved");
+  });
+
+  it("skips quoted in-house lines and URLs too long for artwork_uploads", () => {
+    const rows = orderArtworkFromCartFiles({ id: ORDER_ID, userId: "user_1" }, [
+      file({ productId: 0 }),
+      file({ url: `https://files.example.com/${"a".repeat(300)}.pdf` }),
+      file({ url: "  " }),
+    ]);
+    expect(rows).toEqual([]);
+  });
+});
+
+describe("linkCartArtworkToOrder", () => {
+  it("gives a paid order whose only artwork is in cart_attachments something to approve and submit", async () => {
+    // order, cart_artwork, cart_attachments, insert returning
+    mocks.results = [[order], [], [file()], [{ id: "au_1" }]];
+
+    expect(await linkCartArtworkToOrder(db, ORDER_ID)).toBe(1);
+    expect(mocks.inserted).toHaveLength(1);
+
+    const lines = [{ productId: 10, quantity: 1, optionIds: [1] }];
+    const linked = mocks.inserted as Array<{ productId: string; fileUrl: string; createdAt: Date }>;
+
+    // Waits for staff review, no longer for artwork that can never arrive
+    expect(artworkReadiness(lines, linked.map((u) => ({ ...u, approved: false, proofStatus: "pending_review" })))).toEqual({
+      ready: false,
+      missingProductIds: [10],
+    });
+
+    const approved = artworkReadiness(lines, linked.map((u) => ({ ...u, approved: true, proofStatus: "approved" })));
+    expect(approved.ready).toBe(true);
+    if (approved.ready) {
+      expect(approved.filesByProduct.get(10)).toEqual([{ type: "front", url: "https://files.example.com/cart/front.pdf" }]);
+    }
+  });
+
+  it("does nothing for an order without a cart or cart files", async () => {
+    mocks.results = [[{ ...order, cartId: null }]];
+    expect(await linkCartArtworkToOrder(db, ORDER_ID)).toBe(0);
+
+    mocks.results = [[order], [], []];
+    expect(await linkCartArtworkToOrder(db, ORDER_ID)).toBe(0);
+    expect(mocks.inserted).toEqual([]);
+  });
+});
@@ -0,0 +1,43 @@
+// Unit tests for the order lifecycle state machine
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("@/lib/db", () => ({ db: {} }));
+
+import { ApiError } from "@/lib/apiError";
+import { assertTransition, canTransition, transitionBlockedReason } from "@/lib/orderLifecycle";
+
+describe("order transitions", () => {
+  it("follows the happy path", () => {
+    expect(canTransition("draft", "submitted")).toBe(true);
+    expect(canTransition("submitted", "paid")).toBe(true);
+    expect(canTransition("paid", "fulfilled")).toBe(true);
+    expect(canTransition("fulfilled", "refunded")).toBe(true);
+  });
+
+  it("rejects moves out of terminal or backwards states", () => {
+    expect(canTransition("refunded", "paid")).toBe(false);
+    expect(canTransition("fulfilled", "paid")).toBe(false);
+    expect(canTransition("cancelled", "paid")).toBe(false);
+  });
+
+  it("cannot fulfill an unpaid order", () => {
+    expect(transitionBlockedReason({ status: "paid", paymentStatus: "pending" }, "fulfilled")).toMatch(/unpaid/);
+    expect(transitionBlockedReason({ status: "paid", paymentStatus: "paid" }, "fulfilled")).toBeNull();
+  });
+
+  it("cannot refund an order that was never paid", () => {
+    expect(transitionBlockedReason({ status: "cancelled", paymentStatus: "unpaid" }, "refunded")).toMatch(/never paid/);
+    expect(transitionBlockedReason({ status: "cancelled", paymentStatus: "paid" }, "refunded")).toBeNull();
+  });
+
+  it("throws a 409 ApiError for illegal transitions", () => {
+    try {
+      assertTransition({ status: "submitted", paymentStatus: null }, "fulfilled");
+      expect.unreachable();
+    } catch (e) {
+      expect(e).toBeInstanceOf(ApiError);
+      expect((e as ApiError).status).toBe(409);
+      expect((e as ApiError).code).toBe("INVALID_ORDER_TRANSITION");
+    }
+  });
+});
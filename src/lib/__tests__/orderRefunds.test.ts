@@ -0,0 +1,49 @@
+// Unit tests for refund status + loyalty clawback math
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("@/lib/db", () => ({ db: {} }));
+
+import { paymentStatusAfterRefund, refundedAfterLostDispute } from "@/lib/orderRefunds";
+import { refundClawbackPoints } from "@/lib/loyalty";
+
+describe("paymentStatusAfterRefund", () => {
+  it("distinguishes partial and full refunds", () => {
+    expect(paymentStatusAfterRefund(0, 5000)).toBe("paid");
+    expect(paymentStatusAfterRefund(1500, 5000)).toBe("partially_refunded");
+    expect(paymentStatusAfterRefund(5000, 5000)).toBe("refunded");
+  });
+});
+
+describe("refundedAfterLostDispute", () => {
+  it("adds only the disputed amount, capped at what wasn't refunded yet", () => {
+    expect(refundedAfterLostDispute(0, 5000, 1200)).toBe(1200);
+    expect(paymentStatusAfterRefund(refundedAfterLostDispute(0, 5000, 1200), 5000)).toBe("partially_refunded");
+    expect(refundedAfterLostDispute(1000, 5000, 5000)).toBe(5000);
+    expect(refundedAfterLostDispute(0, 5000, 5000)).toBe(5000);
+  });
+});
+
+describe("refundClawbackPoints", () => {
+  it("claws back the refunded share of earned points", () => {
+    expect(refundClawbackPoints({ earnedPoints: 500, alreadyClawedPoints: 0, refundedCents: 2500, paidCents: 10000 })).toBe(
+      125,
+    );
+  });
+
+  it("subtracts earlier clawbacks so cumulative partial refunds converge", () => {
+    expect(refundClawbackPoints({ earnedPoints: 500, alreadyClawedPoints: 125, refundedCents: 5000, paidCents: 10000 })).toBe(
+      125,
+    );
+    expect(
+      refundClawbackPoints({ earnedPoints: 500, alreadyClawedPoints: 250, refundedCents: 10000, paidCents: 10000 }),
+    ).toBe(250);
+  });
+
+  it("is a no-op without earned points, refunds, or once fully clawed", () => {
+    expect(refundClawbackPoints({ earnedPoints: 0, alreadyClawedPoints: 0, refundedCents: 10000, paidCents: 10000 })).toBe(0);
+    expect(refundClawbackPoints({ earnedPoints: 500, alreadyClawedPoints: 0, refundedCents: 0, paidCents: 10000 })).toBe(0);
+    expect(refundClawbackPoints({ earnedPoints: 500, alreadyClawedPoints: 500, refundedCents: 10000, paidCents: 10000 })).toBe(
+      0,
+    );
+  });
+});
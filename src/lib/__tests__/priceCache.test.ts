@@ -0,0 +1,56 @@
+// Unit tests for the Sinalite price cache keys, freshness windows and health summary
+import crypto from "node:crypto";
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("@/lib/db", () => ({ db: {} }));
+vi.mock("@/lib/sinalite.server", () => ({ priceByOptionIds: vi.fn(), resolveStoreCode: vi.fn() }));
+
+import { freshness, matrixHash, priceCacheKey, summarizeCacheStats } from "@/lib/sinalite/priceCache";
+
+describe("priceCacheKey", () => {
+  it("sorts, de-duplicates and drops invalid ids so any selection order maps to one key", () => {
+    expect(priceCacheKey([540, "30", 4, 30, 0, -2, "x", 105.9])).toEqual({ ids: [4, 30, 105, 540], key: "4-30-105-540" });
+    expect(priceCacheKey([105, 4, 540, 30]).key).toBe(priceCacheKey([30, 540, 4, 105]).key);
+    expect(priceCacheKey([])).toEqual({ ids: [], key: "" });
+  });
+
+  it("hashes the key the way the ingested pricing matrix does", () => {
+    const md5 = crypto.createHash("md5").update("4-30-105").digest("hex");
+    expect(matrixHash([105, 30, 4])).toBe(md5);
+  });
+});
+
+describe("freshness", () => {
+  const policy = { freshMs: 60_000, maxStaleMs: 600_000 };
+  const now = Date.parse("2026-10-19T12:00:00Z");
+
+  it("is fresh, then stale, then expired", () => {
+    expect(freshness(now - 59_999, now, policy)).toBe("fresh");
+    expect(freshness(now - 60_000, now, policy)).toBe("stale");
+    expect(freshness(now - 599_999, now, policy)).toBe("stale");
+    expect(freshness(now - 600_000, now, policy)).toBe("expired");
+  });
+});
+
+describe("summarizeCacheStats", () => {
+  it("groups outcomes by day and computes hit and stale rates over lookups", () => {
+    const { days, totals } = summarizeCacheStats([
+      { day: "2026-10-19", outcome: "fresh", count: 6 },
+      { day: "2026-10-18", outcome: "fresh", count: 8 },
+      { day: "2026-10-18", outcome: "stale", count: 1 },
+      { day: "2026-10-18", outcome: "miss", count: 1 },
+      { day: "2026-10-19", outcome: "miss", count: 2 },
+      { day: "2026-10-19", outcome: "refresh_failed", count: 3 },
+      { day: "2026-10-19", outcome: "bogus", count: 50 },
+    ]);
+
+    expect(days.map((d) => d.day)).toEqual(["2026-10-18", "2026-10-19"]);
+    expect(days[0]).toMatchObject({ lookups: 10, hitRate: 0.9, staleRate: 0.1 });
+    expect(days[1]).toMatchObject({ fresh: 6, miss: 2, refresh_failed: 3, lookups: 8, hitRate: 0.75, staleRate: 0 });
+    expect(totals).toMatchObject({ fresh: 14, stale: 1, miss: 3, lookups: 18, hitRate: 0.8333 });
+  });
+
+  it("reports null rates when nothing was looked up", () => {
+    expect(summarizeCacheStats([]).totals).toMatchObject({ lookups: 0, hitRate: null, staleRate: null });
+  });
+});
@@ -0,0 +1,33 @@
+// Unit tests for the cart repricing tolerance and the margin math behind the price-change report
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("@/lib/db", () => ({ db: {} }));
+vi.mock("@/lib/price/compute", () => ({ computePrice: vi.fn() }));
+vi.mock("@/lib/pricing", () => ({ marginFloorFor: vi.fn() }));
+vi.mock("@/lib/sinalite.server", () => ({ priceByOptionIds: vi.fn(), resolveStoreCode: vi.fn() }));
+
+import { exceedsTolerance, marginPct } from "@/lib/sinalite/priceChanges";
+
+describe("exceedsTolerance", () => {
+  it("only reprices when the line total moves by more than the tolerance", () => {
+    expect(exceedsTolerance(10_000, 10_100, 0.01)).toBe(false);
+    expect(exceedsTolerance(10_000, 10_101, 0.01)).toBe(true);
+    expect(exceedsTolerance(10_000, 9_899, 0.01)).toBe(true);
+    expect(exceedsTolerance(10_000, 10_000, 0)).toBe(false);
+    expect(exceedsTolerance(10_000, 10_001, 0)).toBe(true);
+  });
+
+  it("always reprices a line that had no price", () => {
+    expect(exceedsTolerance(0, 500, 0.5)).toBe(true);
+    expect(exceedsTolerance(0, 0, 0.5)).toBe(false);
+  });
+});
+
+describe("marginPct", () => {
+  it("is the share of the sell price left after cost", () => {
+    expect(marginPct(10_000, 7_500)).toBe(0.25);
+    expect(marginPct(3_000, 2_000)).toBe(0.3333);
+    expect(marginPct(5_000, 6_000)).toBe(-0.2);
+    expect(marginPct(0, 100)).toBeNull();
+  });
+});
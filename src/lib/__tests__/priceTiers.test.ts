@@ -0,0 +1,68 @@
+// Unit tests for DB-backed price tier resolution
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const rows: Array<Record<string, unknown>> = [];
+
+vi.mock("@/lib/db", () => {
+  const db = {
+    select: () => ({ from: async () => rows }),
+  };
+  return { db };
+});
+
+import { resolvePriceTiers, invalidatePriceTiersCache } from "@/lib/priceTiers";
+import { applyTieredMarkup } from "@/lib/pricing";
+
+function tier(scope: string, scopeId: number | null, store: string, mult: string, minQty = 1, maxQty: number | null = null) {
+  return { scope, scopeId, store, minQty, maxQty, mult, floorPct: null };
+}
+
+describe("resolvePriceTiers", () => {
+  beforeEach(() => {
+    rows.length = 0;
+    invalidatePriceTiersCache();
+  });
+
+  it("returns null when the table is empty (env fallback)", async () => {
+    expect(await resolvePriceTiers("US", { productId: 1 })).toBeNull();
+  });
+
+  it("prefers product over subcategory over category over global", async () => {
+    rows.push(
+      tier("global", null, "USD", "1.500"),
+      tier("category", 7, "USD", "1.700"),
+      tier("subcategory", 8, "USD", "1.800"),
+      tier("product", 9, "USD", "2.000"),
+    );
+
+    expect((await resolvePriceTiers("US", { productId: 9, subcategoryId: 8, categoryId: 7 }))?.scope).toBe("product");
+    expect((await resolvePriceTiers("US", { productId: 99, subcategoryId: 8, categoryId: 7 }))?.scope).toBe("subcategory");
+    expect((await resolvePriceTiers("US", { productId: 99, subcategoryId: 88, categoryId: 7 }))?.scope).toBe("category");
+    expect((await resolvePriceTiers("US", { productId: 99, subcategoryId: 88, categoryId: 77 }))?.scope).toBe("global");
+  });
+
+  it("treats USD/CAD and US/CA store codes the same and keeps stores separate", async () => {
+    rows.push(tier("global", null, "CAD", "1.400"), tier("global", null, "US", "1.900"));
+
+    expect((await resolvePriceTiers("CA"))?.tiers[0].mult).toBe(1.4);
+    expect((await resolvePriceTiers("US"))?.tiers[0].mult).toBe(1.9);
+  });
+
+  it("reads fresh rows on request without replacing the cached ones", async () => {
+    rows.push(tier("global", null, "USD", "1.500"));
+    expect((await resolvePriceTiers("US"))?.tiers[0].mult).toBe(1.5);
+
+    rows[0] = tier("global", null, "USD", "2.500");
+    expect((await resolvePriceTiers("US", {}, { fresh: true }))?.tiers[0].mult).toBe(2.5);
+    expect((await resolvePriceTiers("US"))?.tiers[0].mult).toBe(1.5);
+  });
+
+  it("drives applyTieredMarkup when present", async () => {
+    rows.push(tier("global", null, "USD", "2.000"));
+
+    const result = await applyTieredMarkup({ store: "US", quantity: 1, lineCostCents: 1000, debug: true });
+
+    expect(result.lineSellCents).toBe(2000);
+    expect(result.debug?.tierSource).toEqual({ source: "db", scope: "global", scopeId: null });
+  });
+});
@@ -0,0 +1,124 @@
+// Unit tests for promo code evaluation
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("@/lib/db", () => ({ db: {} }));
+
+import { checkPromoLimits, evaluatePromo, normalizePromoCode, type PromoCartContext } from "@/lib/promoCodes";
+import type { PromoCodeRow } from "@/lib/db/schema/promoCodes";
+
+function promo(overrides: Partial<PromoCodeRow> = {}): PromoCodeRow {
+  return {
+    id: "p1",
+    code: "SAVE10",
+    description: null,
+    kind: "percent",
+    percentOff: 10,
+    amountOffCentsUsd: null,
+    amountOffCentsCad: null,
+    minSubtotalCentsUsd: null,
+    minSubtotalCentsCad: null,
+    maxRedemptions: null,
+    maxRedemptionsPerCustomer: null,
+    productIds: [],
+    categoryIds: [],
+    startsAt: null,
+    endsAt: null,
+    active: true,
+    createdAt: new Date(0),
+    updatedAt: new Date(0),
+    ...overrides,
+  };
+}
+
+const cart: PromoCartContext = {
+  currency: "USD",
+  lines: [
+    { productId: 1, lineTotalCents: 6000 },
+    { productId: 2, lineTotalCents: 4000 },
+  ],
+  shippingCents: 1500,
+};
+
+const noUsage = { total: 0, byCustomer: 0 };
+
+describe("normalizePromoCode", () => {
+  it("uppercases and rejects junk", () => {
+    expect(normalizePromoCode(" save 10 ")).toBe("SAVE10");
+    expect(normalizePromoCode("x")).toBeNull();
+    expect(normalizePromoCode("bad;code")).toBeNull();
+  });
+});
+
+describe("evaluatePromo", () => {
+  it("takes a percentage of the subtotal", () => {
+    expect(evaluatePromo(promo(), cart, noUsage, { customerId: null })).toMatchObject({ ok: true, amountCents: 1000 });
+  });
+
+  it("only counts scoped products", () => {
+    const result = evaluatePromo(promo({ productIds: [2] }), cart, noUsage, { customerId: null });
+    expect(result).toMatchObject({ ok: true, amountCents: 400, eligibleSubtotalCents: 4000 });
+  });
+
+  it("caps fixed amounts at the eligible subtotal and uses the cart currency", () => {
+    const fixed = promo({ kind: "fixed", percentOff: null, amountOffCentsUsd: 50000, amountOffCentsCad: null });
+    expect(evaluatePromo(fixed, cart, noUsage, { customerId: null })).toMatchObject({ ok: true, amountCents: 10000 });
+    expect(evaluatePromo(fixed, { ...cart, currency: "CAD" }, noUsage, { customerId: null })).toMatchObject({
+      ok: false,
+      reason: "currency_unsupported",
+    });
+  });
+
+  it("credits the selected shipping for free_shipping", () => {
+    const free = promo({ kind: "free_shipping", percentOff: null });
+    expect(evaluatePromo(free, cart, noUsage, { customerId: null })).toMatchObject({ ok: true, amountCents: 1500 });
+    expect(evaluatePromo(free, { ...cart, shippingCents: 0 }, noUsage, { customerId: null })).toMatchObject({
+      ok: false,
+      reason: "no_shipping",
+    });
+  });
+
+  it("enforces the date window and minimum subtotal", () => {
+    const now = new Date("2026-01-15T00:00:00Z");
+    expect(
+      evaluatePromo(promo({ endsAt: new Date("2026-01-01T00:00:00Z") }), cart, noUsage, { customerId: null, now }),
+    ).toMatchObject({ ok: false, reason: "expired" });
+    expect(
+      evaluatePromo(promo({ startsAt: new Date("2026-02-01T00:00:00Z") }), cart, noUsage, { customerId: null, now }),
+    ).toMatchObject({ ok: false, reason: "not_started" });
+    expect(evaluatePromo(promo({ minSubtotalCentsUsd: 20000 }), cart, noUsage, { customerId: null })).toMatchObject({
+      ok: false,
+      reason: "min_subtotal",
+    });
+  });
+
+  it("enforces global and per-customer limits", () => {
+    expect(evaluatePromo(promo({ maxRedemptions: 5 }), cart, { total: 5, byCustomer: 0 }, { customerId: "u1" })).toMatchObject({
+      ok: false,
+      reason: "usage_limit",
+    });
+
+    const once = promo({ maxRedemptionsPerCustomer: 1 });
+    expect(evaluatePromo(once, cart, noUsage, { customerId: null })).toMatchObject({ ok: false, reason: "sign_in_required" });
+    expect(evaluatePromo(once, cart, { total: 3, byCustomer: 1 }, { customerId: "u1" })).toMatchObject({
+      ok: false,
+      reason: "customer_limit",
+    });
+    expect(evaluatePromo(once, cart, { total: 3, byCustomer: 0 }, { customerId: "u1" })).toMatchObject({ ok: true });
+  });
+});
+
+describe("checkPromoLimits", () => {
+  it("catches a code that ran out or expired after it was applied, whatever the cart", () => {
+    const capped = promo({ maxRedemptions: 2, endsAt: new Date("2026-03-01T00:00:00Z") });
+    const before = new Date("2026-02-01T00:00:00Z");
+
+    expect(checkPromoLimits(capped, { total: 1, byCustomer: 0 }, { customerId: "u1", now: before })).toBeNull();
+    expect(checkPromoLimits(capped, { total: 2, byCustomer: 0 }, { customerId: "u1", now: before })).toMatchObject({
+      reason: "usage_limit",
+    });
+    expect(
+      checkPromoLimits(capped, { total: 0, byCustomer: 0 }, { customerId: "u1", now: new Date("2026-03-02T00:00:00Z") }),
+    ).toMatchObject({ reason: "expired" });
+    expect(checkPromoLimits(promo({ active: false }), noUsage, { customerId: "u1" })).toMatchObject({ reason: "inactive" });
+  });
+});
@@ -0,0 +1,84 @@
+// Quote PDF: option descriptions and a render smoke test through the shared layout
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("@/lib/db", () => ({ db: {} }));
+
+import { describeOptions, drawQuote } from "@/lib/pdf/quotePdf";
+import { renderPdf } from "@/lib/pdf/layout";
+
+const options = [
+  { productId: 12, optionId: 3, optionGroup: "Stock", optionName: "16pt Gloss" },
+  { productId: 12, optionId: 1, optionGroup: "Size", optionName: "3.5 x 2" },
+  { productId: 99, optionId: 1, optionGroup: "Size", optionName: "Wrong product" },
+];
+
+describe("describeOptions", () => {
+  it("names options in chain order and skips unknown ids", () => {
+    expect(describeOptions(12, [1, 3, 7], options)).toBe("Size: 3.5 x 2 · Stock: 16pt Gloss");
+    expect(describeOptions(5, [1], options)).toBe("");
+  });
+});
+
+describe("drawQuote", () => {
+  it("renders a PDF", async () => {
+    const now = new Date("2026-10-19T12:00:00Z");
+    const quote = {
+      id: "9b2f4c0e-2d7a-4b8e-9a51-3c1f0d6e7a21",
+      quoteNumber: "Q-1001",
+      status: "sent",
+      quoteRequestId: null,
+      customerEmail: "buyer@example.com",
+      customerName: "Sam",
+      company: "Acme",
+      userId: null,
+      store: "US",
+      currency: "USD",
+      shippingLabel: "Freight",
+      shippingCents: 2500,
+      shipTo: { country: "US" as const, state: "NY", city: "Albany" },
+      subtotalCents: 19500,
+      totalCents: 22000,
+      message: "Thanks!",
+      internalNotes: "margin ok",
+      expiresAt: new Date("2026-11-18T12:00:00Z"),
+      sentAt: now,
+      respondedAt: null,
+      declineReason: null,
+      cartId: null,
+      createdBy: null,
+      updatedBy: null,
+      createdAt: now,
+      updatedAt: now,
+      lines: [
+        {
+          id: "1d0b7a52-8f3e-4c1a-b9d2-6e5f4a3b2c10",
+          quoteId: "9b2f4c0e-2d7a-4b8e-9a51-3c1f0d6e7a21",
+          position: 0,
+          kind: "sinalite",
+          productId: 12,
+          optionIds: [1, 3],
+          description: "Business cards",
+          quantity: 250,
+          unitPriceCents: 18,
+          lineTotalCents: 4500,
+        },
+        {
+          id: "5c4b3a29-1e0f-4d8c-a7b6-9f8e7d6c5b40",
+          quoteId: "9b2f4c0e-2d7a-4b8e-9a51-3c1f0d6e7a21",
+          position: 1,
+          kind: "custom",
+          productId: null,
+          optionIds: [],
+          description: "Installation",
+          quantity: 1,
+          unitPriceCents: 15000,
+          lineTotalCents: 15000,
+        },
+      ],
+    };
+
+    const pdf = await renderPdf((doc) => drawQuote(doc, quote, options));
+    expect(pdf.subarray(0, 5).toString("latin1")).toBe("%PDF-");
+    expect(pdf.length).toBeGreaterThan(1000);
+  });
+});
@@ -0,0 +1,85 @@
+// Unit tests for quote lifecycle rules, totals, input validation and customer links
+import { describe, it, expect, vi, beforeAll } from "vitest";
+
+vi.mock("@/lib/db", () => ({ db: {} }));
+vi.mock("@/lib/price/compute", () => ({ computePrice: vi.fn() }));
+
+import { nextQuoteStatus, parseQuoteInput, quoteTotals, quoteViewToken } from "@/lib/quotes";
+import { verifyToken } from "@/lib/signedTokens";
+
+const sinaliteLine = { kind: "sinalite", productId: 12, optionIds: [1, 2, 3], quantity: 250, description: "Business cards" };
+const customLine = { kind: "custom", description: "Installation", quantity: 1, unitPriceCents: 15000 };
+
+describe("nextQuoteStatus", () => {
+  it("follows the quote lifecycle", () => {
+    expect(nextQuoteStatus("draft", "send")).toBe("sent");
+    expect(nextQuoteStatus("sent", "accept")).toBe("accepted");
+    expect(nextQuoteStatus("sent", "decline")).toBe("declined");
+    expect(nextQuoteStatus("sent", "expire")).toBe("expired");
+    expect(nextQuoteStatus("declined", "revise")).toBe("draft");
+    expect(nextQuoteStatus("expired", "revise")).toBe("draft");
+    expect(nextQuoteStatus("sent", "cancel")).toBe("cancelled");
+  });
+
+  it("rejects moves out of final or unsent states", () => {
+    expect(nextQuoteStatus("draft", "accept")).toBeNull();
+    expect(nextQuoteStatus("accepted", "revise")).toBeNull();
+    expect(nextQuoteStatus("accepted", "cancel")).toBeNull();
+    expect(nextQuoteStatus("expired", "accept")).toBeNull();
+    expect(nextQuoteStatus("cancelled", "send")).toBeNull();
+  });
+});
+
+describe("quote input", () => {
+  it("sums line totals and shipping", () => {
+    expect(quoteTotals([{ lineTotalCents: 4500 }, { lineTotalCents: 15000 }], 1299)).toEqual({
+      subtotalCents: 19500,
+      totalCents: 20799,
+    });
+  });
+
+  it("accepts Sinalite lines without a price and requires one on custom lines", () => {
+    const input = parseQuoteInput({ customerEmail: " Buyer@Example.com ", lines: [sinaliteLine, customLine] });
+    expect(input.customerEmail).toBe("buyer@example.com");
+    expect(input.store).toBe("US");
+    expect(input.shippingCents).toBe(0);
+
+    expect(() =>
+      parseQuoteInput({ customerEmail: "buyer@example.com", lines: [{ ...customLine, unitPriceCents: undefined }] }),
+    ).toThrow("Invalid quote");
+    expect(() => parseQuoteInput({ customerEmail: "buyer@example.com", lines: [] })).toThrow("Invalid quote");
+  });
+
+  it("needs a label and ship-to in the store's country for quoted shipping", () => {
+    const base = { customerEmail: "buyer@example.com", lines: [customLine] };
+    expect(() => parseQuoteInput({ ...base, shippingCents: 2500 })).toThrow("Invalid quote");
+    expect(() =>
+      parseQuoteInput({ ...base, shippingCents: 2500, shippingLabel: "Freight", shipTo: { country: "CA", state: "ON" } }),
+    ).toThrow("Invalid quote");
+
+    const ok = parseQuoteInput({
+      ...base,
+      store: "CA",
+      shippingCents: 2500,
+      shippingLabel: "Freight",
+      shipTo: { country: "CA", state: "ON", zip: "M5V 2T6" },
+    });
+    expect(ok.shipTo).toEqual({ country: "CA", state: "ON", zip: "M5V 2T6" });
+  });
+});
+
+describe("quoteViewToken", () => {
+  beforeAll(() => {
+    process.env.EMAIL_LINK_SECRET = "test-secret";
+  });
+
+  it("stays valid for a grace period after the quote expires", () => {
+    const now = Date.parse("2026-10-19T12:00:00Z");
+    const quote = { id: "9b2f4c0e-2d7a-4b8e-9a51-3c1f0d6e7a21", expiresAt: new Date(now + 7 * 24 * 3600_000) };
+    const token = quoteViewToken(quote, now);
+
+    expect(verifyToken("quote_view", token, now + 20 * 24 * 3600_000)).toBe(quote.id);
+    expect(verifyToken("quote_view", token, now + 40 * 24 * 3600_000)).toBeNull();
+    expect(verifyToken("cart_resume", token, now)).toBeNull();
+  });
+});
@@ -0,0 +1,70 @@
+// Unit tests for the sliding-window rate limiter
+import { describe, it, expect, afterEach } from "vitest";
+
+import { checkRateLimit, clientIpFrom, setRateLimitStore } from "@/lib/rateLimit";
+import { createMemoryRateLimitStore, type RateLimitStore } from "@/lib/rateLimitStores";
+
+const WINDOW = 60_000;
+const T0 = 100 * WINDOW; // aligned to a window boundary
+
+afterEach(() => {
+  setRateLimitStore(null);
+});
+
+describe("checkRateLimit", () => {
+  it("allows up to the limit and blocks after", async () => {
+    let now = T0;
+    setRateLimitStore(createMemoryRateLimitStore(() => now));
+
+    for (let i = 0; i < 3; i++) {
+      expect((await checkRateLimit({ scope: "t", subject: "ip", limit: 3, windowMs: WINDOW, now })).ok).toBe(true);
+    }
+
+    const blocked = await checkRateLimit({ scope: "t", subject: "ip", limit: 3, windowMs: WINDOW, now });
+    expect(blocked.ok).toBe(false);
+    expect(blocked.headers["Retry-After"]).toBe(String(blocked.retryAfterSec));
+
+    // other subjects are independent
+    expect((await checkRateLimit({ scope: "t", subject: "other", limit: 3, windowMs: WINDOW, now })).ok).toBe(true);
+  });
+
+  it("weights the previous window instead of resetting at the boundary", async () => {
+    let now = T0;
+    setRateLimitStore(createMemoryRateLimitStore(() => now));
+
+    for (let i = 0; i < 4; i++) await checkRateLimit({ scope: "t", subject: "ip", limit: 4, windowMs: WINDOW, now });
+
+    // 25% into the next window: previous still counts 4 * 0.75 = 3
+    now = T0 + WINDOW + WINDOW / 4;
+    expect((await checkRateLimit({ scope: "t", subject: "ip", limit: 4, windowMs: WINDOW, now })).ok).toBe(true);
+    const blocked = await checkRateLimit({ scope: "t", subject: "ip", limit: 4, windowMs: WINDOW, now });
+    expect(blocked.ok).toBe(false);
+
+    // the previous window has decayed enough by the end of this one
+    now = T0 + 2 * WINDOW + WINDOW / 2;
+    expect((await checkRateLimit({ scope: "t", subject: "ip", limit: 4, windowMs: WINDOW, now })).ok).toBe(true);
+  });
+
+  it("fails open when the store errors", async () => {
+    const broken: RateLimitStore = {
+      name: "broken",
+      increment: async () => {
+        throw new Error("down");
+      },
+      get: async () => 0,
+    };
+    setRateLimitStore(broken);
+
+    const result = await checkRateLimit({ scope: "t", subject: "ip", limit: 1, windowMs: WINDOW });
+    expect(result.ok).toBe(true);
+  });
+});
+
+describe("clientIpFrom", () => {
+  it("prefers CF-Connecting-IP over X-Forwarded-For", () => {
+    const headers = new Headers({ "cf-connecting-ip": "1.1.1.1", "x-forwarded-for": "2.2.2.2, 3.3.3.3" });
+    expect(clientIpFrom(headers)).toBe("1.1.1.1");
+    expect(clientIpFrom(new Headers({ "x-forwarded-for": "2.2.2.2, 3.3.3.3" }))).toBe("2.2.2.2");
+    expect(clientIpFrom(new Headers(), "0.0.0.0")).toBe("0.0.0.0");
+  });
+});
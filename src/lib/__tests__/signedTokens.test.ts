@@ -0,0 +1,48 @@
+// Unit tests for signed email-link tokens
+import { describe, it, expect, beforeEach } from "vitest";
+
+import { signToken, signedTokensConfigured, verifyToken } from "@/lib/signedTokens";
+
+const NOW = Date.UTC(2026, 0, 15, 12, 0, 0);
+
+describe("signed tokens", () => {
+  beforeEach(() => {
+    process.env.EMAIL_LINK_SECRET = "test_secret_for_links";
+  });
+
+  it("round-trips the subject for the same purpose", () => {
+    const token = signToken("cart_resume", "cart_123", 3600, NOW);
+    expect(verifyToken("cart_resume", token, NOW + 1000)).toBe("cart_123");
+  });
+
+  it("rejects tokens minted for another purpose", () => {
+    const token = signToken("unsubscribe", "user_abc", 3600, NOW);
+    expect(verifyToken("cart_resume", token, NOW)).toBeNull();
+  });
+
+  it("rejects expired and tampered tokens", () => {
+    const token = signToken("cart_resume", "cart_123", 60, NOW);
+    expect(verifyToken("cart_resume", token, NOW + 61_000)).toBeNull();
+
+    const [body, sig] = token.split(".");
+    const forged = Buffer.from(JSON.stringify({ p: "cart_resume", s: "cart_999", e: 9_999_999_999 })).toString(
+      "base64url",
+    );
+    expect(verifyToken("cart_resume", `${forged}.${sig}`, NOW)).toBeNull();
+    expect(verifyToken("cart_resume", `${body}.${sig}x`, NOW)).toBeNull();
+    expect(verifyToken("cart_resume", "garbage", NOW)).toBeNull();
+  });
+
+  it("rejects tokens signed with a different secret", () => {
+    const token = signToken("cart_resume", "cart_123", 3600, NOW);
+    process.env.EMAIL_LINK_SECRET = "rotated_secret";
+    expect(verifyToken("cart_resume", token, NOW)).toBeNull();
+  });
+
+  it("reports a missing secret so link routes can answer 503 instead of throwing", () => {
+    expect(signedTokensConfigured()).toBe(true);
+    process.env.EMAIL_LINK_SECRET = "  ";
+    expect(signedTokensConfigured()).toBe(false);
+    expect(() => verifyToken("cart_resume", "a.b", NOW)).toThrow(/EMAIL_LINK_SECRET/);
+  });
+});
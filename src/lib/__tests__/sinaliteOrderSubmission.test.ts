@@ -0,0 +1,147 @@
+// Unit tests for Sinalite order submission helpers
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("@/lib/db", () => ({ db: {} }));
+vi.mock("@/lib/getSinaliteAccessToken", () => ({ getSinaliteAccessToken: vi.fn(async () => "token") }));
+
+import { ApiError } from "@/lib/apiError";
+import { SinaliteOrderError } from "@/lib/sinalite/placeOrder";
+import {
+  artworkReadiness,
+  buildSinaliteOrderPayload,
+  isRetryableSinaliteError,
+  shipToFromStripe,
+  sinaliteOrderMayExist,
+  sinaliteRetryDelayMs,
+  type SinaliteShipTo,
+  type SubmissionLine,
+} from "@/lib/sinalite/orderSubmission";
+
+const lines: SubmissionLine[] = [
+  { productId: 10, quantity: 2, optionIds: [1, 2, 3] },
+  { productId: 20, quantity: 1, optionIds: [4, 5] },
+];
+
+const shipTo: SinaliteShipTo = {
+  firstName: "Ada",
+  lastName: "Lovelace",
+  email: "ada@example.com",
+  phone: "",
+  street1: "1 Main St",
+  street2: "",
+  city: "Toronto",
+  state: "on",
+  postalCode: "M5V 1A1",
+  country: "CAN",
+};
+
+describe("artworkReadiness", () => {
+  it("needs approved artwork for every product", () => {
+    const result = artworkReadiness(lines, [
+      { productId: "10", fileUrl: "https://r2/front.pdf", approved: true, createdAt: "2026-01-01" },
+      { productId: "20", fileUrl: "https://r2/other.pdf", approved: false, createdAt: "2026-01-01" },
+    ]);
+    expect(result).toEqual({ ready: false, missingProductIds: [20] });
+  });
+
+  it("waits while any file for a product is still in proofing, ignoring rejected files", () => {
+    const pending = artworkReadiness(lines, [
+      { productId: "10", fileUrl: "https://r2/front.pdf", approved: true, proofStatus: "approved", createdAt: "2026-01-01" },
+      { productId: "10", fileUrl: "https://r2/back.pdf", approved: false, proofStatus: "proof_sent", createdAt: "2026-01-02" },
+      { productId: "20", fileUrl: "https://r2/single.pdf", approved: true, proofStatus: "approved", createdAt: "2026-01-01" },
+    ]);
+    expect(pending).toEqual({ ready: false, missingProductIds: [10] });
+
+    const replaced = artworkReadiness(lines, [
+      { productId: "10", fileUrl: "https://r2/old.pdf", approved: false, proofStatus: "rejected", createdAt: "2026-01-01" },
+      { productId: "10", fileUrl: "https://r2/new.pdf", approved: true, proofStatus: "approved", createdAt: "2026-01-02" },
+      { productId: "20", fileUrl: "https://r2/single.pdf", approved: true, proofStatus: "approved", createdAt: "2026-01-01" },
+    ]);
+    expect(replaced.ready).toBe(true);
+    if (!replaced.ready) return;
+    expect(replaced.filesByProduct.get(10)).toEqual([{ type: "front", url: "https://r2/new.pdf" }]);
+  });
+
+  it("maps approved files to sides in upload order", () => {
+    const result = artworkReadiness(lines, [
+      { productId: "10", fileUrl: "https://r2/back.pdf", approved: true, createdAt: "2026-01-02" },
+      { productId: "10", fileUrl: "https://r2/front.pdf", approved: true, createdAt: "2026-01-01" },
+      { productId: "20", fileUrl: "https://r2/single.pdf", approved: true, createdAt: "2026-01-01" },
+    ]);
+    expect(result.ready).toBe(true);
+    if (!result.ready) return;
+    expect(result.filesByProduct.get(10)).toEqual([
+      { type: "front", url: "https://r2/front.pdf" },
+      { type: "back", url: "https://r2/back.pdf" },
+    ]);
+  });
+});
+
+describe("buildSinaliteOrderPayload", () => {
+  const filesByProduct = new Map([
+    [10, [{ type: "front", url: "https://r2/a.pdf" }]],
+    [20, [{ type: "front", url: "https://r2/b.pdf" }]],
+  ]);
+
+  it("expands quantity and normalizes the address", () => {
+    const payload = buildSinaliteOrderPayload({ orderRef: "A-1001", lines, filesByProduct, shipTo, shipMethod: "UPS Ground" });
+    expect(payload.items.map((i) => i.productId)).toEqual([10, 10, 20]);
+    expect(payload.items[0]).toMatchObject({ options: [1, 2, 3], files: [{ type: "front", url: "https://r2/a.pdf" }] });
+    expect(payload.shippingInfo).toMatchObject({ ShipState: "ON", ShipCountry: "CA", ShipMethod: "UPS Ground" });
+    expect(payload.billingInfo.BillAddr).toBe("1 Main St");
+  });
+
+  it("rejects a quantity it can't send in full instead of truncating it", () => {
+    const big = [{ productId: 10, quantity: 150, optionIds: [1, 2, 3] }];
+    expect(() => buildSinaliteOrderPayload({ orderRef: "A-1", lines: big, filesByProduct, shipTo, shipMethod: "UPS Ground" })).toThrow(
+      /quantity 150 is over 100 sets/,
+    );
+    const fractional = [{ productId: 10, quantity: 1.5, optionIds: [1, 2, 3] }];
+    expect(() =>
+      buildSinaliteOrderPayload({ orderRef: "A-1", lines: fractional, filesByProduct, shipTo, shipMethod: "UPS Ground" }),
+    ).toThrow(ApiError);
+  });
+
+  it("rejects missing address or shipping method", () => {
+    expect(() => buildSinaliteOrderPayload({ orderRef: "A-1", lines, filesByProduct, shipTo: null, shipMethod: "" })).toThrow(
+      ApiError,
+    );
+  });
+});
+
+describe("retry policy", () => {
+  it("retries only transient Sinalite failures", () => {
+    expect(isRetryableSinaliteError(new SinaliteOrderError("down", 503))).toBe(true);
+    expect(isRetryableSinaliteError(new SinaliteOrderError("slow", 429))).toBe(true);
+    expect(isRetryableSinaliteError(new SinaliteOrderError("bad", 400))).toBe(false);
+    expect(isRetryableSinaliteError(new ApiError(422, "invalid"))).toBe(false);
+    expect(isRetryableSinaliteError(new Error("token fetch failed"))).toBe(true);
+  });
+
+  it("treats timeouts, network errors and 5xx from /order/new as possibly placed", () => {
+    expect(sinaliteOrderMayExist(new SinaliteOrderError("timed out", 408))).toBe(true);
+    expect(sinaliteOrderMayExist(new SinaliteOrderError("network error", 502))).toBe(true);
+    expect(sinaliteOrderMayExist(new SinaliteOrderError("slow", 429))).toBe(false);
+    expect(sinaliteOrderMayExist(new SinaliteOrderError("bad", 400))).toBe(false);
+    expect(sinaliteOrderMayExist(new Error("token fetch failed"))).toBe(false);
+  });
+
+  it("backs off exponentially up to a cap", () => {
+    const mid = () => 0.5;
+    expect(sinaliteRetryDelayMs(1, mid)).toBe(60_000);
+    expect(sinaliteRetryDelayMs(3, mid)).toBe(240_000);
+    expect(sinaliteRetryDelayMs(50, mid)).toBe(6 * 60 * 60_000);
+  });
+});
+
+describe("shipToFromStripe", () => {
+  it("splits the name and needs a street line", () => {
+    expect(
+      shipToFromStripe(
+        { name: "Ada King Lovelace", address: { line1: "1 Main St", city: "Austin", state: "TX", postal_code: "78701", country: "US" } },
+        { email: "ada@example.com" },
+      ),
+    ).toMatchObject({ firstName: "Ada", lastName: "King Lovelace", email: "ada@example.com", postalCode: "78701" });
+    expect(shipToFromStripe({ name: "Ada", address: { city: "Austin" } })).toBeNull();
+  });
+});
@@ -0,0 +1,117 @@
+// Unit tests for tax module
+import { describe, it, expect, afterEach } from "vitest";
+import { calculateTaxCents, registerTaxProvider, resetTaxProviders } from "@/lib/tax";
+import { reconcileTaxFromStripeTotal } from "@/app/api/stripe/webhook/tax";
+
+afterEach(() => {
+  delete process.env.TAX_US_NEXUS_STATES;
+  resetTaxProviders();
+});
+
+describe("calculateTaxCents (rules_table)", () => {
+  it("taxes NY goods and shipping at the state rate", () => {
+    const result = calculateTaxCents({
+      currency: "USD",
+      subtotalCents: 10000,
+      shippingCents: 1000,
+      creditsCents: 0,
+      location: { country: "US", state: "ny" },
+    });
+
+    expect(result.source).toBe("rules_table");
+    expect(result.taxableCents).toBe(11000);
+    expect(result.taxCents).toBe(440);
+  });
+
+  it("does not tax shipping where it is exempt and reduces the base by credits", () => {
+    const result = calculateTaxCents({
+      currency: "USD",
+      subtotalCents: 10000,
+      shippingCents: 1000,
+      creditsCents: 2000,
+      location: { country: "US", state: "CA" },
+    });
+
+    expect(result.taxableCents).toBe(8000);
+    expect(result.taxCents).toBe(580);
+  });
+
+  it("returns 0 outside configured nexus states", () => {
+    process.env.TAX_US_NEXUS_STATES = "NJ,PA";
+    resetTaxProviders();
+
+    const result = calculateTaxCents({
+      currency: "USD",
+      subtotalCents: 10000,
+      shippingCents: 0,
+      creditsCents: 0,
+      location: { country: "US", state: "NY" },
+    });
+
+    expect(result.taxCents).toBe(0);
+    expect(result.source).toBe("rules_table");
+  });
+
+  it("splits GST and PST for British Columbia", () => {
+    const result = calculateTaxCents({
+      currency: "CAD",
+      subtotalCents: 10000,
+      shippingCents: 500,
+      creditsCents: 0,
+      location: { country: "CA", state: "BC" },
+    });
+
+    expect(result.breakdown?.map((b) => b.code)).toEqual(["GST", "PST"]);
+    expect(result.taxCents).toBe(525 + 735);
+  });
+
+  it("reports source none when there is no destination", () => {
+    const result = calculateTaxCents({
+      currency: "USD",
+      subtotalCents: 10000,
+      shippingCents: 0,
+      creditsCents: 0,
+      location: null,
+    });
+
+    expect(result).toMatchObject({ taxCents: 0, source: "none" });
+  });
+
+  it("lets a registered provider answer first", () => {
+    registerTaxProvider({
+      name: "flat_test",
+      supports: () => true,
+      calculate: () => ({ taxCents: 123, rate: 0.01, source: "flat_test", taxableCents: 0 }),
+    });
+
+    const result = calculateTaxCents({
+      currency: "USD",
+      subtotalCents: 10000,
+      shippingCents: 0,
+      creditsCents: 0,
+      location: { country: "US", state: "NY" },
+    });
+
+    expect(result).toMatchObject({ taxCents: 123, source: "flat_test" });
+  });
+
+  it("matches what the webhook reconciles from the Stripe total", () => {
+    const input = {
+      currency: "CAD" as const,
+      subtotalCents: 25999,
+      shippingCents: 1299,
+      creditsCents: 500,
+      location: { country: "CA", state: "ON" },
+    };
+    const { taxCents } = calculateTaxCents(input);
+    const charged = input.subtotalCents + input.shippingCents + taxCents - input.creditsCents;
+
+    const reconciled = reconcileTaxFromStripeTotal({
+      stripeTotalCents: charged,
+      netSubtotalCents: input.subtotalCents - input.creditsCents,
+      shippingCents: input.shippingCents,
+    });
+
+    expect(reconciled.taxCents).toBe(taxCents);
+  });
+});
@@ -0,0 +1,53 @@
+// Unit tests for per-category upload limits and the multipart part plan
+import { describe, it, expect } from "vitest";
+
+import {
+  DEFAULT_UPLOAD_LIMITS,
+  MAX_PARTS,
+  MIN_PART_SIZE,
+  categorySlugForProduct,
+  checkUploadLimits,
+  checkUploadSize,
+  planMultipart,
+  uploadLimitsFor,
+} from "@/lib/artwork/uploadLimits";
+
+const MB = 1024 * 1024;
+const GB = 1024 * MB;
+
+describe("upload limits", () => {
+  it("resolves limits from the product's category", () => {
+    expect(categorySlugForProduct(97)).toBe("large-format");
+    expect(categorySlugForProduct("1")).toBe("business-cards");
+    expect(categorySlugForProduct(null)).toBeNull();
+
+    expect(uploadLimitsFor("large-format").maxBytes).toBeGreaterThan(uploadLimitsFor("business-cards").maxBytes);
+    expect(uploadLimitsFor("no-such-category")).toBe(DEFAULT_UPLOAD_LIMITS);
+  });
+
+  it("rejects oversized files and disallowed types", () => {
+    const cards = uploadLimitsFor("business-cards");
+    expect(checkUploadLimits(cards, { contentType: "application/pdf", size: 10 * MB })).toBeNull();
+    expect(checkUploadLimits(cards, { contentType: "application/pdf", size: 900 * MB })).toMatchObject({
+      error: "file_too_large",
+      status: 413,
+    });
+    expect(checkUploadLimits(cards, { contentType: "video/mp4" })).toMatchObject({ status: 415 });
+    expect(checkUploadLimits(uploadLimitsFor("apparel"), { contentType: "image/tiff" })).toMatchObject({ status: 415 });
+
+    // banners are fine at sizes that fail elsewhere
+    expect(checkUploadSize(uploadLimitsFor("large-format"), 2 * GB)).toBeNull();
+    expect(checkUploadSize(cards, undefined)).toBeNull();
+  });
+});
+
+describe("planMultipart", () => {
+  it("uses fixed parts that satisfy S3/R2 part rules", () => {
+    expect(planMultipart(100 * MB)).toEqual({ partSize: 16 * MB, partCount: 7 });
+
+    const huge = planMultipart(200 * GB);
+    expect(huge.partSize).toBeGreaterThanOrEqual(MIN_PART_SIZE);
+    expect(huge.partCount).toBeLessThanOrEqual(MAX_PARTS);
+    expect(huge.partSize * huge.partCount).toBeGreaterThanOrEqual(200 * GB);
+  });
+});
@@ -0,0 +1,184 @@
+// Unit tests for post-upload artwork verification (magic bytes, receipts, SVG script, scanner hook)
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import net from "node:net";
+
+vi.mock("@/lib/db", () => ({ db: {} }));
+
+const objects = new Map<string, { bytes: Uint8Array; contentType: string | null }>();
+const deleted: string[] = [];
+
+vi.mock("@/lib/artwork/server", () => ({
+  headObject: vi.fn(async (key: string) => {
+    const o = objects.get(key);
+    return o ? { size: o.bytes.byteLength, contentType: o.contentType } : null;
+  }),
+  getObjectHead: vi.fn(async (key: string, length: number) => objects.get(key)!.bytes.subarray(0, length)),
+  streamObject: vi.fn(async (key: string) => [objects.get(key)!.bytes]),
+  deleteObject: vi.fn(async (key: string) => {
+    deleted.push(key);
+  }),
+}));
+
+import {
+  matchesDeclaredType,
+  mintUploadReceipt,
+  readUploadReceipt,
+  setArtworkScanner,
+  sniffUploadType,
+  svgActiveContent,
+  uploadedObjectKey,
+  verifyUploadedArtwork,
+} from "@/lib/artwork/verifyUpload";
+import { createClamdScanner, parseClamdReply, type ArtworkScanner } from "@/lib/artwork/scanners";
+import { DEFAULT_UPLOAD_LIMITS } from "@/lib/artwork/uploadLimits";
+
+const bytes = (s: string | number[]) => new Uint8Array(typeof s === "string" ? Buffer.from(s, "latin1") : s);
+async function* stream(...parts: string[]) {
+  for (const p of parts) yield bytes(p);
+}
+const PNG = bytes([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 0]);
+
+describe("sniffUploadType", () => {
+  it("recognises print formats from their magic bytes", () => {
+    expect(sniffUploadType(bytes("%PDF-1.7\n"))).toBe("pdf");
+    expect(sniffUploadType(bytes("%PDF-1.5\n<</Creator (Adobe Illustrator 27.0)>>"))).toBe("ai");
+    expect(sniffUploadType(PNG)).toBe("png");
+    expect(sniffUploadType(bytes([0xff, 0xd8, 0xff, 0xe0]))).toBe("jpeg");
+    expect(sniffUploadType(bytes("II*\0"))).toBe("tiff");
+    expect(sniffUploadType(bytes("%!PS-Adobe-3.0 EPSF-3.0\n"))).toBe("eps");
+    expect(sniffUploadType(bytes([0xc5, 0xd0, 0xd3, 0xc6, 0x20]))).toBe("eps");
+    expect(sniffUploadType(bytes("%!PS-Adobe-3.0\n%%Creator: Adobe Illustrator(R) 24\n"))).toBe("ai");
+    expect(sniffUploadType(bytes('<?xml version="1.0"?>\n<!-- x -->\n<svg xmlns="http://www.w3.org/2000/svg"/>'))).toBe("svg");
+    expect(sniffUploadType(bytes("<html><script>alert(1)</script>"))).toBe("unknown");
+  });
+
+  it("checks the sniffed type against the declared content type", () => {
+    expect(matchesDeclaredType("image/png", "png")).toBe(true);
+    expect(matchesDeclaredType("application/pdf", "ai")).toBe(true);
+    expect(matchesDeclaredType("application/octet-stream", "eps")).toBe(true);
+    expect(matchesDeclaredType("image/png", "pdf")).toBe(false);
+    expect(matchesDeclaredType(null, "unknown")).toBe(false);
+  });
+
+  it("flags SVGs that can run script", () => {
+    expect(svgActiveContent('<svg><rect width="10"/></svg>')).toBeNull();
+    expect(svgActiveContent("<svg><script>alert(1)</script></svg>")).toBe("script element");
+    expect(svgActiveContent('<svg onload="alert(1)"/>')).toBe("event handler attribute");
+    expect(svgActiveContent('<svg><a href="javascript:alert(1)">x</a></svg>')).toBe("script URL");
+    expect(svgActiveContent("<svg><foreignObject><div/></foreignObject></svg>")).toBe("foreignObject");
+  });
+});
+
+describe("upload receipts", () => {
+  beforeEach(() => {
+    process.env.EMAIL_LINK_SECRET = "test-secret";
+  });
+
+  it("round-trips and rejects tampering or expiry", () => {
+    const now = Date.UTC(2026, 0, 1);
+    const token = mintUploadReceipt({ key: "uploads/a.pdf", size: 42, contentType: "application/pdf" }, now)!;
+    expect(readUploadReceipt(token, now)).toEqual({ key: "uploads/a.pdf", size: 42, contentType: "application/pdf" });
+    expect(readUploadReceipt(`${token}x`, now)).toBeNull();
+    expect(readUploadReceipt(token, now + 8 * 24 * 3600_000)).toBeNull();
+  });
+
+  it("only treats our bucket's keys as verifiable", () => {
+    expect(uploadedObjectKey("uploads/cart/1_a.pdf", null)).toBe("uploads/cart/1_a.pdf");
+    expect(uploadedObjectKey("cf-image-id", "https://elsewhere.example/a.pdf")).toBeNull();
+  });
+});
+
+describe("verifyUploadedArtwork", () => {
+  beforeEach(() => {
+    process.env.EMAIL_LINK_SECRET = "test-secret";
+    objects.clear();
+    deleted.length = 0;
+    setArtworkScanner(null);
+  });
+  afterEach(() => setArtworkScanner(undefined));
+
+  const verify = (key: string, extra: { receipt?: string | null; declaredContentType?: string } = {}) =>
+    verifyUploadedArtwork({ key, limits: DEFAULT_UPLOAD_LIMITS, ...extra });
+
+  it("passes a file whose size matches its receipt and whose content matches its type", async () => {
+    objects.set("uploads/a.png", { bytes: PNG, contentType: "image/png" });
+    const receipt = mintUploadReceipt({ key: "uploads/a.png", size: PNG.byteLength, contentType: "image/png" });
+
+    const v = await verify("uploads/a.png", { receipt });
+    expect(v).toMatchObject({ status: "passed", detectedType: "png", size: PNG.byteLength, scan: null });
+  });
+
+  it("rejects size drift, type spoofing, missing objects and forged receipts", async () => {
+    objects.set("uploads/a.png", { bytes: PNG, contentType: "image/png" });
+    objects.set("uploads/fake.pdf", { bytes: bytes("<html>hi</html>"), contentType: "application/pdf" });
+
+    const short = mintUploadReceipt({ key: "uploads/a.png", size: 5, contentType: "image/png" });
+    expect((await verify("uploads/a.png", { receipt: short })).reason).toBe("size_mismatch");
+    expect((await verify("uploads/a.png", { receipt: "forged.token" })).reason).toBe("receipt_mismatch");
+    expect((await verify("uploads/a.png", { declaredContentType: "application/pdf" })).reason).toBe("type_mismatch");
+    expect((await verify("uploads/fake.pdf")).reason).toBe("unknown_type");
+    expect((await verify("uploads/missing.pdf")).reason).toBe("not_found");
+    expect(deleted).toEqual([]);
+  });
+
+  it("rejects and deletes scripted SVGs and infected files", async () => {
+    objects.set("uploads/x.svg", { bytes: bytes("<svg onload='alert(1)'/>"), contentType: "image/svg+xml" });
+    expect(await verify("uploads/x.svg")).toMatchObject({ status: "rejected", reason: "svg_active_content" });
+
+    const scanner: ArtworkScanner = {
+      name: "fake",
+      maxBytes: 1024,
+      scan: vi.fn(async () => ({ clean: false as const, signature: "Eicar-Test-Signature" })),
+    };
+    setArtworkScanner(scanner);
+    objects.set("uploads/a.pdf", { bytes: bytes("%PDF-1.4\n"), contentType: "application/pdf" });
+    expect(await verify("uploads/a.pdf")).toMatchObject({
+      status: "rejected",
+      reason: "infected",
+      scan: { scanner: "fake", result: "infected", signature: "Eicar-Test-Signature" },
+    });
+    expect(deleted).toEqual(["uploads/x.svg", "uploads/a.pdf"]);
+  });
+
+  it("fails closed with 503 when the scanner can't answer", async () => {
+    setArtworkScanner({ name: "down", maxBytes: 1024, scan: async () => Promise.reject(new Error("ECONNREFUSED")) });
+    objects.set("uploads/a.pdf", { bytes: bytes("%PDF-1.4\n"), contentType: "application/pdf" });
+    await expect(verify("uploads/a.pdf")).rejects.toMatchObject({ status: 503, code: "scan_unavailable" });
+  });
+});
+
+describe("clamd scanner", () => {
+  it("parses INSTREAM replies", () => {
+    expect(parseClamdReply("stream: OK\0")).toEqual({ clean: true });
+    expect(parseClamdReply("stream: Win.Test.EICAR_HDB-1 FOUND\0")).toEqual({ clean: false, signature: "Win.Test.EICAR_HDB-1" });
+    expect(() => parseClamdReply("INSTREAM size limit exceeded. ERROR\0")).toThrow(/size limit/);
+  });
+
+  it("streams length-prefixed chunks to the daemon", async () => {
+    let received = Buffer.alloc(0);
+    const server = net.createServer((sock) => {
+      sock.on("data", (d) => {
+        received = Buffer.concat([received, d]);
+        // zINSTREAM\0 + chunks, terminated by a zero-length chunk
+        if (received.subarray(-4).equals(Buffer.alloc(4)) && received.length > 14) {
+          const body = received.subarray(10).toString("latin1");
+          sock.end(body.includes("EICAR") ? "stream: Eicar-Signature FOUND\0" : "stream: OK\0");
+        }
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    const { port } = server.address() as net.AddressInfo;
+
+    try {
+      const scanner = createClamdScanner({ host: "127.0.0.1", port, timeoutMs: 5000 });
+      expect(await scanner.scan(stream("%PDF-1.4 clean"))).toEqual({ clean: true });
+
+      received = Buffer.alloc(0);
+      expect(await scanner.scan(stream("X5O!P%@AP EICAR"))).toEqual({ clean: false, signature: "Eicar-Signature" });
+      expect(received.subarray(0, 10).toString("latin1")).toBe("zINSTREAM\0");
+      expect(received.readUInt32BE(10)).toBe("X5O!P%@AP EICAR".length);
+    } finally {
+      server.close();
+    }
+  });
+});
@@ -0,0 +1,217 @@
+// src/lib/abandonedCart.ts
+import "server-only";
+
+import { and, asc, eq, gt, inArray, isNotNull, isNull, lt, sql } from "drizzle-orm";
+
+import { db } from "@/lib/db";
+import { carts } from "@/lib/db/schema/cart";
+import { cartLines } from "@/lib/db/schema/cartLines";
+import { customers } from "@/lib/db/schema/customer";
+import { emailDeliveries } from "@/lib/db/schema/emailDeliveries";
+import { getProductsByIds } from "@/lib/productResolver";
+import { cfImageUrl } from "@/lib/cloudflare-image";
+import { signToken } from "@/lib/signedTokens";
+
+/**
+ * Abandoned cart recovery (POST /api/jobs/abandoned-cart).
+ *
+ * Candidates: open carts with at least one line, owned by a signed-in customer with an email
+ * and marketingOptIn, idle for idleHours but not older than maxAgeHours. Idle is measured from
+ * carts.updated_at, which every route that changes lines or shipping stamps (cartSession.touchCart).
+ * One email per cart: email_deliveries (kind "abandoned_cart", orderId = cart id) is claimed
+ * before sending and released again if the send fails, so the next run retries.
+ */
+
+export const ABANDONED_CART_EMAIL_KIND = "abandoned_cart";
+
+const RESUME_TTL_SECONDS = 14 * 24 * 60 * 60;
+const UNSUBSCRIBE_TTL_SECONDS = 365 * 24 * 60 * 60;
+
+export type AbandonedCartJobInput = {
+  idleHours?: number;
+  maxAgeHours?: number;
+  limit?: number;
+  dryRun?: boolean;
+  now?: Date;
+};
+
+export type AbandonedCartCandidate = {
+  cartId: string;
+  currency: string;
+  clerkUserId: string;
+  email: string;
+  name: string;
+};
+
+function siteBaseUrl(): string {
+  const raw = process.env.NEXT_PUBLIC_SITE_URL || process.env.SITE_URL || "https://adapnow.com";
+  return String(raw).trim().replace(/\/+$/, "");
+}
+
+function money(cents: number, currency: string): string {
+  const c = String(currency || "USD").toUpperCase() === "CAD" ? "CAD" : "USD";
+  return new Intl.NumberFormat("en-US", { style: "currency", currency: c }).format(Number(cents || 0) / 100);
+}
+
+export function cartResumeUrl(cartId: string, now = Date.now()): string {
+  return `${siteBaseUrl()}/api/cart/resume?token=${encodeURIComponent(signToken("cart_resume", cartId, RESUME_TTL_SECONDS, now))}`;
+}
+
+export function unsubscribeUrl(clerkUserId: string, now = Date.now()): string {
+  return `${siteBaseUrl()}/api/email/unsubscribe?token=${encodeURIComponent(
+    signToken("unsubscribe", clerkUserId, UNSUBSCRIBE_TTL_SECONDS, now),
+  )}`;
+}
+
+export async function findAbandonedCarts(opts: {
+  idleHours: number;
+  maxAgeHours: number;
+  limit: number;
+  now?: Date;
+}): Promise<AbandonedCartCandidate[]> {
+  const now = opts.now ?? new Date();
+  const idleBefore = new Date(now.getTime() - opts.idleHours * 3600_000);
+  const notBefore = new Date(now.getTime() - opts.maxAgeHours * 3600_000);
+
+  const rows = await db
+    .select({
+      cartId: carts.id,
+      currency: carts.currency,
+      clerkUserId: customers.clerkUserId,
+      email: customers.email,
+      firstName: customers.firstName,
+      displayName: customers.displayName,
+    })
+    .from(carts)
+    .innerJoin(customers, eq(customers.clerkUserId, carts.userId))
+    .where(
+      and(
+        eq(carts.status, "open"),
+        lt(carts.updatedAt, idleBefore),
+        gt(carts.updatedAt, notBefore),
+        isNotNull(customers.email),
+        isNull(customers.deletedAt),
+        eq(customers.marketingOptIn, true),
+        sql`exists (select 1 from ${cartLines} where ${cartLines.cartId} = ${carts.id})`,
+        sql`not exists (
+          select 1 from ${emailDeliveries}
+          where ${emailDeliveries.kind} = ${ABANDONED_CART_EMAIL_KIND}
+            and ${emailDeliveries.orderId} = ${carts.id}::text
+        )`,
+      ),
+    )
+    .orderBy(asc(carts.updatedAt))
+    .limit(opts.limit);
+
+  return rows.map((r) => ({
+    cartId: r.cartId,
+    currency: r.currency,
+    clerkUserId: r.clerkUserId,
+    email: String(r.email),
+    name: String(r.firstName ?? r.displayName ?? "").trim() || "there",
+  }));
+}
+
+async function loadEmailItems(cartIds: string[]) {
+  const lines = await db
+    .select({
+      cartId: cartLines.cartId,
+      productId: cartLines.productId,
+      quantity: cartLines.quantity,
+      lineTotalCents: cartLines.lineTotalCents,
+    })
+    .from(cartLines)
+    .where(inArray(cartLines.cartId, cartIds))
+    .orderBy(asc(cartLines.createdAt));
+
+  const products = await getProductsByIds([...new Set(lines.map((l) => l.productId))]);
+
+  const byCart = new Map<string, typeof lines>();
+  for (const l of lines) byCart.set(l.cartId, [...(byCart.get(l.cartId) ?? []), l]);
+
+  return { byCart, products };
+}
+
+export async function sendAbandonedCartEmails(input: AbandonedCartJobInput = {}) {
+  const idleHours = Math.max(1, Math.floor(input.idleHours ?? 24));
+  const maxAgeHours = Math.max(idleHours + 1, Math.floor(input.maxAgeHours ?? 7 * 24));
+  const limit = Math.max(1, Math.min(200, Math.floor(input.limit ?? 50)));
+  const now = input.now ?? new Date();
+
+  const candidates = await findAbandonedCarts({ idleHours, maxAgeHours, limit, now });
+  if (candidates.length === 0) {
+    return { scanned: 0, sent: 0, failed: 0, skipped: 0, dryRun: Boolean(input.dryRun), carts: [] as string[] };
+  }
+
+  if (input.dryRun) {
+    return {
+      scanned: candidates.length,
+      sent: 0,
+      failed: 0,
+      skipped: 0,
+      dryRun: true,
+      carts: candidates.map((c) => c.cartId),
+    };
+  }
+
+  const { byCart, products } = await loadEmailItems(candidates.map((c) => c.cartId));
+
+  // React Email is heavy; only load it when there's something to send
+  const { sendAbandonedCartEmail } = await import("@/lib/email/sendAbandonedCartEmail");
+
+  let sent = 0;
+  let failed = 0;
+  let skipped = 0;
+  const sentCarts: string[] = [];
+
+  for (const c of candidates) {
+    const lines = byCart.get(c.cartId) ?? [];
+    if (lines.length === 0) {
+      skipped += 1;
+      continue;
+    }
+
+    const [claim] = await db
+      .insert(emailDeliveries)
+      .values({ kind: ABANDONED_CART_EMAIL_KIND, orderId: c.cartId, toEmail: c.email, meta: { lines: lines.length } })
+      .onConflictDoNothing({ target: [emailDeliveries.kind, emailDeliveries.orderId] })
+      .returning({ id: emailDeliveries.id });
+
+    // another run got there first
+    if (!claim) {
+      skipped += 1;
+      continue;
+    }
+
+    try {
+      const subtotalCents = lines.reduce((sum, l) => sum + Math.max(0, l.lineTotalCents), 0);
+      const res = await sendAbandonedCartEmail({
+        to: c.email,
+        name: c.name,
+        items: lines.map((l) => {
+          const info = products.get(l.productId);
+          return {
+            name: info?.name || `Product #${l.productId}`,
+            quantity: l.quantity,
+            lineTotal: money(l.lineTotalCents, c.currency),
+            imageUrl: info?.cf_image_1_id ? cfImageUrl(info.cf_image_1_id, "productCard") : null,
+          };
+        }),
+        subtotal: money(subtotalCents, c.currency),
+        resumeUrl: cartResumeUrl(c.cartId, now.getTime()),
+        unsubscribeUrl: unsubscribeUrl(c.clerkUserId, now.getTime()),
+      });
+
+      await db.update(emailDeliveries).set({ providerId: res.id }).where(eq(emailDeliveries.id, claim.id));
+      sent += 1;
+      sentCarts.push(c.cartId);
+    } catch (e: any) {
+      failed += 1;
+      console.error("[abandonedCart] send failed:", { cartId: c.cartId, error: e?.message || e });
+      // release the claim so the next run retries
+      await db.delete(emailDeliveries).where(eq(emailDeliveries.id, claim.id));
+    }
+  }
+
+  return { scanned: candidates.length, sent, failed, skipped, dryRun: false, carts: sentCarts };
+}
@@ -0,0 +1,49 @@
+// src/lib/adminAudit.ts
+import "server-only";
+
+import { and, desc, eq } from "drizzle-orm";
+
+import { db } from "@/lib/db";
+import { adminAuditLog, type AdminAuditLogRow } from "@/lib/db/schema/adminAuditLog";
+import type { AuthContext } from "@/lib/auth";
+
+type Db = typeof db;
+type Tx = Parameters<Parameters<Db["transaction"]>[0]>[0];
+type DbOrTx = Db | Tx;
+
+export type AdminAuditEntry = {
+  actor: string;
+  action: string;
+  targetType: string;
+  targetId: string;
+  requestId?: string | null;
+  details?: Record<string, unknown>;
+};
+
+/** "admin:<email>" (falls back to the Clerk user id when the email is unavailable). */
+export function adminActor(ctx: Pick<AuthContext, "email" | "userId">): string {
+  return `admin:${ctx.email || ctx.userId || "unknown"}`;
+}
+
+/**
+ * Append an audit row. Pass the transaction that performs the change so both commit together.
+ */
+export async function recordAdminAudit(database: DbOrTx, entry: AdminAuditEntry): Promise<void> {
+  await database.insert(adminAuditLog).values({
+    actor: entry.actor,
+    action: entry.action,
+    targetType: entry.targetType,
+    targetId: entry.targetId,
+    requestId: entry.requestId ?? null,
+    details: entry.details ?? {},
+  });
+}
+
+export async function listAdminAudit(target: { targetType: string; targetId: string }, limit = 100): Promise<AdminAuditLogRow[]> {
+  return db
+    .select()
+    .from(adminAuditLog)
+    .where(and(eq(adminAuditLog.targetType, target.targetType), eq(adminAuditLog.targetId, target.targetId)))
+    .orderBy(desc(adminAuditLog.createdAt))
+    .limit(Math.max(1, Math.min(500, limit)));
+}
@@ -0,0 +1,369 @@
+// src/lib/adminOrders.ts
+import "server-only";
+
+import { and, asc, desc, eq, gte, ilike, lte, sql, type SQL } from "drizzle-orm";
+import { z } from "zod";
+
+import { db } from "@/lib/db";
+import { ApiError } from "@/lib/apiError";
+import { orderStatus } from "@/lib/db/schema/enums";
+import { orders } from "@/lib/db/schema/orders";
+import { orderItems } from "@/lib/db/schema/orderItems";
+import { orderNotes, type OrderNoteRow } from "@/lib/db/schema/orderNotes";
+import { orderPaymentEvents } from "@/lib/db/schema/orderPaymentEvents";
+import { customers } from "@/lib/db/schema/customer";
+import { sinaliteSubmissions } from "@/lib/db/schema/sinaliteSubmissions";
+import { recordAdminAudit, listAdminAudit } from "@/lib/adminAudit";
+import { listOrderStatusEvents, transitionOrderStatus } from "@/lib/orderLifecycle";
+import { awardLoyaltyPoints } from "@/lib/loyaltyDb";
+import { creditDollarsToPoints } from "@/lib/loyalty";
+
+/**
+ * Admin order management behind /api/admin/orders.
+ *
+ * Every mutating action writes admin_audit_log (actor "admin:<email>").
+ * Refunds go through Stripe only; the resulting charge.refunded webhook updates the order
+ * (src/lib/orderRefunds.ts), so admin and dashboard refunds share one code path.
+ */
+
+/* --------------------------------- search --------------------------------- */
+
+const AdminOrderFiltersSchema = z.object({
+  status: z.enum(orderStatus.enumValues).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  email: z.string().trim().min(3).max(254).optional(),
+  orderNumber: z.string().trim().min(1).max(64).optional(),
+  providerId: z.string().trim().min(3).max(255).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+export type AdminOrderFilters = z.infer<typeof AdminOrderFiltersSchema>;
+
+function validationError(message: string, error: z.ZodError): ApiError {
+  return new ApiError(422, message, {
+    code: "VALIDATION_ERROR",
+    details: error.issues.map((i) => ({ path: i.path.join("."), message: i.message })),
+  });
+}
+
+/** Query string -> filters; empty params are ignored. Throws ApiError 422. */
+export function parseAdminOrderFilters(sp: URLSearchParams): AdminOrderFilters {
+  const raw: Record<string, string> = {};
+  for (const [k, v] of sp.entries()) if (v.trim()) raw[k] = v;
+
+  const parsed = AdminOrderFiltersSchema.safeParse(raw);
+  if (!parsed.success) throw validationError("Invalid order filters", parsed.error);
+  return parsed.data;
+}
+
+function escapeLike(v: string): string {
+  return v.replace(/[\\%_]/g, (c) => `\\${c}`);
+}
+
+export async function listAdminOrders(filters: AdminOrderFilters) {
+  const where: SQL[] = [];
+
+  if (filters.status) where.push(eq(orders.status, filters.status));
+  if (filters.from) where.push(gte(orders.createdAt, filters.from));
+  if (filters.to) where.push(lte(orders.createdAt, filters.to));
+  if (filters.orderNumber) where.push(ilike(orders.orderNumber, `%${escapeLike(filters.orderNumber)}%`));
+  if (filters.providerId) where.push(eq(orders.providerId, filters.providerId));
+  if (filters.email) where.push(ilike(sql`${customers.email}::text`, `%${escapeLike(filters.email)}%`));
+
+  const rows = await db
+    .select({
+      id: orders.id,
+      orderNumber: orders.orderNumber,
+      status: orders.status,
+      paymentStatus: orders.paymentStatus,
+      currency: orders.currency,
+      totalCents: orders.totalCents,
+      refundedCents: orders.refundedCents,
+      provider: orders.provider,
+      providerId: orders.providerId,
+      userId: orders.userId,
+      customerEmail: customers.email,
+      sinaliteStatus: sinaliteSubmissions.status,
+      sinaliteOrderId: sinaliteSubmissions.sinaliteOrderId,
+      createdAt: orders.createdAt,
+    })
+    .from(orders)
+    .leftJoin(customers, eq(customers.clerkUserId, orders.userId))
+    .leftJoin(sinaliteSubmissions, eq(sinaliteSubmissions.orderId, orders.id))
+    .where(where.length ? and(...where) : undefined)
+    .orderBy(desc(orders.createdAt))
+    .limit(filters.limit)
+    .offset(filters.offset);
+
+  return rows;
+}
+
+/* --------------------------------- detail --------------------------------- */
+
+async function getOrderOr404(orderId: string) {
+  const [order] = await db.select().from(orders).where(eq(orders.id, orderId)).limit(1);
+  if (!order) throw new ApiError({ status: 404, code: "ORDER_NOT_FOUND", message: "Order not found" });
+  return order;
+}
+
+export async function getAdminOrderDetail(orderId: string) {
+  const order = await getOrderOr404(orderId);
+
+  const [items, statusEvents, paymentEvents, notes, audit, submission] = await Promise.all([
+    db.select().from(orderItems).where(eq(orderItems.orderId, order.id)),
+    listOrderStatusEvents(order.id),
+    db
+      .select()
+      .from(orderPaymentEvents)
+      .where(eq(orderPaymentEvents.orderId, order.id))
+      .orderBy(asc(orderPaymentEvents.createdAt)),
+    listOrderNotes(order.id),
+    listAdminAudit({ targetType: "order", targetId: order.id }),
+    db
+      .select()
+      .from(sinaliteSubmissions)
+      .where(eq(sinaliteSubmissions.orderId, order.id))
+      .limit(1)
+      .then((r) => r[0] ?? null),
+  ]);
+
+  return { order, items, statusEvents, paymentEvents, notes, audit, sinaliteSubmission: submission };
+}
+
+/* --------------------------------- actions -------------------------------- */
+
+export type AdminActionContext = { actor: string; requestId?: string | null };
+
+// Client-generated once per action (e.g. a UUID when the dialog opens) and resent on retry
+function clientRequestId(field: string) {
+  return z
+    .string()
+    .trim()
+    .regex(/^[A-Za-z0-9_-]{8,100}$/, `${field} must be 8-100 letters, digits, _ or -`);
+}
+
+const RefundInputSchema = z
+  .object({
+    refundRequestId: clientRequestId("refundRequestId"),
+    // omit for "refund everything not yet refunded"
+    amountCents: z.number().int().positive().optional(),
+    reason: z.string().trim().max(500).optional(),
+  })
+  .strict();
+
+const StoreCreditInputSchema = z
+  .object({
+    creditRequestId: clientRequestId("creditRequestId"),
+    amountCents: z.number().int().positive().max(1_000_000),
+    note: z.string().trim().max(500).optional(),
+  })
+  .strict();
+
+const CancelInputSchema = z
+  .object({
+    reason: z.string().trim().min(1).max(500),
+    refund: z.boolean().optional(),
+    // required with refund: true; passed on as the refund's refundRequestId
+    refundRequestId: clientRequestId("refundRequestId").optional(),
+  })
+  .strict()
+  .refine((v) => !v.refund || v.refundRequestId, {
+    path: ["refundRequestId"],
+    message: "refundRequestId is required when refund is true",
+  });
+
+const NoteInputSchema = z.object({ body: z.string().trim().min(1).max(5000) }).strict();
+
+function parseInput<T>(schema: z.ZodType<T>, raw: unknown, message: string): T {
+  const parsed = schema.safeParse(raw);
+  if (!parsed.success) throw validationError(message, parsed.error);
+  return parsed.data;
+}
+
+/**
+ * Full/partial Stripe refund. Amount defaults to the unrefunded remainder.
+ * The Stripe idempotency key is the caller's refundRequestId: a double click or retry resends
+ * the same id and can't refund twice, while two separate refunds of the same amount (before
+ * the first one's webhook lands) each get their own id.
+ */
+export async function refundOrder(orderId: string, raw: unknown, ctx: AdminActionContext) {
+  const input = parseInput(RefundInputSchema, raw ?? {}, "Invalid refund");
+  const order = await getOrderOr404(orderId);
+
+  if (order.provider !== "stripe" || !order.providerId) {
+    throw new ApiError({
+      status: 409,
+      code: "NOT_REFUNDABLE",
+      message: "Order was not paid through Stripe; issue store credit instead",
+    });
+  }
+
+  const remaining = Math.max(0, order.totalCents - order.refundedCents);
+  const amountCents = input.amountCents ?? remaining;
+  if (amountCents <= 0 || amountCents > remaining) {
+    throw new ApiError({
+      status: 422,
+      code: "REFUND_AMOUNT_INVALID",
+      message: `Refund must be between 1 and ${remaining} cents`,
+      details: { remainingCents: remaining },
+    });
+  }
+
+  const { stripe } = await import("@/lib/stripe");
+  const refund = await stripe.refunds.create(
+    {
+      payment_intent: order.providerId,
+      amount: amountCents,
+      reason: "requested_by_customer",
+      metadata: { orderId: order.id, actor: ctx.actor, note: input.reason ?? "" },
+    },
+    { idempotencyKey: `admin_refund:${order.id}:${input.refundRequestId}` },
+  );
+
+  await recordAdminAudit(db, {
+    actor: ctx.actor,
+    action: "order.refund",
+    targetType: "order",
+    targetId: order.id,
+    requestId: ctx.requestId,
+    details: {
+      amountCents,
+      reason: input.reason ?? null,
+      refundRequestId: input.refundRequestId,
+      refundId: refund.id,
+      refundStatus: refund.status,
+    },
+  });
+
+  return { refundId: refund.id, status: refund.status, amountCents };
+}
+
+/**
+ * Store credit instead of a refund: loyalty points at the redemption rate
+ * (customers convert them to cart credit via /api/me/loyalty/redeem).
+ * The ledger entry is keyed on creditRequestId, so a double submit or retry awards once.
+ */
+export async function issueOrderStoreCredit(orderId: string, raw: unknown, ctx: AdminActionContext) {
+  const input = parseInput(StoreCreditInputSchema, raw, "Invalid store credit");
+  const order = await getOrderOr404(orderId);
+
+  // Guest orders are keyed by session id; there is no account to hold the credit
+  if (!order.userId.startsWith("user_")) {
+    throw new ApiError({ status: 409, code: "GUEST_ORDER", message: "Guest orders have no account to credit" });
+  }
+
+  const points = creditDollarsToPoints(input.amountCents / 100);
+  const note = input.note ? `Store credit: ${input.note}` : `Store credit for order ${order.orderNumber ?? order.id}`;
+
+  const { changed, snapshot } = await awardLoyaltyPoints({
+    clerkUserId: order.userId,
+    points,
+    reason: "adjustment",
+    orderId: order.id,
+    note,
+    idempotencyKey: `store_credit:${order.id}:${input.creditRequestId}`,
+  });
+
+  // A repeat of an earlier request was already audited
+  if (changed) {
+    await recordAdminAudit(db, {
+      actor: ctx.actor,
+      action: "order.store_credit",
+      targetType: "order",
+      targetId: order.id,
+      requestId: ctx.requestId,
+      details: { amountCents: input.amountCents, points, note, creditRequestId: input.creditRequestId },
+    });
+  }
+
+  return { points, pointsBalance: snapshot.pointsBalance, duplicate: !changed };
+}
+
+/**
+ * Cancel an order that hasn't reached Sinalite yet.
+ * Locks the submission row so the queue can't pick it up mid-cancel; optional full refund after.
+ */
+export async function cancelOrderBeforeSubmission(orderId: string, raw: unknown, ctx: AdminActionContext) {
+  const input = parseInput(CancelInputSchema, raw, "Invalid cancellation");
+
+  await db.transaction(async (tx) => {
+    const [submission] = await tx
+      .select({ id: sinaliteSubmissions.id, status: sinaliteSubmissions.status })
+      .from(sinaliteSubmissions)
+      .where(eq(sinaliteSubmissions.orderId, orderId))
+      .for("update")
+      .limit(1);
+
+    if (submission && (submission.status === "submitted" || submission.status === "processing")) {
+      throw new ApiError({
+        status: 409,
+        code: "ALREADY_SUBMITTED",
+        message:
+          submission.status === "submitted"
+            ? "Order was already submitted to Sinalite"
+            : "Order is being submitted to Sinalite; try again shortly",
+      });
+    }
+
+    // The order may already be placed upstream; marking the job "failed" would hide it from review
+    if (submission?.status === "needs_review") {
+      throw new ApiError({
+        status: 409,
+        code: "SUBMISSION_NEEDS_REVIEW",
+        message: "Order may already be at Sinalite; confirm or resubmit it from Sinalite submissions first",
+      });
+    }
+
+    await transitionOrderStatus(
+      { orderId, to: "cancelled", actor: ctx.actor, requestId: ctx.requestId, reason: input.reason },
+      tx,
+    );
+
+    if (submission) {
+      await tx
+        .update(sinaliteSubmissions)
+        .set({ status: "failed", lastError: "Order cancelled by admin", lastErrorStatus: null, updatedAt: new Date() })
+        .where(eq(sinaliteSubmissions.id, submission.id));
+    }
+
+    await recordAdminAudit(tx, {
+      actor: ctx.actor,
+      action: "order.cancel",
+      targetType: "order",
+      targetId: orderId,
+      requestId: ctx.requestId,
+      details: { reason: input.reason, refund: Boolean(input.refund) },
+    });
+  });
+
+  const refund = input.refund
+    ? await refundOrder(orderId, { refundRequestId: input.refundRequestId, reason: input.reason }, ctx)
+    : null;
+  return { cancelled: true, refund };
+}
+
+export async function listOrderNotes(orderId: string): Promise<OrderNoteRow[]> {
+  return db.select().from(orderNotes).where(eq(orderNotes.orderId, orderId)).orderBy(asc(orderNotes.createdAt));
+}
+
+export async function addOrderNote(orderId: string, raw: unknown, ctx: AdminActionContext): Promise<OrderNoteRow> {
+  const input = parseInput(NoteInputSchema, raw, "Invalid note");
+  await getOrderOr404(orderId);
+
+  return db.transaction(async (tx) => {
+    const [note] = await tx.insert(orderNotes).values({ orderId, author: ctx.actor, body: input.body }).returning();
+
+    await recordAdminAudit(tx, {
+      actor: ctx.actor,
+      action: "order.note",
+      targetType: "order",
+      targetId: orderId,
+      requestId: ctx.requestId,
+      details: { noteId: note.id },
+    });
+
+    return note;
+  });
+}
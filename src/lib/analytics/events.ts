@@ -0,0 +1,188 @@
+// src/lib/analytics/events.ts
+import { z } from "zod";
+
+/**
+ * Analytics event registry.
+ *
+ * Every event stored in analytics_events is named here with a zod schema for its props.
+ * /api/events validates each beaconed event against this registry and refuses names marked
+ * `source: "server"` — those are only recorded by route handlers (recordServerEvent), so a
+ * client can't inflate funnel steps such as add_to_cart.
+ *
+ * Client code imports only the types from this module; the schemas stay on the server.
+ */
+
+const text = (max: number) => z.string().trim().min(1).max(max);
+const optionalText = (max: number) => z.string().trim().max(max).optional();
+
+const productId = z.number().int().positive();
+const store = z.enum(["US", "CA"]);
+
+export const ANALYTICS_EVENTS = {
+  product_view: {
+    source: "client",
+    props: z.object({ productId, store: store.optional() }).strict(),
+  },
+  product_configure: {
+    source: "client",
+    props: z
+      .object({
+        productId,
+        group: text(120),
+        optionId: z.number().int().nonnegative(),
+      })
+      .strict(),
+  },
+  add_to_cart: {
+    source: "server",
+    props: z
+      .object({
+        productId,
+        cartId: z.string().uuid(),
+        quantity: z.number().int().positive(),
+        unitPriceCents: z.number().int().nonnegative(),
+        merged: z.boolean().optional(),
+      })
+      .strict(),
+  },
+  checkout_start: {
+    source: "server",
+    props: z
+      .object({
+        cartId: z.string().uuid(),
+        lineCount: z.number().int().nonnegative(),
+        currency: z.enum(["USD", "CAD"]),
+      })
+      .strict(),
+  },
+  hero_impression: {
+    source: "client",
+    props: z.object({ slideId: text(80), variant: optionalText(32) }).strict(),
+  },
+  hero_click: {
+    source: "client",
+    props: z.object({ slideId: text(80), variant: optionalText(32), ctaText: optionalText(120) }).strict(),
+  },
+  guide_download: {
+    source: "client",
+    props: z
+      .object({
+        href: text(1200),
+        label: optionalText(400),
+        categoryPath: optionalText(600),
+        sizeBytes: z.number().int().nonnegative().optional(),
+      })
+      .strict(),
+  },
+  career_list_view: {
+    source: "client",
+    props: z.object({ query: optionalText(512) }).strict(),
+  },
+  career_job_view: {
+    source: "client",
+    props: z
+      .object({
+        jobSlug: text(120),
+        jobTitle: optionalText(200),
+        location: optionalText(200),
+        employmentType: optionalText(80),
+      })
+      .strict(),
+  },
+  career_apply_click: {
+    source: "client",
+    props: z
+      .object({
+        jobSlug: text(120),
+        jobTitle: optionalText(200),
+        location: optionalText(200),
+        employmentType: optionalText(80),
+      })
+      .strict(),
+  },
+} as const satisfies Record<string, { source: "client" | "server"; props: z.ZodType<Record<string, unknown>> }>;
+
+type Registry = typeof ANALYTICS_EVENTS;
+
+export type AnalyticsEventName = keyof Registry;
+
+export type ClientEventName = {
+  [K in AnalyticsEventName]: Registry[K]["source"] extends "client" ? K : never;
+}[AnalyticsEventName];
+
+export type ServerEventName = Exclude<AnalyticsEventName, ClientEventName>;
+
+export type EventProps<N extends AnalyticsEventName> = z.input<Registry[N]["props"]>;
+
+/** What the batched client sends for each event. */
+export const EventEnvelopeSchema = z
+  .object({
+    name: z.string().trim().min(1).max(64),
+    props: z.record(z.string(), z.unknown()).default({}),
+    // client clock, ms since epoch
+    ts: z.number().finite().optional(),
+    path: z.string().trim().max(512).optional(),
+  })
+  .strict();
+
+export type EventEnvelope = z.infer<typeof EventEnvelopeSchema>;
+
+export type ValidatedEvent = {
+  name: AnalyticsEventName;
+  props: Record<string, unknown>;
+  occurredAt: Date;
+  path: string | null;
+};
+
+export type EventRejection = { index: number; name: string | null; error: string };
+
+export function isAnalyticsEventName(name: string): name is AnalyticsEventName {
+  return Object.prototype.hasOwnProperty.call(ANALYTICS_EVENTS, name);
+}
+
+/** Client timestamps are trusted up to a day back and five minutes ahead. */
+const MAX_CLIENT_AGE_MS = 24 * 60 * 60 * 1000;
+const MAX_CLIENT_SKEW_MS = 5 * 60 * 1000;
+
+export function eventTime(ts: number | undefined, receivedAt: Date): Date {
+  if (ts == null || !Number.isFinite(ts)) return receivedAt;
+  const now = receivedAt.getTime();
+  if (ts < now - MAX_CLIENT_AGE_MS || ts > now + MAX_CLIENT_SKEW_MS) return receivedAt;
+  return new Date(ts);
+}
+
+/**
+ * Validate one event. `from: "client"` additionally rejects server-only names.
+ */
+export function validateEvent(
+  raw: unknown,
+  opts: { from: "client" | "server"; receivedAt?: Date },
+): { ok: true; event: ValidatedEvent } | { ok: false; name: string | null; error: string } {
+  const envelope = EventEnvelopeSchema.safeParse(raw);
+  if (!envelope.success) {
+    return { ok: false, name: null, error: envelope.error.issues[0]?.message ?? "invalid event" };
+  }
+
+  const { name, props, ts, path } = envelope.data;
+  if (!isAnalyticsEventName(name)) return { ok: false, name, error: "unknown event" };
+
+  const def = ANALYTICS_EVENTS[name];
+  if (opts.from === "client" && def.source !== "client") return { ok: false, name, error: "server-only event" };
+
+  const parsed = def.props.safeParse(props);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    const where = issue?.path.length ? `${issue.path.join(".")}: ` : "";
+    return { ok: false, name, error: `${where}${issue?.message ?? "invalid props"}` };
+  }
+
+  return {
+    ok: true,
+    event: {
+      name,
+      props: parsed.data,
+      occurredAt: eventTime(ts, opts.receivedAt ?? new Date()),
+      path: path || null,
+    },
+  };
+}
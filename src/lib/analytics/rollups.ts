@@ -0,0 +1,303 @@
+// src/lib/analytics/rollups.ts
+import "server-only";
+
+import { and, asc, eq, gte, lte, sql, type SQL } from "drizzle-orm";
+
+import { db } from "@/lib/db";
+import { analyticsDaily, analyticsFunnelDaily } from "@/lib/db/schema/analyticsEvents";
+import { jobState } from "@/lib/db/schema/jobState";
+
+/**
+ * Daily rollups of analytics_events.
+ *
+ * The rollup job (POST /api/jobs/analytics-rollup) keeps monthly partitions created ahead of
+ * time and recomputes per-day totals (analytics_daily) and the purchase funnel
+ * (analytics_funnel_daily) for every day after job_state.cursor up to today. Days are UTC.
+ *
+ * A day is only marked done once late beacons can no longer land in it (client timestamps
+ * are accepted up to a day old), so the last two days are recomputed on every run.
+ *
+ * Funnel: sessions (sid) whose first product_view of the day is followed, in order, by a
+ * configure, an add to cart, a checkout start and a paid order for that session's cart.
+ * Each step counts from the first occurrence at or after the previous step.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const JOB_NAME = "analytics_rollup";
+const PAID_ORDER_STATUSES = sql`('paid', 'fulfilled')`;
+
+export const FUNNEL_STEPS = ["product_view", "product_configure", "add_to_cart", "checkout_start", "paid"] as const;
+export type FunnelStep = (typeof FUNNEL_STEPS)[number];
+
+/** Days after the first run with no cursor. */
+const INITIAL_LOOKBACK_DAYS = 7;
+const SETTLE_DAYS = 2;
+
+/* --------------------------------- dates ---------------------------------- */
+
+export function utcDay(d: Date): string {
+  return d.toISOString().slice(0, 10);
+}
+
+export function addDays(day: string, n: number): string {
+  return utcDay(new Date(Date.parse(`${day}T00:00:00Z`) + n * DAY_MS));
+}
+
+export function dayBounds(day: string): { start: Date; end: Date } {
+  const start = new Date(`${day}T00:00:00Z`);
+  return { start, end: new Date(start.getTime() + DAY_MS) };
+}
+
+/** Monthly partition covering `d`, e.g. analytics_events_202610 [2026-10-01, 2026-11-01). */
+export function monthPartition(d: Date): { name: string; from: string; to: string } {
+  const y = d.getUTCFullYear();
+  const m = d.getUTCMonth();
+  const from = new Date(Date.UTC(y, m, 1));
+  const to = new Date(Date.UTC(y, m + 1, 1));
+  return {
+    name: `analytics_events_${y}${String(m + 1).padStart(2, "0")}`,
+    from: from.toISOString(),
+    to: to.toISOString(),
+  };
+}
+
+/**
+ * Days to (re)compute this run, oldest first, and the cursor to save afterwards: the newest of
+ * them that has settled, or the previous cursor when none has.
+ */
+export function rollupPlan(
+  cursor: string | null,
+  now: Date,
+  maxDays: number,
+): { days: string[]; nextCursor: string | null } {
+  const today = utcDay(now);
+  let day = cursor ? addDays(cursor, 1) : addDays(today, -INITIAL_LOOKBACK_DAYS);
+
+  const days: string[] = [];
+  while (day <= today && days.length < maxDays) {
+    days.push(day);
+    day = addDays(day, 1);
+  }
+
+  const settledBefore = addDays(today, -SETTLE_DAYS);
+  const settled = days.filter((d) => d <= settledBefore);
+  return { days, nextCursor: settled.length ? settled[settled.length - 1] : cursor };
+}
+
+/* ------------------------------- partitions ------------------------------- */
+
+/**
+ * Create this month's and next `monthsAhead` months' partitions. Fails for a month whose
+ * rows already sit in the default partition; that month keeps using the default.
+ */
+export async function ensureEventPartitions(now = new Date(), monthsAhead = 1): Promise<{ created: string[]; failed: string[] }> {
+  const created: string[] = [];
+  const failed: string[] = [];
+
+  for (let i = 0; i <= monthsAhead; i++) {
+    const p = monthPartition(new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + i, 1)));
+    try {
+      const exists = await db.execute(sql`select to_regclass(${p.name}::text) is not null as exists`);
+      if ((exists as any).rows?.[0]?.exists) continue;
+
+      await db.execute(
+        sql.raw(
+          `create table if not exists ${p.name} partition of analytics_events ` +
+            `for values from ('${p.from}') to ('${p.to}')`,
+        ),
+      );
+      created.push(p.name);
+    } catch (e: unknown) {
+      console.warn("[analytics] partition create failed", { partition: p.name, message: e instanceof Error ? e.message : String(e) });
+      failed.push(p.name);
+    }
+  }
+
+  return { created, failed };
+}
+
+/* --------------------------------- rollup --------------------------------- */
+
+/** First time, per session, each funnel step was reached after the previous one. */
+function funnelQuery(start: Date, end: Date): SQL {
+  const from = start.toISOString();
+  const to = end.toISOString();
+
+  const nextStep = (step: FunnelStep, prev: string): SQL =>
+    step === "paid"
+      ? sql`
+        select p.sid, (
+          select min(coalesce(o.placed_at, o.created_at))
+          from orders o
+          join carts c on c.id = o.cart_id
+          where c.sid = p.sid
+            and o.status in ${PAID_ORDER_STATUSES}
+            and coalesce(o.placed_at, o.created_at) >= p.t
+            and coalesce(o.placed_at, o.created_at) < ${to}::timestamptz
+        ) as t
+        from ${sql.raw(prev)} p
+        where p.t is not null`
+      : sql`
+        select p.sid, (
+          select min(e.occurred_at)
+          from analytics_events e
+          where e.sid = p.sid
+            and e.name = ${step}
+            and e.occurred_at >= p.t
+            and e.occurred_at < ${to}::timestamptz
+        ) as t
+        from ${sql.raw(prev)} p
+        where p.t is not null`;
+
+  const ctes: SQL[] = [
+    sql`s0 as (
+      select sid, min(occurred_at) as t
+      from analytics_events
+      where name = ${FUNNEL_STEPS[0]}
+        and sid is not null
+        and occurred_at >= ${from}::timestamptz
+        and occurred_at < ${to}::timestamptz
+      group by sid
+    )`,
+  ];
+  FUNNEL_STEPS.slice(1).forEach((step, i) => {
+    ctes.push(sql`${sql.raw(`s${i + 1}`)} as (${nextStep(step, `s${i}`)})`);
+  });
+
+  const counts = FUNNEL_STEPS.map(
+    (_, i) => sql`(select count(t) from ${sql.raw(`s${i}`)})::int as ${sql.raw(`s${i}`)}`,
+  );
+
+  return sql`with ${sql.join(ctes, sql`, `)} select ${sql.join(counts, sql`, `)}`;
+}
+
+export type DayRollup = { day: string; events: number; names: number; funnel: Record<FunnelStep, number> };
+
+export async function rollupDay(day: string): Promise<DayRollup> {
+  const { start, end } = dayBounds(day);
+
+  return db.transaction(async (tx) => {
+    await tx.delete(analyticsDaily).where(eq(analyticsDaily.day, day));
+    const daily = await tx.execute(sql`
+      insert into analytics_daily (day, name, events, sessions, users, updated_at)
+      select ${day}::date, name, count(*), count(distinct sid), count(distinct user_id), now()
+      from analytics_events
+      where occurred_at >= ${start.toISOString()}::timestamptz and occurred_at < ${end.toISOString()}::timestamptz
+      group by name
+      returning events
+    `);
+    const dailyRows: any[] = (daily as any).rows ?? [];
+
+    const res = await tx.execute(funnelQuery(start, end));
+    const row: any = (res as any).rows?.[0] ?? {};
+    const funnel = Object.fromEntries(FUNNEL_STEPS.map((s, i) => [s, Number(row[`s${i}`] ?? 0)])) as Record<FunnelStep, number>;
+
+    await tx
+      .insert(analyticsFunnelDaily)
+      .values(FUNNEL_STEPS.map((step, position) => ({ day, step, position, sessions: funnel[step], updatedAt: new Date() })))
+      .onConflictDoUpdate({
+        target: [analyticsFunnelDaily.day, analyticsFunnelDaily.step],
+        set: { position: sql`excluded.position`, sessions: sql`excluded.sessions`, updatedAt: new Date() },
+      });
+
+    return {
+      day,
+      events: dailyRows.reduce((n, r) => n + Number(r.events ?? 0), 0),
+      names: dailyRows.length,
+      funnel,
+    };
+  });
+}
+
+export type AnalyticsRollupResult = {
+  partitions: { created: string[]; failed: string[] };
+  days: DayRollup[];
+  cursor: string | null;
+};
+
+export async function runAnalyticsRollup(opts: { now?: Date; maxDays?: number } = {}): Promise<AnalyticsRollupResult> {
+  const now = opts.now ?? new Date();
+  const maxDays = Math.max(1, Math.min(90, Math.floor(opts.maxDays ?? 31)));
+
+  const partitions = await ensureEventPartitions(now);
+
+  const [state] = await db.select().from(jobState).where(eq(jobState.name, JOB_NAME)).limit(1);
+  const plan = rollupPlan(state?.cursor || null, now, maxDays);
+
+  const days: DayRollup[] = [];
+  for (const day of plan.days) days.push(await rollupDay(day));
+
+  const lastRun = {
+    at: now.toISOString(),
+    days: plan.days.length,
+    events: days.reduce((n, d) => n + d.events, 0),
+    partitionsCreated: partitions.created,
+  };
+  await db
+    .insert(jobState)
+    .values({ name: JOB_NAME, cursor: plan.nextCursor, lastRun, updatedAt: new Date() })
+    .onConflictDoUpdate({ target: jobState.name, set: { cursor: plan.nextCursor, lastRun, updatedAt: new Date() } });
+
+  return { partitions, days, cursor: plan.nextCursor };
+}
+
+/* --------------------------------- report --------------------------------- */
+
+export type FunnelStepStats = {
+  step: FunnelStep;
+  sessions: number;
+  /** share of the previous step's sessions (1 for the first step) */
+  fromPrevious: number;
+  /** share of the first step's sessions */
+  fromStart: number;
+};
+
+const rate = (n: number, d: number) => (d > 0 ? n / d : 0);
+
+/** Sum daily rows per step and compute step-to-step conversion, in funnel order. */
+export function summarizeFunnel(rows: Array<{ step: string; sessions: number }>): FunnelStepStats[] {
+  const totals = new Map<string, number>();
+  for (const r of rows) totals.set(r.step, (totals.get(r.step) ?? 0) + Number(r.sessions || 0));
+
+  const first = totals.get(FUNNEL_STEPS[0]) ?? 0;
+  return FUNNEL_STEPS.map((step, i) => {
+    const sessions = totals.get(step) ?? 0;
+    const prev = i === 0 ? sessions : totals.get(FUNNEL_STEPS[i - 1]) ?? 0;
+    return {
+      step,
+      sessions,
+      fromPrevious: i === 0 ? (sessions > 0 ? 1 : 0) : rate(sessions, prev),
+      fromStart: rate(sessions, first),
+    };
+  });
+}
+
+export type FunnelReport = {
+  from: string;
+  to: string;
+  steps: FunnelStepStats[];
+  daily: Array<{ day: string } & Record<FunnelStep, number>>;
+};
+
+/** Funnel over whole UTC days [from, to], from analytics_funnel_daily. */
+export async function funnelReport(input: { from: string; to: string }): Promise<FunnelReport> {
+  const rows = await db
+    .select({ day: analyticsFunnelDaily.day, step: analyticsFunnelDaily.step, sessions: analyticsFunnelDaily.sessions })
+    .from(analyticsFunnelDaily)
+    .where(and(gte(analyticsFunnelDaily.day, input.from), lte(analyticsFunnelDaily.day, input.to)))
+    .orderBy(asc(analyticsFunnelDaily.day), asc(analyticsFunnelDaily.position));
+
+  const byDay = new Map<string, Record<string, number>>();
+  for (const r of rows) {
+    const d = byDay.get(r.day) ?? Object.fromEntries(FUNNEL_STEPS.map((s) => [s, 0]));
+    d[r.step] = r.sessions;
+    byDay.set(r.day, d);
+  }
+
+  return {
+    from: input.from,
+    to: input.to,
+    steps: summarizeFunnel(rows),
+    daily: [...byDay].map(([day, counts]) => ({ day, ...(counts as Record<FunnelStep, number>) })),
+  };
+}
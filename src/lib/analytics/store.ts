@@ -0,0 +1,83 @@
+// src/lib/analytics/store.ts
+import "server-only";
+
+import { auth } from "@clerk/nextjs/server";
+
+import { db } from "@/lib/db";
+import { analyticsEvents } from "@/lib/db/schema/analyticsEvents";
+import {
+  validateEvent,
+  type EventProps,
+  type ServerEventName,
+  type ValidatedEvent,
+} from "@/lib/analytics/events";
+
+/** Who/where an event came from; attached to every row of a batch. */
+export type EventContext = {
+  sid: string | null;
+  userId: string | null;
+  requestId: string | null;
+  userAgent?: string | null;
+};
+
+function clip(v: string | null | undefined, max: number): string | null {
+  const s = String(v ?? "").trim();
+  return s ? s.slice(0, max) : null;
+}
+
+async function currentUserId(): Promise<string | null> {
+  try {
+    const { userId } = await auth();
+    return userId ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/** Insert already-validated events in one statement. */
+export async function recordEvents(events: ValidatedEvent[], ctx: EventContext): Promise<number> {
+  if (!events.length) return 0;
+
+  const receivedAt = new Date();
+  await db.insert(analyticsEvents).values(
+    events.map((e) => ({
+      name: e.name,
+      occurredAt: e.occurredAt,
+      receivedAt,
+      sid: clip(ctx.sid, 80),
+      userId: clip(ctx.userId, 80),
+      requestId: clip(ctx.requestId, 120),
+      path: clip(e.path, 512),
+      props: e.props,
+      userAgent: clip(ctx.userAgent, 400),
+    })),
+  );
+  return events.length;
+}
+
+/**
+ * Record a server-emitted event (add_to_cart, checkout_start) from a route handler.
+ * Best-effort: invalid props or a failed insert are logged, never thrown, so tracking
+ * can't fail the request it describes. The signed-in user is looked up when not given.
+ */
+export async function recordServerEvent<N extends ServerEventName>(
+  name: N,
+  props: EventProps<N>,
+  ctx: Omit<EventContext, "userId"> & { userId?: string | null; path?: string | null },
+): Promise<void> {
+  try {
+    const v = validateEvent({ name, props, ...(ctx.path ? { path: ctx.path } : {}) }, { from: "server" });
+    if (!v.ok) {
+      console.warn("[analytics] dropped server event", { name, error: v.error, requestId: ctx.requestId });
+      return;
+    }
+    const userId = ctx.userId !== undefined ? ctx.userId : await currentUserId();
+    await recordEvents([v.event], { ...ctx, userId });
+  } catch (e: unknown) {
+    console.warn("[analytics] server event insert failed", {
+      name,
+      requestId: ctx.requestId,
+      message: e instanceof Error ? e.message : String(e),
+    });
+  }
+}
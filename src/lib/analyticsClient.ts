@@ -1,10 +1,110 @@
 "use client";
 
-export function trackCareerEvent(event: string, data?: Record<string, unknown>) {
-  if (typeof window === "undefined") return;
+// src/lib/analyticsClient.ts
+// Batched first-party analytics client for /api/events.
+// - Queues events and flushes every couple of seconds, or sooner once a batch fills up
+// - Flushes with sendBeacon when the page is hidden/unloaded, fetch({ keepalive }) otherwise
+// - Never throws (analytics should not break UX)
 
+import type { ClientEventName, EventProps } from "@/lib/analytics/events";
+
+type QueuedEvent = {
+  name: ClientEventName;
+  props: Record<string, unknown>;
+  ts: number;
+  path: string;
+};
+
+const ENDPOINT = "/api/events";
+const FLUSH_DELAY_MS = 2000;
+const FLUSH_AT = 10;
+// keep each request under the server's 50-event limit and the ~64KB beacon budget
+const MAX_BATCH = 25;
+const MAX_QUEUE = 200;
+
+let queue: QueuedEvent[] = [];
+let timer: ReturnType<typeof setTimeout> | null = null;
+let listening = false;
+
+function safePathname(): string {
   try {
-    console.log("[analytics]", event, data ?? {});
+    return typeof window !== "undefined" ? window.location.pathname : "";
+  } catch {
+    return "";
+  }
+}
+
+/** Drop undefined/empty-string values so optional props validate server-side. */
+function compact(props: Record<string, unknown>): Record<string, unknown> {
+  const out: Record<string, unknown> = {};
+  for (const [k, v] of Object.entries(props)) {
+    if (v === undefined || v === null) continue;
+    if (typeof v === "string" && !v.trim()) continue;
+    out[k] = typeof v === "string" ? v.trim() : v;
+  }
+  return out;
+}
+
+function send(batch: QueuedEvent[], useBeacon: boolean): void {
+  const body = JSON.stringify({ events: batch });
+
+  if (useBeacon && typeof navigator !== "undefined" && typeof navigator.sendBeacon === "function") {
+    const blob = new Blob([body], { type: "application/json" });
+    if (navigator.sendBeacon(ENDPOINT, blob)) return;
+    // If beacon fails, fall through to fetch
+  }
+
+  void fetch(ENDPOINT, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body,
+    keepalive: true,
+    credentials: "same-origin",
+  }).catch(() => {});
+}
+
+/** Send everything queued. `unloading` forces sendBeacon. */
+export function flushEvents(unloading = false): void {
+  try {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    while (queue.length) {
+      send(queue.splice(0, MAX_BATCH), unloading);
+    }
+  } catch {
+    // swallow; analytics shouldn't break UX
+  }
+}
+
+function listen(): void {
+  if (listening || typeof window === "undefined") return;
+  listening = true;
+
+  window.addEventListener("pagehide", () => flushEvents(true));
+  document.addEventListener("visibilitychange", () => {
+    if (document.visibilityState === "hidden") flushEvents(true);
+  });
+}
+
+/**
+ * Queue an analytics event. Names and props are checked against the registry in
+ * src/lib/analytics/events.ts (server-only events such as add_to_cart can't be sent from here).
+ */
+export function track<N extends ClientEventName>(name: N, props: EventProps<N>): void {
+  try {
+    if (typeof window === "undefined") return;
+    listen();
+
+    if (queue.length >= MAX_QUEUE) queue.shift();
+    queue.push({ name, props: compact(props as Record<string, unknown>), ts: Date.now(), path: safePathname() });
+
+    if (queue.length >= FLUSH_AT) {
+      flushEvents();
+    } else if (!timer) {
+      timer = setTimeout(() => flushEvents(), FLUSH_DELAY_MS);
+    }
   } catch {
     // swallow
   }
@@ -2,47 +2,295 @@
 import "server-only";
 
 import { db } from "@/lib/db";
-import { sql } from "drizzle-orm";
+import { eq, sql } from "drizzle-orm";
+
+import { emailDeliveries } from "@/lib/db/schema/emailDeliveries";
+import { getProductsByIds } from "@/lib/productResolver";
+
+/**
+ * Artwork-needed reminders (POST /api/jobs/artwork-needed).
+ *
+ * Candidates: paid orders whose cart lines have no artwork yet — no cart_artwork or
+ * cart_attachments row for the line, and no (non-rejected) artwork_uploads row for the
+ * order + product.
+ *
+ * Cadence: reminders go out 1, 3 and 7 days after the order was placed. Each step has its own
+ * email_deliveries kind ("artwork_needed_d1", ...) keyed by order id, claimed before sending
+ * and released again if the send fails. A run only sends the latest step that is due, so an
+ * order picked up late never gets a burst of catch-up emails.
+ */
+
+export const ARTWORK_REMINDER_DAYS = [1, 3, 7] as const;
+export type ArtworkReminderDay = (typeof ARTWORK_REMINDER_DAYS)[number];
+
+export type ArtworkNeededJobInput = {
+  /** Ignore orders placed longer ago than this (default: 10 days) */
+  lookbackHours?: number;
+  /** Max orders per run */
+  limit?: number;
+  dryRun?: boolean;
+  now?: Date;
+};
+
+export type ArtworkNeededLine = {
+  cartLineId: string;
+  productId: number;
+  quantity: number;
+};
+
+export type ArtworkNeededOrder = {
+  orderId: string;
+  orderNumber: string | null;
+  placedAt: Date;
+  step: ArtworkReminderDay;
+  email: string | null;
+  name: string;
+  lines: ArtworkNeededLine[];
+};
 
 export type ArtworkNeededRow = {
+  order_id: string;
+  order_number: string | null;
+  placed_at: string | Date;
+  email: string | null;
+  name: string | null;
   cart_line_id: string;
+  product_id: number | string;
+  quantity: number | string;
 };
 
-export async function findCartLinesMissingArtwork(input?: { limit?: number }): Promise<ArtworkNeededRow[]> {
-  const limit = Math.max(1, Math.min(500, Number(input?.limit ?? 100) || 100));
+const DAY_MS = 24 * 3600_000;
+const DEFAULT_LOOKBACK_HOURS = 10 * 24;
+
+function siteBaseUrl(): string {
+  const raw = process.env.NEXT_PUBLIC_SITE_URL || process.env.SITE_URL || "https://adapnow.com";
+  return String(raw).trim().replace(/\/+$/, "");
+}
+
+/** email_deliveries kind for a reminder step (mirrored in the candidate query) */
+export function artworkNeededKind(day: ArtworkReminderDay): string {
+  return `artwork_needed_d${day}`;
+}
+
+/** Latest reminder step due for an order placed at placedAt, or null if none is due yet. */
+export function dueReminderStep(placedAt: Date, now: Date = new Date()): ArtworkReminderDay | null {
+  const ageMs = now.getTime() - placedAt.getTime();
+  let due: ArtworkReminderDay | null = null;
+  for (const day of ARTWORK_REMINDER_DAYS) {
+    if (ageMs >= day * DAY_MS) due = day;
+  }
+  return due;
+}
 
-  // Minimal assumptions:
-  // - cart_lines has id uuid
-  // - cart_artwork has cart_line_id uuid
+export function artworkUploadUrl(line: Pick<ArtworkNeededLine, "cartLineId" | "productId">): string {
+  return `${siteBaseUrl()}/product/${encodeURIComponent(String(line.productId))}/upload-artwork?lineId=${encodeURIComponent(line.cartLineId)}`;
+}
+
+export function orderUrl(orderId: string): string {
+  return `${siteBaseUrl()}/account/orders/${encodeURIComponent(orderId)}`;
+}
+
+/** Collapse one-row-per-line query results into one entry per order (row order is kept). */
+export function groupArtworkNeededRows(rows: ArtworkNeededRow[], now: Date = new Date()): ArtworkNeededOrder[] {
+  const byOrder = new Map<string, ArtworkNeededOrder>();
+
+  for (const r of rows) {
+    let order = byOrder.get(r.order_id);
+    if (!order) {
+      const placedAt = new Date(r.placed_at);
+      const step = dueReminderStep(placedAt, now);
+      if (!step) continue;
+
+      order = {
+        orderId: r.order_id,
+        orderNumber: r.order_number ?? null,
+        placedAt,
+        step,
+        email: String(r.email ?? "").trim() || null,
+        name: String(r.name ?? "").trim() || "there",
+        lines: [],
+      };
+      byOrder.set(r.order_id, order);
+    }
+
+    order.lines.push({
+      cartLineId: r.cart_line_id,
+      productId: Number(r.product_id),
+      quantity: Number(r.quantity) || 1,
+    });
+  }
+
+  return [...byOrder.values()];
+}
+
+export async function findOrdersMissingArtwork(opts: {
+  lookbackHours: number;
+  limit: number;
+  now?: Date;
+}): Promise<ArtworkNeededOrder[]> {
+  const now = opts.now ?? new Date();
+  const notBefore = new Date(now.getTime() - opts.lookbackHours * 3600_000).toISOString();
+  const placedBy = (day: ArtworkReminderDay) => new Date(now.getTime() - day * DAY_MS).toISOString();
+  const [d1, d3, d7] = ARTWORK_REMINDER_DAYS;
+
+  // Lines live on the order's (closed) cart; that's what the customer upload page keys on.
+  // The step kind is computed in SQL too so already-reminded orders don't eat the limit.
   const res = await db.execute(sql<ArtworkNeededRow>`
-    select cl.id as cart_line_id
-    from cart_lines cl
-    left join cart_artwork ca on ca.cart_line_id = cl.id
-    where ca.id is null
-    order by cl.created_at desc nulls last, cl.id desc
-    limit ${limit}
+    with due as (
+      select
+        o.id,
+        o.order_number,
+        o.user_id,
+        o.cart_id,
+        coalesce(o.placed_at, o.created_at) as placed_at,
+        case
+          when coalesce(o.placed_at, o.created_at) <= ${placedBy(d7)}::timestamptz then ${d7}::int
+          when coalesce(o.placed_at, o.created_at) <= ${placedBy(d3)}::timestamptz then ${d3}::int
+          else ${d1}::int
+        end as step
+      from orders o
+      where o.status = 'paid'
+        and o.cart_id is not null
+        and coalesce(o.placed_at, o.created_at) <= ${placedBy(d1)}::timestamptz
+        and coalesce(o.placed_at, o.created_at) > ${notBefore}::timestamptz
+    ),
+    candidates as (
+      select d.*
+      from due d
+      where not exists (
+          select 1 from email_deliveries ed
+          where ed.order_id = d.id::text and ed.kind = 'artwork_needed_d' || d.step::text
+        )
+        and exists (
+          select 1 from cart_lines cl
+          where cl.cart_id = d.cart_id
+            and not exists (select 1 from cart_artwork ca where ca.cart_line_id = cl.id)
+            and not exists (select 1 from cart_attachments att where att.cart_line_id = cl.id)
+            and not exists (
+              select 1 from artwork_uploads au
+              where au.order_id = d.id::text
+                and au.product_id = cl.product_id::text
+                and au.proof_status <> 'rejected'
+            )
+        )
+      order by d.placed_at asc, d.id
+      limit ${opts.limit}
+    )
+    select
+      c.id as order_id,
+      c.order_number,
+      c.placed_at,
+      coalesce(cu.email::text, s.ship_to->>'email') as email,
+      coalesce(cu.first_name, cu.display_name, s.ship_to->>'firstName') as name,
+      cl.id as cart_line_id,
+      cl.product_id,
+      cl.quantity
+    from candidates c
+    join cart_lines cl on cl.cart_id = c.cart_id
+    left join customers cu on cu.clerk_user_id = c.user_id and cu.deleted_at is null
+    left join lateral (
+      select ship_to from sinalite_submissions ss
+      where ss.order_id = c.id
+      order by ss.created_at desc
+      limit 1
+    ) s on true
+    where not exists (select 1 from cart_artwork ca where ca.cart_line_id = cl.id)
+      and not exists (select 1 from cart_attachments att where att.cart_line_id = cl.id)
+      and not exists (
+        select 1 from artwork_uploads au
+        where au.order_id = c.id::text
+          and au.product_id = cl.product_id::text
+          and au.proof_status <> 'rejected'
+      )
+    order by c.placed_at asc, c.id, cl.created_at asc
   `);
 
   // drizzle .execute returns { rows } in some drivers; in others it returns array.
   const rows = (res as any)?.rows ?? (res as any);
-  return Array.isArray(rows) ? rows : [];
+  return groupArtworkNeededRows(Array.isArray(rows) ? rows : [], now);
 }
 
 /**
- * Job entrypoint used by /api/jobs/artwork-needed
- * This *scans* and returns candidates.
- * Email sending is wired in the next step when we implement "@/lib/sendEmail" (currently missing in your build).
+ * Job entrypoint used by /api/jobs/artwork-needed.
+ * Sends at most one email per order per run; dryRun only reports what would be sent.
  */
-export async function scanAndSendArtworkNeededEmails(input?: { limit?: number }) {
-  const candidates = await findCartLinesMissingArtwork({ limit: input?.limit ?? 100 });
-  return {
-    ok: true as const,
-    scanned: candidates.length,
-    queued: 0,
-    candidates,
-    note:
-      "Scan completed. Email sending will be enabled once the sendEmail module is added (your build currently reports it missing).",
-  };
+export async function scanAndSendArtworkNeededEmails(input: ArtworkNeededJobInput = {}) {
+  const lookbackHours = Math.max(24, Math.floor(input.lookbackHours ?? DEFAULT_LOOKBACK_HOURS));
+  const limit = Math.max(1, Math.min(200, Math.floor(input.limit ?? 50)));
+  const now = input.now ?? new Date();
+  const dryRun = Boolean(input.dryRun);
+
+  const candidates = await findOrdersMissingArtwork({ lookbackHours, limit, now });
+  const summary = (o: ArtworkNeededOrder) => ({
+    orderId: o.orderId,
+    step: o.step,
+    lines: o.lines.length,
+    hasEmail: Boolean(o.email),
+  });
+
+  if (candidates.length === 0 || dryRun) {
+    return { ok: true as const, scanned: candidates.length, sent: 0, failed: 0, skipped: 0, dryRun, orders: candidates.map(summary) };
+  }
+
+  const products = await getProductsByIds([...new Set(candidates.flatMap((o) => o.lines.map((l) => l.productId)))]);
+
+  // React Email is heavy; only load it when there's something to send
+  const { sendArtworkNeededEmail } = await import("@/lib/email/sendArtworkNeededEmail");
+
+  let sent = 0;
+  let failed = 0;
+  let skipped = 0;
+  const sentOrders: ReturnType<typeof summary>[] = [];
+
+  for (const o of candidates) {
+    if (!o.email) {
+      skipped += 1;
+      continue;
+    }
+
+    const [claim] = await db
+      .insert(emailDeliveries)
+      .values({
+        kind: artworkNeededKind(o.step),
+        orderId: o.orderId,
+        toEmail: o.email,
+        meta: { step: o.step, cartLineIds: o.lines.map((l) => l.cartLineId) },
+      })
+      .onConflictDoNothing({ target: [emailDeliveries.kind, emailDeliveries.orderId] })
+      .returning({ id: emailDeliveries.id });
+
+    // another run got there first
+    if (!claim) {
+      skipped += 1;
+      continue;
+    }
+
+    try {
+      const res = await sendArtworkNeededEmail({
+        to: o.email,
+        name: o.name,
+        orderId: o.orderNumber || o.orderId,
+        uploadUrl: orderUrl(o.orderId),
+        reminderDay: o.step,
+        lines: o.lines.map((l) => ({
+          name: products.get(l.productId)?.name || `Product #${l.productId}`,
+          quantity: l.quantity,
+          uploadUrl: artworkUploadUrl(l),
+        })),
+      });
+
+      await db.update(emailDeliveries).set({ providerId: res.id }).where(eq(emailDeliveries.id, claim.id));
+      sent += 1;
+      sentOrders.push(summary(o));
+    } catch (e: any) {
+      failed += 1;
+      console.error("[artworkNeeded] send failed:", { orderId: o.orderId, step: o.step, error: e?.message || e });
+      // release the claim so the next run retries
+      await db.delete(emailDeliveries).where(eq(emailDeliveries.id, claim.id));
+    }
+  }
+
+  return { ok: true as const, scanned: candidates.length, sent, failed, skipped, dryRun: false, orders: sentOrders };
 }
 
 /** Small helper often used elsewhere */
@@ -9,3 +9,68 @@ export function cartArtworkThumbUrl(params: { cartLineId: string; side?: number;
   if (v) qs.set("v", v);
   return `/api/cart/lines/${encodeURIComponent(params.cartLineId)}/artwork/thumb?${qs.toString()}`;
 }
+
+/* ------------------------- generated preview images ------------------------ */
+// Rendered server-side by "@/lib/artwork/thumbnails" and stored in R2 next to the original.
+
+export type ThumbnailFace = "front" | "back";
+
+/** Bounding-box sizes (px) rendered for every face: cart thumb, card, print preview */
+export const THUMBNAIL_SIZES = [160, 480, 1200] as const;
+export type ThumbnailSize = (typeof THUMBNAIL_SIZES)[number];
+
+export type ThumbnailImage = {
+  face: ThumbnailFace;
+  size: ThumbnailSize;
+  /** actual rendered pixels (never upscaled past the source) */
+  width: number;
+  height: number;
+  key: string;
+};
+
+/** Stored on cart_attachments.meta.thumbnails and artwork_uploads.thumbnails */
+export type ArtworkThumbnails = {
+  version: 1;
+  status: "ready" | "unsupported" | "failed";
+  generatedAt: string;
+  message?: string;
+  images: ThumbnailImage[];
+};
+
+/** Deterministic R2 key for a rendered preview, e.g. "uploads/…/123_ab.pdf.thumbs/front-480.webp" */
+export function thumbnailKey(originalKey: string, face: ThumbnailFace, size: ThumbnailSize): string {
+  return `${String(originalKey).replace(/^\/+/, "")}.thumbs/${face}-${size}.webp`;
+}
+
+export function storedThumbnails(value: unknown): ArtworkThumbnails | null {
+  const t = (value as { thumbnails?: unknown } | null)?.thumbnails ?? value;
+  if (!t || typeof t !== "object") return null;
+  const v = t as Partial<ArtworkThumbnails>;
+  if (v.version !== 1 || !Array.isArray(v.images)) return null;
+  return v as ArtworkThumbnails;
+}
+
+/** Smallest rendered image of a face that is at least minPx on its long side (else the largest). */
+export function pickThumbnail(
+  thumbs: ArtworkThumbnails | null | undefined,
+  face: ThumbnailFace = "front",
+  minPx = 0,
+): ThumbnailImage | null {
+  const faceImages = (thumbs?.images ?? [])
+    .filter((i) => i.face === face)
+    .sort((a, b) => a.size - b.size);
+  if (!faceImages.length) return null;
+  return faceImages.find((i) => Math.max(i.width, i.height) >= minPx) ?? faceImages[faceImages.length - 1];
+}
+
+/** Lower-case extension of a file name or URL path ("" when there is none). */
+export function fileExtension(nameOrUrl: string | null | undefined): string {
+  const path = String(nameOrUrl ?? "").split(/[?#]/)[0];
+  const base = path.split("/").pop() ?? "";
+  return base.includes(".") ? (base.split(".").pop() ?? "").toLowerCase() : "";
+}
+
+/** Originals a browser can display as-is; anything else needs a rendered preview or an icon. */
+export function isBrowserImage(nameOrUrl: string | null | undefined): boolean {
+  return ["png", "jpg", "jpeg", "webp", "gif"].includes(fileExtension(nameOrUrl));
+}
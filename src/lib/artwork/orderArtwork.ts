@@ -0,0 +1,98 @@
+// src/lib/artwork/orderArtwork.ts
+import "server-only";
+
+import { eq } from "drizzle-orm";
+
+import { db } from "@/lib/db";
+import { orders } from "@/lib/db/schema/orders";
+import { cartLines } from "@/lib/db/schema/cartLines";
+import { cartArtwork } from "@/lib/db/schema/cartArtwork";
+import { cartAttachments } from "@/lib/db/schema/cartAttachments";
+import { artworkUploads, type NewArtworkUpload } from "@/lib/db/schema/artwork_uploads";
+
+/**
+ * Cart-line artwork -> artwork_uploads rows for the order.
+ *
+ * Customers upload to cart_artwork / cart_attachments, before checkout and afterwards on the
+ * order's closed cart (the artwork-needed page). Proofing and the Sinalite submission gate work
+ * on artwork_uploads by order_id, so each cart file is copied there once, keyed on
+ * (order_id, source_file_id), and starts in pending_review. Safe to call repeatedly: files
+ * uploaded since the last call are picked up, already linked ones are left alone.
+ */
+
+type Db = typeof db;
+type Tx = Parameters<Parameters<Db["transaction"]>[0]>[0];
+type DbOrTx = Db | Tx;
+
+export type CartLineFile = {
+  id: string;
+  productId: number;
+  url: string;
+  fileName: string;
+  contentType: string | null;
+  createdAt: Date;
+};
+
+/** artwork_uploads.file_url is varchar(255); a longer URL can't be linked and stays on the cart. */
+const MAX_FILE_URL = 255;
+
+export function orderArtworkFromCartFiles(
+  order: { id: string; userId: string },
+  files: CartLineFile[],
+): NewArtworkUpload[] {
+  return files
+    // product 0 = custom line from an accepted quote, proofed in-house
+    .filter((f) => f.productId > 0 && f.url.trim() && f.url.trim().length <= MAX_FILE_URL)
+    .map((f) => ({
+      productId: String(f.productId),
+      orderId: order.id,
+      userId: order.userId.slice(0, 64),
+      fileUrl: f.url.trim(),
+      fileName: (f.fileName.trim() || "artwork").slice(0, 128),
+      fileType: f.contentType ? f.contentType.slice(0, 64) : null,
+      sourceFileId: f.id,
+      // upload order decides front/back when the order is sent to Sinalite
+      createdAt: f.createdAt,
+    }));
+}
+
+/** Copy the order's cart-line files to artwork_uploads; returns how many were new. */
+export async function linkCartArtworkToOrder(database: DbOrTx, orderId: string): Promise<number> {
+  const [order] = await database
+    .select({ id: orders.id, userId: orders.userId, cartId: orders.cartId })
+    .from(orders)
+    .where(eq(orders.id, orderId))
+    .limit(1);
+  if (!order?.cartId) return 0;
+
+  const fileColumns = (t: typeof cartArtwork | typeof cartAttachments) => ({
+    id: t.id,
+    productId: cartLines.productId,
+    url: t.url,
+    fileName: t.fileName,
+    contentType: t.contentType,
+    createdAt: t.createdAt,
+  });
+
+  // One after the other: `database` may be a transaction
+  const sides = await database
+    .select(fileColumns(cartArtwork))
+    .from(cartArtwork)
+    .innerJoin(cartLines, eq(cartLines.id, cartArtwork.cartLineId))
+    .where(eq(cartLines.cartId, order.cartId));
+  const attachments = await database
+    .select(fileColumns(cartAttachments))
+    .from(cartAttachments)
+    .innerJoin(cartLines, eq(cartLines.id, cartAttachments.cartLineId))
+    .where(eq(cartLines.cartId, order.cartId));
+
+  const rows = orderArtworkFromCartFiles({ id: String(order.id), userId: order.userId }, [...sides, ...attachments]);
+  if (!rows.length) return 0;
+
+  const inserted = await database
+    .insert(artworkUploads)
+    .values(rows)
+    .onConflictDoNothing()
+    .returning({ id: artworkUploads.id });
+  return inserted.length;
+}
@@ -0,0 +1,239 @@
+// src/lib/artwork/pdfImages.ts
+import zlib from "node:zlib";
+
+import { pdfObjectEntries } from "@/lib/artwork/preflight";
+
+/**
+ * Pulls the largest embedded image off each of the first pages of a PDF, for previews.
+ *
+ * There's no PDF rasterizer in this build, so vector-only pages yield nothing; print PDFs
+ * exported from design tools usually carry a full-page image, which is what we preview.
+ * Supported encodings: DCTDecode (handed over as JPEG bytes) and 8-bit FlateDecode / raw
+ * samples in Gray, RGB, CMYK or ICCBased spaces. Anything else is skipped.
+ */
+
+export type PdfPageImage = {
+  /** 0-based page index */
+  page: number;
+  width: number;
+  height: number;
+  encoding: "jpeg" | "raw";
+  /** raw only: samples per pixel (1 gray, 3 RGB, 4 CMYK) */
+  channels?: 1 | 3 | 4;
+  data: Uint8Array;
+};
+
+// Skip images whose decoded samples would exceed this (keeps memory bounded)
+const MAX_RAW_BYTES = 80 * 1024 * 1024;
+const MAX_FORM_DEPTH = 2;
+
+const REF_RE = /^\s*(\d+)\s+\d+\s+R\b/;
+
+/** Dictionary part of an object (everything before its stream data). */
+function dictPart(body: string): string {
+  const at = body.search(/\bstream\r?\n/);
+  return at < 0 ? body : body.slice(0, at);
+}
+
+/** Raw value following /Key: a balanced << >> dict, [ ] array, reference, name or number. */
+function dictValue(dict: string, key: string): string | null {
+  const m = new RegExp(`/${key}(?![A-Za-z0-9])\\s*`).exec(dict);
+  if (!m) return null;
+  const start = m.index + m[0].length;
+  const rest = dict.slice(start);
+
+  if (rest.startsWith("<<")) {
+    let depth = 0;
+    for (let i = 0; i < rest.length - 1; i++) {
+      if (rest[i] === "<" && rest[i + 1] === "<") {
+        depth++;
+        i++;
+      } else if (rest[i] === ">" && rest[i + 1] === ">") {
+        depth--;
+        i++;
+        if (depth === 0) return rest.slice(0, i + 1);
+      }
+    }
+    return null;
+  }
+  if (rest.startsWith("[")) {
+    const end = rest.indexOf("]");
+    return end < 0 ? null : rest.slice(0, end + 1);
+  }
+  return rest.match(/^(\d+\s+\d+\s+R|\/[^\s/<>[\]()]+|[-\d.]+)/)?.[1] ?? null;
+}
+
+function streamBytes(body: string): Uint8Array | null {
+  const m = /\bstream\r?\n/.exec(body);
+  const end = body.lastIndexOf("endstream");
+  if (!m || end < 0) return null;
+  const data = body.slice(m.index + m[0].length, end).replace(/\r?\n$/, "");
+  return new Uint8Array(Buffer.from(data, "latin1"));
+}
+
+/** Undo PNG row predictors (DecodeParms /Predictor >= 10). */
+function unpredictPng(data: Uint8Array, columns: number, bytesPerPixel: number): Uint8Array | null {
+  const rowLen = columns * bytesPerPixel;
+  const rows = Math.floor(data.length / (rowLen + 1));
+  const out = new Uint8Array(rows * rowLen);
+
+  for (let r = 0; r < rows; r++) {
+    const filter = data[r * (rowLen + 1)];
+    const src = r * (rowLen + 1) + 1;
+    const dst = r * rowLen;
+    for (let i = 0; i < rowLen; i++) {
+      const x = data[src + i];
+      const a = i >= bytesPerPixel ? out[dst + i - bytesPerPixel] : 0;
+      const b = r > 0 ? out[dst - rowLen + i] : 0;
+      const c = r > 0 && i >= bytesPerPixel ? out[dst - rowLen + i - bytesPerPixel] : 0;
+      let v: number;
+      switch (filter) {
+        case 0:
+          v = x;
+          break;
+        case 1:
+          v = x + a;
+          break;
+        case 2:
+          v = x + b;
+          break;
+        case 3:
+          v = x + ((a + b) >> 1);
+          break;
+        case 4: {
+          const p = a + b - c;
+          const pa = Math.abs(p - a);
+          const pb = Math.abs(p - b);
+          const pc = Math.abs(p - c);
+          v = x + (pa <= pb && pa <= pc ? a : pb <= pc ? b : c);
+          break;
+        }
+        default:
+          return null;
+      }
+      out[dst + i] = v & 0xff;
+    }
+  }
+  return out;
+}
+
+export function pdfPageImages(bytes: Uint8Array, maxPages = 2): PdfPageImage[] {
+  const raw = Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength).toString("latin1");
+  const entries = pdfObjectEntries(raw);
+  const byNum = new Map<number, string>();
+  for (const e of entries) if (!byNum.has(e.num)) byNum.set(e.num, e.body);
+
+  const deref = (v: string | null): string | null => {
+    if (!v) return null;
+    const m = v.match(REF_RE);
+    return m ? (byNum.get(Number(m[1])) ?? null) : v;
+  };
+
+  const components = (cs: string | null): 1 | 3 | 4 | null => {
+    const v = deref(cs);
+    if (!v) return null;
+    if (/^\/(DeviceGray|CalGray)\b/.test(v)) return 1;
+    if (/^\/(DeviceRGB|CalRGB)\b/.test(v)) return 3;
+    if (/^\/DeviceCMYK\b/.test(v)) return 4;
+    const icc = v.match(/^\[\s*\/ICCBased\s+(\d+\s+\d+\s+R)/);
+    if (icc) {
+      const n = dictPart(deref(icc[1]) ?? "").match(/\/N\s+([134])\b/)?.[1];
+      return n ? (Number(n) as 1 | 3 | 4) : null;
+    }
+    return null;
+  };
+
+  const decodeImage = (body: string, page: number): PdfPageImage | null => {
+    const dict = dictPart(body);
+    if (/\/ImageMask\s+true/.test(dict)) return null;
+
+    const width = Number(deref(dictValue(dict, "Width")) ?? 0);
+    const height = Number(deref(dictValue(dict, "Height")) ?? 0);
+    if (!(width > 0 && height > 0)) return null;
+
+    const filterRaw = dictValue(dict, "Filter") ?? "";
+    const filters = filterRaw.match(/\/[A-Za-z0-9]+/g)?.map((f) => f.slice(1)) ?? [];
+    let data = streamBytes(body);
+    if (!data) return null;
+
+    for (const [i, f] of filters.entries()) {
+      if (f === "DCTDecode") {
+        // must be last in the chain
+        return i === filters.length - 1 ? { page, width, height, encoding: "jpeg", data } : null;
+      }
+      if (f !== "FlateDecode") return null;
+      try {
+        data = new Uint8Array(zlib.inflateSync(data));
+      } catch {
+        return null;
+      }
+    }
+
+    if (Number(dictValue(dict, "BitsPerComponent") ?? 8) !== 8) return null;
+    const channels = components(dictValue(dict, "ColorSpace"));
+    if (!channels || width * height * channels > MAX_RAW_BYTES) return null;
+
+    const parms = deref(dictValue(dict, "DecodeParms")) ?? "";
+    if (Number(parms.match(/\/Predictor\s+(\d+)/)?.[1] ?? 1) >= 10) {
+      const unpredicted = unpredictPng(data, width, channels);
+      if (!unpredicted) return null;
+      data = unpredicted;
+    }
+    if (data.length < width * height * channels) return null;
+
+    return { page, width, height, encoding: "raw", channels, data: data.subarray(0, width * height * channels) };
+  };
+
+  /** Image XObject bodies reachable from a resources dict (following Form XObjects). */
+  const imagesIn = (resources: string | null, depth: number): string[] => {
+    const xobjects = deref(dictValue(deref(resources) ?? "", "XObject"));
+    if (!xobjects) return [];
+
+    const out: string[] = [];
+    for (const m of xobjects.matchAll(/\/[^\s/<>[\]()]+\s+(\d+)\s+\d+\s+R/g)) {
+      const obj = byNum.get(Number(m[1]));
+      if (!obj) continue;
+      const dict = dictPart(obj);
+      if (/\/Subtype\s*\/Image\b/.test(dict)) out.push(obj);
+      else if (/\/Subtype\s*\/Form\b/.test(dict) && depth < MAX_FORM_DEPTH) {
+        out.push(...imagesIn(dictValue(dict, "Resources"), depth + 1));
+      }
+    }
+    return out;
+  };
+
+  const pageResources = (pageBody: string): string | null => {
+    let node: string | null = pageBody;
+    // Resources may be inherited from the page tree
+    for (let hops = 0; node && hops < 16; hops++) {
+      const res = dictValue(dictPart(node), "Resources");
+      if (res) return res;
+      node = deref(dictValue(dictPart(node), "Parent"));
+    }
+    return null;
+  };
+
+  const pages = entries.filter((e) => /\/Type\s*\/Page(?![a-zA-Z])/.test(dictPart(e.body)));
+  const out: PdfPageImage[] = [];
+
+  for (const [index, p] of pages.slice(0, maxPages).entries()) {
+    const candidates = imagesIn(pageResources(p.body), 0)
+      .map((body) => ({
+        body,
+        area:
+          Number(dictPart(body).match(/\/Width\s+(\d+)/)?.[1] ?? 0) *
+          Number(dictPart(body).match(/\/Height\s+(\d+)/)?.[1] ?? 0),
+      }))
+      .sort((a, b) => b.area - a.area);
+
+    for (const c of candidates) {
+      const img = decodeImage(c.body, index);
+      if (img) {
+        out.push(img);
+        break;
+      }
+    }
+  }
+
+  return out;
+}
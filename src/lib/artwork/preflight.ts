@@ -0,0 +1,671 @@
+// src/lib/artwork/preflight.ts
+// Artwork preflight: inspects uploaded PDFs / raster images against the product's print spec.
+// Pure (no DB / network) so it can run anywhere and be unit tested; see runPreflight.ts for I/O.
+//
+// This is a byte-level inspector, not a full PDF renderer. It reads what print shops check first:
+// - page size vs. the Sinalite size option (trim, or trim + bleed)
+// - bleed (TrimBox/BleedBox when present, otherwise page size vs. trim)
+// - effective resolution of raster content at print size
+// - color space (RGB vs CMYK)
+// - font embedding (PDF)
+// - page count vs. printed sides
+
+import zlib from "node:zlib";
+
+export type PreflightStatus = "pass" | "warn" | "fail" | "skip";
+
+export type PreflightCheckId = "format" | "page_size" | "bleed" | "resolution" | "color_space" | "fonts" | "page_count";
+
+export type PreflightCheck = {
+  id: PreflightCheckId;
+  status: PreflightStatus;
+  message: string;
+  details?: Record<string, unknown>;
+};
+
+export type PreflightReport = {
+  version: 1;
+  status: Exclude<PreflightStatus, "skip">;
+  checkedAt: string;
+  fileType: "pdf" | "png" | "jpeg" | "tiff" | "webp" | "unknown";
+  checks: PreflightCheck[];
+};
+
+export type PreflightSpec = {
+  /** Trim size in inches (null when the product size is unknown) */
+  widthIn: number | null;
+  heightIn: number | null;
+  /** Printed sides (1 or 2), null when unknown */
+  sides: number | null;
+  /** Required bleed per edge, inches */
+  bleedIn?: number;
+  /** Below warnDpi -> warn, below failDpi -> fail */
+  warnDpi?: number;
+  failDpi?: number;
+};
+
+export type ColorSpace = "rgb" | "cmyk" | "gray" | "mixed" | "unknown";
+
+export type RasterInfo = {
+  kind: "png" | "jpeg" | "tiff" | "webp";
+  widthPx: number;
+  heightPx: number;
+  dpiX: number | null;
+  dpiY: number | null;
+  colorSpace: ColorSpace;
+};
+
+export type PdfInfo = {
+  pages: number;
+  /** Points (1/72 in) */
+  mediaBox: [number, number] | null;
+  trimBox: [number, number] | null;
+  bleedBox: [number, number] | null;
+  colorSpace: ColorSpace;
+  fonts: { name: string; embedded: boolean }[];
+  images: { widthPx: number; heightPx: number }[];
+};
+
+const DEFAULT_BLEED_IN = 0.125;
+const DEFAULT_WARN_DPI = 300;
+const DEFAULT_FAIL_DPI = 150;
+/** Size tolerance, inches (~1.5pt): exports round boxes differently */
+const SIZE_TOLERANCE_IN = 0.02;
+/** Aspect-ratio tolerance for proportional artwork */
+const ASPECT_TOLERANCE = 0.02;
+
+const STANDARD_14_FONTS = new Set([
+  "Courier",
+  "Courier-Bold",
+  "Courier-Oblique",
+  "Courier-BoldOblique",
+  "Helvetica",
+  "Helvetica-Bold",
+  "Helvetica-Oblique",
+  "Helvetica-BoldOblique",
+  "Times-Roman",
+  "Times-Bold",
+  "Times-Italic",
+  "Times-BoldItalic",
+  "Symbol",
+  "ZapfDingbats",
+]);
+
+/* --------------------------- Sinalite options ---------------------------- */
+
+/**
+ * Trim size from a Sinalite size option name, in inches.
+ * Handles `3.5" x 2"`, `8.5 x 11`, `4"x6"`, `90mm x 50mm`, `2.5" Circle`, `2" Square`.
+ */
+export function parseSinaliteSize(name: string): { widthIn: number; heightIn: number } | null {
+  const s = String(name ?? "").trim();
+  if (!s) return null;
+
+  const unit = /(\d|\b)mm\b/i.test(s) ? 1 / 25.4 : /(\d|\b)cm\b/i.test(s) ? 1 / 2.54 : 1;
+
+  const rect = s.match(/(\d+(?:\.\d+)?)\s*(?:"|''|in(?:ch(?:es)?)?|mm|cm)?\s*[x×]\s*(\d+(?:\.\d+)?)/i);
+  if (rect) {
+    const w = Number(rect[1]) * unit;
+    const h = Number(rect[2]) * unit;
+    return w > 0 && h > 0 ? { widthIn: w, heightIn: h } : null;
+  }
+
+  const round = s.match(/(\d+(?:\.\d+)?)\s*(?:"|''|in(?:ch(?:es)?)?|mm|cm)?\s*(?:circle|round|square)/i);
+  if (round) {
+    const d = Number(round[1]) * unit;
+    return d > 0 ? { widthIn: d, heightIn: d } : null;
+  }
+
+  return null;
+}
+
+/** Printed sides from a Sinalite color/sides option name ("4/4", "4/0", "Double Sided", ...). */
+export function parseSinaliteSides(name: string): number | null {
+  const s = String(name ?? "").trim();
+  if (!s) return null;
+
+  const inks = s.match(/(\d)\s*\/\s*(\d)/);
+  if (inks) return Number(inks[2]) > 0 ? 2 : 1;
+
+  if (/\b(both|double|two|2)[\s-]*(sides?|sided)\b|\bboth\b/i.test(s)) return 2;
+  if (/\b(single|one|1)[\s-]*(sides?|sided)\b|front\s*only/i.test(s)) return 1;
+  return null;
+}
+
+/* ------------------------------ raster files ----------------------------- */
+
+function u16be(b: Uint8Array, o: number) {
+  return (b[o] << 8) | b[o + 1];
+}
+function u32be(b: Uint8Array, o: number) {
+  return ((b[o] << 24) >>> 0) + ((b[o + 1] << 16) | (b[o + 2] << 8) | b[o + 3]);
+}
+function ascii(b: Uint8Array, o: number, n: number) {
+  return String.fromCharCode(...b.subarray(o, o + n));
+}
+
+function inspectPng(b: Uint8Array): RasterInfo | null {
+  if (b.length < 33 || ascii(b, 12, 4) !== "IHDR") return null;
+
+  const widthPx = u32be(b, 16);
+  const heightPx = u32be(b, 20);
+  const colorType = b[25];
+  const colorSpace: ColorSpace = colorType === 0 || colorType === 4 ? "gray" : "rgb";
+
+  let dpiX: number | null = null;
+  let dpiY: number | null = null;
+
+  for (let o = 8; o + 12 <= b.length; ) {
+    const len = u32be(b, o);
+    const type = ascii(b, o + 4, 4);
+    if (type === "pHYs" && len >= 9 && b[o + 16] === 1) {
+      dpiX = Math.round(u32be(b, o + 8) * 0.0254);
+      dpiY = Math.round(u32be(b, o + 12) * 0.0254);
+    }
+    if (type === "IDAT" || type === "IEND") break;
+    o += 12 + len;
+  }
+
+  return { kind: "png", widthPx, heightPx, dpiX, dpiY, colorSpace };
+}
+
+function inspectJpeg(b: Uint8Array): RasterInfo | null {
+  let dpiX: number | null = null;
+  let dpiY: number | null = null;
+
+  for (let o = 2; o + 4 <= b.length; ) {
+    if (b[o] !== 0xff) {
+      o += 1;
+      continue;
+    }
+    const marker = b[o + 1];
+    if (marker === 0xff) {
+      o += 1;
+      continue;
+    }
+    if (marker === 0xd9 || marker === 0xda) break;
+
+    const len = u16be(b, o + 2);
+    const data = o + 4;
+
+    if (marker === 0xe0 && ascii(b, data, 5) === "JFIF\0" && len >= 14) {
+      const units = b[data + 7];
+      const x = u16be(b, data + 8);
+      const y = u16be(b, data + 10);
+      if (units === 1) [dpiX, dpiY] = [x, y];
+      if (units === 2) [dpiX, dpiY] = [Math.round(x * 2.54), Math.round(y * 2.54)];
+    }
+
+    const isSof = marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+    if (isSof && len >= 8) {
+      const heightPx = u16be(b, data + 1);
+      const widthPx = u16be(b, data + 3);
+      const components = b[data + 5];
+      const colorSpace: ColorSpace = components === 4 ? "cmyk" : components === 1 ? "gray" : components === 3 ? "rgb" : "unknown";
+      return { kind: "jpeg", widthPx, heightPx, dpiX, dpiY, colorSpace };
+    }
+
+    o += 2 + len;
+  }
+
+  return null;
+}
+
+function inspectTiff(b: Uint8Array): RasterInfo | null {
+  const le = b[0] === 0x49;
+  const view = new DataView(b.buffer, b.byteOffset, b.byteLength);
+  const u16 = (o: number) => view.getUint16(o, le);
+  const u32 = (o: number) => view.getUint32(o, le);
+
+  const ifd = u32(4);
+  if (ifd + 2 > b.length) return null;
+
+  const tags = new Map<number, { type: number; value: number; offset: number }>();
+  const count = u16(ifd);
+  for (let i = 0; i < count; i++) {
+    const e = ifd + 2 + i * 12;
+    if (e + 12 > b.length) break;
+    const type = u16(e + 2);
+    const value = type === 3 ? u16(e + 8) : u32(e + 8);
+    tags.set(u16(e), { type, value, offset: u32(e + 8) });
+  }
+
+  const rational = (tag: number) => {
+    const t = tags.get(tag);
+    if (!t || t.type !== 5 || t.offset + 8 > b.length) return null;
+    const den = u32(t.offset + 4);
+    return den ? u32(t.offset) / den : null;
+  };
+
+  const widthPx = tags.get(256)?.value ?? 0;
+  const heightPx = tags.get(257)?.value ?? 0;
+  const photometric = tags.get(262)?.value;
+  const unit = tags.get(296)?.value ?? 2;
+  const toDpi = (v: number | null) => (v == null ? null : Math.round(unit === 3 ? v * 2.54 : v));
+
+  const colorSpace: ColorSpace =
+    photometric === 5 ? "cmyk" : photometric === 0 || photometric === 1 ? "gray" : photometric === 2 || photometric === 6 ? "rgb" : "unknown";
+
+  if (!widthPx || !heightPx) return null;
+  return { kind: "tiff", widthPx, heightPx, dpiX: toDpi(rational(282)), dpiY: toDpi(rational(283)), colorSpace };
+}
+
+function inspectWebp(b: Uint8Array): RasterInfo | null {
+  const chunk = ascii(b, 12, 4);
+  const d = 20;
+  let widthPx = 0;
+  let heightPx = 0;
+
+  if (chunk === "VP8 " && b.length >= d + 10) {
+    widthPx = (b[d + 6] | (b[d + 7] << 8)) & 0x3fff;
+    heightPx = (b[d + 8] | (b[d + 9] << 8)) & 0x3fff;
+  } else if (chunk === "VP8L" && b.length >= d + 5) {
+    const bits = b[d + 1] | (b[d + 2] << 8) | (b[d + 3] << 16) | (b[d + 4] << 24);
+    widthPx = (bits & 0x3fff) + 1;
+    heightPx = ((bits >>> 14) & 0x3fff) + 1;
+  } else if (chunk === "VP8X" && b.length >= d + 10) {
+    widthPx = (b[d + 4] | (b[d + 5] << 8) | (b[d + 6] << 16)) + 1;
+    heightPx = (b[d + 7] | (b[d + 8] << 8) | (b[d + 9] << 16)) + 1;
+  }
+
+  if (!widthPx || !heightPx) return null;
+  return { kind: "webp", widthPx, heightPx, dpiX: null, dpiY: null, colorSpace: "rgb" };
+}
+
+export function sniffFileType(b: Uint8Array): PreflightReport["fileType"] {
+  if (b.length >= 5 && ascii(b, 0, 5) === "%PDF-") return "pdf";
+  if (b.length >= 8 && b[0] === 0x89 && ascii(b, 1, 3) === "PNG") return "png";
+  if (b.length >= 3 && b[0] === 0xff && b[1] === 0xd8 && b[2] === 0xff) return "jpeg";
+  if (b.length >= 4 && (ascii(b, 0, 4) === "II*\0" || ascii(b, 0, 4) === "MM\0*")) return "tiff";
+  if (b.length >= 16 && ascii(b, 0, 4) === "RIFF" && ascii(b, 8, 4) === "WEBP") return "webp";
+  // Some exporters prepend junk before %PDF (allowed within the first 1KB)
+  if (ascii(b, 0, Math.min(1024, b.length)).includes("%PDF-")) return "pdf";
+  return "unknown";
+}
+
+export function inspectRaster(b: Uint8Array): RasterInfo | null {
+  switch (sniffFileType(b)) {
+    case "png":
+      return inspectPng(b);
+    case "jpeg":
+      return inspectJpeg(b);
+    case "tiff":
+      return inspectTiff(b);
+    case "webp":
+      return inspectWebp(b);
+    default:
+      return null;
+  }
+}
+
+/* --------------------------------- PDF ----------------------------------- */
+
+export type PdfObject = { num: number; body: string };
+
+/** Numbered object bodies from the file, including objects packed into compressed object streams. */
+export function pdfObjectEntries(raw: string): PdfObject[] {
+  const entries: PdfObject[] = [];
+  const re = /(\d+)\s+\d+\s+obj\b([\s\S]*?)\bendobj\b/g;
+
+  for (let m = re.exec(raw); m; m = re.exec(raw)) {
+    const body = m[2];
+    entries.push({ num: Number(m[1]), body });
+
+    if (!/\/Type\s*\/ObjStm\b/.test(body)) continue;
+
+    const streamAt = body.search(/\bstream\r?\n/);
+    const endAt = body.lastIndexOf("endstream");
+    if (streamAt < 0 || endAt < 0) continue;
+
+    const dict = body.slice(0, streamAt);
+    const dataStart = streamAt + (body.slice(streamAt).match(/^stream\r?\n/)?.[0].length ?? 7);
+    let text: string;
+    try {
+      const data = Buffer.from(body.slice(dataStart, endAt), "latin1");
+      text = /\/FlateDecode/.test(dict) ? zlib.inflateSync(data).toString("latin1") : data.toString("latin1");
+    } catch {
+      continue;
+    }
+
+    const first = Number(dict.match(/\/First\s+(\d+)/)?.[1] ?? NaN);
+    if (!Number.isFinite(first)) continue;
+
+    // header: "num offset num offset ..."
+    const header = text.slice(0, first).trim().split(/\s+/).map(Number);
+    const nums = header.filter((_, i) => i % 2 === 0);
+    const offsets = header.filter((_, i) => i % 2 === 1);
+
+    offsets.forEach((off, i) => {
+      const end = i + 1 < offsets.length ? offsets[i + 1] : text.length - first;
+      entries.push({ num: nums[i], body: text.slice(first + off, first + end) });
+    });
+  }
+
+  return entries;
+}
+
+function pdfObjects(raw: string): string[] {
+  return pdfObjectEntries(raw).map((o) => o.body);
+}
+
+function boxSize(body: string, name: string): [number, number] | null {
+  const m = body.match(new RegExp(`/${name}\\s*\\[\\s*([-\\d.\\s]+)\\]`));
+  if (!m) return null;
+  const n = m[1].trim().split(/\s+/).map(Number);
+  if (n.length !== 4 || n.some((x) => !Number.isFinite(x))) return null;
+  return [Math.abs(n[2] - n[0]), Math.abs(n[3] - n[1])];
+}
+
+export function inspectPdf(bytes: Uint8Array): PdfInfo {
+  const raw = Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength).toString("latin1");
+  const objects = pdfObjects(raw);
+
+  const pageObjects = objects.filter((o) => /\/Type\s*\/Page(?![a-zA-Z])/.test(o));
+  const pagesNode = objects.find((o) => /\/Type\s*\/Pages\b/.test(o)) ?? "";
+  const firstPage = pageObjects[0] ?? "";
+
+  const box = (name: string) => boxSize(firstPage, name) ?? boxSize(pagesNode, name);
+
+  const embedded = new Set<string>();
+  for (const o of objects) {
+    if (!/\/Type\s*\/FontDescriptor\b/.test(o) || !/\/FontFile[23]?\b/.test(o)) continue;
+    const name = o.match(/\/FontName\s*\/([^\s/[\]<>()]+)/)?.[1];
+    if (name) embedded.add(name);
+  }
+
+  const fonts = new Map<string, boolean>();
+  for (const o of objects) {
+    if (!/\/Type\s*\/Font\b/.test(o) || /\/Subtype\s*\/(Type0|Type3)\b/.test(o)) continue;
+    const name = o.match(/\/BaseFont\s*\/([^\s/[\]<>()]+)/)?.[1];
+    if (name) fonts.set(name, (fonts.get(name) ?? false) || embedded.has(name));
+  }
+
+  const images: PdfInfo["images"] = [];
+  let rgb = /\/DeviceRGB\b|\/CalRGB\b/.test(raw);
+  let cmyk = /\/DeviceCMYK\b/.test(raw);
+  const gray = /\/DeviceGray\b|\/CalGray\b/.test(raw);
+
+  for (const o of objects) {
+    if (/\/Subtype\s*\/Image\b/.test(o)) {
+      const w = Number(o.match(/\/Width\s+(\d+)/)?.[1] ?? 0);
+      const h = Number(o.match(/\/Height\s+(\d+)/)?.[1] ?? 0);
+      if (w > 0 && h > 0) images.push({ widthPx: w, heightPx: h });
+      if (/\/ColorSpace\s*\/DeviceRGB\b/.test(o)) rgb = true;
+      if (/\/ColorSpace\s*\/DeviceCMYK\b/.test(o)) cmyk = true;
+    }
+    // ICC profile streams: /N is the component count
+    if (/\bstream\b/.test(o) && !/\/Type\b/.test(o)) {
+      const n = o.match(/\/N\s+([134])\b/)?.[1];
+      if (n === "3") rgb = true;
+      if (n === "4") cmyk = true;
+    }
+  }
+  for (const o of objects) {
+    if (/\/ColorSpace\s*\/DeviceRGB\b/.test(o)) rgb = true;
+  }
+  // DeviceRGB/CMYK objects inside compressed object streams
+  const packed = objects.join("\n");
+  if (/\/DeviceRGB\b/.test(packed)) rgb = true;
+  if (/\/DeviceCMYK\b/.test(packed)) cmyk = true;
+
+  const colorSpace: ColorSpace = rgb && cmyk ? "mixed" : cmyk ? "cmyk" : rgb ? "rgb" : gray ? "gray" : "unknown";
+
+  return {
+    pages: pageObjects.length,
+    mediaBox: box("MediaBox"),
+    trimBox: box("TrimBox"),
+    bleedBox: box("BleedBox"),
+    colorSpace,
+    fonts: [...fonts.entries()].map(([name, isEmbedded]) => ({ name, embedded: isEmbedded })),
+    images,
+  };
+}
+
+/* -------------------------------- checks --------------------------------- */
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+const fmtIn = (w: number, h: number) => `${round2(w)} × ${round2(h)} in`;
+
+/** Compare ignoring orientation. */
+function sameSize(a: [number, number], b: [number, number], tol = SIZE_TOLERANCE_IN) {
+  const [a1, a2] = [...a].sort((x, y) => x - y);
+  const [b1, b2] = [...b].sort((x, y) => x - y);
+  return Math.abs(a1 - b1) <= tol && Math.abs(a2 - b2) <= tol;
+}
+
+function sameAspect(a: [number, number], b: [number, number]) {
+  const ra = Math.max(...a) / Math.min(...a);
+  const rb = Math.max(...b) / Math.min(...b);
+  return Math.abs(ra - rb) / rb <= ASPECT_TOLERANCE;
+}
+
+function dpiCheck(dpi: number | null, spec: Required<Pick<PreflightSpec, "warnDpi" | "failDpi">>, basis: string): PreflightCheck {
+  if (dpi == null) return { id: "resolution", status: "skip", message: "Resolution could not be determined" };
+  const d = Math.floor(dpi);
+  const details = { effectiveDpi: d, basis };
+  if (d < spec.failDpi) {
+    return { id: "resolution", status: "fail", message: `Effective resolution is ${d} DPI; at least ${spec.warnDpi} DPI is recommended`, details };
+  }
+  if (d < spec.warnDpi) {
+    return { id: "resolution", status: "warn", message: `Effective resolution is ${d} DPI; prints may look soft below ${spec.warnDpi} DPI`, details };
+  }
+  return { id: "resolution", status: "pass", message: `Effective resolution is ${d} DPI`, details };
+}
+
+function colorCheck(cs: ColorSpace): PreflightCheck {
+  switch (cs) {
+    case "cmyk":
+      return { id: "color_space", status: "pass", message: "CMYK color" };
+    case "gray":
+      return { id: "color_space", status: "pass", message: "Grayscale" };
+    case "rgb":
+      return { id: "color_space", status: "warn", message: "RGB color will be converted to CMYK; bright colors may shift" };
+    case "mixed":
+      return { id: "color_space", status: "warn", message: "Mixes RGB and CMYK; RGB elements will be converted and may shift" };
+    default:
+      return { id: "color_space", status: "skip", message: "Color space could not be determined" };
+  }
+}
+
+function pageCountCheck(pages: number, sides: number | null): PreflightCheck {
+  if (sides == null) return { id: "page_count", status: "skip", message: "Number of printed sides is unknown" };
+  const details = { pages, sides };
+  if (pages === sides) return { id: "page_count", status: "pass", message: `${pages} page${pages === 1 ? "" : "s"} for ${sides}-sided printing`, details };
+  if (pages > sides) {
+    return { id: "page_count", status: "fail", message: `File has ${pages} pages but the product prints ${sides} side${sides === 1 ? "" : "s"}`, details };
+  }
+  return {
+    id: "page_count",
+    status: "warn",
+    message: `File has ${pages} page${pages === 1 ? "" : "s"} for ${sides}-sided printing; upload the other side separately`,
+    details,
+  };
+}
+
+/**
+ * Page size + bleed from the physical artwork size.
+ * trimIn is the declared trim (PDF TrimBox) when present; outerIn is the full page (Bleed/MediaBox).
+ */
+function sizeChecks(
+  outerIn: [number, number],
+  trimIn: [number, number] | null,
+  spec: PreflightSpec,
+  bleedIn: number,
+): PreflightCheck[] {
+  if (spec.widthIn == null || spec.heightIn == null) {
+    return [
+      { id: "page_size", status: "skip", message: "Product size is unknown" },
+      { id: "bleed", status: "skip", message: "Product size is unknown" },
+    ];
+  }
+
+  const want: [number, number] = [spec.widthIn, spec.heightIn];
+  const wantBleed: [number, number] = [spec.widthIn + 2 * bleedIn, spec.heightIn + 2 * bleedIn];
+  const expected = `${fmtIn(...want)} (${fmtIn(...wantBleed)} with bleed)`;
+  const details = { expectedTrimIn: want.map(round2), pageIn: outerIn.map(round2), trimIn: trimIn?.map(round2) ?? null };
+
+  const trim = trimIn ?? (sameSize(outerIn, wantBleed) ? want : sameSize(outerIn, want) ? outerIn : null);
+
+  let pageSize: PreflightCheck;
+  if (trim && sameSize(trim, want)) {
+    pageSize = { id: "page_size", status: "pass", message: `Trim size matches ${fmtIn(...want)}`, details };
+  } else if (sameAspect(trimIn ?? outerIn, want) || sameAspect(outerIn, wantBleed)) {
+    pageSize = {
+      id: "page_size",
+      status: "warn",
+      message: `Page is ${fmtIn(...outerIn)}; expected ${expected}. It's proportional and will be scaled to fit`,
+      details,
+    };
+  } else {
+    return [
+      { id: "page_size", status: "fail", message: `Page is ${fmtIn(...outerIn)}; expected ${expected}`, details },
+      { id: "bleed", status: "skip", message: "Bleed not checked because the page size doesn't match" },
+    ];
+  }
+
+  // Compare short side to short side so rotated artwork still measures correctly
+  const [outerShort, outerLong] = [...outerIn].sort((a, b) => a - b);
+  const [trimShort, trimLong] = [...(trim && sameSize(trim, want) ? trim : want)].sort((a, b) => a - b);
+  const bleed = round2(Math.max(0, Math.min(outerShort - trimShort, outerLong - trimLong) / 2));
+
+  const bleedDetails = { bleedIn: bleed, requiredIn: bleedIn };
+  const bleedCheck: PreflightCheck =
+    bleed >= bleedIn - SIZE_TOLERANCE_IN / 2
+      ? { id: "bleed", status: "pass", message: `${bleed} in bleed on each edge`, details: bleedDetails }
+      : bleed > 0
+        ? { id: "bleed", status: "warn", message: `Only ${bleed} in bleed; ${bleedIn} in is required on each edge`, details: bleedDetails }
+        : {
+            id: "bleed",
+            status: "warn",
+            message: `No bleed; extend background colors and images ${bleedIn} in past the trim on each edge`,
+            details: bleedDetails,
+          };
+
+  return [pageSize, bleedCheck];
+}
+
+/** Preflight report previously stored on an attachment's meta, if any. */
+export function storedPreflight(meta: unknown): PreflightReport | null {
+  const p = (meta as { preflight?: unknown } | null)?.preflight as PreflightReport | undefined;
+  return p && p.version === 1 && Array.isArray(p.checks) ? p : null;
+}
+
+function worst(checks: PreflightCheck[]): PreflightReport["status"] {
+  if (checks.some((c) => c.status === "fail")) return "fail";
+  if (checks.some((c) => c.status === "warn")) return "warn";
+  return "pass";
+}
+
+export function preflightArtwork(bytes: Uint8Array, spec: PreflightSpec, now = new Date()): PreflightReport {
+  const bleedIn = spec.bleedIn ?? DEFAULT_BLEED_IN;
+  const dpiSpec = { warnDpi: spec.warnDpi ?? DEFAULT_WARN_DPI, failDpi: spec.failDpi ?? DEFAULT_FAIL_DPI };
+  const fileType = sniffFileType(bytes);
+  const checks: PreflightCheck[] = [];
+
+  const report = (): PreflightReport => ({ version: 1, status: worst(checks), checkedAt: now.toISOString(), fileType, checks });
+
+  if (fileType === "unknown") {
+    checks.push({
+      id: "format",
+      status: "warn",
+      message: "Automatic checks support PDF, PNG, JPEG, TIFF and WebP; our prepress team will review this file by hand",
+    });
+    return report();
+  }
+
+  if (fileType === "pdf") {
+    const pdf = inspectPdf(bytes);
+    const outerPt = pdf.bleedBox ?? pdf.mediaBox;
+
+    if (!outerPt || pdf.pages === 0) {
+      checks.push({ id: "format", status: "warn", message: "PDF structure could not be read; our prepress team will review it by hand" });
+      return report();
+    }
+
+    checks.push({ id: "format", status: "pass", message: `PDF, ${pdf.pages} page${pdf.pages === 1 ? "" : "s"}` });
+
+    const outerIn: [number, number] = [outerPt[0] / 72, outerPt[1] / 72];
+    const trimIn: [number, number] | null = pdf.trimBox ? [pdf.trimBox[0] / 72, pdf.trimBox[1] / 72] : null;
+    checks.push(...sizeChecks(outerIn, trimIn, spec, bleedIn));
+
+    if (pdf.images.length === 0) {
+      checks.push({ id: "resolution", status: "pass", message: "No raster images (vector artwork)" });
+    } else {
+      // Without rendering we can't know each image's placement; assume the largest one fills the page
+      const largest = pdf.images.reduce((a, b) => (a.widthPx * a.heightPx >= b.widthPx * b.heightPx ? a : b));
+      const [pw, ph] = [...outerIn].sort((a, b) => a - b);
+      const [iw, ih] = [largest.widthPx, largest.heightPx].sort((a, b) => a - b);
+      checks.push(dpiCheck(Math.min(iw / pw, ih / ph), dpiSpec, "largest image scaled to the page"));
+    }
+
+    checks.push(colorCheck(pdf.colorSpace));
+
+    const missing = pdf.fonts.filter((f) => !f.embedded);
+    if (pdf.fonts.length === 0) {
+      checks.push({ id: "fonts", status: "pass", message: "No fonts (text is outlined or absent)" });
+    } else if (missing.length === 0) {
+      checks.push({ id: "fonts", status: "pass", message: `All ${pdf.fonts.length} font${pdf.fonts.length === 1 ? "" : "s"} embedded` });
+    } else {
+      const onlyStandard = missing.every((f) => STANDARD_14_FONTS.has(f.name));
+      checks.push({
+        id: "fonts",
+        status: onlyStandard ? "warn" : "fail",
+        message: `Font${missing.length === 1 ? "" : "s"} not embedded: ${missing.map((f) => f.name).join(", ")}. Embed fonts or convert text to outlines`,
+        details: { missing: missing.map((f) => f.name) },
+      });
+    }
+
+    checks.push(pageCountCheck(pdf.pages, spec.sides));
+    return report();
+  }
+
+  const img = inspectRaster(bytes);
+  if (!img) {
+    checks.push({ id: "format", status: "warn", message: "Image header could not be read; our prepress team will review it by hand" });
+    return report();
+  }
+
+  checks.push({ id: "format", status: "pass", message: `${fileType.toUpperCase()}, ${img.widthPx} × ${img.heightPx} px` });
+
+  if (spec.widthIn != null && spec.heightIn != null) {
+    // Raster artwork is scaled to the product: judge it at bleed size
+    const target: [number, number] = [spec.widthIn + 2 * bleedIn, spec.heightIn + 2 * bleedIn];
+    const [tw, th] = [...target].sort((a, b) => a - b);
+    const [iw, ih] = [img.widthPx, img.heightPx].sort((a, b) => a - b);
+    const px: [number, number] = [img.widthPx, img.heightPx];
+    const want: [number, number] = [spec.widthIn, spec.heightIn];
+    const details = { pixels: px, expectedTrimIn: want.map(round2) };
+
+    if (sameAspect(px, target)) {
+      checks.push({ id: "page_size", status: "pass", message: `Proportions match ${fmtIn(...target)} with bleed`, details });
+      checks.push({ id: "bleed", status: "pass", message: "Proportioned for bleed" });
+    } else if (sameAspect(px, want)) {
+      checks.push({ id: "page_size", status: "pass", message: `Proportions match ${fmtIn(...want)}`, details });
+      checks.push({
+        id: "bleed",
+        status: "warn",
+        message: `No bleed; the edges will be trimmed by ${bleedIn} in on each side`,
+      });
+    } else {
+      checks.push({
+        id: "page_size",
+        status: "warn",
+        message: `Image proportions don't match ${fmtIn(...want)}; it will be cropped to fit`,
+        details,
+      });
+      checks.push({ id: "bleed", status: "skip", message: "Bleed not checked because the proportions don't match" });
+    }
+
+    checks.push(dpiCheck(Math.min(iw / tw, ih / th), dpiSpec, "scaled to the product size with bleed"));
+  } else {
+    checks.push({ id: "page_size", status: "skip", message: "Product size is unknown" });
+    checks.push({ id: "bleed", status: "skip", message: "Product size is unknown" });
+    checks.push(dpiCheck(img.dpiX != null && img.dpiY != null ? Math.min(img.dpiX, img.dpiY) : null, dpiSpec, "embedded image DPI"));
+  }
+
+  checks.push(colorCheck(img.colorSpace));
+  checks.push({ id: "fonts", status: "skip", message: "Not applicable to images" });
+  checks.push(pageCountCheck(1, spec.sides));
+
+  return report();
+}
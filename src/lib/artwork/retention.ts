@@ -0,0 +1,420 @@
+// src/lib/artwork/retention.ts
+import "server-only";
+
+import { and, eq, inArray, like, notInArray, or, sql, type SQL } from "drizzle-orm";
+import type { PgColumn } from "drizzle-orm/pg-core";
+
+import { db } from "@/lib/db";
+import { cartAttachments } from "@/lib/db/schema/cartAttachments";
+import { cartArtwork } from "@/lib/db/schema/cartArtwork";
+import { artworkUploads } from "@/lib/db/schema/artwork_uploads";
+import { artworkProofs } from "@/lib/db/schema/artworkProofs";
+import { jobState } from "@/lib/db/schema/jobState";
+import { uploadedObjectKey } from "@/lib/artwork/verifyUpload";
+
+/**
+ * Retention for staged artwork.
+ *
+ * Cart uploads (cart_attachments, legacy cart_artwork) whose cart never became a paid order are
+ * deleted once the cart has been idle for `stagedDays`; uploads on paid orders are kept for
+ * `paidOrderDays` after the order was placed. Each expired row takes its R2 object (and rendered
+ * previews) with it, unless another row still points at the same object (e.g. a reorder).
+ *
+ * A second pass walks the upload prefix in R2 for objects no row references at all (uploads
+ * that were never attached, rejected by verification, ...) and deletes those older than
+ * `stagedDays`. The walk resumes from job_state.cursor so every run covers new ground.
+ *
+ * Incomplete multipart uploads are left to R2's own lifecycle rule (7 days by default).
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const JOB_NAME = "artwork_retention";
+const PAID_ORDER_STATUSES = sql`('paid', 'fulfilled', 'refunded')`;
+const THUMBS_MARKER = ".thumbs/";
+
+export type RetentionPolicy = {
+  /** idle days before artwork on a cart without a paid order is removed */
+  stagedDays: number;
+  /** days after placement that artwork on a paid order is kept */
+  paidOrderDays: number;
+};
+
+export const DEFAULT_RETENTION_POLICY: RetentionPolicy = { stagedDays: 30, paidOrderDays: 730 };
+
+function positiveInt(v: unknown, fallback: number): number {
+  const n = Math.floor(Number(v));
+  return Number.isFinite(n) && n > 0 ? n : fallback;
+}
+
+/** ARTWORK_STAGED_RETENTION_DAYS / ARTWORK_ORDER_RETENTION_DAYS, else the defaults. */
+export function retentionPolicyFromEnv(env: Record<string, string | undefined> = process.env): RetentionPolicy {
+  return {
+    stagedDays: positiveInt(env.ARTWORK_STAGED_RETENTION_DAYS, DEFAULT_RETENTION_POLICY.stagedDays),
+    paidOrderDays: positiveInt(env.ARTWORK_ORDER_RETENTION_DAYS, DEFAULT_RETENTION_POLICY.paidOrderDays),
+  };
+}
+
+export function retentionCutoffs(policy: RetentionPolicy, now: Date) {
+  return {
+    stagedBefore: new Date(now.getTime() - policy.stagedDays * DAY_MS),
+    paidOrderBefore: new Date(now.getTime() - policy.paidOrderDays * DAY_MS),
+  };
+}
+
+function uploadPrefix(): string {
+  return String(process.env.R2_UPLOAD_PREFIX ?? "uploads").trim().replace(/^\/+|\/+$/g, "");
+}
+
+/** Original object key for a stored key or one of its rendered previews ("<key>.thumbs/front-160.webp"). */
+export function originalObjectKey(key: string): string {
+  const at = key.indexOf(THUMBS_MARKER);
+  return at < 0 ? key : key.slice(0, at);
+}
+
+/** Does a stored key/URL value point at this object? (rows hold either the key or its public URL) */
+export function refersToObject(value: string | null | undefined, key: string): boolean {
+  const v = String(value ?? "").split(/[?#]/)[0];
+  return v === key || v.endsWith(`/${key}`);
+}
+
+/* -------------------------------- queries -------------------------------- */
+
+type ExpiredSource = "cart_attachments" | "cart_artwork";
+
+export type ExpiredArtworkRow = {
+  source: ExpiredSource;
+  id: string;
+  key: string;
+  url: string | null;
+  reason: "staged" | "order_expired";
+  /** from meta.verification when the upload was verified */
+  knownSize: number | null;
+};
+
+function expiredWhere(cutoffs: ReturnType<typeof retentionCutoffs>): SQL {
+  return sql`(po.placed_at is null and greatest(t.created_at, c.updated_at) < ${cutoffs.stagedBefore.toISOString()}::timestamptz)
+    or po.placed_at < ${cutoffs.paidOrderBefore.toISOString()}::timestamptz`;
+}
+
+/** cart_attachments / cart_artwork joined to their cart and its latest paid order (if any). */
+function withPaidOrder(source: ExpiredSource): SQL {
+  return sql`
+    from ${sql.identifier(source)} t
+    join cart_lines cl on cl.id = t.cart_line_id
+    join carts c on c.id = cl.cart_id
+    left join lateral (
+      select max(coalesce(o.placed_at, o.created_at)) as placed_at
+      from orders o
+      where o.cart_id = c.id and o.status in ${PAID_ORDER_STATUSES}
+    ) po on true`;
+}
+
+async function findExpiredRows(
+  source: ExpiredSource,
+  cutoffs: ReturnType<typeof retentionCutoffs>,
+  limit: number,
+): Promise<ExpiredArtworkRow[]> {
+  const res = await db.execute(sql`
+    select
+      t.id::text as id,
+      t.key,
+      t.url,
+      case when po.placed_at is null then 'staged' else 'order_expired' end as reason,
+      case when (t.meta -> 'verification' ->> 'size') ~ '^[0-9]+$'
+        then (t.meta -> 'verification' ->> 'size')::bigint end as known_size
+    ${withPaidOrder(source)}
+    where ${expiredWhere(cutoffs)}
+    order by t.created_at asc
+    limit ${limit}
+  `);
+
+  return ((res as any).rows ?? []).map((r: any) => ({
+    source,
+    id: String(r.id),
+    key: String(r.key ?? ""),
+    url: r.url ?? null,
+    reason: r.reason === "order_expired" ? "order_expired" : "staged",
+    knownSize: r.known_size != null ? Number(r.known_size) : null,
+  }));
+}
+
+/** Conditions matching rows whose value is the key or a URL ending in it. */
+function pointsAtAny(col: PgColumn, keys: string[]): SQL {
+  return or(...keys.flatMap((k) => [eq(col, k), like(col, `%/${k}`)]))!;
+}
+
+/**
+ * Which of `keys` are still referenced by a row other than the excluded ones
+ * (cart uploads, artwork_uploads, proofs).
+ */
+async function referencedKeys(
+  keys: string[],
+  exclude: { attachmentIds?: string[]; artworkIds?: string[] } = {},
+): Promise<Set<string>> {
+  const out = new Set<string>();
+  if (!keys.length) return out;
+
+  const values: Array<string | null> = [];
+  const collect = (rows: Array<Record<string, string | null>>) => {
+    for (const r of rows) values.push(...Object.values(r));
+  };
+
+  collect(
+    await db
+      .select({ key: cartAttachments.key, url: cartAttachments.url })
+      .from(cartAttachments)
+      .where(
+        and(
+          or(pointsAtAny(cartAttachments.key, keys), pointsAtAny(cartAttachments.url, keys)),
+          exclude.attachmentIds?.length ? notInArray(cartAttachments.id, exclude.attachmentIds) : undefined,
+        ),
+      ),
+  );
+  collect(
+    await db
+      .select({ key: cartArtwork.key, url: cartArtwork.url })
+      .from(cartArtwork)
+      .where(
+        and(
+          or(pointsAtAny(cartArtwork.key, keys), pointsAtAny(cartArtwork.url, keys)),
+          exclude.artworkIds?.length ? notInArray(cartArtwork.id, exclude.artworkIds) : undefined,
+        ),
+      ),
+  );
+  collect(
+    await db.select({ url: artworkUploads.fileUrl }).from(artworkUploads).where(pointsAtAny(artworkUploads.fileUrl, keys)),
+  );
+  collect(
+    await db.select({ url: artworkProofs.proofUrl }).from(artworkProofs).where(pointsAtAny(artworkProofs.proofUrl, keys)),
+  );
+
+  for (const k of keys) if (values.some((v) => refersToObject(v, k))) out.add(k);
+  return out;
+}
+
+/* --------------------------------- sweep --------------------------------- */
+
+export type RetentionRunResult = {
+  ok: true;
+  dryRun: boolean;
+  policy: RetentionPolicy;
+  stagedBefore: string;
+  paidOrderBefore: string;
+  rows: { expired: number; staged: number; orderExpired: number; deleted: number };
+  orphans: { scanned: number; expired: number; deleted: number; cursor: string | null };
+  objects: { deleted: number; keptShared: number; failed: number };
+  bytesReclaimed: number;
+};
+
+type R2 = typeof import("@/lib/artwork/server");
+
+/** Original + its previews, with their total size. */
+async function objectGroup(r2: R2, key: string, knownSize: number | null) {
+  const { objects: thumbs } = await r2.listObjects({ prefix: `${key}${THUMBS_MARKER}`, maxKeys: 100 });
+  const size = knownSize ?? (await r2.headObject(key))?.size ?? 0;
+  return { keys: [key, ...thumbs.map((t) => t.key)], bytes: size + thumbs.reduce((n, t) => n + t.size, 0) };
+}
+
+export async function runArtworkRetention(
+  input: {
+    dryRun?: boolean;
+    /** expired rows per table per run */
+    batchSize?: number;
+    /** R2 keys listed by the orphan sweep per run */
+    scanLimit?: number;
+    policy?: RetentionPolicy;
+    now?: Date;
+  } = {},
+): Promise<RetentionRunResult> {
+  const now = input.now ?? new Date();
+  const dryRun = input.dryRun === true;
+  const batchSize = Math.max(1, Math.min(500, Math.floor(input.batchSize ?? 100)));
+  const scanLimit = Math.max(1, Math.min(1000, Math.floor(input.scanLimit ?? 1000)));
+  const policy = input.policy ?? retentionPolicyFromEnv();
+  const cutoffs = retentionCutoffs(policy, now);
+
+  // server.ts needs R2 credentials at import time
+  const r2: R2 = await import("@/lib/artwork/server");
+
+  const result: RetentionRunResult = {
+    ok: true,
+    dryRun,
+    policy,
+    stagedBefore: cutoffs.stagedBefore.toISOString(),
+    paidOrderBefore: cutoffs.paidOrderBefore.toISOString(),
+    rows: { expired: 0, staged: 0, orderExpired: 0, deleted: 0 },
+    orphans: { scanned: 0, expired: 0, deleted: 0, cursor: null },
+    objects: { deleted: 0, keptShared: 0, failed: 0 },
+    bytesReclaimed: 0,
+  };
+
+  // 1) Expired cart uploads
+  const rows = [
+    ...(await findExpiredRows("cart_attachments", cutoffs, batchSize)),
+    ...(await findExpiredRows("cart_artwork", cutoffs, batchSize)),
+  ];
+  result.rows.expired = rows.length;
+  result.rows.staged = rows.filter((r) => r.reason === "staged").length;
+  result.rows.orderExpired = rows.length - result.rows.staged;
+
+  const byObject = new Map<string | null, ExpiredArtworkRow[]>();
+  for (const r of rows) {
+    const key = uploadedObjectKey(r.key, r.url);
+    byObject.set(key, [...(byObject.get(key) ?? []), r]);
+  }
+
+  const objectKeys = [...byObject.keys()].filter((k): k is string => Boolean(k));
+  const shared = await referencedKeys(objectKeys, {
+    attachmentIds: rows.filter((r) => r.source === "cart_attachments").map((r) => r.id),
+    artworkIds: rows.filter((r) => r.source === "cart_artwork").map((r) => r.id),
+  });
+
+  const deletableRows: ExpiredArtworkRow[] = [];
+  for (const [key, group] of byObject) {
+    if (!key || shared.has(key)) {
+      // Not ours (external URL) or still used elsewhere: drop the rows, keep the object
+      if (key) result.objects.keptShared += 1;
+      deletableRows.push(...group);
+      continue;
+    }
+
+    const target = await objectGroup(r2, key, group.find((r) => r.knownSize != null)?.knownSize ?? null);
+    if (dryRun) {
+      result.bytesReclaimed += target.bytes;
+      deletableRows.push(...group);
+      continue;
+    }
+
+    const failed = await r2.deleteObjects(target.keys).catch((e: any) => {
+      console.error("[retention] delete failed:", { key, error: e?.message || e });
+      return target.keys;
+    });
+    if (failed.includes(key)) {
+      // Keep the rows so the next run retries the object
+      result.objects.failed += 1;
+      continue;
+    }
+    result.objects.deleted += target.keys.length - failed.length;
+    result.bytesReclaimed += target.bytes;
+    deletableRows.push(...group);
+  }
+
+  if (!dryRun) {
+    const attachmentIds = deletableRows.filter((r) => r.source === "cart_attachments").map((r) => r.id);
+    const artworkIds = deletableRows.filter((r) => r.source === "cart_artwork").map((r) => r.id);
+    if (attachmentIds.length) {
+      await db.delete(cartAttachments).where(inArray(cartAttachments.id, attachmentIds));
+    }
+    if (artworkIds.length) {
+      await db.delete(cartArtwork).where(inArray(cartArtwork.id, artworkIds));
+    }
+  }
+  result.rows.deleted = deletableRows.length;
+
+  // 2) Orphaned objects under the upload prefix (never attached to anything)
+  const [state] = await db.select().from(jobState).where(eq(jobState.name, JOB_NAME)).limit(1);
+  const prefix = `${uploadPrefix()}/`;
+  const page = await r2.listObjects({ prefix, startAfter: state?.cursor || null, maxKeys: scanLimit });
+  result.orphans.scanned = page.objects.length;
+
+  const groups = new Map<string, { keys: string[]; bytes: number; newest: number }>();
+  for (const o of page.objects) {
+    const original = originalObjectKey(o.key);
+    const g = groups.get(original) ?? { keys: [], bytes: 0, newest: 0 };
+    g.keys.push(o.key);
+    g.bytes += o.size;
+    g.newest = Math.max(g.newest, o.lastModified?.getTime() ?? now.getTime());
+    groups.set(original, g);
+  }
+
+  const old = [...groups].filter(([, g]) => g.newest < cutoffs.stagedBefore.getTime());
+  const referenced = await referencedKeys(old.map(([k]) => k));
+  const orphans = old.filter(([k]) => !referenced.has(k));
+  result.orphans.expired = orphans.length;
+
+  for (const [original, g] of orphans) {
+    if (dryRun) {
+      result.bytesReclaimed += g.bytes;
+      continue;
+    }
+    const failed = await r2.deleteObjects(g.keys).catch((e: any) => {
+      console.error("[retention] orphan delete failed:", { key: original, error: e?.message || e });
+      return g.keys;
+    });
+    if (failed.length) result.objects.failed += 1;
+    else result.orphans.deleted += 1;
+    result.objects.deleted += g.keys.length - failed.length;
+    result.bytesReclaimed += failed.length ? 0 : g.bytes;
+  }
+
+  // Past the end of the listing: start over next run
+  const cursor = page.truncated ? (page.objects[page.objects.length - 1]?.key ?? null) : "";
+  result.orphans.cursor = cursor || null;
+
+  if (!dryRun) {
+    const { ok: _ok, ...report } = result;
+    const lastRun = { ...report, finishedAt: new Date().toISOString() };
+    await db
+      .insert(jobState)
+      .values({ name: JOB_NAME, cursor, lastRun, updatedAt: new Date() })
+      .onConflictDoUpdate({ target: jobState.name, set: { cursor, lastRun, updatedAt: new Date() } });
+  }
+
+  return result;
+}
+
+/* -------------------------------- summary -------------------------------- */
+
+export type RetentionSummary = {
+  policy: RetentionPolicy;
+  stagedBefore: string;
+  paidOrderBefore: string;
+  /** cart upload rows by retention bucket */
+  rows: { stagedRetained: number; stagedExpired: number; orderRetained: number; orderExpired: number };
+  /** size of expired rows whose upload was verified (others are only known once deleted) */
+  expiredKnownBytes: number;
+  lastRun: Record<string, unknown> | null;
+  cursor: string | null;
+};
+
+/** What the next retention runs would remove, plus the last run's report (admin view). */
+export async function artworkRetentionSummary(input: { policy?: RetentionPolicy; now?: Date } = {}): Promise<RetentionSummary> {
+  const policy = input.policy ?? retentionPolicyFromEnv();
+  const cutoffs = retentionCutoffs(policy, input.now ?? new Date());
+
+  const counts = { stagedRetained: 0, stagedExpired: 0, orderRetained: 0, orderExpired: 0 };
+  let expiredKnownBytes = 0;
+
+  for (const source of ["cart_attachments", "cart_artwork"] as const) {
+    const res = await db.execute(sql`
+      select
+        count(*) filter (where po.placed_at is null and not (${expiredWhere(cutoffs)})) as staged_retained,
+        count(*) filter (where po.placed_at is null and (${expiredWhere(cutoffs)})) as staged_expired,
+        count(*) filter (where po.placed_at is not null and not (${expiredWhere(cutoffs)})) as order_retained,
+        count(*) filter (where po.placed_at is not null and (${expiredWhere(cutoffs)})) as order_expired,
+        coalesce(sum(
+          case when (${expiredWhere(cutoffs)}) and (t.meta -> 'verification' ->> 'size') ~ '^[0-9]+$'
+            then (t.meta -> 'verification' ->> 'size')::bigint end
+        ), 0) as expired_bytes
+      ${withPaidOrder(source)}
+    `);
+    const r = ((res as any).rows ?? [])[0] ?? {};
+    counts.stagedRetained += Number(r.staged_retained ?? 0);
+    counts.stagedExpired += Number(r.staged_expired ?? 0);
+    counts.orderRetained += Number(r.order_retained ?? 0);
+    counts.orderExpired += Number(r.order_expired ?? 0);
+    expiredKnownBytes += Number(r.expired_bytes ?? 0);
+  }
+
+  const [state] = await db.select().from(jobState).where(eq(jobState.name, JOB_NAME)).limit(1);
+
+  return {
+    policy,
+    stagedBefore: cutoffs.stagedBefore.toISOString(),
+    paidOrderBefore: cutoffs.paidOrderBefore.toISOString(),
+    rows: counts,
+    expiredKnownBytes,
+    lastRun: state?.lastRun ?? null,
+    cursor: state?.cursor || null,
+  };
+}
@@ -0,0 +1,134 @@
+// src/lib/artwork/runPreflight.ts
+import "server-only";
+
+import { and, desc, eq, sql } from "drizzle-orm";
+
+import { db } from "@/lib/db";
+import { cartAttachments } from "@/lib/db/schema/cartAttachments";
+import { cartLines } from "@/lib/db/schema/cartLines";
+import { getR2PublicHost } from "@/lib/artwork/r2Public";
+import { getSinaliteProductArrays, normalizeOptionGroups } from "@/lib/sinalite/sinalite.client";
+import {
+  parseSinaliteSides,
+  parseSinaliteSize,
+  preflightArtwork,
+  type PreflightReport,
+  type PreflightSpec,
+} from "@/lib/artwork/preflight";
+
+/**
+ * Runs preflight for cart artwork and stores the report on cart_attachments.meta.preflight.
+ *
+ * The print spec comes from the line's selected Sinalite options (size + colors/sides groups).
+ * Files are only fetched from the R2 public host, so an attachment URL can't be used to make
+ * the server request arbitrary hosts.
+ */
+
+const MAX_BYTES = 60 * 1024 * 1024;
+const FETCH_TIMEOUT_MS = 20_000;
+
+const SIZE_GROUP_RE = /\bsize\b/i;
+const SIDES_GROUP_RE = /colou?rs?|sides?/i;
+
+export type AttachmentPreflight = { attachmentId: string; fileName: string; preflight: PreflightReport };
+
+export async function resolvePreflightSpec(productId: string, optionIds: number[]): Promise<PreflightSpec> {
+  const spec: PreflightSpec = { widthIn: null, heightIn: null, sides: null };
+  if (!optionIds.length) return spec;
+
+  const { optionsArray } = await getSinaliteProductArrays(productId);
+  const selected = new Set(optionIds.map(Number));
+
+  for (const g of normalizeOptionGroups(optionsArray)) {
+    const value = g.values.find((v) => selected.has(v.id));
+    if (!value) continue;
+
+    if (spec.widthIn == null && SIZE_GROUP_RE.test(g.group)) {
+      const size = parseSinaliteSize(value.name);
+      if (size) Object.assign(spec, size);
+    } else if (spec.sides == null && SIDES_GROUP_RE.test(g.group)) {
+      spec.sides = parseSinaliteSides(value.name);
+    }
+  }
+
+  return spec;
+}
+
+async function fetchArtworkBytes(url: string): Promise<Uint8Array> {
+  const host = getR2PublicHost();
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new Error("Artwork URL is invalid");
+  }
+  if (!host || parsed.protocol !== "https:" || parsed.hostname.toLowerCase() !== host) {
+    throw new Error("Artwork is not stored on the artwork host");
+  }
+
+  const res = await fetch(parsed, { cache: "no-store", signal: AbortSignal.timeout(FETCH_TIMEOUT_MS) });
+  if (!res.ok) throw new Error(`Artwork download failed (${res.status})`);
+
+  const declared = Number(res.headers.get("content-length") ?? 0);
+  if (declared > MAX_BYTES) throw new Error("Artwork is too large to check automatically");
+
+  const buf = new Uint8Array(await res.arrayBuffer());
+  if (buf.byteLength > MAX_BYTES) throw new Error("Artwork is too large to check automatically");
+  return buf;
+}
+
+/**
+ * Preflight one attachment (or every attachment on the line when attachmentId is omitted).
+ * A file that can't be fetched gets a "format" warning rather than failing the request.
+ */
+export async function preflightCartLineArtwork(lineId: string, attachmentId?: string | null): Promise<AttachmentPreflight[]> {
+  const [line] = await db
+    .select({ productId: cartLines.productId, optionIds: cartLines.optionIds })
+    .from(cartLines)
+    .where(eq(cartLines.id, lineId))
+    .limit(1);
+  if (!line) return [];
+
+  const rows = await db
+    .select({ id: cartAttachments.id, url: cartAttachments.url, fileName: cartAttachments.fileName })
+    .from(cartAttachments)
+    .where(
+      attachmentId
+        ? and(eq(cartAttachments.cartLineId, lineId), eq(cartAttachments.id, attachmentId))
+        : eq(cartAttachments.cartLineId, lineId),
+    )
+    .orderBy(desc(cartAttachments.createdAt));
+  if (!rows.length) return [];
+
+  const optionIds = Array.isArray(line.optionIds) ? (line.optionIds as unknown[]).map(Number).filter(Number.isFinite) : [];
+  const spec = await resolvePreflightSpec(String(line.productId), optionIds).catch((e: any) => {
+    console.error("[preflight] spec lookup failed:", { lineId, error: e?.message || e });
+    return { widthIn: null, heightIn: null, sides: null } satisfies PreflightSpec;
+  });
+
+  const out: AttachmentPreflight[] = [];
+  for (const row of rows) {
+    let preflight: PreflightReport;
+    try {
+      preflight = preflightArtwork(await fetchArtworkBytes(row.url), spec);
+    } catch (e: any) {
+      preflight = {
+        version: 1,
+        status: "warn",
+        checkedAt: new Date().toISOString(),
+        fileType: "unknown",
+        checks: [{ id: "format", status: "warn", message: String(e?.message || "Artwork could not be checked") }],
+      };
+    }
+
+    // Merge in SQL so a concurrent thumbnail write to meta isn't lost
+    await db
+      .update(cartAttachments)
+      .set({ meta: sql`coalesce(${cartAttachments.meta}, '{}'::jsonb) || jsonb_build_object('preflight', ${JSON.stringify(preflight)}::jsonb)` })
+      .where(eq(cartAttachments.id, row.id));
+
+    out.push({ attachmentId: row.id, fileName: row.fileName, preflight });
+  }
+
+  return out;
+}
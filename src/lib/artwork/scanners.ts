@@ -0,0 +1,111 @@
+// src/lib/artwork/scanners.ts
+import "server-only";
+
+import net from "node:net";
+import { once } from "node:events";
+
+/**
+ * Malware scanner adapters for uploaded artwork (see verifyUpload.ts).
+ *
+ * A scanner receives the object as a byte stream and returns a verdict; it throws when it can't
+ * decide (daemon down, timeout, limit exceeded). Adapters:
+ * - clamd : ClamAV daemon (or anything speaking its INSTREAM protocol) over a unix socket or TCP
+ */
+
+export type ScanVerdict = { clean: true } | { clean: false; signature: string };
+
+export interface ArtworkScanner {
+  readonly name: string;
+  /** Objects larger than this aren't sent to the scanner (recorded as "too_large") */
+  readonly maxBytes: number;
+  scan(chunks: AsyncIterable<Uint8Array>): Promise<ScanVerdict>;
+}
+
+/* --------------------------------- clamd ---------------------------------- */
+
+// clamd's default StreamMaxLength is 25M; raise it there before raising this
+const CLAMD_DEFAULT_MAX_BYTES = 25 * 1024 * 1024;
+const CLAMD_CHUNK = 64 * 1024;
+
+/** Parse a clamd INSTREAM reply ("stream: OK", "stream: Eicar-Signature FOUND"). */
+export function parseClamdReply(raw: string): ScanVerdict {
+  const reply = raw.replace(/\0/g, "").trim();
+  if (/^stream: OK$/.test(reply)) return { clean: true };
+  const found = reply.match(/^stream: (.+) FOUND$/);
+  if (found) return { clean: false, signature: found[1] };
+  throw new Error(`clamd: ${reply || "empty reply"}`);
+}
+
+export function createClamdScanner(opts: {
+  socketPath?: string;
+  host?: string;
+  port?: number;
+  timeoutMs?: number;
+  maxBytes?: number;
+}): ArtworkScanner {
+  const timeoutMs = opts.timeoutMs ?? 60_000;
+
+  return {
+    name: "clamd",
+    maxBytes: opts.maxBytes ?? CLAMD_DEFAULT_MAX_BYTES,
+
+    async scan(chunks) {
+      const socket = opts.socketPath
+        ? net.createConnection(opts.socketPath)
+        : net.createConnection(opts.port ?? 3310, opts.host ?? "127.0.0.1");
+      socket.setTimeout(timeoutMs, () => socket.destroy(new Error("clamd: timed out")));
+
+      const reply = new Promise<string>((resolve, reject) => {
+        let out = "";
+        socket.on("data", (d: Buffer) => (out += d.toString("utf8")));
+        socket.on("end", () => resolve(out));
+        socket.on("error", reject);
+      });
+      reply.catch(() => {}); // surfaced by the await below
+
+      const write = async (buf: Uint8Array) => {
+        if (!socket.write(buf)) await once(socket, "drain");
+      };
+
+      try {
+        await once(socket, "connect");
+        await write(Buffer.from("zINSTREAM\0", "latin1"));
+
+        for await (const chunk of chunks) {
+          for (let at = 0; at < chunk.byteLength; at += CLAMD_CHUNK) {
+            const part = chunk.subarray(at, at + CLAMD_CHUNK);
+            const len = Buffer.alloc(4);
+            len.writeUInt32BE(part.byteLength);
+            await write(len);
+            await write(part);
+          }
+        }
+        await write(Buffer.alloc(4)); // zero-length chunk ends the stream
+        socket.end();
+
+        return parseClamdReply(await reply);
+      } finally {
+        socket.destroy();
+      }
+    },
+  };
+}
+
+/**
+ * Scanner configured by env, or null when scanning isn't set up:
+ * - CLAMAV_SOCKET=/var/run/clamav/clamd.ctl, or CLAMAV_HOST (+ CLAMAV_PORT, default 3310)
+ * - CLAMAV_MAX_BYTES (optional; keep <= clamd StreamMaxLength)
+ */
+export function scannerFromEnv(env: Record<string, string | undefined> = process.env): ArtworkScanner | null {
+  const socketPath = String(env.CLAMAV_SOCKET ?? "").trim();
+  const host = String(env.CLAMAV_HOST ?? "").trim();
+  if (!socketPath && !host) return null;
+
+  const port = Number(env.CLAMAV_PORT ?? 3310);
+  const maxBytes = Number(env.CLAMAV_MAX_BYTES ?? 0);
+
+  return createClamdScanner({
+    ...(socketPath ? { socketPath } : { host, port: Number.isFinite(port) && port > 0 ? port : 3310 }),
+    ...(maxBytes > 0 ? { maxBytes } : {}),
+  });
+}
@@ -1,7 +1,16 @@
 // src/lib/artwork/server.ts
 import "server-only";
 
-import { S3Client, GetObjectCommand, PutObjectCommand, type PutObjectCommandInput } from "@aws-sdk/client-s3";
+import {
+  S3Client,
+  DeleteObjectCommand,
+  DeleteObjectsCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  ListObjectsV2Command,
+  PutObjectCommand,
+  type PutObjectCommandInput,
+} from "@aws-sdk/client-s3";
 import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
 import crypto from "node:crypto";
 
@@ -135,6 +144,99 @@ export async function presignGet(input: {
   return { key: input.key, url, expiresIn: PRESIGN_EXPIRES };
 }
 
+/** Read a private object (e.g. to render previews). Throws when it exceeds maxBytes. */
+export async function getObjectBytes(key: string, maxBytes: number): Promise<Uint8Array> {
+  const res = await s3.send(new GetObjectCommand({ Bucket: BUCKET, Key: key }));
+  if (Number(res.ContentLength ?? 0) > maxBytes) throw new Error("Object is too large");
+  if (!res.Body) throw new Error("Object has no body");
+
+  const bytes = await res.Body.transformToByteArray();
+  if (bytes.byteLength > maxBytes) throw new Error("Object is too large");
+  return bytes;
+}
+
+/** Size + stored content type of an object; null when it doesn't exist. */
+export async function headObject(key: string): Promise<{ size: number; contentType: string | null } | null> {
+  try {
+    const res = await s3.send(new HeadObjectCommand({ Bucket: BUCKET, Key: key }));
+    return { size: Number(res.ContentLength ?? 0), contentType: res.ContentType ?? null };
+  } catch (e: any) {
+    if (e?.name === "NotFound" || e?.$metadata?.httpStatusCode === 404) return null;
+    throw e;
+  }
+}
+
+/** First `length` bytes of an object (magic-byte sniffing). */
+export async function getObjectHead(key: string, length: number): Promise<Uint8Array> {
+  const res = await s3.send(new GetObjectCommand({ Bucket: BUCKET, Key: key, Range: `bytes=0-${Math.max(0, length - 1)}` }));
+  if (!res.Body) throw new Error("Object has no body");
+  return res.Body.transformToByteArray();
+}
+
+/** Stream an object's bytes without buffering it (malware scanning). */
+export async function streamObject(key: string): Promise<AsyncIterable<Uint8Array>> {
+  const res = await s3.send(new GetObjectCommand({ Bucket: BUCKET, Key: key }));
+  if (!res.Body) throw new Error("Object has no body");
+  return res.Body as unknown as AsyncIterable<Uint8Array>;
+}
+
+export async function deleteObject(key: string): Promise<void> {
+  await s3.send(new DeleteObjectCommand({ Bucket: BUCKET, Key: key }));
+}
+
+export type StoredObject = { key: string; size: number; lastModified: Date | null };
+
+/** One page of objects under a prefix, in key order (startAfter resumes a previous listing). */
+export async function listObjects(input: {
+  prefix: string;
+  startAfter?: string | null;
+  maxKeys?: number;
+}): Promise<{ objects: StoredObject[]; truncated: boolean }> {
+  const res = await s3.send(
+    new ListObjectsV2Command({
+      Bucket: BUCKET,
+      Prefix: input.prefix,
+      ...(input.startAfter ? { StartAfter: input.startAfter } : {}),
+      MaxKeys: Math.max(1, Math.min(1000, input.maxKeys ?? 1000)),
+    })
+  );
+  const objects = (res.Contents ?? [])
+    .filter((o) => o.Key)
+    .map((o) => ({ key: o.Key!, size: Number(o.Size ?? 0), lastModified: o.LastModified ?? null }));
+  return { objects, truncated: Boolean(res.IsTruncated) };
+}
+
+/** Batch delete (<= 1000 keys per request). Returns the keys that failed. */
+export async function deleteObjects(keys: string[]): Promise<string[]> {
+  const failed: string[] = [];
+  for (let i = 0; i < keys.length; i += 1000) {
+    const chunk = keys.slice(i, i + 1000);
+    const res = await s3.send(
+      new DeleteObjectsCommand({ Bucket: BUCKET, Delete: { Objects: chunk.map((Key) => ({ Key })), Quiet: true } })
+    );
+    for (const e of res.Errors ?? []) if (e.Key) failed.push(e.Key);
+  }
+  return failed;
+}
+
+/** Server-side write of a derived object (thumbnails etc.). */
+export async function putObject(input: {
+  key: string;
+  body: Uint8Array;
+  contentType: string;
+  cacheControl?: string;
+}): Promise<void> {
+  await s3.send(
+    new PutObjectCommand({
+      Bucket: BUCKET,
+      Key: input.key,
+      Body: input.body,
+      ContentType: input.contentType,
+      ...(input.cacheControl ? { CacheControl: input.cacheControl } : {}),
+    })
+  );
+}
+
 /**
  * Persist an uploaded object to your cart tables.
  * Uses raw SQL so we don't depend on schema barrel exports.
@@ -193,9 +295,11 @@ export async function recordArtworkUpload(input: {
   const approved = Boolean(input.approved ?? false);
 
   await db.execute(sql`
-    insert into artwork_uploads (product_id, order_id, user_id, file_url, file_name, file_size, file_type, approved)
+    insert into artwork_uploads (product_id, order_id, user_id, file_url, file_name, file_size, file_type, approved, proof_status)
     values (${input.productId}, ${input.orderId ?? null}, ${input.userId ?? null}, ${input.key}, ${safeBasename(
     input.fileName
-  )}, ${input.fileSize ?? null}, ${input.fileType ? normalizeContentType(input.fileType) : null}, ${approved})
+  )}, ${input.fileSize ?? null}, ${input.fileType ? normalizeContentType(input.fileType) : null}, ${approved}, ${
+    approved ? "approved" : "pending_review"
+  })
   `);
 }
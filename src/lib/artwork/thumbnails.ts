@@ -0,0 +1,345 @@
+// src/lib/artwork/thumbnails.ts
+import "server-only";
+
+import zlib from "node:zlib";
+import { asc, desc, eq, inArray, isNull, sql } from "drizzle-orm";
+
+import { db } from "@/lib/db";
+import { cartAttachments } from "@/lib/db/schema/cartAttachments";
+import { cartArtwork } from "@/lib/db/schema/cartArtwork";
+import { artworkUploads } from "@/lib/db/schema/artwork_uploads";
+import { inspectRaster, sniffFileType } from "@/lib/artwork/preflight";
+import { pdfPageImages, type PdfPageImage } from "@/lib/artwork/pdfImages";
+import { getR2PublicBaseUrl, r2PublicUrl } from "@/lib/artwork/r2Public";
+import {
+  THUMBNAIL_SIZES,
+  pickThumbnail,
+  storedThumbnails,
+  thumbnailKey,
+  type ArtworkThumbnails,
+  type ThumbnailFace,
+  type ThumbnailImage,
+} from "@/lib/artwork/artworkThumb";
+
+/**
+ * Artwork preview pipeline.
+ *
+ * Renders the front (first page) and back (second page) of an upload at THUMBNAIL_SIZES as
+ * WebP, writes them to R2 under thumbnailKey(originalKey, face, size) and records the result
+ * on the upload row (cart_attachments.meta.thumbnails / artwork_uploads.thumbnails).
+ *
+ * Resizing runs on the Cloudflare Images binding (IMAGES in wrangler.jsonc). The app ships as a
+ * Worker, where native addons such as sharp can't load, and the binding also works under
+ * `next dev` through initOpenNextCloudflareForDev. It takes PNG, JPEG and WebP; TIFF is reported
+ * as "unsupported" and keeps the generic file icon. PDFs are previewed from their largest
+ * embedded image per page (see pdfImages), with raw samples wrapped as PNG first; vector-only
+ * PDFs are "unsupported" too.
+ */
+
+const MAX_SOURCE_BYTES = 60 * 1024 * 1024;
+const WEBP_QUALITY = 82;
+// Keys are deterministic and get overwritten on regeneration, so don't cache forever
+const THUMB_CACHE_CONTROL = "public, max-age=86400";
+
+export type RenderedThumbnail = Omit<ThumbnailImage, "key"> & { data: Buffer };
+
+export type RenderResult = {
+  status: "ready" | "unsupported";
+  message?: string;
+  images: RenderedThumbnail[];
+};
+
+type FaceSource = { face: ThumbnailFace; bytes: Uint8Array };
+
+async function imagesBinding(): Promise<ImagesBinding> {
+  const { getCloudflareContext } = await import("@opennextjs/cloudflare");
+  const { env } = await getCloudflareContext({ async: true });
+  if (!env.IMAGES) throw new Error("Cloudflare Images binding (IMAGES) is not configured");
+  return env.IMAGES;
+}
+
+function streamOf(bytes: Uint8Array): ReadableStream<Uint8Array> {
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(bytes);
+      controller.close();
+    },
+  });
+}
+
+/** Naive CMYK -> RGB for raw PDF samples (previews only; not colour-managed). */
+function cmykToRgb(cmyk: Uint8Array): Buffer {
+  const px = Math.floor(cmyk.length / 4);
+  const out = Buffer.alloc(px * 3);
+  for (let i = 0; i < px; i++) {
+    const k = 255 - cmyk[i * 4 + 3];
+    out[i * 3] = ((255 - cmyk[i * 4]) * k) / 255;
+    out[i * 3 + 1] = ((255 - cmyk[i * 4 + 1]) * k) / 255;
+    out[i * 3 + 2] = ((255 - cmyk[i * 4 + 2]) * k) / 255;
+  }
+  return out;
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(buf: Buffer): number {
+  let c = 0xffffffff;
+  for (const byte of buf) c = CRC_TABLE[(c ^ byte) & 0xff] ^ (c >>> 8);
+  return (c ^ 0xffffffff) >>> 0;
+}
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const head = Buffer.alloc(8);
+  head.writeUInt32BE(data.length, 0);
+  head.write(type, 4, "latin1");
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(Buffer.concat([head.subarray(4), data])), 0);
+  return Buffer.concat([head, data, crc]);
+}
+
+/** 8-bit gray or RGB samples as a PNG, since the Images binding only takes encoded images. */
+function encodePng(samples: Uint8Array, width: number, height: number, channels: 1 | 3): Buffer {
+  const stride = width * channels;
+  const rows = Buffer.alloc((stride + 1) * height); // filter byte 0 (none) per row
+  for (let y = 0; y < height; y++) {
+    rows.set(samples.subarray(y * stride, (y + 1) * stride), y * (stride + 1) + 1);
+  }
+
+  const ihdr = Buffer.alloc(13);
+  ihdr.writeUInt32BE(width, 0);
+  ihdr.writeUInt32BE(height, 4);
+  ihdr[8] = 8;
+  ihdr[9] = channels === 1 ? 0 : 2;
+
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk("IHDR", ihdr),
+    pngChunk("IDAT", zlib.deflateSync(rows)),
+    pngChunk("IEND", Buffer.alloc(0)),
+  ]);
+}
+
+function pdfSources(bytes: Uint8Array): FaceSource[] {
+  const toBytes = (img: PdfPageImage): Uint8Array => {
+    if (img.encoding === "jpeg") return img.data;
+    if (img.channels === 4) return encodePng(cmykToRgb(img.data), img.width, img.height, 3);
+    return encodePng(img.data, img.width, img.height, img.channels === 1 ? 1 : 3);
+  };
+
+  return pdfPageImages(bytes, 2).map((img) => ({
+    face: img.page === 0 ? ("front" as const) : ("back" as const),
+    bytes: toBytes(img),
+  }));
+}
+
+/**
+ * Render previews from the original file bytes (no storage).
+ * `images` defaults to the Worker's IMAGES binding.
+ */
+export async function renderArtworkThumbnails(bytes: Uint8Array, images?: ImagesBinding): Promise<RenderResult> {
+  const type = sniffFileType(bytes);
+
+  let sources: FaceSource[];
+  if (type === "pdf") sources = pdfSources(bytes);
+  else if (type === "png" || type === "jpeg" || type === "webp") sources = [{ face: "front", bytes }];
+  else {
+    const label = type === "tiff" ? "TIFF files" : "this file type";
+    return { status: "unsupported", message: `Previews aren't available for ${label}`, images: [] };
+  }
+
+  if (!sources.length) {
+    return { status: "unsupported", message: "This PDF has no embedded image to preview", images: [] };
+  }
+
+  const binding = images ?? (await imagesBinding());
+
+  const rendered: RenderedThumbnail[] = [];
+  for (const { face, bytes: source } of sources) {
+    for (const size of THUMBNAIL_SIZES) {
+      const result = await binding
+        .input(streamOf(source))
+        .transform({ width: size, height: size, fit: "scale-down", background: "#ffffff" })
+        .output({ format: "image/webp", quality: WEBP_QUALITY });
+
+      const data = Buffer.from(await result.response().arrayBuffer());
+      const info = inspectRaster(data);
+      if (!info) throw new Error(`Images binding returned an unreadable ${face} preview`);
+      rendered.push({ face, size, width: info.widthPx, height: info.heightPx, data });
+    }
+  }
+
+  return { status: "ready", images: rendered };
+}
+
+/** R2 object key for a stored key or a URL on the R2 public host; null for anything else. */
+export function r2ObjectKey(value: string | null | undefined): string | null {
+  const v = String(value ?? "").trim();
+  if (!v) return null;
+  if (!/^https?:\/\//i.test(v)) return v.replace(/^\/+/, "");
+
+  const base = getR2PublicBaseUrl();
+  if (!base || !v.startsWith(`${base}/`)) return null;
+  return decodeURIComponent(v.slice(base.length + 1).split(/[?#]/)[0]) || null;
+}
+
+/** Fetch the original from R2, render and store previews. Never throws; failures are recorded. */
+export async function generateThumbnailsForKey(originalKey: string, now = new Date()): Promise<ArtworkThumbnails> {
+  const generatedAt = now.toISOString();
+  try {
+    // server.ts needs R2 credentials at import time; keep it out of the render path
+    const { getObjectBytes, putObject } = await import("@/lib/artwork/server");
+
+    const rendered = await renderArtworkThumbnails(await getObjectBytes(originalKey, MAX_SOURCE_BYTES));
+
+    const images: ThumbnailImage[] = [];
+    for (const { data, ...img } of rendered.images) {
+      const key = thumbnailKey(originalKey, img.face, img.size);
+      await putObject({ key, body: data, contentType: "image/webp", cacheControl: THUMB_CACHE_CONTROL });
+      images.push({ ...img, key });
+    }
+
+    return {
+      version: 1,
+      status: rendered.status,
+      generatedAt,
+      ...(rendered.message ? { message: rendered.message } : {}),
+      images,
+    };
+  } catch (e: any) {
+    console.error("[thumbnails] render failed:", { key: originalKey, error: e?.message || e });
+    return { version: 1, status: "failed", generatedAt, message: String(e?.message || "Preview failed"), images: [] };
+  }
+}
+
+function notStored(now: Date): ArtworkThumbnails {
+  return {
+    version: 1,
+    status: "unsupported",
+    generatedAt: now.toISOString(),
+    message: "File is not stored in R2",
+    images: [],
+  };
+}
+
+export async function thumbnailCartAttachment(attachmentId: string, now = new Date()): Promise<ArtworkThumbnails | null> {
+  const [row] = await db
+    .select({ key: cartAttachments.key, url: cartAttachments.url, meta: cartAttachments.meta })
+    .from(cartAttachments)
+    .where(eq(cartAttachments.id, attachmentId))
+    .limit(1);
+  if (!row) return null;
+
+  const key = r2ObjectKey(row.key) ?? r2ObjectKey(row.url);
+  const thumbnails = key ? await generateThumbnailsForKey(key, now) : notStored(now);
+
+  // Preflight runs right after upload too; merge rather than overwrite meta
+  await db
+    .update(cartAttachments)
+    .set({ meta: sql`coalesce(${cartAttachments.meta}, '{}'::jsonb) || jsonb_build_object('thumbnails', ${JSON.stringify(thumbnails)}::jsonb)` })
+    .where(eq(cartAttachments.id, attachmentId));
+
+  return thumbnails;
+}
+
+export async function thumbnailArtworkUpload(uploadId: string, now = new Date()): Promise<ArtworkThumbnails | null> {
+  const [row] = await db
+    .select({ fileUrl: artworkUploads.fileUrl })
+    .from(artworkUploads)
+    .where(eq(artworkUploads.id, uploadId))
+    .limit(1);
+  if (!row) return null;
+
+  const key = r2ObjectKey(row.fileUrl);
+  const thumbnails = key ? await generateThumbnailsForKey(key, now) : notStored(now);
+
+  await db.update(artworkUploads).set({ thumbnails }).where(eq(artworkUploads.id, uploadId));
+  return thumbnails;
+}
+
+/**
+ * Backfill previews for uploads that don't have any yet (newest first).
+ * Used by POST /api/jobs/artwork-thumbnails; also catches uploads recorded outside the cart UI.
+ */
+export async function backfillArtworkThumbnails(input: { limit?: number } = {}) {
+  const limit = Math.max(1, Math.min(100, Math.floor(input.limit ?? 20)));
+
+  const attachments = await db
+    .select({ id: cartAttachments.id })
+    .from(cartAttachments)
+    .where(sql`${cartAttachments.meta} -> 'thumbnails' is null`)
+    .orderBy(desc(cartAttachments.createdAt))
+    .limit(limit);
+
+  const uploads = await db
+    .select({ id: artworkUploads.id })
+    .from(artworkUploads)
+    .where(isNull(artworkUploads.thumbnails))
+    .orderBy(desc(artworkUploads.createdAt))
+    .limit(limit);
+
+  const counts = { ready: 0, unsupported: 0, failed: 0 };
+  const tally = (t: ArtworkThumbnails | null) => {
+    if (t) counts[t.status] += 1;
+  };
+
+  for (const a of attachments) tally(await thumbnailCartAttachment(a.id));
+  for (const u of uploads) tally(await thumbnailArtworkUpload(u.id));
+
+  return { attachments: attachments.length, uploads: uploads.length, ...counts };
+}
+
+export type LineArtworkPreview = {
+  /** original file (open / download) */
+  url: string;
+  /** rendered front preview, when one exists */
+  previewUrl: string | null;
+  fileName: string | null;
+};
+
+/**
+ * Artwork per cart line for order detail / reorder screens: cart_attachments (with previews)
+ * followed by legacy cart_artwork rows.
+ */
+export async function loadLineArtworkPreviews(lineIds: string[], minPx = 96): Promise<Map<string, LineArtworkPreview[]>> {
+  const out = new Map<string, LineArtworkPreview[]>();
+  if (!lineIds.length) return out;
+
+  const push = (lineId: string, p: LineArtworkPreview) => out.set(lineId, [...(out.get(lineId) ?? []), p]);
+
+  const attachments = await db
+    .select({
+      cartLineId: cartAttachments.cartLineId,
+      url: cartAttachments.url,
+      key: cartAttachments.key,
+      fileName: cartAttachments.fileName,
+      meta: cartAttachments.meta,
+    })
+    .from(cartAttachments)
+    .where(inArray(cartAttachments.cartLineId, lineIds))
+    .orderBy(asc(cartAttachments.createdAt));
+
+  for (const a of attachments) {
+    const preview = pickThumbnail(storedThumbnails(a.meta), "front", minPx);
+    push(String(a.cartLineId), {
+      url: r2PublicUrl(a.url || a.key),
+      previewUrl: preview ? r2PublicUrl(preview.key) : null,
+      fileName: a.fileName ?? null,
+    });
+  }
+
+  const legacy = await db
+    .select({ cartLineId: cartArtwork.cartLineId, url: cartArtwork.url, fileName: cartArtwork.fileName })
+    .from(cartArtwork)
+    .where(inArray(cartArtwork.cartLineId, lineIds))
+    .orderBy(asc(cartArtwork.side));
+
+  for (const a of legacy) {
+    push(String(a.cartLineId), { url: r2PublicUrl(a.url), previewUrl: null, fileName: a.fileName ?? null });
+  }
+
+  return out;
+}
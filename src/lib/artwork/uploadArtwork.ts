@@ -54,3 +54,311 @@ export async function uploadToR2ViaPresign(input: {
 
   return { ok: true, key: presign.key };
 }
+
+/* ------------------------- multipart (large files) ------------------------- */
+// Driven by the multipart actions on /api/uploads/r2 (create / sign-parts / list-parts / complete / abort).
+
+/** Files at or above this size go through the multipart uploader. */
+export const MULTIPART_THRESHOLD = 64 * 1024 * 1024;
+
+export type MultipartProgress = {
+  loaded: number;
+  total: number;
+  partsDone: number;
+  partCount: number;
+  /** true when the upload picked up parts stored by an earlier attempt */
+  resumed: boolean;
+};
+
+export type MultipartUploadResult =
+  | { ok: true; key: string; publicUrl: string | null; size: number; receipt: string | null }
+  | { ok: false; error: string; aborted?: boolean };
+
+type SavedMultipart = {
+  key: string;
+  uploadId: string;
+  partSize: number;
+  partCount: number;
+  publicUrl: string | null;
+  startedAt: number;
+};
+
+const RESUME_PREFIX = "adap:r2-multipart:";
+// R2 drops incomplete multipart uploads after 7 days by default; don't try to resume past that
+const RESUME_MAX_AGE_MS = 6 * 24 * 60 * 60 * 1000;
+// Matches the server's max partNumbers per sign-parts call
+const SIGN_BATCH = 100;
+const MAX_RATE_LIMIT_RETRIES = 4;
+
+function resumeKey(file: File, extraBody?: Record<string, unknown>): string {
+  const scope = String(extraBody?.lineId ?? extraBody?.scope ?? "");
+  return `${RESUME_PREFIX}${[scope, file.name, file.size, file.lastModified].join(":")}`;
+}
+
+function loadSaved(key: string): SavedMultipart | null {
+  try {
+    const v = JSON.parse(window.localStorage.getItem(key) ?? "null") as SavedMultipart | null;
+    if (!v?.uploadId || !v.key || !(v.partSize > 0) || Date.now() - v.startedAt > RESUME_MAX_AGE_MS) return null;
+    return v;
+  } catch {
+    return null;
+  }
+}
+
+function saveResume(key: string, value: SavedMultipart | null) {
+  try {
+    if (value) window.localStorage.setItem(key, JSON.stringify(value));
+    else window.localStorage.removeItem(key);
+  } catch {
+    // private mode / quota: resume just isn't available
+  }
+}
+
+class UploadHttpError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+  ) {
+    super(message);
+  }
+}
+
+/** POST an upload action; a 429 waits for Retry-After (or backs off) and tries again. */
+async function postAction<T>(endpoint: string, body: Record<string, unknown>, signal?: AbortSignal): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    const res = await fetch(endpoint, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+      cache: "no-store",
+      signal,
+    });
+
+    if (res.status === 429 && attempt < MAX_RATE_LIMIT_RETRIES) {
+      const retryAfterSec = Number(res.headers.get("Retry-After"));
+      const waitMs = retryAfterSec > 0 ? retryAfterSec * 1000 : 1000 * 2 ** attempt;
+      await sleep(Math.min(60_000, waitMs), signal);
+      continue;
+    }
+
+    const data = (await res.json().catch(() => null)) as any;
+    if (!res.ok || data?.ok !== true) {
+      throw new UploadHttpError(data?.message || data?.error || `Upload request failed (HTTP ${res.status})`, res.status);
+    }
+    return data as T;
+  }
+}
+
+function putPart(url: string, blob: Blob, onProgress: (loaded: number) => void, signal?: AbortSignal): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    const onAbort = () => {
+      xhr.abort();
+      reject(new DOMException("Aborted", "AbortError"));
+    };
+    if (signal?.aborted) return onAbort();
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    xhr.open("PUT", url);
+    xhr.upload.onprogress = (evt) => onProgress(evt.loaded);
+    xhr.onload = () => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve(xhr.status);
+    };
+    xhr.onerror = () => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve(0); // network error; retried like a 5xx
+    };
+    xhr.send(blob);
+  });
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const t = setTimeout(resolve, ms);
+    signal?.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(t);
+        reject(new DOMException("Aborted", "AbortError"));
+      },
+      { once: true },
+    );
+  });
+}
+
+/**
+ * Upload a large file as an S3 multipart upload straight to R2.
+ *
+ * Parts upload `concurrency` at a time with per-part progress; a failed part is retried with
+ * backoff (re-signing when its URL has expired). The upload id is kept in localStorage until
+ * completion, so picking the same file again after a reload or network drop only sends the
+ * parts R2 doesn't have yet. Aborting via `signal` keeps that state; call abortR2Multipart to
+ * discard it.
+ */
+export async function uploadToR2Multipart(input: {
+  file: File;
+  endpoint?: string;
+  extraBody?: Record<string, unknown>;
+  onProgress?: (p: MultipartProgress) => void;
+  signal?: AbortSignal;
+  concurrency?: number;
+  maxRetries?: number;
+}): Promise<MultipartUploadResult> {
+  const { file, signal } = input;
+  const endpoint = input.endpoint ?? "/api/uploads/r2";
+  const concurrency = Math.max(1, Math.min(6, input.concurrency ?? 3));
+  const maxRetries = Math.max(0, input.maxRetries ?? 4);
+  const storeKey = resumeKey(file, input.extraBody);
+
+  const fileName = safeBasename(file.name);
+  const contentType = file.type || guessContentType(fileName);
+
+  try {
+    // 1) Resume an earlier attempt when R2 still has it, else start a new upload
+    let upload = loadSaved(storeKey);
+    const done = new Map<number, number>();
+
+    if (upload) {
+      try {
+        const listed = await postAction<{ parts: { partNumber: number; size: number }[] }>(
+          endpoint,
+          { action: "list-parts", key: upload.key, uploadId: upload.uploadId },
+          signal,
+        );
+        for (const p of listed.parts) {
+          const expected = Math.min(upload.partSize, file.size - (p.partNumber - 1) * upload.partSize);
+          if (p.size === expected) done.set(p.partNumber, p.size);
+        }
+      } catch (e: any) {
+        if (e?.name === "AbortError") throw e;
+        upload = null;
+      }
+    }
+    const resumed = done.size > 0;
+
+    if (!upload) {
+      const created = await postAction<{ key: string; uploadId: string; partSize: number; partCount: number; publicUrl?: string }>(
+        endpoint,
+        { ...(input.extraBody ?? {}), action: "create", filename: fileName, contentType, size: file.size },
+        signal,
+      );
+      upload = {
+        key: created.key,
+        uploadId: created.uploadId,
+        partSize: created.partSize,
+        partCount: created.partCount,
+        publicUrl: created.publicUrl ?? null,
+        startedAt: Date.now(),
+      };
+      saveResume(storeKey, upload);
+    }
+
+    const { key, uploadId, partSize, partCount } = upload;
+
+    // 2) Upload the missing parts
+    const inflight = new Map<number, number>();
+    const report = () => {
+      let loaded = 0;
+      for (const n of done.values()) loaded += n;
+      for (const n of inflight.values()) loaded += n;
+      input.onProgress?.({ loaded: Math.min(loaded, file.size), total: file.size, partsDone: done.size, partCount, resumed });
+    };
+    report();
+
+    const pending: number[] = [];
+    for (let n = 1; n <= partCount; n++) if (!done.has(n)) pending.push(n);
+
+    const queue = [...pending];
+    const urls = new Map<number, string>();
+    const signFor = async (partNumber: number) => {
+      const batch = [partNumber, ...queue.filter((n) => !urls.has(n)).slice(0, SIGN_BATCH - 1)];
+      const signed = await postAction<{ urls: { partNumber: number; url: string }[] }>(
+        endpoint,
+        { action: "sign-parts", key, uploadId, partNumbers: batch },
+        signal,
+      );
+      for (const u of signed.urls) urls.set(u.partNumber, u.url);
+    };
+
+    const uploadPart = async (partNumber: number) => {
+      const start = (partNumber - 1) * partSize;
+      const blob = file.slice(start, Math.min(start + partSize, file.size));
+
+      for (let attempt = 0; ; attempt++) {
+        if (!urls.has(partNumber)) await signFor(partNumber);
+
+        inflight.set(partNumber, 0);
+        const status = await putPart(
+          urls.get(partNumber)!,
+          blob,
+          (loaded) => {
+            inflight.set(partNumber, loaded);
+            report();
+          },
+          signal,
+        );
+        inflight.delete(partNumber);
+
+        if (status >= 200 && status < 300) {
+          urls.delete(partNumber);
+          done.set(partNumber, blob.size);
+          report();
+          return;
+        }
+
+        // 403 is usually an expired signature; anything else transient gets the same retry path
+        urls.delete(partNumber);
+        if (attempt >= maxRetries || (status >= 400 && status < 500 && status !== 403 && status !== 408 && status !== 429)) {
+          throw new Error(`Part ${partNumber} failed (HTTP ${status || "network error"})`);
+        }
+        report();
+        await sleep(Math.min(15_000, 500 * 2 ** attempt), signal);
+      }
+    };
+
+    await Promise.all(
+      Array.from({ length: Math.min(concurrency, queue.length) }, async () => {
+        for (let next = queue.shift(); next !== undefined; next = queue.shift()) await uploadPart(next);
+      }),
+    );
+
+    // 3) Stitch the parts together
+    const completed = await postAction<{ key: string; size: number; publicUrl?: string; receipt?: string }>(
+      endpoint,
+      { ...(input.extraBody ?? {}), action: "complete", key, uploadId, partCount },
+      signal,
+    );
+    saveResume(storeKey, null);
+
+    return {
+      ok: true,
+      key: completed.key,
+      publicUrl: completed.publicUrl ?? upload.publicUrl,
+      size: completed.size,
+      receipt: completed.receipt ?? null,
+    };
+  } catch (e: any) {
+    if (e?.name === "AbortError") return { ok: false, error: "Upload cancelled", aborted: true };
+    // Rejected outright (too large, wrong type, upload gone): nothing left to resume
+    const retryable = e instanceof UploadHttpError && (e.status === 409 || e.status === 429);
+    if (e instanceof UploadHttpError && e.status >= 400 && e.status < 500 && !retryable) saveResume(storeKey, null);
+    return { ok: false, error: e?.message || "Upload failed" };
+  }
+}
+
+/** Discard a resumable upload for this file (frees the stored parts in R2). */
+export async function abortR2Multipart(input: {
+  file: File;
+  endpoint?: string;
+  extraBody?: Record<string, unknown>;
+}): Promise<void> {
+  const storeKey = resumeKey(input.file, input.extraBody);
+  const saved = loadSaved(storeKey);
+  saveResume(storeKey, null);
+  if (!saved) return;
+
+  await postAction(input.endpoint ?? "/api/uploads/r2", { action: "abort", key: saved.key, uploadId: saved.uploadId }).catch(
+    () => {},
+  );
+}
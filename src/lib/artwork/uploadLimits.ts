@@ -0,0 +1,128 @@
+// src/lib/artwork/uploadLimits.ts
+import productAssetsRaw from "@/data/productAssets.json";
+
+/**
+ * Server-side upload limits (size + content type) per product category, and the part plan for
+ * S3 multipart uploads. Enforced by /api/uploads/r2 when an upload is presigned/created and
+ * again when a multipart upload is completed (from the parts actually stored in R2).
+ *
+ * Category comes from productAssets.json (category_slug). Uploads that aren't tied to a product
+ * (proofs, misc attachments) get DEFAULT_UPLOAD_LIMITS.
+ */
+
+const MB = 1024 * 1024;
+const GB = 1024 * MB;
+
+export type UploadLimits = {
+  maxBytes: number;
+  /** lower-case MIME types; "application/octet-stream" covers files the browser can't type (.ai/.eps) */
+  contentTypes: readonly string[];
+};
+
+const PRINT_TYPES = [
+  "application/pdf",
+  "application/postscript",
+  "image/png",
+  "image/jpeg",
+  "image/tiff",
+  "image/webp",
+  // script-free only; checked after upload (verifyUpload)
+  "image/svg+xml",
+  "application/octet-stream",
+] as const;
+
+export const DEFAULT_UPLOAD_LIMITS: UploadLimits = { maxBytes: 500 * MB, contentTypes: PRINT_TYPES };
+
+export const CATEGORY_UPLOAD_LIMITS: Record<string, UploadLimits> = {
+  // Banners, signs and wall graphics are routinely several hundred MB at full size
+  "large-format": { maxBytes: 5 * GB, contentTypes: PRINT_TYPES },
+  "business-cards": { maxBytes: 200 * MB, contentTypes: PRINT_TYPES },
+  stationery: { maxBytes: 200 * MB, contentTypes: PRINT_TYPES },
+  "labels-and-packaging": { maxBytes: 1 * GB, contentTypes: PRINT_TYPES },
+  "print-products": { maxBytes: 1 * GB, contentTypes: PRINT_TYPES },
+  // Garment decoration works from rasters or vector art; no TIFF/WebP
+  apparel: {
+    maxBytes: 500 * MB,
+    contentTypes: [
+      "application/pdf",
+      "application/postscript",
+      "image/png",
+      "image/jpeg",
+      "image/svg+xml",
+      "application/octet-stream",
+    ],
+  },
+};
+
+/* ------------------------- product -> category ------------------------- */
+
+type RawRow = { id?: number | string | null; sinalite_id?: number | string | null; category_slug?: string | null };
+
+const categoryByProductId = new Map<number, string>();
+for (const row of (Array.isArray(productAssetsRaw) ? productAssetsRaw : []) as RawRow[]) {
+  const slug = String(row.category_slug ?? "").trim();
+  if (!slug) continue;
+  // cart_lines.product_id is the Sinalite id; local ids usually match, index both (first wins)
+  for (const v of [row.id, row.sinalite_id]) {
+    const id = Number(v);
+    if (Number.isFinite(id) && id > 0 && !categoryByProductId.has(id)) categoryByProductId.set(id, slug);
+  }
+}
+
+export function categorySlugForProduct(productId: number | string | null | undefined): string | null {
+  const id = Number(productId);
+  if (!Number.isFinite(id) || id <= 0) return null;
+  return categoryByProductId.get(id) ?? null;
+}
+
+export function uploadLimitsFor(categorySlug: string | null | undefined): UploadLimits {
+  return (categorySlug && CATEGORY_UPLOAD_LIMITS[categorySlug]) || DEFAULT_UPLOAD_LIMITS;
+}
+
+export type UploadLimitViolation = {
+  error: "file_too_large" | "unsupported_content_type";
+  message: string;
+  status: 413 | 415;
+};
+
+function formatBytes(n: number): string {
+  return n >= GB ? `${+(n / GB).toFixed(1)} GB` : `${Math.round(n / MB)} MB`;
+}
+
+/** Size check alone, e.g. against the bytes R2 actually holds once a multipart upload is complete. */
+export function checkUploadSize(limits: UploadLimits, size: number | null | undefined): UploadLimitViolation | null {
+  const n = Number(size);
+  if (size == null || !Number.isFinite(n) || n <= limits.maxBytes) return null;
+  return {
+    error: "file_too_large",
+    message: `File is ${formatBytes(n)}; the limit for this product is ${formatBytes(limits.maxBytes)}`,
+    status: 413,
+  };
+}
+
+/** null when the upload is within limits. Size is optional (unknown for legacy callers). */
+export function checkUploadLimits(
+  limits: UploadLimits,
+  input: { contentType: string; size?: number | null },
+): UploadLimitViolation | null {
+  const ct = String(input.contentType ?? "").trim().toLowerCase().split(";")[0];
+  if (!limits.contentTypes.includes(ct)) {
+    return { error: "unsupported_content_type", message: `Files of type ${ct || "unknown"} aren't accepted`, status: 415 };
+  }
+  return checkUploadSize(limits, input.size);
+}
+
+/* ------------------------- multipart plan ------------------------- */
+
+// S3/R2 rules: every part but the last is >= 5 MiB, at most 10,000 parts
+export const MIN_PART_SIZE = 5 * MB;
+export const MAX_PARTS = 10_000;
+const TARGET_PART_SIZE = 16 * MB;
+
+/** Fixed part size for a file (grown past the target when needed to stay under MAX_PARTS). */
+export function planMultipart(size: number): { partSize: number; partCount: number } {
+  const bytes = Math.max(1, Math.floor(size));
+  let partSize = Math.max(MIN_PART_SIZE, TARGET_PART_SIZE);
+  if (Math.ceil(bytes / partSize) > MAX_PARTS) partSize = Math.ceil(bytes / MAX_PARTS / MB) * MB;
+  return { partSize, partCount: Math.ceil(bytes / partSize) };
+}
@@ -0,0 +1,293 @@
+// src/lib/artwork/verifyUpload.ts
+import "server-only";
+
+import { ApiError } from "@/lib/apiError";
+import { signToken, verifyToken } from "@/lib/signedTokens";
+import { sniffFileType } from "@/lib/artwork/preflight";
+import { r2ObjectKey } from "@/lib/artwork/thumbnails";
+import { scannerFromEnv, type ArtworkScanner } from "@/lib/artwork/scanners";
+import type { UploadLimits } from "@/lib/artwork/uploadLimits";
+
+/**
+ * Post-upload verification of artwork in R2, run before a file is attached to a cart line.
+ *
+ * The browser PUTs straight to R2, so the declared contentType/size are only claims. Here we
+ * HEAD the object and compare its real size with the upload receipt minted at presign time
+ * (or the category limit when there's no receipt), sniff magic bytes to confirm the type,
+ * reject SVGs carrying script, and hand the bytes to the configured malware scanner.
+ *
+ * The result is stored on cart_attachments.meta.verification.
+ */
+
+export type DetectedUploadType = "pdf" | "ai" | "eps" | "postscript" | "png" | "jpeg" | "tiff" | "webp" | "svg" | "unknown";
+
+export type UploadRejectReason =
+  | "not_found"
+  | "empty"
+  | "receipt_mismatch"
+  | "size_mismatch"
+  | "file_too_large"
+  | "unknown_type"
+  | "type_mismatch"
+  | "svg_active_content"
+  | "svg_too_large"
+  | "infected";
+
+export type UploadScanResult = {
+  scanner: string;
+  result: "clean" | "infected" | "too_large";
+  signature?: string;
+};
+
+export type UploadVerification = {
+  version: 1;
+  status: "passed" | "rejected";
+  reason?: UploadRejectReason;
+  message?: string;
+  key: string;
+  size: number | null;
+  declaredType: string | null;
+  detectedType: DetectedUploadType | null;
+  /** null when no scanner is configured */
+  scan: UploadScanResult | null;
+  verifiedAt: string;
+};
+
+const SNIFF_BYTES = 64 * 1024;
+const MAX_SVG_BYTES = 5 * 1024 * 1024;
+const RECEIPT_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+/* ------------------------------- receipts -------------------------------- */
+
+export type UploadReceipt = { key: string; size: number; contentType: string | null };
+
+/** Signed record of what was presigned; null when signing isn't configured (EMAIL_LINK_SECRET). */
+export function mintUploadReceipt(receipt: UploadReceipt, now = Date.now()): string | null {
+  try {
+    const subject = JSON.stringify({ k: receipt.key, n: receipt.size, t: receipt.contentType });
+    return signToken("upload_receipt", subject, RECEIPT_TTL_SECONDS, now);
+  } catch {
+    return null;
+  }
+}
+
+export function readUploadReceipt(token: string | null | undefined, now = Date.now()): UploadReceipt | null {
+  if (!token) return null;
+  let subject: string | null;
+  try {
+    subject = verifyToken("upload_receipt", token, now);
+  } catch {
+    return null;
+  }
+  if (!subject) return null;
+
+  try {
+    const v = JSON.parse(subject) as { k?: unknown; n?: unknown; t?: unknown };
+    if (typeof v.k !== "string" || typeof v.n !== "number") return null;
+    return { key: v.k, size: v.n, contentType: typeof v.t === "string" ? v.t : null };
+  } catch {
+    return null;
+  }
+}
+
+/* ------------------------------- sniffing -------------------------------- */
+
+function latin1(b: Uint8Array, start: number, len: number): string {
+  return Buffer.from(b.buffer, b.byteOffset, b.byteLength).toString("latin1", start, Math.min(b.length, start + len));
+}
+
+function looksLikeSvg(head: Uint8Array): boolean {
+  let text = Buffer.from(head.buffer, head.byteOffset, head.byteLength).toString("utf8").replace(/^\uFEFF/, "");
+  // Skip the prolog: XML declaration, comments, doctype, whitespace
+  text = text.replace(/^(\s+|<\?xml[\s\S]*?\?>|<!--[\s\S]*?-->|<!DOCTYPE[^>[]*(\[[\s\S]*?\])?\s*>)+/i, "");
+  return /^<svg[\s>]/i.test(text);
+}
+
+/** Real file type from the first bytes of the object. */
+export function sniffUploadType(head: Uint8Array): DetectedUploadType {
+  const base = sniffFileType(head);
+  if (base === "pdf") {
+    // Illustrator's PDF-compatible .ai files
+    return latin1(head, 0, head.length).includes("Adobe Illustrator") ? "ai" : "pdf";
+  }
+  if (base !== "unknown") return base;
+
+  // DOS EPS binary header (C5 D0 D3 C6) wraps a PostScript section
+  if (head.length >= 4 && head[0] === 0xc5 && head[1] === 0xd0 && head[2] === 0xd3 && head[3] === 0xc6) return "eps";
+  if (latin1(head, 0, 2) === "%!") {
+    const start = latin1(head, 0, 2048);
+    if (/%%Creator:\s*Adobe Illustrator/i.test(start)) return "ai";
+    return /^%!PS-Adobe-\S+\s+EPSF/.test(start) ? "eps" : "postscript";
+  }
+  return looksLikeSvg(head) ? "svg" : "unknown";
+}
+
+const TYPES_FOR_DECLARED: Record<string, readonly DetectedUploadType[]> = {
+  "application/pdf": ["pdf", "ai"],
+  "application/postscript": ["postscript", "eps", "ai"],
+  "application/eps": ["eps", "postscript"],
+  "image/x-eps": ["eps", "postscript"],
+  "application/illustrator": ["ai", "pdf", "eps", "postscript"],
+  "application/vnd.adobe.illustrator": ["ai", "pdf", "eps", "postscript"],
+  "image/png": ["png"],
+  "image/jpeg": ["jpeg"],
+  "image/jpg": ["jpeg"],
+  "image/tiff": ["tiff"],
+  "image/webp": ["webp"],
+  "image/svg+xml": ["svg"],
+};
+
+/** Does the sniffed type agree with what the browser declared? (octet-stream / unset: anything known) */
+export function matchesDeclaredType(declared: string | null | undefined, detected: DetectedUploadType): boolean {
+  if (detected === "unknown") return false;
+  const ct = String(declared ?? "").trim().toLowerCase().split(";")[0];
+  if (!ct || ct === "application/octet-stream" || ct === "binary/octet-stream") return true;
+  return TYPES_FOR_DECLARED[ct]?.includes(detected) ?? false;
+}
+
+/** Reason an SVG could run code when opened in a browser, or null when it's inert. */
+export function svgActiveContent(svg: string): string | null {
+  const checks: Array<[RegExp, string]> = [
+    [/<script[\s>/]/i, "script element"],
+    [/\son[a-z]+\s*=/i, "event handler attribute"],
+    [/(?:href|src)\s*=\s*["']?\s*(?:javascript|vbscript|data:text\/html)/i, "script URL"],
+    [/<foreignObject[\s>/]/i, "foreignObject"],
+    [/<(?:iframe|embed|object)[\s>/]/i, "embedded document"],
+  ];
+  for (const [re, label] of checks) if (re.test(svg)) return label;
+  return null;
+}
+
+/* --------------------------------- scanner -------------------------------- */
+
+let scannerOverride: ArtworkScanner | null | undefined;
+
+/** Swap the malware scanner (tests, or another engine). Pass undefined to go back to env config. */
+export function setArtworkScanner(scanner: ArtworkScanner | null | undefined): void {
+  scannerOverride = scanner;
+}
+
+function activeScanner(): ArtworkScanner | null {
+  return scannerOverride !== undefined ? scannerOverride : scannerFromEnv();
+}
+
+/* --------------------------------- verify --------------------------------- */
+
+/**
+ * R2 key for an attachment when it points at one of our uploads: a URL on the R2 public host,
+ * or a bare key under R2_UPLOAD_PREFIX. Anything else (external URLs, CF image ids) isn't ours
+ * to verify.
+ */
+export function uploadedObjectKey(storageId: string | null | undefined, url: string | null | undefined): string | null {
+  for (const v of [url, storageId]) {
+    const s = String(v ?? "").trim();
+    if (/^https?:\/\//i.test(s)) {
+      const key = r2ObjectKey(s);
+      if (key) return key;
+    }
+  }
+
+  const prefix = String(process.env.R2_UPLOAD_PREFIX ?? "uploads").trim().replace(/^\/+|\/+$/g, "");
+  const key = String(storageId ?? "").trim().replace(/^\/+/, "");
+  return prefix && key.startsWith(`${prefix}/`) && !/^https?:/i.test(key) ? key : null;
+}
+
+/**
+ * Verify an uploaded object. Returns a "rejected" verification for bad files (the caller must not
+ * attach them); throws ApiError 503 when the configured scanner can't give a verdict.
+ * Infected files and active SVGs are deleted from R2 on rejection.
+ */
+export async function verifyUploadedArtwork(input: {
+  key: string;
+  receipt?: string | null;
+  declaredContentType?: string | null;
+  limits: UploadLimits;
+  now?: Date;
+}): Promise<UploadVerification> {
+  const { key, limits } = input;
+  const now = input.now ?? new Date();
+
+  // server.ts needs R2 credentials at import time
+  const { headObject, getObjectHead, streamObject, deleteObject } = await import("@/lib/artwork/server");
+
+  const receipt = readUploadReceipt(input.receipt, now.getTime());
+  const result: UploadVerification = {
+    version: 1,
+    status: "passed",
+    key,
+    size: null,
+    declaredType: receipt?.contentType ?? input.declaredContentType ?? null,
+    detectedType: null,
+    scan: null,
+    verifiedAt: now.toISOString(),
+  };
+  const reject = (reason: UploadRejectReason, message: string): UploadVerification => ({
+    ...result,
+    status: "rejected",
+    reason,
+    message,
+  });
+
+  const head = await headObject(key);
+  if (!head) return reject("not_found", "The uploaded file wasn't found; please upload it again");
+
+  result.size = head.size;
+  result.declaredType = result.declaredType ?? head.contentType;
+
+  // 1) Size: exactly what was presigned, else within the category limit
+  if (head.size <= 0) return reject("empty", "The uploaded file is empty");
+  if (input.receipt && !receipt) return reject("receipt_mismatch", "Upload receipt is invalid or expired");
+  if (receipt && receipt.key !== key) return reject("receipt_mismatch", "Upload receipt is for a different file");
+  if (receipt && receipt.size !== head.size) {
+    return reject("size_mismatch", `Uploaded ${head.size} bytes but ${receipt.size} were expected`);
+  }
+  if (head.size > limits.maxBytes) return reject("file_too_large", "File is larger than allowed for this product");
+
+  // 2) Type from magic bytes
+  const bytes = await getObjectHead(key, SNIFF_BYTES);
+  const detected = sniffUploadType(bytes);
+  result.detectedType = detected;
+
+  if (detected === "unknown") {
+    return reject("unknown_type", "File isn't a PDF, AI, EPS, PNG, JPEG, TIFF, WebP or SVG");
+  }
+  if (!matchesDeclaredType(result.declaredType, detected)) {
+    return reject("type_mismatch", `File content is ${detected.toUpperCase()}, not ${result.declaredType}`);
+  }
+
+  // 3) SVGs are rendered by browsers, so they must not carry script
+  if (detected === "svg") {
+    if (head.size > MAX_SVG_BYTES) return reject("svg_too_large", "SVG files must be under 5 MB");
+    const full = head.size <= bytes.byteLength ? bytes : await getObjectHead(key, head.size);
+    const active = svgActiveContent(Buffer.from(full).toString("utf8"));
+    if (active) {
+      await deleteObject(key).catch(() => {});
+      return reject("svg_active_content", `SVG contains active content (${active})`);
+    }
+  }
+
+  // 4) Malware scan (when a scanner is configured)
+  const scanner = activeScanner();
+  if (scanner) {
+    if (head.size > scanner.maxBytes) {
+      result.scan = { scanner: scanner.name, result: "too_large" };
+    } else {
+      let verdict;
+      try {
+        verdict = await scanner.scan(await streamObject(key));
+      } catch (e: any) {
+        console.error("[verifyUpload] scan failed:", { key, scanner: scanner.name, error: e?.message || e });
+        throw new ApiError(503, "Virus scan is unavailable; please try again shortly", { code: "scan_unavailable" });
+      }
+
+      if (!verdict.clean) {
+        result.scan = { scanner: scanner.name, result: "infected", signature: verdict.signature };
+        await deleteObject(key).catch(() => {});
+        return reject("infected", "The file was flagged by the virus scanner");
+      }
+      result.scan = { scanner: scanner.name, result: "clean" };
+    }
+  }
+
+  return result;
+}
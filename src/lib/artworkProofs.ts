@@ -0,0 +1,357 @@
+// src/lib/artworkProofs.ts
+import "server-only";
+
+import { and, asc, eq, inArray } from "drizzle-orm";
+import { z } from "zod";
+
+import { db } from "@/lib/db";
+import { ApiError } from "@/lib/apiError";
+import { artworkUploads } from "@/lib/db/schema/artwork_uploads";
+import { artworkProofs, type ArtworkProofRow } from "@/lib/db/schema/artworkProofs";
+import { orders } from "@/lib/db/schema/orders";
+import { customers } from "@/lib/db/schema/customer";
+import { sinaliteSubmissions } from "@/lib/db/schema/sinaliteSubmissions";
+import { getR2PublicHost } from "@/lib/artwork/r2Public";
+import { storedThumbnails, type ArtworkThumbnails } from "@/lib/artwork/artworkThumb";
+import { linkCartArtworkToOrder } from "@/lib/artwork/orderArtwork";
+import { recordAdminAudit } from "@/lib/adminAudit";
+import type { AdminActionContext } from "@/lib/adminOrders";
+
+/**
+ * Artwork proofing on artwork_uploads.
+ *
+ * The order's rows come from its cart-line files (lib/artwork/orderArtwork), linked again on
+ * every listing so files the customer adds after checkout show up for review.
+ *
+ * Staff start a round: approve, reject (with a reason) or send a proof PDF.
+ * A sent proof waits for the customer, who approves it or requests changes; staff can then
+ * send a revised proof (next version). Each upload's proof_status mirrors its latest round and
+ * `approved` is kept in sync, so Sinalite submission (which needs every line approved) follows.
+ *
+ * The customer is emailed on every state change (best-effort, after commit).
+ */
+
+export const PROOF_STATUSES = ["pending_review", "approved", "rejected", "proof_sent", "changes_requested"] as const;
+export type ProofStatus = (typeof PROOF_STATUSES)[number];
+
+export type ProofAction = "approve" | "reject" | "send_proof" | "customer_approve" | "customer_request_changes";
+
+const TRANSITIONS: Record<ProofAction, { from: readonly ProofStatus[]; to: ProofStatus }> = {
+  approve: { from: ["pending_review", "proof_sent", "changes_requested"], to: "approved" },
+  reject: { from: ["pending_review", "proof_sent", "changes_requested"], to: "rejected" },
+  send_proof: { from: ["pending_review", "proof_sent", "changes_requested"], to: "proof_sent" },
+  customer_approve: { from: ["proof_sent"], to: "approved" },
+  customer_request_changes: { from: ["proof_sent"], to: "changes_requested" },
+};
+
+/** Next proof status, or null when the action isn't allowed from `current`. */
+export function nextProofStatus(current: string, action: ProofAction): ProofStatus | null {
+  const t = TRANSITIONS[action];
+  return (t.from as readonly string[]).includes(current) ? t.to : null;
+}
+
+type Db = typeof db;
+type Tx = Parameters<Parameters<Db["transaction"]>[0]>[0];
+
+type UploadRow = typeof artworkUploads.$inferSelect;
+
+/* --------------------------------- inputs --------------------------------- */
+
+const ReviewInputSchema = z
+  .object({
+    decision: z.enum(["approve", "reject"]),
+    reason: z.string().trim().max(2000).optional(),
+  })
+  .strict()
+  .refine((v) => v.decision !== "reject" || Boolean(v.reason), {
+    message: "A reason is required when rejecting artwork",
+    path: ["reason"],
+  });
+
+const ProofInputSchema = z
+  .object({
+    proofUrl: z.string().trim().url().max(2000),
+    fileName: z.string().trim().min(1).max(255).optional(),
+    message: z.string().trim().max(2000).optional(),
+  })
+  .strict();
+
+const CustomerDecisionSchema = z
+  .object({
+    decision: z.enum(["approve", "request_changes"]),
+    comment: z.string().trim().max(2000).optional(),
+  })
+  .strict()
+  .refine((v) => v.decision !== "request_changes" || Boolean(v.comment), {
+    message: "Tell us what to change",
+    path: ["comment"],
+  });
+
+function parseInput<T>(schema: z.ZodType<T>, raw: unknown, message: string): T {
+  const parsed = schema.safeParse(raw);
+  if (!parsed.success) {
+    throw new ApiError(422, message, {
+      code: "VALIDATION_ERROR",
+      details: parsed.error.issues.map((i) => ({ path: i.path.join("."), message: i.message })),
+    });
+  }
+  return parsed.data;
+}
+
+/** Proofs are served to customers; only accept files we host. */
+function assertHostedProofUrl(url: string) {
+  const host = getR2PublicHost();
+  const parsed = new URL(url);
+  if (!host || parsed.protocol !== "https:" || parsed.hostname.toLowerCase() !== host) {
+    throw new ApiError({
+      status: 422,
+      code: "PROOF_URL_NOT_HOSTED",
+      message: "Upload the proof to artwork storage first and use its public URL",
+    });
+  }
+}
+
+/* --------------------------------- reads ---------------------------------- */
+
+export type ArtworkWithProofs = {
+  id: string;
+  productId: string;
+  fileName: string;
+  fileUrl: string;
+  proofStatus: ProofStatus;
+  proofVersion: number;
+  approved: boolean;
+  createdAt: Date;
+  thumbnails: ArtworkThumbnails | null;
+  proofs: ArtworkProofRow[];
+};
+
+export async function listOrderArtworkProofs(orderId: string): Promise<ArtworkWithProofs[]> {
+  await linkCartArtworkToOrder(db, orderId);
+
+  const uploads = await db
+    .select()
+    .from(artworkUploads)
+    .where(eq(artworkUploads.orderId, orderId))
+    .orderBy(asc(artworkUploads.createdAt));
+  if (!uploads.length) return [];
+
+  const rounds = await db
+    .select()
+    .from(artworkProofs)
+    .where(
+      inArray(
+        artworkProofs.artworkUploadId,
+        uploads.map((u) => u.id),
+      ),
+    )
+    .orderBy(asc(artworkProofs.version));
+
+  return uploads.map((u) => ({
+    id: u.id,
+    productId: u.productId,
+    fileName: u.fileName,
+    fileUrl: u.fileUrl,
+    proofStatus: u.proofStatus as ProofStatus,
+    proofVersion: u.proofVersion,
+    approved: u.approved,
+    createdAt: u.createdAt,
+    thumbnails: storedThumbnails(u.thumbnails),
+    proofs: rounds.filter((r) => r.artworkUploadId === u.id),
+  }));
+}
+
+/* -------------------------------- transitions ------------------------------ */
+
+async function lockUpload(tx: Tx, uploadId: string): Promise<UploadRow> {
+  const [upload] = await tx
+    .select()
+    .from(artworkUploads)
+    .where(eq(artworkUploads.id, uploadId))
+    .for("update")
+    .limit(1);
+  if (!upload) throw new ApiError({ status: 404, code: "ARTWORK_NOT_FOUND", message: "Artwork not found" });
+  return upload;
+}
+
+function transitionOrThrow(upload: UploadRow, action: ProofAction): ProofStatus {
+  const to = nextProofStatus(upload.proofStatus, action);
+  if (!to) {
+    throw new ApiError({
+      status: 409,
+      code: "INVALID_PROOF_TRANSITION",
+      message: `Artwork is ${upload.proofStatus.replace(/_/g, " ")}; it can't be changed that way`,
+      details: { proofStatus: upload.proofStatus, action },
+    });
+  }
+  return to;
+}
+
+async function setUploadStatus(tx: Tx, uploadId: string, status: ProofStatus, version: number) {
+  await tx
+    .update(artworkUploads)
+    .set({ proofStatus: status, proofVersion: version, approved: status === "approved" })
+    .where(eq(artworkUploads.id, uploadId));
+}
+
+/** Staff-started round (approve / reject / proof): a new version. */
+async function startRound(
+  uploadId: string,
+  action: "approve" | "reject" | "send_proof",
+  round: { message?: string | null; proofUrl?: string | null; proofFileName?: string | null },
+  ctx: AdminActionContext,
+) {
+  const result = await db.transaction(async (tx) => {
+    const upload = await lockUpload(tx, uploadId);
+    const status = transitionOrThrow(upload, action);
+    const version = upload.proofVersion + 1;
+    const decided = status !== "proof_sent";
+
+    const [proof] = await tx
+      .insert(artworkProofs)
+      .values({
+        artworkUploadId: upload.id,
+        orderId: upload.orderId,
+        version,
+        status,
+        proofUrl: round.proofUrl ?? null,
+        proofFileName: round.proofFileName ?? null,
+        message: round.message ?? null,
+        createdBy: ctx.actor,
+        decidedBy: decided ? ctx.actor : null,
+        decidedAt: decided ? new Date() : null,
+      })
+      .returning();
+
+    await setUploadStatus(tx, upload.id, status, version);
+
+    await recordAdminAudit(tx, {
+      actor: ctx.actor,
+      action: action === "send_proof" ? "artwork.proof" : `artwork.${action}`,
+      targetType: "artwork_upload",
+      targetId: upload.id,
+      requestId: ctx.requestId,
+      details: { orderId: upload.orderId, version, from: upload.proofStatus, to: status },
+    });
+
+    return { upload: { ...upload, proofStatus: status, proofVersion: version }, proof };
+  });
+
+  await afterTransition(result.upload, result.proof);
+  return result.proof;
+}
+
+export async function reviewArtwork(uploadId: string, raw: unknown, ctx: AdminActionContext) {
+  const input = parseInput(ReviewInputSchema, raw, "Invalid artwork review");
+  return startRound(uploadId, input.decision, { message: input.reason ?? null }, ctx);
+}
+
+export async function sendArtworkProof(uploadId: string, raw: unknown, ctx: AdminActionContext) {
+  const input = parseInput(ProofInputSchema, raw, "Invalid proof");
+  assertHostedProofUrl(input.proofUrl);
+
+  const proofFileName = input.fileName || decodeURIComponent(new URL(input.proofUrl).pathname.split("/").pop() || "proof.pdf");
+  return startRound(uploadId, "send_proof", { proofUrl: input.proofUrl, proofFileName, message: input.message ?? null }, ctx);
+}
+
+/**
+ * Customer decision on the current proof round.
+ * `owners` are the caller's identities (Clerk user id and/or session id); the upload's order
+ * must belong to one of them, otherwise this is a 404.
+ */
+export async function decideArtworkProof(
+  orderId: string,
+  uploadId: string,
+  raw: unknown,
+  customer: { owners: string[] },
+) {
+  const input = parseInput(CustomerDecisionSchema, raw, "Invalid proof decision");
+  const action: ProofAction = input.decision === "approve" ? "customer_approve" : "customer_request_changes";
+
+  const [order] = await db.select({ id: orders.id, userId: orders.userId }).from(orders).where(eq(orders.id, orderId)).limit(1);
+  if (!order || !customer.owners.includes(order.userId)) {
+    throw new ApiError({ status: 404, code: "ARTWORK_NOT_FOUND", message: "Artwork not found" });
+  }
+  const actor = `customer:${order.userId}`;
+
+  const result = await db.transaction(async (tx) => {
+    const upload = await lockUpload(tx, uploadId);
+    if (upload.orderId !== order.id) {
+      throw new ApiError({ status: 404, code: "ARTWORK_NOT_FOUND", message: "Artwork not found" });
+    }
+
+    const status = transitionOrThrow(upload, action);
+
+    const [proof] = await tx
+      .update(artworkProofs)
+      .set({ status, customerComment: input.comment ?? null, decidedBy: actor, decidedAt: new Date() })
+      .where(and(eq(artworkProofs.artworkUploadId, upload.id), eq(artworkProofs.version, upload.proofVersion)))
+      .returning();
+    if (!proof) throw new ApiError({ status: 409, code: "PROOF_NOT_FOUND", message: "No proof is awaiting your review" });
+
+    await setUploadStatus(tx, upload.id, status, upload.proofVersion);
+
+    return { upload: { ...upload, proofStatus: status }, proof };
+  });
+
+  await afterTransition(result.upload, result.proof);
+  return result.proof;
+}
+
+/* ------------------------------- side effects ------------------------------ */
+
+/** Email + submission nudge. Best-effort: the state change already committed. */
+async function afterTransition(upload: UploadRow, proof: ArtworkProofRow) {
+  if (proof.status === "approved" && upload.orderId) {
+    // Re-check now instead of waiting for the next awaiting_artwork poll
+    await db
+      .update(sinaliteSubmissions)
+      .set({ nextAttemptAt: new Date(), updatedAt: new Date() })
+      .where(and(eq(sinaliteSubmissions.orderId, upload.orderId), eq(sinaliteSubmissions.status, "awaiting_artwork")))
+      .catch((e: any) => console.error("[artworkProofs] submission nudge failed:", { orderId: upload.orderId, error: e?.message || e }));
+  }
+
+  await notifyCustomerOfProof(upload, proof);
+}
+
+async function notifyCustomerOfProof(upload: UploadRow, proof: ArtworkProofRow) {
+  if (!upload.orderId) return { sent: false as const };
+
+  try {
+    const [row] = await db
+      .select({
+        orderNumber: orders.orderNumber,
+        email: customers.email,
+        firstName: customers.firstName,
+        displayName: customers.displayName,
+      })
+      .from(orders)
+      .leftJoin(customers, eq(customers.clerkUserId, orders.userId))
+      .where(eq(orders.id, upload.orderId))
+      .limit(1);
+
+    const email = String(row?.email ?? "").trim();
+    if (!email) return { sent: false as const };
+
+    const message = proof.status === "changes_requested" ? proof.customerComment : proof.message;
+
+    // React Email is heavy; only load it when there's something to send
+    const { sendArtworkProofEmail } = await import("@/lib/email/sendArtworkProofEmail");
+    await sendArtworkProofEmail({
+      kind: proof.status as "approved" | "rejected" | "proof_sent" | "changes_requested",
+      to: email,
+      name: String(row?.firstName ?? row?.displayName ?? "").trim() || "there",
+      orderId: upload.orderId,
+      orderNumber: row?.orderNumber ?? null,
+      fileName: upload.fileName,
+      version: proof.version,
+      message,
+      proofUrl: proof.proofUrl,
+    });
+
+    return { sent: true as const };
+  } catch (e: any) {
+    console.error("[artworkProofs] proof email failed:", { uploadId: upload.id, error: e?.message || e });
+    return { sent: false as const };
+  }
+}
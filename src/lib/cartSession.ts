@@ -89,3 +89,11 @@ export async function getOrCreateCartForSession(): Promise<CartRow> {
 
   return rows[0];
 }
+
+/**
+ * Stamp the cart as changed. Cart routes that add, edit or remove lines call this;
+ * abandoned-cart recovery measures idleness from carts.updated_at.
+ */
+export async function touchCart(cartId: string): Promise<void> {
+  await db.update(carts).set({ updatedAt: new Date() }).where(eq(carts.id, cartId));
+}
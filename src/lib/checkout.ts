@@ -1,6 +1,7 @@
 import "server-only";
 
 import { and, eq, ne, sql } from "drizzle-orm";
+import type Stripe from "stripe";
 
 import { db } from "@/lib/db";
 import { carts } from "@/lib/db/schema/cart";
@@ -8,6 +9,10 @@ import { cartLines } from "@/lib/db/schema/cartLines";
 import { cartCredits } from "@/lib/db/schema/cartCredits";
 import { orders } from "@/lib/db/schema/orders";
 import { getCartCreditsCents } from "@/lib/cartCredits";
+import { recordPromoRedemption } from "@/lib/promoCodes";
+import { recordOrderCreated } from "@/lib/orderLifecycle";
+import { enqueueSinaliteSubmission } from "@/lib/sinalite/orderSubmission";
+import { calculateTaxCents, taxLocationFromSelectedShipping, type TaxSource } from "@/lib/tax";
 
 function clean(v: unknown): string {
   return String(v ?? "").trim();
@@ -70,13 +75,14 @@ export type CartTotals = {
   subtotalCents: number;
   shippingCents: number;
   taxCents: number;
+  taxSource: TaxSource;
   creditsCents: number;
   totalCents: number;
 };
 
 /**
  * Compute totals for a cart (by sid).
- * Tax is set to 0 here (you handle it elsewhere).
+ * Tax comes from the tax provider chain using the selected shipping destination.
  */
 export async function computeCartTotalsBySid(args: {
   sid: string;
@@ -102,9 +108,16 @@ export async function computeCartTotalsBySid(args: {
   const shippingCents = shipCentsFromSelectedShipping(cart.selectedShipping);
   const subtotalCents = await computeCartSubtotalCents(cart.id);
   const creditsCents = await getCartCreditsCents(cart.id);
+  const currency = normalizeCurrency(cart.currency);
 
-  // Tax handled elsewhere; conservative here
-  const taxCents = 0;
+  const tax = calculateTaxCents({
+    currency,
+    subtotalCents,
+    shippingCents,
+    creditsCents,
+    location: taxLocationFromSelectedShipping(cart.selectedShipping),
+  });
+  const taxCents = tax.taxCents;
 
   const totalCents = Math.max(0, subtotalCents + shippingCents + taxCents - creditsCents);
 
@@ -112,10 +125,11 @@ export async function computeCartTotalsBySid(args: {
     cartId: cart.id,
     sid: cart.sid,
     userId: cart.userId ?? null,
-    currency: normalizeCurrency(cart.currency),
+    currency,
     subtotalCents,
     shippingCents,
     taxCents,
+    taxSource: tax.source,
     creditsCents,
     totalCents,
   };
@@ -180,13 +194,30 @@ export async function finalizeFreeOrderBySid(args: {
       })
       .returning({ id: orders.id });
 
+    await recordOrderCreated(tx, {
+      orderId: String(order.id),
+      status: "paid",
+      actor: `customer:${safeUserId}`,
+      reason: "Free order (covered by credits)",
+    });
+
     await tx
       .update(carts)
       .set({ status: "closed", userId: safeUserId })
       .where(eq(carts.id, totals.cartId));
 
+    await recordPromoRedemption(tx, {
+      cartId: totals.cartId,
+      orderId: String(order.id),
+      customerId: safeUserId,
+      currency: totals.currency,
+      onLimit: "reject",
+    });
+
     await tx.delete(cartCredits).where(eq(cartCredits.cartId, totals.cartId));
 
+    await enqueueSinaliteSubmission(tx, { orderId: String(order.id) });
+
     return String(order.id);
   });
 
@@ -229,3 +260,44 @@ export async function finalizeCheckoutBySid(args: {
 
   return { kind: "paid", totals };
 }
+
+/**
+ * The tax provider's estimate as its own Stripe Checkout line, so the session charges the total
+ * the cart showed. The webhook reconciles tax as charged total - (subtotal - credits) - shipping,
+ * which comes back to this same amount. Null when there is no tax.
+ */
+export function cartTaxLineItem(totals: CartTotals): Stripe.Checkout.SessionCreateParams.LineItem | null {
+  if (totals.taxCents <= 0) return null;
+  return {
+    quantity: 1,
+    price_data: {
+      currency: totals.currency.toLowerCase(),
+      unit_amount: totals.taxCents,
+      product_data: { name: "Tax", metadata: { taxSource: String(totals.taxSource) } },
+    },
+  };
+}
+
+/**
+ * Cart credits (promo codes, store credit) for a Stripe Checkout Session, as a single-use coupon.
+ * Capped at the subtotal, the same discount the webhook books (netSubtotal = subtotal - credits),
+ * so the charged total and the order agree. Empty when the cart has no credits.
+ */
+export async function cartCreditDiscounts(
+  stripe: Pick<Stripe, "coupons">,
+  totals: CartTotals,
+): Promise<Stripe.Checkout.SessionCreateParams.Discount[]> {
+  const amountOff = Math.min(totals.creditsCents, totals.subtotalCents);
+  if (amountOff <= 0) return [];
+
+  const coupon = await stripe.coupons.create({
+    amount_off: amountOff,
+    currency: totals.currency.toLowerCase(),
+    duration: "once",
+    max_redemptions: 1,
+    name: "Cart credits",
+    metadata: { cart_id: totals.cartId },
+  });
+
+  return [{ coupon: coupon.id }];
+}
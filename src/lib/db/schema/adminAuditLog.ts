@@ -0,0 +1,36 @@
+// src/lib/db/schema/adminAuditLog.ts
+import { pgTable, uuid, text, jsonb, timestamp, index } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
+
+/**
+ * admin_audit_log
+ * Append-only record of admin actions (written by src/lib/adminAudit.ts).
+ *
+ * - actor: "admin:<email>"
+ * - action: dotted verb, e.g. "order.refund", "order.cancel", "sinalite.resubmit"
+ * - target: what was acted on ("order" + order id, ...)
+ */
+export const adminAuditLog = pgTable(
+  "admin_audit_log",
+  {
+    id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+
+    actor: text("actor").notNull(),
+    action: text("action").notNull(),
+
+    targetType: text("target_type").notNull(),
+    targetId: text("target_id").notNull(),
+
+    requestId: text("request_id"),
+    details: jsonb("details").notNull().default(sql`'{}'::jsonb`),
+
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (t) => ({
+    adminAuditLogTargetIdx: index("admin_audit_log_target_idx").on(t.targetType, t.targetId, t.createdAt),
+    adminAuditLogCreatedIdx: index("admin_audit_log_created_idx").on(t.createdAt),
+  }),
+);
+
+export type AdminAuditLogRow = typeof adminAuditLog.$inferSelect;
+export type AdminAuditLogInsert = typeof adminAuditLog.$inferInsert;
@@ -0,0 +1,71 @@
+// src/lib/db/schema/analyticsEvents.ts
+import { pgTable, uuid, text, integer, smallint, jsonb, timestamp, date, index, primaryKey } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
+
+/**
+ * analytics_events (drizzle/0015_analytics_events.sql)
+ * Every first-party analytics event, validated against the registry in
+ * src/lib/analytics/events.ts. Range-partitioned by month on occurred_at
+ * (analytics_events_YYYYMM, created by the rollup job), so the primary key includes it.
+ */
+export const analyticsEvents = pgTable(
+  "analytics_events",
+  {
+    id: uuid("id").notNull().default(sql`gen_random_uuid()`),
+
+    // registry key, e.g. "product_view"
+    name: text("name").notNull(),
+
+    // client clock when plausible, otherwise receive time
+    occurredAt: timestamp("occurred_at", { withTimezone: true }).notNull().defaultNow(),
+    receivedAt: timestamp("received_at", { withTimezone: true }).notNull().defaultNow(),
+
+    // guest session id (adap_sid cookie)
+    sid: text("sid"),
+    // Clerk user id when signed in
+    userId: text("user_id"),
+    requestId: text("request_id"),
+
+    path: text("path"),
+    props: jsonb("props").$type<Record<string, unknown>>().notNull().default(sql`'{}'::jsonb`),
+    userAgent: text("user_agent"),
+  },
+  (t) => ({
+    analyticsEventsPk: primaryKey({ columns: [t.id, t.occurredAt] }),
+    analyticsEventsNameOccurredIdx: index("analytics_events_name_occurred_idx").on(t.name, t.occurredAt),
+    analyticsEventsSidOccurredIdx: index("analytics_events_sid_occurred_idx").on(t.sid, t.occurredAt),
+  }),
+);
+
+export type AnalyticsEventRow = typeof analyticsEvents.$inferSelect;
+
+/** analytics_daily: events, distinct sessions and distinct users per event name per UTC day. */
+export const analyticsDaily = pgTable(
+  "analytics_daily",
+  {
+    day: date("day").notNull(),
+    name: text("name").notNull(),
+    events: integer("events").notNull().default(0),
+    sessions: integer("sessions").notNull().default(0),
+    users: integer("users").notNull().default(0),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (t) => ({
+    analyticsDailyPk: primaryKey({ columns: [t.day, t.name] }),
+  }),
+);
+
+/** analytics_funnel_daily: sessions reaching each funnel step (in order) per UTC day. */
+export const analyticsFunnelDaily = pgTable(
+  "analytics_funnel_daily",
+  {
+    day: date("day").notNull(),
+    step: text("step").notNull(),
+    position: smallint("position").notNull(),
+    sessions: integer("sessions").notNull().default(0),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (t) => ({
+    analyticsFunnelDailyPk: primaryKey({ columns: [t.day, t.step] }),
+  }),
+);
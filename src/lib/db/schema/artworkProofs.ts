@@ -0,0 +1,53 @@
+// src/lib/db/schema/artworkProofs.ts
+import { pgTable, uuid, varchar, integer, text, timestamp, index, uniqueIndex } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
+
+import { artworkUploads } from "./artwork_uploads";
+
+/**
+ * artwork_proofs
+ * One row per proofing round on an artwork upload (version 1, 2, ...).
+ *
+ * Staff start a round (approve / reject / send a proof PDF); a "proof_sent" round is then
+ * decided by the customer (approved / changes_requested). The upload's proof_status mirrors
+ * its latest round.
+ */
+export const artworkProofs = pgTable(
+  "artwork_proofs",
+  {
+    id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+
+    artworkUploadId: uuid("artwork_upload_id")
+      .notNull()
+      .references(() => artworkUploads.id, { onDelete: "cascade" }),
+
+    // denormalized from artwork_uploads for per-order listing
+    orderId: varchar("order_id", { length: 48 }),
+
+    version: integer("version").notNull(),
+
+    // "approved" | "rejected" | "proof_sent" | "changes_requested"
+    status: text("status").notNull(),
+
+    proofUrl: text("proof_url"),
+    proofFileName: text("proof_file_name"),
+
+    // staff reason (reject) or message to the customer (proof)
+    message: text("message"),
+    customerComment: text("customer_comment"),
+
+    // "admin:<email>"
+    createdBy: text("created_by").notNull(),
+    // "admin:<email>" | "customer:<userId or sid>"
+    decidedBy: text("decided_by"),
+
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+    decidedAt: timestamp("decided_at", { withTimezone: true }),
+  },
+  (t) => ({
+    artworkProofsUploadVersionUniq: uniqueIndex("artwork_proofs_upload_version_uniq").on(t.artworkUploadId, t.version),
+    artworkProofsOrderIdx: index("artwork_proofs_order_idx").on(t.orderId, t.createdAt),
+  }),
+);
+
+export type ArtworkProofRow = typeof artworkProofs.$inferSelect;
@@ -1,5 +1,6 @@
 // src/lib/db/schema/artworkUploads.ts
-import { pgTable, uuid, varchar, integer, boolean, timestamp, index } from "drizzle-orm/pg-core";
+import { pgTable, uuid, varchar, integer, boolean, text, jsonb, timestamp, index, uniqueIndex } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
 
 /**
  * artwork_uploads
@@ -27,12 +28,26 @@ export const artworkUploads = pgTable(
 
     approved: boolean("approved").notNull().default(false),
 
+    // "pending_review" | "approved" | "rejected" | "proof_sent" | "changes_requested"
+    // (see artwork_proofs; approved mirrors proofStatus === "approved")
+    proofStatus: text("proof_status").notNull().default("pending_review"),
+    proofVersion: integer("proof_version").notNull().default(0),
+
+    // Rendered preview keys in R2 (see lib/artwork/thumbnails); null until generated
+    thumbnails: jsonb("thumbnails").$type<Record<string, unknown> | null>(),
+
+    // cart_artwork / cart_attachments id this row was copied from (lib/artwork/orderArtwork)
+    sourceFileId: uuid("source_file_id"),
+
     createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
   },
   (t) => ({
     artworkUploadsProductIdx: index("artwork_uploads_product_idx").on(t.productId),
     artworkUploadsOrderIdx: index("artwork_uploads_order_idx").on(t.orderId),
     artworkUploadsUserIdx: index("artwork_uploads_user_idx").on(t.userId),
+    artworkUploadsOrderSourceFileUniq: uniqueIndex("artwork_uploads_order_source_file_uniq")
+      .on(t.orderId, t.sourceFileId)
+      .where(sql`${t.sourceFileId} is not null`),
     artworkUploadsApprovedIdx: index("artwork_uploads_approved_idx").on(t.approved),
   })
 );
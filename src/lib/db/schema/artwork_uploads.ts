@@ -7,7 +7,8 @@
 // - This is the authoritative staged-artwork representation.
 // - Legacy "artwork_staged"/"artworkStaged" modules should re-export this table.
 
-import { pgTable, uuid, varchar, integer, boolean, timestamp, index } from "drizzle-orm/pg-core";
+import { pgTable, uuid, varchar, integer, boolean, text, jsonb, timestamp, index, uniqueIndex } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
 
 export const artworkUploads = pgTable(
   "artwork_uploads",
@@ -25,6 +26,17 @@ export const artworkUploads = pgTable(
 
     approved: boolean("approved").notNull().default(false),
 
+    // "pending_review" | "approved" | "rejected" | "proof_sent" | "changes_requested"
+    // (see artwork_proofs; approved mirrors proofStatus === "approved")
+    proofStatus: text("proof_status").notNull().default("pending_review"),
+    proofVersion: integer("proof_version").notNull().default(0),
+
+    // Rendered preview keys in R2 (see lib/artwork/thumbnails); null until generated
+    thumbnails: jsonb("thumbnails").$type<Record<string, unknown> | null>(),
+
+    // cart_artwork / cart_attachments id this row was copied from (lib/artwork/orderArtwork)
+    sourceFileId: uuid("source_file_id"),
+
     createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
   },
   (t) => ({
@@ -32,6 +44,9 @@ export const artworkUploads = pgTable(
     orderIdx: index("artwork_uploads_order_idx").on(t.orderId),
     productIdx: index("artwork_uploads_product_idx").on(t.productId),
     userIdx: index("artwork_uploads_user_idx").on(t.userId),
+    orderSourceFileUniq: uniqueIndex("artwork_uploads_order_source_file_uniq")
+      .on(t.orderId, t.sourceFileId)
+      .where(sql`${t.sourceFileId} is not null`),
   })
 );
 
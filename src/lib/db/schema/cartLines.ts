@@ -2,6 +2,7 @@
 import { pgTable, uuid, text, integer, jsonb, timestamp, index } from "drizzle-orm/pg-core";
 import { sql } from "drizzle-orm";
 import { carts } from "./cart";
+import { quoteLines } from "./quotes";
 
 /**
  * cart_lines
@@ -46,6 +47,15 @@ export const cartLines = pgTable(
     // Currency for the line (keep consistent with cart; used to choose storeCode en_us/en_ca)
     currency: text("currency").notNull().default("USD"),
 
+    // Set when the line came from an accepted quote: its price is locked (no merge/qty edits).
+    // product_id is 0 for the quote's custom (non-Sinalite) lines.
+    quoteLineId: uuid("quote_line_id").references(() => quoteLines.id, { onDelete: "set null" }),
+
+    // Set when a Sinalite cost change repriced the line (lib/sinalite/priceChanges.ts); the cart
+    // shows a "price updated" notice until the customer dismisses it
+    previousUnitPriceCents: integer("previous_unit_price_cents"),
+    priceChangedAt: timestamp("price_changed_at", { withTimezone: true }),
+
     createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
     updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
   },
@@ -54,5 +64,6 @@ export const cartLines = pgTable(
     cartLinesProductIdx: index("cart_lines_product_idx").on(t.productId),
     cartLinesCartProductIdx: index("cart_lines_cart_product_idx").on(t.cartId, t.productId),
     cartLinesPricingHashIdx: index("cart_lines_pricing_hash_idx").on(t.pricingHash),
+    cartLinesQuoteLineIdx: index("cart_lines_quote_line_idx").on(t.quoteLineId),
   }),
 );
@@ -0,0 +1,48 @@
+// src/lib/db/schema/catalogSync.ts
+import { pgTable, uuid, integer, text, jsonb, timestamp, index, primaryKey } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
+
+/**
+ * sinalite_product_sync (drizzle/0019_sinalite_catalog_sync.sql)
+ * Hash of the last product/{id}/{store} payload applied, so unchanged products are skipped.
+ * kind: "regular" | "roll-label" | "unavailable" (upstream 404 for this store).
+ */
+export const sinaliteProductSync = pgTable(
+  "sinalite_product_sync",
+  {
+    productId: integer("product_id").notNull(),
+    storeCode: text("store_code").notNull(),
+    kind: text("kind").notNull(),
+    detailsHash: text("details_hash"),
+    syncedAt: timestamp("synced_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (t) => ({
+    pk: primaryKey({ columns: [t.productId, t.storeCode] }),
+    syncedIdx: index("sinalite_product_sync_synced_idx").on(t.syncedAt),
+  })
+);
+
+/**
+ * catalog_sync_runs
+ * One row per run of POST /api/jobs/sinalite-catalog-sync.
+ * status: "running" | "ok" | "partial" (some products failed) | "failed" | "skipped" (another run was in progress)
+ */
+export const catalogSyncRuns = pgTable(
+  "catalog_sync_runs",
+  {
+    id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+    startedAt: timestamp("started_at", { withTimezone: true }).notNull().defaultNow(),
+    finishedAt: timestamp("finished_at", { withTimezone: true }),
+    status: text("status").notNull().default("running"),
+    counts: jsonb("counts").$type<Record<string, unknown>>().notNull().default({}),
+    errors: jsonb("errors")
+      .$type<Array<{ productId?: number; storeCode?: string; message: string }>>()
+      .notNull()
+      .default([]),
+  },
+  (t) => ({
+    startedIdx: index("catalog_sync_runs_started_idx").on(t.startedAt),
+  })
+);
+
+export type CatalogSyncRunRow = typeof catalogSyncRuns.$inferSelect;
@@ -1,5 +1,7 @@
 import { pgTable, text, timestamp, uuid, date } from "drizzle-orm/pg-core";
 
+import { quotes } from "./quotes";
+
 export const customOrderRequests = pgTable("custom_order_requests", {
   id: uuid("id").defaultRandom().primaryKey(),
 
@@ -8,6 +10,8 @@ export const customOrderRequests = pgTable("custom_order_requests", {
   phone: text("phone").notNull(),
 
   quoteNumber: text("quote_number").notNull(),
+  // the quote quoteNumber refers to, when it matches one (drizzle/0016_quotes.sql)
+  quoteId: uuid("quote_id").references(() => quotes.id, { onDelete: "set null" }),
   po: text("po"),
 
   instructions: text("instructions"),
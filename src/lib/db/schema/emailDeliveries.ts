@@ -0,0 +1,36 @@
+// src/lib/db/schema/emailDeliveries.ts
+import { pgTable, bigserial, text, jsonb, timestamp, uniqueIndex } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
+
+/**
+ * email_deliveries (drizzle/0002_email_deliveries.sql)
+ * One row per (kind, orderId) so cron jobs never send the same email twice.
+ * orderId is text: it holds whatever the kind is keyed by (order id, cart id, ...).
+ *
+ * kind:
+ * - "artwork_needed_d1" | "artwork_needed_d3" | "artwork_needed_d7" -> orderId = orders.id (one per reminder step)
+ * - "abandoned_cart" -> orderId = carts.id
+ */
+export const emailDeliveries = pgTable(
+  "email_deliveries",
+  {
+    id: bigserial("id", { mode: "number" }).primaryKey(),
+
+    kind: text("kind").notNull(),
+    orderId: text("order_id").notNull(),
+    toEmail: text("to_email").notNull(),
+
+    sentAt: timestamp("sent_at", { withTimezone: true }).notNull().defaultNow(),
+
+    provider: text("provider").notNull().default("resend"),
+    providerId: text("provider_id"),
+
+    meta: jsonb("meta").notNull().default(sql`'{}'::jsonb`),
+  },
+  (t) => ({
+    emailDeliveriesKindOrderUnique: uniqueIndex("email_deliveries_kind_order_unique").on(t.kind, t.orderId),
+  }),
+);
+
+export type EmailDeliveryRow = typeof emailDeliveries.$inferSelect;
+export type EmailDeliveryInsert = typeof emailDeliveries.$inferInsert;
@@ -0,0 +1,59 @@
+// src/lib/db/schema/heroSlides.ts
+import { pgTable, uuid, text, integer, jsonb, timestamp, index, uniqueIndex } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
+
+/**
+ * hero_slides (drizzle/0013_hero_slides.sql)
+ * Homepage hero carousel. Published slides are shown while inside their
+ * [starts_at, ends_at) window, highest priority first, to the matching audience.
+ */
+export const heroSlides = pgTable(
+  "hero_slides",
+  {
+    id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+
+    // stable id for analytics (HeroSlide.id)
+    slug: text("slug").notNull(),
+
+    // "draft" | "published"
+    status: text("status").notNull().default("draft"),
+    priority: integer("priority").notNull().default(0),
+
+    // null = no bound
+    startsAt: timestamp("starts_at", { withTimezone: true }),
+    endsAt: timestamp("ends_at", { withTimezone: true }),
+
+    // "all" | "US" | "CA"
+    audienceStore: text("audience_store").notNull().default("all"),
+    // "all" | "signed_in" | "guest"
+    audienceAuth: text("audience_auth").notNull().default("all"),
+
+    title: text("title").notNull(),
+    description: text("description"),
+    imageUrl: text("image_url").notNull(),
+    alt: text("alt").notNull(),
+    ctaText: text("cta_text"),
+    ctaHref: text("cta_href"),
+    badge: text("badge"),
+    // "cover" | "contain"
+    fit: text("fit"),
+    focal: text("focal"),
+    blurDataUrl: text("blur_data_url"),
+
+    // A/B variants: [{ key, weight, ...field overrides }]; empty = no test (drizzle/0014)
+    variants: jsonb("variants").notNull().default([]).$type<Array<Record<string, unknown>>>(),
+
+    // "admin:<email>"
+    createdBy: text("created_by").notNull(),
+    updatedBy: text("updated_by").notNull(),
+
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (t) => ({
+    heroSlidesSlugUniq: uniqueIndex("hero_slides_slug_uniq").on(t.slug),
+    heroSlidesStatusPriorityIdx: index("hero_slides_status_priority_idx").on(t.status, t.priority),
+  }),
+);
+
+export type HeroSlideRow = typeof heroSlides.$inferSelect;
@@ -6,6 +6,7 @@ export * from "./customerAddresses";
 export * from "./cart";
 export * from "./cartLines";
 export * from "./cartCredits";
+export * from "./promoCodes";
 export * from "./cartAttachments";
 export * from "./cart_artwork";
 
@@ -18,17 +19,38 @@ export * from "./customerAddresses";
 export * from "./orders";
 export * from "./orderItems";
 export * from "./orderSessions";
+export * from "./orderStatusEvents";
+export * from "./orderPaymentEvents";
+export * from "./orderNotes";
 
 export * from "./loyalty_wallets";
 export * from "./loyalty_transactions";
 
-export * from "./heroEvents";
-export * from "./guideDownloadEvents";
+export * from "./heroSlides";
+
+export * from "./analyticsEvents";
 
 export * from "./price_tiers";
 export * from "./product_reviews";
 
 export * from "./quote_requests";
+export * from "./quotes";
 export * from "./custom_order_requests";
 export * from "./reviewHelpfulVotes";
 export * from "./sinaliteProducts";
+export * from "./catalogSync";
+export * from "./sinalitePriceCache";
+export * from "./sinalitePriceChanges";
+export * from "./sinaliteSubmissions";
+
+export * from "./rateLimits";
+
+export * from "./adminAuditLog";
+
+export * from "./stripeEvents";
+
+export * from "./emailDeliveries";
+
+export * from "./artworkProofs";
+
+export * from "./jobState";
@@ -0,0 +1,20 @@
+// src/lib/db/schema/jobState.ts
+import { pgTable, text, jsonb, timestamp } from "drizzle-orm/pg-core";
+
+/**
+ * job_state (drizzle/0012_job_state.sql)
+ * One row per cron job that resumes work across runs.
+ *
+ * name:
+ * - "artwork_retention" -> cursor = last R2 key checked by the orphan sweep ("" = start over)
+ * - "analytics_rollup" -> cursor = last UTC day (YYYY-MM-DD) rolled up completely
+ * - "sinalite_price_changes" -> cursor = newest sinalite_product_pricing.updated_at diffed (ISO)
+ */
+export const jobState = pgTable("job_state", {
+  name: text("name").primaryKey(),
+  cursor: text("cursor"),
+  lastRun: jsonb("last_run").$type<Record<string, unknown> | null>(),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
+});
+
+export type JobStateRow = typeof jobState.$inferSelect;
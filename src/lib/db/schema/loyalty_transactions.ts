@@ -1,5 +1,5 @@
 // src/lib/db/schema/loyalty_transactions.ts
-import { pgTable, uuid, text, integer, timestamp, index } from "drizzle-orm/pg-core";
+import { pgTable, uuid, text, integer, timestamp, index, uniqueIndex } from "drizzle-orm/pg-core";
 import { sql } from "drizzle-orm";
 
 import { orders } from "./orders";
@@ -25,11 +25,18 @@ export const loyaltyTransactions = pgTable(
 
     note: text("note"),
 
+    // Caller-supplied key for entries that must not repeat (e.g. "store_credit:<creditRequestId>");
+    // unique when set (drizzle/0022_loyalty_idempotency_key.sql)
+    idempotencyKey: text("idempotency_key"),
+
     createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
   },
   (t) => ({
     idxTxnCustomer: index("idx_txn_customer").on(t.customerId),
     idxTxnOrder: index("idx_txn_order").on(t.orderId),
     idxTxnWallet: index("idx_txn_wallet").on(t.walletId),
+    uniqTxnIdempotencyKey: uniqueIndex("loyalty_transactions_idempotency_key_uniq")
+      .on(t.idempotencyKey)
+      .where(sql`${t.idempotencyKey} is not null`),
   })
 );
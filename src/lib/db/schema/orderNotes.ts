@@ -0,0 +1,31 @@
+// src/lib/db/schema/orderNotes.ts
+import { pgTable, uuid, text, timestamp, index } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
+
+import { orders } from "./orders";
+
+/**
+ * order_notes
+ * Internal staff notes on an order. Never shown to customers.
+ */
+export const orderNotes = pgTable(
+  "order_notes",
+  {
+    id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+
+    orderId: uuid("order_id")
+      .notNull()
+      .references(() => orders.id, { onDelete: "cascade" }),
+
+    // "admin:<email>"
+    author: text("author").notNull(),
+    body: text("body").notNull(),
+
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (t) => ({
+    orderNotesOrderIdx: index("order_notes_order_idx").on(t.orderId, t.createdAt),
+  }),
+);
+
+export type OrderNoteRow = typeof orderNotes.$inferSelect;
@@ -0,0 +1,49 @@
+// src/lib/db/schema/orderPaymentEvents.ts
+import { pgTable, uuid, text, integer, jsonb, timestamp, index, uniqueIndex } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
+
+import { orders } from "./orders";
+
+/**
+ * order_payment_events
+ * Refund / dispute activity applied to an order (written by src/lib/orderRefunds.ts).
+ * The unique stripeEventId makes webhook retries no-ops.
+ *
+ * kind:
+ * - "refund"          -> amountCents = cumulative refunded on the charge
+ * - "dispute_created" -> amountCents = disputed amount
+ * - "dispute_won" | "dispute_lost"
+ */
+export const orderPaymentEvents = pgTable(
+  "order_payment_events",
+  {
+    id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+
+    orderId: uuid("order_id")
+      .notNull()
+      .references(() => orders.id, { onDelete: "cascade" }),
+
+    stripeEventId: text("stripe_event_id").notNull(),
+    kind: text("kind").notNull(),
+
+    amountCents: integer("amount_cents").notNull().default(0),
+    currency: text("currency"),
+
+    // charge / dispute id the event was about
+    stripeObjectId: text("stripe_object_id"),
+
+    // loyalty points removed by this event (0 when nothing to claw back)
+    loyaltyClawbackPoints: integer("loyalty_clawback_points").notNull().default(0),
+
+    metadata: jsonb("metadata").notNull().default(sql`'{}'::jsonb`),
+
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (t) => ({
+    orderPaymentEventsStripeEventUniq: uniqueIndex("order_payment_events_stripe_event_uniq").on(t.stripeEventId),
+    orderPaymentEventsOrderIdx: index("order_payment_events_order_idx").on(t.orderId, t.createdAt),
+  }),
+);
+
+export type OrderPaymentEventRow = typeof orderPaymentEvents.$inferSelect;
+export type OrderPaymentEventInsert = typeof orderPaymentEvents.$inferInsert;
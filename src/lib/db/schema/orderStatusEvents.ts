@@ -0,0 +1,39 @@
+// src/lib/db/schema/orderStatusEvents.ts
+import { pgTable, uuid, text, jsonb, timestamp, index } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
+
+import { orderStatus } from "./enums";
+import { orders } from "./orders";
+
+/**
+ * order_status_events
+ * Append-only history of orders.status changes (written by src/lib/orderLifecycle.ts).
+ *
+ * - fromStatus is null for the creation event
+ * - actor: "system:stripe_webhook", "customer:<userId or sid>", "admin:<email>", ...
+ */
+export const orderStatusEvents = pgTable(
+  "order_status_events",
+  {
+    id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+
+    orderId: uuid("order_id")
+      .notNull()
+      .references(() => orders.id, { onDelete: "cascade" }),
+
+    fromStatus: orderStatus("from_status"),
+    toStatus: orderStatus("to_status").notNull(),
+
+    actor: text("actor").notNull(),
+    requestId: text("request_id"),
+    reason: text("reason"),
+    metadata: jsonb("metadata").notNull().default(sql`'{}'::jsonb`),
+
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (t) => ({
+    orderStatusEventsOrderIdx: index("order_status_events_order_idx").on(t.orderId, t.createdAt),
+  }),
+);
+
+export type OrderStatusEventRow = typeof orderStatusEvents.$inferSelect;
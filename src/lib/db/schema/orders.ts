@@ -12,6 +12,8 @@ import {
 } from "drizzle-orm/pg-core";
 import { sql } from "drizzle-orm";
 
+import { orderStatus } from "./enums";
+
 export const orders = pgTable(
   "orders",
   {
@@ -19,7 +21,8 @@ export const orders = pgTable(
 
     userId: text("user_id").notNull(),
 
-    status: text("status").notNull().default("draft"),
+    // Transitions go through src/lib/orderLifecycle.ts (records order_status_events)
+    status: orderStatus("status").notNull().default("draft"),
 
     createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
     updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
@@ -51,6 +54,9 @@ export const orders = pgTable(
     paymentStatus: text("payment_status").default("paid"),
 
     creditsCents: integer("credits_cents").default(0),
+
+    // Cumulative amount refunded (Stripe refunds / lost disputes), see src/lib/orderRefunds.ts
+    refundedCents: integer("refunded_cents").notNull().default(0),
   },
   (t) => ({
     // Existing
@@ -64,6 +70,7 @@ export const orders = pgTable(
     ordersCartIdx: index("orders_cart_id_idx").on(t.cartId),
     ordersUserIdx: index("orders_user_id_idx").on(t.userId),
     ordersCreatedIdx: index("orders_created_at_idx").on(t.createdAt),
+    ordersOrderNumberIdx: index("orders_order_number_idx").on(t.orderNumber),
   })
 );
 
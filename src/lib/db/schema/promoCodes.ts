@@ -0,0 +1,103 @@
+// src/lib/db/schema/promoCodes.ts
+import {
+  pgTable,
+  uuid,
+  text,
+  integer,
+  boolean,
+  jsonb,
+  timestamp,
+  index,
+  uniqueIndex,
+} from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
+
+import { orders } from "./orders";
+
+/**
+ * promo_codes
+ * Customer-enterable codes. Applying one writes a cart_credits row (reason = "promo", note = code).
+ *
+ * kind:
+ * - "percent"       -> percentOff (1..100) of the eligible subtotal
+ * - "fixed"         -> amountOffCents{Usd,Cad}, capped at the eligible subtotal
+ * - "free_shipping" -> credit equal to the selected shipping cost
+ *
+ * Scoping: when productIds / categoryIds are non-empty, only matching cart lines count
+ * towards the eligible subtotal.
+ */
+export const promoCodes = pgTable(
+  "promo_codes",
+  {
+    id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+
+    // Stored uppercase; lookups normalize input the same way
+    code: text("code").notNull(),
+    description: text("description"),
+
+    kind: text("kind").notNull(), // "percent" | "fixed" | "free_shipping"
+
+    percentOff: integer("percent_off"),
+    amountOffCentsUsd: integer("amount_off_cents_usd"),
+    amountOffCentsCad: integer("amount_off_cents_cad"),
+
+    minSubtotalCentsUsd: integer("min_subtotal_cents_usd"),
+    minSubtotalCentsCad: integer("min_subtotal_cents_cad"),
+
+    // null = unlimited
+    maxRedemptions: integer("max_redemptions"),
+    maxRedemptionsPerCustomer: integer("max_redemptions_per_customer"),
+
+    productIds: jsonb("product_ids").notNull().default(sql`'[]'::jsonb`),
+    categoryIds: jsonb("category_ids").notNull().default(sql`'[]'::jsonb`),
+
+    startsAt: timestamp("starts_at", { withTimezone: true }),
+    endsAt: timestamp("ends_at", { withTimezone: true }),
+
+    active: boolean("active").notNull().default(true),
+
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (t) => ({
+    promoCodesCodeUniq: uniqueIndex("promo_codes_code_uniq").on(t.code),
+  }),
+);
+
+/**
+ * promo_redemptions
+ * One row per (promo, order). The unique index makes webhook retries idempotent.
+ * over_limit_reason (drizzle/0021_promo_redemption_over_limit.sql): set when a paid order
+ * went through after the code expired or ran out; null for redemptions within the limits.
+ */
+export const promoRedemptions = pgTable(
+  "promo_redemptions",
+  {
+    id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+
+    promoCodeId: uuid("promo_code_id")
+      .notNull()
+      .references(() => promoCodes.id, { onDelete: "cascade" }),
+
+    orderId: uuid("order_id")
+      .notNull()
+      .references(() => orders.id, { onDelete: "cascade" }),
+
+    // Clerk user id when known; otherwise the cart sid
+    customerId: text("customer_id").notNull(),
+
+    amountCents: integer("amount_cents").notNull().default(0),
+    currency: text("currency").notNull().default("USD"),
+
+    overLimitReason: text("over_limit_reason"),
+
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (t) => ({
+    promoRedemptionsPromoOrderUniq: uniqueIndex("promo_redemptions_promo_order_uniq").on(t.promoCodeId, t.orderId),
+    promoRedemptionsPromoCustomerIdx: index("promo_redemptions_promo_customer_idx").on(t.promoCodeId, t.customerId),
+  }),
+);
+
+export type PromoCodeRow = typeof promoCodes.$inferSelect;
+export type PromoRedemptionRow = typeof promoRedemptions.$inferSelect;
@@ -17,6 +17,8 @@ export const quoteRequests = pgTable("quote_requests", {
   quantity: text("quantity"),
   notes: text("notes"),
 
+  // "new" until a quote is sent, then follows it: "quoted" | "accepted" | "declined" |
+  // "expired" | "cancelled" (see src/lib/quotes.ts)
   status: text("status").notNull().default("new"),
 
   createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
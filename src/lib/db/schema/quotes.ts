@@ -0,0 +1,102 @@
+// src/lib/db/schema/quotes.ts
+import { pgTable, uuid, text, integer, jsonb, timestamp, index, uniqueIndex } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
+
+import { carts } from "./cart";
+import { quoteRequests } from "./quote_requests";
+
+/** Ship-to on a quote; copied onto the cart's selected_shipping so tax follows it. */
+export type QuoteShipTo = { country: "US" | "CA"; state: string; zip?: string; city?: string };
+
+/**
+ * quotes (drizzle/0016_quotes.sql)
+ * A priced quote. Staff edit it while "draft" and send it; the customer accepts or declines
+ * through a signed link before expires_at. Acceptance creates cart_id with locked lines.
+ *
+ * status: "draft" | "sent" | "accepted" | "declined" | "expired" | "cancelled"
+ */
+export const quotes = pgTable(
+  "quotes",
+  {
+    id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+
+    // "Q-1001", what the customer quotes back to us
+    quoteNumber: text("quote_number").notNull().default(sql`('Q-' || nextval('quote_number_seq')::text)`),
+
+    status: text("status").notNull().default("draft"),
+
+    quoteRequestId: uuid("quote_request_id").references(() => quoteRequests.id, { onDelete: "set null" }),
+
+    customerEmail: text("customer_email").notNull(),
+    customerName: text("customer_name"),
+    company: text("company"),
+    // Clerk user id, when the quote is for a known account
+    userId: text("user_id"),
+
+    store: text("store").notNull().default("US"),
+    currency: text("currency").notNull().default("USD"),
+
+    shippingLabel: text("shipping_label"),
+    shippingCents: integer("shipping_cents").notNull().default(0),
+    shipTo: jsonb("ship_to").$type<QuoteShipTo | null>(),
+
+    subtotalCents: integer("subtotal_cents").notNull().default(0),
+    totalCents: integer("total_cents").notNull().default(0),
+
+    // shown to the customer
+    message: text("message"),
+    // staff only
+    internalNotes: text("internal_notes"),
+
+    expiresAt: timestamp("expires_at", { withTimezone: true }).notNull(),
+    sentAt: timestamp("sent_at", { withTimezone: true }),
+    respondedAt: timestamp("responded_at", { withTimezone: true }),
+    declineReason: text("decline_reason"),
+
+    cartId: uuid("cart_id").references(() => carts.id, { onDelete: "set null" }),
+
+    createdBy: text("created_by"),
+    updatedBy: text("updated_by"),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (t) => ({
+    quotesQuoteNumberUq: uniqueIndex("quotes_quote_number_uq").on(t.quoteNumber),
+    quotesStatusIdx: index("quotes_status_idx").on(t.status, t.createdAt),
+    quotesRequestIdx: index("quotes_request_idx").on(t.quoteRequestId),
+    quotesEmailIdx: index("quotes_email_idx").on(t.customerEmail),
+  }),
+);
+
+export type QuoteRow = typeof quotes.$inferSelect;
+
+/**
+ * quote_lines
+ * kind "sinalite": productId + optionIds as the cart would price them.
+ * kind "custom": in-house work described by `description` (productId null).
+ */
+export const quoteLines = pgTable(
+  "quote_lines",
+  {
+    id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+
+    quoteId: uuid("quote_id")
+      .notNull()
+      .references(() => quotes.id, { onDelete: "cascade" }),
+    position: integer("position").notNull().default(0),
+
+    kind: text("kind").notNull(),
+    productId: integer("product_id"),
+    optionIds: jsonb("option_ids").$type<number[]>().notNull().default(sql`'[]'::jsonb`),
+
+    description: text("description").notNull(),
+    quantity: integer("quantity").notNull(),
+    unitPriceCents: integer("unit_price_cents").notNull(),
+    lineTotalCents: integer("line_total_cents").notNull(),
+  },
+  (t) => ({
+    quoteLinesQuoteIdx: index("quote_lines_quote_idx").on(t.quoteId, t.position),
+  }),
+);
+
+export type QuoteLineRow = typeof quoteLines.$inferSelect;
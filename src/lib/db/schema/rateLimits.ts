@@ -0,0 +1,22 @@
+// src/lib/db/schema/rateLimits.ts
+import { pgTable, text, integer, timestamp, index } from "drizzle-orm/pg-core";
+
+/**
+ * rate_limit_counters
+ * Backing store for the Postgres rate limiter adapter (src/lib/rateLimitStores.ts).
+ *
+ * One row per (scope, subject, window) bucket; rows are short-lived and swept once expired.
+ */
+export const rateLimitCounters = pgTable(
+  "rate_limit_counters",
+  {
+    key: text("key").primaryKey(),
+    count: integer("count").notNull().default(0),
+    expiresAt: timestamp("expires_at", { withTimezone: true }).notNull(),
+  },
+  (t) => ({
+    rateLimitCountersExpiresIdx: index("rate_limit_counters_expires_idx").on(t.expiresAt),
+  }),
+);
+
+export type RateLimitCounterRow = typeof rateLimitCounters.$inferSelect;
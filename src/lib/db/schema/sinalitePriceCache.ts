@@ -0,0 +1,58 @@
+// src/lib/db/schema/sinalitePriceCache.ts
+import { pgTable, integer, text, numeric, jsonb, timestamp, bigint, date, index, primaryKey } from "drizzle-orm/pg-core";
+
+/**
+ * sinalite_price_cache_by_key (drizzle/0017_sinalite_price_cache.sql)
+ * Last live POST /price answer per product, store code ("en_us" | "en_ca") and option combination.
+ * `updated_at` is when the price was fetched; freshness is decided in lib/sinalite/priceCache.ts.
+ */
+export const sinalitePriceCache = pgTable(
+  "sinalite_price_cache_by_key",
+  {
+    productId: integer("product_id").notNull(),
+    storeCode: text("store_code").notNull(),
+    // sorted, de-duplicated option ids joined with "-"
+    key: text("key").notNull(),
+    optionIds: integer("option_ids").array().notNull(),
+
+    // job total in dollars
+    price: numeric("price"),
+
+    packageJson: jsonb("package_json").$type<Record<string, string> | null>(),
+    productOptionsJson: jsonb("product_options_json").$type<Record<string, string> | null>(),
+    rawJson: jsonb("raw_json"),
+
+    source: text("source").notNull().default("live_price"),
+
+    hitCount: integer("hit_count").notNull().default(0),
+    lastHitAt: timestamp("last_hit_at", { withTimezone: true }),
+
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (t) => ({
+    pk: primaryKey({ columns: [t.productId, t.storeCode, t.key] }),
+    idxSpcbkUpdatedAt: index("idx_spcbk_updated_at").on(t.updatedAt),
+    idxSpcbkProductStore: index("idx_spcbk_product_store").on(t.productId, t.storeCode),
+    idxSpcbkLastHitAt: index("idx_spcbk_last_hit_at").on(t.lastHitAt),
+  })
+);
+
+export type SinalitePriceCacheRow = typeof sinalitePriceCache.$inferSelect;
+
+/**
+ * sinalite_price_cache_stats
+ * Daily lookup counters per outcome, shown on /api/admin/pricing/cache-health.
+ */
+export const sinalitePriceCacheStats = pgTable(
+  "sinalite_price_cache_stats",
+  {
+    day: date("day").notNull(),
+    outcome: text("outcome").notNull(),
+    count: bigint("count", { mode: "number" }).notNull().default(0),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (t) => ({
+    pk: primaryKey({ columns: [t.day, t.outcome] }),
+  })
+);
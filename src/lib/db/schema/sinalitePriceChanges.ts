@@ -0,0 +1,48 @@
+// src/lib/db/schema/sinalitePriceChanges.ts
+import { pgTable, uuid, integer, text, numeric, timestamp, index, primaryKey } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
+
+/**
+ * sinalite_pricing_snapshot (drizzle/0018_sinalite_price_changes.sql)
+ * Last value the price-change job saw for each sinalite_product_pricing row.
+ */
+export const sinalitePricingSnapshot = pgTable(
+  "sinalite_pricing_snapshot",
+  {
+    productId: integer("product_id").notNull(),
+    storeCode: text("store_code").notNull(),
+    hash: text("hash").notNull(),
+    value: numeric("value").notNull(),
+    seenAt: timestamp("seen_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (t) => ({
+    pk: primaryKey({ columns: [t.productId, t.storeCode, t.hash] }),
+  })
+);
+
+/**
+ * sinalite_price_changes
+ * One row per pricing row whose ingested value moved. Values are job totals in dollars;
+ * `hash` identifies the option combination (lib/sinalite/priceCache.ts matrixHash).
+ */
+export const sinalitePriceChanges = pgTable(
+  "sinalite_price_changes",
+  {
+    id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+    productId: integer("product_id").notNull(),
+    storeCode: text("store_code").notNull(),
+    hash: text("hash").notNull(),
+    oldValue: numeric("old_value").notNull(),
+    newValue: numeric("new_value").notNull(),
+    // (new - old) / old; null when old was 0
+    changePct: numeric("change_pct"),
+    cartsRepriced: integer("carts_repriced").notNull().default(0),
+    detectedAt: timestamp("detected_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (t) => ({
+    sinalitePriceChangesDetectedIdx: index("sinalite_price_changes_detected_idx").on(t.detectedAt),
+    sinalitePriceChangesProductIdx: index("sinalite_price_changes_product_idx").on(t.productId, t.storeCode, t.hash),
+  })
+);
+
+export type SinalitePriceChangeRow = typeof sinalitePriceChanges.$inferSelect;
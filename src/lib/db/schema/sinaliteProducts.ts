@@ -7,6 +7,7 @@ import {
   text,
   jsonb,
   timestamp,
+  boolean,
   uniqueIndex,
   index,
   primaryKey,
@@ -20,6 +21,12 @@ export const sinaliteProducts = pgTable(
     name: text("name"),
     sku: text("sku"),
     rawJson: jsonb("raw_json"),
+    // Catalog sync (drizzle/0019_sinalite_catalog_sync.sql, lib/sinalite/catalogSync.ts)
+    rawHash: text("raw_hash"),
+    // false once the product is no longer listed upstream; the storefront hides it
+    active: boolean("active").notNull().default(true),
+    removedAt: timestamp("removed_at", { withTimezone: true }),
+    lastSeenAt: timestamp("last_seen_at", { withTimezone: true }),
     createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
     updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
   },
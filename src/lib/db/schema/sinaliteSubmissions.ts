@@ -0,0 +1,62 @@
+// src/lib/db/schema/sinaliteSubmissions.ts
+import { pgTable, uuid, text, integer, jsonb, timestamp, index, uniqueIndex } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
+
+import { orders } from "./orders";
+
+/**
+ * sinalite_submissions
+ * Durable job row per paid order for POST /order/new (see src/lib/sinalite/orderSubmission.ts).
+ *
+ * status:
+ * - "pending"          -> due at nextAttemptAt
+ * - "awaiting_artwork" -> re-checked each run until every line has approved artwork
+ * - "processing"       -> claimed by a worker (lockedAt); stale locks are reclaimed
+ * - "needs_review"     -> the order may already be placed upstream (drizzle/0020); an admin checks
+ *                         Sinalite, then records the Sinalite order id or resubmits
+ * - "submitted"        -> accepted by Sinalite (sinaliteOrderId set)
+ * - "failed"           -> non-retryable error or attempts exhausted; admin can resubmit
+ */
+export const sinaliteSubmissions = pgTable(
+  "sinalite_submissions",
+  {
+    id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+
+    orderId: uuid("order_id")
+      .notNull()
+      .references(() => orders.id, { onDelete: "cascade" }),
+
+    status: text("status").notNull().default("pending"),
+
+    attempts: integer("attempts").notNull().default(0),
+    maxAttempts: integer("max_attempts").notNull().default(8),
+
+    nextAttemptAt: timestamp("next_attempt_at", { withTimezone: true }).notNull().defaultNow(),
+    lockedAt: timestamp("locked_at", { withTimezone: true }),
+    // Set right before POST /order/new and cleared once the outcome is stored; still set on a
+    // reclaimed row means the request may have reached Sinalite
+    sendStartedAt: timestamp("send_started_at", { withTimezone: true }),
+
+    lastError: text("last_error"),
+    lastErrorStatus: integer("last_error_status"),
+
+    // Ship-to captured at payment time (Stripe shipping/customer details); null -> orders.shippingAddressId
+    shipTo: jsonb("ship_to").$type<Record<string, unknown> | null>(),
+
+    // Last payload sent (for support / replays)
+    payload: jsonb("payload").$type<Record<string, unknown> | null>(),
+
+    sinaliteOrderId: text("sinalite_order_id"),
+    submittedAt: timestamp("submitted_at", { withTimezone: true }),
+
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (t) => ({
+    sinaliteSubmissionsOrderUniq: uniqueIndex("sinalite_submissions_order_uniq").on(t.orderId),
+    sinaliteSubmissionsDueIdx: index("sinalite_submissions_due_idx").on(t.status, t.nextAttemptAt),
+  }),
+);
+
+export type SinaliteSubmissionRow = typeof sinaliteSubmissions.$inferSelect;
+export type SinaliteSubmissionInsert = typeof sinaliteSubmissions.$inferInsert;
@@ -0,0 +1,46 @@
+// src/lib/db/schema/stripeEvents.ts
+import { pgTable, uuid, text, integer, boolean, jsonb, timestamp, index, uniqueIndex } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
+
+/**
+ * stripe_events
+ * Ledger of every verified Stripe webhook delivery (written by src/lib/stripeEvents.ts).
+ * The unique stripeEventId short-circuits duplicate deliveries; payload is kept for replay.
+ *
+ * status:
+ * - "processing" -> claimed by a delivery or replay (reclaimable once stale)
+ * - "processed"  -> handler finished; result holds the response body
+ * - "ignored"    -> event type we don't handle
+ * - "failed"     -> handler threw; error holds the message (Stripe retries, admins can replay)
+ */
+export const stripeEvents = pgTable(
+  "stripe_events",
+  {
+    id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+
+    stripeEventId: text("stripe_event_id").notNull(),
+    type: text("type").notNull(),
+    livemode: boolean("livemode").notNull().default(false),
+
+    // sha256 of the raw body as delivered
+    payloadHash: text("payload_hash").notNull(),
+    payload: jsonb("payload").notNull(),
+
+    status: text("status").notNull().default("processing"),
+    attempts: integer("attempts").notNull().default(1),
+
+    result: jsonb("result"),
+    error: text("error"),
+
+    receivedAt: timestamp("received_at", { withTimezone: true }).notNull().defaultNow(),
+    processedAt: timestamp("processed_at", { withTimezone: true }),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (t) => ({
+    stripeEventsEventUniq: uniqueIndex("stripe_events_event_uniq").on(t.stripeEventId),
+    stripeEventsStatusIdx: index("stripe_events_status_idx").on(t.status, t.receivedAt),
+  }),
+);
+
+export type StripeEventRow = typeof stripeEvents.$inferSelect;
+export type StripeEventInsert = typeof stripeEvents.$inferInsert;
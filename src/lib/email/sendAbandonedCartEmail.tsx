@@ -0,0 +1,52 @@
+import "server-only";
+
+import React from "react";
+import AbandonedCartEmail, { type AbandonedCartEmailItem } from "@/emails/AbandonedCartEmail";
+import { getResendClient, getInvoicesFromEmail, getSupportEmail, getSupportUrl } from "@/lib/email/resend";
+
+function safeText(v: unknown): string {
+  return String(v ?? "").trim();
+}
+
+export async function sendAbandonedCartEmail(args: {
+  to: string;
+  name: string;
+  items: AbandonedCartEmailItem[];
+  subtotal: string;
+  resumeUrl: string;
+  unsubscribeUrl: string;
+}) {
+  const to = safeText(args.to);
+  if (!to) throw new Error("sendAbandonedCartEmail: missing 'to'");
+
+  const resend = getResendClient();
+
+  const { data, error } = await resend.emails.send({
+    from: getInvoicesFromEmail(),
+    to,
+    subject: "Your cart is saved — ready when you are",
+    // RFC 8058 one-click unsubscribe (the unsubscribe route accepts POST)
+    headers: {
+      "List-Unsubscribe": `<${args.unsubscribeUrl}>`,
+      "List-Unsubscribe-Post": "List-Unsubscribe=One-Click",
+    },
+    react: (
+      <AbandonedCartEmail
+        name={args.name}
+        items={args.items}
+        subtotal={args.subtotal}
+        resumeUrl={args.resumeUrl}
+        unsubscribeUrl={args.unsubscribeUrl}
+        supportEmail={getSupportEmail()}
+        supportUrl={getSupportUrl()}
+      />
+    ),
+  });
+
+  if (error) {
+    const msg = (error as any)?.message ? String((error as any).message) : JSON.stringify(error);
+    throw new Error(`Resend send failed: ${msg}`);
+  }
+
+  return { ok: true, id: data?.id || null };
+}
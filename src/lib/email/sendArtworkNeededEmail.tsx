@@ -1,7 +1,7 @@
 import "server-only";
 
 import React from "react";
-import ArtworkNeededEmail from "@/emails/ArtworkNeededEmail";
+import ArtworkNeededEmail, { type ArtworkNeededLineItem } from "@/emails/ArtworkNeededEmail";
 import {
   getResendClient,
   getInvoicesFromEmail,
@@ -21,18 +21,25 @@ export async function sendArtworkNeededEmail(args: {
   name: string;
   orderId: string | number;
   uploadUrl: string;
+  lines?: ArtworkNeededLineItem[];
+  reminderDay?: number;
 }) {
   const resend = getResendClient();
 
   const { data, error } = await resend.emails.send({
     from: getInvoicesFromEmail(),
     to: args.to,
-    subject: `Artwork needed — order #${args.orderId}`,
+    subject:
+      (args.reminderDay ?? 1) > 1
+        ? `Reminder: artwork still needed — order #${args.orderId}`
+        : `Artwork needed — order #${args.orderId}`,
     react: (
       <ArtworkNeededEmail
         name={args.name}
         orderId={args.orderId}
         uploadUrl={args.uploadUrl}
+        lines={args.lines}
+        reminderDay={args.reminderDay}
         logoUrl={logoUrl()}
         supportEmail={getSupportEmail()}
         supportPhone={getSupportPhone()}
@@ -0,0 +1,68 @@
+import "server-only";
+
+import React from "react";
+import ArtworkProofEmail, { type ArtworkProofEmailKind } from "@/emails/ArtworkProofEmail";
+import { getResendClient, getInvoicesFromEmail, getSupportEmail, getSupportUrl } from "@/lib/email/resend";
+
+function safeText(v: unknown): string {
+  return String(v ?? "").trim();
+}
+
+function siteBaseUrl(): string {
+  const raw = process.env.NEXT_PUBLIC_SITE_URL || process.env.SITE_URL || "https://adapnow.com";
+  return safeText(raw).replace(/\/+$/, "");
+}
+
+const SUBJECTS: Record<ArtworkProofEmailKind, string> = {
+  approved: "Artwork approved",
+  rejected: "Action needed: new artwork file",
+  proof_sent: "Your proof is ready to review",
+  changes_requested: "We received your proof changes",
+};
+
+export async function sendArtworkProofEmail(args: {
+  kind: ArtworkProofEmailKind;
+  to: string;
+  name: string;
+  orderId: string;
+  orderNumber?: string | null;
+  fileName: string;
+  version: number;
+  message?: string | null;
+  proofUrl?: string | null;
+}) {
+  const to = safeText(args.to);
+  if (!to) throw new Error("sendArtworkProofEmail: missing 'to'");
+
+  const displayId = safeText(args.orderNumber) || String(args.orderId);
+
+  const resend = getResendClient();
+  const from = getInvoicesFromEmail();
+
+  const { data, error } = await resend.emails.send({
+    from,
+    to,
+    subject: `${SUBJECTS[args.kind]} — #${displayId}`,
+    react: (
+      <ArtworkProofEmail
+        kind={args.kind}
+        name={args.name}
+        orderId={displayId}
+        fileName={args.fileName}
+        version={args.version}
+        message={args.message}
+        proofUrl={args.proofUrl}
+        orderUrl={`${siteBaseUrl()}/account/orders/${encodeURIComponent(args.orderId)}`}
+        supportEmail={getSupportEmail()}
+        supportUrl={getSupportUrl()}
+      />
+    ),
+  });
+
+  if (error) {
+    const msg = (error as any)?.message ? String((error as any).message) : JSON.stringify(error);
+    throw new Error(`Resend send failed: ${msg}`);
+  }
+
+  return { ok: true, id: data?.id || null };
+}
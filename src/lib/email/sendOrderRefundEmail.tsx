@@ -0,0 +1,72 @@
+import "server-only";
+
+import React from "react";
+import OrderRefundEmail from "@/emails/OrderRefundEmail";
+import { getResendClient, getInvoicesFromEmail, getSupportEmail, getSupportUrl } from "@/lib/email/resend";
+
+function money(cents: number, currency: "USD" | "CAD" = "USD"): string {
+  const v = Number(cents || 0) / 100;
+  return new Intl.NumberFormat("en-US", { style: "currency", currency }).format(v);
+}
+
+function safeText(v: unknown): string {
+  return String(v ?? "").trim();
+}
+
+function siteBaseUrl(): string {
+  const raw = process.env.NEXT_PUBLIC_SITE_URL || process.env.SITE_URL || "https://adapnow.com";
+  return safeText(raw).replace(/\/+$/, "");
+}
+
+export async function sendOrderRefundEmail(args: {
+  to: string;
+  name: string;
+  orderId: string | number;
+  orderNumber?: string | null;
+
+  currency?: "USD" | "CAD";
+  refundCents: number;
+  totalRefundedCents: number;
+  orderTotalCents: number;
+
+  loyaltyPointsRemoved?: number;
+}) {
+  const to = safeText(args.to);
+  if (!to) throw new Error("sendOrderRefundEmail: missing 'to'");
+
+  const currency: "USD" | "CAD" = args.currency === "CAD" ? "CAD" : "USD";
+  const displayId = safeText(args.orderNumber) || String(args.orderId);
+  const isFullRefund = args.totalRefundedCents >= args.orderTotalCents;
+
+  const resend = getResendClient();
+  const from = getInvoicesFromEmail();
+
+  const subject = `${isFullRefund ? "Refund issued" : "Partial refund issued"} — #${displayId}`;
+
+  const { data, error } = await resend.emails.send({
+    from,
+    to,
+    subject,
+    react: (
+      <OrderRefundEmail
+        name={args.name}
+        orderId={displayId}
+        refundAmount={money(args.refundCents, currency)}
+        totalRefunded={money(args.totalRefundedCents, currency)}
+        orderTotal={money(args.orderTotalCents, currency)}
+        isFullRefund={isFullRefund}
+        loyaltyPointsRemoved={args.loyaltyPointsRemoved || undefined}
+        orderUrl={`${siteBaseUrl()}/account/orders/${encodeURIComponent(String(args.orderId))}`}
+        supportEmail={getSupportEmail()}
+        supportUrl={getSupportUrl()}
+      />
+    ),
+  });
+
+  if (error) {
+    const msg = (error as any)?.message ? String((error as any).message) : JSON.stringify(error);
+    throw new Error(`Resend send failed: ${msg}`);
+  }
+
+  return { ok: true, id: data?.id || null };
+}
@@ -0,0 +1,63 @@
+import "server-only";
+
+import React from "react";
+import QuoteEmail, { type QuoteEmailLine } from "@/emails/QuoteEmail";
+import { getResendClient, getInvoicesFromEmail, getSupportEmail, getSupportUrl } from "@/lib/email/resend";
+
+function safeText(v: unknown): string {
+  return String(v ?? "").trim();
+}
+
+export async function sendQuoteEmail(args: {
+  to: string;
+  name: string;
+  quoteNumber: string;
+  currency: string;
+  lines: QuoteEmailLine[];
+  shippingLabel?: string | null;
+  shippingCents: number;
+  totalCents: number;
+  expiresAt: Date;
+  message?: string | null;
+  viewUrl: string;
+  /** Quote PDF to attach (lib/pdf/quotePdf.ts) */
+  pdf?: { filename: string; content: Buffer } | null;
+}) {
+  const to = safeText(args.to);
+  if (!to) throw new Error("sendQuoteEmail: missing 'to'");
+
+  const resend = getResendClient();
+  const from = getInvoicesFromEmail();
+  const replyTo = safeText(getSupportEmail()) || undefined;
+
+  const { data, error } = await resend.emails.send({
+    from,
+    to,
+    replyTo,
+    subject: `Your quote ${args.quoteNumber} is ready`,
+    ...(args.pdf ? { attachments: [{ filename: args.pdf.filename, content: args.pdf.content }] } : {}),
+    react: (
+      <QuoteEmail
+        name={args.name}
+        quoteNumber={args.quoteNumber}
+        currency={args.currency}
+        lines={args.lines}
+        shippingLabel={args.shippingLabel}
+        shippingCents={args.shippingCents}
+        totalCents={args.totalCents}
+        expiresOn={args.expiresAt.toLocaleDateString("en-US", { dateStyle: "long" })}
+        message={args.message}
+        viewUrl={args.viewUrl}
+        supportEmail={getSupportEmail()}
+        supportUrl={getSupportUrl()}
+      />
+    ),
+  });
+
+  if (error) {
+    const msg = (error as any)?.message ? String((error as any).message) : JSON.stringify(error);
+    throw new Error(`Resend send failed: ${msg}`);
+  }
+
+  return { ok: true, id: data?.id || null };
+}
@@ -8,6 +8,10 @@ import { cartLines } from "@/lib/db/schema/cartLines";
 import { cartCredits } from "@/lib/db/schema/cartCredits";
 import { orders } from "@/lib/db/schema/orders";
 import { getCartCreditsCents } from "@/lib/cartCredits";
+import { recordPromoRedemption } from "@/lib/promoCodes";
+import { recordOrderCreated } from "@/lib/orderLifecycle";
+import { enqueueSinaliteSubmission } from "@/lib/sinalite/orderSubmission";
+import { calculateTaxCents, taxLocationFromSelectedShipping } from "@/lib/tax";
 
 function clean(v: unknown): string {
   return String(v ?? "").trim();
@@ -97,8 +101,14 @@ export async function finalizeFreeOrderBySid(args: {
   const subtotalCents = await computeCartSubtotalCents(cart.id);
   const creditsCents = await getCartCreditsCents(cart.id);
 
-  // Tax handled elsewhere; conservative here
-  const taxCents = 0;
+  const currency = normalizeCurrency(cart.currency);
+  const { taxCents } = calculateTaxCents({
+    currency,
+    subtotalCents,
+    shippingCents: shipCents,
+    creditsCents,
+    location: taxLocationFromSelectedShipping(cart.selectedShipping),
+  });
 
   const totalCents = Math.max(0, subtotalCents + shipCents + taxCents - creditsCents);
 
@@ -110,7 +120,6 @@ export async function finalizeFreeOrderBySid(args: {
   if (totalCents > 0) return null;
 
   const safeUserId = clean(args.userId) || clean(cart.userId) || clean(cart.sid);
-  const currency = normalizeCurrency(cart.currency);
 
   const orderId = await db.transaction(async (tx) => {
     // Idempotency: if an order already exists for this cart, reuse it
@@ -150,13 +159,30 @@ export async function finalizeFreeOrderBySid(args: {
       })
       .returning({ id: orders.id });
 
+    await recordOrderCreated(tx, {
+      orderId: String(order.id),
+      status: "paid",
+      actor: `customer:${safeUserId}`,
+      reason: "Free order (covered by credits)",
+    });
+
     await tx
       .update(carts)
       .set({ status: "closed", userId: safeUserId })
       .where(eq(carts.id, cart.id));
 
+    await recordPromoRedemption(tx, {
+      cartId: cart.id,
+      orderId: String(order.id),
+      customerId: safeUserId,
+      currency,
+      onLimit: "reject",
+    });
+
     await tx.delete(cartCredits).where(eq(cartCredits.cartId, cart.id));
 
+    await enqueueSinaliteSubmission(tx, { orderId: String(order.id) });
+
     return String(order.id);
   });
 
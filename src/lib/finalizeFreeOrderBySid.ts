@@ -7,6 +7,10 @@ import { carts } from "@/lib/db/schema/cart";
 import { cartCredits } from "@/lib/db/schema/cartCredits";
 import { orders } from "@/lib/db/schema/orders";
 import { getCartCreditsCents } from "@/lib/cartCredits";
+import { recordPromoRedemption } from "@/lib/promoCodes";
+import { recordOrderCreated } from "@/lib/orderLifecycle";
+import { enqueueSinaliteSubmission } from "@/lib/sinalite/orderSubmission";
+import { calculateTaxCents, taxLocationFromSelectedShipping } from "@/lib/tax";
 import { cartLines } from "@/lib/db/schema/cartLines";
 
 type Db = typeof db;
@@ -109,8 +113,14 @@ export async function finalizeFreeOrderBySid(args: {
   const subtotalCents = await computeCartSubtotalCents(cart.id);
   const creditsCents = await getCartCreditsCents(cart.id);
 
-  // Tax is handled elsewhere; stay conservative here.
-  const taxCents = 0;
+  const currency = normalizeCurrency(cart.currency);
+  const { taxCents } = calculateTaxCents({
+    currency,
+    subtotalCents,
+    shippingCents: shipCents,
+    creditsCents,
+    location: taxLocationFromSelectedShipping(cart.selectedShipping),
+  });
 
   const totalCents = Math.max(0, subtotalCents + shipCents + taxCents - creditsCents);
 
@@ -123,8 +133,6 @@ export async function finalizeFreeOrderBySid(args: {
   if (totalCents > 0) return null;
 
   const safeUserId = clean(args.userId) || clean(cart.userId) || clean(cart.sid);
-  const currency = normalizeCurrency(cart.currency);
-
   const orderId = await db.transaction(async (tx) => {
     // Idempotency: if an order already exists for this cart, reuse it
     const existing = await tx
@@ -140,7 +148,7 @@ export async function finalizeFreeOrderBySid(args: {
       .values({
         userId: safeUserId,
         cartId: cart.id,
-        status: "placed",
+        status: "paid",
         paymentStatus: "paid",
         provider: "free",
         providerId: null,
@@ -157,15 +165,33 @@ export async function finalizeFreeOrderBySid(args: {
       })
       .returning({ id: orders.id });
 
+    await recordOrderCreated(tx, {
+      orderId: String(order.id),
+      status: "paid",
+      actor: `customer:${safeUserId}`,
+      reason: "Free order (covered by credits)",
+    });
+
     // Close cart and claim it
     await tx
       .update(carts)
       .set({ status: "closed", userId: safeUserId, updatedAt: sql`now()` })
       .where(eq(carts.id, cart.id));
 
+    // Count promo usage before the credit rows go away
+    await recordPromoRedemption(tx, {
+      cartId: cart.id,
+      orderId: String(order.id),
+      customerId: safeUserId,
+      currency,
+      onLimit: "reject",
+    });
+
     // Consume credits
     await tx.delete(cartCredits).where(eq(cartCredits.cartId, cart.id));
 
+    await enqueueSinaliteSubmission(tx, { orderId: String(order.id) });
+
     return String(order.id);
   });
 
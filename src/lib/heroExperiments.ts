@@ -0,0 +1,304 @@
+// src/lib/heroExperiments.ts
+import "server-only";
+
+import crypto from "node:crypto";
+import { sql, type SQL } from "drizzle-orm";
+import { z } from "zod";
+
+import { db } from "@/lib/db";
+import { heroSlides } from "@/lib/db/schema/heroSlides";
+import type { HeroSlide } from "@/lib/heroSlides.types";
+
+/**
+ * Hero banner A/B tests.
+ *
+ * A slide under test carries hero_slides.variants: [{ key, weight, ...overrides }]. Each
+ * visitor gets one variant per slide, picked from a hash of (sid, slide slug), so the same
+ * session always sees the same creative and assignment needs no storage.
+ *
+ * Hero impressions/clicks are hero_impression/hero_click rows in analytics_events with the
+ * variant shown in props. Add-to-carts and
+ * paid orders are attributed at report time to the session's last hero click before them
+ * (within the attribution window), matched through carts.sid.
+ */
+
+export const HeroVariantSchema = z
+  .object({
+    key: z
+      .string()
+      .trim()
+      .regex(/^[a-z0-9][a-z0-9_-]{0,31}$/, "variant key must be lowercase letters, digits, _ or -"),
+    weight: z.number().int().min(1).max(1000).default(1),
+    title: z.string().trim().min(1).max(200).optional(),
+    description: z.string().trim().max(500).optional(),
+    imageUrl: z.string().trim().min(1).max(2000).optional(),
+    alt: z.string().trim().min(1).max(300).optional(),
+    ctaText: z.string().trim().max(60).optional(),
+    ctaHref: z
+      .string()
+      .trim()
+      .max(2000)
+      .refine((v) => /^\/(?!\/)/.test(v) || /^https:\/\//i.test(v), "ctaHref must be a site path or https URL")
+      .optional(),
+    badge: z.string().trim().max(40).optional(),
+    focal: z.string().trim().max(32).optional(),
+  })
+  .strict();
+
+export type HeroVariant = z.infer<typeof HeroVariantSchema>;
+
+export const HeroVariantsSchema = z
+  .array(HeroVariantSchema)
+  .max(6)
+  .refine((vs) => vs.length !== 1, "a test needs at least two variants (or none)")
+  .refine((vs) => new Set(vs.map((v) => v.key)).size === vs.length, "variant keys must be unique");
+
+/** Stored variants, skipping anything that no longer validates. */
+export function parseStoredVariants(raw: unknown): HeroVariant[] {
+  if (!Array.isArray(raw)) return [];
+  const out: HeroVariant[] = [];
+  for (const v of raw) {
+    const parsed = HeroVariantSchema.safeParse(v);
+    if (parsed.success) out.push(parsed.data);
+  }
+  return out.length >= 2 ? out : [];
+}
+
+/* ------------------------------- assignment ------------------------------- */
+
+/** Stable value in [0, 1) for a string. */
+export function hashUnit(input: string): number {
+  const h = crypto.createHash("sha256").update(input).digest();
+  return h.readUInt32BE(0) / 0x1_0000_0000;
+}
+
+/**
+ * Variant for a session. Without a sid (cookies blocked) everyone gets the first variant,
+ * which is the control.
+ */
+export function assignHeroVariant(sid: string | null | undefined, slug: string, variants: HeroVariant[]): HeroVariant | null {
+  if (!variants.length) return null;
+  if (!sid) return variants[0];
+
+  const total = variants.reduce((n, v) => n + v.weight, 0);
+  let point = hashUnit(`${slug}:${sid}`) * total;
+  for (const v of variants) {
+    point -= v.weight;
+    if (point < 0) return v;
+  }
+  return variants[variants.length - 1];
+}
+
+export function applyHeroVariant(slide: HeroSlide, variant: HeroVariant | null): HeroSlide {
+  if (!variant) return slide;
+  const { key, weight: _weight, ...overrides } = variant;
+  return { ...slide, ...overrides, variant: key };
+}
+
+/* ------------------------------ significance ------------------------------ */
+
+// Abramowitz & Stegun 7.1.26 (|error| < 1.5e-7)
+function erf(x: number): number {
+  const sign = x < 0 ? -1 : 1;
+  const t = 1 / (1 + 0.3275911 * Math.abs(x));
+  const y =
+    1 -
+    ((((1.061405429 * t - 1.453152027) * t + 1.421413741) * t - 0.284496736) * t + 0.254829592) *
+      t *
+      Math.exp(-x * x);
+  return sign * y;
+}
+
+export type SignificanceResult = { z: number; pValue: number; significant: boolean };
+
+/** Below this many sessions per arm the normal approximation isn't worth reporting. */
+export const MIN_SESSIONS_FOR_SIGNIFICANCE = 30;
+
+/**
+ * Two-sided two-proportion z-test (pooled). null when either arm is too small or the
+ * pooled rate is 0 or 1.
+ */
+export function twoProportionTest(
+  successesA: number,
+  totalA: number,
+  successesB: number,
+  totalB: number,
+  alpha = 0.05,
+): SignificanceResult | null {
+  if (totalA < MIN_SESSIONS_FOR_SIGNIFICANCE || totalB < MIN_SESSIONS_FOR_SIGNIFICANCE) return null;
+
+  const pooled = (successesA + successesB) / (totalA + totalB);
+  if (pooled <= 0 || pooled >= 1) return null;
+
+  const se = Math.sqrt(pooled * (1 - pooled) * (1 / totalA + 1 / totalB));
+  const z = (successesB / totalB - successesA / totalA) / se;
+  const pValue = Math.min(1, Math.max(0, 1 - erf(Math.abs(z) / Math.SQRT2)));
+  return { z, pValue, significant: pValue < alpha };
+}
+
+/* --------------------------------- report --------------------------------- */
+
+export type HeroVariantStats = {
+  slideId: string;
+  /** null when the slide wasn't under test */
+  variant: string | null;
+  impressions: number;
+  /** distinct sessions that saw the slide */
+  viewers: number;
+  clicks: number;
+  /** distinct sessions that clicked */
+  clickers: number;
+  /** sessions with an attributed add-to-cart */
+  adders: number;
+  orders: number;
+  revenueCents: number;
+  ctr: number;
+  addToCartRate: number;
+  conversionRate: number;
+  /** CTR against the slide's control variant (null for the control itself) */
+  significance: (SignificanceResult & { control: string; lift: number | null }) | null;
+};
+
+export type HeroExperimentReport = {
+  from: string;
+  to: string;
+  attributionDays: number;
+  variants: HeroVariantStats[];
+};
+
+const rate = (n: number, d: number) => (d > 0 ? n / d : 0);
+
+type RawStats = Omit<HeroVariantStats, "ctr" | "addToCartRate" | "conversionRate" | "significance">;
+
+/**
+ * Rates plus a significance indicator for each variant against its slide's control: the first
+ * configured variant, else the one with the most viewers.
+ */
+export function summarizeVariants(rows: RawStats[], controls: Map<string, string> = new Map()): HeroVariantStats[] {
+  const bySlide = new Map<string, RawStats[]>();
+  for (const r of rows) bySlide.set(r.slideId, [...(bySlide.get(r.slideId) ?? []), r]);
+
+  const out: HeroVariantStats[] = [];
+  for (const [slideId, arms] of bySlide) {
+    const tested = arms.filter((a) => a.variant != null);
+    const control =
+      tested.find((a) => a.variant === controls.get(slideId)) ??
+      [...tested].sort((a, b) => b.viewers - a.viewers)[0] ??
+      null;
+
+    for (const a of arms) {
+      const base = {
+        ...a,
+        ctr: rate(a.clickers, a.viewers),
+        addToCartRate: rate(a.adders, a.viewers),
+        conversionRate: rate(a.orders, a.viewers),
+      };
+
+      let significance: HeroVariantStats["significance"] = null;
+      if (control && a.variant != null && a !== control) {
+        const test = twoProportionTest(control.clickers, control.viewers, a.clickers, a.viewers);
+        const controlCtr = rate(control.clickers, control.viewers);
+        if (test) {
+          significance = {
+            ...test,
+            control: control.variant!,
+            lift: controlCtr > 0 ? base.ctr / controlCtr - 1 : null,
+          };
+        }
+      }
+      out.push({ ...base, significance });
+    }
+  }
+
+  return out.sort((a, b) => a.slideId.localeCompare(b.slideId) || String(a.variant).localeCompare(String(b.variant)));
+}
+
+export async function heroExperimentReport(input: {
+  from: Date;
+  to: Date;
+  attributionDays?: number;
+}): Promise<HeroExperimentReport> {
+  const attributionDays = Math.max(1, Math.min(90, Math.floor(input.attributionDays ?? 7)));
+  const from = input.from.toISOString();
+  const to = input.to.toISOString();
+
+  // Last hero click by the same session (or signed-in user) within the window before `at`
+  const lastClick = (sidExpr: SQL, userExpr: SQL, at: SQL) => sql`
+    select e.props->>'slideId' as slide_id, e.props->>'variant' as variant, e.sid
+    from analytics_events e
+    where e.name = 'hero_click'
+      and (e.sid = ${sidExpr} or (${userExpr} is not null and e.user_id = ${userExpr}))
+      and e.occurred_at <= ${at}
+      and e.occurred_at > ${at} - make_interval(days => ${attributionDays}::int)
+    order by e.occurred_at desc
+    limit 1`;
+
+  const res = await db.execute(sql`
+    with exposure as (
+      select
+        props->>'slideId' as slide_id,
+        props->>'variant' as variant,
+        count(*) filter (where name = 'hero_impression') as impressions,
+        count(distinct sid) filter (where name = 'hero_impression') as viewers,
+        count(*) filter (where name = 'hero_click') as clicks,
+        count(distinct sid) filter (where name = 'hero_click') as clickers
+      from analytics_events
+      where occurred_at >= ${from}::timestamptz and occurred_at < ${to}::timestamptz
+        and name in ('hero_impression', 'hero_click')
+      group by 1, 2
+    ),
+    adds as (
+      select k.slide_id, k.variant, count(distinct c.sid) as adders
+      from cart_lines cl
+      join carts c on c.id = cl.cart_id
+      join lateral (${lastClick(sql`c.sid`, sql`c.user_id`, sql`cl.created_at`)}) k on true
+      where cl.created_at >= ${from}::timestamptz and cl.created_at < ${to}::timestamptz
+      group by k.slide_id, k.variant
+    ),
+    paid as (
+      select k.slide_id, k.variant, count(*) as orders, coalesce(sum(o.total_cents), 0) as revenue_cents
+      from orders o
+      join carts c on c.id = o.cart_id
+      join lateral (${lastClick(sql`c.sid`, sql`o.user_id`, sql`coalesce(o.placed_at, o.created_at)`)}) k on true
+      where o.status in ('paid', 'fulfilled')
+        and coalesce(o.placed_at, o.created_at) >= ${from}::timestamptz
+        and coalesce(o.placed_at, o.created_at) < ${to}::timestamptz
+      group by k.slide_id, k.variant
+    )
+    select
+      x.slide_id,
+      x.variant,
+      x.impressions::int as impressions,
+      x.viewers::int as viewers,
+      x.clicks::int as clicks,
+      x.clickers::int as clickers,
+      coalesce(a.adders, 0)::int as adders,
+      coalesce(p.orders, 0)::int as orders,
+      coalesce(p.revenue_cents, 0)::bigint as revenue_cents
+    from exposure x
+    left join adds a on a.slide_id = x.slide_id and a.variant is not distinct from x.variant
+    left join paid p on p.slide_id = x.slide_id and p.variant is not distinct from x.variant
+  `);
+
+  const rows: RawStats[] = ((res as any).rows ?? []).map((r: any) => ({
+    slideId: String(r.slide_id),
+    variant: r.variant ?? null,
+    impressions: Number(r.impressions ?? 0),
+    viewers: Number(r.viewers ?? 0),
+    clicks: Number(r.clicks ?? 0),
+    clickers: Number(r.clickers ?? 0),
+    adders: Number(r.adders ?? 0),
+    orders: Number(r.orders ?? 0),
+    revenueCents: Number(r.revenue_cents ?? 0),
+  }));
+
+  // Control = first configured variant of each slide
+  const controls = new Map<string, string>();
+  const slides = await db.select({ slug: heroSlides.slug, variants: heroSlides.variants }).from(heroSlides);
+  for (const s of slides) {
+    const first = parseStoredVariants(s.variants)[0];
+    if (first) controls.set(s.slug, first.key);
+  }
+
+  return { from, to, attributionDays, variants: summarizeVariants(rows, controls) };
+}
@@ -0,0 +1,375 @@
+// src/lib/heroSlides.server.ts
+import "server-only";
+
+import { and, asc, desc, eq, gt, isNull, or, type SQL } from "drizzle-orm";
+import { z } from "zod";
+
+import { db } from "@/lib/db";
+import { heroSlides, type HeroSlideRow } from "@/lib/db/schema/heroSlides";
+import { ApiError } from "@/lib/apiError";
+import { recordAdminAudit } from "@/lib/adminAudit";
+import { getHeroSlides } from "@/lib/heroSlides";
+import { applyHeroVariant, assignHeroVariant, HeroVariantsSchema, parseStoredVariants } from "@/lib/heroExperiments";
+import type { HeroSlide } from "@/lib/heroSlides.types";
+import type { Store } from "@/lib/sinaliteStore";
+
+/**
+ * DB-backed homepage hero slides (hero_slides table).
+ *
+ * A slide is live when published and now is inside [startsAt, endsAt); live slides matching the
+ * visitor's audience (store + signed-in/guest) are shown highest priority first.
+ *
+ * Published rows are cached in memory until the sooner of HERO_SLIDES_CACHE_TTL_MS (default 60s)
+ * and the next start/end time among them, so scheduled slides appear and disappear on time
+ * without a query per request. Admin writes invalidate the cache on that instance.
+ *
+ * While the table has no rows at all (or can't be read) the hard-coded slides in
+ * heroSlides.ts are served, so the homepage doesn't go blank before marketing moves over.
+ */
+
+export const HERO_SLIDE_STATUSES = ["draft", "published"] as const;
+export type HeroSlideStatus = (typeof HERO_SLIDE_STATUSES)[number];
+
+export const HERO_AUDIENCE_STORES = ["all", "US", "CA"] as const;
+export const HERO_AUDIENCE_AUTH = ["all", "signed_in", "guest"] as const;
+
+export type HeroAudience = { store: Store; signedIn: boolean };
+
+/** Audience plus the session id used to pick A/B variants. */
+export type HeroVisitor = HeroAudience & { sid?: string | null };
+
+/* ------------------------------ selection ------------------------------ */
+
+type ScheduledSlide = Pick<
+  HeroSlideRow,
+  "status" | "startsAt" | "endsAt" | "audienceStore" | "audienceAuth" | "priority" | "createdAt"
+>;
+
+export function isSlideLive(row: ScheduledSlide, now: Date): boolean {
+  if (row.status !== "published") return false;
+  if (row.startsAt && row.startsAt.getTime() > now.getTime()) return false;
+  if (row.endsAt && row.endsAt.getTime() <= now.getTime()) return false;
+  return true;
+}
+
+export function matchesAudience(row: ScheduledSlide, audience: HeroAudience): boolean {
+  if (row.audienceStore !== "all" && row.audienceStore !== audience.store) return false;
+  if (row.audienceAuth === "signed_in") return audience.signedIn;
+  if (row.audienceAuth === "guest") return !audience.signedIn;
+  return true;
+}
+
+/** Earliest start/end time after `now`: the point where the live set changes. */
+export function nextScheduleBoundary(rows: ScheduledSlide[], now: Date): Date | null {
+  let next: number | null = null;
+  for (const r of rows) {
+    for (const d of [r.startsAt, r.endsAt]) {
+      const t = d?.getTime();
+      if (t != null && t > now.getTime() && (next == null || t < next)) next = t;
+    }
+  }
+  return next == null ? null : new Date(next);
+}
+
+export function toHeroSlide(row: HeroSlideRow): HeroSlide {
+  return {
+    id: row.slug,
+    imageUrl: row.imageUrl,
+    alt: row.alt,
+    title: row.title,
+    ...(row.description ? { description: row.description } : {}),
+    ...(row.ctaText ? { ctaText: row.ctaText } : {}),
+    ...(row.ctaHref ? { ctaHref: row.ctaHref } : {}),
+    ...(row.badge ? { badge: row.badge } : {}),
+    ...(row.fit === "cover" || row.fit === "contain" ? { fit: row.fit } : {}),
+    ...(row.focal ? { focal: row.focal } : {}),
+    ...(row.blurDataUrl ? { blurDataURL: row.blurDataUrl } : {}),
+  };
+}
+
+/** Live slides for an audience, highest priority first (oldest first on ties). */
+export function selectHeroSlides(rows: HeroSlideRow[], audience: HeroAudience, now: Date): HeroSlide[] {
+  return rows
+    .filter((r) => isSlideLive(r, now) && matchesAudience(r, audience))
+    .sort((a, b) => b.priority - a.priority || a.createdAt.getTime() - b.createdAt.getTime())
+    .map(toHeroSlide);
+}
+
+/* -------------------------------- cache -------------------------------- */
+
+type CacheState = {
+  rows: HeroSlideRow[];
+  /** false when hero_slides is empty (static slides are served) */
+  managed: boolean;
+  expiresAt: number;
+  ok: boolean;
+};
+
+let _cache: CacheState | null = null;
+let _inflight: Promise<CacheState> | null = null;
+
+function ttlMs(): number {
+  const n = Number(process.env.HERO_SLIDES_CACHE_TTL_MS);
+  return Number.isFinite(n) && n >= 0 ? n : 60_000;
+}
+
+/** When the DB is unavailable, retry sooner than the normal TTL. */
+const FAILURE_TTL_MS = 10_000;
+
+async function loadRows(): Promise<CacheState> {
+  const now = new Date();
+  try {
+    const rows = await db
+      .select()
+      .from(heroSlides)
+      .where(and(eq(heroSlides.status, "published"), or(isNull(heroSlides.endsAt), gt(heroSlides.endsAt, now))));
+
+    const managed = rows.length > 0 || (await db.select({ id: heroSlides.id }).from(heroSlides).limit(1)).length > 0;
+
+    const boundary = nextScheduleBoundary(rows, now)?.getTime() ?? Infinity;
+    return { rows, managed, expiresAt: Math.min(now.getTime() + ttlMs(), boundary), ok: true };
+  } catch (e: any) {
+    console.warn("[heroSlides] load failed; using static slides:", e?.message || e);
+    return { rows: [], managed: false, expiresAt: now.getTime() + FAILURE_TTL_MS, ok: false };
+  }
+}
+
+async function getCache(): Promise<CacheState> {
+  if (_cache && Date.now() < _cache.expiresAt) return _cache;
+
+  if (!_inflight) {
+    _inflight = loadRows().finally(() => {
+      _inflight = null;
+    });
+  }
+
+  _cache = await _inflight;
+  return _cache;
+}
+
+/** Drop cached slides (call after admin writes). */
+export function invalidateHeroSlidesCache() {
+  _cache = null;
+}
+
+/** Slides for the homepage hero, with this visitor's variant applied to slides under test. */
+export async function getActiveHeroSlides(visitor: HeroVisitor, now = new Date()): Promise<HeroSlide[]> {
+  const { rows, managed } = await getCache();
+  if (!managed) return getHeroSlides();
+
+  const variantsBySlug = new Map(rows.map((r) => [r.slug, parseStoredVariants(r.variants)]));
+  return selectHeroSlides(rows, visitor, now).map((slide) =>
+    applyHeroVariant(slide, assignHeroVariant(visitor.sid, slide.id, variantsBySlug.get(slide.id) ?? [])),
+  );
+}
+
+/* ------------------------------- admin CRUD ------------------------------- */
+
+export type HeroSlideActionContext = { actor: string; requestId?: string | null };
+
+const optionalText = (max: number) => z.string().trim().max(max).nullable().optional();
+
+const HeroSlideInputSchema = z
+  .object({
+    slug: z
+      .string()
+      .trim()
+      .regex(/^[a-z0-9][a-z0-9-]{0,63}$/, "slug must be lowercase letters, digits and dashes"),
+    status: z.enum(HERO_SLIDE_STATUSES).optional(),
+    priority: z.number().int().min(-1000).max(1000).optional(),
+    startsAt: z.coerce.date().nullable().optional(),
+    endsAt: z.coerce.date().nullable().optional(),
+    audienceStore: z.enum(HERO_AUDIENCE_STORES).optional(),
+    audienceAuth: z.enum(HERO_AUDIENCE_AUTH).optional(),
+    title: z.string().trim().min(1).max(200),
+    description: optionalText(500),
+    // Cloudflare Images URL or image id
+    imageUrl: z.string().trim().min(1).max(2000),
+    alt: z.string().trim().min(1).max(300),
+    ctaText: optionalText(60),
+    ctaHref: z
+      .string()
+      .trim()
+      .max(2000)
+      .refine((v) => /^\/(?!\/)/.test(v) || /^https:\/\//i.test(v), "ctaHref must be a site path or https URL")
+      .nullable()
+      .optional(),
+    badge: optionalText(40),
+    fit: z.enum(["cover", "contain"]).nullable().optional(),
+    focal: optionalText(32),
+    blurDataUrl: z
+      .string()
+      .max(4000)
+      .refine((v) => v.startsWith("data:image/"), "blurDataUrl must be a data:image URL")
+      .nullable()
+      .optional(),
+    variants: HeroVariantsSchema.optional(),
+  })
+  .strict()
+  .refine((v) => !v.startsAt || !v.endsAt || v.endsAt > v.startsAt, {
+    message: "endsAt must be after startsAt",
+    path: ["endsAt"],
+  });
+
+export type HeroSlideInput = z.infer<typeof HeroSlideInputSchema>;
+
+function parseSlideInput(raw: unknown): HeroSlideInput {
+  const parsed = HeroSlideInputSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new ApiError(422, "Invalid hero slide", {
+      code: "VALIDATION_ERROR",
+      details: parsed.error.issues.map((i) => ({ path: i.path.join("."), message: i.message })),
+    });
+  }
+  return parsed.data;
+}
+
+function toValues(input: HeroSlideInput) {
+  return {
+    slug: input.slug,
+    status: input.status ?? "draft",
+    priority: input.priority ?? 0,
+    startsAt: input.startsAt ?? null,
+    endsAt: input.endsAt ?? null,
+    audienceStore: input.audienceStore ?? "all",
+    audienceAuth: input.audienceAuth ?? "all",
+    title: input.title,
+    description: input.description || null,
+    imageUrl: input.imageUrl,
+    alt: input.alt,
+    ctaText: input.ctaText || null,
+    ctaHref: input.ctaHref || null,
+    badge: input.badge || null,
+    fit: input.fit ?? null,
+    focal: input.focal || null,
+    blurDataUrl: input.blurDataUrl || null,
+    variants: input.variants ?? [],
+  };
+}
+
+async function assertSlugFree(slug: string, ignoreId?: string) {
+  const [clash] = await db.select({ id: heroSlides.id }).from(heroSlides).where(eq(heroSlides.slug, slug)).limit(1);
+  if (clash && clash.id !== ignoreId) {
+    throw new ApiError(409, "Another slide already uses this slug", {
+      code: "SLUG_TAKEN",
+      details: { conflictingId: clash.id },
+    });
+  }
+}
+
+export async function listHeroSlides(filter: { status?: HeroSlideStatus } = {}): Promise<HeroSlideRow[]> {
+  const where: SQL[] = [];
+  if (filter.status) where.push(eq(heroSlides.status, filter.status));
+
+  return db
+    .select()
+    .from(heroSlides)
+    .where(where.length ? and(...where) : undefined)
+    .orderBy(asc(heroSlides.status), desc(heroSlides.priority), asc(heroSlides.createdAt));
+}
+
+export async function getHeroSlide(id: string): Promise<HeroSlideRow | null> {
+  const [row] = await db.select().from(heroSlides).where(eq(heroSlides.id, id)).limit(1);
+  return row ?? null;
+}
+
+export async function createHeroSlide(raw: unknown, ctx: HeroSlideActionContext): Promise<HeroSlideRow> {
+  const values = toValues(parseSlideInput(raw));
+  await assertSlugFree(values.slug);
+
+  const row = await db.transaction(async (tx) => {
+    const [created] = await tx
+      .insert(heroSlides)
+      .values({ ...values, createdBy: ctx.actor, updatedBy: ctx.actor })
+      .returning();
+    await recordAdminAudit(tx, {
+      actor: ctx.actor,
+      action: "hero_slide.create",
+      targetType: "hero_slide",
+      targetId: created.id,
+      requestId: ctx.requestId,
+      details: { slug: created.slug, status: created.status },
+    });
+    return created;
+  });
+
+  invalidateHeroSlidesCache();
+  return row;
+}
+
+export async function updateHeroSlide(id: string, raw: unknown, ctx: HeroSlideActionContext): Promise<HeroSlideRow | null> {
+  const existing = await getHeroSlide(id);
+  if (!existing) return null;
+
+  // PATCH semantics: merge onto the stored row, then validate the whole slide
+  const patch = raw && typeof raw === "object" ? (raw as Record<string, unknown>) : {};
+  const merged = {
+    slug: existing.slug,
+    status: existing.status,
+    priority: existing.priority,
+    startsAt: existing.startsAt,
+    endsAt: existing.endsAt,
+    audienceStore: existing.audienceStore,
+    audienceAuth: existing.audienceAuth,
+    title: existing.title,
+    description: existing.description,
+    imageUrl: existing.imageUrl,
+    alt: existing.alt,
+    ctaText: existing.ctaText,
+    ctaHref: existing.ctaHref,
+    badge: existing.badge,
+    fit: existing.fit,
+    focal: existing.focal,
+    blurDataUrl: existing.blurDataUrl,
+    variants: existing.variants,
+    ...patch,
+  };
+
+  const values = toValues(parseSlideInput(merged));
+  if (values.slug !== existing.slug) await assertSlugFree(values.slug, id);
+
+  const row = await db.transaction(async (tx) => {
+    const [updated] = await tx
+      .update(heroSlides)
+      .set({ ...values, updatedBy: ctx.actor, updatedAt: new Date() })
+      .where(eq(heroSlides.id, id))
+      .returning();
+    if (!updated) return null;
+
+    await recordAdminAudit(tx, {
+      actor: ctx.actor,
+      action: "hero_slide.update",
+      targetType: "hero_slide",
+      targetId: id,
+      requestId: ctx.requestId,
+      details: { fields: Object.keys(patch), status: updated.status },
+    });
+    return updated;
+  });
+
+  invalidateHeroSlidesCache();
+  return row;
+}
+
+export async function deleteHeroSlide(id: string, ctx: HeroSlideActionContext): Promise<boolean> {
+  const deleted = await db.transaction(async (tx) => {
+    const rows = await tx
+      .delete(heroSlides)
+      .where(eq(heroSlides.id, id))
+      .returning({ id: heroSlides.id, slug: heroSlides.slug });
+    if (!rows.length) return false;
+
+    await recordAdminAudit(tx, {
+      actor: ctx.actor,
+      action: "hero_slide.delete",
+      targetType: "hero_slide",
+      targetId: id,
+      requestId: ctx.requestId,
+      details: { slug: rows[0].slug },
+    });
+    return true;
+  });
+
+  invalidateHeroSlidesCache();
+  return deleted;
+}
@@ -1,6 +1,10 @@
 // src/lib/heroSlides.ts
 import type { HeroSlide } from "./heroSlides.types";
 
+/**
+ * Built-in hero slides. Served while the hero_slides table is empty or unreadable
+ * (see heroSlides.server.ts), and by <Hero /> when no slides are passed in.
+ */
 export function getHeroSlides(): HeroSlide[] {
   return [
     {
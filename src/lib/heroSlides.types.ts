@@ -19,6 +19,9 @@ export interface HeroSlide {
 
   /** Optional blur placeholder */
   blurDataURL?: string;
+
+  /** A/B variant shown to this visitor (see heroExperiments.ts) */
+  variant?: string;
 }
 
 /**
@@ -45,6 +48,7 @@ export function isValidSlide(obj: unknown): obj is HeroSlide {
   if (s.badge !== undefined && typeof s.badge !== "string") return false;
   if (s.focal !== undefined && typeof s.focal !== "string") return false;
   if (s.blurDataURL !== undefined && typeof s.blurDataURL !== "string") return false;
+  if (s.variant !== undefined && typeof s.variant !== "string") return false;
 
   if (s.fit !== undefined && s.fit !== "cover" && s.fit !== "contain") {
     return false;
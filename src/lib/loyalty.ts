@@ -68,6 +68,26 @@ export function earnPointsForAmount(args: { amountCents: number; currency: "USD"
   return Math.max(0, Math.round(dollars * rate));
 }
 
+/**
+ * Points to remove after a refund, proportional to the refunded share of what was paid.
+ * refundedCents is cumulative, so the result is what's still owed after earlier clawbacks.
+ */
+export function refundClawbackPoints(args: {
+  earnedPoints: number;
+  alreadyClawedPoints: number;
+  refundedCents: number;
+  paidCents: number;
+}): number {
+  const earned = Math.max(0, toInt(args.earnedPoints, 0));
+  const paid = Math.max(0, toInt(args.paidCents, 0));
+  const refunded = Math.max(0, toInt(args.refundedCents, 0));
+  if (earned === 0 || refunded === 0) return 0;
+
+  const share = paid > 0 ? Math.min(1, refunded / paid) : 1;
+  const target = share >= 1 ? earned : Math.round(earned * share);
+  return Math.max(0, target - Math.max(0, toInt(args.alreadyClawedPoints, 0)));
+}
+
 /**
  * Clamp a requested redemption (points) to your rules.
  * - returns 0 if below minimum
@@ -1,8 +1,9 @@
 // src/lib/loyaltyDb.ts
 import "server-only";
 
-import { eq } from "drizzle-orm";
+import { and, eq, sql } from "drizzle-orm";
 import { db } from "@/lib/db";
+import { refundClawbackPoints } from "@/lib/loyalty";
 
 import { loyaltyWallets, loyaltyTransactions } from "@/lib/db/schema";
 
@@ -90,6 +91,7 @@ export async function getLoyaltySnapshotByClerkUserId(clerkUserId: string): Prom
  * - Creates wallet if missing
  * - Inserts loyalty transaction (delta > 0)
  * - Updates wallet pointsBalance + lifetimeEarned
+ * - With idempotencyKey, a repeat call finds the earlier entry and changes nothing
  */
 export async function awardLoyaltyPoints(args: {
   clerkUserId: string;
@@ -97,6 +99,7 @@ export async function awardLoyaltyPoints(args: {
   reason?: "purchase" | "refund" | "adjustment" | "signup" | "promotion";
   orderId?: string | null;
   note?: string | null;
+  idempotencyKey?: string | null;
 }): Promise<{ changed: boolean; snapshot: LoyaltyDbSnapshot }> {
   const customerId = norm(args.clerkUserId);
   const points = toInt(args.points, 0);
@@ -125,15 +128,23 @@ export async function awardLoyaltyPoints(args: {
     const afterBal = Math.max(0, beforeBal + points);
     const afterEarned = Math.max(0, beforeEarned + points);
 
-    await tx.insert(loyaltyTransactions).values({
-      walletId: wallet.id,
-      customerId,
-      orderId: args.orderId ?? null,
-      delta: points,
-      reason: (args.reason ?? "purchase") as any,
-      note: args.note ?? null,
-      // createdAt handled by defaultNow()
-    } as typeof loyaltyTransactions.$inferInsert);
+    const inserted = await tx
+      .insert(loyaltyTransactions)
+      .values({
+        walletId: wallet.id,
+        customerId,
+        orderId: args.orderId ?? null,
+        delta: points,
+        reason: (args.reason ?? "purchase") as any,
+        note: args.note ?? null,
+        idempotencyKey: norm(args.idempotencyKey) || null,
+        // createdAt handled by defaultNow()
+      } as typeof loyaltyTransactions.$inferInsert)
+      .onConflictDoNothing()
+      .returning({ id: loyaltyTransactions.id });
+
+    // Same idempotency key already recorded: nothing to add
+    if (!inserted.length) return { changed: false, snapshot: snapshotFromWallet(customerId, wallet) };
 
     const [updated] = await tx
       .update(loyaltyWallets)
@@ -214,3 +225,72 @@ export async function redeemLoyaltyPoints(args: {
     };
   });
 }
+
+/**
+ * Claw back points earned on an order (refunds / lost disputes).
+ * - Uses the caller's transaction so the clawback commits with the order update
+ * - Earlier "refund" rows for the order count towards the target, so repeated partial
+ *   refunds converge instead of double-charging
+ * - Never creates a wallet and never drives the balance below 0
+ * Returns the points actually removed.
+ */
+export async function clawbackOrderLoyaltyPoints(
+  tx: Tx,
+  args: {
+    clerkUserId: string;
+    orderId: string;
+    refundedCents: number;
+    paidCents: number;
+    note?: string | null;
+  },
+): Promise<number> {
+  const customerId = norm(args.clerkUserId);
+  if (!customerId) return 0;
+
+  const [sums] = await tx
+    .select({
+      earned: sql<number>`coalesce(sum(${loyaltyTransactions.delta}) filter (where ${loyaltyTransactions.reason} = 'purchase' and ${loyaltyTransactions.delta} > 0), 0)`,
+      clawed: sql<number>`coalesce(-sum(${loyaltyTransactions.delta}) filter (where ${loyaltyTransactions.reason} = 'refund' and ${loyaltyTransactions.delta} < 0), 0)`,
+    })
+    .from(loyaltyTransactions)
+    .where(and(eq(loyaltyTransactions.customerId, customerId), eq(loyaltyTransactions.orderId, args.orderId)));
+
+  const owed = refundClawbackPoints({
+    earnedPoints: toInt(sums?.earned, 0),
+    alreadyClawedPoints: toInt(sums?.clawed, 0),
+    refundedCents: args.refundedCents,
+    paidCents: args.paidCents,
+  });
+  if (owed <= 0) return 0;
+
+  const [wallet] = await tx
+    .select()
+    .from(loyaltyWallets)
+    .where(eq(loyaltyWallets.customerId, customerId))
+    .for("update")
+    .limit(1);
+  if (!wallet) return 0;
+
+  const removed = Math.min(owed, Math.max(0, toInt(wallet.pointsBalance, 0)));
+  if (removed <= 0) return 0;
+
+  await tx.insert(loyaltyTransactions).values({
+    walletId: wallet.id,
+    customerId,
+    orderId: args.orderId,
+    delta: -removed,
+    reason: "refund",
+    note: args.note ?? null,
+  } as typeof loyaltyTransactions.$inferInsert);
+
+  await tx
+    .update(loyaltyWallets)
+    .set({
+      pointsBalance: toInt(wallet.pointsBalance, 0) - removed,
+      lifetimeEarned: Math.max(0, toInt(wallet.lifetimeEarned, 0) - removed),
+      updatedAt: new Date(),
+    } as any)
+    .where(eq(loyaltyWallets.id, wallet.id));
+
+  return removed;
+}
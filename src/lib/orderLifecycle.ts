@@ -0,0 +1,167 @@
+// src/lib/orderLifecycle.ts
+import "server-only";
+
+import { asc, eq } from "drizzle-orm";
+
+import { db } from "@/lib/db";
+import { ApiError } from "@/lib/apiError";
+import { orderStatus } from "@/lib/db/schema/enums";
+import { orders } from "@/lib/db/schema/orders";
+import { orderStatusEvents, type OrderStatusEventRow } from "@/lib/db/schema/orderStatusEvents";
+
+/**
+ * Order lifecycle state machine.
+ *
+ * Every write to orders.status goes through here so that:
+ * - only transitions in ORDER_TRANSITIONS are possible
+ * - guards (payment state) are checked in one place
+ * - each change lands in order_status_events with actor / requestId / reason
+ *
+ *   draft → submitted → paid → fulfilled
+ *   draft | submitted | paid → cancelled
+ *   paid | fulfilled | cancelled → refunded
+ */
+
+type Db = typeof db;
+type Tx = Parameters<Parameters<Db["transaction"]>[0]>[0];
+type DbOrTx = Db | Tx;
+
+export type OrderStatus = (typeof orderStatus.enumValues)[number];
+
+export const ORDER_STATUSES: readonly OrderStatus[] = orderStatus.enumValues;
+
+export const ORDER_TRANSITIONS: Readonly<Record<OrderStatus, readonly OrderStatus[]>> = {
+  draft: ["submitted", "paid", "cancelled"],
+  submitted: ["paid", "cancelled"],
+  paid: ["fulfilled", "cancelled", "refunded"],
+  fulfilled: ["refunded"],
+  cancelled: ["refunded"],
+  refunded: [],
+};
+
+/** Who caused a change, e.g. "system:stripe_webhook", "customer:user_123", "admin:ops@example.com" */
+export type OrderActor = string;
+
+export type OrderTransitionInput = {
+  orderId: string;
+  to: OrderStatus;
+  actor: OrderActor;
+  requestId?: string | null;
+  reason?: string | null;
+  metadata?: Record<string, unknown>;
+};
+
+type GuardOrder = { status: string; paymentStatus: string | null };
+
+export function isOrderStatus(v: unknown): v is OrderStatus {
+  return typeof v === "string" && (ORDER_STATUSES as readonly string[]).includes(v);
+}
+
+export function canTransition(from: OrderStatus, to: OrderStatus): boolean {
+  return ORDER_TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+/**
+ * Business guards on top of the transition table.
+ * Returns a reason string when blocked, null when allowed.
+ */
+export function transitionBlockedReason(order: GuardOrder, to: OrderStatus): string | null {
+  const from = order.status;
+  if (!isOrderStatus(from)) return `Unknown current status "${from}"`;
+  if (!canTransition(from, to)) return `Cannot move order from ${from} to ${to}`;
+
+  const payment = String(order.paymentStatus ?? "").toLowerCase();
+
+  if (to === "fulfilled" && payment !== "paid") return "Cannot fulfill an unpaid order";
+  if (to === "refunded" && payment !== "paid" && payment !== "refunded" && payment !== "partially_refunded") {
+    return "Cannot refund an order that was never paid";
+  }
+
+  return null;
+}
+
+export function assertTransition(order: GuardOrder, to: OrderStatus): void {
+  const blocked = transitionBlockedReason(order, to);
+  if (blocked) {
+    throw new ApiError({
+      status: 409,
+      code: "INVALID_ORDER_TRANSITION",
+      message: blocked,
+      details: { from: order.status, to },
+    });
+  }
+}
+
+/**
+ * Record the creation event for a freshly inserted order.
+ * Call in the same transaction as the orders insert.
+ */
+export async function recordOrderCreated(
+  database: DbOrTx,
+  input: Omit<OrderTransitionInput, "to"> & { status: OrderStatus },
+): Promise<void> {
+  await database.insert(orderStatusEvents).values({
+    orderId: input.orderId,
+    fromStatus: null,
+    toStatus: input.status,
+    actor: input.actor,
+    requestId: input.requestId ?? null,
+    reason: input.reason ?? null,
+    metadata: input.metadata ?? {},
+  });
+}
+
+async function transitionWith(tx: DbOrTx, input: OrderTransitionInput) {
+  const [order] = await tx
+    .select({ id: orders.id, status: orders.status, paymentStatus: orders.paymentStatus })
+    .from(orders)
+    .where(eq(orders.id, input.orderId))
+    .for("update")
+    .limit(1);
+
+  if (!order) {
+    throw new ApiError({ status: 404, code: "ORDER_NOT_FOUND", message: "Order not found" });
+  }
+
+  const from = order.status as OrderStatus;
+
+  // Already there: webhook retries / double clicks are no-ops, not errors.
+  if (from === input.to) return { changed: false as const, from, to: input.to };
+
+  assertTransition(order, input.to);
+
+  await tx.update(orders).set({ status: input.to, updatedAt: new Date() }).where(eq(orders.id, order.id));
+
+  await tx.insert(orderStatusEvents).values({
+    orderId: order.id,
+    fromStatus: from,
+    toStatus: input.to,
+    actor: input.actor,
+    requestId: input.requestId ?? null,
+    reason: input.reason ?? null,
+    metadata: input.metadata ?? {},
+  });
+
+  return { changed: true as const, from, to: input.to };
+}
+
+/**
+ * Move an order to a new status (row-locked, guarded, logged).
+ * Pass a transaction to compose with other writes; otherwise one is opened.
+ * Throws ApiError 404 (unknown order) / 409 (illegal transition).
+ */
+export async function transitionOrderStatus(
+  input: OrderTransitionInput,
+  tx?: Tx,
+): Promise<{ changed: boolean; from: OrderStatus; to: OrderStatus }> {
+  if (tx) return transitionWith(tx, input);
+  return db.transaction((t) => transitionWith(t, input));
+}
+
+export async function listOrderStatusEvents(orderId: string): Promise<OrderStatusEventRow[]> {
+  return db
+    .select()
+    .from(orderStatusEvents)
+    .where(eq(orderStatusEvents.orderId, orderId))
+    .orderBy(asc(orderStatusEvents.createdAt));
+}
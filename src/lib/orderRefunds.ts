@@ -0,0 +1,312 @@
+// src/lib/orderRefunds.ts
+import "server-only";
+
+import { and, eq } from "drizzle-orm";
+
+import { db } from "@/lib/db";
+import { orders } from "@/lib/db/schema/orders";
+import { customers } from "@/lib/db/schema/customer";
+import { orderPaymentEvents } from "@/lib/db/schema/orderPaymentEvents";
+import { canTransition, isOrderStatus, transitionOrderStatus } from "@/lib/orderLifecycle";
+import { clawbackOrderLoyaltyPoints } from "@/lib/loyaltyDb";
+
+/**
+ * Stripe refunds and disputes -> orders.
+ *
+ * Each Stripe event is applied once: the order_payment_events insert (unique stripe_event_id)
+ * runs first in the transaction, and a conflict means "already handled" so retries are no-ops.
+ *
+ * - refund (full/partial): refundedCents + paymentStatus, status -> refunded when fully refunded,
+ *   loyalty clawback proportional to the refunded share
+ * - dispute created: paymentStatus "disputed" (no clawback until the outcome is known)
+ * - dispute won: paymentStatus restored
+ * - dispute lost: the disputed amount counts as refunded (capped at the unrefunded remainder)
+ */
+
+type Db = typeof db;
+type Tx = Parameters<Parameters<Db["transaction"]>[0]>[0];
+
+export type PaymentEventKind = "refund" | "dispute_created" | "dispute_won" | "dispute_lost";
+
+export type AppliedPaymentEvent = {
+  duplicate: false;
+  kind: PaymentEventKind;
+  orderId: string;
+  orderNumber: string | null;
+  userId: string;
+  currency: "USD" | "CAD";
+  orderTotalCents: number;
+  /** refunded by this event */
+  refundDeltaCents: number;
+  /** cumulative after this event */
+  refundedCents: number;
+  paymentStatus: string;
+  statusChanged: boolean;
+  loyaltyClawbackPoints: number;
+};
+
+export type PaymentEventResult = AppliedPaymentEvent | { duplicate: true } | null;
+
+const ACTOR = "system:stripe_webhook";
+
+function toInt(v: unknown, fallback = 0): number {
+  const n = Number(v);
+  return Number.isFinite(n) ? Math.trunc(n) : fallback;
+}
+
+/** paymentStatus for a cumulative refund of refundedCents against paidCents. */
+export function paymentStatusAfterRefund(refundedCents: number, paidCents: number): "paid" | "partially_refunded" | "refunded" {
+  const refunded = Math.max(0, toInt(refundedCents, 0));
+  const paid = Math.max(0, toInt(paidCents, 0));
+  if (refunded === 0) return "paid";
+  return refunded >= paid ? "refunded" : "partially_refunded";
+}
+
+/** Refunded total once a dispute is lost: the disputed amount, capped at what wasn't refunded yet. */
+export function refundedAfterLostDispute(refundedCents: number, paidCents: number, disputedCents: number): number {
+  const refunded = Math.max(0, toInt(refundedCents, 0));
+  const paid = Math.max(0, toInt(paidCents, 0));
+  const disputed = Math.max(0, toInt(disputedCents, 0));
+  return refunded + Math.min(disputed, Math.max(0, paid - refunded));
+}
+
+async function lockOrderByPaymentIntent(tx: Tx, paymentIntentId: string) {
+  const [order] = await tx
+    .select({
+      id: orders.id,
+      status: orders.status,
+      userId: orders.userId,
+      orderNumber: orders.orderNumber,
+      currency: orders.currency,
+      totalCents: orders.totalCents,
+      refundedCents: orders.refundedCents,
+    })
+    .from(orders)
+    .where(and(eq(orders.provider, "stripe"), eq(orders.providerId, paymentIntentId)))
+    .for("update")
+    .limit(1);
+
+  return order ?? null;
+}
+
+type LockedOrder = NonNullable<Awaited<ReturnType<typeof lockOrderByPaymentIntent>>>;
+
+async function applyPaymentEvent(
+  input: {
+    eventId: string;
+    paymentIntentId: string;
+    kind: PaymentEventKind;
+    amountCents: number;
+    stripeObjectId: string;
+    metadata?: Record<string, unknown>;
+  },
+  apply: (
+    tx: Tx,
+    order: LockedOrder,
+  ) => Promise<{ refundedCents: number; paidCents: number; paymentStatus: string; reason: string }>,
+): Promise<PaymentEventResult> {
+  return db.transaction(async (tx) => {
+    const order = await lockOrderByPaymentIntent(tx, input.paymentIntentId);
+    if (!order) return null;
+
+    const [logged] = await tx
+      .insert(orderPaymentEvents)
+      .values({
+        orderId: order.id,
+        stripeEventId: input.eventId,
+        kind: input.kind,
+        amountCents: Math.max(0, toInt(input.amountCents, 0)),
+        currency: order.currency,
+        stripeObjectId: input.stripeObjectId,
+        metadata: input.metadata ?? {},
+      })
+      .onConflictDoNothing({ target: orderPaymentEvents.stripeEventId })
+      .returning({ id: orderPaymentEvents.id });
+
+    if (!logged) return { duplicate: true as const };
+
+    const prevRefunded = Math.max(0, toInt(order.refundedCents, 0));
+    const next = await apply(tx, order);
+    const refundedCents = Math.max(prevRefunded, next.refundedCents);
+
+    await tx
+      .update(orders)
+      .set({ paymentStatus: next.paymentStatus, refundedCents, updatedAt: new Date() })
+      .where(eq(orders.id, order.id));
+
+    let statusChanged = false;
+    if (next.paymentStatus === "refunded" && isOrderStatus(order.status) && canTransition(order.status, "refunded")) {
+      const moved = await transitionOrderStatus(
+        {
+          orderId: order.id,
+          to: "refunded",
+          actor: ACTOR,
+          requestId: input.eventId,
+          reason: next.reason,
+          metadata: { stripeObjectId: input.stripeObjectId, refundedCents },
+        },
+        tx,
+      );
+      statusChanged = moved.changed;
+    }
+
+    let clawed = 0;
+    if (refundedCents > prevRefunded) {
+      clawed = await clawbackOrderLoyaltyPoints(tx, {
+        clerkUserId: order.userId,
+        orderId: order.id,
+        refundedCents,
+        paidCents: next.paidCents,
+        note: `stripe:${input.eventId}`,
+      });
+
+      if (clawed > 0) {
+        await tx
+          .update(orderPaymentEvents)
+          .set({ loyaltyClawbackPoints: clawed })
+          .where(eq(orderPaymentEvents.id, logged.id));
+      }
+    }
+
+    return {
+      duplicate: false as const,
+      kind: input.kind,
+      orderId: order.id,
+      orderNumber: order.orderNumber,
+      userId: order.userId,
+      currency: String(order.currency || "USD").toUpperCase() === "CAD" ? "CAD" : "USD",
+      orderTotalCents: Math.max(0, toInt(order.totalCents, 0)),
+      refundDeltaCents: refundedCents - prevRefunded,
+      refundedCents,
+      paymentStatus: next.paymentStatus,
+      statusChanged,
+      loyaltyClawbackPoints: clawed,
+    };
+  });
+}
+
+/**
+ * charge.refunded / charge.refund.updated
+ * amountRefundedCents is Stripe's cumulative charge.amount_refunded.
+ */
+export async function applyStripeRefund(input: {
+  eventId: string;
+  paymentIntentId: string;
+  chargeId: string;
+  amountCents: number;
+  amountRefundedCents: number;
+}): Promise<PaymentEventResult> {
+  const refunded = Math.max(0, toInt(input.amountRefundedCents, 0));
+  const paid = Math.max(0, toInt(input.amountCents, 0));
+
+  return applyPaymentEvent(
+    {
+      eventId: input.eventId,
+      paymentIntentId: input.paymentIntentId,
+      kind: "refund",
+      amountCents: refunded,
+      stripeObjectId: input.chargeId,
+      metadata: { chargeAmountCents: paid },
+    },
+    async () => {
+      const paymentStatus = paymentStatusAfterRefund(refunded, paid);
+      return {
+        refundedCents: refunded,
+        paidCents: paid,
+        paymentStatus,
+        reason: paymentStatus === "refunded" ? "Refunded in Stripe" : "Partially refunded in Stripe",
+      };
+    },
+  );
+}
+
+/** charge.dispute.created / charge.dispute.closed */
+export async function applyStripeDispute(input: {
+  eventId: string;
+  paymentIntentId: string;
+  disputeId: string;
+  outcome: "created" | "won" | "lost";
+  amountCents: number;
+}): Promise<PaymentEventResult> {
+  const kind: PaymentEventKind =
+    input.outcome === "created" ? "dispute_created" : input.outcome === "won" ? "dispute_won" : "dispute_lost";
+
+  return applyPaymentEvent(
+    {
+      eventId: input.eventId,
+      paymentIntentId: input.paymentIntentId,
+      kind,
+      amountCents: input.amountCents,
+      stripeObjectId: input.disputeId,
+    },
+    async (_tx, order) => {
+      const refunded = Math.max(0, toInt(order.refundedCents, 0));
+      const paid = Math.max(0, toInt(order.totalCents, 0));
+
+      if (input.outcome === "created") {
+        return { refundedCents: refunded, paidCents: paid, paymentStatus: "disputed", reason: "Dispute opened" };
+      }
+      if (input.outcome === "won") {
+        return {
+          refundedCents: refunded,
+          paidCents: paid,
+          paymentStatus: paymentStatusAfterRefund(refunded, paid),
+          reason: "Dispute won",
+        };
+      }
+      // Lost: the disputed amount (not necessarily the whole charge) is gone for good
+      const refundedAfter = refundedAfterLostDispute(refunded, paid, input.amountCents);
+      return {
+        refundedCents: refundedAfter,
+        paidCents: paid,
+        paymentStatus: paymentStatusAfterRefund(refundedAfter, paid),
+        reason: "Dispute lost",
+      };
+    },
+  );
+}
+
+/**
+ * Email the customer about money returned by this event.
+ * Best-effort: failures are logged, never thrown (the DB side already committed).
+ */
+export async function notifyCustomerOfRefund(result: PaymentEventResult, hint: { email?: string | null; name?: string | null } = {}) {
+  if (!result || result.duplicate || result.refundDeltaCents <= 0) return { sent: false as const };
+
+  try {
+    let email = String(hint.email ?? "").trim();
+    let name = String(hint.name ?? "").trim();
+
+    if (!email || !name) {
+      const [cust] = await db
+        .select({ email: customers.email, firstName: customers.firstName, displayName: customers.displayName })
+        .from(customers)
+        .where(eq(customers.clerkUserId, result.userId))
+        .limit(1);
+
+      email = email || String(cust?.email ?? "").trim();
+      name = name || String(cust?.firstName ?? cust?.displayName ?? "").trim();
+    }
+
+    if (!email) return { sent: false as const };
+
+    // React Email is heavy; only load it when there's something to send
+    const { sendOrderRefundEmail } = await import("@/lib/email/sendOrderRefundEmail");
+    await sendOrderRefundEmail({
+      to: email,
+      name: name || "there",
+      orderId: result.orderId,
+      orderNumber: result.orderNumber,
+      currency: result.currency,
+      refundCents: result.refundDeltaCents,
+      totalRefundedCents: result.refundedCents,
+      orderTotalCents: result.orderTotalCents,
+      loyaltyPointsRemoved: result.loyaltyClawbackPoints,
+    });
+
+    return { sent: true as const };
+  } catch (e: any) {
+    console.error("[orderRefunds] refund email failed:", { orderId: result.orderId, error: e?.message || e });
+    return { sent: false as const };
+  }
+}
@@ -4,6 +4,7 @@ import Stripe from "stripe";
 import { and, eq, ne, sql } from "drizzle-orm";
 import { db } from "@/lib/db";
 import { carts, cartLines, orders, orderItems } from "@/lib/db/schema";
+import { recordOrderCreated } from "@/lib/orderLifecycle";
 
 let stripeSingleton: Stripe | null = null;
 
@@ -205,7 +206,7 @@ export async function ensureOrderFromCart(opts: {
 
     const orderToInsert: OrderInsert = {
       userId: cartRow.sid,
-      status: "placed",
+      status: status === "paid" ? "paid" : "submitted",
       paymentStatus: status === "paid" ? "paid" : "pending",
       provider: "stripe",
       providerId: providerId || null,
@@ -221,6 +222,14 @@ export async function ensureOrderFromCart(opts: {
     const [ins] = await tx.insert(orders).values(orderToInsert).returning({ id: orders.id });
     const orderId = String(ins.id);
 
+    await recordOrderCreated(tx, {
+      orderId,
+      status: orderToInsert.status ?? "submitted",
+      actor: "system:stripe_checkout",
+      reason: status === "paid" ? "Payment received" : "Awaiting payment",
+      metadata: { paymentIntentId: providerId || null },
+    });
+
     for (const r of lineRows) {
       const qty = clampInt(r.quantity, 1, 999_999, 1);
       const unit = clampInt(r.unitPriceCents, 0, 9_999_999_999, 0);
@@ -5,6 +5,7 @@ import { and, eq, ne } from "drizzle-orm";
 
 import { db } from "@/lib/db";
 import { carts, cartLines, orders, orderItems } from "@/lib/db/schema";
+import { recordOrderCreated } from "@/lib/orderLifecycle";
 
 /**
  * Keep a single Stripe instance per server runtime.
@@ -143,7 +144,7 @@ export async function ensureOrderFromCart(opts: {
         userId: String(cartRow.sid), // guest checkout uses sid for now
         cartId: cartRow.id,
 
-        status: "placed",
+        status: status === "paid" ? "paid" : "submitted",
         paymentStatus: status === "paid" ? "paid" : "pending",
 
         provider: "stripe",
@@ -162,6 +163,14 @@ export async function ensureOrderFromCart(opts: {
 
     const orderId = String(ins.id);
 
+    await recordOrderCreated(tx, {
+      orderId,
+      status: status === "paid" ? "paid" : "submitted",
+      actor: "system:stripe_checkout",
+      reason: status === "paid" ? "Payment received" : "Awaiting payment",
+      metadata: { paymentIntentId: stripePaymentIntentId },
+    });
+
     // Insert order items
     // IMPORTANT:
     // Your current orderItems schema does NOT include optionIds.
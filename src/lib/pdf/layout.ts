@@ -0,0 +1,153 @@
+// src/lib/pdf/layout.ts
+import "server-only";
+
+import PDFDocument from "pdfkit";
+
+/**
+ * Shared pdfkit layout for customer documents (order invoices, quotes), so they look alike:
+ * title + meta lines, company block, address blocks, an items table, a right-aligned totals
+ * block and a small footnote. Everything draws at the current cursor and moves it down.
+ *
+ * pdfkit is typed as `any` (src/types/pdfkit-shim.d.ts), hence `doc: any` throughout.
+ */
+
+export const COMPANY_NAME = "ADAP / American Design And Printing";
+
+const COLS = { description: 290, qty: 300, total: 400, tableWidth: 520 } as const;
+
+export async function renderPdf(build: (doc: any) => void, info?: { Title?: string; Author?: string }): Promise<Buffer> {
+  // pdfkit streams data events
+  const doc: any = new (PDFDocument as any)({
+    size: "LETTER",
+    margin: 50,
+    ...(info ? { info } : {}),
+  });
+
+  const chunks: Buffer[] = [];
+
+  return await new Promise<Buffer>((resolve, reject) => {
+    doc.on("data", (c: Buffer) => chunks.push(c));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", (err: unknown) => reject(err));
+
+    try {
+      build(doc);
+      doc.end();
+    } catch (e) {
+      reject(e);
+    }
+  });
+}
+
+export function pdfMoney(cents: unknown, currency: unknown): string {
+  const c = typeof currency === "string" && currency.trim() ? currency.toUpperCase() : "USD";
+  const n = Number(cents);
+  const safe = Number.isFinite(n) ? n : 0;
+  const dollars = safe / 100;
+  try {
+    return new Intl.NumberFormat(undefined, { style: "currency", currency: c }).format(dollars);
+  } catch {
+    // fallback if currency code invalid
+    return `$${dollars.toFixed(2)}`;
+  }
+}
+
+/** Big title, then small grey meta lines ("Quote: Q-1001", "Date: ..."). */
+export function drawDocumentHeader(doc: any, args: { title: string; meta: string[] }) {
+  doc.fontSize(20).text(args.title, { align: "left" });
+  doc.moveDown(0.3);
+
+  doc.fontSize(10).fillColor("#333");
+  for (const line of args.meta) doc.text(line, { align: "left" });
+
+  doc.moveDown(1);
+}
+
+export function drawCompanyBlock(doc: any, note: string) {
+  doc.fontSize(12).fillColor("#000").text(COMPANY_NAME);
+  doc.fontSize(10).fillColor("#333").text(note);
+  doc.moveDown(1);
+}
+
+/** Heading + non-empty lines ("Ship To", "Prepared For"). */
+export function drawAddressBlock(doc: any, heading: string, lines: string[]) {
+  doc.fontSize(11).fillColor("#000").text(heading);
+  doc.fontSize(10).fillColor("#333");
+  for (const line of lines) if (line) doc.text(line);
+  doc.moveDown(1);
+}
+
+export type PdfItem = {
+  description: string;
+  /** Smaller grey text under the description (e.g. chosen options) */
+  detail?: string | null;
+  quantity: number;
+  totalCents: number;
+};
+
+export function drawItemsTable(doc: any, args: { currency: string; items: PdfItem[] }) {
+  doc.fontSize(11).fillColor("#000").text("Items");
+  doc.moveDown(0.4);
+
+  const startX = doc.x;
+  const col1 = startX;
+  const col2 = startX + COLS.qty;
+  const col3 = startX + COLS.total;
+
+  doc.fontSize(10).fillColor("#000");
+  const headerY = doc.y;
+  doc.text("Qty", col2, headerY, { width: 80, align: "right" });
+  doc.text("Total", col3, headerY, { width: 120, align: "right" });
+  doc.text("Description", col1, headerY, { width: COLS.description });
+  doc.moveDown(0.2);
+  doc.moveTo(startX, doc.y).lineTo(startX + COLS.tableWidth, doc.y).strokeColor("#ccc").stroke();
+  doc.moveDown(0.3);
+
+  for (const it of args.items) {
+    const { y } = doc;
+    doc.fontSize(10).fillColor("#333");
+    doc.text(String(it.quantity), col2, y, { width: 80, align: "right" });
+    doc.text(pdfMoney(it.totalCents, args.currency), col3, y, { width: 120, align: "right" });
+    // description last so a wrapped description (and its detail) sets the row height
+    doc.text(it.description, col1, y, { width: COLS.description });
+    if (it.detail) doc.fontSize(8).fillColor("#666").text(it.detail, col1, doc.y, { width: COLS.description });
+
+    doc.moveDown(0.6);
+  }
+
+  doc.x = startX;
+  doc.moveDown(0.6);
+}
+
+/** Right-aligned label/amount rows, a rule, then the bold total. */
+export function drawTotals(
+  doc: any,
+  args: { currency: string; rows: Array<{ label: string; cents: number }>; total: { label: string; cents: number } },
+) {
+  const startX = doc.x;
+  const totalsX = startX + COLS.qty;
+
+  doc.fontSize(10).fillColor("#333");
+  for (const row of args.rows) {
+    const { y } = doc;
+    doc.text(pdfMoney(row.cents, args.currency), totalsX + 120, y, { width: 100, align: "right" });
+    doc.text(row.label, totalsX, y, { width: 120 });
+    doc.moveDown(0.3);
+  }
+  doc.moveDown(0.1);
+
+  doc.moveTo(totalsX, doc.y).lineTo(totalsX + 220, doc.y).strokeColor("#ccc").stroke();
+  doc.moveDown(0.4);
+
+  doc.fontSize(12).fillColor("#000");
+  const { y } = doc;
+  doc.text(pdfMoney(args.total.cents, args.currency), totalsX + 120, y, { width: 100, align: "right" });
+  doc.text(args.total.label, totalsX, y, { width: 120 });
+
+  doc.x = startX;
+  doc.moveDown(1.2);
+}
+
+export function drawFootnote(doc: any, text: string) {
+  doc.fontSize(9).fillColor("#666").text(text, { align: "left" });
+}
@@ -0,0 +1,122 @@
+// src/lib/pdf/quotePdf.ts
+import "server-only";
+
+import { and, eq, inArray } from "drizzle-orm";
+
+import { db } from "@/lib/db";
+import { sinaliteProductOptions } from "@/lib/db/schema/sinaliteProducts";
+import { storeToStoreCode } from "@/lib/storeCodes";
+import type { QuoteWithLines } from "@/lib/quotes";
+import {
+  drawAddressBlock,
+  drawCompanyBlock,
+  drawDocumentHeader,
+  drawFootnote,
+  drawItemsTable,
+  drawTotals,
+  renderPdf,
+} from "@/lib/pdf/layout";
+
+/**
+ * Quote PDF: same layout as the order invoice, plus each Sinalite line's chosen options
+ * (names from sinalite_product_options) and the quote terms.
+ * Served from /api/quotes/view/:token/pdf and attached to the quote email.
+ */
+
+export const QUOTE_TERMS = [
+  "Prices are valid until the date above and cover the items, quantities and options listed.",
+  "Taxes are calculated at checkout. Production starts once artwork is approved.",
+  "Accept this quote online to check out at these prices; changes to the order need a revised quote.",
+].join(" ");
+
+type OptionRow = { productId: number; optionId: number; optionGroup: string; optionName: string };
+
+/** "Size: 3.5 x 2 · Stock: 16pt" in option-chain order; unknown ids are skipped. */
+export function describeOptions(productId: number, optionIds: number[], rows: OptionRow[]): string {
+  const byId = new Map(rows.filter((r) => r.productId === productId).map((r) => [r.optionId, r]));
+  return optionIds
+    .map((id) => byId.get(id))
+    .filter((r): r is OptionRow => Boolean(r))
+    .map((r) => `${r.optionGroup}: ${r.optionName}`)
+    .join(" · ");
+}
+
+async function loadOptionRows(quote: QuoteWithLines): Promise<OptionRow[]> {
+  const productIds = [...new Set(quote.lines.map((l) => l.productId).filter((id): id is number => id != null))];
+  if (!productIds.length) return [];
+
+  return db
+    .select({
+      productId: sinaliteProductOptions.productId,
+      optionId: sinaliteProductOptions.optionId,
+      optionGroup: sinaliteProductOptions.optionGroup,
+      optionName: sinaliteProductOptions.optionName,
+    })
+    .from(sinaliteProductOptions)
+    .where(
+      and(
+        inArray(sinaliteProductOptions.productId, productIds),
+        eq(sinaliteProductOptions.storeCode, storeToStoreCode(quote.store)),
+      ),
+    );
+}
+
+function formatDate(d: Date): string {
+  return d.toLocaleDateString("en-US", { dateStyle: "long" });
+}
+
+export function drawQuote(doc: any, quote: QuoteWithLines, options: OptionRow[]) {
+  drawDocumentHeader(doc, {
+    title: "Quote",
+    meta: [
+      `Quote: ${quote.quoteNumber}`,
+      `Date: ${formatDate(quote.sentAt ?? quote.createdAt)}`,
+      `Valid until: ${formatDate(quote.expiresAt)}`,
+    ],
+  });
+
+  drawCompanyBlock(doc, "Thank you for the opportunity to quote your project.");
+
+  drawAddressBlock(doc, "Prepared For", [
+    quote.customerName ?? "",
+    quote.company ?? "",
+    quote.customerEmail,
+    quote.shipTo ? [quote.shipTo.city, quote.shipTo.state, quote.shipTo.zip].filter(Boolean).join(", ") : "",
+    quote.shipTo?.country ?? "",
+  ]);
+
+  drawItemsTable(doc, {
+    currency: quote.currency,
+    items: quote.lines.map((l) => ({
+      description: l.description,
+      detail: l.productId != null ? describeOptions(l.productId, l.optionIds, options) || null : null,
+      quantity: l.quantity,
+      totalCents: l.lineTotalCents,
+    })),
+  });
+
+  drawTotals(doc, {
+    currency: quote.currency,
+    rows: [
+      { label: "Subtotal", cents: quote.subtotalCents },
+      { label: quote.shippingLabel ? `Shipping (${quote.shippingLabel})` : "Shipping", cents: quote.shippingCents },
+    ],
+    total: { label: "Total", cents: quote.totalCents },
+  });
+
+  if (quote.message) {
+    doc.fontSize(10).fillColor("#333").text(quote.message, { align: "left" });
+    doc.moveDown(1);
+  }
+
+  drawFootnote(doc, QUOTE_TERMS);
+}
+
+export async function renderQuotePdf(quote: QuoteWithLines): Promise<Buffer> {
+  const options = await loadOptionRows(quote);
+  return renderPdf((doc) => drawQuote(doc, quote, options), { Title: `Quote ${quote.quoteNumber}`, Author: "ADAP" });
+}
+
+export function quotePdfFilename(quoteNumber: string): string {
+  return `quote_${quoteNumber.replace(/[^a-zA-Z0-9_-]+/g, "_")}.pdf`;
+}
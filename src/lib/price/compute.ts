@@ -1,6 +1,8 @@
 import "server-only";
 
-import { priceByOptionIds, resolveStoreCode } from "@/lib/sinalite.server";
+import { ApiError } from "@/lib/apiError";
+import { isProductAvailable } from "@/lib/productResolver";
+import { getSinalitePrice } from "@/lib/sinalite/priceCache";
 import { applyTieredMarkup, type Store } from "@/lib/pricing";
 
 type Currency = "USD" | "CAD";
@@ -11,7 +13,7 @@ export type ComputePriceInput = {
   store: Store; // "US" | "CA"
   quantity: number; // selected qty
   optionIds: number[]; // exact chain for /price
-  categoryId?: number | null; // reserved for future per-category tiers
+  categoryId?: number | null; // price_tiers scope (filled from productAssets when omitted)
   subcategoryId?: number | null;
 };
 
@@ -186,12 +188,15 @@ export async function computePrice(input: ComputePriceInput): Promise<ComputePri
     throw new Error("computePrice: optionIds required");
   }
 
-  const storeCode = resolveStoreCode(input.store); // 9 US / 6 CA
+  // Delisted upstream (lib/sinalite/catalogSync.ts): say so instead of failing at Sinalite
+  if (!(await isProductAvailable(Number(input.productId)))) {
+    throw new ApiError(410, "This product is no longer available", { code: "PRODUCT_UNAVAILABLE" });
+  }
 
-  // 🔗 Sinalite API
-  const upstream = (await priceByOptionIds({
+  // 🔗 Sinalite price (Postgres cache → live API → ingested matrix)
+  const upstream = (await getSinalitePrice({
     productId: Number(input.productId),
-    storeCode,
+    store: input.store,
     optionIds,
   })) as unknown as UpstreamPriceShape;
 
@@ -202,6 +207,9 @@ export async function computePrice(input: ComputePriceInput): Promise<ComputePri
     store: input.store,
     quantity: qty,
     lineCostCents,
+    productId: Number(input.productId),
+    subcategoryId: input.subcategoryId ?? null,
+    categoryId: input.categoryId ?? null,
   });
 
   // Ensure unitSellCents * qty == lineSellCents (no drift).
@@ -0,0 +1,374 @@
+// src/lib/priceTiers.ts
+import "server-only";
+
+import { and, asc, eq, isNull, type SQL } from "drizzle-orm";
+import { z } from "zod";
+
+import { db } from "@/lib/db";
+import { priceTiers } from "@/lib/db/schema/price_tiers";
+import { ApiError } from "@/lib/apiError";
+import productAssetsRaw from "@/data/productAssets.json";
+
+import type { Store, Tier } from "@/lib/pricing";
+
+/**
+ * DB-backed markup tiers (price_tiers table).
+ *
+ * Scope precedence (most specific wins):
+ *   product > subcategory > category > global
+ *
+ * Rows are loaded once and cached in memory for PRICE_TIERS_CACHE_TTL_MS (default 60s).
+ * Admin writes call invalidatePriceTiersCache() so changes apply immediately on that
+ * instance; other instances pick them up when their TTL expires.
+ *
+ * store column: seeder writes "USD"/"CAD", older rows may use "US"/"CA" — both accepted.
+ */
+
+export const PRICE_TIER_SCOPES = ["product", "subcategory", "category", "global"] as const;
+export type PriceTierScope = (typeof PRICE_TIER_SCOPES)[number];
+
+export type PriceTierScopeContext = {
+  productId?: number | null;
+  subcategoryId?: number | null;
+  categoryId?: number | null;
+};
+
+export type ResolvedTiers = {
+  scope: PriceTierScope;
+  scopeId: number | null;
+  tiers: Tier[];
+};
+
+type CachedRow = {
+  scope: PriceTierScope;
+  scopeId: number | null;
+  store: Store;
+  tier: Tier;
+};
+
+type CacheState = {
+  rows: CachedRow[];
+  loadedAt: number;
+  ok: boolean;
+};
+
+let _cache: CacheState | null = null;
+let _inflight: Promise<CacheState> | null = null;
+
+function ttlMs(): number {
+  const n = Number(process.env.PRICE_TIERS_CACHE_TTL_MS);
+  return Number.isFinite(n) && n >= 0 ? n : 60_000;
+}
+
+/** When the DB is unavailable, retry sooner than the normal TTL. */
+const FAILURE_TTL_MS = 10_000;
+
+function toNumber(v: unknown): number | null {
+  if (v === null || v === undefined || v === "") return null;
+  const n = Number(v);
+  return Number.isFinite(n) ? n : null;
+}
+
+export function normalizeTierStore(v: unknown): Store | null {
+  const s = String(v ?? "").trim().toUpperCase();
+  if (s === "US" || s === "USD") return "US";
+  if (s === "CA" || s === "CAD") return "CA";
+  return null;
+}
+
+export function normalizeTierScope(v: unknown): PriceTierScope | null {
+  const s = String(v ?? "").trim().toLowerCase();
+  return (PRICE_TIER_SCOPES as readonly string[]).includes(s) ? (s as PriceTierScope) : null;
+}
+
+function rowToCached(r: {
+  scope: string;
+  scopeId: number | null;
+  store: string;
+  minQty: number;
+  maxQty: number | null;
+  mult: string;
+  floorPct: string | null;
+}): CachedRow | null {
+  const scope = normalizeTierScope(r.scope);
+  const store = normalizeTierStore(r.store);
+  const mult = toNumber(r.mult);
+  if (!scope || !store || mult == null || mult <= 0) return null;
+  if (scope !== "global" && r.scopeId == null) return null;
+
+  const floorPct = toNumber(r.floorPct);
+
+  return {
+    scope,
+    scopeId: scope === "global" ? null : r.scopeId,
+    store,
+    tier: {
+      min: Math.max(1, Math.floor(r.minQty || 1)),
+      max: r.maxQty == null ? null : Math.max(1, Math.floor(r.maxQty)),
+      mult,
+      ...(floorPct != null ? { floorPct: Math.min(0.95, Math.max(0, floorPct)) } : {}),
+    },
+  };
+}
+
+async function loadRows(): Promise<CacheState> {
+  try {
+    const raw = await db
+      .select({
+        scope: priceTiers.scope,
+        scopeId: priceTiers.scopeId,
+        store: priceTiers.store,
+        minQty: priceTiers.minQty,
+        maxQty: priceTiers.maxQty,
+        mult: priceTiers.mult,
+        floorPct: priceTiers.floorPct,
+      })
+      .from(priceTiers);
+
+    const rows = raw.map(rowToCached).filter((r): r is CachedRow => r !== null);
+    return { rows, loadedAt: Date.now(), ok: true };
+  } catch (e: any) {
+    console.warn("[priceTiers] load failed; using env tiers:", e?.message || e);
+    return { rows: [], loadedAt: Date.now(), ok: false };
+  }
+}
+
+async function getCache(): Promise<CacheState> {
+  const now = Date.now();
+  if (_cache) {
+    const ttl = _cache.ok ? ttlMs() : FAILURE_TTL_MS;
+    if (now - _cache.loadedAt < ttl) return _cache;
+  }
+
+  if (!_inflight) {
+    _inflight = loadRows().finally(() => {
+      _inflight = null;
+    });
+  }
+
+  _cache = await _inflight;
+  return _cache;
+}
+
+/** Drop cached tiers (call after admin writes). */
+export function invalidatePriceTiersCache() {
+  _cache = null;
+}
+
+function tiersForScope(rows: CachedRow[], store: Store, scope: PriceTierScope, scopeId: number | null): Tier[] {
+  return rows
+    .filter((r) => r.store === store && r.scope === scope && r.scopeId === scopeId)
+    .map((r) => r.tier)
+    .sort((a, b) => a.min - b.min);
+}
+
+/**
+ * Resolve the most specific tier set for a store + product context.
+ * Returns null when no DB tiers apply (caller falls back to env config).
+ * `fresh` reads the table directly and leaves the shared cache as it is (admin previews).
+ */
+export async function resolvePriceTiers(
+  store: Store,
+  ctx: PriceTierScopeContext = {},
+  opts: { fresh?: boolean } = {},
+): Promise<ResolvedTiers | null> {
+  const { rows } = opts.fresh ? await loadRows() : await getCache();
+  if (rows.length === 0) return null;
+
+  const filled = fillScopeFromAssets(ctx);
+
+  const candidates: Array<[PriceTierScope, number | null]> = [];
+  if (filled.productId) candidates.push(["product", filled.productId]);
+  if (filled.subcategoryId) candidates.push(["subcategory", filled.subcategoryId]);
+  if (filled.categoryId) candidates.push(["category", filled.categoryId]);
+  candidates.push(["global", null]);
+
+  for (const [scope, scopeId] of candidates) {
+    const tiers = tiersForScope(rows, store, scope, scopeId);
+    if (tiers.length) return { scope, scopeId, tiers };
+  }
+
+  return null;
+}
+
+/* ---------------------- product -> category/subcategory ---------------------- */
+
+type AssetRow = {
+  sinalite_id?: number | string | null;
+  category_id?: number | string | null;
+  subcategory_id?: number | string | null;
+};
+
+let _assetScopes: Map<number, { categoryId: number | null; subcategoryId: number | null }> | null = null;
+
+function assetScopes() {
+  if (_assetScopes) return _assetScopes;
+
+  _assetScopes = new Map();
+  const rows = Array.isArray(productAssetsRaw) ? (productAssetsRaw as unknown as AssetRow[]) : [];
+  for (const r of rows) {
+    const pid = toNumber(r.sinalite_id);
+    if (!pid || _assetScopes.has(pid)) continue;
+    _assetScopes.set(pid, {
+      categoryId: toNumber(r.category_id),
+      subcategoryId: toNumber(r.subcategory_id),
+    });
+  }
+  return _assetScopes;
+}
+
+/**
+ * Fill missing category/subcategory ids from productAssets.json (keyed by Sinalite product id).
+ * Explicit ids from the caller always win.
+ */
+export function fillScopeFromAssets(ctx: PriceTierScopeContext): PriceTierScopeContext {
+  const productId = toNumber(ctx.productId);
+  const known = productId ? assetScopes().get(productId) : undefined;
+
+  return {
+    productId: productId ?? null,
+    subcategoryId: toNumber(ctx.subcategoryId) ?? known?.subcategoryId ?? null,
+    categoryId: toNumber(ctx.categoryId) ?? known?.categoryId ?? null,
+  };
+}
+
+/* ------------------------------- admin CRUD ------------------------------- */
+
+export type PriceTierRow = typeof priceTiers.$inferSelect;
+
+const TierInputSchema = z
+  .object({
+    scope: z.enum(PRICE_TIER_SCOPES),
+    scopeId: z.number().int().positive().nullable().optional(),
+    store: z.enum(["US", "CA", "USD", "CAD"]),
+    minQty: z.number().int().min(1),
+    maxQty: z.number().int().min(1).nullable().optional(),
+    mult: z.number().positive().max(100),
+    floorPct: z.number().min(0).max(0.95).nullable().optional(),
+  })
+  .strict()
+  .refine((v) => (v.scope === "global" ? v.scopeId == null : v.scopeId != null), {
+    message: "scopeId is required for product/subcategory/category scope and must be empty for global",
+    path: ["scopeId"],
+  })
+  .refine((v) => v.maxQty == null || v.maxQty >= v.minQty, {
+    message: "maxQty must be >= minQty",
+    path: ["maxQty"],
+  });
+
+export type PriceTierInput = z.infer<typeof TierInputSchema>;
+
+function parseTierInput(raw: unknown): PriceTierInput {
+  const parsed = TierInputSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new ApiError(422, "Invalid price tier", {
+      code: "VALIDATION_ERROR",
+      details: parsed.error.issues.map((i) => ({ path: i.path.join("."), message: i.message })),
+    });
+  }
+  return parsed.data;
+}
+
+/** Stored store code matches the seeder ("USD"/"CAD"). */
+function storeColumnValue(store: PriceTierInput["store"]): "USD" | "CAD" {
+  return normalizeTierStore(store) === "CA" ? "CAD" : "USD";
+}
+
+function toValues(input: PriceTierInput) {
+  return {
+    scope: input.scope,
+    scopeId: input.scope === "global" ? null : (input.scopeId ?? null),
+    store: storeColumnValue(input.store),
+    minQty: input.minQty,
+    maxQty: input.maxQty ?? null,
+    mult: String(input.mult),
+    floorPct: input.floorPct == null ? null : String(input.floorPct),
+  };
+}
+
+/**
+ * Reject overlapping quantity ranges inside the same scope/store set.
+ * (pickTier() takes the first match, so overlaps silently shadow tiers.)
+ */
+async function assertNoOverlap(values: ReturnType<typeof toValues>, ignoreId?: number) {
+  const siblings = await listPriceTiers({
+    scope: values.scope as PriceTierScope,
+    scopeId: values.scopeId,
+    store: normalizeTierStore(values.store) ?? undefined,
+  });
+
+  const lo = values.minQty;
+  const hi = values.maxQty ?? Infinity;
+
+  const clash = siblings.find((r) => {
+    if (ignoreId != null && r.id === ignoreId) return false;
+    const rHi = r.maxQty ?? Infinity;
+    return lo <= rHi && r.minQty <= hi;
+  });
+
+  if (clash) {
+    throw new ApiError(409, "Tier overlaps an existing tier", {
+      code: "TIER_OVERLAP",
+      details: { conflictingId: clash.id, minQty: clash.minQty, maxQty: clash.maxQty },
+    });
+  }
+}
+
+export async function listPriceTiers(filter: {
+  scope?: PriceTierScope;
+  scopeId?: number | null;
+  store?: Store;
+} = {}): Promise<PriceTierRow[]> {
+  const where: SQL[] = [];
+  if (filter.scope) where.push(eq(priceTiers.scope, filter.scope));
+  if (filter.scopeId === null) where.push(isNull(priceTiers.scopeId));
+  else if (typeof filter.scopeId === "number") where.push(eq(priceTiers.scopeId, filter.scopeId));
+
+  const rows = await db
+    .select()
+    .from(priceTiers)
+    .where(where.length ? and(...where) : undefined)
+    .orderBy(asc(priceTiers.scope), asc(priceTiers.scopeId), asc(priceTiers.store), asc(priceTiers.minQty));
+
+  // store is compared after normalization so "US" and "USD" rows both match
+  return filter.store ? rows.filter((r) => normalizeTierStore(r.store) === filter.store) : rows;
+}
+
+export async function createPriceTier(raw: unknown): Promise<PriceTierRow> {
+  const values = toValues(parseTierInput(raw));
+  await assertNoOverlap(values);
+
+  const [row] = await db.insert(priceTiers).values(values).returning();
+  invalidatePriceTiersCache();
+  return row;
+}
+
+export async function updatePriceTier(id: number, raw: unknown): Promise<PriceTierRow | null> {
+  const [existing] = await db.select().from(priceTiers).where(eq(priceTiers.id, id)).limit(1);
+  if (!existing) return null;
+
+  // PATCH semantics: merge onto the stored row, then validate the whole tier
+  const merged = {
+    scope: existing.scope,
+    scopeId: existing.scopeId,
+    store: existing.store,
+    minQty: existing.minQty,
+    maxQty: existing.maxQty,
+    mult: Number(existing.mult),
+    floorPct: existing.floorPct == null ? null : Number(existing.floorPct),
+    ...(raw && typeof raw === "object" ? (raw as Record<string, unknown>) : {}),
+  };
+
+  const values = toValues(parseTierInput(merged));
+  await assertNoOverlap(values, id);
+
+  const [row] = await db.update(priceTiers).set(values).where(eq(priceTiers.id, id)).returning();
+  invalidatePriceTiersCache();
+  return row ?? null;
+}
+
+export async function deletePriceTier(id: number): Promise<boolean> {
+  const rows = await db.delete(priceTiers).where(eq(priceTiers.id, id)).returning({ id: priceTiers.id });
+  invalidatePriceTiersCache();
+  return rows.length > 0;
+}
@@ -1,5 +1,7 @@
 import "server-only";
 
+import { resolvePriceTiers, type PriceTierScope } from "@/lib/priceTiers";
+
 export type Store = "US" | "CA";
 
 type ApplyLevel = "line" | "unit";
@@ -118,13 +120,31 @@ function loadConfig(): MarkupConfig {
   };
 }
 
-// Load once; env changes require restart (expected for server config)
+// Load once; env changes require restart (expected for server config).
+// Tiers themselves come from price_tiers first; env tiers are the fallback.
 const CFG = loadConfig();
 
-function tiersFor(store: Store): Tier[] {
+function envTiersFor(store: Store): Tier[] {
   return store === "CA" ? CFG.tiersCA : CFG.tiersUS;
 }
 
+export type TierSource = { source: "db"; scope: PriceTierScope; scopeId: number | null } | { source: "env" };
+
+async function tiersFor(
+  store: Store,
+  ctx: { productId?: number | null; subcategoryId?: number | null; categoryId?: number | null },
+  fresh = false,
+): Promise<{ tiers: Tier[]; from: TierSource }> {
+  const resolved = await resolvePriceTiers(store, ctx, { fresh });
+  if (resolved) {
+    return {
+      tiers: resolved.tiers,
+      from: { source: "db", scope: resolved.scope, scopeId: resolved.scopeId },
+    };
+  }
+  return { tiers: envTiersFor(store), from: { source: "env" } };
+}
+
 function fallbackMultFor(store: Store): number {
   return store === "CA" ? CFG.defaultMultCA : CFG.defaultMultUS;
 }
@@ -178,6 +198,7 @@ export type MarkupDebug = {
   store: Store;
   quantity: number;
   applyLevel: ApplyLevel;
+  tierSource: TierSource;
   chosenTier: Tier;
   multiplier: number;
   floorPct: number;
@@ -199,13 +220,24 @@ export async function applyTieredMarkup(params: {
   quantity: number;
   lineCostCents?: number;
   unitCostCents?: number;
-  /** If true, include debug payload (no DB calls; safe) */
+  /** Scope context for price_tiers precedence (product > subcategory > category > global) */
+  productId?: number | null;
+  subcategoryId?: number | null;
+  categoryId?: number | null;
+  /** If true, include debug payload */
   debug?: boolean;
+  /** If true, read price_tiers directly instead of the cached copy (admin previews) */
+  freshTiers?: boolean;
 }): Promise<{ unitSellCents: number; lineSellCents: number; debug?: MarkupDebug }> {
   const { quantity, lineCostCents, unitCostCents } = normalizeCosts(params);
 
   const fallbackMult = fallbackMultFor(params.store);
-  const chosenTier = pickTier(quantity, tiersFor(params.store), fallbackMult);
+  const { tiers, from: tierSource } = await tiersFor(
+    params.store,
+    { productId: params.productId, subcategoryId: params.subcategoryId, categoryId: params.categoryId },
+    params.freshTiers,
+  );
+  const chosenTier = pickTier(quantity, tiers, fallbackMult);
 
   const mult = Number.isFinite(chosenTier.mult) && chosenTier.mult > 0 ? chosenTier.mult : fallbackMult;
   const floorPct = chosenTier.floorPct != null ? chosenTier.floorPct : CFG.globalFloorPct;
@@ -233,6 +265,7 @@ export async function applyTieredMarkup(params: {
           store: params.store,
           quantity,
           applyLevel: CFG.applyLevel,
+          tierSource,
           chosenTier,
           multiplier: mult,
           floorPct,
@@ -266,6 +299,7 @@ export async function applyTieredMarkup(params: {
         store: params.store,
         quantity,
         applyLevel: CFG.applyLevel,
+        tierSource,
         chosenTier,
         multiplier: mult,
         floorPct,
@@ -282,3 +316,23 @@ export async function applyTieredMarkup(params: {
 
   return { unitSellCents, lineSellCents };
 }
+
+/**
+ * Minimum margin (0..0.95) applyTieredMarkup would enforce for this quantity and scope:
+ * the matching tier's floorPct, else MIN_MARGIN_PCT.
+ */
+export async function marginFloorFor(params: {
+  store: Store;
+  quantity: number;
+  productId?: number | null;
+  subcategoryId?: number | null;
+  categoryId?: number | null;
+}): Promise<number> {
+  const { tiers } = await tiersFor(params.store, {
+    productId: params.productId,
+    subcategoryId: params.subcategoryId,
+    categoryId: params.categoryId,
+  });
+  const tier = pickTier(params.quantity, tiers, fallbackMultFor(params.store));
+  return tier.floorPct != null ? tier.floorPct : CFG.globalFloorPct;
+}
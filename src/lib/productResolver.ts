@@ -3,7 +3,7 @@
 
 import "server-only";
 
-import { eq, inArray } from "drizzle-orm";
+import { and, eq, inArray } from "drizzle-orm";
 import { db } from "@/lib/db";
 import { sinaliteProducts } from "@/lib/db/schema";
 
@@ -97,3 +97,31 @@ export async function getProductsByIds(
 
   return result;
 }
+
+/**
+ * Products the catalog sync flagged as no longer listed by Sinalite (sinalite_products.active = false).
+ * Ids we have no row for, and DB errors, count as available.
+ */
+export async function getUnavailableProductIds(productIds: number[]): Promise<Set<number>> {
+  const out = new Set<number>();
+  const unique = [...new Set(productIds)].filter((n) => Number.isFinite(n) && n > 0);
+  if (unique.length === 0) return out;
+
+  try {
+    const dbRows = await db
+      .select({ productId: sinaliteProducts.productId })
+      .from(sinaliteProducts)
+      .where(and(inArray(sinaliteProducts.productId, unique), eq(sinaliteProducts.active, false)));
+
+    for (const r of dbRows) out.add(r.productId);
+  } catch {
+    // DB unavailable; don't hide anything
+  }
+
+  return out;
+}
+
+export async function isProductAvailable(productId: number): Promise<boolean> {
+  const unavailable = await getUnavailableProductIds([productId]);
+  return !unavailable.has(productId);
+}
@@ -0,0 +1,424 @@
+// src/lib/promoCodes.ts
+import "server-only";
+
+import { and, eq, ne, sql } from "drizzle-orm";
+
+import { ApiError } from "@/lib/apiError";
+import { db } from "@/lib/db";
+import { carts } from "@/lib/db/schema/cart";
+import { cartLines } from "@/lib/db/schema/cartLines";
+import { cartCredits } from "@/lib/db/schema/cartCredits";
+import { promoCodes, promoRedemptions, type PromoCodeRow } from "@/lib/db/schema/promoCodes";
+import { fillScopeFromAssets } from "@/lib/priceTiers";
+
+/**
+ * Promo codes → cart credits.
+ *
+ * - Applying a code writes ONE cart_credits row with reason "promo" and note = CODE.
+ * - Whenever cart lines (or shipping) change, call revalidateCartPromo(cartId) so the
+ *   credit amount follows the cart (or the row is dropped when no longer eligible).
+ * - Checkout start re-runs revalidateCartPromo() so a code that expired or ran out while
+ *   it sat in the cart is dropped before payment.
+ * - Order finalizers call recordPromoRedemption() inside their transaction, before the
+ *   cart credits are deleted. It locks the promo row and re-checks the limits; free orders
+ *   are refused, paid orders are recorded with over_limit_reason set. promo_redemptions is
+ *   unique on (promo, order), so webhook retries never double-count usage.
+ */
+
+type Db = typeof db;
+type Tx = Parameters<Parameters<Db["transaction"]>[0]>[0];
+type DbOrTx = Db | Tx;
+
+export const PROMO_CREDIT_REASON = "promo";
+
+export type PromoKind = "percent" | "fixed" | "free_shipping";
+
+export type PromoRejectReason =
+  | "invalid_code"
+  | "not_found"
+  | "inactive"
+  | "not_started"
+  | "expired"
+  | "min_subtotal"
+  | "no_eligible_items"
+  | "no_shipping"
+  | "usage_limit"
+  | "customer_limit"
+  | "sign_in_required"
+  | "currency_unsupported";
+
+export type PromoEvaluation =
+  | { ok: true; amountCents: number; eligibleSubtotalCents: number }
+  | { ok: false; reason: PromoRejectReason; message: string };
+
+export type PromoCartContext = {
+  currency: "USD" | "CAD";
+  lines: Array<{ productId: number; lineTotalCents: number }>;
+  shippingCents: number;
+};
+
+export type PromoUsage = {
+  total: number;
+  byCustomer: number;
+};
+
+/* --------------------------------- helpers --------------------------------- */
+
+function toInt(v: unknown, fallback = 0): number {
+  const n = Number(v);
+  return Number.isFinite(n) ? Math.trunc(n) : fallback;
+}
+
+function idList(v: unknown): number[] {
+  if (!Array.isArray(v)) return [];
+  return v.map((x) => Number(x)).filter((n) => Number.isFinite(n) && n > 0).map((n) => Math.trunc(n));
+}
+
+/** Codes are case-insensitive; stored uppercase. */
+export function normalizePromoCode(raw: unknown): string | null {
+  const code = String(raw ?? "")
+    .trim()
+    .toUpperCase()
+    .replace(/\s+/g, "");
+  return /^[A-Z0-9_-]{2,40}$/.test(code) ? code : null;
+}
+
+function reject(reason: PromoRejectReason, message: string): PromoEvaluation {
+  return { ok: false, reason, message };
+}
+
+// Same shape handling as checkout totals: selectedShipping.cost is dollars.
+function shippingCentsFromSelectedShipping(selectedShipping: unknown): number {
+  const s = selectedShipping as Record<string, unknown> | null | undefined;
+  const dollars = Number(s?.cost ?? 0);
+  if (!Number.isFinite(dollars) || dollars <= 0) return 0;
+  return Math.round(dollars * 100);
+}
+
+/* -------------------------------- evaluation -------------------------------- */
+
+/**
+ * Active flag, date window and redemption limits (no cart, no DB).
+ * Returns the rejection, or null when the code may still be used.
+ */
+export function checkPromoLimits(
+  promo: PromoCodeRow,
+  usage: PromoUsage,
+  opts: { customerId: string | null; now?: Date },
+): Extract<PromoEvaluation, { ok: false }> | null {
+  const now = opts.now ?? new Date();
+
+  if (!promo.active) return { ok: false, reason: "inactive", message: "This code is no longer active." };
+  if (promo.startsAt && now < promo.startsAt) return { ok: false, reason: "not_started", message: "This code is not active yet." };
+  if (promo.endsAt && now >= promo.endsAt) return { ok: false, reason: "expired", message: "This code has expired." };
+
+  if (promo.maxRedemptions != null && usage.total >= promo.maxRedemptions) {
+    return { ok: false, reason: "usage_limit", message: "This code has reached its usage limit." };
+  }
+
+  if (promo.maxRedemptionsPerCustomer != null) {
+    if (!opts.customerId) return { ok: false, reason: "sign_in_required", message: "Sign in to use this code." };
+    if (usage.byCustomer >= promo.maxRedemptionsPerCustomer) {
+      return { ok: false, reason: "customer_limit", message: "You have already used this code." };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Pure eligibility + amount calculation (no DB).
+ * customerId null = guest.
+ */
+export function evaluatePromo(
+  promo: PromoCodeRow,
+  cart: PromoCartContext,
+  usage: PromoUsage,
+  opts: { customerId: string | null; now?: Date },
+): PromoEvaluation {
+  const limited = checkPromoLimits(promo, usage, opts);
+  if (limited) return limited;
+
+  const isCad = cart.currency === "CAD";
+
+  const cartSubtotal = cart.lines.reduce((sum, l) => sum + Math.max(0, toInt(l.lineTotalCents)), 0);
+  const minSubtotal = isCad ? promo.minSubtotalCentsCad : promo.minSubtotalCentsUsd;
+  if (minSubtotal != null && cartSubtotal < minSubtotal) {
+    return reject("min_subtotal", "Your cart does not meet the minimum subtotal for this code.");
+  }
+
+  // Product / category scoping
+  const productIds = new Set(idList(promo.productIds));
+  const categoryIds = new Set(idList(promo.categoryIds));
+  const scoped = productIds.size > 0 || categoryIds.size > 0;
+
+  const eligibleSubtotalCents = cart.lines.reduce((sum, l) => {
+    if (scoped) {
+      const inProducts = productIds.has(l.productId);
+      const categoryId = categoryIds.size ? fillScopeFromAssets({ productId: l.productId }).categoryId : null;
+      const inCategories = categoryId != null && categoryIds.has(categoryId);
+      if (!inProducts && !inCategories) return sum;
+    }
+    return sum + Math.max(0, toInt(l.lineTotalCents));
+  }, 0);
+
+  const kind = promo.kind as PromoKind;
+
+  if (kind === "free_shipping") {
+    if (scoped && eligibleSubtotalCents <= 0) {
+      return reject("no_eligible_items", "This code does not apply to the items in your cart.");
+    }
+    if (cart.shippingCents <= 0) return reject("no_shipping", "Choose a shipping method to use this code.");
+    return { ok: true, amountCents: cart.shippingCents, eligibleSubtotalCents };
+  }
+
+  if (eligibleSubtotalCents <= 0) {
+    return reject("no_eligible_items", "This code does not apply to the items in your cart.");
+  }
+
+  if (kind === "percent") {
+    const pct = Math.min(100, Math.max(0, toInt(promo.percentOff)));
+    const amountCents = Math.floor((eligibleSubtotalCents * pct) / 100);
+    return { ok: true, amountCents, eligibleSubtotalCents };
+  }
+
+  if (kind === "fixed") {
+    const off = isCad ? promo.amountOffCentsCad : promo.amountOffCentsUsd;
+    if (off == null || off <= 0) {
+      return reject("currency_unsupported", `This code cannot be used with ${cart.currency}.`);
+    }
+    return { ok: true, amountCents: Math.min(off, eligibleSubtotalCents), eligibleSubtotalCents };
+  }
+
+  return reject("inactive", "This code is not valid.");
+}
+
+/* ------------------------------- DB helpers ------------------------------- */
+
+export async function findPromoByCode(code: string, database: DbOrTx = db): Promise<PromoCodeRow | null> {
+  const [row] = await database.select().from(promoCodes).where(eq(promoCodes.code, code)).limit(1);
+  return row ?? null;
+}
+
+async function loadUsage(promoId: string, customerId: string | null, database: DbOrTx = db): Promise<PromoUsage> {
+  const [row] = await database
+    .select({
+      total: sql<number>`COUNT(*)::int`,
+      byCustomer: sql<number>`COUNT(*) FILTER (WHERE ${promoRedemptions.customerId} = ${customerId ?? ""})::int`,
+    })
+    .from(promoRedemptions)
+    .where(eq(promoRedemptions.promoCodeId, promoId));
+
+  return { total: toInt(row?.total), byCustomer: toInt(row?.byCustomer) };
+}
+
+async function loadCartContext(cartId: string, database: DbOrTx = db) {
+  const [cart] = await database
+    .select({
+      id: carts.id,
+      userId: carts.userId,
+      currency: carts.currency,
+      selectedShipping: carts.selectedShipping,
+    })
+    .from(carts)
+    .where(and(eq(carts.id, cartId), ne(carts.status, "closed")))
+    .limit(1);
+
+  if (!cart) return null;
+
+  const lines = await database
+    .select({
+      productId: cartLines.productId,
+      quantity: cartLines.quantity,
+      unitPriceCents: cartLines.unitPriceCents,
+      lineTotalCents: cartLines.lineTotalCents,
+    })
+    .from(cartLines)
+    .where(eq(cartLines.cartId, cartId));
+
+  const ctx: PromoCartContext = {
+    currency: String(cart.currency).toUpperCase() === "CAD" ? "CAD" : "USD",
+    lines: lines.map((l) => ({
+      productId: toInt(l.productId),
+      lineTotalCents: toInt(l.lineTotalCents) || toInt(l.quantity) * toInt(l.unitPriceCents),
+    })),
+    shippingCents: shippingCentsFromSelectedShipping(cart.selectedShipping),
+  };
+
+  return { cart, ctx };
+}
+
+async function getPromoCredit(cartId: string, database: DbOrTx = db) {
+  const [row] = await database
+    .select({ id: cartCredits.id, amountCents: cartCredits.amountCents, note: cartCredits.note })
+    .from(cartCredits)
+    .where(and(eq(cartCredits.cartId, cartId), eq(cartCredits.reason, PROMO_CREDIT_REASON)))
+    .limit(1);
+  return row ?? null;
+}
+
+async function writePromoCredit(cartId: string, code: string, amountCents: number, database: DbOrTx = db) {
+  // one promo per cart: replace whatever was there
+  await database
+    .delete(cartCredits)
+    .where(and(eq(cartCredits.cartId, cartId), eq(cartCredits.reason, PROMO_CREDIT_REASON)));
+
+  await database.insert(cartCredits).values({
+    cartId,
+    amountCents,
+    reason: PROMO_CREDIT_REASON,
+    note: code,
+  });
+}
+
+/* --------------------------------- public API --------------------------------- */
+
+export type ApplyPromoResult =
+  | { ok: true; code: string; amountCents: number; description: string | null }
+  | { ok: false; reason: PromoRejectReason | "cart_not_found"; message: string };
+
+export async function applyPromoCodeToCart(args: {
+  cartId: string;
+  code: unknown;
+  customerId: string | null;
+}): Promise<ApplyPromoResult> {
+  const code = normalizePromoCode(args.code);
+  if (!code) return { ok: false, reason: "invalid_code", message: "Enter a valid promo code." };
+
+  const loaded = await loadCartContext(args.cartId);
+  if (!loaded) return { ok: false, reason: "cart_not_found", message: "Cart not found." };
+
+  const promo = await findPromoByCode(code);
+  if (!promo) return { ok: false, reason: "not_found", message: "That promo code was not found." };
+
+  const customerId = args.customerId ?? loaded.cart.userId ?? null;
+  const usage = await loadUsage(promo.id, customerId);
+  const result = evaluatePromo(promo, loaded.ctx, usage, { customerId });
+  if (!result.ok) return result;
+
+  await writePromoCredit(args.cartId, code, result.amountCents);
+
+  return { ok: true, code, amountCents: result.amountCents, description: promo.description ?? null };
+}
+
+export async function removePromoFromCart(cartId: string): Promise<boolean> {
+  const rows = await db
+    .delete(cartCredits)
+    .where(and(eq(cartCredits.cartId, cartId), eq(cartCredits.reason, PROMO_CREDIT_REASON)))
+    .returning({ id: cartCredits.id });
+  return rows.length > 0;
+}
+
+export type RevalidatePromoResult =
+  | { status: "none" }
+  | { status: "unchanged" | "updated"; code: string; amountCents: number }
+  | { status: "removed"; code: string; reason: PromoRejectReason; message: string };
+
+/**
+ * Re-check the cart's promo after cart_lines / shipping change.
+ * Never throws for business rules; callers can surface `removed` to the customer.
+ */
+export async function revalidateCartPromo(
+  cartId: string,
+  opts: { customerId?: string | null } = {},
+): Promise<RevalidatePromoResult> {
+  const credit = await getPromoCredit(cartId);
+  if (!credit) return { status: "none" };
+
+  const code = normalizePromoCode(credit.note);
+  const loaded = await loadCartContext(cartId);
+  const promo = code ? await findPromoByCode(code) : null;
+
+  let result: PromoEvaluation;
+  if (!code || !promo) result = reject("not_found", "That promo code is no longer available.");
+  else if (!loaded) result = reject("no_eligible_items", "Cart not found.");
+  else {
+    const customerId = opts.customerId ?? loaded.cart.userId ?? null;
+    result = evaluatePromo(promo, loaded.ctx, await loadUsage(promo.id, customerId), { customerId });
+  }
+
+  if (!result.ok) {
+    await removePromoFromCart(cartId);
+    return { status: "removed", code: code ?? String(credit.note ?? ""), reason: result.reason, message: result.message };
+  }
+
+  if (result.amountCents === credit.amountCents) {
+    return { status: "unchanged", code: code!, amountCents: credit.amountCents };
+  }
+
+  await db.update(cartCredits).set({ amountCents: result.amountCents }).where(eq(cartCredits.id, credit.id));
+  return { status: "updated", code: code!, amountCents: result.amountCents };
+}
+
+/**
+ * Best-effort wrapper for cart mutation routes: a promo failure must never fail the cart write.
+ */
+export async function revalidateCartPromoSafe(cartId: string): Promise<RevalidatePromoResult | null> {
+  try {
+    return await revalidateCartPromo(cartId);
+  } catch (e: any) {
+    console.warn("[promo] revalidate failed:", e?.message || e);
+    return null;
+  }
+}
+
+/**
+ * Record a redemption for the cart's promo credit (if any).
+ * Call inside the order finalizer transaction BEFORE cart_credits are deleted.
+ * Idempotent on (promo_code_id, order_id).
+ *
+ * The promo row is locked while usage is counted, so concurrent orders cannot both take
+ * the last redemption. When the code is past its limits or window:
+ * - onLimit "reject": throws PROMO_NO_LONGER_VALID (409) and the caller's transaction rolls back
+ * - onLimit "flag":   the customer has already paid, so the row is written with over_limit_reason
+ */
+export async function recordPromoRedemption(
+  database: DbOrTx,
+  args: { cartId: string; orderId: string; customerId: string; currency: string; onLimit: "reject" | "flag" },
+): Promise<{ recorded: boolean; code?: string; overLimitReason?: PromoRejectReason }> {
+  const credit = await getPromoCredit(args.cartId, database);
+  if (!credit) return { recorded: false };
+
+  const code = normalizePromoCode(credit.note);
+  if (!code) return { recorded: false };
+
+  const [promo] = await database.select().from(promoCodes).where(eq(promoCodes.code, code)).limit(1).for("update");
+  if (!promo) return { recorded: false };
+
+  const [existing] = await database
+    .select({ id: promoRedemptions.id })
+    .from(promoRedemptions)
+    .where(and(eq(promoRedemptions.promoCodeId, promo.id), eq(promoRedemptions.orderId, args.orderId)))
+    .limit(1);
+  if (existing) return { recorded: false, code: promo.code };
+
+  const usage = await loadUsage(promo.id, args.customerId, database);
+  const limited = checkPromoLimits(promo, usage, { customerId: args.customerId });
+
+  if (limited && args.onLimit === "reject") {
+    throw new ApiError({
+      status: 409,
+      code: "PROMO_NO_LONGER_VALID",
+      message: limited.message,
+      details: { code: promo.code, reason: limited.reason },
+    });
+  }
+  if (limited) {
+    console.warn(`[promo] ${promo.code} redeemed past its limits by order ${args.orderId}: ${limited.reason}`);
+  }
+
+  const inserted = await database
+    .insert(promoRedemptions)
+    .values({
+      promoCodeId: promo.id,
+      orderId: args.orderId,
+      customerId: args.customerId,
+      amountCents: Math.max(0, toInt(credit.amountCents)),
+      currency: String(args.currency || "USD").toUpperCase(),
+      overLimitReason: limited?.reason ?? null,
+    })
+    .onConflictDoNothing()
+    .returning({ id: promoRedemptions.id });
+
+  return { recorded: inserted.length > 0, code: promo.code, overLimitReason: limited?.reason };
+}
@@ -0,0 +1,739 @@
+// src/lib/quotes.ts
+import "server-only";
+
+import { and, asc, desc, eq, ilike, lte, or, type SQL } from "drizzle-orm";
+import { z } from "zod";
+
+import { db } from "@/lib/db";
+import { ApiError } from "@/lib/apiError";
+import { quotes, quoteLines, type QuoteLineRow, type QuoteRow } from "@/lib/db/schema/quotes";
+import { quoteRequests } from "@/lib/db/schema/quote_requests";
+import { carts } from "@/lib/db/schema/cart";
+import { cartLines } from "@/lib/db/schema/cartLines";
+import { computePrice } from "@/lib/price/compute";
+import { signToken, verifyToken } from "@/lib/signedTokens";
+import { recordAdminAudit } from "@/lib/adminAudit";
+import type { AdminActionContext } from "@/lib/adminOrders";
+
+/**
+ * Staff-priced quotes.
+ *
+ * Staff build a draft (Sinalite lines priced like the cart unless overridden, custom lines
+ * priced by hand, optional shipping) and send it; the customer opens a signed link and
+ * accepts or declines before expires_at. Sent quotes past expiry are marked expired lazily
+ * (admin list, customer view/response). Staff can revise a sent, declined or expired quote
+ * back to draft, or cancel an unanswered one.
+ *
+ * Acceptance creates a fresh cart (new sid) whose lines carry quote_line_id: cart routes
+ * won't merge into or re-quantity those lines, and a quoted shipping price is pinned as the
+ * cart's selected_shipping, so checkout charges exactly what was quoted.
+ *
+ * A linked quote_requests row follows the quote ("quoted" once sent, then the outcome).
+ */
+
+export const QUOTE_STATUSES = ["draft", "sent", "accepted", "declined", "expired", "cancelled"] as const;
+export type QuoteStatus = (typeof QUOTE_STATUSES)[number];
+
+export type QuoteAction = "send" | "revise" | "accept" | "decline" | "expire" | "cancel";
+
+const TRANSITIONS: Record<QuoteAction, { from: readonly QuoteStatus[]; to: QuoteStatus }> = {
+  send: { from: ["draft"], to: "sent" },
+  revise: { from: ["sent", "declined", "expired"], to: "draft" },
+  accept: { from: ["sent"], to: "accepted" },
+  decline: { from: ["sent"], to: "declined" },
+  expire: { from: ["sent"], to: "expired" },
+  cancel: { from: ["draft", "sent"], to: "cancelled" },
+};
+
+/** Next quote status, or null when the action isn't allowed from `current`. */
+export function nextQuoteStatus(current: string, action: QuoteAction): QuoteStatus | null {
+  const t = TRANSITIONS[action];
+  return (t.from as readonly string[]).includes(current) ? t.to : null;
+}
+
+/** quote_requests.status for a quote status; drafts leave the request alone. */
+const REQUEST_STATUS: Partial<Record<QuoteStatus, string>> = {
+  sent: "quoted",
+  accepted: "accepted",
+  declined: "declined",
+  expired: "expired",
+  cancelled: "cancelled",
+};
+
+const DEFAULT_VALID_DAYS = 30;
+// The link keeps working a while past expiry so the customer sees "expired" instead of a dead link
+const VIEW_LINK_GRACE_SECONDS = 30 * 24 * 3600;
+
+type Db = typeof db;
+type Tx = Parameters<Parameters<Db["transaction"]>[0]>[0];
+
+/* --------------------------------- inputs --------------------------------- */
+
+const LineBase = {
+  description: z.string().trim().min(1).max(500),
+  quantity: z.number().int().min(1).max(1_000_000),
+};
+
+const QuoteLineInputSchema = z.discriminatedUnion("kind", [
+  z
+    .object({
+      kind: z.literal("sinalite"),
+      productId: z.number().int().positive(),
+      optionIds: z.array(z.number().int().positive()).min(1).max(40),
+      // Omit to price like the cart does; set to override
+      unitPriceCents: z.number().int().min(0).optional(),
+      ...LineBase,
+    })
+    .strict(),
+  z
+    .object({
+      kind: z.literal("custom"),
+      unitPriceCents: z.number().int().min(0),
+      ...LineBase,
+    })
+    .strict(),
+]);
+
+export type QuoteLineInput = z.infer<typeof QuoteLineInputSchema>;
+
+const ShipToSchema = z
+  .object({
+    country: z.enum(["US", "CA"]),
+    state: z.string().trim().min(2).max(40),
+    zip: z.string().trim().max(20).optional(),
+    city: z.string().trim().max(120).optional(),
+  })
+  .strict();
+
+const optionalText = (max: number) => z.string().trim().max(max).nullish().transform((v) => v || null);
+
+const QuoteInputSchema = z
+  .object({
+    quoteRequestId: z.string().uuid().nullish(),
+    customerEmail: z.string().trim().toLowerCase().email().max(320),
+    customerName: optionalText(160),
+    company: optionalText(200),
+    userId: optionalText(80),
+    store: z.enum(["US", "CA"]).default("US"),
+    shippingLabel: optionalText(120),
+    shippingCents: z.number().int().min(0).default(0),
+    shipTo: ShipToSchema.nullish(),
+    message: optionalText(5000),
+    internalNotes: optionalText(5000),
+    expiresAt: z.coerce.date().optional(),
+    lines: z.array(QuoteLineInputSchema).min(1).max(50),
+  })
+  .strict()
+  .refine((v) => v.shippingCents === 0 || Boolean(v.shippingLabel && v.shipTo), {
+    message: "Quoted shipping needs a label and a ship-to address",
+    path: ["shippingCents"],
+  })
+  .refine((v) => !v.shipTo || v.shipTo.country === v.store, {
+    message: "Ship-to country must match the store",
+    path: ["shipTo", "country"],
+  });
+
+export type QuoteInput = z.infer<typeof QuoteInputSchema>;
+
+const CustomerResponseSchema = z
+  .object({
+    decision: z.enum(["accept", "decline"]),
+    reason: z.string().trim().max(2000).optional(),
+  })
+  .strict();
+
+const QuoteFiltersSchema = z.object({
+  status: z.enum(QUOTE_STATUSES).optional(),
+  q: z.string().trim().min(1).max(200).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+export type QuoteFilters = z.infer<typeof QuoteFiltersSchema>;
+
+function parseInput<T>(schema: z.ZodType<T>, raw: unknown, message: string): T {
+  const parsed = schema.safeParse(raw);
+  if (!parsed.success) {
+    throw new ApiError(422, message, {
+      code: "VALIDATION_ERROR",
+      details: parsed.error.issues.map((i) => ({ path: i.path.join("."), message: i.message })),
+    });
+  }
+  return parsed.data;
+}
+
+/** Query string -> filters; empty params are ignored. Throws ApiError 422. */
+export function parseQuoteFilters(sp: URLSearchParams): QuoteFilters {
+  const raw: Record<string, string> = {};
+  for (const [k, v] of sp.entries()) if (v.trim()) raw[k] = v;
+  return parseInput(QuoteFiltersSchema, raw, "Invalid quote filters");
+}
+
+/** Validate a full quote body (create, or PATCH merged over the current quote). */
+export function parseQuoteInput(raw: unknown): QuoteInput {
+  return parseInput(QuoteInputSchema, raw, "Invalid quote");
+}
+
+/* --------------------------------- pricing -------------------------------- */
+
+export type PricedLine = Omit<typeof quoteLines.$inferInsert, "quoteId">;
+
+export function quoteTotals(lines: Array<{ lineTotalCents: number }>, shippingCents: number) {
+  const subtotalCents = lines.reduce((sum, l) => sum + l.lineTotalCents, 0);
+  return { subtotalCents, totalCents: subtotalCents + shippingCents };
+}
+
+/** Sinalite lines without a staff price get today's cart price (trade cost + tiered markup). */
+async function priceLines(input: QuoteInput): Promise<PricedLine[]> {
+  const out: PricedLine[] = [];
+
+  for (const [position, line] of input.lines.entries()) {
+    let unitPriceCents = line.unitPriceCents;
+
+    if (line.kind === "sinalite" && unitPriceCents === undefined) {
+      try {
+        const priced = await computePrice({
+          productId: line.productId,
+          store: input.store,
+          quantity: line.quantity,
+          optionIds: line.optionIds,
+        });
+        unitPriceCents = priced.unitSellCents;
+      } catch (e: unknown) {
+        throw new ApiError({
+          status: 422,
+          code: "QUOTE_PRICING_FAILED",
+          message: `Couldn't price line ${position + 1}; enter a unit price instead`,
+          details: { position, productId: line.productId, reason: e instanceof Error ? e.message : String(e) },
+        });
+      }
+    }
+
+    const unit = unitPriceCents ?? 0;
+    out.push({
+      position,
+      kind: line.kind,
+      productId: line.kind === "sinalite" ? line.productId : null,
+      optionIds: line.kind === "sinalite" ? line.optionIds : [],
+      description: line.description,
+      quantity: line.quantity,
+      unitPriceCents: unit,
+      lineTotalCents: unit * line.quantity,
+    });
+  }
+
+  return out;
+}
+
+function quoteValues(input: QuoteInput, lines: PricedLine[]) {
+  return {
+    quoteRequestId: input.quoteRequestId ?? null,
+    customerEmail: input.customerEmail,
+    customerName: input.customerName,
+    company: input.company,
+    userId: input.userId,
+    store: input.store,
+    currency: input.store === "CA" ? "CAD" : "USD",
+    shippingLabel: input.shippingCents > 0 ? input.shippingLabel : null,
+    shippingCents: input.shippingCents,
+    shipTo: input.shipTo ?? null,
+    message: input.message,
+    internalNotes: input.internalNotes,
+    expiresAt: input.expiresAt ?? new Date(Date.now() + DEFAULT_VALID_DAYS * 24 * 3600_000),
+    ...quoteTotals(lines, input.shippingCents),
+  };
+}
+
+/* --------------------------------- reads ---------------------------------- */
+
+export type QuoteWithLines = QuoteRow & { lines: QuoteLineRow[] };
+
+function escapeLike(v: string): string {
+  return v.replace(/[\\%_]/g, (c) => `\\${c}`);
+}
+
+export async function listQuotes(filters: QuoteFilters) {
+  await expireStaleQuotes();
+
+  const where: SQL[] = [];
+  if (filters.status) where.push(eq(quotes.status, filters.status));
+  if (filters.q) {
+    const like = `%${escapeLike(filters.q)}%`;
+    where.push(
+      or(
+        ilike(quotes.quoteNumber, like),
+        ilike(quotes.customerEmail, like),
+        ilike(quotes.customerName, like),
+        ilike(quotes.company, like),
+      )!,
+    );
+  }
+
+  return db
+    .select({
+      id: quotes.id,
+      quoteNumber: quotes.quoteNumber,
+      status: quotes.status,
+      customerEmail: quotes.customerEmail,
+      customerName: quotes.customerName,
+      company: quotes.company,
+      currency: quotes.currency,
+      totalCents: quotes.totalCents,
+      expiresAt: quotes.expiresAt,
+      sentAt: quotes.sentAt,
+      respondedAt: quotes.respondedAt,
+      quoteRequestId: quotes.quoteRequestId,
+      cartId: quotes.cartId,
+      createdAt: quotes.createdAt,
+    })
+    .from(quotes)
+    .where(where.length ? and(...where) : undefined)
+    .orderBy(desc(quotes.createdAt))
+    .limit(filters.limit)
+    .offset(filters.offset);
+}
+
+async function loadLines(database: Db | Tx, quoteId: string): Promise<QuoteLineRow[]> {
+  return database.select().from(quoteLines).where(eq(quoteLines.quoteId, quoteId)).orderBy(asc(quoteLines.position));
+}
+
+export async function getQuote(quoteId: string): Promise<QuoteWithLines> {
+  const [quote] = await db.select().from(quotes).where(eq(quotes.id, quoteId)).limit(1);
+  if (!quote) throw new ApiError({ status: 404, code: "QUOTE_NOT_FOUND", message: "Quote not found" });
+  return { ...quote, lines: await loadLines(db, quote.id) };
+}
+
+/* --------------------------------- writes --------------------------------- */
+
+async function lockQuote(tx: Tx, quoteId: string): Promise<QuoteRow> {
+  const [quote] = await tx.select().from(quotes).where(eq(quotes.id, quoteId)).for("update").limit(1);
+  if (!quote) throw new ApiError({ status: 404, code: "QUOTE_NOT_FOUND", message: "Quote not found" });
+  return quote;
+}
+
+function transitionOrThrow(quote: QuoteRow, action: QuoteAction): QuoteStatus {
+  const to = nextQuoteStatus(quote.status, action);
+  if (!to) {
+    throw new ApiError({
+      status: 409,
+      code: "INVALID_QUOTE_TRANSITION",
+      message: `Quote ${quote.quoteNumber} is ${quote.status}; it can't be changed that way`,
+      details: { status: quote.status, action },
+    });
+  }
+  return to;
+}
+
+async function syncRequestStatus(tx: Tx, quoteRequestId: string | null, status: QuoteStatus) {
+  const requestStatus = REQUEST_STATUS[status];
+  if (!quoteRequestId || !requestStatus) return;
+  await tx
+    .update(quoteRequests)
+    .set({ status: requestStatus, updatedAt: new Date() })
+    .where(eq(quoteRequests.id, quoteRequestId));
+}
+
+async function replaceLines(tx: Tx, quoteId: string, lines: PricedLine[]) {
+  await tx.delete(quoteLines).where(eq(quoteLines.quoteId, quoteId));
+  await tx.insert(quoteLines).values(lines.map((l) => ({ ...l, quoteId })));
+}
+
+export async function createQuote(raw: unknown, ctx: AdminActionContext): Promise<QuoteWithLines> {
+  const input = parseQuoteInput(raw);
+  const lines = await priceLines(input);
+
+  const quoteId = await db.transaction(async (tx) => {
+    const [quote] = await tx
+      .insert(quotes)
+      .values({ ...quoteValues(input, lines), status: "draft", createdBy: ctx.actor, updatedBy: ctx.actor })
+      .returning();
+    await replaceLines(tx, quote.id, lines);
+
+    await recordAdminAudit(tx, {
+      actor: ctx.actor,
+      action: "quote.create",
+      targetType: "quote",
+      targetId: quote.id,
+      requestId: ctx.requestId,
+      details: { quoteNumber: quote.quoteNumber, quoteRequestId: quote.quoteRequestId, totalCents: quote.totalCents },
+    });
+    return quote.id;
+  });
+
+  return getQuote(quoteId);
+}
+
+/** Current quote in input shape, so a PATCH can be merged over it and validated whole. */
+function quoteAsInput(quote: QuoteWithLines): Record<string, unknown> {
+  return {
+    quoteRequestId: quote.quoteRequestId,
+    customerEmail: quote.customerEmail,
+    customerName: quote.customerName,
+    company: quote.company,
+    userId: quote.userId,
+    store: quote.store,
+    shippingLabel: quote.shippingLabel,
+    shippingCents: quote.shippingCents,
+    shipTo: quote.shipTo,
+    message: quote.message,
+    internalNotes: quote.internalNotes,
+    expiresAt: quote.expiresAt,
+    // existing prices stay as they were (no silent repricing on unrelated edits)
+    lines: quote.lines.map((l) =>
+      l.kind === "sinalite"
+        ? {
+            kind: "sinalite",
+            productId: l.productId,
+            optionIds: l.optionIds,
+            unitPriceCents: l.unitPriceCents,
+            description: l.description,
+            quantity: l.quantity,
+          }
+        : { kind: "custom", unitPriceCents: l.unitPriceCents, description: l.description, quantity: l.quantity },
+    ),
+  };
+}
+
+/** Edit a draft. `lines`, when given, replaces every line. */
+export async function updateQuote(quoteId: string, raw: unknown, ctx: AdminActionContext): Promise<QuoteWithLines> {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    throw new ApiError({ status: 400, code: "BAD_REQUEST", message: "Expected a JSON object" });
+  }
+
+  const current = await getQuote(quoteId);
+  if (current.status !== "draft") {
+    throw new ApiError({
+      status: 409,
+      code: "QUOTE_NOT_EDITABLE",
+      message: `Quote ${current.quoteNumber} is ${current.status}; revise it to a draft before editing`,
+    });
+  }
+
+  const input = parseQuoteInput({ ...quoteAsInput(current), ...(raw as Record<string, unknown>) });
+  const lines = await priceLines(input);
+
+  await db.transaction(async (tx) => {
+    const locked = await lockQuote(tx, quoteId);
+    if (locked.status !== "draft") {
+      throw new ApiError({ status: 409, code: "QUOTE_NOT_EDITABLE", message: "Quote changed while you were editing" });
+    }
+
+    await tx
+      .update(quotes)
+      .set({ ...quoteValues(input, lines), updatedBy: ctx.actor, updatedAt: new Date() })
+      .where(eq(quotes.id, quoteId));
+    await replaceLines(tx, quoteId, lines);
+
+    await recordAdminAudit(tx, {
+      actor: ctx.actor,
+      action: "quote.update",
+      targetType: "quote",
+      targetId: quoteId,
+      requestId: ctx.requestId,
+      details: { fields: Object.keys(raw as object), totalCents: quoteTotals(lines, input.shippingCents).totalCents },
+    });
+  });
+
+  return getQuote(quoteId);
+}
+
+/** Staff lifecycle actions: send (emails the customer), revise back to draft, cancel. */
+export async function applyQuoteAction(
+  quoteId: string,
+  action: "send" | "revise" | "cancel",
+  ctx: AdminActionContext,
+): Promise<QuoteWithLines> {
+  await db.transaction(async (tx) => {
+    const quote = await lockQuote(tx, quoteId);
+    const status = transitionOrThrow(quote, action);
+    const now = new Date();
+
+    if (action === "send" && quote.expiresAt.getTime() <= now.getTime()) {
+      throw new ApiError({
+        status: 409,
+        code: "QUOTE_EXPIRY_PAST",
+        message: "Set an expiry date in the future before sending",
+      });
+    }
+
+    await tx
+      .update(quotes)
+      .set({
+        status,
+        updatedBy: ctx.actor,
+        updatedAt: now,
+        ...(action === "send" ? { sentAt: now, respondedAt: null, declineReason: null } : {}),
+      })
+      .where(eq(quotes.id, quote.id));
+
+    await syncRequestStatus(tx, quote.quoteRequestId, status);
+
+    await recordAdminAudit(tx, {
+      actor: ctx.actor,
+      action: `quote.${action}`,
+      targetType: "quote",
+      targetId: quote.id,
+      requestId: ctx.requestId,
+      details: { quoteNumber: quote.quoteNumber, from: quote.status, to: status },
+    });
+  });
+
+  const quote = await getQuote(quoteId);
+  if (action === "send") await emailQuote(quote);
+  return quote;
+}
+
+/**
+ * Mark sent quotes past expires_at as expired (and their requests). Called before the admin
+ * list and by the customer paths, so there's no job for it.
+ */
+export async function expireStaleQuotes(now = new Date()): Promise<number> {
+  return db.transaction(async (tx) => {
+    const expired = await tx
+      .update(quotes)
+      .set({ status: "expired", updatedAt: now })
+      .where(and(eq(quotes.status, "sent"), lte(quotes.expiresAt, now)))
+      .returning({ id: quotes.id, quoteRequestId: quotes.quoteRequestId });
+
+    for (const q of expired) await syncRequestStatus(tx, q.quoteRequestId, "expired");
+    return expired.length;
+  });
+}
+
+/* -------------------------------- customer -------------------------------- */
+
+export function quoteViewToken(quote: Pick<QuoteRow, "id" | "expiresAt">, now = Date.now()): string {
+  const ttl = Math.max(0, Math.floor((quote.expiresAt.getTime() - now) / 1000)) + VIEW_LINK_GRACE_SECONDS;
+  return signToken("quote_view", quote.id, ttl, now);
+}
+
+function siteBaseUrl(): string {
+  const raw = process.env.NEXT_PUBLIC_SITE_URL || process.env.SITE_URL || "https://adapnow.com";
+  return String(raw).trim().replace(/\/+$/, "");
+}
+
+export function quoteViewUrl(quote: Pick<QuoteRow, "id" | "expiresAt">, now = Date.now()): string {
+  return `${siteBaseUrl()}/quotes/${encodeURIComponent(quoteViewToken(quote, now))}`;
+}
+
+/** What the customer sees: no internal notes, no staff identities. */
+export type CustomerQuote = {
+  quoteNumber: string;
+  status: QuoteStatus;
+  customerName: string | null;
+  company: string | null;
+  currency: string;
+  message: string | null;
+  shippingLabel: string | null;
+  shippingCents: number;
+  subtotalCents: number;
+  totalCents: number;
+  expiresAt: Date;
+  respondedAt: Date | null;
+  lines: Array<Pick<QuoteLineRow, "description" | "quantity" | "unitPriceCents" | "lineTotalCents">>;
+};
+
+function customerView(quote: QuoteWithLines): CustomerQuote {
+  return {
+    quoteNumber: quote.quoteNumber,
+    status: quote.status as QuoteStatus,
+    customerName: quote.customerName,
+    company: quote.company,
+    currency: quote.currency,
+    message: quote.message,
+    shippingLabel: quote.shippingLabel,
+    shippingCents: quote.shippingCents,
+    subtotalCents: quote.subtotalCents,
+    totalCents: quote.totalCents,
+    expiresAt: quote.expiresAt,
+    respondedAt: quote.respondedAt,
+    lines: quote.lines.map((l) => ({
+      description: l.description,
+      quantity: l.quantity,
+      unitPriceCents: l.unitPriceCents,
+      lineTotalCents: l.lineTotalCents,
+    })),
+  };
+}
+
+function quoteIdFromToken(token: string): string {
+  const quoteId = verifyToken("quote_view", token);
+  if (!quoteId) throw new ApiError({ status: 404, code: "QUOTE_NOT_FOUND", message: "This quote link is invalid or has expired" });
+  return quoteId;
+}
+
+/**
+ * Full quote behind a customer link (for rendering its PDF; don't serialize it, it has
+ * internal notes). Drafts and cancelled quotes read as not found.
+ */
+export async function loadQuoteForCustomer(token: string): Promise<QuoteWithLines> {
+  await expireStaleQuotes();
+
+  const quote = await getQuote(quoteIdFromToken(token));
+  if (quote.status === "draft" || quote.status === "cancelled") {
+    throw new ApiError({ status: 404, code: "QUOTE_NOT_FOUND", message: "This quote is no longer available" });
+  }
+  return quote;
+}
+
+export async function getQuoteForCustomer(token: string): Promise<CustomerQuote> {
+  return customerView(await loadQuoteForCustomer(token));
+}
+
+export type QuoteResponseResult = {
+  quote: CustomerQuote;
+  /** Set on acceptance: the cart session to attach this browser to. */
+  cart: { id: string; sid: string } | null;
+};
+
+/**
+ * Customer accepts or declines. Accepting creates the locked cart; accepting again returns
+ * the same cart while it's still open (e.g. the link opened on another device).
+ */
+export async function respondToQuote(
+  token: string,
+  raw: unknown,
+  visitor: { userId: string | null },
+): Promise<QuoteResponseResult> {
+  const input = parseInput(CustomerResponseSchema, raw, "Invalid quote response");
+  const quoteId = quoteIdFromToken(token);
+  await expireStaleQuotes();
+
+  const cart = await db.transaction(async (tx) => {
+    const quote = await lockQuote(tx, quoteId);
+
+    if (quote.status === "draft" || quote.status === "cancelled") {
+      throw new ApiError({ status: 404, code: "QUOTE_NOT_FOUND", message: "This quote is no longer available" });
+    }
+
+    if (input.decision === "accept" && quote.status === "accepted" && quote.cartId) {
+      const [existing] = await tx
+        .select({ id: carts.id, sid: carts.sid, status: carts.status })
+        .from(carts)
+        .where(eq(carts.id, quote.cartId))
+        .limit(1);
+      if (existing?.status === "open") return { id: existing.id, sid: existing.sid };
+      throw new ApiError({ status: 409, code: "QUOTE_ALREADY_ORDERED", message: "This quote has already been ordered" });
+    }
+
+    const status = nextQuoteStatus(quote.status, input.decision);
+    if (!status) {
+      throw new ApiError({
+        status: quote.status === "expired" ? 410 : 409,
+        code: quote.status === "expired" ? "QUOTE_EXPIRED" : "INVALID_QUOTE_TRANSITION",
+        message:
+          quote.status === "expired"
+            ? "This quote has expired. Reply to the quote email and we'll refresh it."
+            : `This quote was already ${quote.status}`,
+      });
+    }
+
+    const now = new Date();
+    let created: { id: string; sid: string } | null = null;
+
+    if (status === "accepted") {
+      const lines = await loadLines(tx, quote.id);
+      created = await createQuoteCart(tx, quote, lines, visitor.userId);
+    }
+
+    await tx
+      .update(quotes)
+      .set({
+        status,
+        respondedAt: now,
+        updatedAt: now,
+        declineReason: status === "declined" ? input.reason || null : null,
+        ...(created ? { cartId: created.id } : {}),
+        ...(!quote.userId && visitor.userId ? { userId: visitor.userId } : {}),
+      })
+      .where(eq(quotes.id, quote.id));
+
+    await syncRequestStatus(tx, quote.quoteRequestId, status);
+    return created;
+  });
+
+  return { quote: customerView(await getQuote(quoteId)), cart };
+}
+
+/** New open cart (own sid) holding the quote's lines at their quoted prices. */
+async function createQuoteCart(tx: Tx, quote: QuoteRow, lines: QuoteLineRow[], visitorUserId: string | null) {
+  const selectedShipping =
+    quote.shippingCents > 0 && quote.shipTo
+      ? {
+          carrier: "Quote",
+          method: quote.shippingLabel || "Quoted shipping",
+          cost: quote.shippingCents / 100,
+          currency: quote.currency,
+          country: quote.shipTo.country,
+          state: quote.shipTo.state,
+          zip: quote.shipTo.zip ?? "",
+          city: quote.shipTo.city ?? "",
+          quoteId: quote.id,
+        }
+      : null;
+
+  const [cart] = await tx
+    .insert(carts)
+    .values({
+      sid: crypto.randomUUID(),
+      status: "open",
+      userId: quote.userId ?? visitorUserId,
+      currency: quote.currency,
+      selectedShipping,
+    })
+    .returning({ id: carts.id, sid: carts.sid });
+
+  await tx.insert(cartLines).values(
+    lines.map((l) => ({
+      cartId: cart.id,
+      // custom lines are produced in-house; product 0 keeps them out of Sinalite submission
+      productId: l.productId ?? 0,
+      quantity: l.quantity,
+      unitPriceCents: l.unitPriceCents,
+      lineTotalCents: l.lineTotalCents,
+      optionIds: l.optionIds,
+      optionChain: l.optionIds.length ? l.optionIds.join(",") : null,
+      currency: quote.currency,
+      quoteLineId: l.id,
+    })),
+  );
+
+  return cart;
+}
+
+/* ------------------------------- side effects ------------------------------ */
+
+/**
+ * Best-effort: the quote is already marked sent; staff can resend by revising and sending again.
+ * The PDF is attached when it renders; the link in the email works either way.
+ */
+async function emailQuote(quote: QuoteWithLines) {
+  try {
+    const { renderQuotePdf, quotePdfFilename } = await import("@/lib/pdf/quotePdf");
+    const pdf = await renderQuotePdf(quote).catch((e: any) => {
+      console.error("[quotes] quote PDF failed:", { quoteId: quote.id, error: e?.message || e });
+      return null;
+    });
+
+    // React Email is heavy; only load it when there's something to send
+    const { sendQuoteEmail } = await import("@/lib/email/sendQuoteEmail");
+    await sendQuoteEmail({
+      to: quote.customerEmail,
+      name: quote.customerName || "there",
+      quoteNumber: quote.quoteNumber,
+      currency: quote.currency,
+      lines: quote.lines.map((l) => ({ description: l.description, quantity: l.quantity, lineTotalCents: l.lineTotalCents })),
+      shippingLabel: quote.shippingLabel,
+      shippingCents: quote.shippingCents,
+      totalCents: quote.totalCents,
+      expiresAt: quote.expiresAt,
+      message: quote.message,
+      viewUrl: quoteViewUrl(quote),
+      pdf: pdf ? { filename: quotePdfFilename(quote.quoteNumber), content: pdf } : null,
+    });
+    return { sent: true as const };
+  } catch (e: any) {
+    console.error("[quotes] quote email failed:", { quoteId: quote.id, error: e?.message || e });
+    return { sent: false as const };
+  }
+}
@@ -1,34 +1,191 @@
 // src/lib/rateLimit.ts
 import { NextResponse } from "next/server";
 
+import { ApiError } from "@/lib/apiError";
+import {
+  createKvRateLimitStore,
+  createMemoryRateLimitStore,
+  createPostgresRateLimitStore,
+  type RateLimitKv,
+  type RateLimitStore,
+} from "@/lib/rateLimitStores";
+
+export type { RateLimitStore } from "@/lib/rateLimitStores";
+
 /**
- * Simple in-memory IP-based token bucket.
- * - Suitable for single-instance or dev use.
- * - For distributed deployments, replace with Redis or an edge KV.
+ * Storage-agnostic sliding-window rate limiter.
+ * - Counters live in a pluggable store (memory / Postgres / Cloudflare KV), so limits hold
+ *   across Workers isolates and server instances.
+ * - Sliding window = weighted sum of the current and previous fixed windows.
+ *
+ * Store selection (RATE_LIMIT_STORE):
+ * - "kv"       -> RATE_LIMIT_KV binding (Cloudflare)
+ * - "postgres" -> rate_limit_counters table
+ * - "memory"   -> per-process map (dev/tests only)
+ * - unset/auto -> kv when bound, else postgres when DATABASE_URL is set, else memory
  *
  * Notes:
- * - Uses X-Forwarded-For when present, otherwise falls back to "local".
- * - Exposes both a low-level thrower (rateLimit) and a route-friendly helper (enforceRateLimit).
+ * - Client IP prefers CF-Connecting-IP, then X-Forwarded-For, then X-Real-IP.
+ * - Store failures fail OPEN (logged) so a DB/KV outage never blocks checkout traffic.
+ * - Exposes a low-level thrower (rateLimit), a route-friendly helper (enforceRateLimit)
+ *   and an ApiError thrower (assertRateLimit) for routes that funnel errors through fail().
  */
 
-type Bucket = { count: number; resetAt: number };
-const buckets = new Map<string, Bucket>();
-
 function firstHeaderValue(headers: Headers, name: string): string {
   const v = headers.get(name);
   if (!v) return "";
   return v.split(",")[0]?.trim() ?? "";
 }
 
-function ipFrom(req: Request): string {
-  // Prefer proxy header; fall back to a stable placeholder in local/dev.
-  // If you're behind multiple proxies, the left-most entry is the client IP in typical setups.
-  const xff = firstHeaderValue(req.headers, "x-forwarded-for");
-  return xff || "local";
+/**
+ * Client IP for rate limiting / audit.
+ * On Cloudflare, CF-Connecting-IP is set by the edge and cannot be spoofed by the client,
+ * unlike the left-most X-Forwarded-For entry.
+ */
+export function clientIpFrom(source: Request | Headers, fallback = "local"): string {
+  const headers = source instanceof Headers ? source : source.headers;
+  return (
+    firstHeaderValue(headers, "cf-connecting-ip") ||
+    firstHeaderValue(headers, "x-forwarded-for") ||
+    firstHeaderValue(headers, "x-real-ip") ||
+    fallback
+  );
+}
+
+/* ---------------------------------- store ---------------------------------- */
+
+let storeOverride: RateLimitStore | null = null;
+let resolvedStore: RateLimitStore | null = null;
+let memoryStore: RateLimitStore | null = null;
+
+function getMemoryStore(): RateLimitStore {
+  if (!memoryStore) memoryStore = createMemoryRateLimitStore();
+  return memoryStore;
+}
+
+async function kvBinding(): Promise<RateLimitKv | null> {
+  try {
+    const { getCloudflareContext } = await import("@opennextjs/cloudflare");
+    const { env } = await getCloudflareContext({ async: true });
+    const kv = (env as Record<string, unknown>)["RATE_LIMIT_KV"] as RateLimitKv | undefined;
+    return kv && typeof kv.get === "function" && typeof kv.put === "function" ? kv : null;
+  } catch {
+    // not running on Workers (next dev / node)
+    return null;
+  }
 }
 
-function keyFor(req: Request, scope: string): string {
-  return `${scope}:${ipFrom(req)}`;
+function hasDatabaseUrl(): boolean {
+  return Boolean(process.env.DATABASE_URL || process.env.POSTGRES_URL || process.env.NEON_URL);
+}
+
+async function resolveStore(): Promise<RateLimitStore> {
+  if (storeOverride) return storeOverride;
+  if (resolvedStore) return resolvedStore;
+
+  const wanted = String(process.env.RATE_LIMIT_STORE ?? "auto").trim().toLowerCase();
+
+  if (wanted === "memory") {
+    resolvedStore = getMemoryStore();
+  } else if (wanted === "postgres") {
+    resolvedStore = createPostgresRateLimitStore();
+  } else {
+    const kv = await kvBinding();
+    if (kv) resolvedStore = createKvRateLimitStore(kv);
+    else if (wanted === "kv") {
+      console.warn("[rateLimit] RATE_LIMIT_STORE=kv but no RATE_LIMIT_KV binding; using memory");
+      resolvedStore = getMemoryStore();
+    } else resolvedStore = hasDatabaseUrl() ? createPostgresRateLimitStore() : getMemoryStore();
+  }
+
+  return resolvedStore;
+}
+
+/** Swap the backing store (tests, or custom adapters such as a Durable Object). Pass null to reset. */
+export function setRateLimitStore(store: RateLimitStore | null): void {
+  storeOverride = store;
+  resolvedStore = null;
+}
+
+/* --------------------------------- limiter --------------------------------- */
+
+export type RateLimitDecision = {
+  ok: boolean;
+  limit: number;
+  remaining: number;
+  resetSec: number;
+  retryAfterSec: number;
+  headers: Record<string, string>;
+};
+
+export type RateLimitCheck = {
+  /** Logical limiter name, e.g. "quotes" or "uploads:r2" */
+  scope: string;
+  /** Who is being limited (usually the client IP) */
+  subject: string;
+  limit: number;
+  windowMs: number;
+  now?: number;
+};
+
+/**
+ * Count one hit and decide.
+ * Blocked hits still count, so hammering a limited endpoint keeps you limited.
+ */
+export async function checkRateLimit(opts: RateLimitCheck): Promise<RateLimitDecision> {
+  const limit = Math.max(1, Math.trunc(opts.limit));
+  const windowMs = Math.max(1000, Math.trunc(opts.windowMs));
+  const now = opts.now ?? Date.now();
+
+  const windowIndex = Math.floor(now / windowMs);
+  const elapsed = now - windowIndex * windowMs;
+  const base = `${opts.scope}:${opts.subject || "unknown"}`;
+
+  let current: number;
+  let previous: number;
+  try {
+    const store = await resolveStore();
+    // keep each bucket alive through the following window so it can be weighted
+    current = await store.increment(`${base}:${windowIndex}`, windowMs * 2);
+    previous = await store.get(`${base}:${windowIndex - 1}`);
+  } catch (e: any) {
+    console.warn("[rateLimit] store failed; allowing request:", e?.message || e);
+    current = 0;
+    previous = 0;
+  }
+
+  const weight = 1 - elapsed / windowMs;
+  const estimated = previous * weight + current;
+  const ok = estimated <= limit;
+
+  const resetSec = Math.max(1, Math.ceil((windowMs - elapsed) / 1000));
+
+  let retryAfterSec = 0;
+  if (!ok) {
+    if (current > limit || previous <= 0) {
+      retryAfterSec = resetSec;
+    } else {
+      // previous window's weight must decay until previous * (1 - t/W) + current <= limit
+      const t = windowMs * (1 - (limit - current) / previous);
+      retryAfterSec = Math.max(1, Math.ceil((t - elapsed) / 1000));
+    }
+  }
+
+  const headers: Record<string, string> = {
+    "X-RateLimit-Limit": String(limit),
+    "X-RateLimit-Remaining": String(Math.max(0, Math.floor(limit - estimated))),
+    "X-RateLimit-Reset": String(resetSec),
+  };
+  if (!ok) headers["Retry-After"] = String(retryAfterSec);
+
+  return {
+    ok,
+    limit,
+    remaining: Math.max(0, Math.floor(limit - estimated)),
+    resetSec,
+    retryAfterSec,
+    headers,
+  };
 }
 
 export type RateLimitOk = { headers: Record<string, string> };
@@ -39,7 +196,7 @@ export type RateLimitError = Error & {
 };
 
 /**
- * Low-level limiter.
+ * Low-level limiter (keyed on client IP).
  * Throws an Error with status/headers when the limit is exceeded.
  * Returns rate headers on success (so you can forward them if you want).
  */
@@ -49,39 +206,33 @@ export async function rateLimit(
   limit = 60,
   windowMs = 60_000,
 ): Promise<RateLimitOk> {
-  const now = Date.now();
-  const key = keyFor(req, scope);
-
-  const current = buckets.get(key);
-  const bucket: Bucket =
-    current && now <= current.resetAt
-      ? current
-      : { count: 0, resetAt: now + windowMs };
-
-  bucket.count += 1;
-  buckets.set(key, bucket);
+  const decision = await checkRateLimit({ scope, subject: clientIpFrom(req), limit, windowMs });
 
-  // Remaining should be 0 when you're at/over the limit.
-  const remaining = Math.max(0, limit - bucket.count);
-  const resetSec = Math.max(1, Math.ceil((bucket.resetAt - now) / 1000));
-
-  const headers: Record<string, string> = {
-    "X-RateLimit-Limit": String(limit),
-    "X-RateLimit-Remaining": String(remaining),
-    "X-RateLimit-Reset": String(resetSec),
-  };
-
-  if (bucket.count > limit) {
-    const err = new Error(`Rate limit exceeded. Try again in ${resetSec}s.`) as RateLimitError;
+  if (!decision.ok) {
+    const err = new Error(`Rate limit exceeded. Try again in ${decision.retryAfterSec}s.`) as RateLimitError;
     err.status = 429;
-    err.headers = {
-      ...headers,
-      "Retry-After": String(resetSec),
-    };
+    err.headers = decision.headers;
     throw err;
   }
 
-  return { headers };
+  return { headers: decision.headers };
+}
+
+/**
+ * Same check, surfaced as ApiError(429, RATE_LIMITED, { retryAfter }) for routes that
+ * already map ApiError through fail().
+ */
+export async function assertRateLimit(opts: RateLimitCheck): Promise<RateLimitDecision> {
+  const decision = await checkRateLimit(opts);
+  if (!decision.ok) {
+    throw new ApiError({
+      status: 429,
+      code: "RATE_LIMITED",
+      message: "Too many requests. Please try again shortly.",
+      details: { retryAfter: decision.retryAfterSec },
+    });
+  }
+  return decision;
 }
 
 /**
@@ -0,0 +1,148 @@
+// src/lib/rateLimitStores.ts
+import "server-only";
+
+import { lt, sql } from "drizzle-orm";
+
+import { db } from "@/lib/db";
+import { rateLimitCounters } from "@/lib/db/schema/rateLimits";
+
+/**
+ * Storage adapters for src/lib/rateLimit.ts.
+ *
+ * The limiter only needs two primitives on short-lived counters:
+ * - increment(key, ttlMs) -> new value (creating the counter when missing/expired)
+ * - get(key)              -> current value (0 when missing/expired)
+ *
+ * Adapters:
+ * - memory   : per-process Map (dev/tests; NOT shared across Workers isolates)
+ * - postgres : rate_limit_counters table (atomic upsert)
+ * - kv       : Cloudflare KV / Durable-Object-style binding ({ get, put })
+ */
+
+export interface RateLimitStore {
+  readonly name: string;
+  increment(key: string, ttlMs: number): Promise<number>;
+  get(key: string): Promise<number>;
+}
+
+/* --------------------------------- memory --------------------------------- */
+
+export function createMemoryRateLimitStore(now: () => number = Date.now): RateLimitStore {
+  const counters = new Map<string, { count: number; expiresAt: number }>();
+  let lastSweep = 0;
+
+  function sweep(t: number) {
+    if (t - lastSweep < 60_000) return;
+    lastSweep = t;
+    for (const [k, v] of counters) if (v.expiresAt <= t) counters.delete(k);
+  }
+
+  return {
+    name: "memory",
+
+    async increment(key, ttlMs) {
+      const t = now();
+      sweep(t);
+
+      const current = counters.get(key);
+      if (!current || current.expiresAt <= t) {
+        counters.set(key, { count: 1, expiresAt: t + ttlMs });
+        return 1;
+      }
+
+      current.count += 1;
+      return current.count;
+    },
+
+    async get(key) {
+      const current = counters.get(key);
+      if (!current || current.expiresAt <= now()) return 0;
+      return current.count;
+    },
+  };
+}
+
+/* -------------------------------- postgres -------------------------------- */
+
+export function createPostgresRateLimitStore(opts: { sweepProbability?: number } = {}): RateLimitStore {
+  const sweepProbability = opts.sweepProbability ?? 0.01;
+
+  return {
+    name: "postgres",
+
+    async increment(key, ttlMs) {
+      const expiresAt = new Date(Date.now() + ttlMs);
+
+      // Expired rows restart at 1 instead of carrying the old count.
+      const [row] = await db
+        .insert(rateLimitCounters)
+        .values({ key, count: 1, expiresAt })
+        .onConflictDoUpdate({
+          target: rateLimitCounters.key,
+          set: {
+            count: sql`CASE WHEN ${rateLimitCounters.expiresAt} <= now() THEN 1 ELSE ${rateLimitCounters.count} + 1 END`,
+            expiresAt: sql`CASE WHEN ${rateLimitCounters.expiresAt} <= now() THEN excluded.expires_at ELSE ${rateLimitCounters.expiresAt} END`,
+          },
+        })
+        .returning({ count: rateLimitCounters.count });
+
+      if (Math.random() < sweepProbability) {
+        // best-effort cleanup; never blocks the request on failure
+        void db
+          .delete(rateLimitCounters)
+          .where(lt(rateLimitCounters.expiresAt, sql`now()`))
+          .catch(() => undefined);
+      }
+
+      return Number(row?.count ?? 1);
+    },
+
+    async get(key) {
+      const [row] = await db
+        .select({ count: rateLimitCounters.count })
+        .from(rateLimitCounters)
+        .where(sql`${rateLimitCounters.key} = ${key} AND ${rateLimitCounters.expiresAt} > now()`)
+        .limit(1);
+
+      return Number(row?.count ?? 0);
+    },
+  };
+}
+
+/* ----------------------------------- kv ----------------------------------- */
+
+/** Minimal subset of a Cloudflare KV namespace (a Durable Object stub can expose the same shape). */
+export type RateLimitKv = {
+  get(key: string): Promise<string | null>;
+  put(key: string, value: string, opts?: { expirationTtl?: number }): Promise<void>;
+};
+
+// KV rejects expirationTtl below 60s
+const KV_MIN_TTL_SEC = 60;
+
+/**
+ * KV adapter.
+ * KV is eventually consistent and has no atomic increment, so concurrent hits in
+ * different colos can undercount slightly. Good enough for abuse throttling; use the
+ * Postgres adapter where exact counts matter.
+ */
+export function createKvRateLimitStore(kv: RateLimitKv, prefix = "rl:"): RateLimitStore {
+  return {
+    name: "kv",
+
+    async increment(key, ttlMs) {
+      const k = prefix + key;
+      const current = Number((await kv.get(k)) ?? 0);
+      const next = (Number.isFinite(current) ? current : 0) + 1;
+      await kv.put(k, String(next), {
+        expirationTtl: Math.max(KV_MIN_TTL_SEC, Math.ceil(ttlMs / 1000)),
+      });
+      return next;
+    },
+
+    async get(key) {
+      const n = Number((await kv.get(prefix + key)) ?? 0);
+      return Number.isFinite(n) ? n : 0;
+    },
+  };
+}
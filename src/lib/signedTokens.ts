@@ -0,0 +1,64 @@
+// src/lib/signedTokens.ts
+import "server-only";
+
+import crypto from "node:crypto";
+
+/**
+ * Short HMAC-signed tokens for links we email out (cart resume, unsubscribe, quotes) and for upload
+ * receipts (what /api/uploads/r2 presigned, checked again before the file is attached).
+ *
+ * Format: base64url(JSON {p, s, e}) + "." + base64url(HMAC-SHA256)
+ * - p: purpose, so a token minted for one link can't be replayed on another
+ * - s: subject (cart id, Clerk user id, ...)
+ * - e: expiry, unix seconds
+ *
+ * Env: EMAIL_LINK_SECRET (required to mint or verify).
+ */
+
+export type SignedTokenPurpose = "cart_resume" | "unsubscribe" | "upload_receipt" | "quote_view";
+
+/** False when EMAIL_LINK_SECRET is unset; signToken / verifyToken throw in that case. */
+export function signedTokensConfigured(): boolean {
+  return Boolean(String(process.env.EMAIL_LINK_SECRET ?? "").trim());
+}
+
+function secret(): Buffer {
+  const s = String(process.env.EMAIL_LINK_SECRET ?? "").trim();
+  if (!s) throw new Error("Missing env: EMAIL_LINK_SECRET");
+  return Buffer.from(s, "utf8");
+}
+
+function hmac(body: string): string {
+  return crypto.createHmac("sha256", secret()).update(body).digest("base64url");
+}
+
+export function signToken(purpose: SignedTokenPurpose, subject: string, ttlSeconds: number, now = Date.now()): string {
+  const body = Buffer.from(
+    JSON.stringify({ p: purpose, s: subject, e: Math.floor(now / 1000) + Math.max(1, Math.floor(ttlSeconds)) }),
+    "utf8",
+  ).toString("base64url");
+
+  return `${body}.${hmac(body)}`;
+}
+
+/** Subject when the token is authentic, unexpired and minted for `purpose`; otherwise null. */
+export function verifyToken(purpose: SignedTokenPurpose, token: string, now = Date.now()): string | null {
+  const [body, sig, extra] = String(token ?? "").split(".");
+  if (!body || !sig || extra !== undefined) return null;
+
+  const expected = Buffer.from(hmac(body));
+  const given = Buffer.from(sig);
+  if (expected.length !== given.length || !crypto.timingSafeEqual(expected, given)) return null;
+
+  let payload: { p?: unknown; s?: unknown; e?: unknown };
+  try {
+    payload = JSON.parse(Buffer.from(body, "base64url").toString("utf8"));
+  } catch {
+    return null;
+  }
+
+  if (payload.p !== purpose || typeof payload.s !== "string" || !payload.s) return null;
+  if (typeof payload.e !== "number" || payload.e * 1000 <= now) return null;
+
+  return payload.s;
+}
@@ -0,0 +1,656 @@
+// src/lib/sinalite/catalogSync.ts
+import "server-only";
+
+import crypto from "node:crypto";
+import { and, eq, gt, inArray, sql, type SQL } from "drizzle-orm";
+
+import { db } from "@/lib/db";
+import { catalogSyncRuns, sinaliteProductSync, sinaliteProducts } from "@/lib/db/schema";
+import { apiFetchJson, UpstreamError } from "@/lib/sinalite/sinalite.client";
+
+/**
+ * Incremental Sinalite catalog sync (POST /api/jobs/sinalite-catalog-sync).
+ *
+ * scripts/ingestSinaliteProducts.js deletes and re-inserts every product. This job instead:
+ * - hashes each GET /product entry and upserts only added, changed or re-listed products
+ * - flags products no longer listed (or listed with enabled: 0) as active = false; the storefront
+ *   hides them and computePrice refuses them, instead of failing upstream at price time
+ * - fetches product/{id}/{store} for new and changed products plus the longest-unsynced ones, up to
+ *   a per-run budget, and skips payloads whose hash matches sinalite_product_sync
+ * - for a changed payload, diffs the option/pricing/metadata rows one by one against their raw_json
+ *   and writes only what moved, in one transaction per product and store
+ *
+ * Rewritten pricing rows get a new updated_at, which is what the price-change job
+ * (lib/sinalite/priceChanges.ts) picks up. Every run is logged in catalog_sync_runs.
+ */
+
+const STALE_RUN_MS = 30 * 60 * 1000;
+const DEFAULT_DETAILS_BUDGET = 40;
+const MAX_DETAILS_BUDGET = 500;
+const MAX_PAGES = 200;
+const WRITE_CHUNK = 500;
+const MAX_LOGGED_ERRORS = 50;
+
+/**
+ * A list that drops more than this share of active products is more likely an upstream hiccup
+ * than a real delisting; removals are held back and the run is marked partial.
+ */
+const MAX_REMOVED_SHARE = 0.25;
+const MIN_PRODUCTS_FOR_GUARD = 20;
+
+function storeCodes(): string[] {
+  const raw = (process.env.SINALITE_STORE_CODES || "en_ca,en_us").split(",");
+  const out = raw.map((s) => s.trim().toLowerCase()).filter(Boolean);
+  return out.length ? [...new Set(out)] : ["en_ca", "en_us"];
+}
+
+/* ---------------------------------- hashing ---------------------------------- */
+
+/** JSON with object keys sorted at every level, so a jsonb round-trip hashes the same. */
+export function canonicalJson(value: unknown): string {
+  if (value === undefined) return "null";
+  if (value === null || typeof value !== "object") return JSON.stringify(value) ?? "null";
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(",")}]`;
+
+  const obj = value as Record<string, unknown>;
+  const keys = Object.keys(obj)
+    .filter((k) => obj[k] !== undefined)
+    .sort();
+  return `{${keys.map((k) => `${JSON.stringify(k)}:${canonicalJson(obj[k])}`).join(",")}}`;
+}
+
+export function hashJson(value: unknown): string {
+  return crypto.createHash("sha256").update(canonicalJson(value)).digest("hex");
+}
+
+/* ---------------------------------- diffing ---------------------------------- */
+
+export type ProductListDiff = {
+  added: number[];
+  changed: number[];
+  restored: number[];
+  unchanged: number[];
+  removed: number[];
+};
+
+/** Compares the upstream list with sinalite_products; a product without a stored hash counts as changed. */
+export function diffProductList(
+  listed: ReadonlyArray<{ productId: number; hash: string }>,
+  known: ReadonlyArray<{ productId: number; rawHash: string | null; active: boolean }>,
+): ProductListDiff {
+  const out: ProductListDiff = { added: [], changed: [], restored: [], unchanged: [], removed: [] };
+  const byId = new Map(known.map((k) => [k.productId, k]));
+  const seen = new Set<number>();
+
+  for (const l of listed) {
+    if (seen.has(l.productId)) continue;
+    seen.add(l.productId);
+
+    const k = byId.get(l.productId);
+    if (!k) out.added.push(l.productId);
+    else if (!k.active) out.restored.push(l.productId);
+    else if (k.rawHash !== l.hash) out.changed.push(l.productId);
+    else out.unchanged.push(l.productId);
+  }
+
+  for (const k of known) {
+    if (k.active && !seen.has(k.productId)) out.removed.push(k.productId);
+  }
+
+  return out;
+}
+
+export type SyncRow = { key: string; hash: string; values: Record<string, unknown>; raw: unknown };
+
+export type RowDiff = { insert: SyncRow[]; update: SyncRow[]; remove: string[]; unchanged: number };
+
+/** Row-level diff for one table of one product/store; a key repeated upstream keeps its last row. */
+export function diffRows(existing: ReadonlyArray<{ key: string; hash: string }>, incoming: ReadonlyArray<SyncRow>): RowDiff {
+  const current = new Map(existing.map((e) => [e.key, e.hash]));
+  const next = new Map<string, SyncRow>();
+  for (const r of incoming) next.set(r.key, r);
+
+  const out: RowDiff = { insert: [], update: [], remove: [], unchanged: 0 };
+  for (const [key, row] of next) {
+    const hash = current.get(key);
+    if (hash === undefined) out.insert.push(row);
+    else if (hash !== row.hash) out.update.push(row);
+    else out.unchanged += 1;
+  }
+  for (const key of current.keys()) {
+    if (!next.has(key)) out.remove.push(key);
+  }
+  return out;
+}
+
+/* ------------------------------ details payloads ------------------------------ */
+
+export type DetailsKind = "regular" | "roll-label";
+
+export type ProductDetails = { kind: DetailsKind; array1: any[]; array2: any[]; array3: any[] };
+
+/** product/{id}/{store} is either [options, pricing, meta] or an object holding those arrays. */
+export function parseDetailsPayload(payload: unknown): ProductDetails {
+  const arrays = Array.isArray(payload)
+    ? payload
+    : Object.values((payload && typeof payload === "object" ? payload : {}) as Record<string, unknown>).filter(Array.isArray);
+  const at = (i: number) => (Array.isArray(arrays[i]) ? (arrays[i] as any[]) : []);
+
+  const array1 = at(0);
+  const sample = array1.find((item) => item && typeof item === "object");
+  const kind: DetailsKind = sample && ("opt_val_id" in sample || "option_val" in sample) ? "roll-label" : "regular";
+
+  return { kind, array1, array2: at(1), array3: at(2) };
+}
+
+function int(v: unknown): number | null {
+  const n = Number(v);
+  return v != null && v !== "" && Number.isFinite(n) ? Math.trunc(n) : null;
+}
+
+function str(v: unknown): string | null {
+  return v == null ? null : String(v);
+}
+
+type TableSpec = {
+  table: string;
+  kind: DetailsKind;
+  /** Primary key columns after (product_id, store_code). */
+  key: string[];
+  /** Value columns besides raw_json. */
+  columns: string[];
+  rows(details: ProductDetails): SyncRow[];
+};
+
+function syncRow(spec: { key: string[] }, values: Record<string, unknown>, raw: unknown): SyncRow {
+  return { key: spec.key.map((k) => String(values[k])).join("|"), hash: hashJson(raw), values, raw };
+}
+
+/** Same tables and column mapping as the drizzle schema in db/schema/sinaliteProducts.ts. */
+const TABLES: TableSpec[] = [
+  {
+    table: "sinalite_product_options",
+    kind: "regular",
+    key: ["option_id"],
+    columns: ["option_group", "option_name"],
+    rows(d) {
+      return d.array1
+        .filter((r) => (int(r?.id) ?? 0) > 0)
+        .map((r) =>
+          syncRow(this, { option_id: int(r.id), option_group: str(r.group) ?? "", option_name: str(r.name) ?? "" }, r),
+        );
+    },
+  },
+  {
+    table: "sinalite_product_pricing",
+    kind: "regular",
+    key: ["hash"],
+    columns: ["value"],
+    rows(d) {
+      return d.array2
+        .filter((r) => r?.hash)
+        .map((r) => syncRow(this, { hash: String(r.hash), value: str(r.value) ?? "" }, r));
+    },
+  },
+  {
+    // One row per product and store holding the whole third array
+    table: "sinalite_product_metadata",
+    kind: "regular",
+    key: [],
+    columns: [],
+    rows(d) {
+      return d.array3.length ? [syncRow(this, {}, d.array3)] : [];
+    },
+  },
+  {
+    table: "sinalite_roll_label_options",
+    kind: "roll-label",
+    key: ["option_id", "opt_val_id"],
+    columns: [
+      "name",
+      "label",
+      "option_val",
+      "html_type",
+      "opt_sort_order",
+      "opt_val_sort_order",
+      "img_src",
+      "extra_turnaround_days",
+    ],
+    rows(d) {
+      return d.array1
+        .filter((r) => int(r?.option_id) != null && int(r?.opt_val_id) != null)
+        .map((r) =>
+          syncRow(
+            this,
+            {
+              option_id: int(r.option_id),
+              opt_val_id: int(r.opt_val_id),
+              name: str(r.name) ?? "",
+              label: str(r.label) ?? "",
+              option_val: str(r.option_val) ?? "",
+              html_type: str(r.html_type),
+              opt_sort_order: int(r.opt_sort_order),
+              opt_val_sort_order: int(r.opt_val_sort_order),
+              img_src: str(r.img_src),
+              extra_turnaround_days: int(r.extra_turnaround_days),
+            },
+            r,
+          ),
+        );
+    },
+  },
+  {
+    table: "sinalite_roll_label_exclusions",
+    kind: "roll-label",
+    key: ["exclusion_id"],
+    columns: [
+      "size_id",
+      "qty",
+      "pricing_product_option_entity_id_1",
+      "pricing_product_option_value_entity_id_1",
+      "pricing_product_option_entity_id_2",
+      "pricing_product_option_value_entity_id_2",
+    ],
+    rows(d) {
+      return d.array2
+        .filter((r) => r && typeof r === "object")
+        .map((r, i) =>
+          syncRow(
+            this,
+            {
+              // Upstream rows usually carry no id; their position is the key
+              exclusion_id: int(r.exclusion_id ?? r.id) ?? i,
+              size_id: int(r.size_id),
+              qty: int(r.qty),
+              pricing_product_option_entity_id_1: int(r.pricing_product_option_entity_id_1),
+              pricing_product_option_value_entity_id_1: int(r.pricing_product_option_value_entity_id_1),
+              pricing_product_option_entity_id_2: int(r.pricing_product_option_entity_id_2),
+              pricing_product_option_value_entity_id_2: int(r.pricing_product_option_value_entity_id_2),
+            },
+            r,
+          ),
+        );
+    },
+  },
+  {
+    table: "sinalite_roll_label_content",
+    kind: "roll-label",
+    key: ["pricing_product_option_value_entity_id", "content_type"],
+    columns: ["content"],
+    rows(d) {
+      return d.array3
+        .filter((r) => int(r?.pricing_product_option_value_entity_id) != null && r?.content_type)
+        .map((r) =>
+          syncRow(
+            this,
+            {
+              pricing_product_option_value_entity_id: int(r.pricing_product_option_value_entity_id),
+              content_type: String(r.content_type),
+              content: str(r.content),
+            },
+            r,
+          ),
+        );
+    },
+  },
+];
+
+/* ---------------------------------- writes ---------------------------------- */
+
+type Tx = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+type RowCounts = { inserted: number; updated: number; deleted: number };
+
+function keyExpr(spec: TableSpec): SQL {
+  return spec.key.length ? sql.raw(`concat_ws('|', ${spec.key.join(", ")})`) : sql`''`;
+}
+
+function chunks<T>(items: T[], size = WRITE_CHUNK): T[][] {
+  const out: T[][] = [];
+  for (let i = 0; i < items.length; i += size) out.push(items.slice(i, i + size));
+  return out;
+}
+
+async function applyTableDiff(tx: Tx, spec: TableSpec, productId: number, storeCode: string, details: ProductDetails | null) {
+  const incoming = details && details.kind === spec.kind ? spec.rows(details) : [];
+
+  const res = await tx.execute(sql`
+    SELECT ${keyExpr(spec)} AS key, raw_json
+    FROM ${sql.raw(spec.table)}
+    WHERE product_id = ${productId} AND store_code = ${storeCode}
+  `);
+  const existing = (res.rows as Array<{ key: string; raw_json: unknown }>).map((r) => ({
+    key: String(r.key),
+    hash: hashJson(r.raw_json),
+  }));
+
+  const diff = diffRows(existing, incoming);
+
+  if (diff.remove.length) {
+    for (const keys of chunks(diff.remove)) {
+      await tx.execute(sql`
+        DELETE FROM ${sql.raw(spec.table)}
+        WHERE product_id = ${productId} AND store_code = ${storeCode}
+          AND ${keyExpr(spec)} IN (${sql.join(keys.map((k) => sql`${k}`), sql`, `)})
+      `);
+    }
+  }
+
+  const upserts = [...diff.insert, ...diff.update];
+  if (upserts.length) {
+    const cols = [...spec.key, ...spec.columns];
+    const conflict = ["product_id", "store_code", ...spec.key].join(", ");
+    const set = [...spec.columns, "raw_json"].map((c) => `${c} = EXCLUDED.${c}`).concat("updated_at = now()").join(", ");
+
+    for (const batch of chunks(upserts)) {
+      const values = batch.map(
+        (r) =>
+          sql`(${sql.join(
+            [sql`${productId}`, sql`${storeCode}`, ...cols.map((c) => sql`${r.values[c] ?? null}`), sql`${JSON.stringify(r.raw)}::jsonb`],
+            sql`, `,
+          )})`,
+      );
+
+      await tx.execute(sql`
+        INSERT INTO ${sql.raw(spec.table)} (${sql.raw(["product_id", "store_code", ...cols, "raw_json"].join(", "))})
+        VALUES ${sql.join(values, sql`, `)}
+        ON CONFLICT (${sql.raw(conflict)}) DO UPDATE SET ${sql.raw(set)}
+      `);
+    }
+  }
+
+  return { inserted: diff.insert.length, updated: diff.update.length, deleted: diff.remove.length };
+}
+
+/* ---------------------------------- upstream ---------------------------------- */
+
+type ListedProduct = { productId: number; name: string | null; sku: string | null; raw: unknown; hash: string };
+
+function isListed(p: any): boolean {
+  const enabled = p?.enabled;
+  return !(enabled === false || enabled === 0 || enabled === "0");
+}
+
+async function fetchProductList(): Promise<ListedProduct[]> {
+  const rowsOf = (p: any): any[] => (Array.isArray(p) ? p : Array.isArray(p?.products) ? p.products : []);
+
+  const first = await apiFetchJson<any>("product");
+  const all = rowsOf(first);
+
+  const totalPages = Number(first?.total_pages);
+  if (!Array.isArray(first) && Number.isFinite(totalPages)) {
+    for (let page = 2; page <= Math.min(totalPages, MAX_PAGES); page += 1) {
+      all.push(...rowsOf(await apiFetchJson<any>(`product?page=${page}&per_page=100`)));
+    }
+  }
+
+  const out: ListedProduct[] = [];
+  for (const p of all) {
+    const productId = int(p?.id ?? p?.product_id);
+    if (!productId || productId <= 0 || !isListed(p)) continue;
+    out.push({ productId, name: str(p.name), sku: str(p.sku), raw: p, hash: hashJson(p) });
+  }
+  return out;
+}
+
+/** null when Sinalite doesn't carry the product in this store. */
+async function fetchDetails(productId: number, storeCode: string): Promise<ProductDetails | null> {
+  try {
+    return parseDetailsPayload(await apiFetchJson<unknown>(`product/${productId}/${storeCode}`));
+  } catch (e) {
+    if (e instanceof UpstreamError && e.status === 404) return null;
+    throw e;
+  }
+}
+
+/* ------------------------------------ run ------------------------------------ */
+
+export type CatalogSyncCounts = {
+  listed: number;
+  added: number;
+  changed: number;
+  restored: number;
+  removed: number;
+  removalsHeld: number;
+  unchanged: number;
+  detailsChecked: number;
+  detailsChanged: number;
+  detailsUnavailable: number;
+  rowsInserted: number;
+  rowsUpdated: number;
+  rowsDeleted: number;
+};
+
+export type CatalogSyncError = { productId?: number; storeCode?: string; message: string };
+
+export type CatalogSyncResult = {
+  runId: string;
+  status: "ok" | "partial" | "failed" | "skipped";
+  counts: CatalogSyncCounts;
+  errors: CatalogSyncError[];
+};
+
+function emptyCounts(): CatalogSyncCounts {
+  return {
+    listed: 0,
+    added: 0,
+    changed: 0,
+    restored: 0,
+    removed: 0,
+    removalsHeld: 0,
+    unchanged: 0,
+    detailsChecked: 0,
+    detailsChanged: 0,
+    detailsUnavailable: 0,
+    rowsInserted: 0,
+    rowsUpdated: 0,
+    rowsDeleted: 0,
+  };
+}
+
+function errorMessage(e: unknown): string {
+  return e instanceof Error ? e.message : String(e);
+}
+
+async function applyProductList(listed: ListedProduct[], counts: CatalogSyncCounts, errors: CatalogSyncError[], now: Date) {
+  const known = await db
+    .select({ productId: sinaliteProducts.productId, rawHash: sinaliteProducts.rawHash, active: sinaliteProducts.active })
+    .from(sinaliteProducts);
+
+  const diff = diffProductList(listed, known);
+
+  const activeKnown = known.filter((k) => k.active).length;
+  let removed = diff.removed;
+  if (activeKnown >= MIN_PRODUCTS_FOR_GUARD && removed.length > activeKnown * MAX_REMOVED_SHARE) {
+    errors.push({
+      message: `Upstream list dropped ${removed.length} of ${activeKnown} active products; removals held back`,
+    });
+    counts.removalsHeld = removed.length;
+    removed = [];
+  }
+
+  const write = new Set([...diff.added, ...diff.changed, ...diff.restored]);
+  const toWrite = listed.filter((l) => write.has(l.productId));
+
+  await db.transaction(async (tx) => {
+    for (const batch of chunks(toWrite)) {
+      await tx
+        .insert(sinaliteProducts)
+        .values(
+          batch.map((l) => ({
+            productId: l.productId,
+            name: l.name,
+            sku: l.sku,
+            rawJson: l.raw,
+            rawHash: l.hash,
+            active: true,
+            removedAt: null,
+            lastSeenAt: now,
+            updatedAt: now,
+          })),
+        )
+        .onConflictDoUpdate({
+          target: sinaliteProducts.productId,
+          set: {
+            name: sql`excluded.name`,
+            sku: sql`excluded.sku`,
+            rawJson: sql`excluded.raw_json`,
+            rawHash: sql`excluded.raw_hash`,
+            active: true,
+            removedAt: null,
+            lastSeenAt: now,
+            updatedAt: now,
+          },
+        });
+    }
+
+    for (const ids of chunks(diff.unchanged)) {
+      await tx.update(sinaliteProducts).set({ lastSeenAt: now }).where(inArray(sinaliteProducts.productId, ids));
+    }
+
+    for (const ids of chunks(removed)) {
+      await tx
+        .update(sinaliteProducts)
+        .set({ active: false, removedAt: now, updatedAt: now })
+        .where(and(inArray(sinaliteProducts.productId, ids), eq(sinaliteProducts.active, true)));
+    }
+  });
+
+  counts.added = diff.added.length;
+  counts.changed = diff.changed.length;
+  counts.restored = diff.restored.length;
+  counts.unchanged = diff.unchanged.length;
+  counts.removed = removed.length;
+
+  return { priority: [...diff.added, ...diff.restored, ...diff.changed] };
+}
+
+/** New and changed products first, then the active products whose details were synced longest ago. */
+async function pickDetailsQueue(priority: number[], budget: number): Promise<number[]> {
+  const queue = [...new Set(priority)].slice(0, budget);
+  if (queue.length >= budget) return queue;
+
+  const stalest = await db.execute(sql`
+    SELECT p.product_id, min(s.synced_at) AS synced_at
+    FROM sinalite_products p
+    LEFT JOIN sinalite_product_sync s ON s.product_id = p.product_id
+    WHERE p.active
+    GROUP BY p.product_id
+    ORDER BY min(s.synced_at) ASC NULLS FIRST, p.product_id
+    LIMIT ${budget + queue.length}
+  `);
+
+  const seen = new Set(queue);
+  for (const r of stalest.rows as Array<{ product_id: number }>) {
+    if (queue.length >= budget) break;
+    const id = Number(r.product_id);
+    if (!seen.has(id)) {
+      seen.add(id);
+      queue.push(id);
+    }
+  }
+  return queue;
+}
+
+async function syncDetails(productId: number, storeCode: string, counts: CatalogSyncCounts, now: Date) {
+  const details = await fetchDetails(productId, storeCode);
+  counts.detailsChecked += 1;
+
+  const kind = details ? details.kind : "unavailable";
+  const detailsHash = details ? hashJson(details) : null;
+
+  const [prev] = await db
+    .select({ kind: sinaliteProductSync.kind, detailsHash: sinaliteProductSync.detailsHash })
+    .from(sinaliteProductSync)
+    .where(and(eq(sinaliteProductSync.productId, productId), eq(sinaliteProductSync.storeCode, storeCode)))
+    .limit(1);
+
+  const record = (tx: Tx | typeof db) =>
+    tx
+      .insert(sinaliteProductSync)
+      .values({ productId, storeCode, kind, detailsHash, syncedAt: now })
+      .onConflictDoUpdate({
+        target: [sinaliteProductSync.productId, sinaliteProductSync.storeCode],
+        set: { kind, detailsHash, syncedAt: now },
+      });
+
+  // Nothing moved, or the store stopped carrying it: keep the rows we have (past orders reference them)
+  if (!details || (prev && prev.kind === kind && prev.detailsHash === detailsHash)) {
+    if (!details) counts.detailsUnavailable += 1;
+    await record(db);
+    return;
+  }
+
+  await db.transaction(async (tx) => {
+    for (const spec of TABLES) {
+      const r = await applyTableDiff(tx, spec, productId, storeCode, details);
+      counts.rowsInserted += r.inserted;
+      counts.rowsUpdated += r.updated;
+      counts.rowsDeleted += r.deleted;
+    }
+    await record(tx);
+  });
+  counts.detailsChanged += 1;
+}
+
+/**
+ * Runs one catalog sync. Failures for a single product/store are logged on the run and the rest
+ * carry on (status "partial"); a failed product list marks the run "failed" and rethrows.
+ */
+export async function runCatalogSync(opts: { detailsBudget?: number } = {}, now = new Date()): Promise<CatalogSyncResult> {
+  const budget = Math.min(Math.max(Math.trunc(opts.detailsBudget ?? DEFAULT_DETAILS_BUDGET), 0), MAX_DETAILS_BUDGET);
+  const counts = emptyCounts();
+  const errors: CatalogSyncError[] = [];
+
+  const [running] = await db
+    .select({ id: catalogSyncRuns.id })
+    .from(catalogSyncRuns)
+    .where(and(eq(catalogSyncRuns.status, "running"), gt(catalogSyncRuns.startedAt, new Date(now.getTime() - STALE_RUN_MS))))
+    .limit(1);
+
+  if (running) {
+    const message = `Sync ${running.id} is still running`;
+    const [skipped] = await db
+      .insert(catalogSyncRuns)
+      .values({ startedAt: now, finishedAt: now, status: "skipped", errors: [{ message }] })
+      .returning({ id: catalogSyncRuns.id });
+    return { runId: skipped.id, status: "skipped", counts, errors: [{ message }] };
+  }
+
+  const [run] = await db.insert(catalogSyncRuns).values({ startedAt: now }).returning({ id: catalogSyncRuns.id });
+
+  const finish = async (status: CatalogSyncResult["status"]): Promise<CatalogSyncResult> => {
+    const logged = errors.slice(0, MAX_LOGGED_ERRORS);
+    await db
+      .update(catalogSyncRuns)
+      .set({ finishedAt: new Date(), status, counts, errors: logged })
+      .where(eq(catalogSyncRuns.id, run.id));
+    return { runId: run.id, status, counts, errors: logged };
+  };
+
+  let priority: number[];
+  try {
+    const listed = await fetchProductList();
+    if (!listed.length) throw new Error("Sinalite returned an empty product list");
+    counts.listed = listed.length;
+
+    ({ priority } = await applyProductList(listed, counts, errors, now));
+  } catch (e) {
+    errors.push({ message: errorMessage(e) });
+    await finish("failed");
+    throw e;
+  }
+
+  const queue = budget > 0 ? await pickDetailsQueue(priority, budget) : [];
+  for (const productId of queue) {
+    for (const storeCode of storeCodes()) {
+      try {
+        await syncDetails(productId, storeCode, counts, now);
+      } catch (e) {
+        errors.push({ productId, storeCode, message: errorMessage(e) });
+      }
+    }
+  }
+
+  return finish(errors.length ? "partial" : "ok");
+}
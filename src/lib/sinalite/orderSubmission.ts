@@ -0,0 +1,739 @@
+// src/lib/sinalite/orderSubmission.ts
+import "server-only";
+
+import { and, asc, desc, eq, inArray, isNull, lt, or, sql } from "drizzle-orm";
+
+import { db } from "@/lib/db";
+import { ApiError } from "@/lib/apiError";
+import { orders } from "@/lib/db/schema/orders";
+import { orderItems } from "@/lib/db/schema/orderItems";
+import { cartLines } from "@/lib/db/schema/cartLines";
+import { carts } from "@/lib/db/schema/cart";
+import { customerAddresses } from "@/lib/db/schema/customerAddresses";
+import { artworkUploads } from "@/lib/db/schema/artwork_uploads";
+import { sinaliteSubmissions, type SinaliteSubmissionRow } from "@/lib/db/schema/sinaliteSubmissions";
+import { placeSinaliteOrder, SinaliteOrderError } from "@/lib/sinalite/placeOrder";
+import { linkCartArtworkToOrder } from "@/lib/artwork/orderArtwork";
+
+/**
+ * Paid order -> Sinalite POST /order/new, through the sinalite_submissions job table.
+ *
+ * - enqueue: once per order (webhook / free-order finalizers; the runner also sweeps paid
+ *   orders that were never enqueued, e.g. submitted -> paid transitions)
+ * - run:     claims due rows (FOR UPDATE SKIP LOCKED), waits for approved artwork on every
+ *   line, builds the payload and submits
+ * - retry:   errors before the order was sent, and 429s, back off exponentially; anything else
+ *   (bad payload, 4xx) fails immediately for an admin to fix and resubmit
+ * - review:  a timeout, network error or 5xx from POST /order/new, or a worker that died
+ *   mid-request (send_started_at still set when the row is reclaimed), may have placed the order
+ *   anyway. Those rows stop in "needs_review" rather than being retried into a duplicate: an admin
+ *   looks for the order ref in Sinalite, then records the Sinalite order id or resubmits
+ */
+
+type Db = typeof db;
+type Tx = Parameters<Parameters<Db["transaction"]>[0]>[0];
+type DbOrTx = Db | Tx;
+
+export type SinaliteSubmissionStatus =
+  | "pending"
+  | "awaiting_artwork"
+  | "processing"
+  | "needs_review"
+  | "submitted"
+  | "failed";
+
+export const SINALITE_SUBMISSION_STATUSES: readonly SinaliteSubmissionStatus[] = [
+  "pending",
+  "awaiting_artwork",
+  "processing",
+  "needs_review",
+  "submitted",
+  "failed",
+];
+
+const RETRY_BASE_MS = 60_000;
+const RETRY_MAX_MS = 6 * 60 * 60_000;
+// Re-check unapproved artwork on this cadence (does not consume attempts)
+const ARTWORK_RECHECK_MS = 30 * 60_000;
+// A worker that died mid-submit leaves "processing"; reclaim after this long
+const STALE_LOCK_MS = 15 * 60_000;
+// Sweep window for paid orders that never got a job row
+const SWEEP_LOOKBACK_DAYS = 30;
+
+/* ---------------------------------- types --------------------------------- */
+
+export type SinaliteShipTo = {
+  firstName: string;
+  lastName: string;
+  email: string;
+  phone: string;
+  street1: string;
+  street2: string;
+  city: string;
+  state: string;
+  postalCode: string;
+  country: string;
+};
+
+export type SubmissionLine = {
+  productId: number;
+  quantity: number;
+  optionIds: number[];
+};
+
+export type SubmissionArtwork = {
+  productId: string;
+  fileUrl: string;
+  approved: boolean;
+  /** artwork_uploads.proof_status; rejected files are ignored (the customer sends a replacement) */
+  proofStatus?: string | null;
+  createdAt: Date | string | null;
+};
+
+export type SinaliteOrderFile = { type: string; url: string };
+
+export type SinaliteOrderPayload = {
+  items: Array<{ productId: number; options: number[]; files: SinaliteOrderFile[]; extra: string }>;
+  shippingInfo: Record<string, string>;
+  billingInfo: Record<string, string>;
+  notes: string;
+};
+
+export type ArtworkReadiness =
+  | { ready: true; filesByProduct: Map<number, SinaliteOrderFile[]> }
+  | { ready: false; missingProductIds: number[] };
+
+export type SubmissionOutcome =
+  | { status: "submitted"; sinaliteOrderId: string }
+  | { status: "awaiting_artwork"; missingProductIds: number[] }
+  | { status: "pending"; error: string; nextAttemptAt: Date }
+  | { status: "needs_review"; error: string }
+  | { status: "failed"; error: string };
+
+/* ------------------------------ pure helpers ------------------------------ */
+
+function s(v: unknown): string {
+  return String(v ?? "").trim();
+}
+
+const FILE_SIDES = ["front", "back"] as const;
+
+/**
+ * Every line needs approved artwork_uploads for its product, and no file for that product may
+ * still be in proofing (pending review, proof sent, changes requested). Rejected files are ignored.
+ * Approved files map to Sinalite sides in upload order (front, back, then page-N).
+ */
+export function artworkReadiness(lines: SubmissionLine[], uploads: SubmissionArtwork[]): ArtworkReadiness {
+  const active = uploads
+    .filter((u) => s(u.fileUrl) && u.proofStatus !== "rejected")
+    .slice()
+    .sort((a, b) => new Date(a.createdAt ?? 0).getTime() - new Date(b.createdAt ?? 0).getTime());
+
+  const filesByProduct = new Map<number, SinaliteOrderFile[]>();
+  const missing = new Set<number>();
+
+  for (const line of lines) {
+    if (filesByProduct.has(line.productId) || missing.has(line.productId)) continue;
+
+    const forProduct = active.filter((u) => s(u.productId) === String(line.productId));
+    if (forProduct.length === 0 || forProduct.some((u) => !u.approved)) {
+      missing.add(line.productId);
+      continue;
+    }
+
+    filesByProduct.set(
+      line.productId,
+      forProduct.map((u, i) => ({ type: FILE_SIDES[i] ?? `page-${i + 1}`, url: s(u.fileUrl) })),
+    );
+  }
+
+  if (missing.size > 0) return { ready: false, missingProductIds: [...missing] };
+  return { ready: true, filesByProduct };
+}
+
+/** Sinalite expects ISO-2 codes; tolerate USA/CAN from older address rows. */
+function sinaliteCountry(country: string): string {
+  const c = country.toUpperCase();
+  if (c === "USA") return "US";
+  if (c === "CAN") return "CA";
+  return c;
+}
+
+/** Upper bound on items per /order/new request; a line above it is rejected, never truncated. */
+export const MAX_SINALITE_ITEMS_PER_LINE = 100;
+
+/**
+ * Build the /order/new body.
+ * Cart quantity is a multiplier on top of the Sinalite qty option, so each unit is sent as
+ * its own item. Throws ApiError 422 SINALITE_PAYLOAD_INVALID when required data is missing or a
+ * line's quantity can't be sent as is.
+ */
+export function buildSinaliteOrderPayload(input: {
+  orderRef: string;
+  lines: SubmissionLine[];
+  filesByProduct: Map<number, SinaliteOrderFile[]>;
+  shipTo: SinaliteShipTo | null;
+  shipMethod: string;
+}): SinaliteOrderPayload {
+  const problems: string[] = [];
+
+  if (input.lines.length === 0) problems.push("order has no lines");
+  for (const line of input.lines) {
+    if (line.optionIds.length === 0) problems.push(`product ${line.productId} has no options`);
+    if (!Number.isInteger(line.quantity) || line.quantity < 1) {
+      problems.push(`product ${line.productId} has an invalid quantity (${line.quantity})`);
+    } else if (line.quantity > MAX_SINALITE_ITEMS_PER_LINE) {
+      problems.push(
+        `product ${line.productId} quantity ${line.quantity} is over ${MAX_SINALITE_ITEMS_PER_LINE} sets; split it into separate Sinalite orders`,
+      );
+    }
+  }
+
+  const ship = input.shipTo;
+  if (!ship) problems.push("missing shipping address");
+  else {
+    for (const k of ["firstName", "street1", "city", "state", "postalCode", "country"] as const) {
+      if (!s(ship[k])) problems.push(`shipping ${k} is empty`);
+    }
+  }
+  if (!s(input.shipMethod)) problems.push("missing shipping method");
+
+  if (problems.length > 0 || !ship) {
+    throw new ApiError({
+      status: 422,
+      code: "SINALITE_PAYLOAD_INVALID",
+      message: `Cannot build Sinalite order: ${problems.join("; ")}`,
+      details: { problems },
+    });
+  }
+
+  const items: SinaliteOrderPayload["items"] = [];
+  for (const line of input.lines) {
+    for (let i = 0; i < line.quantity; i += 1) {
+      items.push({
+        productId: line.productId,
+        options: line.optionIds,
+        files: input.filesByProduct.get(line.productId) ?? [],
+        extra: input.orderRef,
+      });
+    }
+  }
+
+  const country = sinaliteCountry(s(ship.country));
+
+  return {
+    items,
+    shippingInfo: {
+      ShipFName: s(ship.firstName),
+      ShipLName: s(ship.lastName),
+      ShipEmail: s(ship.email),
+      ShipAddr: s(ship.street1),
+      ShipAddr2: s(ship.street2),
+      ShipCity: s(ship.city),
+      ShipState: s(ship.state).toUpperCase(),
+      ShipZip: s(ship.postalCode),
+      ShipCountry: country,
+      ShipPhone: s(ship.phone),
+      ShipMethod: s(input.shipMethod),
+    },
+    // We are the merchant of record; bill-to mirrors ship-to.
+    billingInfo: {
+      BillFName: s(ship.firstName),
+      BillLName: s(ship.lastName),
+      BillEmail: s(ship.email),
+      BillAddr: s(ship.street1),
+      BillAddr2: s(ship.street2),
+      BillCity: s(ship.city),
+      BillState: s(ship.state).toUpperCase(),
+      BillZip: s(ship.postalCode),
+      BillCountry: country,
+      BillPhone: s(ship.phone),
+    },
+    notes: `Order ${input.orderRef}`,
+  };
+}
+
+export function isRetryableSinaliteError(err: unknown): boolean {
+  if (err instanceof SinaliteOrderError) return err.status === 408 || err.status === 429 || err.status >= 500;
+  // Our own validation errors won't fix themselves
+  if (err instanceof ApiError) return false;
+  // Token fetch failures, DB hiccups, etc.
+  return true;
+}
+
+/**
+ * The request reached Sinalite, or may have, without us learning the outcome: timeout, network
+ * error, 5xx, or a 2xx we couldn't read. Retrying these can place the order twice.
+ */
+export function sinaliteOrderMayExist(err: unknown): boolean {
+  return err instanceof SinaliteOrderError && (err.status === 408 || err.status >= 500);
+}
+
+/** Exponential backoff with ±20% jitter: 1m, 2m, 4m … capped at 6h. attempt is 1-based. */
+export function sinaliteRetryDelayMs(attempt: number, random: () => number = Math.random): number {
+  const n = Math.max(1, Math.trunc(attempt));
+  const base = Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** (n - 1));
+  const jitter = 0.8 + random() * 0.4;
+  return Math.round(base * jitter);
+}
+
+/**
+ * Normalize a Stripe shipping / customer_details object into a ship-to snapshot.
+ * Returns null when there's no street address.
+ */
+export function shipToFromStripe(
+  shipping: { name?: string | null; phone?: string | null; address?: Record<string, unknown> | null } | null | undefined,
+  extra: { email?: string | null; phone?: string | null } = {},
+): SinaliteShipTo | null {
+  const a = shipping?.address;
+  if (!a || !s(a.line1)) return null;
+
+  const name = s(shipping?.name);
+  const [first, ...rest] = name.split(/\s+/);
+
+  return {
+    firstName: first ?? "",
+    lastName: rest.join(" "),
+    email: s(extra.email),
+    phone: s(shipping?.phone) || s(extra.phone),
+    street1: s(a.line1),
+    street2: s(a.line2),
+    city: s(a.city),
+    state: s(a.state),
+    postalCode: s(a.postal_code),
+    country: s(a.country),
+  };
+}
+
+function shipMethodFromSelectedShipping(selectedShipping: unknown): string {
+  const sel = selectedShipping as { carrier?: unknown; method?: unknown } | null;
+  return s(sel?.method) || s(sel?.carrier);
+}
+
+function asShipTo(v: unknown): SinaliteShipTo | null {
+  if (!v || typeof v !== "object") return null;
+  const o = v as Record<string, unknown>;
+  return {
+    firstName: s(o.firstName),
+    lastName: s(o.lastName),
+    email: s(o.email),
+    phone: s(o.phone),
+    street1: s(o.street1),
+    street2: s(o.street2),
+    city: s(o.city),
+    state: s(o.state),
+    postalCode: s(o.postalCode),
+    country: s(o.country),
+  };
+}
+
+function toOptionIds(v: unknown): number[] {
+  if (!Array.isArray(v)) return [];
+  return v.map((x) => Number(x)).filter((n) => Number.isInteger(n) && n > 0);
+}
+
+function errorMessage(err: unknown): string {
+  return (err instanceof Error ? err.message : String(err)).slice(0, 2000);
+}
+
+/* --------------------------------- enqueue -------------------------------- */
+
+/**
+ * Create the job row for a paid order (idempotent per order).
+ * Call inside the transaction that marks the order paid.
+ */
+export async function enqueueSinaliteSubmission(
+  database: DbOrTx,
+  input: { orderId: string; shipTo?: SinaliteShipTo | null },
+): Promise<void> {
+  await database
+    .insert(sinaliteSubmissions)
+    .values({ orderId: input.orderId, shipTo: input.shipTo ?? null })
+    .onConflictDoNothing({ target: sinaliteSubmissions.orderId });
+}
+
+/** Safety net: paid orders from the last few weeks with no job row yet. */
+export async function enqueueMissingSinaliteSubmissions(limit = 100): Promise<number> {
+  const rows = await db
+    .select({ id: orders.id })
+    .from(orders)
+    .leftJoin(sinaliteSubmissions, eq(sinaliteSubmissions.orderId, orders.id))
+    .where(
+      and(
+        eq(orders.status, "paid"),
+        isNull(sinaliteSubmissions.id),
+        sql`${orders.createdAt} > now() - make_interval(days => ${SWEEP_LOOKBACK_DAYS})`,
+      ),
+    )
+    .orderBy(asc(orders.createdAt))
+    .limit(limit);
+
+  for (const r of rows) await enqueueSinaliteSubmission(db, { orderId: String(r.id) });
+  return rows.length;
+}
+
+/* --------------------------------- loading -------------------------------- */
+
+async function loadSubmissionContext(orderId: string, shipToSnapshot: unknown) {
+  const [order] = await db
+    .select({
+      id: orders.id,
+      status: orders.status,
+      orderNumber: orders.orderNumber,
+      cartId: orders.cartId,
+      shippingAddressId: orders.shippingAddressId,
+    })
+    .from(orders)
+    .where(eq(orders.id, orderId))
+    .limit(1);
+
+  if (!order) return null;
+
+  let lines: SubmissionLine[] = (
+    await db
+      .select({ productId: orderItems.productId, quantity: orderItems.quantity, optionIds: orderItems.optionIds })
+      .from(orderItems)
+      .where(eq(orderItems.orderId, order.id))
+  ).map((r) => ({ productId: r.productId, quantity: r.quantity, optionIds: toOptionIds(r.optionIds) }));
+
+  let shipMethod = "";
+  if (order.cartId) {
+    const [cart] = await db
+      .select({ selectedShipping: carts.selectedShipping })
+      .from(carts)
+      .where(eq(carts.id, order.cartId))
+      .limit(1);
+    shipMethod = shipMethodFromSelectedShipping(cart?.selectedShipping);
+
+    // Webhook-finalized orders keep their lines on the (closed) cart
+    if (lines.length === 0) {
+      lines = (
+        await db
+          .select({ productId: cartLines.productId, quantity: cartLines.quantity, optionIds: cartLines.optionIds })
+          .from(cartLines)
+          .where(eq(cartLines.cartId, order.cartId))
+      ).map((r) => ({ productId: r.productId, quantity: r.quantity, optionIds: toOptionIds(r.optionIds) }));
+    }
+  }
+
+  let shipTo = asShipTo(shipToSnapshot);
+  if (!shipTo && order.shippingAddressId) {
+    const [addr] = await db
+      .select()
+      .from(customerAddresses)
+      .where(eq(customerAddresses.id, order.shippingAddressId))
+      .limit(1);
+    if (addr) {
+      shipTo = {
+        firstName: s(addr.firstName),
+        lastName: s(addr.lastName),
+        email: s(addr.email),
+        // phone is stored encrypted; Sinalite accepts an empty phone
+        phone: "",
+        street1: s(addr.street1),
+        street2: s(addr.street2),
+        city: s(addr.city),
+        state: s(addr.state),
+        postalCode: s(addr.postalCode),
+        country: s(addr.country),
+      };
+    }
+  }
+
+  // Files the customer attached to the cart lines, before or after checkout
+  if (order.cartId) await linkCartArtworkToOrder(db, String(order.id));
+
+  const uploads = await db
+    .select({
+      productId: artworkUploads.productId,
+      fileUrl: artworkUploads.fileUrl,
+      approved: artworkUploads.approved,
+      proofStatus: artworkUploads.proofStatus,
+      createdAt: artworkUploads.createdAt,
+    })
+    .from(artworkUploads)
+    .where(eq(artworkUploads.orderId, String(order.id)));
+
+  // product 0 = custom line from an accepted quote, produced in-house rather than by Sinalite
+  lines = lines.filter((l) => l.productId > 0);
+
+  return { order, lines, shipMethod, shipTo, uploads };
+}
+
+/* --------------------------------- running -------------------------------- */
+
+async function claimDueSubmissions(limit: number): Promise<SinaliteSubmissionRow[]> {
+  return db.transaction(async (tx) => {
+    const due = await tx
+      .select({ id: sinaliteSubmissions.id })
+      .from(sinaliteSubmissions)
+      .where(
+        or(
+          and(
+            inArray(sinaliteSubmissions.status, ["pending", "awaiting_artwork"]),
+            sql`${sinaliteSubmissions.nextAttemptAt} <= now()`,
+          ),
+          and(
+            eq(sinaliteSubmissions.status, "processing"),
+            lt(sinaliteSubmissions.lockedAt, new Date(Date.now() - STALE_LOCK_MS)),
+          ),
+        ),
+      )
+      .orderBy(asc(sinaliteSubmissions.nextAttemptAt))
+      .limit(limit)
+      .for("update", { skipLocked: true });
+
+    if (due.length === 0) return [];
+
+    return tx
+      .update(sinaliteSubmissions)
+      .set({ status: "processing", lockedAt: new Date(), updatedAt: new Date() })
+      .where(
+        inArray(
+          sinaliteSubmissions.id,
+          due.map((d) => d.id),
+        ),
+      )
+      .returning();
+  });
+}
+
+async function settle(id: string, patch: Partial<typeof sinaliteSubmissions.$inferInsert>) {
+  await db
+    .update(sinaliteSubmissions)
+    .set({ ...patch, lockedAt: null, sendStartedAt: null, updatedAt: new Date() })
+    .where(eq(sinaliteSubmissions.id, id));
+}
+
+/** Process one claimed row. Never throws; the outcome is persisted on the row. */
+export async function processSinaliteSubmission(job: SinaliteSubmissionRow): Promise<SubmissionOutcome> {
+  if (job.sinaliteOrderId) {
+    await settle(job.id, { status: "submitted" });
+    return { status: "submitted", sinaliteOrderId: job.sinaliteOrderId };
+  }
+
+  if (job.sendStartedAt) {
+    const error =
+      `A previous attempt stopped mid-request (${job.sendStartedAt.toISOString()}); ` +
+      "check Sinalite for this order before resubmitting";
+    await settle(job.id, { status: "needs_review", lastError: error, lastErrorStatus: null });
+    return { status: "needs_review", error };
+  }
+
+  const attempt = job.attempts + 1;
+  let placedOrderId: string | null = null;
+
+  try {
+    const ctx = await loadSubmissionContext(job.orderId, job.shipTo);
+    if (!ctx) {
+      const error = "Order not found";
+      await settle(job.id, { status: "failed", lastError: error, lastErrorStatus: 404 });
+      return { status: "failed", error };
+    }
+
+    if (ctx.order.status !== "paid") {
+      const error = `Order is ${ctx.order.status}, not paid`;
+      await settle(job.id, { status: "failed", lastError: error, lastErrorStatus: 409 });
+      return { status: "failed", error };
+    }
+
+    if (ctx.lines.length === 0) {
+      const error = "Nothing to submit: every line is in-house (quoted custom work)";
+      await settle(job.id, { status: "failed", lastError: error, lastErrorStatus: 422 });
+      return { status: "failed", error };
+    }
+
+    const readiness = artworkReadiness(ctx.lines, ctx.uploads);
+    if (!readiness.ready) {
+      await settle(job.id, {
+        status: "awaiting_artwork",
+        nextAttemptAt: new Date(Date.now() + ARTWORK_RECHECK_MS),
+        lastError: `Awaiting approved artwork for product(s) ${readiness.missingProductIds.join(", ")}`,
+        lastErrorStatus: null,
+      });
+      return { status: "awaiting_artwork", missingProductIds: readiness.missingProductIds };
+    }
+
+    const payload = buildSinaliteOrderPayload({
+      orderRef: s(ctx.order.orderNumber) || String(ctx.order.id),
+      lines: ctx.lines,
+      filesByProduct: readiness.filesByProduct,
+      shipTo: ctx.shipTo,
+      shipMethod: ctx.shipMethod,
+    });
+
+    // Persist what we're about to send before the call; a reclaimed row with send_started_at
+    // still set goes to review instead of being sent again
+    await db
+      .update(sinaliteSubmissions)
+      .set({
+        payload: payload as unknown as Record<string, unknown>,
+        attempts: attempt,
+        sendStartedAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(eq(sinaliteSubmissions.id, job.id));
+
+    let result: Awaited<ReturnType<typeof placeSinaliteOrder>>;
+    try {
+      result = await placeSinaliteOrder(payload);
+    } catch (err) {
+      if (!sinaliteOrderMayExist(err)) throw err;
+
+      const error = `${errorMessage(err)} — the order may have been placed; look for ${payload.notes} in Sinalite before resubmitting`;
+      console.error("[sinalite/submit] outcome unknown", { orderId: job.orderId, attempt, error });
+      await settle(job.id, { status: "needs_review", attempts: attempt, lastError: error, lastErrorStatus: (err as SinaliteOrderError).status });
+      return { status: "needs_review", error };
+    }
+    const sinaliteOrderId = String(result.orderId);
+    placedOrderId = sinaliteOrderId;
+
+    await settle(job.id, {
+      status: "submitted",
+      sinaliteOrderId,
+      submittedAt: new Date(),
+      lastError: null,
+      lastErrorStatus: null,
+    });
+
+    return { status: "submitted", sinaliteOrderId };
+  } catch (err) {
+    const error = errorMessage(err);
+
+    // Placed, but storing the result failed: never retry. The row keeps send_started_at, so if this
+    // settle fails too the next run moves it to review.
+    if (placedOrderId) {
+      console.error("[sinalite/submit] placed but not recorded", { orderId: job.orderId, sinaliteOrderId: placedOrderId, error });
+      await settle(job.id, { status: "submitted", sinaliteOrderId: placedOrderId, submittedAt: new Date() }).catch(() => {});
+      return { status: "submitted", sinaliteOrderId: placedOrderId };
+    }
+
+    const lastErrorStatus = err instanceof SinaliteOrderError || err instanceof ApiError ? err.status : null;
+
+    if (isRetryableSinaliteError(err) && attempt < job.maxAttempts) {
+      const nextAttemptAt = new Date(Date.now() + sinaliteRetryDelayMs(attempt));
+      await settle(job.id, { status: "pending", attempts: attempt, nextAttemptAt, lastError: error, lastErrorStatus });
+      return { status: "pending", error, nextAttemptAt };
+    }
+
+    console.error("[sinalite/submit] submission failed", { orderId: job.orderId, attempt, error });
+    await settle(job.id, { status: "failed", attempts: attempt, lastError: error, lastErrorStatus });
+    return { status: "failed", error };
+  }
+}
+
+/** Cron entrypoint: sweep un-enqueued paid orders, then work through due jobs. */
+export async function runSinaliteSubmissionQueue(input?: { limit?: number }) {
+  const limit = Math.max(1, Math.min(100, Number(input?.limit ?? 20) || 20));
+
+  const enqueued = await enqueueMissingSinaliteSubmissions();
+  const jobs = await claimDueSubmissions(limit);
+
+  const counts = { submitted: 0, awaiting_artwork: 0, pending: 0, needs_review: 0, failed: 0 };
+  for (const job of jobs) {
+    const outcome = await processSinaliteSubmission(job);
+    counts[outcome.status] += 1;
+  }
+
+  return { ok: true as const, enqueued, claimed: jobs.length, ...counts };
+}
+
+/* ---------------------------------- admin --------------------------------- */
+
+export type SinaliteSubmissionListItem = SinaliteSubmissionRow & {
+  orderNumber: string | null;
+  orderStatus: string;
+};
+
+export async function listSinaliteSubmissions(input: {
+  status?: SinaliteSubmissionStatus | null;
+  limit?: number;
+}): Promise<SinaliteSubmissionListItem[]> {
+  const limit = Math.max(1, Math.min(500, Number(input.limit ?? 100) || 100));
+
+  const rows = await db
+    .select({
+      job: sinaliteSubmissions,
+      orderNumber: orders.orderNumber,
+      orderStatus: orders.status,
+    })
+    .from(sinaliteSubmissions)
+    .innerJoin(orders, eq(orders.id, sinaliteSubmissions.orderId))
+    .where(input.status ? eq(sinaliteSubmissions.status, input.status) : undefined)
+    .orderBy(desc(sinaliteSubmissions.updatedAt))
+    .limit(limit);
+
+  return rows.map((r) => ({ ...r.job, orderNumber: r.orderNumber, orderStatus: r.orderStatus }));
+}
+
+async function throwNotInStatus(id: string, code: string): Promise<never> {
+  const [existing] = await db
+    .select({ status: sinaliteSubmissions.status })
+    .from(sinaliteSubmissions)
+    .where(eq(sinaliteSubmissions.id, id))
+    .limit(1);
+
+  if (!existing) {
+    throw new ApiError({ status: 404, code: "SUBMISSION_NOT_FOUND", message: "Submission not found" });
+  }
+  throw new ApiError({
+    status: 409,
+    code,
+    message: `Submission is ${existing.status}`,
+    details: { status: existing.status },
+  });
+}
+
+/**
+ * Manual resubmit: resets attempts and runs the job now. For "needs_review" this is the admin
+ * saying the order is not in Sinalite.
+ * 404 unknown job, 409 already submitted or currently processing.
+ */
+export async function resubmitSinaliteSubmission(id: string): Promise<SubmissionOutcome> {
+  const [job] = await db
+    .update(sinaliteSubmissions)
+    .set({
+      status: "processing",
+      attempts: 0,
+      lockedAt: new Date(),
+      sendStartedAt: null,
+      nextAttemptAt: new Date(),
+      updatedAt: new Date(),
+    })
+    .where(
+      and(
+        eq(sinaliteSubmissions.id, id),
+        inArray(sinaliteSubmissions.status, ["failed", "pending", "awaiting_artwork", "needs_review"]),
+      ),
+    )
+    .returning();
+
+  if (!job) return throwNotInStatus(id, "SUBMISSION_NOT_RESUBMITTABLE");
+
+  return processSinaliteSubmission(job);
+}
+
+/**
+ * A "needs_review" order the admin found in Sinalite: record its order id and mark it submitted.
+ * 404 unknown job, 409 not awaiting review.
+ */
+export async function confirmSinaliteSubmission(id: string, sinaliteOrderId: string): Promise<SubmissionOutcome> {
+  const [job] = await db
+    .update(sinaliteSubmissions)
+    .set({
+      status: "submitted",
+      sinaliteOrderId,
+      submittedAt: new Date(),
+      lockedAt: null,
+      sendStartedAt: null,
+      lastError: null,
+      lastErrorStatus: null,
+      updatedAt: new Date(),
+    })
+    .where(and(eq(sinaliteSubmissions.id, id), eq(sinaliteSubmissions.status, "needs_review")))
+    .returning({ id: sinaliteSubmissions.id });
+
+  if (!job) return throwNotInStatus(id, "SUBMISSION_NOT_IN_REVIEW");
+
+  return { status: "submitted", sinaliteOrderId };
+}
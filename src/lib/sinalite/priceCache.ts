@@ -0,0 +1,553 @@
+// src/lib/sinalite/priceCache.ts
+import "server-only";
+
+import crypto from "node:crypto";
+import { and, desc, eq, gte, lt, sql } from "drizzle-orm";
+
+import { db } from "@/lib/db";
+import { sinalitePriceCache, sinalitePriceCacheStats, sinaliteProductPricing } from "@/lib/db/schema";
+import { lruGet, lruSet } from "@/lib/lru";
+import { priceByOptionIds, resolveStoreCode } from "@/lib/sinalite.server";
+import { currencyToStore, storeToStoreCode, type Store, type StoreCode } from "@/lib/storeCodes";
+
+/**
+ * Read-through cache in front of Sinalite POST /price.
+ *
+ * A lookup goes memory (short LRU) → sinalite_price_cache_by_key → live API, keyed by product,
+ * store code and the sorted option ids:
+ * - fresh (fetched less than freshMs ago): served as is
+ * - stale (up to maxStaleMs): served, and refreshed in the background, one refresh per key per process
+ * - expired or missing: fetched live and written back
+ *
+ * When the live call fails we serve what we have: an expired row, else the ingested
+ * sinalite_product_pricing matrix, whose hash is the md5 of the same "-"-joined key.
+ *
+ * Outcomes and per-row hit counts are buffered in memory and flushed in batches to
+ * sinalite_price_cache_stats / hit_count; POST /api/jobs/sinalite-price-warmup uses the hit counts.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function msFromEnv(name: string, fallbackSeconds: number): number {
+  const n = Number(process.env[name]);
+  return (Number.isFinite(n) && n > 0 ? n : fallbackSeconds) * 1000;
+}
+
+export type PriceCachePolicy = { freshMs: number; maxStaleMs: number };
+
+export const PRICE_CACHE_POLICY: PriceCachePolicy = {
+  freshMs: msFromEnv("SINALITE_PRICE_FRESH_SECONDS", 6 * 60 * 60),
+  maxStaleMs: msFromEnv("SINALITE_PRICE_MAX_STALE_SECONDS", 7 * 24 * 60 * 60),
+};
+
+/** In-process copy of fresh entries, so one configurator session doesn't hit Postgres per click. */
+const MEMORY_TTL_MS = 60_000;
+
+/** Counters are flushed after this many lookups or this long, whichever comes first. */
+const FLUSH_EVERY = 50;
+const FLUSH_INTERVAL_MS = 30_000;
+
+/** The warmup job refreshes popular rows once they are this far into their fresh window. */
+const WARM_AHEAD = 0.75;
+
+export const PRICE_CACHE_OUTCOMES = ["fresh", "stale", "miss", "fallback", "error", "refresh_failed"] as const;
+export type PriceCacheOutcome = (typeof PRICE_CACHE_OUTCOMES)[number];
+
+export type Freshness = "fresh" | "stale" | "expired";
+
+export type CachedSinalitePrice = {
+  linePrice: number; // dollars, job total
+  linePriceCents: number;
+  optionsByGroup: Record<string, string>;
+  packageInfo?: Record<string, string>;
+  cache: {
+    outcome: "fresh" | "stale" | "miss" | "fallback";
+    source: "memory" | "db" | "live" | "matrix";
+    fetchedAt: string;
+  };
+};
+
+type Entry = {
+  price: number;
+  optionsByGroup: Record<string, string>;
+  packageInfo?: Record<string, string>;
+  fetchedAt: number;
+};
+
+type CacheRef = { productId: number; storeCode: StoreCode; key: string };
+
+/* ---------------------------------- keys ---------------------------------- */
+
+/** Unique positive option ids, ascending, and their "-"-joined cache key. */
+export function priceCacheKey(optionIds: readonly (number | string)[]): { ids: number[]; key: string } {
+  const ids = Array.from(
+    new Set(
+      (optionIds || [])
+        .map((v) => Math.trunc(Number(v)))
+        .filter((n) => Number.isFinite(n) && n > 0),
+    ),
+  ).sort((a, b) => a - b);
+  return { ids, key: ids.join("-") };
+}
+
+/** sinalite_product_pricing.hash for an option combination. */
+export function matrixHash(optionIds: readonly (number | string)[]): string {
+  return crypto.createHash("md5").update(priceCacheKey(optionIds).key).digest("hex");
+}
+
+export function freshness(fetchedAt: number, now: number, policy: PriceCachePolicy = PRICE_CACHE_POLICY): Freshness {
+  const age = now - fetchedAt;
+  if (age < policy.freshMs) return "fresh";
+  if (age < policy.maxStaleMs) return "stale";
+  return "expired";
+}
+
+function refId(ref: CacheRef): string {
+  return `${ref.productId}:${ref.storeCode}:${ref.key}`;
+}
+
+function memoryKey(ref: CacheRef): string {
+  return `sinalite_price:${refId(ref)}`;
+}
+
+function toResult(
+  entry: Entry,
+  outcome: CachedSinalitePrice["cache"]["outcome"],
+  source: CachedSinalitePrice["cache"]["source"],
+): CachedSinalitePrice {
+  return {
+    linePrice: entry.price,
+    linePriceCents: Math.round(entry.price * 100),
+    optionsByGroup: entry.optionsByGroup,
+    ...(entry.packageInfo ? { packageInfo: entry.packageInfo } : {}),
+    cache: { outcome, source, fetchedAt: new Date(entry.fetchedAt).toISOString() },
+  };
+}
+
+/* -------------------------------- counters -------------------------------- */
+
+const pending = {
+  outcomes: new Map<PriceCacheOutcome, number>(),
+  hits: new Map<string, CacheRef & { n: number }>(),
+  ops: 0,
+  lastFlushAt: Date.now(),
+};
+
+/**
+ * Work that outlives the request (stale refreshes, counter flushes). On Workers it is handed to
+ * ctx.waitUntil so the isolate isn't torn down mid-write; elsewhere the promise just runs on.
+ * `work` must already handle its own rejection.
+ */
+function runInBackground(work: Promise<unknown>) {
+  void (async () => {
+    try {
+      const { getCloudflareContext } = await import("@opennextjs/cloudflare");
+      const { ctx } = await getCloudflareContext({ async: true });
+      ctx.waitUntil(work);
+    } catch {
+      // not running on Workers (next dev / node)
+    }
+  })();
+}
+
+function record(outcome: PriceCacheOutcome, hit?: CacheRef) {
+  pending.outcomes.set(outcome, (pending.outcomes.get(outcome) ?? 0) + 1);
+  if (hit) {
+    const id = refId(hit);
+    const cur = pending.hits.get(id);
+    if (cur) cur.n += 1;
+    else pending.hits.set(id, { ...hit, n: 1 });
+  }
+
+  pending.ops += 1;
+  if (pending.ops >= FLUSH_EVERY || Date.now() - pending.lastFlushAt >= FLUSH_INTERVAL_MS) {
+    runInBackground(flushPriceCacheCounters().catch(() => {}));
+  }
+}
+
+/** Write buffered outcome counts and hit counts. Best-effort: a failed flush drops its batch. */
+export async function flushPriceCacheCounters(now = new Date()): Promise<void> {
+  const outcomes = [...pending.outcomes.entries()];
+  const hits = [...pending.hits.values()];
+  pending.outcomes.clear();
+  pending.hits.clear();
+  pending.ops = 0;
+  pending.lastFlushAt = now.getTime();
+
+  if (!outcomes.length && !hits.length) return;
+
+  try {
+    const day = now.toISOString().slice(0, 10);
+    if (outcomes.length) {
+      await db
+        .insert(sinalitePriceCacheStats)
+        .values(outcomes.map(([outcome, count]) => ({ day, outcome, count, updatedAt: now })))
+        .onConflictDoUpdate({
+          target: [sinalitePriceCacheStats.day, sinalitePriceCacheStats.outcome],
+          set: { count: sql`${sinalitePriceCacheStats.count} + excluded.count`, updatedAt: now },
+        });
+    }
+
+    for (const h of hits) {
+      await db
+        .update(sinalitePriceCache)
+        .set({ hitCount: sql`${sinalitePriceCache.hitCount} + ${h.n}`, lastHitAt: now })
+        .where(
+          and(
+            eq(sinalitePriceCache.productId, h.productId),
+            eq(sinalitePriceCache.storeCode, h.storeCode),
+            eq(sinalitePriceCache.key, h.key),
+          ),
+        );
+    }
+  } catch (e) {
+    console.warn("[priceCache] counter flush failed", { message: e instanceof Error ? e.message : String(e) });
+  }
+}
+
+/* --------------------------------- storage -------------------------------- */
+
+async function readRow(ref: CacheRef): Promise<Entry | null> {
+  const [row] = await db
+    .select({
+      price: sinalitePriceCache.price,
+      optionsByGroup: sinalitePriceCache.productOptionsJson,
+      packageInfo: sinalitePriceCache.packageJson,
+      updatedAt: sinalitePriceCache.updatedAt,
+    })
+    .from(sinalitePriceCache)
+    .where(
+      and(
+        eq(sinalitePriceCache.productId, ref.productId),
+        eq(sinalitePriceCache.storeCode, ref.storeCode),
+        eq(sinalitePriceCache.key, ref.key),
+      ),
+    )
+    .limit(1);
+
+  const price = Number(row?.price);
+  if (!row || !(price > 0)) return null;
+
+  return {
+    price,
+    optionsByGroup: row.optionsByGroup ?? {},
+    ...(row.packageInfo ? { packageInfo: row.packageInfo } : {}),
+    fetchedAt: row.updatedAt.getTime(),
+  };
+}
+
+async function readMatrix(ref: CacheRef, ids: number[]): Promise<Entry | null> {
+  const [row] = await db
+    .select({ value: sinaliteProductPricing.value, updatedAt: sinaliteProductPricing.updatedAt })
+    .from(sinaliteProductPricing)
+    .where(
+      and(
+        eq(sinaliteProductPricing.productId, ref.productId),
+        eq(sinaliteProductPricing.storeCode, ref.storeCode),
+        eq(sinaliteProductPricing.hash, matrixHash(ids)),
+      ),
+    )
+    .limit(1);
+
+  const price = Number(row?.value);
+  if (!row || !(price > 0)) return null;
+  return { price, optionsByGroup: {}, fetchedAt: row.updatedAt.getTime() };
+}
+
+const inflight = new Map<string, Promise<Entry>>();
+
+/** Live POST /price, written back to Postgres and memory. Concurrent calls for one key share a request. */
+function fetchLive(ref: CacheRef, ids: number[]): Promise<Entry> {
+  const id = refId(ref);
+  const existing = inflight.get(id);
+  if (existing) return existing;
+
+  const p = (async () => {
+    const store: Store = currencyToStore(ref.storeCode);
+    const live = await priceByOptionIds({ productId: ref.productId, storeCode: resolveStoreCode(store), optionIds: ids });
+    if (!(live.linePrice > 0)) throw new Error(`Sinalite returned no price for product ${ref.productId} (${ref.key})`);
+
+    const now = new Date();
+    const entry: Entry = {
+      price: live.linePrice,
+      optionsByGroup: live.optionsByGroup ?? {},
+      ...(live.packageInfo ? { packageInfo: live.packageInfo } : {}),
+      fetchedAt: now.getTime(),
+    };
+
+    try {
+      const values = {
+        price: String(live.linePrice),
+        packageJson: live.packageInfo ?? null,
+        productOptionsJson: entry.optionsByGroup,
+        source: "live_price",
+        updatedAt: now,
+      };
+      await db
+        .insert(sinalitePriceCache)
+        .values({ ...ref, optionIds: ids, ...values })
+        .onConflictDoUpdate({
+          target: [sinalitePriceCache.productId, sinalitePriceCache.storeCode, sinalitePriceCache.key],
+          set: values,
+        });
+    } catch (e) {
+      // The price itself is good; the next lookup just misses again
+      console.warn("[priceCache] write failed", { ...ref, message: e instanceof Error ? e.message : String(e) });
+    }
+
+    lruSet(memoryKey(ref), entry, MEMORY_TTL_MS);
+    return entry;
+  })().finally(() => inflight.delete(id));
+
+  inflight.set(id, p);
+  return p;
+}
+
+/* --------------------------------- lookup --------------------------------- */
+
+/**
+ * Trade price (job total) for a product and option combination, through the cache.
+ * Throws only when the live call fails and neither a cached row nor the matrix has the combination.
+ */
+export async function getSinalitePrice(input: {
+  productId: number;
+  store: Store;
+  optionIds: readonly (number | string)[];
+}): Promise<CachedSinalitePrice> {
+  const { ids, key } = priceCacheKey(input.optionIds);
+  if (!ids.length) throw new Error("getSinalitePrice: optionIds required");
+
+  const ref: CacheRef = { productId: Math.trunc(Number(input.productId)), storeCode: storeToStoreCode(input.store), key };
+  const now = Date.now();
+
+  const mem = lruGet<Entry>(memoryKey(ref));
+  if (mem && freshness(mem.fetchedAt, now) === "fresh") {
+    record("fresh", ref);
+    return toResult(mem, "fresh", "memory");
+  }
+
+  let row: Entry | null = null;
+  try {
+    row = await readRow(ref);
+  } catch (e) {
+    // Pricing still works without the cache table
+    console.warn("[priceCache] read failed", { ...ref, message: e instanceof Error ? e.message : String(e) });
+  }
+
+  if (row) {
+    const state = freshness(row.fetchedAt, now);
+    if (state === "fresh") {
+      lruSet(memoryKey(ref), row, MEMORY_TTL_MS);
+      record("fresh", ref);
+      return toResult(row, "fresh", "db");
+    }
+    if (state === "stale") {
+      record("stale", ref);
+      runInBackground(fetchLive(ref, ids).catch(() => record("refresh_failed")));
+      return toResult(row, "stale", "db");
+    }
+  }
+
+  try {
+    const live = await fetchLive(ref, ids);
+    record("miss", ref);
+    return toResult(live, "miss", "live");
+  } catch (error) {
+    if (row) {
+      record("stale", ref);
+      return toResult(row, "stale", "db");
+    }
+
+    const matrix = await readMatrix(ref, ids).catch(() => null);
+    if (matrix) {
+      record("fallback");
+      return toResult(matrix, "fallback", "matrix");
+    }
+
+    record("error");
+    throw error;
+  }
+}
+
+/* --------------------------------- warmup --------------------------------- */
+
+export type PriceWarmupResult = {
+  dryRun: boolean;
+  candidates: number;
+  refreshed: number;
+  failed: number;
+  sample: Array<{ productId: number; storeCode: string; key: string; reason: "hot" | "carted" }>;
+};
+
+/**
+ * Refresh popular combinations before shoppers hit a stale or missing row:
+ * - cached rows hit within `lookbackDays` that are past WARM_AHEAD of their fresh window, most hits first
+ * - combinations added to carts within `lookbackDays` that have no cached row yet
+ * Refreshes run one at a time so the job never bursts the Sinalite API.
+ */
+export async function warmPriceCache(
+  opts: { limit?: number; lookbackDays?: number; dryRun?: boolean } = {},
+  now = new Date(),
+): Promise<PriceWarmupResult> {
+  const limit = Math.min(Math.max(Math.trunc(opts.limit ?? 100), 1), 500);
+  const lookbackDays = Math.min(Math.max(Math.trunc(opts.lookbackDays ?? 30), 1), 365);
+  const since = new Date(now.getTime() - lookbackDays * DAY_MS);
+  const refreshBefore = new Date(now.getTime() - PRICE_CACHE_POLICY.freshMs * WARM_AHEAD);
+
+  await flushPriceCacheCounters(now);
+
+  const hot = await db
+    .select({
+      productId: sinalitePriceCache.productId,
+      storeCode: sinalitePriceCache.storeCode,
+      optionIds: sinalitePriceCache.optionIds,
+    })
+    .from(sinalitePriceCache)
+    .where(and(gte(sinalitePriceCache.lastHitAt, since), lt(sinalitePriceCache.updatedAt, refreshBefore)))
+    .orderBy(desc(sinalitePriceCache.hitCount))
+    .limit(limit);
+
+  const carted = await db.execute(sql`
+    SELECT cl.product_id, cl.option_ids, cl.currency, count(*)::int AS n
+    FROM cart_lines cl
+    WHERE cl.created_at >= ${since}
+      AND cl.product_id > 0
+      AND cl.quote_line_id IS NULL
+      AND jsonb_typeof(cl.option_ids) = 'array'
+    GROUP BY cl.product_id, cl.option_ids, cl.currency
+    ORDER BY n DESC
+    LIMIT ${limit}
+  `);
+
+  const seen = new Set<string>();
+  const queue: Array<{ ref: CacheRef; ids: number[]; reason: "hot" | "carted" }> = [];
+  const push = (productId: number, storeCode: StoreCode, optionIds: readonly (number | string)[], reason: "hot" | "carted") => {
+    const { ids, key } = priceCacheKey(optionIds);
+    const ref = { productId, storeCode, key };
+    if (!ids.length || seen.has(refId(ref))) return;
+    seen.add(refId(ref));
+    queue.push({ ref, ids, reason });
+  };
+
+  for (const r of hot) push(r.productId, storeToStoreCode(r.storeCode), r.optionIds, "hot");
+
+  for (const r of carted.rows as Array<{ product_id: number; option_ids: unknown; currency: string }>) {
+    const optionIds = Array.isArray(r.option_ids) ? (r.option_ids as (number | string)[]) : [];
+    const storeCode = storeToStoreCode(r.currency);
+    const { key } = priceCacheKey(optionIds);
+    if (!key) continue;
+
+    const [cached] = await db
+      .select({ key: sinalitePriceCache.key })
+      .from(sinalitePriceCache)
+      .where(
+        and(
+          eq(sinalitePriceCache.productId, Number(r.product_id)),
+          eq(sinalitePriceCache.storeCode, storeCode),
+          eq(sinalitePriceCache.key, key),
+        ),
+      )
+      .limit(1);
+    if (!cached) push(Number(r.product_id), storeCode, optionIds, "carted");
+  }
+
+  const candidates = queue.slice(0, limit);
+  const result: PriceWarmupResult = {
+    dryRun: opts.dryRun === true,
+    candidates: candidates.length,
+    refreshed: 0,
+    failed: 0,
+    sample: candidates.slice(0, 20).map((c) => ({ ...c.ref, reason: c.reason })),
+  };
+  if (result.dryRun) return result;
+
+  for (const c of candidates) {
+    try {
+      await fetchLive(c.ref, c.ids);
+      result.refreshed += 1;
+    } catch (e) {
+      result.failed += 1;
+      console.warn("[priceCache] warmup refresh failed", { ...c.ref, message: e instanceof Error ? e.message : String(e) });
+    }
+  }
+
+  return result;
+}
+
+/* --------------------------------- health --------------------------------- */
+
+export type PriceCacheDay = Record<PriceCacheOutcome, number> & {
+  day: string;
+  lookups: number;
+  hitRate: number | null;
+  staleRate: number | null;
+};
+
+function emptyDay(day: string): PriceCacheDay {
+  const counts = Object.fromEntries(PRICE_CACHE_OUTCOMES.map((o) => [o, 0])) as Record<PriceCacheOutcome, number>;
+  return { day, ...counts, lookups: 0, hitRate: null, staleRate: null };
+}
+
+function withRates(d: PriceCacheDay): PriceCacheDay {
+  // refresh_failed is a background event, not a lookup
+  const lookups = d.fresh + d.stale + d.miss + d.fallback + d.error;
+  const ratio = (n: number) => (lookups ? Math.round((n / lookups) * 10_000) / 10_000 : null);
+  return { ...d, lookups, hitRate: ratio(d.fresh + d.stale), staleRate: ratio(d.stale) };
+}
+
+/** Per-day outcome counts (oldest first) and their total, with hit and stale rates. */
+export function summarizeCacheStats(rows: Array<{ day: string; outcome: string; count: number }>): {
+  days: PriceCacheDay[];
+  totals: Omit<PriceCacheDay, "day">;
+} {
+  const byDay = new Map<string, PriceCacheDay>();
+  const total = emptyDay("");
+
+  for (const r of rows) {
+    if (!(PRICE_CACHE_OUTCOMES as readonly string[]).includes(r.outcome)) continue;
+    const outcome = r.outcome as PriceCacheOutcome;
+    const d = byDay.get(r.day) ?? emptyDay(r.day);
+    d[outcome] += Number(r.count) || 0;
+    total[outcome] += Number(r.count) || 0;
+    byDay.set(r.day, d);
+  }
+
+  const days = [...byDay.values()].sort((a, b) => a.day.localeCompare(b.day)).map(withRates);
+  const { day: _day, ...totals } = withRates(total);
+  return { days, totals };
+}
+
+export async function getPriceCacheHealth(opts: { days?: number } = {}, now = new Date()) {
+  const days = Math.min(Math.max(Math.trunc(opts.days ?? 7), 1), 90);
+  const freshCut = new Date(now.getTime() - PRICE_CACHE_POLICY.freshMs);
+  const staleCut = new Date(now.getTime() - PRICE_CACHE_POLICY.maxStaleMs);
+
+  await flushPriceCacheCounters(now);
+
+  const entries = await db.execute(sql`
+    SELECT
+      count(*)::int AS total,
+      count(*) FILTER (WHERE updated_at >= ${freshCut})::int AS fresh,
+      count(*) FILTER (WHERE updated_at < ${freshCut} AND updated_at >= ${staleCut})::int AS stale,
+      count(*) FILTER (WHERE updated_at < ${staleCut})::int AS expired,
+      min(updated_at) AS oldest_fetched_at,
+      max(updated_at) AS newest_fetched_at
+    FROM sinalite_price_cache_by_key
+  `);
+
+  const from = new Date(now.getTime() - (days - 1) * DAY_MS).toISOString().slice(0, 10);
+  const stats = await db
+    .select({ day: sinalitePriceCacheStats.day, outcome: sinalitePriceCacheStats.outcome, count: sinalitePriceCacheStats.count })
+    .from(sinalitePriceCacheStats)
+    .where(gte(sinalitePriceCacheStats.day, from));
+
+  return {
+    policy: {
+      freshSeconds: Math.round(PRICE_CACHE_POLICY.freshMs / 1000),
+      maxStaleSeconds: Math.round(PRICE_CACHE_POLICY.maxStaleMs / 1000),
+    },
+    entries: entries.rows[0] ?? null,
+    ...summarizeCacheStats(stats),
+    refreshesInFlight: inflight.size,
+  };
+}
@@ -0,0 +1,427 @@
+// src/lib/sinalite/priceChanges.ts
+import "server-only";
+
+import { and, desc, eq, gte, inArray, isNull, sql } from "drizzle-orm";
+
+import { db } from "@/lib/db";
+import { cartLines, carts, jobState, quoteLines, quotes, sinalitePriceChanges } from "@/lib/db/schema";
+import { computePrice } from "@/lib/price/compute";
+import { marginFloorFor } from "@/lib/pricing";
+import { matrixHash } from "@/lib/sinalite/priceCache";
+import { currencyToStore, storeToStoreCode, type Store } from "@/lib/storeCodes";
+
+/**
+ * Sinalite cost changes.
+ *
+ * The ingest script overwrites sinalite_product_pricing in place, so the job
+ * (POST /api/jobs/sinalite-price-changes) diffs rows ingested since its cursor against
+ * sinalite_pricing_snapshot, logs every moved value in sinalite_price_changes and moves the
+ * snapshot forward. A row seen for the first time only seeds the snapshot.
+ *
+ * For each change:
+ * - cached prices for the combination (sinalite_price_cache_by_key) are dropped
+ * - open cart lines for the same product, store and option combination are re-run through
+ *   computePrice; when the line total moves by more than the tolerance the line takes the new
+ *   price and is flagged for the cart's "price updated" notice
+ *
+ * Lines locked by an accepted quote are never repriced. marginReport() lists cart and quote
+ * lines whose price, at the new cost, is under the margin floor pricing.ts would enforce.
+ */
+
+const JOB_NAME = "sinalite_price_changes";
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Rows are re-read this far behind the cursor in case an ingest committed late; the diff is idempotent. */
+const CURSOR_OVERLAP_MS = 60 * 60 * 1000;
+
+function defaultTolerance(): number {
+  const n = Number(process.env.CART_REPRICE_TOLERANCE_PCT);
+  return Number.isFinite(n) && n >= 0 ? n : 0.01;
+}
+
+export type DetectedChange = {
+  id: string;
+  productId: number;
+  storeCode: string;
+  hash: string;
+  oldValue: number;
+  newValue: number;
+  changePct: number | null;
+};
+
+function changeKey(productId: number, storeCode: string, hash: string): string {
+  return `${productId}:${storeCode}:${hash}`;
+}
+
+function lineOptionIds(v: unknown): number[] {
+  return Array.isArray(v) ? v.map(Number).filter((n) => Number.isFinite(n) && n > 0) : [];
+}
+
+/** Whether a reprice from `oldCents` to `newCents` is big enough to apply and tell the customer about. */
+export function exceedsTolerance(oldCents: number, newCents: number, tolerancePct: number): boolean {
+  if (newCents === oldCents) return false;
+  if (oldCents <= 0) return true;
+  return Math.abs(newCents - oldCents) / oldCents > tolerancePct;
+}
+
+/** (sell - cost) / sell, or null when nothing is charged. */
+export function marginPct(sellCents: number, costCents: number): number | null {
+  if (!(sellCents > 0)) return null;
+  return Math.round(((sellCents - costCents) / sellCents) * 10_000) / 10_000;
+}
+
+/* ---------------------------------- diff ---------------------------------- */
+
+async function diffIngestedPricing(since: Date | null, now: Date) {
+  const bounds = await db.execute(sql`
+    SELECT count(*)::int AS scanned, max(updated_at) AS newest
+    FROM sinalite_product_pricing
+    WHERE ${since ? sql`updated_at > ${since}` : sql`true`}
+  `);
+  const scanned = Number((bounds.rows[0] as any)?.scanned ?? 0);
+  const newestRaw = (bounds.rows[0] as any)?.newest;
+  const newest = newestRaw ? new Date(newestRaw) : null;
+  if (!newest) return { scanned, newest: null, changes: [] as DetectedChange[] };
+
+  // Both CTEs see the snapshot as it was before this statement (and both always run), so the
+  // log compares against the previous value while the snapshot moves forward.
+  const res = await db.execute(sql`
+    WITH cur AS (
+      SELECT product_id, store_code, hash, value::numeric AS value
+      FROM sinalite_product_pricing
+      WHERE ${since ? sql`updated_at > ${since} AND` : sql``} updated_at <= ${newest}
+        AND value ~ '^[0-9]+(\\.[0-9]+)?$'
+    ),
+    changed AS (
+      INSERT INTO sinalite_price_changes (product_id, store_code, hash, old_value, new_value, change_pct, detected_at)
+      SELECT c.product_id, c.store_code, c.hash, s.value, c.value,
+             CASE WHEN s.value > 0 THEN round((c.value - s.value) / s.value, 4) END,
+             ${now}
+      FROM cur c
+      JOIN sinalite_pricing_snapshot s USING (product_id, store_code, hash)
+      WHERE c.value <> s.value
+      RETURNING id, product_id, store_code, hash, old_value, new_value, change_pct
+    ),
+    seen AS (
+      INSERT INTO sinalite_pricing_snapshot (product_id, store_code, hash, value, seen_at)
+      SELECT product_id, store_code, hash, value, ${now} FROM cur
+      ON CONFLICT (product_id, store_code, hash) DO UPDATE
+        SET value = excluded.value, seen_at = excluded.seen_at
+        WHERE sinalite_pricing_snapshot.value <> excluded.value
+    )
+    SELECT * FROM changed
+  `);
+
+  const changes: DetectedChange[] = (res.rows as any[]).map((r) => ({
+    id: String(r.id),
+    productId: Number(r.product_id),
+    storeCode: String(r.store_code),
+    hash: String(r.hash),
+    oldValue: Number(r.old_value),
+    newValue: Number(r.new_value),
+    changePct: r.change_pct == null ? null : Number(r.change_pct),
+  }));
+
+  return { scanned, newest, changes };
+}
+
+/* -------------------------------- repricing ------------------------------- */
+
+export type CartRepriceResult = { linesChecked: number; linesRepriced: number; carts: number; failed: number };
+
+async function repriceOpenCarts(changes: DetectedChange[], now: Date, tolerancePct: number): Promise<CartRepriceResult> {
+  const result: CartRepriceResult = { linesChecked: 0, linesRepriced: 0, carts: 0, failed: 0 };
+  if (!changes.length) return result;
+
+  const byKey = new Map(changes.map((c) => [changeKey(c.productId, c.storeCode, c.hash), c]));
+  const productIds = [...new Set(changes.map((c) => c.productId))];
+
+  const lines = await db
+    .select({
+      id: cartLines.id,
+      cartId: cartLines.cartId,
+      productId: cartLines.productId,
+      optionIds: cartLines.optionIds,
+      quantity: cartLines.quantity,
+      unitPriceCents: cartLines.unitPriceCents,
+      lineTotalCents: cartLines.lineTotalCents,
+      previousUnitPriceCents: cartLines.previousUnitPriceCents,
+      currency: carts.currency,
+    })
+    .from(cartLines)
+    .innerJoin(carts, eq(carts.id, cartLines.cartId))
+    .where(and(eq(carts.status, "open"), isNull(cartLines.quoteLineId), inArray(cartLines.productId, productIds)));
+
+  const cartsByChange = new Map<string, Set<string>>();
+
+  for (const l of lines) {
+    const optionIds = lineOptionIds(l.optionIds);
+    const change = byKey.get(changeKey(l.productId, storeToStoreCode(l.currency), matrixHash(optionIds)));
+    if (!change || !optionIds.length) continue;
+    result.linesChecked += 1;
+
+    try {
+      const priced = await computePrice({
+        productId: l.productId,
+        store: currencyToStore(l.currency),
+        quantity: l.quantity,
+        optionIds,
+      });
+      if (!exceedsTolerance(l.lineTotalCents, priced.lineSellCents, tolerancePct)) continue;
+
+      // Back to what the customer first saw: nothing left to tell them
+      const previous = l.previousUnitPriceCents ?? l.unitPriceCents;
+      const backToPrevious = previous === priced.unitSellCents;
+
+      const updated = await db
+        .update(cartLines)
+        .set({
+          unitPriceCents: priced.unitSellCents,
+          lineTotalCents: priced.lineSellCents,
+          previousUnitPriceCents: backToPrevious ? null : previous,
+          priceChangedAt: backToPrevious ? null : now,
+          updatedAt: now,
+        })
+        // Skip lines the customer changed since we read them
+        .where(and(eq(cartLines.id, l.id), eq(cartLines.quantity, l.quantity), eq(cartLines.unitPriceCents, l.unitPriceCents)))
+        .returning({ id: cartLines.id });
+      if (!updated.length) continue;
+
+      result.linesRepriced += 1;
+      const set = cartsByChange.get(change.id) ?? new Set<string>();
+      set.add(l.cartId);
+      cartsByChange.set(change.id, set);
+    } catch (e) {
+      result.failed += 1;
+      console.warn("[priceChanges] cart line reprice failed", {
+        lineId: l.id,
+        productId: l.productId,
+        message: e instanceof Error ? e.message : String(e),
+      });
+    }
+  }
+
+  const allCarts = new Set<string>();
+  for (const [changeId, cartIds] of cartsByChange) {
+    cartIds.forEach((id) => allCarts.add(id));
+    await db.update(sinalitePriceChanges).set({ cartsRepriced: cartIds.size }).where(eq(sinalitePriceChanges.id, changeId));
+  }
+  result.carts = allCarts.size;
+
+  return result;
+}
+
+/* ----------------------------------- job ---------------------------------- */
+
+export type PriceChangeRunResult = {
+  scanned: number;
+  changes: number;
+  cacheRowsDropped: number;
+  carts: CartRepriceResult;
+  cursor: string | null;
+  tolerancePct: number;
+};
+
+export async function runPriceChangeScan(
+  opts: { tolerancePct?: number } = {},
+  now = new Date(),
+): Promise<PriceChangeRunResult> {
+  const tolerancePct = opts.tolerancePct != null && opts.tolerancePct >= 0 ? opts.tolerancePct : defaultTolerance();
+
+  const [state] = await db.select().from(jobState).where(eq(jobState.name, JOB_NAME)).limit(1);
+  const cursorAt = state?.cursor ? Date.parse(state.cursor) : NaN;
+  const since = Number.isFinite(cursorAt) ? new Date(cursorAt - CURSOR_OVERLAP_MS) : null;
+
+  const diff = await diffIngestedPricing(since, now);
+
+  let cacheRowsDropped = 0;
+  if (diff.changes.length) {
+    const dropped = await db.execute(sql`
+      DELETE FROM sinalite_price_cache_by_key k
+      USING sinalite_price_changes ch
+      WHERE ch.detected_at = ${now}
+        AND k.product_id = ch.product_id
+        AND k.store_code = ch.store_code
+        AND md5(k.key) = ch.hash
+    `);
+    cacheRowsDropped = Number((dropped as any).rowCount ?? 0);
+  }
+
+  const cartResult = await repriceOpenCarts(diff.changes, now, tolerancePct);
+
+  const cursor = diff.newest ? diff.newest.toISOString() : (state?.cursor ?? null);
+  const result: PriceChangeRunResult = {
+    scanned: diff.scanned,
+    changes: diff.changes.length,
+    cacheRowsDropped,
+    carts: cartResult,
+    cursor,
+    tolerancePct,
+  };
+
+  const lastRun = { ...result, finishedAt: new Date().toISOString() };
+  await db
+    .insert(jobState)
+    .values({ name: JOB_NAME, cursor, lastRun, updatedAt: new Date() })
+    .onConflictDoUpdate({ target: jobState.name, set: { cursor, lastRun, updatedAt: new Date() } });
+
+  return result;
+}
+
+/* --------------------------------- report --------------------------------- */
+
+export type PriceChangeSummary = {
+  id: string;
+  productId: number;
+  storeCode: string;
+  hash: string;
+  oldCostCents: number;
+  newCostCents: number;
+  changePct: number | null;
+  cartsRepriced: number;
+  detectedAt: string;
+};
+
+export type MarginAlert = {
+  changeId: string;
+  productId: number;
+  storeCode: string;
+  source: "cart_line" | "quote_line";
+  lineId: string;
+  // cart id, or quote number for quote lines
+  ref: string;
+  quantity: number;
+  sellCents: number;
+  newCostCents: number;
+  marginPct: number | null;
+  floorPct: number;
+};
+
+/**
+ * Cost changes detected in the last `days`, and every open cart line or draft/sent quote line
+ * whose price no longer clears its margin floor at the latest cost for its combination.
+ */
+export async function marginReport(
+  opts: { days?: number } = {},
+  now = new Date(),
+): Promise<{ changes: PriceChangeSummary[]; alerts: MarginAlert[] }> {
+  const days = Math.min(Math.max(Math.trunc(opts.days ?? 30), 1), 365);
+
+  const rows = await db
+    .select()
+    .from(sinalitePriceChanges)
+    .where(gte(sinalitePriceChanges.detectedAt, new Date(now.getTime() - days * DAY_MS)))
+    .orderBy(desc(sinalitePriceChanges.detectedAt))
+    .limit(500);
+
+  const changes: PriceChangeSummary[] = rows.map((r) => ({
+    id: r.id,
+    productId: r.productId,
+    storeCode: r.storeCode,
+    hash: r.hash,
+    oldCostCents: Math.round(Number(r.oldValue) * 100),
+    newCostCents: Math.round(Number(r.newValue) * 100),
+    changePct: r.changePct == null ? null : Number(r.changePct),
+    cartsRepriced: r.cartsRepriced,
+    detectedAt: r.detectedAt.toISOString(),
+  }));
+  if (!changes.length) return { changes, alerts: [] };
+
+  // Newest first, so the first change seen per combination is its current cost
+  const latest = new Map<string, PriceChangeSummary>();
+  for (const c of changes) {
+    const k = changeKey(c.productId, c.storeCode, c.hash);
+    if (!latest.has(k)) latest.set(k, c);
+  }
+  const productIds = [...new Set(changes.map((c) => c.productId))];
+
+  const candidates: Array<Omit<MarginAlert, "changeId" | "newCostCents" | "marginPct" | "floorPct" | "storeCode"> & {
+    store: Store;
+    optionIds: number[];
+  }> = [];
+
+  const cartRows = await db
+    .select({
+      id: cartLines.id,
+      cartId: cartLines.cartId,
+      productId: cartLines.productId,
+      optionIds: cartLines.optionIds,
+      quantity: cartLines.quantity,
+      lineTotalCents: cartLines.lineTotalCents,
+      currency: carts.currency,
+    })
+    .from(cartLines)
+    .innerJoin(carts, eq(carts.id, cartLines.cartId))
+    .where(and(eq(carts.status, "open"), isNull(cartLines.quoteLineId), inArray(cartLines.productId, productIds)));
+
+  for (const r of cartRows) {
+    candidates.push({
+      source: "cart_line",
+      lineId: r.id,
+      ref: r.cartId,
+      productId: r.productId,
+      quantity: r.quantity,
+      sellCents: r.lineTotalCents,
+      store: currencyToStore(r.currency),
+      optionIds: lineOptionIds(r.optionIds),
+    });
+  }
+
+  const quoteRows = await db
+    .select({
+      id: quoteLines.id,
+      quoteNumber: quotes.quoteNumber,
+      productId: quoteLines.productId,
+      optionIds: quoteLines.optionIds,
+      quantity: quoteLines.quantity,
+      lineTotalCents: quoteLines.lineTotalCents,
+      store: quotes.store,
+    })
+    .from(quoteLines)
+    .innerJoin(quotes, eq(quotes.id, quoteLines.quoteId))
+    .where(
+      and(
+        inArray(quotes.status, ["draft", "sent"]),
+        eq(quoteLines.kind, "sinalite"),
+        inArray(quoteLines.productId, productIds),
+      ),
+    );
+
+  for (const r of quoteRows) {
+    if (r.productId == null) continue;
+    candidates.push({
+      source: "quote_line",
+      lineId: r.id,
+      ref: r.quoteNumber,
+      productId: r.productId,
+      quantity: r.quantity,
+      sellCents: r.lineTotalCents,
+      store: r.store === "CA" ? "CA" : "US",
+      optionIds: lineOptionIds(r.optionIds),
+    });
+  }
+
+  const floors = new Map<string, number>();
+  const alerts: MarginAlert[] = [];
+
+  for (const { store, optionIds, ...c } of candidates) {
+    const storeCode = storeToStoreCode(store);
+    const change = latest.get(changeKey(c.productId, storeCode, matrixHash(optionIds)));
+    if (!change || !optionIds.length) continue;
+
+    const floorKey = `${store}:${c.productId}:${c.quantity}`;
+    let floorPct = floors.get(floorKey);
+    if (floorPct == null) {
+      floorPct = await marginFloorFor({ store, quantity: c.quantity, productId: c.productId });
+      floors.set(floorKey, floorPct);
+    }
+
+    const margin = marginPct(c.sellCents, change.newCostCents);
+    if (margin != null && margin >= floorPct) continue;
+
+    alerts.push({ ...c, changeId: change.id, storeCode, newCostCents: change.newCostCents, marginPct: margin, floorPct });
+  }
+
+  alerts.sort((a, b) => (a.marginPct ?? -Infinity) - (b.marginPct ?? -Infinity));
+  return { changes, alerts };
+}
@@ -6,6 +6,8 @@
 import "server-only";
 
 import { getEnv, requireSinaliteAuth } from "@/lib/env";
+import { getSinalitePrice } from "@/lib/sinalite/priceCache";
+import { currencyToStore } from "@/lib/storeCodes";
 
 /**
  * SinaLite REST client (server-only, TypeScript)
@@ -515,17 +517,11 @@ export async function getConfiguredPrice(
     if (qtyId && !chain.includes(qtyId)) chain = [qtyId, ...chain];
   }
 
-  const priceResp = await getSinalitePriceRegular(productId, chain, sc);
-  const rawPrice =
-    (priceResp as any)?.price ??
-    (priceResp as any)?.price2?.price ??
-    (priceResp as any)?.response?.price ??
-    null;
-
-  if (rawPrice == null) return null;
+  // Cached read-through (lib/sinalite/priceCache.ts) instead of a live POST /price per change
+  const priced = await getSinalitePrice({ productId: Number(productId), store: currencyToStore(sc), optionIds: chain });
 
   const currency: "USD" | "CAD" = sc.toLowerCase().includes("ca") ? "CAD" : "USD";
-  return { unitPrice: Number(rawPrice), currency };
+  return { unitPrice: priced.linePrice, currency };
 }
 
 // ─────────────────────────────────────────────────────────────
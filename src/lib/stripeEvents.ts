@@ -0,0 +1,203 @@
+// src/lib/stripeEvents.ts
+import "server-only";
+
+import crypto from "node:crypto";
+import { and, desc, eq, inArray, lt, or } from "drizzle-orm";
+import type Stripe from "stripe";
+
+import { db } from "@/lib/db";
+import { ApiError } from "@/lib/apiError";
+import { stripeEvents, type StripeEventRow } from "@/lib/db/schema/stripeEvents";
+
+/**
+ * Stripe webhook event ledger.
+ *
+ * Every verified delivery is claimed here before the handler runs:
+ * - first delivery inserts the row as "processing"
+ * - processed / ignored events short-circuit (duplicate delivery)
+ * - failed events, and "processing" rows older than STALE_AFTER_MS (crashed mid-handler),
+ *   are reclaimed so Stripe's own retries still work
+ * - a fresh "processing" row means another delivery is in flight
+ *
+ * Replay runs a stored payload through the same handler regardless of status.
+ */
+
+export const STRIPE_EVENT_STATUSES = ["processing", "processed", "ignored", "failed"] as const;
+export type StripeEventStatus = (typeof STRIPE_EVENT_STATUSES)[number];
+
+/** Response body from the webhook handler; `ignored` marks unhandled event types. */
+export type StripeEventResult = Record<string, unknown> & { ignored?: unknown };
+export type StripeEventHandler = (event: Stripe.Event) => Promise<StripeEventResult>;
+
+export type StripeEventClaim =
+  | { claimed: true; attempts: number }
+  | { claimed: false; status: StripeEventStatus; result: unknown };
+
+const STALE_AFTER_MS = 5 * 60_000;
+const MAX_ERROR_LEN = 2000;
+
+export function stripePayloadHash(rawBody: string): string {
+  return crypto.createHash("sha256").update(rawBody, "utf8").digest("hex");
+}
+
+function errorMessage(e: unknown): string {
+  const msg = e instanceof Error ? e.message : String(e);
+  return msg.slice(0, MAX_ERROR_LEN);
+}
+
+/** Claim a verified delivery. Only a claimed event should be handled. */
+export async function claimStripeEvent(event: Stripe.Event, rawBody: string): Promise<StripeEventClaim> {
+  const [existing] = await db
+    .select({ status: stripeEvents.status, attempts: stripeEvents.attempts, result: stripeEvents.result })
+    .from(stripeEvents)
+    .where(eq(stripeEvents.stripeEventId, event.id))
+    .limit(1);
+
+  if (!existing) {
+    const [inserted] = await db
+      .insert(stripeEvents)
+      .values({
+        stripeEventId: event.id,
+        type: event.type,
+        livemode: Boolean(event.livemode),
+        payloadHash: stripePayloadHash(rawBody),
+        payload: event as unknown as Record<string, unknown>,
+        status: "processing",
+        attempts: 1,
+      })
+      .onConflictDoNothing({ target: stripeEvents.stripeEventId })
+      .returning({ attempts: stripeEvents.attempts });
+
+    if (inserted) return { claimed: true, attempts: inserted.attempts };
+    // lost the insert race to a concurrent delivery
+    return { claimed: false, status: "processing", result: null };
+  }
+
+  const status = existing.status as StripeEventStatus;
+  if (status === "processed" || status === "ignored") {
+    return { claimed: false, status, result: existing.result };
+  }
+
+  const staleBefore = new Date(Date.now() - STALE_AFTER_MS);
+  const [reclaimed] = await db
+    .update(stripeEvents)
+    .set({ status: "processing", attempts: existing.attempts + 1, error: null, updatedAt: new Date() })
+    .where(
+      and(
+        eq(stripeEvents.stripeEventId, event.id),
+        or(
+          eq(stripeEvents.status, "failed"),
+          and(eq(stripeEvents.status, "processing"), lt(stripeEvents.updatedAt, staleBefore)),
+        ),
+      ),
+    )
+    .returning({ attempts: stripeEvents.attempts });
+
+  if (reclaimed) return { claimed: true, attempts: reclaimed.attempts };
+  return { claimed: false, status: "processing", result: null };
+}
+
+export async function completeStripeEvent(eventId: string, result: StripeEventResult): Promise<void> {
+  await db
+    .update(stripeEvents)
+    .set({
+      status: result.ignored ? "ignored" : "processed",
+      result,
+      error: null,
+      processedAt: new Date(),
+      updatedAt: new Date(),
+    })
+    .where(eq(stripeEvents.stripeEventId, eventId));
+}
+
+export async function failStripeEvent(eventId: string, error: unknown): Promise<void> {
+  await db
+    .update(stripeEvents)
+    .set({ status: "failed", error: errorMessage(error), updatedAt: new Date() })
+    .where(eq(stripeEvents.stripeEventId, eventId));
+}
+
+/** Claimed delivery -> handler -> ledger outcome. Rethrows handler errors after recording them. */
+export async function runStripeEvent(event: Stripe.Event, handle: StripeEventHandler): Promise<StripeEventResult> {
+  try {
+    const result = await handle(event);
+    await completeStripeEvent(event.id, result);
+    return result;
+  } catch (e) {
+    await failStripeEvent(event.id, e).catch((err) =>
+      console.error("[stripeEvents] failed to record failure:", { eventId: event.id, error: errorMessage(err) }),
+    );
+    throw e;
+  }
+}
+
+export async function listStripeEvents(opts: { status?: StripeEventStatus | null; type?: string | null; limit?: number } = {}) {
+  const limit = Math.max(1, Math.min(500, Math.trunc(Number(opts.limit) || 100)));
+  const where = [
+    opts.status ? eq(stripeEvents.status, opts.status) : undefined,
+    opts.type ? eq(stripeEvents.type, opts.type) : undefined,
+  ].filter((w) => w !== undefined);
+
+  return db
+    .select({
+      id: stripeEvents.id,
+      stripeEventId: stripeEvents.stripeEventId,
+      type: stripeEvents.type,
+      livemode: stripeEvents.livemode,
+      status: stripeEvents.status,
+      attempts: stripeEvents.attempts,
+      error: stripeEvents.error,
+      receivedAt: stripeEvents.receivedAt,
+      processedAt: stripeEvents.processedAt,
+      updatedAt: stripeEvents.updatedAt,
+    })
+    .from(stripeEvents)
+    .where(where.length ? and(...where) : undefined)
+    .orderBy(desc(stripeEvents.receivedAt))
+    .limit(limit);
+}
+
+/**
+ * Re-run a stored event through the webhook handler (admin replay).
+ * Any settled status can be replayed; handlers are idempotent per event id, so replaying a
+ * processed event only repeats side effects that were not recorded the first time.
+ * Throws ApiError 404 (unknown) / 409 (currently in flight).
+ */
+export async function replayStripeEvent(
+  stripeEventId: string,
+  handle: StripeEventHandler,
+): Promise<{ event: Pick<StripeEventRow, "stripeEventId" | "type">; attempts: number; result: StripeEventResult }> {
+  const [row] = await db
+    .select()
+    .from(stripeEvents)
+    .where(eq(stripeEvents.stripeEventId, stripeEventId))
+    .limit(1);
+
+  if (!row) throw new ApiError({ status: 404, code: "STRIPE_EVENT_NOT_FOUND", message: "Stripe event not found" });
+
+  const staleBefore = new Date(Date.now() - STALE_AFTER_MS);
+  const [claimed] = await db
+    .update(stripeEvents)
+    .set({ status: "processing", attempts: row.attempts + 1, error: null, updatedAt: new Date() })
+    .where(
+      and(
+        eq(stripeEvents.id, row.id),
+        or(
+          inArray(stripeEvents.status, ["processed", "ignored", "failed"]),
+          lt(stripeEvents.updatedAt, staleBefore),
+        ),
+      ),
+    )
+    .returning({ attempts: stripeEvents.attempts });
+
+  if (!claimed) {
+    throw new ApiError({
+      status: 409,
+      code: "STRIPE_EVENT_IN_FLIGHT",
+      message: "Stripe event is being processed; try again shortly",
+    });
+  }
+
+  const result = await runStripeEvent(row.payload as Stripe.Event, handle);
+  return { event: { stripeEventId: row.stripeEventId, type: row.type }, attempts: claimed.attempts, result };
+}
@@ -1,5 +1,7 @@
 import "server-only";
 
+import { findTaxRule, type TaxComponentCode } from "@/lib/taxRules";
+
 export type TaxLocation = {
   country?: string | null;   // "US", "CA"
   state?: string | null;     // "NY", "ON"
@@ -15,26 +17,221 @@ export type TaxInput = {
   location: TaxLocation | null;
 };
 
+/** Which provider produced the result ("none" = no provider claimed the destination). */
+export type TaxSource = "rules_table" | "none" | (string & {});
+
+export type TaxBreakdownLine = {
+  code: TaxComponentCode | string; // "SALES", "GST", "HST", "PST", "QST", ...
+  rate: number;                    // 0..1
+  taxCents: number;
+};
+
 export type TaxResult = {
   taxCents: number;
-  rate: number; // 0..1
-  source: "placeholder";
+  rate: number; // 0..1 (combined effective rate on the taxable base)
+  source: TaxSource;
+  taxableCents: number;
+  breakdown?: TaxBreakdownLine[];
   notes?: string;
 };
 
 /**
- * Placeholder tax calculator.
- * Today: always returns 0.
+ * Pluggable tax provider.
+ * - supports(): claim a destination (first provider that claims it answers)
+ * - calculate(): must be deterministic for the same input
+ */
+export type TaxProvider = {
+  name: TaxSource;
+  supports(location: TaxLocation): boolean;
+  calculate(input: TaxInput & { location: TaxLocation }): TaxResult;
+};
+
+/* --------------------------------- helpers --------------------------------- */
+
+function clamp0(v: unknown): number {
+  const n = Number(v);
+  return Number.isFinite(n) ? Math.max(0, Math.trunc(n)) : 0;
+}
+
+function normCode(v: unknown): string {
+  return String(v ?? "").trim().toUpperCase();
+}
+
+/**
+ * Taxable base split into goods + shipping.
  *
- * Later: swap this implementation to Stripe Tax, TaxJar, Avalara, etc.
+ * Credits are treated as a discount on goods only (never below 0), which is the same
+ * netSubtotal the Stripe webhook derives before calling reconcileTaxFromStripeTotal.
+ */
+export function taxableBaseCents(
+  input: Pick<TaxInput, "subtotalCents" | "shippingCents" | "creditsCents">,
+  shippingTaxable: boolean,
+): { goodsCents: number; shippingCents: number; totalCents: number } {
+  const subtotal = clamp0(input.subtotalCents);
+  const discount = Math.min(clamp0(input.creditsCents), subtotal);
+  const goodsCents = subtotal - discount;
+  const shippingCents = shippingTaxable ? clamp0(input.shippingCents) : 0;
+  return { goodsCents, shippingCents, totalCents: goodsCents + shippingCents };
+}
+
+/**
+ * Derive a TaxLocation from carts.selected_shipping JSON
+ * (shape written by /api/cart/shipping/choose: { country, state, zip, ... }).
+ */
+export function taxLocationFromSelectedShipping(selectedShipping: unknown): TaxLocation | null {
+  if (!selectedShipping || typeof selectedShipping !== "object") return null;
+  const s = selectedShipping as Record<string, unknown>;
+
+  const country = normCode(s.country);
+  const state = normCode(s.state);
+  if (!country || !state) return null;
+
+  const postal = String(s.zip ?? s.postalCode ?? "").trim();
+  const city = String(s.city ?? "").trim();
+
+  return {
+    country,
+    state,
+    postalCode: postal || null,
+    city: city || null,
+  };
+}
+
+/* ------------------------- built-in rules-table provider ------------------------- */
+
+let _usNexus: Set<string> | null | undefined;
+
+/**
+ * US states where we collect tax.
+ * TAX_US_NEXUS_STATES="NY,NJ,PA" restricts collection; unset or "*" = every state in the table.
+ */
+function usNexusStates(): Set<string> | null {
+  if (_usNexus !== undefined) return _usNexus;
+
+  const raw = String(process.env.TAX_US_NEXUS_STATES ?? "").trim();
+  if (!raw || raw === "*") {
+    _usNexus = null;
+    return _usNexus;
+  }
+
+  _usNexus = new Set(
+    raw
+      .split(/[,\s]+/)
+      .map((v) => normCode(v))
+      .filter(Boolean),
+  );
+  return _usNexus;
+}
+
+export const rulesTableTaxProvider: TaxProvider = {
+  name: "rules_table",
+
+  supports(location) {
+    const country = normCode(location.country);
+    return country === "US" || country === "CA";
+  },
+
+  calculate(input) {
+    const country = normCode(input.location.country);
+    const region = normCode(input.location.state);
+
+    const nexus = country === "US" ? usNexusStates() : null;
+    if (nexus && !nexus.has(region)) {
+      return {
+        taxCents: 0,
+        rate: 0,
+        source: "rules_table",
+        taxableCents: 0,
+        breakdown: [],
+        notes: `No US nexus in ${region || "unknown state"}`,
+      };
+    }
+
+    const rule = findTaxRule(country, region);
+    if (!rule) {
+      return {
+        taxCents: 0,
+        rate: 0,
+        source: "rules_table",
+        taxableCents: 0,
+        breakdown: [],
+        notes: `No sales tax for ${country}-${region || "?"}`,
+      };
+    }
+
+    const base = taxableBaseCents(input, rule.shippingTaxable);
+
+    // Round each component separately (GST and PST are remitted separately in Canada).
+    const breakdown: TaxBreakdownLine[] = rule.components.map((c) => ({
+      code: c.code,
+      rate: c.rate,
+      taxCents: Math.round(base.totalCents * c.rate),
+    }));
+
+    const taxCents = breakdown.reduce((sum, b) => sum + b.taxCents, 0);
+    const rate = rule.components.reduce((sum, c) => sum + c.rate, 0);
+
+    return {
+      taxCents,
+      rate,
+      source: "rules_table",
+      taxableCents: base.totalCents,
+      breakdown,
+      ...(rule.shippingTaxable ? {} : { notes: "Shipping not taxable" }),
+    };
+  },
+};
+
+/* -------------------------------- registry -------------------------------- */
+
+let _providers: TaxProvider[] = [rulesTableTaxProvider];
+
+/**
+ * Register a provider ahead of the built-ins (e.g. Stripe Tax, Avalara).
+ * Returns an unregister function (handy in tests).
+ */
+export function registerTaxProvider(provider: TaxProvider): () => void {
+  _providers = [provider, ..._providers.filter((p) => p.name !== provider.name)];
+  return () => {
+    _providers = _providers.filter((p) => p !== provider);
+  };
+}
+
+/** Test hook: drop custom providers and cached env config. */
+export function resetTaxProviders() {
+  _providers = [rulesTableTaxProvider];
+  _usNexus = undefined;
+}
+
+/**
+ * Calculate tax for checkout totals.
+ * The first registered provider that supports the destination answers;
+ * result.source says which one.
  */
 export function calculateTaxCents(input: TaxInput): TaxResult {
-  void input; // keep signature stable
+  const location = input.location;
+
+  if (!location || !normCode(location.country)) {
+    return {
+      taxCents: 0,
+      rate: 0,
+      source: "none",
+      taxableCents: 0,
+      notes: "No destination; tax calculated at payment",
+    };
+  }
+
+  for (const provider of _providers) {
+    if (!provider.supports(location)) continue;
+    const result = provider.calculate({ ...input, location });
+    return { ...result, taxCents: clamp0(result.taxCents), source: result.source || provider.name };
+  }
 
   return {
     taxCents: 0,
     rate: 0,
-    source: "placeholder",
-    notes: "Tax not yet implemented",
+    source: "none",
+    taxableCents: 0,
+    notes: `No tax provider for ${normCode(location.country)}`,
   };
 }
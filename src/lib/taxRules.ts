@@ -0,0 +1,157 @@
+// src/lib/taxRules.ts
+// Built-in sales tax rules table used by the "rules_table" tax provider (see src/lib/tax.ts).
+//
+// Rates are the state/provincial base rates as fractions (0..1). Local (county/city) US
+// add-ons are intentionally not modeled here; plug in a richer provider for those.
+// Review these when jurisdictions publish changes (typically Jan 1 / Apr 1 / Jul 1).
+
+export type TaxComponentCode = "SALES" | "GST" | "HST" | "PST" | "QST";
+
+export type TaxRuleComponent = {
+  code: TaxComponentCode;
+  rate: number; // 0..1
+};
+
+export type TaxJurisdictionRule = {
+  country: "US" | "CA";
+  region: string; // state / province code
+  components: TaxRuleComponent[];
+  shippingTaxable: boolean;
+};
+
+/* ------------------------------ United States ------------------------------ */
+
+/**
+ * US state base rates.
+ * States with no statewide sales tax (AK, DE, MT, NH, OR) are omitted on purpose:
+ * a missing row means "no tax".
+ *
+ * shippingTaxable reflects whether separately-stated delivery charges are taxable
+ * when the goods are taxable (simplified; most states have carve-outs).
+ */
+const US_STATES: Record<string, { rate: number; shippingTaxable: boolean }> = {
+  AL: { rate: 0.04, shippingTaxable: false },
+  AR: { rate: 0.065, shippingTaxable: true },
+  AZ: { rate: 0.056, shippingTaxable: false },
+  CA: { rate: 0.0725, shippingTaxable: false },
+  CO: { rate: 0.029, shippingTaxable: false },
+  CT: { rate: 0.0635, shippingTaxable: true },
+  DC: { rate: 0.06, shippingTaxable: true },
+  FL: { rate: 0.06, shippingTaxable: false },
+  GA: { rate: 0.04, shippingTaxable: true },
+  HI: { rate: 0.04, shippingTaxable: true },
+  IA: { rate: 0.06, shippingTaxable: false },
+  ID: { rate: 0.06, shippingTaxable: false },
+  IL: { rate: 0.0625, shippingTaxable: false },
+  IN: { rate: 0.07, shippingTaxable: true },
+  KS: { rate: 0.065, shippingTaxable: true },
+  KY: { rate: 0.06, shippingTaxable: true },
+  LA: { rate: 0.05, shippingTaxable: false },
+  MA: { rate: 0.0625, shippingTaxable: false },
+  MD: { rate: 0.06, shippingTaxable: false },
+  ME: { rate: 0.055, shippingTaxable: false },
+  MI: { rate: 0.06, shippingTaxable: true },
+  MN: { rate: 0.06875, shippingTaxable: true },
+  MO: { rate: 0.04225, shippingTaxable: false },
+  MS: { rate: 0.07, shippingTaxable: true },
+  NC: { rate: 0.0475, shippingTaxable: true },
+  ND: { rate: 0.05, shippingTaxable: true },
+  NE: { rate: 0.055, shippingTaxable: true },
+  NJ: { rate: 0.06625, shippingTaxable: true },
+  NM: { rate: 0.04875, shippingTaxable: true },
+  NV: { rate: 0.0685, shippingTaxable: false },
+  NY: { rate: 0.04, shippingTaxable: true },
+  OH: { rate: 0.0575, shippingTaxable: true },
+  OK: { rate: 0.045, shippingTaxable: false },
+  PA: { rate: 0.06, shippingTaxable: true },
+  RI: { rate: 0.07, shippingTaxable: true },
+  SC: { rate: 0.06, shippingTaxable: true },
+  SD: { rate: 0.042, shippingTaxable: true },
+  TN: { rate: 0.07, shippingTaxable: true },
+  TX: { rate: 0.0625, shippingTaxable: true },
+  UT: { rate: 0.061, shippingTaxable: false },
+  VA: { rate: 0.053, shippingTaxable: false },
+  VT: { rate: 0.06, shippingTaxable: true },
+  WA: { rate: 0.065, shippingTaxable: true },
+  WI: { rate: 0.05, shippingTaxable: true },
+  WV: { rate: 0.06, shippingTaxable: true },
+  WY: { rate: 0.04, shippingTaxable: false },
+};
+
+/* --------------------------------- Canada --------------------------------- */
+
+const GST = 0.05;
+
+/**
+ * Canadian provinces/territories.
+ * - HST provinces charge a single harmonized rate.
+ * - GST provinces may add a provincial PST (or QST in Quebec).
+ * Shipping follows the goods in Canada, so it is taxable everywhere.
+ */
+const CA_PROVINCES: Record<string, TaxRuleComponent[]> = {
+  AB: [{ code: "GST", rate: GST }],
+  BC: [
+    { code: "GST", rate: GST },
+    { code: "PST", rate: 0.07 },
+  ],
+  MB: [
+    { code: "GST", rate: GST },
+    { code: "PST", rate: 0.07 },
+  ],
+  NB: [{ code: "HST", rate: 0.15 }],
+  NL: [{ code: "HST", rate: 0.15 }],
+  NS: [{ code: "HST", rate: 0.14 }],
+  NT: [{ code: "GST", rate: GST }],
+  NU: [{ code: "GST", rate: GST }],
+  ON: [{ code: "HST", rate: 0.13 }],
+  PE: [{ code: "HST", rate: 0.15 }],
+  QC: [
+    { code: "GST", rate: GST },
+    { code: "QST", rate: 0.09975 },
+  ],
+  SK: [
+    { code: "GST", rate: GST },
+    { code: "PST", rate: 0.06 },
+  ],
+  YT: [{ code: "GST", rate: GST }],
+};
+
+/* --------------------------------- lookup --------------------------------- */
+
+function normCode(v: unknown): string {
+  return String(v ?? "").trim().toUpperCase();
+}
+
+/**
+ * Resolve the tax rule for a destination.
+ * Returns null when the destination is unsupported or has no sales tax.
+ */
+export function findTaxRule(country: unknown, region: unknown): TaxJurisdictionRule | null {
+  const c = normCode(country);
+  const r = normCode(region);
+  if (!r) return null;
+
+  if (c === "US") {
+    const row = US_STATES[r];
+    if (!row) return null;
+    return {
+      country: "US",
+      region: r,
+      components: [{ code: "SALES", rate: row.rate }],
+      shippingTaxable: row.shippingTaxable,
+    };
+  }
+
+  if (c === "CA") {
+    const components = CA_PROVINCES[r];
+    if (!components) return null;
+    return { country: "CA", region: r, components, shippingTaxable: true };
+  }
+
+  return null;
+}
+
+/** Regions known to the rules table (used for nexus defaults + validation). */
+export function knownTaxRegions(country: "US" | "CA"): string[] {
+  return Object.keys(country === "US" ? US_STATES : CA_PROVINCES);
+}
@@ -1,6 +1,6 @@
 // src/middleware.ts
 import { clerkMiddleware, createRouteMatcher } from "@clerk/nextjs/server";
-import { NextResponse } from "next/server";
+import { NextResponse, type NextRequest } from "next/server";
 
 const isAccountRoute = createRouteMatcher(["/account(.*)"]);
 const isApiRoute = createRouteMatcher(["/api(.*)", "/trpc(.*)"]);
@@ -11,6 +11,15 @@ function ensureRequestId(req: Request): string {
   return crypto.randomUUID();
 }
 
+// Same cookie as src/lib/getOrSetSid.ts ("sid" is the legacy name)
+const SID_COOKIE = "adap_sid";
+
+/** A fresh sid when the request has none, else null. */
+function missingSid(req: NextRequest): string | null {
+  if (req.cookies.get(SID_COOKIE)?.value || req.cookies.get("sid")?.value) return null;
+  return crypto.randomUUID();
+}
+
 function maybeRedirectCanonical(req: Request): NextResponse | null {
   const url = new URL(req.url);
   const path = url.pathname;
@@ -55,7 +64,26 @@ export default clerkMiddleware(async (auth, req) => {
     return res;
   }
 
-  // Non-api: just continue (still echo request id as response header)
+  // Non-api: make sure the visitor has a session id before the page renders (hero A/B
+  // variants are assigned per sid), then continue (still echo request id as response header)
+  const sid = missingSid(req);
+  if (sid) {
+    const headers = new Headers(req.headers);
+    const cookie = headers.get("cookie");
+    headers.set("cookie", `${cookie ? `${cookie}; ` : ""}${SID_COOKIE}=${sid}`);
+
+    const res = NextResponse.next({ request: { headers } });
+    res.cookies.set(SID_COOKIE, sid, {
+      httpOnly: true,
+      sameSite: "lax",
+      path: "/",
+      secure: process.env.NODE_ENV === "production",
+      maxAge: 60 * 60 * 24 * 30,
+    });
+    res.headers.set("x-request-id", requestId);
+    return res;
+  }
+
   const res = NextResponse.next();
   res.headers.set("x-request-id", requestId);
   return res;
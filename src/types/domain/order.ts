@@ -2,7 +2,8 @@
 
 export type Currency = "USD" | "CAD";
 
-export type OrderStatus = "draft" | "placed" | "paid" | "fulfilled" | "cancelled" | (string & {});
+/** Mirrors the order_status enum (src/lib/db/schema/enums.ts) */
+export type OrderStatus = "draft" | "submitted" | "paid" | "fulfilled" | "cancelled" | "refunded";
 export type PaymentStatus = "paid" | "unpaid" | "pending" | "failed" | "refunded" | (string & {});
 
 export type Order = {